@@ -31,6 +31,11 @@ const GRAMMAR_PACKAGES = [
 	{ pkg: "tree-sitter-c", wasm: ["tree-sitter-c.wasm"] },
 	{ pkg: "tree-sitter-cpp", wasm: ["tree-sitter-cpp.wasm"] },
 	{ pkg: "tree-sitter-java", wasm: ["tree-sitter-java.wasm"] },
+	{ pkg: "tree-sitter-ruby", wasm: ["tree-sitter-ruby.wasm"] },
+	{ pkg: "tree-sitter-php", wasm: ["tree-sitter-php.wasm"] },
+	{ pkg: "tree-sitter-kotlin", wasm: ["tree-sitter-kotlin.wasm"] },
+	{ pkg: "tree-sitter-swift", wasm: ["tree-sitter-swift.wasm"] },
+	{ pkg: "tree-sitter-c-sharp", wasm: ["tree-sitter-c_sharp.wasm"] },
 	// NEW: Web languages
 	{ pkg: "tree-sitter-html", wasm: ["tree-sitter-html.wasm"] },
 	{ pkg: "tree-sitter-css", wasm: ["tree-sitter-css.wasm"] },
@@ -38,7 +43,10 @@ const GRAMMAR_PACKAGES = [
 	{ pkg: "tree-sitter-bash", wasm: ["tree-sitter-bash.wasm"] },
 	// NEW: Config formats
 	{ pkg: "tree-sitter-json", wasm: ["tree-sitter-json.wasm"] },
-	// NOTE: yaml, toml, markdown removed - no pre-built WASM available
+	{ pkg: "tree-sitter-yaml", wasm: ["tree-sitter-yaml.wasm"] },
+	{ pkg: "tree-sitter-toml", wasm: ["tree-sitter-toml.wasm"] },
+	// NEW: Document formats
+	{ pkg: "tree-sitter-markdown", wasm: ["tree-sitter-markdown.wasm"] },
 	// NEW: Dingo (pre-built WASM committed to repo)
 	{ pkg: "tree-sitter-dingo", wasm: ["tree-sitter-dingo.wasm"] },
 ];
@@ -74,6 +82,9 @@ const GITHUB_RELEASES: Record<string, string> = {
 	// NEW: Config formats (from AntoineCoumo releases)
 	"tree-sitter-json.wasm":
 		"https://github.com/AntoineCoumo/tree-sitter-grammars-wasm/releases/download/v1.0.3/tree-sitter-json.wasm",
+	// NEW: Markdown block grammar (from tree-sitter-grammars releases)
+	"tree-sitter-markdown.wasm":
+		"https://github.com/tree-sitter-grammars/tree-sitter-markdown/releases/download/v0.3.2/tree-sitter-markdown.wasm",
 };
 
 // Backup: UNPKG CDN for npm packages that include pre-built WASM
@@ -105,6 +116,24 @@ const UNPKG_URLS: Record<string, string> = {
 	// NEW: Config formats (unpkg fallback)
 	"tree-sitter-json.wasm":
 		"https://unpkg.com/tree-sitter-json@latest/tree-sitter-json.wasm",
+	// NEW: Ruby, PHP, C#, YAML and TOML (pinned grammar releases built for
+	// the web-tree-sitter 0.25 runtime)
+	"tree-sitter-ruby.wasm":
+		"https://unpkg.com/tree-sitter-ruby@0.23.1/tree-sitter-ruby.wasm",
+	"tree-sitter-php.wasm":
+		"https://unpkg.com/tree-sitter-php@0.24.2/tree-sitter-php.wasm",
+	"tree-sitter-c_sharp.wasm":
+		"https://unpkg.com/tree-sitter-c-sharp@0.23.5/tree-sitter-c_sharp.wasm",
+	"tree-sitter-yaml.wasm":
+		"https://unpkg.com/@tree-sitter-grammars/tree-sitter-yaml@0.7.1/tree-sitter-yaml.wasm",
+	"tree-sitter-toml.wasm":
+		"https://unpkg.com/@tree-sitter-grammars/tree-sitter-toml@0.7.0/tree-sitter-toml.wasm",
+	// NEW: Kotlin and Swift (their npm packages ship no WASM; pinned
+	// tree-sitter-wasms build of the grammars the queries are written for)
+	"tree-sitter-kotlin.wasm":
+		"https://unpkg.com/tree-sitter-wasms@0.1.13/out/tree-sitter-kotlin.wasm",
+	"tree-sitter-swift.wasm":
+		"https://unpkg.com/tree-sitter-wasms@0.1.13/out/tree-sitter-swift.wasm",
 };
 
 async function downloadFromUrl(name: string, url: string): Promise<boolean> {
@@ -13,7 +13,10 @@ import {
 	type EnrichedRetriever,
 } from "../retrieval/index.js";
 import { createLLMClient, type ILLMClient } from "../llm/client.js";
-import { getParserManager } from "../parsers/parser-manager.js";
+import {
+	type ParserManager,
+	getProjectParserManager,
+} from "../parsers/parser-manager.js";
 import type { SupportedLanguage } from "../types.js";
 import {
 	buildAutocompletePrompt,
@@ -79,12 +82,13 @@ function buildFimQuery(filePath: string, prefix: string): string {
 }
 
 function extractAstContext(args: {
+	parserManager: ParserManager;
 	filePath: string;
 	text: string;
 	offset: number;
 }): Promise<string | undefined> {
 	return (async () => {
-		const parserManager = getParserManager();
+		const { parserManager } = args;
 		const language = parserManager.getLanguage(args.filePath);
 		if (!language) return undefined;
 
@@ -140,8 +144,7 @@ export class AutocompleteEngine {
 
 		ensureProjectDir(this.projectPath);
 
-		const parserManager = getParserManager();
-		await parserManager.initialize();
+		await getProjectParserManager(this.projectPath).initialize();
 
 		const storePath = getVectorStorePath(this.projectPath);
 		this.store = createVectorStore(storePath);
@@ -236,7 +239,8 @@ export class AutocompleteEngine {
 			);
 		}
 
-		const parserLanguage = getParserManager().getLanguage(params.filePath);
+		const parserManager = getProjectParserManager(this.projectPath);
+		const parserLanguage = parserManager.getLanguage(params.filePath);
 		const language: SupportedLanguage | "unknown" = parserLanguage || "unknown";
 
 		const fimQuery = buildFimQuery(params.filePath, prefix);
@@ -259,6 +263,7 @@ export class AutocompleteEngine {
 		}
 
 		const astContext = await extractAstContext({
+			parserManager,
 			filePath: params.filePath,
 			text: astText,
 			offset: astOffset,
@@ -5,8 +5,14 @@
  */
 
 import { createHash } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync, readdirSync } from "node:fs";
-import { dirname, join, relative, resolve } from "node:path";
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	readdirSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { confirm, input, select } from "@inquirer/prompts";
 import inquirerSearch from "@inquirer/search";
@@ -33,14 +39,18 @@ import {
 	getEmbeddingModel,
 	getEmbeddingProvider,
 	getLLMSpec,
+	getVectorStorePath,
 	getVoyageApiKey,
 	hasValidEmbeddingCredentials,
 	isLearningEnabled,
+	isToolGuidanceEnabled,
 	isVectorEnabled,
 	loadGlobalConfig,
 	saveGlobalConfig,
+	saveProjectConfig,
 } from "./config.js";
 import { canChunkFile, chunkFileByPath } from "./core/chunker.js";
+import type { ReferenceCheck } from "./core/doctor/types.js";
 // Note: createIndexer imports store.js which loads LanceDB - made lazy to avoid startup errors
 // Use: const { createIndexer } = await import("./core/indexer.js");
 import {
@@ -82,6 +92,7 @@ import {
 	truncate,
 } from "./ui/index.js";
 import { agentOutput } from "./output/agent.js";
+import type { SupportedLanguage } from "./types.js";
 
 // ============================================================================
 // Version & Branding
@@ -299,6 +310,15 @@ export async function runCli(args: string[]): Promise<void> {
 		case "clear":
 			await handleClear(args.slice(1));
 			break;
+		case "cache":
+			await handleCache(args.slice(1));
+			break;
+		case "migrate-model":
+			await handleMigrateModel(args.slice(1));
+			break;
+		case "serve":
+			await handleServe(args.slice(1));
+			break;
 		case "init":
 			await handleInit();
 			break;
@@ -346,6 +366,12 @@ export async function runCli(args: string[]): Promise<void> {
 		case "context":
 			await handleContext(args.slice(1));
 			break;
+		case "grep-ast":
+			await handleGrepAst(args.slice(1));
+			break;
+		case "why":
+			await handleWhy(args.slice(1));
+			break;
 		// Code analysis commands
 		case "dead-code":
 			await handleDeadCode(args.slice(1));
@@ -380,6 +406,9 @@ export async function runCli(args: string[]): Promise<void> {
 		case "observe":
 			await handleObserve(args.slice(1));
 			break;
+		case "observations":
+			await handleObservations(args.slice(1));
+			break;
 		// Documentation commands
 		case "docs":
 			await handleDocs(args.slice(1));
@@ -1071,21 +1100,23 @@ async function handleCloudIndex(args: string[]): Promise<void> {
 // ============================================================================
 
 /**
- * `mnemex sync [path]`
+ * `mnemex sync [path] [--full]`
  *
- * Downloads the symbol graph from the cloud index and caches it locally.
- * After syncing, `map`, `callers`, and `callees` commands work offline
- * by reading from the locally cached graph data.
+ * Downloads the symbol graph from the cloud index into the local symbol
+ * graph tables. After syncing, `map`, `callers`, `callees`, `impact` and
+ * `dead-code` work offline off the shared index.
  *
  * Flow:
  *  1. Check cloud is enabled + authenticated
  *  2. Get current HEAD commit SHA
- *  3. Download graph (symbols + references + repo map) from cloud
- *  4. Cache repo map in local FileTracker metadata
+ *  3. Download graph (symbols + references + imports + repo map) from cloud —
+ *     only files changed since the last synced commit unless --full
+ *  4. Resolve references and recompute PageRank locally
  *  5. Print summary
  */
 async function handleSync(args: string[]): Promise<void> {
 	const pathArg = args.find((a) => !a.startsWith("-"));
+	const force = args.includes("--full");
 	const projectPath = pathArg ? resolve(pathArg) : process.cwd();
 
 	// Lazy-import cloud modules
@@ -1167,6 +1198,8 @@ async function handleSync(args: string[]): Promise<void> {
 		repoSlug,
 		commitSha,
 		fileTracker,
+		changeDetector,
+		force,
 		onProgress: agentMode
 			? undefined
 			: (message: string) => {
@@ -1180,14 +1213,21 @@ async function handleSync(args: string[]): Promise<void> {
 
 		if (agentMode) {
 			console.log(`commit=${commitSha.slice(0, 8)}`);
+			console.log(`mode=${result.mode}`);
+			console.log(`files_synced=${result.filesSynced}`);
 			console.log(`symbol_count=${result.symbolCount}`);
 			console.log(`reference_count=${result.referenceCount}`);
+			console.log(`resolved_count=${result.resolvedCount}`);
 			console.log(`duration_ms=${result.durationMs}`);
 		} else {
 			console.log(`\nGraph sync complete in ${durationSec}s!\n`);
 			console.log(`  Commit:     ${commitSha.slice(0, 8)}`);
+			console.log(`  Mode:       ${result.mode}`);
+			console.log(`  Files:      ${result.filesSynced}`);
 			console.log(`  Symbols:    ${result.symbolCount}`);
-			console.log(`  References: ${result.referenceCount}`);
+			console.log(
+				`  References: ${result.referenceCount} (${result.resolvedCount} resolved)`,
+			);
 		}
 	} catch (error) {
 		const { CloudApiError } = await import("./cloud/index.js");
@@ -1669,6 +1709,8 @@ async function handleSearch(args: string[]): Promise<void> {
 			const r = results[i];
 			if (r.documentType === "session_observation") {
 				printObservationResult(r);
+			} else if (r.documentType === "directory_summary") {
+				printDirectoryResult(r);
 			} else {
 				printSearchResult(r.chunk, r.score, queryTerms);
 			}
@@ -1699,6 +1741,7 @@ const ANSI_GREEN = "\x1b[32m";
 const ANSI_YELLOW = "\x1b[33m";
 const ANSI_RED = "\x1b[31m";
 const ANSI_MAGENTA = "\x1b[35m";
+const ANSI_CYAN = "\x1b[36m";
 
 const CHUNK_TYPE_ABBREV: Record<string, string> = {
 	function: "fn",
@@ -1807,7 +1850,10 @@ function printObservationResult(r: {
 	const scoreColor =
 		pct >= 70 ? ANSI_GREEN : pct >= 40 ? ANSI_YELLOW : ANSI_RED;
 
-	const leftPart = ` [observation] ${obsType}`;
+	const leftPart =
+		meta.status === "needs_review"
+			? ` [observation] ${obsType} (needs review)`
+			: ` [observation] ${obsType}`;
 	const scorePart = `${pct}%`;
 	const padding = Math.max(
 		1,
@@ -1826,6 +1872,33 @@ function printObservationResult(r: {
 	console.log("");
 }
 
+function printDirectoryResult(r: {
+	chunk: { content: string; filePath: string };
+	score: number;
+	directoryLevel?: string;
+}): void {
+	const termWidth = process.stdout.columns || 80;
+	const divider = "─".repeat(termWidth);
+
+	const pct = Math.round(r.score * 100);
+	const scoreColor =
+		pct >= 70 ? ANSI_GREEN : pct >= 40 ? ANSI_YELLOW : ANSI_RED;
+
+	const leftPart = ` [${r.directoryLevel ?? "directory"}] ${r.chunk.filePath}`;
+	const scorePart = `${pct}%`;
+	const padding = Math.max(
+		1,
+		termWidth - leftPart.length - scorePart.length - 1,
+	);
+	console.log(
+		`${ANSI_CYAN}${leftPart}${ANSI_RESET}${" ".repeat(padding)}${scoreColor}${scorePart}${ANSI_RESET}`,
+	);
+	console.log(divider);
+	const summary = r.chunk.content.match(/Summary:\s*(.+)/)?.[1];
+	console.log(`  ${summary ?? r.chunk.content}`);
+	console.log("");
+}
+
 function printSearchResult(
 	chunk: {
 		filePath: string;
@@ -1929,14 +2002,371 @@ async function handleStatus(args: string[]): Promise<void> {
 		if (status.embeddingModel) {
 			console.log(`  Embedding model: ${status.embeddingModel}`);
 		}
+		if (status.branch) {
+			const others = (status.indexedBranches ?? []).filter(
+				(b) => b !== status.branch,
+			);
+			console.log(
+				`  Branch: ${status.branch}${others.length > 0 ? ` (also indexed: ${others.join(", ")})` : ""}`,
+			);
+		}
 		if (status.lastUpdated) {
 			console.log(`  Last updated: ${status.lastUpdated.toISOString()}`);
 		}
+
+		// Global embedding cache (shared by all projects)
+		const { getEmbeddingCachePath } = await import("./config.js");
+		if (existsSync(getEmbeddingCachePath())) {
+			const { createEmbeddingCache } = await import(
+				"./core/embedding-cache.js"
+			);
+			const cache = createEmbeddingCache();
+			if (cache) {
+				try {
+					const stats = cache.getStats();
+					console.log(
+						`  Embedding cache: ${stats.entries} entries, ` +
+							`${(stats.hitRate * 100).toFixed(1)}% hit rate, ` +
+							`$${stats.costSaved.toFixed(4)} saved`,
+					);
+				} finally {
+					cache.close();
+				}
+			}
+		}
 	} finally {
 		await indexer.close();
 	}
 }
 
+async function handleCache(args: string[]): Promise<void> {
+	const subcommand = args.find((a) => !a.startsWith("-")) ?? "stats";
+
+	if (subcommand === "help") {
+		console.log(`
+Usage: mnemex cache <subcommand> [options]
+
+Subcommands:
+  stats               Show size, hit rate and savings (default)
+  prune               Remove entries
+    --older-than <days>   Only entries not used for this many days
+    --model <id>          Only entries of this model (as shown by stats)
+    --max-size <MB>       Evict least recently used entries beyond this size
+  clear [--force]     Remove all entries and reset statistics
+
+The cache lives in ~/.mnemex/embedding-cache.db and is shared by all projects.
+Configure it in ~/.mnemex/config.json:
+  "embeddingCache": { "enabled": true, "maxSizeMB": 2048 }
+`);
+		return;
+	}
+
+	const { createEmbeddingCache } = await import("./core/embedding-cache.js");
+	const cache = createEmbeddingCache();
+	if (!cache) {
+		console.log(
+			"\nEmbedding cache is disabled (embeddingCache.enabled in ~/.mnemex/config.json).",
+		);
+		return;
+	}
+
+	const getFlag = (name: string): string | undefined => {
+		const idx = args.indexOf(name);
+		return idx !== -1 ? args[idx + 1] : undefined;
+	};
+	const mb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+	try {
+		switch (subcommand) {
+			case "stats": {
+				const stats = cache.getStats();
+				if (args.includes("--json")) {
+					console.log(JSON.stringify(stats, null, 2));
+					break;
+				}
+				console.log("\n🗄️  Embedding Cache\n");
+				console.log(`  Entries:       ${stats.entries}`);
+				console.log(
+					`  Size:          ${mb(stats.sizeBytes)} / ${mb(stats.maxSizeBytes)}`,
+				);
+				console.log(
+					`  Hit rate:      ${(stats.hitRate * 100).toFixed(1)}% ` +
+						`(${stats.hits} hits, ${stats.misses} misses)`,
+				);
+				console.log(`  Tokens saved:  ${stats.tokensSaved}`);
+				console.log(`  Cost saved:    $${stats.costSaved.toFixed(4)}`);
+				if (stats.models.length > 0) {
+					console.log("\n  Models:");
+					for (const m of stats.models) {
+						console.log(
+							`    • ${m.model} (${m.entries} entries, ${mb(m.sizeBytes)})`,
+						);
+					}
+				}
+				console.log("");
+				break;
+			}
+
+			case "prune": {
+				const olderThan = getFlag("--older-than");
+				const model = getFlag("--model");
+				const maxSize = getFlag("--max-size");
+				if (!olderThan && !model && !maxSize) {
+					console.error(
+						"Specify --older-than <days>, --model <id> and/or --max-size <MB>.",
+					);
+					process.exit(1);
+				}
+
+				let removed = 0;
+				if (olderThan || model) {
+					removed += cache.prune({
+						model,
+						olderThanDays: olderThan ? Number.parseFloat(olderThan) : undefined,
+					});
+				}
+				if (maxSize) {
+					removed += cache.evict(
+						Number.parseFloat(maxSize) * 1024 * 1024,
+					).entries;
+				}
+				console.log(`\n✅ Removed ${removed} cached embeddings.`);
+				break;
+			}
+
+			case "clear": {
+				if (!args.includes("--force") && !args.includes("-f")) {
+					const confirmed = await confirm({
+						message: "Clear the embedding cache for all projects?",
+						default: false,
+					});
+					if (!confirmed) {
+						console.log("Cancelled.");
+						return;
+					}
+				}
+				cache.clear();
+				console.log("\n✅ Embedding cache cleared.");
+				break;
+			}
+
+			default:
+				console.error(`Unknown subcommand: ${subcommand}`);
+				console.error('Run "mnemex cache help" for usage.');
+				process.exit(1);
+		}
+	} finally {
+		cache.close();
+	}
+}
+
+async function handleMigrateModel(args: string[]): Promise<void> {
+	const valueFlags = ["-p", "--path", "--tolerance"];
+	const getFlag = (name: string): string | undefined => {
+		const idx = args.indexOf(name);
+		return idx !== -1 ? args[idx + 1] : undefined;
+	};
+	const model = args.find(
+		(a, i) => !a.startsWith("-") && !valueFlags.includes(args[i - 1]),
+	);
+	const pathArg = getFlag("--path") ?? getFlag("-p");
+	const projectPath = pathArg ? resolve(pathArg) : process.cwd();
+	const force = args.includes("--force") || args.includes("-f");
+	const tolerance = Number.parseFloat(getFlag("--tolerance") ?? "");
+
+	if (args.includes("--help") || args.includes("-h")) {
+		console.log(`
+Usage: mnemex migrate-model <model> [options]
+       mnemex migrate-model --status | --compare | --swap | --rollback | --discard
+
+Re-embeds the index with another embedding model in a shadow table while
+searches keep using the current one, compares retrieval quality on the
+benchmark queries of the last 'mnemex benchmark-llm' run, then swaps.
+
+Options:
+  --no-swap            Build and compare only; swap later with --swap
+  --force, -f          Swap even if quality drops or there are no benchmark queries
+  --tolerance <mrr>    Allowed MRR drop before a swap needs --force (default: 0.01)
+  --path, -p <dir>     Project path (default: current directory)
+
+Actions:
+  --status             Show active, shadow and rollback tables
+  --compare            Compare the shadow table with the active one
+  --swap               Catch the shadow table up and make it active
+  --rollback           Switch back to the table replaced by the last swap
+  --discard            Delete the shadow table
+`);
+		return;
+	}
+
+	const migration = await import("./core/model-migration.js");
+	const { ModelMigrationError } = migration;
+	const maxDrop = Number.isNaN(tolerance)
+		? migration.DEFAULT_MRR_TOLERANCE
+		: tolerance;
+	const onProgress = (message: string) => {
+		process.stdout.write(`\r  ${message}`.padEnd(60));
+	};
+
+	const printComparison = (
+		comparison: Awaited<ReturnType<typeof migration.compareTables>>,
+	) => {
+		if (!comparison) {
+			console.log(
+				"\n⚠️  No benchmark queries found. Run 'mnemex benchmark-llm' to compare models.",
+			);
+			return;
+		}
+		console.log(
+			`\n📊 Retrieval quality (${comparison.active.queries} queries, top ${comparison.k})\n`,
+		);
+		for (const [label, score] of [
+			["Active", comparison.active],
+			["Shadow", comparison.shadow],
+		] as const) {
+			console.log(
+				`  ${label}  ${score.model.padEnd(36)} hit@${comparison.k} ${(score.hitRate * 100).toFixed(1).padStart(5)}%   MRR ${score.mrr.toFixed(3)}`,
+			);
+		}
+	};
+
+	/** Compare, then swap when quality holds up (or when forced) */
+	const compareAndSwap = async () => {
+		const comparison = await migration.compareTables(projectPath);
+		printComparison(comparison);
+		if (!force) {
+			if (!comparison) {
+				console.log(
+					"\nShadow table kept. Swap without a comparison: mnemex migrate-model --swap --force",
+				);
+				return;
+			}
+			if (!migration.isSwapSafe(comparison, maxDrop)) {
+				console.log(
+					"\n❌ The new model retrieves worse than the current one. Shadow table kept.",
+				);
+				console.log("   Swap anyway: mnemex migrate-model --swap --force");
+				return;
+			}
+		}
+
+		const result = await migration.swapTables(projectPath, { onProgress });
+		const model = migration.getVectorTables(projectPath)?.active.model;
+		console.log(
+			`\n\n✅ Swapped to ${model} (caught up ${result.embedded} rows, removed ${result.deleted}).`,
+		);
+		console.log("   Roll back with: mnemex migrate-model --rollback");
+		if (migration.isModelOverridden()) {
+			console.log(
+				"\n⚠️  MNEMEX_MODEL is set and overrides the migrated model for indexing.",
+			);
+		}
+	};
+
+	try {
+		if (args.includes("--status")) {
+			const state = migration.getVectorTables(projectPath);
+			if (!state) {
+				console.log("\nNo index found.");
+				return;
+			}
+			console.log("\n🔁 Vector tables\n");
+			console.log(`  Active:    ${state.active.model} (${state.active.dir})`);
+			if (state.shadow) {
+				console.log(
+					`  Shadow:    ${state.shadow.model} (${state.shadow.dir}, ${state.shadow.records} rows, built ${state.shadow.builtAt})`,
+				);
+			}
+			if (state.previous) {
+				console.log(
+					`  Rollback:  ${state.previous.model} (${state.previous.dir}, retired ${state.previous.retiredAt})`,
+				);
+			}
+			return;
+		}
+
+		if (args.includes("--compare")) {
+			printComparison(await migration.compareTables(projectPath));
+			return;
+		}
+
+		if (args.includes("--swap")) {
+			await compareAndSwap();
+			return;
+		}
+
+		if (args.includes("--rollback")) {
+			const result = await migration.rollbackTables(projectPath, {
+				onProgress,
+			});
+			const model = migration.getVectorTables(projectPath)?.active.model;
+			console.log(
+				`\n\n✅ Rolled back to ${model} (caught up ${result.embedded} rows, removed ${result.deleted}).`,
+			);
+			return;
+		}
+
+		if (args.includes("--discard")) {
+			migration.discardShadowTable(projectPath);
+			console.log("\n✅ Shadow table deleted.");
+			return;
+		}
+
+		if (!model) {
+			console.error(
+				"Usage: mnemex migrate-model <model> [--no-swap] [--force]",
+			);
+			console.error('Run "mnemex migrate-model --help" for more.');
+			process.exit(1);
+		}
+
+		console.log(`\n🔁 Building shadow table for ${model}...\n`);
+		const result = await migration.buildShadowTable(projectPath, model, {
+			onProgress,
+		});
+		console.log(`\n\n✅ Embedded ${result.total} rows with ${model}.`);
+
+		if (args.includes("--no-swap")) {
+			printComparison(await migration.compareTables(projectPath));
+			console.log("\nSwap when ready: mnemex migrate-model --swap");
+			return;
+		}
+		await compareAndSwap();
+	} catch (error) {
+		if (error instanceof ModelMigrationError) {
+			console.error(`\n❌ ${error.message}`);
+			process.exit(1);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Handle 'serve' command - long-lived server for editor clients
+ */
+async function handleServe(args: string[]): Promise<void> {
+	if (!args.includes("--jsonrpc")) {
+		console.error("Usage: mnemex serve --jsonrpc [path]");
+		console.error(
+			"Serves the editor protocol (JSON-RPC 2.0, one message per line) over stdio.",
+		);
+		process.exit(1);
+	}
+
+	const projectIdx = args.findIndex((a) => a === "--project" || a === "-p");
+	const pathArg =
+		projectIdx !== -1
+			? args[projectIdx + 1]
+			: args.find((a) => !a.startsWith("-"));
+
+	// stdout carries protocol messages only
+	const { startJsonRpcServer } = await import("./rpc/server.js");
+	await startJsonRpcServer({
+		projectPath: pathArg ? resolve(pathArg) : process.cwd(),
+		serverVersion: VERSION,
+	});
+}
+
 async function handleClear(args: string[]): Promise<void> {
 	printLogo();
 
@@ -4294,18 +4724,22 @@ async function handleMap(args: string[]): Promise<void> {
 
 	try {
 		const repoMapGen = createRepoMapGenerator(tracker);
+		const { readDirectorySummaries } = await import(
+			"./core/summarization/index.js"
+		);
+		const directorySummaries = await readDirectorySummaries(projectPath);
 
 		if (agentMode) {
 			// Agent mode: structured key=value output
 			const structured = repoMapGen.generateStructured({ maxTokens: 1000 });
-			agentOutput.mapOutput(structured);
+			agentOutput.mapOutput(structured, directorySummaries);
 			return;
 		} else {
 			let output: string;
 			if (query) {
 				output = repoMapGen.generateForQuery(query, { maxTokens });
 			} else {
-				output = repoMapGen.generate({ maxTokens });
+				output = repoMapGen.generate({ maxTokens, directorySummaries });
 			}
 			printLogo();
 			console.log("\n📊 Repository Map\n");
@@ -4794,35 +5228,54 @@ async function handleContext(args: string[]): Promise<void> {
 	}
 }
 
-// ============================================================================
-// Code Analysis Commands
-// ============================================================================
-
 /**
- * Handle 'dead-code' command - find potentially dead code
+ * Handle 'grep-ast' command - structural search with tree-sitter queries or
+ * code patterns with metavariables
  */
-async function handleDeadCode(args: string[]): Promise<void> {
+async function handleGrepAst(args: string[]): Promise<void> {
 	const projectPath = resolve(".");
 
 	// Check index version and warn if outdated (non-blocking)
 	await printVersionWarning(projectPath);
 
-	// Parse --max-pagerank flag
-	let maxPageRank = 0.001;
-	const prIdx = args.findIndex((a) => a === "--max-pagerank");
-	if (prIdx !== -1 && args[prIdx + 1]) {
-		maxPageRank = Number.parseFloat(args[prIdx + 1]) || 0.001;
-	}
-
-	// Parse --limit flag
-	let limit = 50;
-	const limitIdx = args.findIndex((a) => a === "--limit" || a === "-n");
-	if (limitIdx !== -1 && args[limitIdx + 1]) {
-		limit = Number.parseInt(args[limitIdx + 1], 10) || 50;
+	const flagValue = (...names: string[]): string | undefined => {
+		const idx = args.findIndex((a) => names.includes(a));
+		return idx !== -1 ? args[idx + 1] : undefined;
+	};
+	const listFlag = (name: string): string[] | undefined =>
+		flagValue(name)
+			?.split(",")
+			.map((t) => t.trim())
+			.filter(Boolean);
+
+	// Positional pattern: first argument that is neither a flag nor a flag value
+	const valueFlags = [
+		"--query",
+		"-q",
+		"--lang",
+		"--glob",
+		"--inside",
+		"--not-inside",
+		"--limit",
+		"-n",
+	];
+	const pattern = args.find(
+		(a, i) => !a.startsWith("-") && !valueFlags.includes(args[i - 1]),
+	);
+	const query = flagValue("--query", "-q");
+	if (!pattern && !query) {
+		const usage =
+			"Usage: mnemex grep-ast <pattern> | --query <s-expression> [--lang <language>] [--glob <glob>] [--inside <types>] [--not-inside <types>] [--limit N] [--json]";
+		if (agentMode) {
+			agentOutput.error(usage);
+		} else {
+			console.error(usage);
+		}
+		process.exit(1);
 	}
 
-	// Parse --include-exported flag
-	const includeExported = args.includes("--include-exported");
+	const limitArg = flagValue("--limit", "-n");
+	const limit = limitArg ? Number.parseInt(limitArg, 10) || 50 : 50;
 
 	const tracker = getFileTracker(projectPath);
 	if (!tracker) {
@@ -4835,26 +5288,285 @@ async function handleDeadCode(args: string[]): Promise<void> {
 	}
 
 	try {
-		const { createCodeAnalyzer } = await import("./core/analysis/index.js");
-		const analyzer = createCodeAnalyzer(tracker);
+		const { createStructuralSearch } = await import(
+			"./core/ast/structural-search.js"
+		);
+		const search = createStructuralSearch(tracker, projectPath);
 
-		const results = analyzer.findDeadCode({
-			maxPageRank,
-			unexportedOnly: !includeExported,
-			excludeTestFiles: true,
-			limit,
-		});
+		let result: Awaited<ReturnType<typeof search.search>>;
+		try {
+			result = await search.search({
+				query,
+				pattern: query ? undefined : pattern,
+				language: flagValue("--lang") as SupportedLanguage | undefined,
+				fileGlob: flagValue("--glob"),
+				inside: listFlag("--inside"),
+				notInside: listFlag("--not-inside"),
+				limit,
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			if (agentMode) {
+				agentOutput.error(message);
+			} else {
+				console.error(`Error: ${message}`);
+			}
+			process.exit(1);
+		}
+
+		if (args.includes("--json")) {
+			console.log(JSON.stringify(result, null, 2));
+			return;
+		}
 
 		if (agentMode) {
-			agentOutput.deadCodeOutput(results);
+			for (const m of result.matches) {
+				const captures = m.captures
+					.map((c) => `${c.name}=${c.text.split("\n")[0]}`)
+					.join(" ");
+				console.log(
+					`${m.filePath}:${m.startLine}-${m.endLine}${captures ? ` ${captures}` : ""}`,
+				);
+			}
 			return;
-		} else {
-			printLogo();
-			console.log("\n💀 Dead Code Analysis\n");
+		}
 
-			if (results.length === 0) {
-				console.log("  No dead code found! Your codebase is clean.");
-			} else {
+		printLogo();
+		console.log("\n🌳 Structural Search\n");
+		if (result.matches.length === 0) {
+			console.log(
+				`  No matches in ${result.filesSearched} file(s) (${result.languages.join(", ") || "no languages"}).`,
+			);
+		} else {
+			for (const m of result.matches) {
+				console.log(`  ${m.filePath}:${m.startLine}-${m.endLine}`);
+				console.log(`     ${m.text.split("\n")[0]}`);
+				for (const capture of m.captures) {
+					console.log(
+						`     ${capture.name}: ${capture.text.split("\n")[0]} (line ${capture.startLine})`,
+					);
+				}
+			}
+			console.log(
+				`\n  ${result.matches.length} match(es) in ${result.filesSearched} file(s)${result.truncated ? " (limit reached)" : ""}`,
+			);
+		}
+		console.log("");
+	} finally {
+		tracker.close();
+	}
+}
+
+/**
+ * Handle 'why' command - commits and authors that shaped a symbol's lines
+ */
+async function handleWhy(args: string[]): Promise<void> {
+	const projectPath = resolve(".");
+
+	// Check index version and warn if outdated (non-blocking)
+	await printVersionWarning(projectPath);
+
+	const valueFlags = ["--file", "--commits"];
+	const symbolName = args.find(
+		(a, i) => !a.startsWith("-") && !valueFlags.includes(args[i - 1]),
+	);
+	if (!symbolName) {
+		if (agentMode) {
+			agentOutput.error("Usage: mnemex --agent why <name>");
+		} else {
+			console.error(
+				"Usage: mnemex why <name> [--file <hint>] [--commits N] [--json]",
+			);
+		}
+		process.exit(1);
+	}
+
+	let fileHint: string | undefined;
+	const fileIdx = args.findIndex((a) => a === "--file");
+	if (fileIdx !== -1 && args[fileIdx + 1]) {
+		fileHint = args[fileIdx + 1];
+	}
+
+	let maxCommits = 10;
+	const commitsIdx = args.findIndex((a) => a === "--commits");
+	if (commitsIdx !== -1 && args[commitsIdx + 1]) {
+		maxCommits = Number.parseInt(args[commitsIdx + 1], 10) || 10;
+	}
+
+	const tracker = getFileTracker(projectPath);
+	if (!tracker) {
+		if (agentMode) {
+			agentOutput.error("No index found. Run 'mnemex index' first.");
+		} else {
+			console.error("No index found. Run 'mnemex index' first.");
+		}
+		process.exit(1);
+	}
+
+	try {
+		const graphManager = createReferenceGraphManager(tracker);
+		const symbol = graphManager.findSymbol(symbolName, {
+			preferExported: true,
+			fileHint,
+		});
+
+		if (!symbol) {
+			if (agentMode) {
+				agentOutput.error(`Symbol '${symbolName}' not found`);
+			} else {
+				console.error(`Symbol '${symbolName}' not found.`);
+			}
+			process.exit(1);
+		}
+
+		const { createGitHistory } = await import("./git/history.js");
+		const history = createGitHistory(projectPath);
+		if (!(await history.isAvailable())) {
+			if (agentMode) {
+				agentOutput.error("Not a git repository (or no commits yet)");
+			} else {
+				console.error("Not a git repository (or no commits yet).");
+			}
+			process.exit(1);
+		}
+
+		const explained = await history.explainLines(
+			symbol.filePath,
+			symbol.startLine,
+			symbol.endLine,
+			maxCommits,
+		);
+
+		if (args.includes("--json")) {
+			console.log(
+				JSON.stringify(
+					{
+						symbol: {
+							name: symbol.name,
+							kind: symbol.kind,
+							file: symbol.filePath,
+							line: symbol.startLine,
+							endLine: symbol.endLine,
+						},
+						...explained,
+					},
+					null,
+					2,
+				),
+			);
+			return;
+		}
+
+		if (agentMode) {
+			for (const commit of explained.commits) {
+				const ranges = commit.ranges
+					.map(([start, end]) =>
+						start === end ? `${start}` : `${start}-${end}`,
+					)
+					.join(",");
+				console.log(
+					`${commit.shortHash} ${commit.date.slice(0, 10)} ${commit.author} lines=${ranges} ${commit.message.split("\n")[0]}`,
+				);
+			}
+			return;
+		}
+
+		printLogo();
+		console.log(
+			`\n📜 Why ${symbol.name} (${symbol.filePath}:${symbol.startLine}-${symbol.endLine})\n`,
+		);
+		if (explained.commits.length === 0) {
+			console.log("  No committed lines yet.");
+		}
+		for (const commit of explained.commits) {
+			console.log(
+				`  ${commit.shortHash}  ${commit.date.slice(0, 10)}  ${commit.author}  (${commit.lines} line${commit.lines === 1 ? "" : "s"})`,
+			);
+			for (const line of commit.message.split("\n")) {
+				console.log(`     ${line}`);
+			}
+			console.log("");
+		}
+		if (explained.authors.length > 0) {
+			console.log("  Authors:");
+			for (const author of explained.authors) {
+				console.log(
+					`     ${author.author} <${author.email}>  ${author.lines} line(s), ${author.commits} commit(s)`,
+				);
+			}
+		}
+		if (explained.uncommittedLines > 0) {
+			console.log(
+				`\n  ${explained.uncommittedLines} line(s) not committed yet`,
+			);
+		}
+		console.log("");
+	} finally {
+		tracker.close();
+	}
+}
+
+// ============================================================================
+// Code Analysis Commands
+// ============================================================================
+
+/**
+ * Handle 'dead-code' command - find potentially dead code
+ */
+async function handleDeadCode(args: string[]): Promise<void> {
+	const projectPath = resolve(".");
+
+	// Check index version and warn if outdated (non-blocking)
+	await printVersionWarning(projectPath);
+
+	// Parse --max-pagerank flag
+	let maxPageRank = 0.001;
+	const prIdx = args.findIndex((a) => a === "--max-pagerank");
+	if (prIdx !== -1 && args[prIdx + 1]) {
+		maxPageRank = Number.parseFloat(args[prIdx + 1]) || 0.001;
+	}
+
+	// Parse --limit flag
+	let limit = 50;
+	const limitIdx = args.findIndex((a) => a === "--limit" || a === "-n");
+	if (limitIdx !== -1 && args[limitIdx + 1]) {
+		limit = Number.parseInt(args[limitIdx + 1], 10) || 50;
+	}
+
+	// Parse --include-exported flag
+	const includeExported = args.includes("--include-exported");
+
+	const tracker = getFileTracker(projectPath);
+	if (!tracker) {
+		if (agentMode) {
+			agentOutput.error("No index found. Run 'mnemex index' first.");
+		} else {
+			console.error("No index found. Run 'mnemex index' first.");
+		}
+		process.exit(1);
+	}
+
+	try {
+		const { createCodeAnalyzer } = await import("./core/analysis/index.js");
+		const analyzer = createCodeAnalyzer(tracker, projectPath);
+
+		const results = analyzer.findDeadCode({
+			maxPageRank,
+			unexportedOnly: !includeExported,
+			excludeTestFiles: true,
+			limit,
+		});
+
+		if (agentMode) {
+			agentOutput.deadCodeOutput(results);
+			return;
+		} else {
+			printLogo();
+			console.log("\n💀 Dead Code Analysis\n");
+
+			if (results.length === 0) {
+				console.log("  No dead code found! Your codebase is clean.");
+			} else {
 				console.log(`  Found ${results.length} potentially dead symbol(s):\n`);
 				for (const r of results) {
 					console.log(`  ${r.symbol.name}`);
@@ -4906,7 +5618,7 @@ async function handleTestGaps(args: string[]): Promise<void> {
 
 	try {
 		const { createCodeAnalyzer } = await import("./core/analysis/index.js");
-		const analyzer = createCodeAnalyzer(tracker);
+		const analyzer = createCodeAnalyzer(tracker, projectPath);
 
 		const results = analyzer.findTestGaps({
 			minPageRank,
@@ -4991,7 +5703,7 @@ async function handleImpact(args: string[]): Promise<void> {
 
 	try {
 		const { createCodeAnalyzer } = await import("./core/analysis/index.js");
-		const analyzer = createCodeAnalyzer(tracker);
+		const analyzer = createCodeAnalyzer(tracker, projectPath);
 
 		// Find the target symbol
 		const target = analyzer.findSymbolForImpact(symbolName, fileHint);
@@ -5709,7 +6421,7 @@ async function handleDocsProviders(projectPath: string): Promise<void> {
 	const { getDocsConfig, hasContext7ApiKey } = await import("./config.js");
 
 	const config = getDocsConfig(projectPath);
-	const providers = createProviders(config);
+	const providers = createProviders(config, projectPath);
 
 	printLogo();
 	console.log("\n📚 Documentation Providers\n");
@@ -5721,6 +6433,9 @@ async function handleDocsProviders(projectPath: string): Promise<void> {
 	);
 	console.log("  llms.txt:  ✓ Available (free)");
 	console.log("  DevDocs:   ✓ Available (free)");
+	console.log(
+		`  Local:     ${config.providers.includes("local") ? "✓ Installed dependencies (offline)" : "✗ Disabled"}`,
+	);
 
 	if (!context7Configured) {
 		console.log("\n  To enable Context7:");
@@ -5728,7 +6443,7 @@ async function handleDocsProviders(projectPath: string): Promise<void> {
 		console.log("    2. Run: export CONTEXT7_API_KEY=your_key");
 	}
 
-	console.log("\n  Provider priority: Context7 > llms.txt > DevDocs");
+	console.log("\n  Provider priority: Context7 > llms.txt > DevDocs > Local");
 	console.log(`  Active providers:  ${providers.length}\n`);
 }
 
@@ -5819,7 +6534,7 @@ async function handleObserve(args: string[]): Promise<void> {
 
 	if (!content) {
 		const msg =
-			"Usage: mnemex observe <text> --file <path> [--type <type>] [--confidence <0-1>]";
+			"Usage: mnemex observe <text> --file <path> [--symbol <name>] [--type <type>] [--confidence <0-1>]";
 		if (agentMode) {
 			const { agentOutput } = await import("./output/agent.js");
 			agentOutput.error(msg);
@@ -5829,9 +6544,18 @@ async function handleObserve(args: string[]): Promise<void> {
 		process.exit(1);
 	}
 
-	// Parse --file (comma-separated)
+	// Parse --file (comma-separated), stored relative to the project root
 	const fileIdx = args.findIndex((a) => a === "--file");
-	const affectedFiles = fileIdx >= 0 ? args[fileIdx + 1].split(",") : [];
+	const affectedFiles =
+		fileIdx >= 0
+			? args[fileIdx + 1]
+					.split(",")
+					.map((f) => (isAbsolute(f) ? relative(projectPath, f) : f))
+			: [];
+
+	// Parse --symbol (comma-separated)
+	const symbolIdx = args.findIndex((a) => a === "--symbol");
+	const affectedSymbols = symbolIdx >= 0 ? args[symbolIdx + 1].split(",") : [];
 
 	// Parse --type (default: "pattern")
 	const typeIdx = args.findIndex((a) => a === "--type");
@@ -5841,59 +6565,41 @@ async function handleObserve(args: string[]): Promise<void> {
 	const confIdx = args.findIndex((a) => a === "--confidence");
 	const confidence = confIdx >= 0 ? Number.parseFloat(args[confIdx + 1]) : 0.7;
 
-	const { createIndexer } = await import("./core/indexer.js");
-	const indexer = createIndexer({ projectPath });
+	const { createVectorStore } = await import("./core/store.js");
+	const { createObservationManager } = await import("./core/observations.js");
+	const store = createVectorStore(getVectorStorePath(projectPath));
 
 	try {
-		const embeddingsClient = createEmbeddingsClient();
-
-		// Generate embedding for the observation content
-		const embedding = await embeddingsClient.embedOne(content);
-
-		// Create document ID from content hash
-		const id = createHash("sha256")
-			.update(`observation:${content}:${affectedFiles.join(",")}`)
-			.digest("hex")
-			.slice(0, 16);
-
-		const now = new Date().toISOString();
-		const doc = {
-			id,
+		const manager = createObservationManager(store, createEmbeddingsClient());
+		const { observation, merged } = await manager.record({
 			content,
-			documentType: "session_observation" as const,
-			filePath: affectedFiles[0] || "",
-			fileHash: "",
-			createdAt: now,
-			enrichedAt: now,
-			sourceIds: [],
-			metadata: {
-				observationType,
-				confidence,
-				affectedFiles,
-			},
-			vector: embedding,
-		};
-
-		// Write to LanceDB via vectorStore
-		const { createVectorStore } = await import("./core/store.js");
-		const store = await createVectorStore(projectPath);
-		await store.addDocuments([doc]);
-		await store.close();
+			affectedFiles,
+			affectedSymbols,
+			observationType,
+			confidence,
+		});
+		const meta = observation.metadata;
 
 		if (agentMode) {
-			console.log(`observation_id=${id}`);
-			console.log(`type=${observationType}`);
-			console.log(`confidence=${confidence}`);
-			console.log(`files=${affectedFiles.join(",")}`);
+			console.log(`observation_id=${observation.id}`);
+			console.log(`merged=${merged}`);
+			console.log(`type=${meta.observationType}`);
+			console.log(`confidence=${meta.confidence}`);
+			console.log(`files=${meta.affectedFiles.join(",")}`);
 		} else {
 			console.log(
-				`\n✅ Observation recorded (${observationType}, confidence=${confidence})`,
+				merged
+					? `\n✅ Merged into an existing observation (seen ${meta.occurrences} times, confidence=${meta.confidence.toFixed(2)})`
+					: `\n✅ Observation recorded (${observationType}, confidence=${confidence})`,
 			);
-			console.log(`   ID: ${id}`);
-			if (affectedFiles.length > 0) {
-				console.log(`   Files: ${affectedFiles.join(", ")}`);
+			console.log(`   ID: ${observation.id}`);
+			if (meta.affectedFiles.length > 0) {
+				console.log(`   Files: ${meta.affectedFiles.join(", ")}`);
+			}
+			if (meta.affectedSymbols && meta.affectedSymbols.length > 0) {
+				console.log(`   Symbols: ${meta.affectedSymbols.join(", ")}`);
 			}
-			console.log(`   "${content}"\n`);
+			console.log(`   "${observation.content}"\n`);
 		}
 	} catch (error) {
 		if (agentMode) {
@@ -5904,7 +6610,175 @@ async function handleObserve(args: string[]): Promise<void> {
 		}
 		process.exit(1);
 	} finally {
-		await indexer.close();
+		await store.close();
+	}
+}
+
+/**
+ * Handle 'observations' command - review recorded observations
+ *
+ * Usage:
+ *   mnemex observations [list] [--status needs_review] [--json]
+ *   mnemex observations review
+ *   mnemex observations confirm <id> [--confidence 0.9]
+ *   mnemex observations edit <id> <text>
+ *   mnemex observations retire <id> [--reason <text>]
+ */
+async function handleObservations(args: string[]): Promise<void> {
+	const valueFlags = ["-p", "--path", "--status", "--confidence", "--reason"];
+	const positional = args.filter(
+		(a, i) => !a.startsWith("-") && !valueFlags.includes(args[i - 1]),
+	);
+	const getFlag = (name: string): string | undefined => {
+		const idx = args.indexOf(name);
+		return idx !== -1 ? args[idx + 1] : undefined;
+	};
+	const subcommand = positional[0] ?? "list";
+	const id = positional[1];
+	const pathArg = getFlag("--path") ?? getFlag("-p");
+	const projectPath = pathArg ? resolve(pathArg) : process.cwd();
+
+	if (subcommand === "help") {
+		console.log(`
+Usage: mnemex observations <subcommand> [options]
+
+Subcommands:
+  list [--status <s>] [--json]   List observations (default; status: active|needs_review|retired)
+  review                         List observations flagged because their code changed
+  confirm <id> [--confidence n]  Mark as still accurate (clears the flag, restarts decay)
+  edit <id> <text>               Rewrite an observation (re-embedded, confirmed)
+  retire <id> [--reason <text>]  Stop surfacing an observation
+
+Observations lose half their confidence every 90 days unless confirmed.
+`);
+		return;
+	}
+
+	const { createVectorStore } = await import("./core/store.js");
+	const { createObservationManager, getEffectiveConfidence } = await import(
+		"./core/observations.js"
+	);
+	const store = createVectorStore(getVectorStorePath(projectPath));
+	const needsEmbeddings = subcommand === "edit";
+	const manager = createObservationManager(
+		store,
+		needsEmbeddings ? createEmbeddingsClient() : undefined,
+	);
+
+	const requireId = () => {
+		if (!id) {
+			console.error(`Usage: mnemex observations ${subcommand} <id>`);
+			process.exit(1);
+		}
+		return id;
+	};
+	const notFound = () => {
+		console.error(`Observation not found: ${id}`);
+		process.exit(1);
+	};
+
+	try {
+		switch (subcommand) {
+			case "list":
+			case "review": {
+				const status =
+					subcommand === "review"
+						? "needs_review"
+						: (getFlag("--status") as
+								| "active"
+								| "needs_review"
+								| "retired"
+								| undefined);
+				const observations = await manager.list(status);
+
+				if (args.includes("--json")) {
+					console.log(
+						JSON.stringify(
+							observations.map(({ vector: _vector, ...o }) => ({
+								...o,
+								effectiveConfidence: getEffectiveConfidence(o),
+							})),
+							null,
+							2,
+						),
+					);
+					break;
+				}
+				if (observations.length === 0) {
+					console.log(
+						subcommand === "review"
+							? "\nNo observations need review."
+							: "\nNo observations recorded.",
+					);
+					break;
+				}
+
+				console.log(`\n🧠 Observations (${observations.length})\n`);
+				for (const o of observations) {
+					const meta = o.metadata;
+					const flag =
+						meta.status === "active"
+							? ""
+							: ` ${ANSI_YELLOW}[${meta.status}]${ANSI_RESET}`;
+					console.log(
+						`  ${ANSI_MAGENTA}${o.id}${ANSI_RESET} ${meta.observationType}  confidence ${getEffectiveConfidence(o).toFixed(2)}${flag}`,
+					);
+					console.log(`    ${o.content}`);
+					if (meta.affectedFiles.length > 0) {
+						console.log(
+							`${ANSI_DIM}    files: ${meta.affectedFiles.join(", ")}${ANSI_RESET}`,
+						);
+					}
+					if (meta.reviewReason) {
+						console.log(
+							`${ANSI_DIM}    review: ${meta.reviewReason}${ANSI_RESET}`,
+						);
+					}
+				}
+				console.log("");
+				break;
+			}
+
+			case "confirm": {
+				const confidenceArg = getFlag("--confidence");
+				const observation = await manager.confirm(
+					requireId(),
+					confidenceArg ? Number.parseFloat(confidenceArg) : undefined,
+				);
+				if (!observation) return notFound();
+				console.log(`\n✅ Confirmed ${observation.id}`);
+				break;
+			}
+
+			case "edit": {
+				const content = positional.slice(2).join(" ");
+				if (!content) {
+					console.error("Usage: mnemex observations edit <id> <text>");
+					process.exit(1);
+				}
+				const observation = await manager.edit(requireId(), content);
+				if (!observation) return notFound();
+				console.log(`\n✅ Updated ${observation.id}`);
+				break;
+			}
+
+			case "retire": {
+				const observation = await manager.retire(
+					requireId(),
+					getFlag("--reason"),
+				);
+				if (!observation) return notFound();
+				console.log(`\n✅ Retired ${observation.id}`);
+				break;
+			}
+
+			default:
+				console.error(`Unknown subcommand: ${subcommand}`);
+				console.error('Run "mnemex observations help" for usage.');
+				process.exit(1);
+		}
+	} finally {
+		await store.close();
 	}
 }
 
@@ -6049,6 +6923,11 @@ async function handleFeedback(args: string[]): Promise<void> {
  *   mnemex learn sessions        Show session interaction statistics
  *   mnemex learn corrections     Show correction gap statistics
  *   mnemex learn patterns        Show detected patterns
+ *   mnemex learn tools           Show what tool guidance has learned
+ *   mnemex learn tools --off     Turn tool guidance off (--on to re-enable)
+ *   mnemex learn skills          Propose skills from mined workflows and install on approval
+ *   mnemex learn skills --install <name>  Install a proposed skill
+ *   mnemex learn skills --remove <name>   Roll back an installed skill
  *   mnemex learn reset           Reset all learned weights
  */
 async function handleLearn(args: string[]): Promise<void> {
@@ -6199,6 +7078,252 @@ async function handleLearn(args: string[]): Promise<void> {
 			return;
 		}
 
+		if (subcommand === "tools") {
+			// Show (or toggle) learned tool guidance for the PreToolUse hook
+			if (args.includes("--off") || args.includes("--on")) {
+				const enabled = args.includes("--on");
+				saveProjectConfig(projectPath, { toolGuidance: enabled });
+				if (compactMode) {
+					console.log(`tool-guidance:${enabled ? "on" : "off"}`);
+				} else {
+					console.log(
+						`Tool guidance ${enabled ? "enabled" : "disabled"} for this project.`,
+					);
+				}
+				return;
+			}
+
+			const { createInteractionStore } = await import(
+				"./learning/interaction/index.js"
+			);
+			const { createToolAdvisor } = await import("./learning/advisor/index.js");
+			const store = createInteractionStore(tracker.getDatabase());
+			const advisor = createToolAdvisor();
+			advisor.train(store.getActionEvents());
+			const beliefs = advisor.getBeliefs();
+			const guidanceEnabled = isToolGuidanceEnabled(projectPath);
+
+			const pct = (rate: number) => `${Math.round(rate * 100)}%`;
+			const label = (action: string) => action.replace(":", " ");
+
+			if (compactMode) {
+				const best = beliefs.actions[0];
+				console.log(
+					`tool-guidance:${guidanceEnabled ? "on" : "off"} events:${beliefs.events} sessions:${beliefs.sessions}${best ? ` best:${best.action}=${best.successRate.toFixed(2)}` : ""}`,
+				);
+				return;
+			}
+
+			printLogo();
+			console.log(
+				`\n📊 Learned Tool Guidance (${guidanceEnabled ? "enabled" : "disabled"})\n`,
+			);
+
+			if (beliefs.actions.length === 0) {
+				console.log("  No search activity logged yet.");
+				console.log(
+					"  Tool events are captured automatically by the Claude Code hooks.",
+				);
+				console.log("");
+				return;
+			}
+
+			console.log(
+				`  Trained on ${beliefs.events} tool events from ${beliefs.sessions} sessions\n`,
+			);
+			console.log("  Lookups resolved by each search action:");
+			for (const arm of beliefs.actions) {
+				console.log(
+					`    ${pct(arm.successRate).padStart(4)} ±${pct(arm.uncertainty).padEnd(4)} ${label(arm.action).padEnd(16)} (${arm.uses} uses)`,
+				);
+			}
+
+			if (beliefs.contexts.length > 0) {
+				console.log("\n  By query shape:");
+				for (const { context, rates } of beliefs.contexts) {
+					const shape = context.replace(/^custom:query=/, "");
+					const summary = rates
+						.map((r) => `${label(r.action)} ${pct(r.successRate)} (${r.uses})`)
+						.join(" · ");
+					console.log(`    ${shape.padEnd(11)} ${summary}`);
+				}
+			}
+
+			if (beliefs.nextActions.length > 0) {
+				console.log("\n  Usual next step:");
+				for (const next of beliefs.nextActions) {
+					console.log(
+						`    ${label(next.after)} → ${label(next.next)} (${pct(next.probability)})`,
+					);
+				}
+			}
+
+			console.log(
+				`\n  ${guidanceEnabled ? "Disable with: mnemex learn tools --off" : "Enable with: mnemex learn tools --on"}`,
+			);
+			console.log("");
+			return;
+		}
+
+		if (subcommand === "skills") {
+			// Propose, install and evaluate skills generated from mined workflows
+			const { createInteractionStore } = await import(
+				"./learning/interaction/index.js"
+			);
+			const { createSkillDeployer } = await import(
+				"./learning/deployment/index.js"
+			);
+			const store = createInteractionStore(tracker.getDatabase());
+			const deployer = createSkillDeployer(store, projectPath);
+
+			const optionValue = (flag: string) => {
+				const idx = args.indexOf(flag);
+				return idx >= 0 ? args[idx + 1] : undefined;
+			};
+			const installName = optionValue("--install");
+			const removeName = optionValue("--remove");
+
+			if (removeName) {
+				const installed = deployer
+					.getInstalled()
+					.find((i) => i.improvementData.name === removeName);
+				if (!installed) {
+					console.error(`No installed skill named "${removeName}".`);
+					process.exit(1);
+				}
+				deployer.rollback(installed, "manual", "Removed by user");
+				console.log(
+					compactMode
+						? `removed:${removeName}`
+						: `Removed skill ${removeName}.`,
+				);
+				return;
+			}
+
+			const proposals = deployer.propose();
+
+			if (installName) {
+				const proposal = proposals.find(
+					(p) => p.improvement.improvementData.name === installName,
+				);
+				if (!proposal) {
+					console.error(`No pending skill proposal named "${installName}".`);
+					process.exit(1);
+				}
+				try {
+					const result = deployer.install(proposal.improvement);
+					if (compactMode) {
+						console.log(
+							`installed:${installName} files:${result.written.join(",")}`,
+						);
+					} else {
+						for (const path of result.written) console.log(`Wrote ${path}`);
+						for (const path of result.skipped) {
+							console.log(`Skipped ${path} (not written by mnemex)`);
+						}
+					}
+				} catch (error) {
+					console.error(error instanceof Error ? error.message : String(error));
+					process.exit(1);
+				}
+				return;
+			}
+
+			const impacts = deployer
+				.getInstalled()
+				.map((improvement) => deployer.evaluate(improvement));
+
+			if (compactMode) {
+				for (const { improvement, validation } of proposals) {
+					console.log(
+						`skill:${improvement.improvementData.name} status:proposed safety:${validation.safetyScore.toFixed(2)} verdict:${validation.recommendation}`,
+					);
+				}
+				for (const { improvement, decision } of impacts) {
+					console.log(
+						`skill:${improvement.improvementData.name} status:deployed decision:${decision.action}`,
+					);
+				}
+				if (proposals.length === 0 && impacts.length === 0) {
+					console.log("skills:0");
+				}
+				return;
+			}
+
+			printLogo();
+			console.log("\n🧩 Learned Skills\n");
+
+			if (proposals.length === 0 && impacts.length === 0) {
+				console.log("  No skills proposed yet.");
+				console.log(
+					"  Skills are mined from repeated tool sequences and recurring errors.",
+				);
+				console.log("");
+				return;
+			}
+
+			for (const { improvement, experiment, decision } of impacts) {
+				const name = improvement.improvementData.name;
+				const rate = (m: { sessions: number; corrections: number }) =>
+					m.sessions > 0
+						? `${Math.round((m.corrections / m.sessions) * 100)}%`
+						: "n/a";
+				console.log(`  ✓ ${name} (installed)`);
+				console.log(
+					`    Sessions with corrections: ${rate(experiment.controlMetrics)} before (${experiment.controlMetrics.sessions}) → ${rate(experiment.treatmentMetrics)} since (${experiment.treatmentMetrics.sessions})`,
+				);
+				console.log(`    ${decision.reason}`);
+
+				if (decision.action === "rollback") {
+					const confirmed = await confirm({
+						message: `Roll back ${name}?`,
+						default: true,
+					});
+					if (confirmed) {
+						deployer.rollback(
+							improvement,
+							"experiment_failed",
+							decision.reason,
+							"experiment",
+						);
+						console.log(`    Removed ${name}.`);
+					}
+				}
+				console.log("");
+			}
+
+			for (const { improvement, validation } of proposals) {
+				const name = improvement.improvementData.name;
+				console.log(`  • ${name} (proposed)`);
+				console.log(`    ${improvement.improvementData.description}`);
+				console.log(
+					`    Safety: ${(validation.safetyScore * 100).toFixed(0)}% (${validation.recommendation.replace("_", " ")})`,
+				);
+				for (const issue of validation.issues) {
+					console.log(`    ⚠ ${issue.description}`);
+				}
+
+				if (!validation.passed) {
+					console.log("    Not installable: failed safety validation.\n");
+					continue;
+				}
+
+				const confirmed = await confirm({
+					message: `Install ${name}?`,
+					default: false,
+				});
+				if (confirmed) {
+					const result = deployer.install(improvement);
+					for (const path of result.written) console.log(`    Wrote ${path}`);
+					for (const path of result.skipped) {
+						console.log(`    Skipped ${path} (not written by mnemex)`);
+					}
+				}
+				console.log("");
+			}
+			return;
+		}
+
 		// ================================================================
 		// Legacy Learning Subcommands
 		// ================================================================
@@ -6443,6 +7568,7 @@ function handleAiInstructions(args: string[]): void {
 async function handleDoctor(args: string[]): Promise<void> {
 	const isGenerate = args.includes("--generate");
 	const isJson = args.includes("--json");
+	const isFix = args.includes("--fix");
 
 	// Resolve project path (first non-flag arg, or cwd)
 	const projectPath = resolve(
@@ -6463,15 +7589,90 @@ async function handleDoctor(args: string[]): Promise<void> {
 		formatDoctorJSON,
 		runGenerator,
 		runGeneratorAgent,
+		buildReferenceIndex,
+		checkReferences,
+		suggestMovedFiles,
+		applyReferenceFixes,
+		isAutoFixable,
 	} = await import("./core/doctor/index.js");
 
 	// Open FileTracker (may be null if project not indexed yet)
 	const tracker = getFileTracker(projectPath);
+	if (isFix && !tracker) {
+		console.error("No index found. Run 'mnemex index' before 'doctor --fix'.");
+		process.exit(1);
+	}
+
+	// Resolve the paths, symbols, scripts and commands each context file
+	// mentions; moved files are matched by the content hash of their last
+	// committed version
+	const referenceIndex = tracker
+		? buildReferenceIndex(projectPath, tracker)
+		: null;
+	const { createGitHistory } = await import("./git/history.js");
+	const git = createGitHistory(projectPath);
+	const gitAvailable = await git.isAvailable();
+	const checkFiles = async (
+		files: ReturnType<typeof scanForContextFiles>,
+	): Promise<Map<string, ReferenceCheck>> => {
+		const checks = new Map<string, ReferenceCheck>();
+		if (!referenceIndex) return checks;
+		for (const file of files) {
+			const check = checkReferences(file.content, referenceIndex);
+			if (gitAvailable) {
+				await suggestMovedFiles(check, referenceIndex, git);
+			}
+			checks.set(file.path, check);
+		}
+		return checks;
+	};
+
+	// Scan context files
+	let contextFiles = scanForContextFiles(projectPath);
+	let checks = await checkFiles(contextFiles);
+
+	if (isFix) {
+		let fixedFiles = 0;
+		for (const file of contextFiles) {
+			const dead = checks.get(file.path)?.dead ?? [];
+			const { content, fixed } = applyReferenceFixes(file.content, dead);
+			if (fixed > 0) {
+				writeFileSync(file.path, content);
+				fixedFiles++;
+			}
+			if (agentMode || isJson) continue;
+
+			if (fixed > 0) {
+				console.log(
+					`✏️  Fixed ${fixed} reference${fixed === 1 ? "" : "s"} in ${file.relativePath}`,
+				);
+				for (const ref of dead.filter(isAutoFixable)) {
+					console.log(`     ${ref.text} → ${ref.suggestion}`);
+				}
+			}
+			// Closest-name guesses can point at the wrong symbol
+			const guesses = dead.filter((r) => r.suggestion && !isAutoFixable(r));
+			if (guesses.length > 0) {
+				console.log(`🔎 Review by hand in ${file.relativePath}:`);
+				for (const ref of guesses) {
+					console.log(
+						`     ${ref.text} → ${ref.suggestion}? (${ref.reason}, line ${ref.occurrences[0].line})`,
+					);
+				}
+			}
+		}
+		if (fixedFiles === 0 && !agentMode && !isJson) {
+			console.log("No dead references with a known replacement to fix.");
+		}
+		if (fixedFiles > 0) {
+			contextFiles = scanForContextFiles(projectPath);
+			checks = await checkFiles(contextFiles);
+		}
+	}
 
-	// Scan and analyze context files
-	const contextFiles = scanForContextFiles(projectPath);
+	// Analyze context files
 	const diagnoses = contextFiles.map((f) =>
-		analyzeContextFile(f, tracker, projectPath),
+		analyzeContextFile(f, tracker, projectPath, checks.get(f.path) ?? null),
 	);
 	const topRecommendations = aggregateDiagnoses(diagnoses);
 
@@ -6652,14 +7853,18 @@ ${c.yellow}${c.bold}USAGE${c.reset}
 
 ${c.yellow}${c.bold}SERVER MODES${c.reset}
   ${c.cyan}mnemex --mcp${c.reset}                         Run MCP server for Claude Code
+  ${c.cyan}mnemex --mcp --http${c.reset} [--port N]        Run multi-workspace MCP daemon (streamable HTTP)
   ${c.cyan}mnemex --autocomplete-server${c.reset}         Run JSONL autocomplete server (editors)
   ${c.cyan}  --project${c.reset} <path>                      Project path (default: cwd)
+  ${c.cyan}mnemex serve --jsonrpc${c.reset} [path]        Run JSON-RPC server for editor clients (stdio)
 
 ${c.yellow}${c.bold}COMMANDS${c.reset}
   ${c.green}index${c.reset} [path]           Index a codebase (default: current directory)
   ${c.green}search${c.reset} <query>         Search indexed code ${c.dim}(auto-indexes changes)${c.reset}
   ${c.green}status${c.reset} [path]          Show index status
   ${c.green}clear${c.reset} [path]           Clear the index
+  ${c.green}cache${c.reset} <subcommand>     Global embedding cache ${c.dim}(stats|prune|clear)${c.reset}
+  ${c.green}migrate-model${c.reset} <model>  Re-embed with another model, compare, swap ${c.dim}(no downtime)${c.reset}
   ${c.green}init${c.reset}                   Interactive setup wizard
   ${c.green}models${c.reset}                 List available embedding models
   ${c.green}benchmark${c.reset}              Compare embedding models (index, search quality, cost)
@@ -6675,6 +7880,8 @@ ${c.yellow}${c.bold}SYMBOL GRAPH COMMANDS${c.reset} ${c.dim}(use --agent for com
   ${c.green}callers${c.reset} <name>         Find what calls a symbol
   ${c.green}callees${c.reset} <name>         Find what a symbol calls
   ${c.green}context${c.reset} <name>         Get symbol with its callers and callees
+  ${c.green}grep-ast${c.reset} <pattern>     Structural search ${c.dim}(code pattern with $X/$$$, or --query <s-expr>)${c.reset}
+  ${c.green}why${c.reset} <name>             Commits and authors behind a symbol's current lines ${c.dim}(git blame)${c.reset}
 
 ${c.yellow}${c.bold}CODE ANALYSIS COMMANDS${c.reset}
   ${c.green}dead-code${c.reset}              Find potentially dead code ${c.dim}(zero callers + low PageRank)${c.reset}
@@ -6692,10 +7899,12 @@ ${c.yellow}${c.bold}DEVELOPER EXPERIENCE${c.reset}
   ${c.green}pack${c.reset} [path]            Pack codebase into a single file ${c.dim}(for AI analysis)${c.reset}
   ${c.green}docs${c.reset} <subcommand>     Manage library documentation ${c.dim}(status|fetch|refresh|providers|clear)${c.reset}
   ${c.green}observe${c.reset} <text>         Record a session observation ${c.dim}(--file <path> --type <type>)${c.reset}
+  ${c.green}observations${c.reset}           Review observations ${c.dim}(list|review|confirm|edit|retire)${c.reset}
+  ${c.green}doctor${c.reset} [path]          Check CLAUDE.md & co. for bloat and dead references ${c.dim}(--fix, --generate, --json)${c.reset}
 
 ${c.yellow}${c.bold}CLOUD / TEAM${c.reset} ${c.dim}(requires team.orgSlug in mnemex.json)${c.reset}
   ${c.green}index --cloud${c.reset} [path]   Upload changed files to cloud API ${c.dim}(git-diff based)${c.reset}
-  ${c.green}sync${c.reset} [path]            Download cloud graph for offline use ${c.dim}(map, callers, callees)${c.reset}
+  ${c.green}sync${c.reset} [path]            Download cloud symbol graph for offline use ${c.dim}(incremental; --full)${c.reset}
   ${c.green}team login${c.reset}             Store org API key ${c.dim}(--org <orgSlug> --key <apiKey>)${c.reset}
   ${c.green}team logout${c.reset}            Remove stored credentials ${c.dim}(--org <orgSlug>)${c.reset}
   ${c.green}team status${c.reset}            Show cloud config and auth status
@@ -6875,6 +8084,8 @@ ${c.yellow}${c.bold}EXAMPLES${c.reset}
   ${c.cyan}mnemex learn${c.reset}                           ${c.dim}# show learning stats${c.reset}
   ${c.cyan}mnemex learn sessions${c.reset}                  ${c.dim}# session interactions${c.reset}
   ${c.cyan}mnemex learn corrections${c.reset}               ${c.dim}# correction gap analysis${c.reset}
+  ${c.cyan}mnemex learn tools${c.reset}                     ${c.dim}# learned tool guidance (--off/--on)${c.reset}
+  ${c.cyan}mnemex learn skills${c.reset}                    ${c.dim}# propose and install learned skills${c.reset}
   ${c.cyan}mnemex learn reset -f${c.reset}                  ${c.dim}# reset without prompt${c.reset}
   ${c.cyan}mnemex hooks install${c.reset}                   ${c.dim}# install git hook${c.reset}
 
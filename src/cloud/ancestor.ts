@@ -0,0 +1,125 @@
+/**
+ * Nearest indexed ancestor
+ *
+ * Cloud search is keyed on an exact commit SHA, but a developer's HEAD is
+ * often a local commit that was never uploaded. This module walks the git
+ * history from HEAD (breadth-first, so the closest commits are checked
+ * first) until it finds a commit the cloud reports as "ready".
+ *
+ * The files changed between that ancestor and HEAD are then treated like
+ * uncommitted files: they go into the overlay index and shadow the cloud
+ * results for the same paths.
+ */
+
+import type {
+	ChangedFile,
+	DirtyFile,
+	IChangeDetector,
+	ICloudIndexClient,
+} from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A commit the cloud can serve, and how far it is from the starting commit */
+export interface IndexedAncestor {
+	/** SHA of the ready commit */
+	commitSha: string;
+	/** Number of parent hops from the starting commit (0 = the commit itself) */
+	distance: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Maximum number of commits whose cloud status is checked per lookup */
+export const DEFAULT_MAX_ANCESTORS = 20;
+
+// ============================================================================
+// Ancestor lookup
+// ============================================================================
+
+/**
+ * Find the closest commit at or above `commitSha` whose cloud status is
+ * "ready". Returns null when no ready commit is found within `maxAncestors`
+ * status checks.
+ *
+ * Errors from the cloud client (offline, auth) propagate to the caller.
+ */
+export async function findIndexedAncestor(
+	cloudClient: ICloudIndexClient,
+	changeDetector: IChangeDetector,
+	repoSlug: string,
+	commitSha: string,
+	maxAncestors = DEFAULT_MAX_ANCESTORS,
+): Promise<IndexedAncestor | null> {
+	const queue: IndexedAncestor[] = [{ commitSha, distance: 0 }];
+	const seen = new Set([commitSha]);
+	let checked = 0;
+
+	while (checked < maxAncestors) {
+		const candidate = queue.shift();
+		if (!candidate) break;
+		checked++;
+
+		const status = await cloudClient.getCommitStatus(
+			repoSlug,
+			candidate.commitSha,
+		);
+		if (status.status === "ready") {
+			return candidate;
+		}
+
+		for (const parentSha of await changeDetector.getParentShas(
+			candidate.commitSha,
+		)) {
+			if (seen.has(parentSha)) continue;
+			seen.add(parentSha);
+			queue.push({ commitSha: parentSha, distance: candidate.distance + 1 });
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Combine the files committed since an indexed ancestor with the
+ * uncommitted files, so both can be indexed by the overlay.
+ *
+ * Renames become a deletion of the old path plus an addition of the new
+ * one. When a path appears in both lists the uncommitted status wins.
+ */
+export function mergeAncestorChanges(
+	committed: ChangedFile[],
+	uncommitted: DirtyFile[],
+): DirtyFile[] {
+	const byPath = new Map<string, DirtyFile>();
+
+	for (const change of committed) {
+		if (change.status === "renamed") {
+			if (change.oldPath) {
+				byPath.set(change.oldPath, {
+					filePath: change.oldPath,
+					status: "deleted",
+				});
+			}
+			byPath.set(change.filePath, {
+				filePath: change.filePath,
+				status: "added",
+			});
+			continue;
+		}
+		byPath.set(change.filePath, {
+			filePath: change.filePath,
+			status: change.status,
+		});
+	}
+
+	for (const dirty of uncommitted) {
+		byPath.set(dirty.filePath, dirty);
+	}
+
+	return [...byPath.values()];
+}
@@ -1,16 +1,45 @@
 /**
  * GraphSyncer — downloads the symbol graph from the cloud for offline use
  *
- * Enables `map`, `callers`, `callees` commands when offline by syncing the
- * cloud symbol graph into the local FileTracker metadata store.
+ * Materializes the cloud symbol graph for a commit into the local
+ * FileTracker `symbols` / `symbol_references` / `file_imports` tables, so
+ * `map`, `callers`, `callees`, `impact` and `dead-code` work off a shared
+ * cloud index without indexing locally.
  *
- * MVP implementation: caches the repo map text from cloudClient.getGraph()
- * into local FileTracker metadata so that the `map` command works offline.
- * Full graph sync (symbols + references into SQLite) is a future enhancement.
+ * Sync modes:
+ * - full:        first sync (or no change detector) — the local graph is
+ *                replaced with the whole cloud graph
+ * - incremental: the local graph was synced at an earlier commit — only the
+ *                files changed between the two commits (git diff) are
+ *                downloaded and replaced
+ *
+ * A commit without a cloud index is served from its nearest indexed
+ * ancestor. The syncer then downloads that ancestor's full graph and
+ * records the ancestor as the synced commit, so the next incremental sync
+ * diffs from the graph that is actually local.
+ *
+ * After either mode, references are resolved and PageRank is recomputed
+ * locally, exactly as after a local index run.
  */
 
-import type { ICloudIndexClient } from "./types.js";
+import { createHash } from "node:crypto";
+import { createReferenceGraphManager } from "../core/reference-graph.js";
+import { createRepoMapGenerator } from "../core/repo-map.js";
 import type { IFileTracker } from "../core/tracker.js";
+import type {
+	FileImport,
+	ReferenceKind,
+	SymbolDefinition,
+	SymbolKind,
+	SymbolReference,
+} from "../types.js";
+import type {
+	CloudGraphResult,
+	CloudSymbol,
+	CloudSymbolReference,
+	IChangeDetector,
+	ICloudIndexClient,
+} from "./types.js";
 
 // ============================================================================
 // Types
@@ -25,17 +54,30 @@ export interface GraphSyncOptions {
 	repoSlug: string;
 	/** Full 40-char commit SHA to sync */
 	commitSha: string;
-	/** Local file tracker (provides metadata storage) */
+	/** Local file tracker (receives the synced graph) */
 	fileTracker: IFileTracker;
+	/**
+	 * Git change detector used for incremental sync.
+	 * Omit to always download the full graph.
+	 */
+	changeDetector?: IChangeDetector;
+	/** Download the full graph even if an earlier commit was synced */
+	force?: boolean;
 	/** Optional progress callback */
 	onProgress?: (message: string) => void;
 }
 
 export interface GraphSyncResult {
+	/** How the graph was synced ("unchanged" = already at this commit) */
+	mode: "full" | "incremental" | "unchanged";
+	/** Number of files whose graph was replaced */
+	filesSynced: number;
 	/** Number of symbol definitions synced */
 	symbolCount: number;
 	/** Number of reference edges synced */
 	referenceCount: number;
+	/** Number of references resolved to a definition after sync */
+	resolvedCount: number;
 	/** Wall-clock duration in milliseconds */
 	durationMs: number;
 }
@@ -44,6 +86,9 @@ export interface GraphSyncResult {
 const REPO_MAP_CACHE_KEY = "cloudRepoMap";
 const REPO_MAP_COMMIT_KEY = "cloudRepoMapCommit";
 
+// Metadata key recording the commit the local symbol graph was synced at
+const GRAPH_COMMIT_KEY = "cloudGraphCommit";
+
 // ============================================================================
 // GraphSyncer
 // ============================================================================
@@ -54,6 +99,8 @@ export class GraphSyncer {
 	private readonly repoSlug: string;
 	private readonly commitSha: string;
 	private readonly fileTracker: IFileTracker;
+	private readonly changeDetector?: IChangeDetector;
+	private readonly force: boolean;
 	private readonly onProgress: (message: string) => void;
 
 	constructor(options: GraphSyncOptions) {
@@ -62,17 +109,20 @@ export class GraphSyncer {
 		this.repoSlug = options.repoSlug;
 		this.commitSha = options.commitSha;
 		this.fileTracker = options.fileTracker;
+		this.changeDetector = options.changeDetector;
+		this.force = options.force ?? false;
 		this.onProgress = options.onProgress ?? (() => {});
 	}
 
 	/**
 	 * Sync the symbol graph from cloud to local FileTracker.
 	 *
-	 * Downloads symbols + references for the given commit and writes:
+	 * Downloads symbols, references and imports for the commit (or for the
+	 * files changed since the last synced commit) and writes:
+	 * - Symbols, references and imports into the local symbol graph tables
 	 * - The repo map text to FileTracker metadata (key: "cloudRepoMap")
-	 * - The synced commit SHA to FileTracker metadata (key: "cloudRepoMapCommit")
-	 *
-	 * After syncing, offline `map` queries read from the cached repo map text.
+	 * - The synced commit SHA to FileTracker metadata (keys:
+	 *   "cloudRepoMapCommit", "cloudGraphCommit")
 	 */
 	async syncGraph(): Promise<GraphSyncResult> {
 		const startMs = Date.now();
@@ -81,34 +131,282 @@ export class GraphSyncer {
 			`Syncing graph for ${this.repoSlug} @ ${this.commitSha.slice(0, 8)}...`,
 		);
 
-		// Download graph data from cloud
-		const graphResult = await this.cloudClient.getGraph(
-			this.repoSlug,
-			this.commitSha,
-		);
+		const previousSha = this.force
+			? null
+			: this.fileTracker.getMetadata(GRAPH_COMMIT_KEY);
+
+		if (previousSha === this.commitSha) {
+			return this.unchanged(startMs);
+		}
+
+		const changedPaths = previousSha
+			? await this.getChangedPaths(previousSha)
+			: null;
+
+		let graphResult: CloudGraphResult | null = null;
+		let filesSynced = 0;
+
+		if (changedPaths) {
+			// ── Incremental: replace only the files changed since last sync ──
+			this.onProgress(
+				`Downloading graph for ${changedPaths.updated.length} changed files ` +
+					`(${changedPaths.fromSha.slice(0, 8)}..${this.commitSha.slice(0, 8)})...`,
+			);
+			graphResult = await this.cloudClient.getGraph(
+				this.repoSlug,
+				this.commitSha,
+				{ filePaths: changedPaths.updated },
+			);
+
+			if (servedSha(graphResult, this.commitSha) === this.commitSha) {
+				for (const filePath of [
+					...changedPaths.updated,
+					...changedPaths.removed,
+				]) {
+					this.fileTracker.deleteSymbolsByFile(filePath);
+				}
+				filesSynced = changedPaths.updated.length + changedPaths.removed.length;
+			} else {
+				// Served from an ancestor, which the diff does not describe
+				graphResult = null;
+			}
+		}
+
+		const incremental = graphResult !== null;
+		if (!graphResult) {
+			// ── Full: replace the whole local graph ──────────────────────────
+			graphResult = await this.cloudClient.getGraph(
+				this.repoSlug,
+				this.commitSha,
+			);
+
+			const resolvedSha = servedSha(graphResult, this.commitSha);
+			if (resolvedSha !== this.commitSha) {
+				this.onProgress(
+					`${this.commitSha.slice(0, 8)} is not indexed — using its ancestor ${resolvedSha.slice(0, 8)}.`,
+				);
+				if (resolvedSha === previousSha) {
+					return this.unchanged(startMs);
+				}
+			}
+
+			this.fileTracker.clearSymbolGraph();
+			filesSynced = new Set(graphResult.symbols.map((s) => s.filePath)).size;
+		}
+
+		const syncedSha = servedSha(graphResult, this.commitSha);
+
+		const symbols = graphResult.symbols.map(toSymbolDefinition);
+		const references = toSymbolReferences(graphResult.references, symbols);
+		const imports: FileImport[] = graphResult.imports ?? [];
+
+		this.fileTracker.insertSymbols(symbols);
+		this.fileTracker.insertReferences(references);
+		this.fileTracker.insertImports(imports);
 
 		// Cache repo map text in local metadata for offline `map` command
 		if (graphResult.repoMap) {
 			this.fileTracker.setMetadata(REPO_MAP_CACHE_KEY, graphResult.repoMap);
-			this.fileTracker.setMetadata(REPO_MAP_COMMIT_KEY, this.commitSha);
+			this.fileTracker.setMetadata(REPO_MAP_COMMIT_KEY, syncedSha);
 			this.onProgress(
 				`Cached repo map (${graphResult.repoMap.length} chars) for offline use.`,
 			);
 		}
 
-		const symbolCount = graphResult.symbols.length;
-		const referenceCount = graphResult.references.length;
+		const resolvedCount = await this.rebuildGraph();
+		this.fileTracker.setMetadata(GRAPH_COMMIT_KEY, syncedSha);
 
 		this.onProgress(
-			`Graph sync complete: ${symbolCount} symbols, ${referenceCount} references.`,
+			`Graph sync complete: ${symbols.length} symbols, ${references.length} references.`,
 		);
 
 		return {
-			symbolCount,
-			referenceCount,
+			mode: incremental ? "incremental" : "full",
+			filesSynced,
+			symbolCount: symbols.length,
+			referenceCount: references.length,
+			resolvedCount,
+			durationMs: Date.now() - startMs,
+		};
+	}
+
+	// --------------------------------------------------------------------------
+	// Private helpers
+	// --------------------------------------------------------------------------
+
+	/** Result for a local graph already at the commit to sync */
+	private unchanged(startMs: number): GraphSyncResult {
+		this.onProgress("Local graph is already at this commit.");
+		return {
+			mode: "unchanged",
+			filesSynced: 0,
+			symbolCount: 0,
+			referenceCount: 0,
+			resolvedCount: 0,
 			durationMs: Date.now() - startMs,
 		};
 	}
+
+	/**
+	 * Files changed between the last synced commit and the target commit.
+	 * Returns null when a diff is unavailable (no change detector, unknown
+	 * commit after a force-push, …) so the caller falls back to a full sync.
+	 */
+	private async getChangedPaths(
+		previousSha: string,
+	): Promise<{ fromSha: string; updated: string[]; removed: string[] } | null> {
+		if (!this.changeDetector) return null;
+
+		try {
+			const changedFiles = await this.changeDetector.getChangedFiles(
+				previousSha,
+				this.commitSha,
+			);
+			const updated: string[] = [];
+			const removed: string[] = [];
+			for (const file of changedFiles) {
+				if (file.status === "deleted") {
+					removed.push(file.filePath);
+				} else {
+					updated.push(file.filePath);
+				}
+				if (file.oldPath) {
+					removed.push(file.oldPath);
+				}
+			}
+			return { fromSha: previousSha, updated, removed };
+		} catch {
+			this.onProgress(
+				`Could not diff against ${previousSha.slice(0, 8)} — falling back to full sync.`,
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * Resolve references, recompute PageRank and regenerate the local repo
+	 * map — the same post-processing as a local index run.
+	 */
+	private async rebuildGraph(): Promise<number> {
+		this.onProgress("Resolving references...");
+		const graphManager = createReferenceGraphManager(
+			this.fileTracker,
+			this.projectPath,
+		);
+		const resolvedCount = await graphManager.resolveReferences();
+
+		this.onProgress("Computing importance scores...");
+		await graphManager.computeAndStorePageRank();
+
+		const repoMap = createRepoMapGenerator(this.fileTracker).generate({
+			maxTokens: 4000,
+		});
+		this.fileTracker.setMetadata("repoMap", repoMap);
+		this.fileTracker.setMetadata(
+			"repoMapGeneratedAt",
+			new Date().toISOString(),
+		);
+
+		const stats = this.fileTracker.getSymbolGraphStats();
+		this.fileTracker.setMetadata("symbolGraphStats", JSON.stringify(stats));
+
+		return resolvedCount;
+	}
+}
+
+// ============================================================================
+// Conversion Helpers
+// ============================================================================
+
+/** Commit a graph was served from (older servers only serve exact commits) */
+function servedSha(graph: CloudGraphResult, requestedSha: string): string {
+	return graph.resolvedCommitSha ?? requestedSha;
+}
+
+/**
+ * Convert a cloud symbol to a local symbol definition.
+ * Symbols without an ID (older servers) get the ID local extraction would
+ * assign, so references and re-syncs line up.
+ */
+function toSymbolDefinition(symbol: CloudSymbol): SymbolDefinition {
+	const now = new Date().toISOString();
+	return {
+		id:
+			symbol.id ??
+			createHash("sha256")
+				.update(
+					`${symbol.filePath}:${symbol.name}:${symbol.kind}:${symbol.startLine}`,
+				)
+				.digest("hex")
+				.slice(0, 16),
+		name: symbol.name,
+		kind: symbol.kind as SymbolKind,
+		filePath: symbol.filePath,
+		startLine: symbol.startLine,
+		endLine: symbol.endLine,
+		signature: symbol.signature,
+		docstring: symbol.docstring,
+		parentId: symbol.parentId,
+		isExported: symbol.isExported ?? true,
+		language: symbol.language ?? "unknown",
+		pagerankScore: symbol.pagerankScore,
+		createdAt: now,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Convert cloud reference edges to unresolved local references.
+ * Edges without a fromSymbolId are attributed to the innermost symbol of
+ * that name enclosing the reference line; unattributable edges are dropped.
+ */
+function toSymbolReferences(
+	references: CloudSymbolReference[],
+	symbols: SymbolDefinition[],
+): SymbolReference[] {
+	const symbolIds = new Set(symbols.map((s) => s.id));
+	const byFileAndName = new Map<string, SymbolDefinition[]>();
+	for (const symbol of symbols) {
+		const key = `${symbol.filePath}\0${symbol.name}`;
+		const list = byFileAndName.get(key);
+		if (list) {
+			list.push(symbol);
+		} else {
+			byFileAndName.set(key, [symbol]);
+		}
+	}
+
+	const now = new Date().toISOString();
+	const result: SymbolReference[] = [];
+
+	for (const ref of references) {
+		let fromSymbolId =
+			ref.fromSymbolId && symbolIds.has(ref.fromSymbolId)
+				? ref.fromSymbolId
+				: undefined;
+
+		if (!fromSymbolId) {
+			const enclosing = (
+				byFileAndName.get(`${ref.filePath}\0${ref.fromSymbolName}`) ?? []
+			)
+				.filter((s) => s.startLine <= ref.line && ref.line <= s.endLine)
+				.sort((a, b) => a.endLine - a.startLine - (b.endLine - b.startLine));
+			fromSymbolId = enclosing[0]?.id;
+		}
+		if (!fromSymbolId) continue;
+
+		result.push({
+			fromSymbolId,
+			toSymbolName: ref.toSymbolName,
+			kind: ref.kind as ReferenceKind,
+			filePath: ref.filePath,
+			line: ref.line,
+			isResolved: false,
+			createdAt: now,
+		});
+	}
+
+	return result;
 }
 
 // ============================================================================
@@ -25,6 +25,8 @@ export type {
 	CloudCalleeResult,
 	CloudEnrichmentDoc,
 	CloudGraphResult,
+	CloudGraphQuery,
+	CloudFileImport,
 	CloudSymbolReference,
 	ICloudIndexClient,
 	IOverlayIndex,
@@ -97,6 +99,14 @@ export {
 } from "./search.js";
 export type { CloudSearchOptions } from "./search.js";
 
+// Nearest indexed ancestor lookup
+export {
+	DEFAULT_MAX_ANCESTORS,
+	findIndexedAncestor,
+	mergeAncestorChanges,
+} from "./ancestor.js";
+export type { IndexedAncestor } from "./ancestor.js";
+
 // Graph sync
 export {
 	GraphSyncer,
@@ -14,7 +14,7 @@
  *  2. getCommitStatus(currentSha)         → skip if already "ready"
  *  3. getParentShas(currentSha)           → parentSha (first parent)
  *  4. getChangedFiles(parentSha, head)    → changedFiles
- *  5. Read + chunk each non-deleted file
+ *  5. Read + chunk each non-deleted file, extract its symbol graph
  *  6. checkChunks(allHashes)             → existing / missing
  *  7. embed missing hashes (thin mode)
  *  8. Build UploadIndexRequest
@@ -25,15 +25,19 @@
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import { createHash } from "node:crypto";
-import type { IEmbeddingsClient } from "../types.js";
+import type { IEmbeddingsClient, SupportedLanguage } from "../types.js";
 import { chunkFileByPath } from "../core/chunker.js";
-import { getParserManager } from "../parsers/parser-manager.js";
+import { createSymbolExtractor } from "../core/symbol-extractor.js";
+import { getProjectParserManager } from "../parsers/parser-manager.js";
 import type { IVectorStore } from "../core/store.js";
 import type {
 	ICloudIndexClient,
 	IChangeDetector,
 	ChangedFile,
 	CloudEnrichmentDoc,
+	CloudFileImport,
+	CloudSymbol,
+	CloudSymbolReference,
 	UploadChunk,
 	UploadIndexRequest,
 } from "./types.js";
@@ -65,6 +69,14 @@ export interface CloudIndexResult {
 	durationMs: number;
 }
 
+/** Chunks and symbol graph extracted from one changed file */
+interface ProcessedFile {
+	chunks: UploadChunk[];
+	symbols: CloudSymbol[];
+	references: CloudSymbolReference[];
+	imports: CloudFileImport[];
+}
+
 // ============================================================================
 // Options
 // ============================================================================
@@ -179,13 +191,28 @@ export class CloudAwareIndexer {
 		await this.ensureParsersInitialized();
 
 		const allChunks: UploadChunk[] = [];
+		const symbols: CloudSymbol[] = [];
+		const references: CloudSymbolReference[] = [];
+		const imports: CloudFileImport[] = [];
 
 		for (const file of filesToProcess) {
-			const chunks = await this.processFile(file);
-			allChunks.push(...chunks);
+			const processed = await this.processFile(file);
+			allChunks.push(...processed.chunks);
+			symbols.push(...processed.symbols);
+			references.push(...processed.references);
+			imports.push(...processed.imports);
 		}
 
-		this.onProgress(`Collected ${allChunks.length} chunks from changed files.`);
+		// The graph of every changed path is replaced server-side, including
+		// the old path of renamed files (which then has no symbols)
+		const graphFiles = [
+			...filesToProcess.map((f) => f.filePath),
+			...filesToProcess.flatMap((f) => (f.oldPath ? [f.oldPath] : [])),
+		];
+
+		this.onProgress(
+			`Collected ${allChunks.length} chunks and ${symbols.length} symbols from changed files.`,
+		);
 
 		// ── Step 6: Check which chunks already exist in cloud ────────────────
 		let chunksUploaded = 0;
@@ -262,6 +289,10 @@ export class CloudAwareIndexer {
 				enrichmentDocs && enrichmentDocs.length > 0
 					? enrichmentDocs
 					: undefined,
+			graphFiles,
+			symbols,
+			references,
+			imports,
 		};
 
 		// ── Step 9: Upload index ─────────────────────────────────────────────
@@ -325,32 +356,44 @@ export class CloudAwareIndexer {
 
 	/** Ensure tree-sitter parsers are initialized before chunking */
 	private async ensureParsersInitialized(): Promise<void> {
-		const parserManager = getParserManager();
+		const parserManager = getProjectParserManager(this.projectPath);
 		await parserManager.initialize();
 	}
 
 	/**
-	 * Read a file from disk and convert its chunks to UploadChunk format.
-	 * Returns an empty array if the file cannot be read.
+	 * Read a file from disk, convert its chunks to UploadChunk format and
+	 * extract its symbol graph (symbols, references, imports).
+	 * Returns empty results if the file cannot be read.
 	 *
 	 * In smart mode the text field is populated so the cloud can embed it.
 	 * In thin mode the text field is omitted to save upload bandwidth.
 	 */
-	private async processFile(file: ChangedFile): Promise<UploadChunk[]> {
+	private async processFile(file: ChangedFile): Promise<ProcessedFile> {
+		const processed: ProcessedFile = {
+			chunks: [],
+			symbols: [],
+			references: [],
+			imports: [],
+		};
 		const absolutePath = join(this.projectPath, file.filePath);
 		let source: string;
 		try {
 			source = readFileSync(absolutePath, "utf8");
 		} catch {
 			// File may have been deleted after diff computation, or inaccessible
-			return [];
+			return processed;
 		}
 
 		const mode = this.teamConfig.cloudMode ?? "thin";
 		const fileHash = computeContentHash(source);
-		const codeChunks = await chunkFileByPath(source, file.filePath, fileHash);
+		const codeChunks = await chunkFileByPath(
+			source,
+			file.filePath,
+			fileHash,
+			getProjectParserManager(this.projectPath),
+		);
 
-		return codeChunks.map(
+		processed.chunks = codeChunks.map(
 			(chunk): UploadChunk => ({
 				contentHash: chunk.contentHash,
 				filePath: chunk.filePath,
@@ -364,6 +407,62 @@ export class CloudAwareIndexer {
 				text: mode === "smart" ? chunk.content : undefined,
 			}),
 		);
+
+		await this.extractGraph(source, file.filePath, processed);
+		return processed;
+	}
+
+	/**
+	 * Extract symbols, references and imports for a file into `processed`.
+	 * Extraction errors are non-fatal: the file is uploaded without a graph.
+	 */
+	private async extractGraph(
+		source: string,
+		filePath: string,
+		processed: ProcessedFile,
+	): Promise<void> {
+		const parserManager = getProjectParserManager(this.projectPath);
+		const language = parserManager.getLanguage(filePath);
+		if (!language) return;
+
+		try {
+			const extractor = createSymbolExtractor(parserManager);
+			const lang = language as SupportedLanguage;
+			const symbols = await extractor.extractSymbols(source, filePath, lang);
+			const references =
+				symbols.length > 0
+					? await extractor.extractReferences(source, filePath, lang, symbols)
+					: [];
+			const imports = await extractor.extractImports(source, filePath, lang);
+
+			const namesById = new Map(symbols.map((s) => [s.id, s.name]));
+			processed.symbols = symbols.map((s) => ({
+				id: s.id,
+				name: s.name,
+				kind: s.kind,
+				filePath: s.filePath,
+				startLine: s.startLine,
+				endLine: s.endLine,
+				signature: s.signature,
+				docstring: s.docstring,
+				parentId: s.parentId,
+				isExported: s.isExported,
+				language: s.language,
+				// Ranked by the server over the commit's whole graph
+				pagerankScore: 0,
+			}));
+			processed.references = references.map((r) => ({
+				fromSymbolId: r.fromSymbolId,
+				fromSymbolName: namesById.get(r.fromSymbolId) ?? "",
+				toSymbolName: r.toSymbolName,
+				kind: r.kind,
+				filePath: r.filePath,
+				line: r.line,
+			}));
+			processed.imports = imports;
+		} catch {
+			// Symbol extraction errors shouldn't fail the upload
+		}
 	}
 
 	/**
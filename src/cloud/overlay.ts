@@ -22,7 +22,7 @@ import {
 import { join } from "node:path";
 import { chunkFileByPath } from "../core/chunker.js";
 import { VectorStore } from "../core/store.js";
-import { getParserManager } from "../parsers/parser-manager.js";
+import { getProjectParserManager } from "../parsers/parser-manager.js";
 import type { IEmbeddingsClient, SearchResult } from "../types.js";
 import type { DirtyFile, IOverlayIndex } from "./types.js";
 
@@ -132,7 +132,12 @@ export class OverlayIndex implements IOverlayIndex {
 			}
 
 			const fileHash = createHash("sha256").update(source).digest("hex");
-			const chunks = await chunkFileByPath(source, dirty.filePath, fileHash);
+			const chunks = await chunkFileByPath(
+				source,
+				dirty.filePath,
+				fileHash,
+				getProjectParserManager(this.projectPath),
+			);
 			for (const chunk of chunks) {
 				allChunksWithContent.push({ chunk, content: chunk.content });
 			}
@@ -225,7 +230,7 @@ export class OverlayIndex implements IOverlayIndex {
 	 */
 	private async ensureInitialized(): Promise<void> {
 		if (this.initialized) return;
-		const parserManager = getParserManager();
+		const parserManager = getProjectParserManager(this.projectPath);
 		await parserManager.initialize();
 		await this.vectorStore.initialize();
 		this.initialized = true;
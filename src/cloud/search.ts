@@ -2,7 +2,9 @@
  * CloudAwareSearch — orchestrates merged cloud + overlay search
  *
  * 7-step search flow:
+ *  0. findIndexedAncestor(commitSha)      → nearest "ready" commit (cached)
  *  1. getDirtyFiles()                     → dirtyFiles
+ *     + getChangedFiles(ancestor, HEAD)   → when HEAD itself is not indexed
  *  2. overlayIndex.isStale(dirtyFiles)    → rebuild if stale
  *  3. embeddingsClient.embedOne(query)    → queryVector
  *  4a. cloudClient.search(...)            → cloudResults  ─┐ parallel
@@ -10,6 +12,10 @@
  *  5. OverlayMerger.merge(...)            → merged results
  *  6. Return merged results
  *
+ * When HEAD was never uploaded, the cloud is searched at the closest
+ * indexed ancestor and the files committed since then are indexed by the
+ * overlay together with the uncommitted ones.
+ *
  * Cloud errors are handled gracefully — if the cloud search fails the
  * method still returns overlay-only results (best-effort degradation).
  */
@@ -26,6 +32,23 @@ import type {
 	DirtyFile,
 } from "./types.js";
 import { OverlayMerger, type MergedSearchResult } from "./merger.js";
+import {
+	DEFAULT_MAX_ANCESTORS,
+	type IndexedAncestor,
+	findIndexedAncestor,
+	mergeAncestorChanges,
+} from "./ancestor.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * How long a lookup that found no indexed ancestor (or could not reach the
+ * cloud) is reused before it is tried again — the commit may be uploaded or
+ * the cloud come back during the session
+ */
+const FAILED_ANCESTOR_TTL_MS = 60 * 1000;
 
 // ============================================================================
 // Options
@@ -46,6 +69,11 @@ export interface CloudSearchOptions {
 	repoSlug: string;
 	/** Current HEAD commit SHA used for cloud API calls */
 	commitSha: string;
+	/**
+	 * Maximum number of commits checked when looking for an indexed
+	 * ancestor of HEAD (default: 20)
+	 */
+	maxAncestors?: number;
 }
 
 // ============================================================================
@@ -60,6 +88,11 @@ export class CloudAwareSearch {
 	private readonly embeddingsClient: IEmbeddingsClient;
 	private readonly repoSlug: string;
 	private readonly commitSha: string;
+	private readonly maxAncestors: number;
+	/** Kept once found — HEAD does not move during a session */
+	private baseCommit: Promise<IndexedAncestor | null> | null = null;
+	/** When a lookup that found nothing is retried (epoch ms) */
+	private baseCommitRetryAt = Number.POSITIVE_INFINITY;
 
 	constructor(options: CloudSearchOptions) {
 		this.projectPath = options.projectPath;
@@ -69,6 +102,7 @@ export class CloudAwareSearch {
 		this.embeddingsClient = options.embeddingsClient;
 		this.repoSlug = options.repoSlug;
 		this.commitSha = options.commitSha;
+		this.maxAncestors = options.maxAncestors ?? DEFAULT_MAX_ANCESTORS;
 	}
 
 	/**
@@ -83,6 +117,10 @@ export class CloudAwareSearch {
 		const report = options.onProgress ?? (() => {});
 		const limit = options.limit ?? 10;
 
+		// ── Step 0: Resolve the nearest indexed commit ───────────────────────
+		const base = await this.resolveBaseCommit(report);
+		const searchSha = base?.commitSha ?? this.commitSha;
+
 		// ── Step 1: Get dirty files ──────────────────────────────────────────
 		let dirtyFiles: DirtyFile[] = [];
 		try {
@@ -92,6 +130,21 @@ export class CloudAwareSearch {
 			report(`CloudAwareSearch: could not get dirty files: ${String(err)}`);
 		}
 
+		if (base && base.distance > 0) {
+			try {
+				const committed = await this.changeDetector.getChangedFiles(
+					base.commitSha,
+					this.commitSha,
+				);
+				dirtyFiles = mergeAncestorChanges(committed, dirtyFiles);
+			} catch (err) {
+				// Non-fatal — the overlay only covers uncommitted files
+				report(
+					`CloudAwareSearch: could not diff against ${base.commitSha.slice(0, 8)}: ${String(err)}`,
+				);
+			}
+		}
+
 		const dirtyFilePaths = dirtyFiles.map((f) => f.filePath);
 
 		// ── Step 2: Rebuild overlay if stale ─────────────────────────────────
@@ -127,7 +180,7 @@ export class CloudAwareSearch {
 				try {
 					return await this.cloudClient.search({
 						repoSlug: this.repoSlug,
-						commitSha: this.commitSha,
+						commitSha: searchSha,
 						queryText,
 						queryVector,
 						limit: fetchLimit,
@@ -164,6 +217,49 @@ export class CloudAwareSearch {
 			limit,
 		);
 	}
+
+	/**
+	 * Find the closest commit the cloud can serve. Returns null when none
+	 * was found or the cloud could not be reached, in which case HEAD is
+	 * searched as-is and the lookup is tried again after
+	 * FAILED_ANCESTOR_TTL_MS.
+	 */
+	private resolveBaseCommit(
+		report: (msg: string) => void,
+	): Promise<IndexedAncestor | null> {
+		if (!this.baseCommit || Date.now() >= this.baseCommitRetryAt) {
+			// Searches running meanwhile share the lookup
+			this.baseCommitRetryAt = Number.POSITIVE_INFINITY;
+			this.baseCommit = findIndexedAncestor(
+				this.cloudClient,
+				this.changeDetector,
+				this.repoSlug,
+				this.commitSha,
+				this.maxAncestors,
+			)
+				.catch((err) => {
+					report(
+						`CloudAwareSearch: could not resolve indexed ancestor: ${String(err)}`,
+					);
+					return null;
+				})
+				.then((base) => {
+					if (!base) {
+						this.baseCommitRetryAt = Date.now() + FAILED_ANCESTOR_TTL_MS;
+					}
+					return base;
+				});
+		}
+
+		return this.baseCommit.then((base) => {
+			if (base && base.distance > 0) {
+				report(
+					`CloudAwareSearch: ${this.commitSha.slice(0, 8)} is not indexed, using ancestor ${base.commitSha.slice(0, 8)} (${base.distance} commit(s) back)`,
+				);
+			}
+			return base;
+		});
+	}
 }
 
 // ============================================================================
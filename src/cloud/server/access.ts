@@ -0,0 +1,198 @@
+/**
+ * API key roles, repo scopes and usage limits.
+ *
+ * A key belongs to an org (optionally to a subset of its repos) and carries
+ * one role. Roles are ordered — each route in router.ts names the minimum
+ * role it needs, and a higher role can do everything a lower one can:
+ *
+ *   search   — read-only: search, symbol graph, commit status
+ *   uploader — CI: search plus repo registration, chunk check, index upload
+ *   admin    — uploader plus management of the org's own keys
+ *
+ * Keys created before scoping existed have no org and may access every repo.
+ * Requests made with the master key (or with auth disabled) carry no
+ * AuthenticatedKey and are never restricted.
+ */
+
+import type { Sql } from "./db.js";
+import type { RequestContext } from "./router.js";
+import { json } from "./router.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const KEY_ROLES = ["search", "uploader", "admin"] as const;
+
+export type KeyRole = (typeof KEY_ROLES)[number];
+
+/** The API key a request was authenticated with (set by authMiddleware) */
+export interface AuthenticatedKey {
+	id: number;
+	role: KeyRole;
+	/** Org the key is scoped to (null = legacy unscoped key) */
+	orgId: number | null;
+	orgSlug: string | null;
+	/** Repos within the org the key may access (null = all of them) */
+	repoSlugs: string[] | null;
+	/** Maximum requests per rolling minute (null = unlimited) */
+	rateLimitPerMinute: number | null;
+	/** Maximum requests per rolling 24 hours (null = unlimited) */
+	dailyQuota: number | null;
+}
+
+/** Requests counted against a key's limits, from api_key_usage */
+export interface KeyUsageWindow {
+	/** Requests in the last minute */
+	minuteCount: number;
+	/** Seconds until the oldest request of the last minute leaves the window */
+	minuteResetSeconds: number | null;
+	/** Requests in the last 24 hours */
+	dayCount: number;
+	/** Seconds until the oldest request of the last 24 hours leaves the window */
+	dayResetSeconds: number | null;
+}
+
+export interface UsageLimitExceeded {
+	error: "rate_limited" | "quota_exceeded";
+	limit: number;
+	/** Seconds until at least one more request is allowed */
+	retryAfterSeconds: number;
+}
+
+// ============================================================================
+// Roles and scopes
+// ============================================================================
+
+export function isKeyRole(value: unknown): value is KeyRole {
+	return (
+		typeof value === "string" &&
+		(KEY_ROLES as readonly string[]).includes(value)
+	);
+}
+
+/**
+ * Whether the caller has at least the `required` role.
+ * An undefined key (master key or auth disabled) has every role.
+ */
+export function hasRole(
+	key: AuthenticatedKey | undefined,
+	required: KeyRole,
+): boolean {
+	if (!key) return true;
+	return KEY_ROLES.indexOf(key.role) >= KEY_ROLES.indexOf(required);
+}
+
+/** Whether the caller may read or write `orgSlug/repoSlug` */
+export function canAccessRepo(
+	key: AuthenticatedKey | undefined,
+	orgSlug: string,
+	repoSlug: string,
+): boolean {
+	if (!key || key.orgSlug === null) return true;
+	if (key.orgSlug !== orgSlug) return false;
+	return key.repoSlugs === null || key.repoSlugs.includes(repoSlug);
+}
+
+/**
+ * Reject the request with 403 when its key is not scoped to the repo.
+ * Handlers call this as soon as they know which repo a request targets.
+ */
+export function checkRepoAccess(
+	ctx: RequestContext,
+	orgSlug: string,
+	repoSlug: string,
+): Response | null {
+	if (canAccessRepo(ctx.apiKey, orgSlug, repoSlug)) return null;
+
+	ctx.metrics.orgSlug = orgSlug;
+	ctx.metrics.repoSlug = repoSlug;
+	ctx.metrics.errorCode = "repo_forbidden";
+	return json({ error: "forbidden", reason: "repo_not_in_key_scope" }, 403);
+}
+
+// ============================================================================
+// Usage limits
+// ============================================================================
+
+/**
+ * Count the key's recent requests. Requests rejected with 429 are logged
+ * for auditing but not counted, so a client that keeps retrying is not
+ * locked out beyond the window.
+ */
+export async function loadKeyUsage(
+	sql: Sql,
+	keyId: number,
+): Promise<KeyUsageWindow> {
+	const rows = await sql<
+		{
+			minute_count: number;
+			minute_reset: number | null;
+			day_count: number;
+			day_reset: number | null;
+		}[]
+	>`
+		SELECT
+			COUNT(*) FILTER (WHERE created_at > now() - interval '1 minute')::int
+				AS minute_count,
+			EXTRACT(EPOCH FROM
+				MIN(created_at) FILTER (WHERE created_at > now() - interval '1 minute')
+				+ interval '1 minute' - now())::float8 AS minute_reset,
+			COUNT(*)::int AS day_count,
+			EXTRACT(EPOCH FROM MIN(created_at) + interval '1 day' - now())::float8
+				AS day_reset
+		FROM api_key_usage
+		WHERE key_id = ${keyId}
+		  AND status_code <> 429
+		  AND created_at > now() - interval '1 day'
+	`;
+
+	const row = rows[0];
+	return {
+		minuteCount: row?.minute_count ?? 0,
+		minuteResetSeconds: row?.minute_reset ?? null,
+		dayCount: row?.day_count ?? 0,
+		dayResetSeconds: row?.day_reset ?? null,
+	};
+}
+
+/**
+ * Check a key's usage against its limits. The per-minute rate limit is
+ * reported before the daily quota. Usage is logged asynchronously after
+ * each response, so a burst of concurrent requests can overshoot a limit
+ * by the number of requests in flight.
+ */
+export function checkUsageLimits(
+	key: Pick<AuthenticatedKey, "rateLimitPerMinute" | "dailyQuota">,
+	usage: KeyUsageWindow,
+): UsageLimitExceeded | null {
+	if (
+		key.rateLimitPerMinute !== null &&
+		usage.minuteCount >= key.rateLimitPerMinute
+	) {
+		return {
+			error: "rate_limited",
+			limit: key.rateLimitPerMinute,
+			retryAfterSeconds: retryAfter(usage.minuteResetSeconds, 60),
+		};
+	}
+
+	if (key.dailyQuota !== null && usage.dayCount >= key.dailyQuota) {
+		return {
+			error: "quota_exceeded",
+			limit: key.dailyQuota,
+			retryAfterSeconds: retryAfter(usage.dayResetSeconds, 86_400),
+		};
+	}
+
+	return null;
+}
+
+/** Whole seconds to wait, at least 1 and at most the window length */
+function retryAfter(
+	resetSeconds: number | null,
+	windowSeconds: number,
+): number {
+	if (resetSeconds === null) return windowSeconds;
+	return Math.min(Math.max(Math.ceil(resetSeconds), 1), windowSeconds);
+}
@@ -0,0 +1,89 @@
+/**
+ * Commit resolution shared by the read endpoints (search, symbol graph).
+ *
+ * A requested commit that is not ready falls back to the nearest ancestor
+ * (following commits.parent_shas) whose status is "ready", so clients can
+ * query local commits that were never uploaded as long as the server knows
+ * one of their ancestors.
+ */
+
+import type { Sql } from "./db.js";
+
+/** Maximum number of parent hops when looking for a ready ancestor */
+export const MAX_ANCESTOR_DEPTH = 50;
+
+/** Response header carrying the commit that was actually served */
+export const RESOLVED_COMMIT_HEADER = "X-Mnemex-Resolved-Commit";
+
+export interface ResolvedCommit {
+	repoId: number;
+	embeddingDim: number;
+	commitId: number;
+	/** SHA of the commit that will be served */
+	sha: string;
+	/** Status of that commit ("ready" unless no ready ancestor was found) */
+	status: string;
+	/** Parent hops from the requested commit (0 = exact match) */
+	depth: number;
+}
+
+/**
+ * Resolve a repo and the nearest ready commit at or above `commitSha`.
+ *
+ * The walk stops expanding at ready commits; among everything reached the
+ * closest ready one wins, otherwise the requested commit itself is
+ * returned with its status. Returns null when the repo or the requested
+ * commit is unknown.
+ */
+export async function resolveCommit(
+	sql: Sql,
+	orgSlug: string,
+	repoSlug: string,
+	commitSha: string,
+): Promise<ResolvedCommit | null> {
+	const rows = await sql<
+		{
+			repo_id: number;
+			embedding_dim: number;
+			commit_id: number;
+			sha: string;
+			status: string;
+			depth: number;
+		}[]
+	>`
+		WITH RECURSIVE repo AS (
+			SELECT r.id, r.embedding_dim
+			FROM repos r
+			JOIN orgs o ON r.org_id = o.id
+			WHERE o.slug = ${orgSlug} AND r.slug = ${repoSlug}
+		),
+		lineage AS (
+			SELECT c.id, c.sha, c.status, c.parent_shas, 0 AS depth
+			FROM commits c, repo
+			WHERE c.repo_id = repo.id AND c.sha = ${commitSha}
+			UNION
+			SELECT p.id, p.sha, p.status, p.parent_shas, l.depth + 1
+			FROM lineage l
+			JOIN commits p ON p.sha = ANY(l.parent_shas)
+			JOIN repo ON p.repo_id = repo.id
+			WHERE l.status <> 'ready' AND l.depth < ${MAX_ANCESTOR_DEPTH}
+		)
+		SELECT repo.id AS repo_id, repo.embedding_dim,
+		       l.id AS commit_id, l.sha, l.status, l.depth
+		FROM lineage l, repo
+		ORDER BY (l.status = 'ready') DESC, l.depth ASC
+		LIMIT 1
+	`;
+
+	const row = rows[0];
+	if (!row) return null;
+
+	return {
+		repoId: row.repo_id,
+		embeddingDim: row.embedding_dim,
+		commitId: row.commit_id,
+		sha: row.sha,
+		status: row.status,
+		depth: row.depth,
+	};
+}
@@ -25,5 +25,5 @@ export function createDatabase(connectionString: string): Sql {
  * Truncate all tables for test isolation.
  */
 export async function resetDatabase(sql: Sql): Promise<void> {
-	await sql`TRUNCATE TABLE api_key_usage, api_keys, enrichment_docs, commit_files, commits, chunks, repos RESTART IDENTITY CASCADE`;
+	await sql`TRUNCATE TABLE api_key_usage, api_keys, enrichment_docs, commit_graph_files, graph_imports, graph_references, graph_symbols, file_graphs, commit_files, commits, chunks, repos RESTART IDENTITY CASCADE`;
 }
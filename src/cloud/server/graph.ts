@@ -0,0 +1,680 @@
+/**
+ * Symbol graph storage for the cloud test server.
+ *
+ * Graphs are stored per file and content-addressed (file_graphs.graph_hash),
+ * so a file whose symbols did not change between commits is stored once.
+ * commit_graph_files maps each commit to the file graphs it contains and,
+ * like commit_files, inherits unchanged files from the parent commits.
+ * PageRank scores change with any file of the graph, so the server
+ * computes them over each commit's full graph after an upload and stores
+ * them per commit (commit_graph_files.symbol_ranks) rather than in the
+ * file graph.
+ */
+
+import { createHash } from "node:crypto";
+import type {
+	CloudCalleeResult,
+	CloudCallerResult,
+	CloudFileImport,
+	CloudGraphResult,
+	CloudSymbol,
+	CloudSymbolReference,
+	UploadIndexRequest,
+} from "../types.js";
+import type { Sql } from "./db.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Symbol graph fields of an index upload */
+export type GraphUpload = Pick<
+	UploadIndexRequest,
+	"graphFiles" | "symbols" | "references" | "imports" | "deletedFiles"
+>;
+
+/** Symbol graph of a single file */
+interface FileGraph {
+	symbols: CloudSymbol[];
+	references: CloudSymbolReference[];
+	imports: CloudFileImport[];
+}
+
+export interface StoreGraphResult {
+	/** File graphs that were not stored before */
+	graphFilesStored: number;
+	/** File graphs already stored for an earlier commit */
+	graphFilesDeduped: number;
+}
+
+/** A symbol of a commit graph, for ranking */
+export interface RankedSymbol {
+	filePath: string;
+	symbolId: string | null;
+	name: string;
+}
+
+/** A reference of a commit graph, for ranking */
+export interface RankedReference {
+	filePath: string;
+	fromSymbolId: string | null;
+	fromSymbolName: string;
+	toSymbolName: string;
+}
+
+/** Default token budget for repo maps */
+const DEFAULT_MAP_TOKENS = 2000;
+
+/** PageRank iterations and damping factor (as for local indexes) */
+const PAGERANK_ITERATIONS = 20;
+const PAGERANK_DAMPING = 0.85;
+
+// ============================================================================
+// Upload
+// ============================================================================
+
+/**
+ * Store the symbol graph of an uploaded commit.
+ *
+ * Files listed in graphFiles (or referenced by any uploaded symbol,
+ * reference or import) replace the parent's graph for that path; a listed
+ * file with nothing in it clears its entry. Deleted files are dropped and
+ * every other file is inherited from the parent commits. PageRank is then
+ * recomputed over the whole commit graph; uploaded scores are ignored.
+ */
+export async function storeCommitGraph(
+	sql: Sql,
+	repoId: number,
+	commitId: number,
+	parentShas: string[],
+	upload: GraphUpload,
+): Promise<StoreGraphResult> {
+	const files = groupByFile(upload);
+	let graphFilesStored = 0;
+	let graphFilesDeduped = 0;
+
+	for (const [filePath, graph] of files) {
+		if (
+			graph.symbols.length === 0 &&
+			graph.references.length === 0 &&
+			graph.imports.length === 0
+		) {
+			continue;
+		}
+
+		const graphHash = hashFileGraph(filePath, graph);
+		const inserted = await sql<{ id: number }[]>`
+			INSERT INTO file_graphs (graph_hash, file_path)
+			VALUES (${graphHash}, ${filePath})
+			ON CONFLICT (graph_hash) DO NOTHING
+			RETURNING id
+		`;
+
+		const fileGraphId = inserted[0]?.id;
+		if (fileGraphId !== undefined) {
+			await insertFileGraph(sql, fileGraphId, graph);
+			graphFilesStored++;
+		} else {
+			graphFilesDeduped++;
+		}
+
+		await sql`
+			INSERT INTO commit_graph_files (commit_id, file_path, graph_hash)
+			VALUES (${commitId}, ${filePath}, ${graphHash})
+			ON CONFLICT (commit_id, file_path) DO UPDATE
+				SET graph_hash = EXCLUDED.graph_hash
+		`;
+	}
+
+	// Inherit unchanged files from parent commits
+	const replacedPaths = [...files.keys(), ...(upload.deletedFiles ?? [])];
+	for (const parentSha of parentShas) {
+		await sql`
+			INSERT INTO commit_graph_files (commit_id, file_path, graph_hash)
+			SELECT ${commitId}, cgf.file_path, cgf.graph_hash
+			FROM commit_graph_files cgf
+			JOIN commits parent ON cgf.commit_id = parent.id
+			WHERE parent.sha = ${parentSha}
+			  AND parent.repo_id = ${repoId}
+			  AND cgf.file_path != ALL(${replacedPaths}::text[])
+			ON CONFLICT (commit_id, file_path) DO NOTHING
+		`;
+	}
+
+	await rankCommitGraph(sql, commitId);
+
+	return { graphFilesStored, graphFilesDeduped };
+}
+
+/**
+ * Compute PageRank over a commit's full graph, inherited files included,
+ * and store the scores in commit_graph_files.symbol_ranks
+ */
+async function rankCommitGraph(sql: Sql, commitId: number): Promise<void> {
+	const symbolRows = await sql<
+		{
+			file_path: string;
+			ordinal: number;
+			symbol_id: string | null;
+			name: string;
+		}[]
+	>`
+		SELECT cgf.file_path, s.ordinal, s.symbol_id, s.name
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_symbols s ON s.file_graph_id = fg.id
+		WHERE cgf.commit_id = ${commitId}
+	`;
+	if (symbolRows.length === 0) return;
+
+	const referenceRows = await sql<
+		{
+			file_path: string;
+			from_symbol_id: string | null;
+			from_symbol_name: string;
+			to_symbol_name: string;
+		}[]
+	>`
+		SELECT cgf.file_path, r.from_symbol_id, r.from_symbol_name,
+		       r.to_symbol_name
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_references r ON r.file_graph_id = fg.id
+		WHERE cgf.commit_id = ${commitId}
+	`;
+
+	const ranks = computeSymbolRanks(
+		symbolRows.map((row) => ({
+			filePath: row.file_path,
+			symbolId: row.symbol_id,
+			name: row.name,
+		})),
+		referenceRows.map((row) => ({
+			filePath: row.file_path,
+			fromSymbolId: row.from_symbol_id,
+			fromSymbolName: row.from_symbol_name,
+			toSymbolName: row.to_symbol_name,
+		})),
+	);
+
+	// Ordinals run 1..n within each file graph, so aggregating in ordinal
+	// order lines the ranks up with symbol_ranks[ordinal]
+	await sql`
+		UPDATE commit_graph_files cgf
+		SET symbol_ranks = ranked.ranks
+		FROM (
+			SELECT file_path, array_agg(rank ORDER BY ordinal) AS ranks
+			FROM UNNEST(
+				${symbolRows.map((row) => row.file_path)}::text[],
+				${symbolRows.map((row) => row.ordinal)}::int[],
+				${ranks}::float8[]
+			) AS t(file_path, ordinal, rank)
+			GROUP BY file_path
+		) ranked
+		WHERE cgf.commit_id = ${commitId} AND cgf.file_path = ranked.file_path
+	`;
+}
+
+/**
+ * PageRank scores of a commit's symbols, in input order and summing to 1.
+ *
+ * References only carry the target's name, so a reference is bound to the
+ * definition in its own file when there is one, and otherwise split evenly
+ * across every definition with that name.
+ */
+export function computeSymbolRanks(
+	symbols: RankedSymbol[],
+	references: RankedReference[],
+): number[] {
+	const n = symbols.length;
+	if (n === 0) return [];
+
+	const key = (filePath: string, name: string) => `${filePath}\0${name}`;
+	const byId = new Map<string, number>();
+	const byFileAndName = new Map<string, number>();
+	const byName = new Map<string, number[]>();
+	symbols.forEach((symbol, i) => {
+		if (symbol.symbolId !== null) {
+			byId.set(key(symbol.filePath, symbol.symbolId), i);
+		}
+		const nameKey = key(symbol.filePath, symbol.name);
+		if (!byFileAndName.has(nameKey)) byFileAndName.set(nameKey, i);
+		const named = byName.get(symbol.name);
+		if (named) {
+			named.push(i);
+		} else {
+			byName.set(symbol.name, [i]);
+		}
+	});
+
+	// Referencing symbol → referenced symbol → edge weight
+	const outEdges = symbols.map(() => new Map<number, number>());
+	for (const ref of references) {
+		const from =
+			(ref.fromSymbolId !== null
+				? byId.get(key(ref.filePath, ref.fromSymbolId))
+				: undefined) ??
+			byFileAndName.get(key(ref.filePath, ref.fromSymbolName));
+		if (from === undefined) continue;
+
+		const local = byFileAndName.get(key(ref.filePath, ref.toSymbolName));
+		const targets =
+			local !== undefined ? [local] : (byName.get(ref.toSymbolName) ?? []);
+		const weight = 1 / targets.length;
+		for (const to of targets) {
+			// Keep the strongest edge when a symbol references a target twice
+			if (to !== from && weight > (outEdges[from].get(to) ?? 0)) {
+				outEdges[from].set(to, weight);
+			}
+		}
+	}
+
+	const outWeights = outEdges.map((edges) => {
+		let total = 0;
+		for (const weight of edges.values()) total += weight;
+		return total;
+	});
+
+	let scores = new Array<number>(n).fill(1 / n);
+	for (let iter = 0; iter < PAGERANK_ITERATIONS; iter++) {
+		const next = new Array<number>(n).fill((1 - PAGERANK_DAMPING) / n);
+		outEdges.forEach((edges, from) => {
+			for (const [to, weight] of edges) {
+				next[to] +=
+					(PAGERANK_DAMPING * scores[from] * weight) / outWeights[from];
+			}
+		});
+		scores = next;
+	}
+
+	const total = scores.reduce((sum, score) => sum + score, 0);
+	return scores.map((score) => score / total);
+}
+
+/** Group uploaded symbols, references and imports by file */
+function groupByFile(upload: GraphUpload): Map<string, FileGraph> {
+	const files = new Map<string, FileGraph>();
+	const fileGraph = (filePath: string): FileGraph => {
+		let graph = files.get(filePath);
+		if (!graph) {
+			graph = { symbols: [], references: [], imports: [] };
+			files.set(filePath, graph);
+		}
+		return graph;
+	};
+
+	for (const filePath of upload.graphFiles ?? []) fileGraph(filePath);
+	for (const symbol of upload.symbols ?? []) {
+		fileGraph(symbol.filePath).symbols.push(symbol);
+	}
+	for (const reference of upload.references ?? []) {
+		fileGraph(reference.filePath).references.push(reference);
+	}
+	for (const imp of upload.imports ?? []) {
+		fileGraph(imp.filePath).imports.push(imp);
+	}
+
+	return files;
+}
+
+/** Content hash of a file graph; ranks are left out (stored per commit) */
+function hashFileGraph(filePath: string, graph: FileGraph): string {
+	const symbols = graph.symbols.map((s) => ({
+		...s,
+		pagerankScore: undefined,
+	}));
+	return createHash("sha256")
+		.update(JSON.stringify({ filePath, ...graph, symbols }))
+		.digest("hex");
+}
+
+/** Insert the rows of a newly stored file graph */
+async function insertFileGraph(
+	sql: Sql,
+	fileGraphId: number,
+	graph: FileGraph,
+): Promise<void> {
+	const { symbols, references, imports } = graph;
+
+	if (symbols.length > 0) {
+		await sql`
+			INSERT INTO graph_symbols (
+				file_graph_id, ordinal, symbol_id, name, kind, file_path,
+				start_line, end_line, signature, docstring, parent_id,
+				is_exported, language
+			)
+			SELECT ${fileGraphId}::int, * FROM UNNEST(
+				${symbols.map((_, i) => i + 1)}::int[],
+				${symbols.map((s) => s.id ?? null)}::text[],
+				${symbols.map((s) => s.name)}::text[],
+				${symbols.map((s) => s.kind)}::text[],
+				${symbols.map((s) => s.filePath)}::text[],
+				${symbols.map((s) => s.startLine)}::int[],
+				${symbols.map((s) => s.endLine)}::int[],
+				${symbols.map((s) => s.signature ?? null)}::text[],
+				${symbols.map((s) => s.docstring ?? null)}::text[],
+				${symbols.map((s) => s.parentId ?? null)}::text[],
+				${symbols.map((s) => s.isExported ?? null)}::boolean[],
+				${symbols.map((s) => s.language ?? null)}::text[]
+			)
+		`;
+	}
+
+	if (references.length > 0) {
+		await sql`
+			INSERT INTO graph_references (
+				file_graph_id, from_symbol_id, from_symbol_name, to_symbol_name,
+				kind, file_path, line
+			)
+			SELECT ${fileGraphId}::int, * FROM UNNEST(
+				${references.map((r) => r.fromSymbolId ?? null)}::text[],
+				${references.map((r) => r.fromSymbolName)}::text[],
+				${references.map((r) => r.toSymbolName)}::text[],
+				${references.map((r) => r.kind)}::text[],
+				${references.map((r) => r.filePath)}::text[],
+				${references.map((r) => r.line)}::int[]
+			)
+		`;
+	}
+
+	if (imports.length > 0) {
+		await sql`
+			INSERT INTO graph_imports (
+				file_graph_id, file_path, module_specifier, imported_name,
+				local_name, line, is_reexport
+			)
+			SELECT ${fileGraphId}::int, * FROM UNNEST(
+				${imports.map((i) => i.filePath)}::text[],
+				${imports.map((i) => i.moduleSpecifier)}::text[],
+				${imports.map((i) => i.importedName)}::text[],
+				${imports.map((i) => i.localName)}::text[],
+				${imports.map((i) => i.line)}::int[],
+				${imports.map((i) => i.isReexport ?? false)}::boolean[]
+			)
+		`;
+	}
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+interface SymbolRow {
+	symbol_id: string | null;
+	name: string;
+	kind: string;
+	file_path: string;
+	start_line: number;
+	end_line: number;
+	signature: string | null;
+	docstring: string | null;
+	parent_id: string | null;
+	is_exported: boolean | null;
+	language: string | null;
+	pagerank_score: number;
+}
+
+/** Symbol definitions named `name` at a commit, most important first */
+export async function findSymbols(
+	sql: Sql,
+	commitId: number,
+	name: string,
+): Promise<CloudSymbol[]> {
+	const rows = await sql<SymbolRow[]>`
+		SELECT s.*, COALESCE(cgf.symbol_ranks[s.ordinal], 0) AS pagerank_score
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_symbols s ON s.file_graph_id = fg.id
+		WHERE cgf.commit_id = ${commitId} AND s.name = ${name}
+		ORDER BY pagerank_score DESC, s.file_path, s.start_line
+	`;
+	return rows.map(toCloudSymbol);
+}
+
+/** Every reference to `name`, with the kind of the referencing symbol */
+export async function findCallers(
+	sql: Sql,
+	commitId: number,
+	name: string,
+): Promise<CloudCallerResult> {
+	const rows = await sql<
+		{ name: string; kind: string; file_path: string; line: number }[]
+	>`
+		SELECT r.from_symbol_name AS name,
+		       COALESCE(caller.kind, r.kind) AS kind,
+		       r.file_path, r.line
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_references r ON r.file_graph_id = fg.id
+		LEFT JOIN graph_symbols caller
+			ON caller.file_graph_id = fg.id AND caller.symbol_id = r.from_symbol_id
+		WHERE cgf.commit_id = ${commitId} AND r.to_symbol_name = ${name}
+		ORDER BY r.file_path, r.line
+	`;
+
+	return {
+		symbolName: name,
+		callers: rows.map((row) => ({
+			name: row.name,
+			kind: row.kind,
+			filePath: row.file_path,
+			line: row.line,
+		})),
+	};
+}
+
+/**
+ * Everything `name` references, located at the most important definition
+ * of each target (or at the reference when the target is not in the graph)
+ */
+export async function findCallees(
+	sql: Sql,
+	commitId: number,
+	name: string,
+): Promise<CloudCalleeResult> {
+	const rows = await sql<
+		{ name: string; kind: string; file_path: string; line: number }[]
+	>`
+		SELECT DISTINCT ON (r.to_symbol_name)
+		       r.to_symbol_name AS name,
+		       COALESCE(def.kind, r.kind) AS kind,
+		       COALESCE(def.file_path, r.file_path) AS file_path,
+		       COALESCE(def.start_line, r.line) AS line
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_references r ON r.file_graph_id = fg.id
+		LEFT JOIN LATERAL (
+			SELECT s.kind, s.file_path, s.start_line
+			FROM commit_graph_files dcgf
+			JOIN file_graphs dfg ON dfg.graph_hash = dcgf.graph_hash
+			JOIN graph_symbols s ON s.file_graph_id = dfg.id
+			WHERE dcgf.commit_id = ${commitId} AND s.name = r.to_symbol_name
+			ORDER BY COALESCE(dcgf.symbol_ranks[s.ordinal], 0) DESC
+			LIMIT 1
+		) def ON true
+		WHERE cgf.commit_id = ${commitId} AND r.from_symbol_name = ${name}
+		ORDER BY r.to_symbol_name, r.line
+	`;
+
+	return {
+		symbolName: name,
+		callees: rows.map((row) => ({
+			name: row.name,
+			kind: row.kind,
+			filePath: row.file_path,
+			line: row.line,
+		})),
+	};
+}
+
+/**
+ * Symbols, references and imports of a commit, optionally limited to
+ * some files. The repo map is left empty — callers fill it in.
+ */
+export async function loadCommitGraph(
+	sql: Sql,
+	commitId: number,
+	filePaths?: string[],
+): Promise<CloudGraphResult> {
+	const paths = filePaths ?? null;
+
+	const symbolRows = await sql<SymbolRow[]>`
+		SELECT s.*, COALESCE(cgf.symbol_ranks[s.ordinal], 0) AS pagerank_score
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_symbols s ON s.file_graph_id = fg.id
+		WHERE cgf.commit_id = ${commitId}
+		  AND (${paths}::text[] IS NULL OR cgf.file_path = ANY(${paths}::text[]))
+		ORDER BY s.file_path, s.start_line
+	`;
+
+	const referenceRows = await sql<
+		{
+			from_symbol_id: string | null;
+			from_symbol_name: string;
+			to_symbol_name: string;
+			kind: string;
+			file_path: string;
+			line: number;
+		}[]
+	>`
+		SELECT r.from_symbol_id, r.from_symbol_name, r.to_symbol_name,
+		       r.kind, r.file_path, r.line
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_references r ON r.file_graph_id = fg.id
+		WHERE cgf.commit_id = ${commitId}
+		  AND (${paths}::text[] IS NULL OR cgf.file_path = ANY(${paths}::text[]))
+		ORDER BY r.file_path, r.line
+	`;
+
+	const importRows = await sql<
+		{
+			file_path: string;
+			module_specifier: string;
+			imported_name: string;
+			local_name: string;
+			line: number;
+			is_reexport: boolean;
+		}[]
+	>`
+		SELECT i.file_path, i.module_specifier, i.imported_name,
+		       i.local_name, i.line, i.is_reexport
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_imports i ON i.file_graph_id = fg.id
+		WHERE cgf.commit_id = ${commitId}
+		  AND (${paths}::text[] IS NULL OR cgf.file_path = ANY(${paths}::text[]))
+		ORDER BY i.file_path, i.line
+	`;
+
+	return {
+		symbols: symbolRows.map(toCloudSymbol),
+		references: referenceRows.map((row) => ({
+			fromSymbolId: row.from_symbol_id ?? undefined,
+			fromSymbolName: row.from_symbol_name,
+			toSymbolName: row.to_symbol_name,
+			kind: row.kind,
+			filePath: row.file_path,
+			line: row.line,
+		})),
+		imports: importRows.map((row) => ({
+			filePath: row.file_path,
+			moduleSpecifier: row.module_specifier,
+			importedName: row.imported_name,
+			localName: row.local_name,
+			line: row.line,
+			isReexport: row.is_reexport,
+		})),
+		repoMap: "",
+	};
+}
+
+/**
+ * Text repo map of a commit: files with their symbols, highest PageRank
+ * first. Symbols whose name or path contains a query term are listed
+ * before the rest. Stops at the token budget (estimated at 4 chars/token).
+ */
+export async function buildRepoMap(
+	sql: Sql,
+	commitId: number,
+	header: string,
+	query?: string,
+	maxTokens = DEFAULT_MAP_TOKENS,
+): Promise<string> {
+	const rows = await sql<
+		{
+			name: string;
+			kind: string;
+			file_path: string;
+			start_line: number;
+			pagerank_score: number;
+		}[]
+	>`
+		SELECT s.name, s.kind, s.file_path, s.start_line,
+		       COALESCE(cgf.symbol_ranks[s.ordinal], 0) AS pagerank_score
+		FROM commit_graph_files cgf
+		JOIN file_graphs fg ON fg.graph_hash = cgf.graph_hash
+		JOIN graph_symbols s ON s.file_graph_id = fg.id
+		WHERE cgf.commit_id = ${commitId}
+		ORDER BY pagerank_score DESC, s.file_path, s.start_line
+	`;
+
+	const terms = (query ?? "")
+		.toLowerCase()
+		.split(/[^a-z0-9_]+/)
+		.filter((t) => t.length > 1);
+	const matches = (row: (typeof rows)[number]) =>
+		terms.some(
+			(t) =>
+				row.name.toLowerCase().includes(t) ||
+				row.file_path.toLowerCase().includes(t),
+		);
+	const ranked =
+		terms.length > 0
+			? [...rows.filter(matches), ...rows.filter((r) => !matches(r))]
+			: rows;
+
+	const lines = [header];
+	if (query) lines.push(`# Query: ${query}`);
+	lines.push("");
+
+	// Group by file in rank order, then fill the budget file by file
+	const byFile = new Map<string, string[]>();
+	for (const row of ranked) {
+		const entries = byFile.get(row.file_path) ?? [];
+		entries.push(
+			`  symbol name=${row.name} kind=${row.kind} line=${row.start_line} rank=${Number(row.pagerank_score).toFixed(3)}`,
+		);
+		byFile.set(row.file_path, entries);
+	}
+
+	let chars = lines.join("\n").length;
+	const budget = maxTokens * 4;
+	for (const [filePath, entries] of byFile) {
+		const block = [`file=${filePath}`, ...entries];
+		const size = block.join("\n").length + 1;
+		if (chars + size > budget) break;
+		lines.push(...block);
+		chars += size;
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+function toCloudSymbol(row: SymbolRow): CloudSymbol {
+	return {
+		id: row.symbol_id ?? undefined,
+		name: row.name,
+		kind: row.kind,
+		filePath: row.file_path,
+		startLine: row.start_line,
+		endLine: row.end_line,
+		signature: row.signature ?? undefined,
+		docstring: row.docstring ?? undefined,
+		parentId: row.parent_id ?? undefined,
+		isExported: row.is_exported ?? undefined,
+		language: row.language ?? undefined,
+		pagerankScore: Number(row.pagerank_score),
+	};
+}
@@ -0,0 +1,206 @@
+/**
+ * Symbol graph endpoints. All take ?repo=orgSlug/repoSlug&commit=sha and
+ * fall back to the nearest ready ancestor like /v1/search.
+ *
+ *   GET  /v1/symbol/:name   — symbol definitions named :name
+ *   GET  /v1/callers/:name  — references to :name
+ *   GET  /v1/callees/:name  — symbols referenced by :name
+ *   GET  /v1/map            — text repo map (?query=, ?maxTokens=)
+ *   GET  /v1/graph          — full symbol graph + repo map
+ *   POST /v1/graph          — graph of { filePaths } only
+ */
+
+import { checkRepoAccess } from "../access.js";
+import {
+	RESOLVED_COMMIT_HEADER,
+	type ResolvedCommit,
+	resolveCommit,
+} from "../commits.js";
+import {
+	buildRepoMap,
+	findCallees,
+	findCallers,
+	findSymbols,
+	loadCommitGraph,
+} from "../graph.js";
+import type { RequestContext } from "../router.js";
+import { json } from "../router.js";
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export async function getSymbol(ctx: RequestContext): Promise<Response> {
+	const target = await resolveTarget(ctx);
+	if (target instanceof Response) return target;
+
+	const symbols = await findSymbols(
+		ctx.sql,
+		target.commit.commitId,
+		ctx.params.name ?? "",
+	);
+	ctx.metrics.resultsReturned = symbols.length;
+	return withResolvedCommit(json(symbols), target.commit);
+}
+
+export async function getCallers(ctx: RequestContext): Promise<Response> {
+	const target = await resolveTarget(ctx);
+	if (target instanceof Response) return target;
+
+	const result = await findCallers(
+		ctx.sql,
+		target.commit.commitId,
+		ctx.params.name ?? "",
+	);
+	ctx.metrics.resultsReturned = result.callers.length;
+	return withResolvedCommit(json(result), target.commit);
+}
+
+export async function getCallees(ctx: RequestContext): Promise<Response> {
+	const target = await resolveTarget(ctx);
+	if (target instanceof Response) return target;
+
+	const result = await findCallees(
+		ctx.sql,
+		target.commit.commitId,
+		ctx.params.name ?? "",
+	);
+	ctx.metrics.resultsReturned = result.callees.length;
+	return withResolvedCommit(json(result), target.commit);
+}
+
+export async function getMap(ctx: RequestContext): Promise<Response> {
+	const target = await resolveTarget(ctx);
+	if (target instanceof Response) return target;
+
+	const query = ctx.query.get("query") ?? undefined;
+	const maxTokensParam = ctx.query.get("maxTokens");
+	const maxTokens = maxTokensParam
+		? Number.parseInt(maxTokensParam, 10)
+		: undefined;
+	if (maxTokens !== undefined && !(maxTokens > 0)) {
+		ctx.metrics.errorCode = "invalid_param";
+		return json({ error: "invalid_param", param: "maxTokens" }, 400);
+	}
+
+	const map = await buildRepoMap(
+		ctx.sql,
+		target.commit.commitId,
+		mapHeader(target.repo, target.commit.sha),
+		query,
+		maxTokens,
+	);
+	return withResolvedCommit(
+		new Response(map, {
+			status: 200,
+			headers: { "Content-Type": "text/plain; charset=utf-8" },
+		}),
+		target.commit,
+	);
+}
+
+export async function getGraph(ctx: RequestContext): Promise<Response> {
+	let filePaths: string[] | undefined;
+	if (ctx.method === "POST") {
+		try {
+			const body = (await ctx.req.json()) as { filePaths?: unknown };
+			if (body.filePaths !== undefined) {
+				if (
+					!Array.isArray(body.filePaths) ||
+					!body.filePaths.every((p) => typeof p === "string")
+				) {
+					ctx.metrics.errorCode = "invalid_field";
+					return json({ error: "invalid_field", field: "filePaths" }, 400);
+				}
+				filePaths = body.filePaths;
+			}
+		} catch {
+			ctx.metrics.errorCode = "invalid_json";
+			return json({ error: "invalid_json" }, 400);
+		}
+	}
+
+	const target = await resolveTarget(ctx);
+	if (target instanceof Response) return target;
+
+	const graph = await loadCommitGraph(
+		ctx.sql,
+		target.commit.commitId,
+		filePaths,
+	);
+	graph.repoMap = await buildRepoMap(
+		ctx.sql,
+		target.commit.commitId,
+		mapHeader(target.repo, target.commit.sha),
+	);
+	ctx.metrics.resultsReturned = graph.symbols.length;
+	return withResolvedCommit(json(graph), target.commit);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse ?repo= and ?commit= and resolve the commit to serve.
+ * Returns an error response when the request cannot be served.
+ */
+async function resolveTarget(
+	ctx: RequestContext,
+): Promise<{ repo: string; commit: ResolvedCommit } | Response> {
+	const repoParam = ctx.query.get("repo");
+	const commitSha = ctx.query.get("commit");
+	if (!repoParam || !commitSha) {
+		ctx.metrics.errorCode = "missing_param";
+		return json(
+			{ error: "missing_param", param: repoParam ? "commit" : "repo" },
+			400,
+		);
+	}
+
+	// repo is in "orgSlug/repoSlug" format
+	const slashIdx = repoParam.indexOf("/");
+	if (slashIdx === -1) {
+		ctx.metrics.errorCode = "invalid_param";
+		return json(
+			{ error: "invalid_param", param: "repo", expected: "orgSlug/repoSlug" },
+			400,
+		);
+	}
+
+	const orgSlug = repoParam.slice(0, slashIdx);
+	const repoSlug = repoParam.slice(slashIdx + 1);
+	ctx.metrics.orgSlug = orgSlug;
+	ctx.metrics.repoSlug = repoSlug;
+	ctx.metrics.commitSha = commitSha;
+
+	const forbidden = checkRepoAccess(ctx, orgSlug, repoSlug);
+	if (forbidden) return forbidden;
+
+	const commit = await resolveCommit(ctx.sql, orgSlug, repoSlug, commitSha);
+	if (!commit) {
+		ctx.metrics.errorCode = "commit_not_found";
+		return json({ error: "commit_not_found" }, 404);
+	}
+
+	if (commit.status !== "ready") {
+		ctx.metrics.errorCode = "commit_not_ready";
+		return json({ error: "commit_not_ready", status: commit.status }, 409);
+	}
+
+	ctx.metrics.resolvedCommitSha = commit.sha;
+	ctx.metrics.ancestorDepth = commit.depth;
+	return { repo: repoParam, commit };
+}
+
+function mapHeader(repo: string, commitSha: string): string {
+	return `# Repo Map — ${repo} @ ${commitSha.slice(0, 8)}`;
+}
+
+function withResolvedCommit(
+	response: Response,
+	commit: ResolvedCommit,
+): Response {
+	response.headers.set(RESOLVED_COMMIT_HEADER, commit.sha);
+	return response;
+}
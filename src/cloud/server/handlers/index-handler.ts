@@ -2,10 +2,14 @@
  * POST /v1/index
  * Upload chunk index for a commit. Handles thin mode (with vectors) and
  * smart mode (text only). Inherits unchanged files from parent commits.
+ * The optional symbol graph (graphFiles/symbols/references/imports) is
+ * stored alongside and inherited the same way.
  */
 
 import type { UploadChunk, UploadIndexRequest } from "../../types.js";
+import { checkRepoAccess } from "../access.js";
 import type { Sql } from "../db.js";
+import { type GraphUpload, storeCommitGraph } from "../graph.js";
 import type { RequestContext } from "../router.js";
 import { json } from "../router.js";
 
@@ -27,6 +31,10 @@ export async function uploadIndex(ctx: RequestContext): Promise<Response> {
 		deletedFiles = [],
 		mode,
 		enrichmentDocs = [],
+		graphFiles,
+		symbols,
+		references,
+		imports,
 	} = body;
 
 	// Validate required fields
@@ -35,6 +43,9 @@ export async function uploadIndex(ctx: RequestContext): Promise<Response> {
 		return json({ error: "missing_field" }, 400);
 	}
 
+	const forbidden = checkRepoAccess(ctx, orgSlug, repoSlug);
+	if (forbidden) return forbidden;
+
 	if (!/^[0-9a-f]{40}$/i.test(commitSha)) {
 		ctx.metrics.orgSlug = orgSlug;
 		ctx.metrics.repoSlug = repoSlug;
@@ -55,6 +66,8 @@ export async function uploadIndex(ctx: RequestContext): Promise<Response> {
 		status: string;
 		newChunks: number;
 		deduplicatedChunks: number;
+		graphFilesStored: number;
+		graphFilesDeduped: number;
 	};
 
 	try {
@@ -68,6 +81,8 @@ export async function uploadIndex(ctx: RequestContext): Promise<Response> {
 				status: string;
 				newChunks: number;
 				deduplicatedChunks: number;
+				graphFilesStored: number;
+				graphFilesDeduped: number;
 			}> => {
 				const sql = txRaw as Sql;
 				return runTransaction(
@@ -80,6 +95,7 @@ export async function uploadIndex(ctx: RequestContext): Promise<Response> {
 					deletedFiles,
 					mode,
 					enrichmentDocs,
+					{ graphFiles, symbols, references, imports, deletedFiles },
 				);
 			},
 		);
@@ -155,6 +171,8 @@ export async function uploadIndex(ctx: RequestContext): Promise<Response> {
 	ctx.metrics.chunksDeduped = result.deduplicatedChunks;
 	ctx.metrics.filesChanged = changedFileCount;
 	ctx.metrics.filesInherited = inheritedFiles;
+	ctx.metrics.graphFilesStored = result.graphFilesStored;
+	ctx.metrics.graphFilesDeduped = result.graphFilesDeduped;
 
 	return json(responseBody, 202);
 }
@@ -173,11 +191,14 @@ async function runTransaction(
 	deletedFiles: string[],
 	mode: "thin" | "smart",
 	enrichmentDocs: import("../../types.js").CloudEnrichmentDoc[],
+	graph: GraphUpload,
 ): Promise<{
 	commitId: number;
 	status: string;
 	newChunks: number;
 	deduplicatedChunks: number;
+	graphFilesStored: number;
+	graphFilesDeduped: number;
 }> {
 	// Step 1 — resolve repo
 	const repos = await sql<{ repo_id: number; embedding_dim: number }[]>`
@@ -251,6 +272,8 @@ async function runTransaction(
 			status: "ready",
 			newChunks: 0,
 			deduplicatedChunks: 0,
+			graphFilesStored: 0,
+			graphFilesDeduped: 0,
 		};
 	}
 
@@ -353,7 +376,16 @@ async function runTransaction(
 		`;
 	}
 
-	// Step 8 — enrichment docs (optional)
+	// Step 8 — symbol graph (content-addressed per file, inherited like files)
+	const graphResult = await storeCommitGraph(
+		sql,
+		repoId,
+		commitId,
+		parentShas,
+		graph,
+	);
+
+	// Step 9 — enrichment docs (optional)
 	for (const doc of enrichmentDocs) {
 		await sql`
 			INSERT INTO enrichment_docs (content_hash, doc_type, content, llm_model)
@@ -369,7 +401,7 @@ async function runTransaction(
 		`;
 	}
 
-	// Step 9 — update commit status
+	// Step 10 — update commit status
 	const finalStatus = mode === "thin" ? "ready" : "embedding";
 	if (finalStatus === "ready") {
 		await sql`
@@ -390,5 +422,6 @@ async function runTransaction(
 		status: finalStatus,
 		newChunks,
 		deduplicatedChunks,
+		...graphResult,
 	};
 }
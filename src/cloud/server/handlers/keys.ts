@@ -1,17 +1,61 @@
 /**
  * API key management handlers.
  *
- * POST   /v1/keys         — createKey
- * GET    /v1/keys         — listKeys
- * DELETE /v1/keys/:keyId  — deleteKey
+ * POST   /v1/keys               — createKey
+ * GET    /v1/keys               — listKeys
+ * PATCH  /v1/keys/:keyId        — updateKey (rename, rescope, change role/limits)
+ * GET    /v1/keys/:keyId/usage  — getKeyUsage (audit trail)
+ * DELETE /v1/keys/:keyId        — deleteKey
  *
- * All endpoints require master key (enforced by authMiddleware before reaching here).
+ * All endpoints require the master key or an "admin" role key (enforced by
+ * the router before reaching here). Admin keys only see and manage keys of
+ * their own org, cannot grant access to repos outside their own scope, and
+ * can only tighten rate limits and quotas; raising or clearing a limit
+ * takes the master key.
  */
 
 import { createHash, randomBytes } from "node:crypto";
+import { type KeyRole, isKeyRole, loadKeyUsage } from "../access.js";
 import type { RequestContext } from "../router.js";
 import { json } from "../router.js";
 
+// ============================================================================
+// Types
+// ============================================================================
+
+interface KeyRow {
+	id: number;
+	name: string;
+	key_prefix: string;
+	created_at: Date;
+	last_used_at: Date | null;
+	is_active: boolean;
+	role: string;
+	org_slug: string | null;
+	repo_slugs: string[] | null;
+	rate_limit_per_minute: number | null;
+	daily_quota: number | null;
+}
+
+/** Role, scope and limits of a key — the fields both create and update accept */
+interface KeySettings {
+	role: KeyRole;
+	repoSlugs: string[] | null;
+	rateLimitPerMinute: number | null;
+	dailyQuota: number | null;
+}
+
+const DEFAULT_KEY_SETTINGS: KeySettings = {
+	role: "uploader",
+	repoSlugs: null,
+	rateLimitPerMinute: null,
+	dailyQuota: null,
+};
+
+/** Default and maximum number of requests returned by getKeyUsage */
+const DEFAULT_USAGE_LIMIT = 50;
+const MAX_USAGE_LIMIT = 500;
+
 // ============================================================================
 // Key generation
 // ============================================================================
@@ -31,6 +75,10 @@ function generateApiKey(): { key: string; hash: string; prefix: string } {
 /**
  * POST /v1/keys — Create a new API key.
  * Returns the full secret once (not stored in DB after this point).
+ *
+ * Body: { name, orgSlug?, repoSlugs?, role?, rateLimitPerMinute?, dailyQuota? }
+ * Keys created by an admin key always belong to that key's org and have
+ * limits no looser than the admin key's own.
  */
 export async function createKey(ctx: RequestContext): Promise<Response> {
 	let body: Record<string, unknown>;
@@ -45,26 +93,83 @@ export async function createKey(ctx: RequestContext): Promise<Response> {
 		return json({ error: "missing_field", field: "name" }, 400);
 	}
 
+	if (
+		body.orgSlug !== undefined &&
+		body.orgSlug !== null &&
+		(typeof body.orgSlug !== "string" || !body.orgSlug.trim())
+	) {
+		return json({ error: "invalid_field", field: "orgSlug" }, 400);
+	}
+	let orgSlug = typeof body.orgSlug === "string" ? body.orgSlug.trim() : null;
+
+	const caller = ctx.apiKey;
+	if (caller) {
+		if (orgSlug !== null && orgSlug !== caller.orgSlug) {
+			ctx.metrics.errorCode = "org_forbidden";
+			return json({ error: "forbidden", reason: "org_not_in_key_scope" }, 403);
+		}
+		orgSlug = caller.orgSlug;
+	}
+
+	const settings = readKeySettings(body, DEFAULT_KEY_SETTINGS);
+	if ("invalid" in settings) {
+		return json({ error: "invalid_field", field: settings.invalid }, 400);
+	}
+
+	// Admin and repo-scoped keys only make sense within an org
+	if (
+		orgSlug === null &&
+		(settings.role === "admin" || settings.repoSlugs !== null)
+	) {
+		return json({ error: "missing_field", field: "orgSlug" }, 400);
+	}
+
+	if (!withinCallerScope(ctx, settings.repoSlugs)) {
+		ctx.metrics.errorCode = "repo_forbidden";
+		return json({ error: "forbidden", reason: "repo_not_in_key_scope" }, 403);
+	}
+
+	const looserLimit = findLooserLimit(ctx, settings, {
+		rateLimitPerMinute: caller?.rateLimitPerMinute ?? null,
+		dailyQuota: caller?.dailyQuota ?? null,
+	});
+	if (looserLimit) {
+		return limitForbidden(ctx, looserLimit);
+	}
+
+	// Keys can be provisioned before the org's first repo is registered
+	let orgId: number | null = null;
+	if (orgSlug !== null) {
+		const orgs = await ctx.sql<{ id: number }[]>`
+			INSERT INTO orgs (slug)
+			VALUES (${orgSlug})
+			ON CONFLICT (slug) DO UPDATE SET slug = EXCLUDED.slug
+			RETURNING id
+		`;
+		orgId = orgs[0]?.id ?? null;
+	}
+
 	const { key, hash, prefix } = generateApiKey();
 
-	const rows = await ctx.sql<{ id: number; created_at: Date }[]>`
-		INSERT INTO api_keys (key_hash, key_prefix, name)
-		VALUES (${hash}, ${prefix}, ${name})
-		RETURNING id, created_at
+	const rows = await ctx.sql<Omit<KeyRow, "org_slug">[]>`
+		INSERT INTO api_keys (
+			key_hash, key_prefix, name, org_id, repo_slugs, role,
+			rate_limit_per_minute, daily_quota
+		)
+		VALUES (
+			${hash}, ${prefix}, ${name}, ${orgId}, ${settings.repoSlugs}::text[],
+			${settings.role}, ${settings.rateLimitPerMinute}, ${settings.dailyQuota}
+		)
+		RETURNING id, name, key_prefix, created_at, last_used_at, is_active,
+		          role, repo_slugs, rate_limit_per_minute, daily_quota
 	`;
+
 	const row = rows[0]!;
 
 	return json(
 		{
 			ok: true,
-			key: {
-				id: row.id,
-				name,
-				prefix,
-				createdAt: row.created_at.toISOString(),
-				lastUsedAt: null,
-				isActive: true,
-			},
+			key: serializeKey({ ...row, org_slug: orgSlug }),
 			secret: key,
 		},
 		201,
@@ -72,22 +177,19 @@ export async function createKey(ctx: RequestContext): Promise<Response> {
 }
 
 /**
- * GET /v1/keys — List all API keys with usage stats.
+ * GET /v1/keys — List API keys with usage stats.
+ * Admin keys see only the keys of their own org.
  */
 export async function listKeys(ctx: RequestContext): Promise<Response> {
-	const keys = await ctx.sql<
-		{
-			id: number;
-			name: string;
-			key_prefix: string;
-			created_at: Date;
-			last_used_at: Date | null;
-			is_active: boolean;
-		}[]
-	>`
-		SELECT id, name, key_prefix, created_at, last_used_at, is_active
-		FROM api_keys
-		ORDER BY created_at DESC
+	const orgFilter = ctx.apiKey?.orgId ?? null;
+	const keys = await ctx.sql<KeyRow[]>`
+		SELECT k.id, k.name, k.key_prefix, k.created_at, k.last_used_at,
+		       k.is_active, k.role, o.slug AS org_slug, k.repo_slugs,
+		       k.rate_limit_per_minute, k.daily_quota
+		FROM api_keys k
+		LEFT JOIN orgs o ON o.id = k.org_id
+		WHERE ${orgFilter}::int IS NULL OR k.org_id = ${orgFilter}
+		ORDER BY k.created_at DESC
 	`;
 
 	// Aggregate usage per key in one query
@@ -120,17 +222,183 @@ export async function listKeys(ctx: RequestContext): Promise<Response> {
 
 	return json({
 		keys: keys.map((k) => ({
-			id: k.id,
-			name: k.name,
-			prefix: k.key_prefix,
-			createdAt: k.created_at.toISOString(),
-			lastUsedAt: k.last_used_at?.toISOString() ?? null,
-			isActive: k.is_active,
+			...serializeKey(k),
 			usage: usageMap.get(k.id) ?? { total: 0, byEndpoint: {} },
 		})),
 	});
 }
 
+/**
+ * PATCH /v1/keys/:keyId — Update a key's name, active flag, role, repo
+ * scope or limits. Omitted fields are left unchanged; null clears the repo
+ * scope and limits. The org of a key cannot be changed.
+ */
+export async function updateKey(ctx: RequestContext): Promise<Response> {
+	const keyId = Number.parseInt(ctx.params.keyId ?? "", 10);
+	if (!Number.isFinite(keyId)) {
+		return json({ error: "invalid_param" }, 400);
+	}
+
+	let body: Record<string, unknown>;
+	try {
+		body = (await ctx.req.json()) as Record<string, unknown>;
+	} catch {
+		return json({ error: "invalid_json" }, 400);
+	}
+
+	const existing = await findManagedKey(ctx, keyId);
+	if (!existing) {
+		return json({ error: "not_found" }, 404);
+	}
+
+	let name = existing.name;
+	if (body.name !== undefined) {
+		if (typeof body.name !== "string" || !body.name.trim()) {
+			return json({ error: "invalid_field", field: "name" }, 400);
+		}
+		name = body.name.trim();
+	}
+
+	let isActive = existing.is_active;
+	if (body.isActive !== undefined) {
+		if (typeof body.isActive !== "boolean") {
+			return json({ error: "invalid_field", field: "isActive" }, 400);
+		}
+		isActive = body.isActive;
+	}
+
+	const settings = readKeySettings(body, {
+		role: isKeyRole(existing.role) ? existing.role : "search",
+		repoSlugs: existing.repo_slugs,
+		rateLimitPerMinute: existing.rate_limit_per_minute,
+		dailyQuota: existing.daily_quota,
+	});
+	if ("invalid" in settings) {
+		return json({ error: "invalid_field", field: settings.invalid }, 400);
+	}
+
+	if (existing.org_slug === null) {
+		if (settings.role === "admin") {
+			return json(
+				{ error: "invalid_field", field: "role", reason: "key_has_no_org" },
+				400,
+			);
+		}
+		if (settings.repoSlugs !== null) {
+			return json(
+				{
+					error: "invalid_field",
+					field: "repoSlugs",
+					reason: "key_has_no_org",
+				},
+				400,
+			);
+		}
+	}
+
+	if (!withinCallerScope(ctx, settings.repoSlugs)) {
+		ctx.metrics.errorCode = "repo_forbidden";
+		return json({ error: "forbidden", reason: "repo_not_in_key_scope" }, 403);
+	}
+
+	const looserLimit = findLooserLimit(ctx, settings, {
+		rateLimitPerMinute: existing.rate_limit_per_minute,
+		dailyQuota: existing.daily_quota,
+	});
+	if (looserLimit) {
+		return limitForbidden(ctx, looserLimit);
+	}
+
+	const rows = await ctx.sql<Omit<KeyRow, "org_slug">[]>`
+		UPDATE api_keys
+		SET name = ${name},
+		    is_active = ${isActive},
+		    role = ${settings.role},
+		    repo_slugs = ${settings.repoSlugs}::text[],
+		    rate_limit_per_minute = ${settings.rateLimitPerMinute},
+		    daily_quota = ${settings.dailyQuota}
+		WHERE id = ${keyId}
+		RETURNING id, name, key_prefix, created_at, last_used_at, is_active,
+		          role, repo_slugs, rate_limit_per_minute, daily_quota
+	`;
+
+	const updated = rows[0];
+	if (!updated) {
+		return json({ error: "not_found" }, 404);
+	}
+
+	return json({
+		ok: true,
+		key: serializeKey({ ...updated, org_slug: existing.org_slug }),
+	});
+}
+
+/**
+ * GET /v1/keys/:keyId/usage — Audit a key: its current rate limit and quota
+ * windows, status codes over the last 24 hours and its most recent requests
+ * (?limit=, default 50).
+ */
+export async function getKeyUsage(ctx: RequestContext): Promise<Response> {
+	const keyId = Number.parseInt(ctx.params.keyId ?? "", 10);
+	if (!Number.isFinite(keyId)) {
+		return json({ error: "invalid_param" }, 400);
+	}
+
+	const limitParam = ctx.query.get("limit");
+	const limit = limitParam
+		? Number.parseInt(limitParam, 10)
+		: DEFAULT_USAGE_LIMIT;
+	if (!(limit > 0)) {
+		return json({ error: "invalid_param", param: "limit" }, 400);
+	}
+
+	const key = await findManagedKey(ctx, keyId);
+	if (!key) {
+		return json({ error: "not_found" }, 404);
+	}
+
+	const window = await loadKeyUsage(ctx.sql, keyId);
+
+	const statusRows = await ctx.sql<{ status_code: number; cnt: number }[]>`
+		SELECT status_code, COUNT(*)::int AS cnt
+		FROM api_key_usage
+		WHERE key_id = ${keyId} AND created_at > now() - interval '1 day'
+		GROUP BY status_code
+		ORDER BY status_code
+	`;
+
+	const recentRows = await ctx.sql<
+		{ endpoint: string; status_code: number; created_at: Date }[]
+	>`
+		SELECT endpoint, status_code, created_at
+		FROM api_key_usage
+		WHERE key_id = ${keyId}
+		ORDER BY created_at DESC, id DESC
+		LIMIT ${Math.min(limit, MAX_USAGE_LIMIT)}
+	`;
+
+	const statusCounts: Record<string, number> = {};
+	for (const row of statusRows) {
+		statusCounts[String(row.status_code)] = row.cnt;
+	}
+
+	return json({
+		key: serializeKey(key),
+		window: {
+			minuteCount: window.minuteCount,
+			dayCount: window.dayCount,
+			rateLimitPerMinute: key.rate_limit_per_minute,
+			dailyQuota: key.daily_quota,
+		},
+		statusCounts,
+		recent: recentRows.map((r) => ({
+			endpoint: r.endpoint,
+			statusCode: r.status_code,
+			createdAt: r.created_at.toISOString(),
+		})),
+	});
+}
+
 /**
  * DELETE /v1/keys/:keyId — Hard delete an API key.
  * Usage rows cascade via FK ON DELETE CASCADE.
@@ -141,8 +409,12 @@ export async function deleteKey(ctx: RequestContext): Promise<Response> {
 		return json({ error: "invalid_param" }, 400);
 	}
 
+	const orgFilter = ctx.apiKey?.orgId ?? null;
 	const result = await ctx.sql<{ id: number }[]>`
-		DELETE FROM api_keys WHERE id = ${keyId} RETURNING id
+		DELETE FROM api_keys
+		WHERE id = ${keyId}
+		  AND (${orgFilter}::int IS NULL OR org_id = ${orgFilter})
+		RETURNING id
 	`;
 
 	if (result.length === 0) {
@@ -151,3 +423,133 @@ export async function deleteKey(ctx: RequestContext): Promise<Response> {
 
 	return json({ ok: true, deleted: true });
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function serializeKey(row: KeyRow) {
+	return {
+		id: row.id,
+		name: row.name,
+		prefix: row.key_prefix,
+		createdAt: row.created_at.toISOString(),
+		lastUsedAt: row.last_used_at?.toISOString() ?? null,
+		isActive: row.is_active,
+		orgSlug: row.org_slug,
+		repoSlugs: row.repo_slugs,
+		role: row.role,
+		rateLimitPerMinute: row.rate_limit_per_minute,
+		dailyQuota: row.daily_quota,
+	};
+}
+
+/**
+ * Load a key the caller may manage: any key for the master key, keys of
+ * the caller's org for admin keys. Keys of other orgs are reported as
+ * missing rather than forbidden.
+ */
+async function findManagedKey(
+	ctx: RequestContext,
+	keyId: number,
+): Promise<KeyRow | null> {
+	const orgFilter = ctx.apiKey?.orgId ?? null;
+	const rows = await ctx.sql<KeyRow[]>`
+		SELECT k.id, k.name, k.key_prefix, k.created_at, k.last_used_at,
+		       k.is_active, k.role, o.slug AS org_slug, k.repo_slugs,
+		       k.rate_limit_per_minute, k.daily_quota
+		FROM api_keys k
+		LEFT JOIN orgs o ON o.id = k.org_id
+		WHERE k.id = ${keyId}
+		  AND (${orgFilter}::int IS NULL OR k.org_id = ${orgFilter})
+		LIMIT 1
+	`;
+	return rows[0] ?? null;
+}
+
+/**
+ * Read role, repoSlugs, rateLimitPerMinute and dailyQuota from a request
+ * body, falling back to `current` for omitted fields. Returns the name of
+ * the first invalid field instead when one does not validate.
+ */
+function readKeySettings(
+	body: Record<string, unknown>,
+	current: KeySettings,
+): KeySettings | { invalid: string } {
+	const settings = { ...current };
+
+	if (body.role !== undefined) {
+		if (!isKeyRole(body.role)) return { invalid: "role" };
+		settings.role = body.role;
+	}
+
+	if (body.repoSlugs !== undefined) {
+		if (body.repoSlugs === null) {
+			settings.repoSlugs = null;
+		} else if (
+			Array.isArray(body.repoSlugs) &&
+			body.repoSlugs.length > 0 &&
+			body.repoSlugs.every((r) => typeof r === "string" && r.trim())
+		) {
+			settings.repoSlugs = [
+				...new Set((body.repoSlugs as string[]).map((r) => r.trim())),
+			];
+		} else {
+			return { invalid: "repoSlugs" };
+		}
+	}
+
+	for (const field of ["rateLimitPerMinute", "dailyQuota"] as const) {
+		const value = body[field];
+		if (value === undefined) continue;
+		if (value !== null && !(Number.isInteger(value) && (value as number) > 0)) {
+			return { invalid: field };
+		}
+		settings[field] = value as number | null;
+	}
+
+	return settings;
+}
+
+/**
+ * Whether the caller may grant access to `repoSlugs`. An admin key limited
+ * to some repos cannot create or widen keys beyond those repos.
+ */
+function withinCallerScope(
+	ctx: RequestContext,
+	repoSlugs: string[] | null,
+): boolean {
+	const callerRepos = ctx.apiKey?.repoSlugs ?? null;
+	if (callerRepos === null) return true;
+	return repoSlugs?.every((r) => callerRepos.includes(r)) ?? false;
+}
+
+type LimitField = "rateLimitPerMinute" | "dailyQuota";
+
+/**
+ * The first limit an admin key would loosen: raise above `current` (the
+ * key's limits, or the admin's own for a new key) or clear. Only the master
+ * key may loosen limits; null when the settings are allowed.
+ */
+function findLooserLimit(
+	ctx: RequestContext,
+	settings: KeySettings,
+	current: Pick<KeySettings, LimitField>,
+): LimitField | null {
+	if (!ctx.apiKey) return null;
+	for (const field of ["rateLimitPerMinute", "dailyQuota"] as const) {
+		const limit = current[field];
+		const next = settings[field];
+		if (limit === null || next === limit) continue;
+		if (next === null || next > limit) return field;
+	}
+	return null;
+}
+
+function limitForbidden(ctx: RequestContext, field: LimitField): Response {
+	ctx.metrics.errorCode = "limit_forbidden";
+	return json(
+		{ error: "forbidden", reason: "limit_not_in_key_scope", field },
+		403,
+	);
+}
@@ -4,6 +4,7 @@
  * Returns 409 if called with a different embeddingModel for an existing repo.
  */
 
+import { checkRepoAccess } from "../access.js";
 import type { RequestContext } from "../router.js";
 import { json } from "../router.js";
 
@@ -15,6 +16,9 @@ export async function register(ctx: RequestContext): Promise<Response> {
 		return json({ error: "missing_param" }, 400);
 	}
 
+	const forbidden = checkRepoAccess(ctx, orgSlug, repoSlug);
+	if (forbidden) return forbidden;
+
 	let body: Record<string, unknown>;
 	try {
 		body = (await ctx.req.json()) as Record<string, unknown>;
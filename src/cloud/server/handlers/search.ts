@@ -1,9 +1,16 @@
 /**
  * POST /v1/search
  * Semantic vector search against a commit's indexed chunks using pgvector.
+ *
+ * When the requested commit is not ready, the search falls back to the
+ * nearest ancestor (following commits.parent_shas) whose status is
+ * "ready". The commit actually searched is returned in the
+ * X-Mnemex-Resolved-Commit response header.
  */
 
 import type { CloudSearchRequest, CloudSearchResult } from "../../types.js";
+import { checkRepoAccess } from "../access.js";
+import { RESOLVED_COMMIT_HEADER, resolveCommit } from "../commits.js";
 import type { RequestContext } from "../router.js";
 import { json } from "../router.js";
 
@@ -59,26 +66,13 @@ export async function search(ctx: RequestContext): Promise<Response> {
 		);
 	}
 
-	// Step 1 — resolve repo and commit
-	const repoCommit = await ctx.sql<
-		{
-			repo_id: number;
-			embedding_dim: number;
-			commit_id: number;
-			status: string;
-		}[]
-	>`
-		SELECT r.id AS repo_id, r.embedding_dim, c.id AS commit_id, c.status
-		FROM repos r
-		JOIN orgs o ON r.org_id = o.id
-		JOIN commits c ON c.repo_id = r.id
-		WHERE o.slug = ${orgSlug}
-		  AND r.slug = ${repoSlug}
-		  AND c.sha = ${commitSha}
-		LIMIT 1
-	`;
-
-	if (repoCommit.length === 0) {
+	const forbidden = checkRepoAccess(ctx, orgSlug, repoSlug);
+	if (forbidden) return forbidden;
+
+	// Step 1 — resolve repo and the nearest ready commit
+	const resolved = await resolveCommit(ctx.sql, orgSlug, repoSlug, commitSha);
+
+	if (!resolved) {
 		ctx.metrics.orgSlug = orgSlug;
 		ctx.metrics.repoSlug = repoSlug;
 		ctx.metrics.commitSha = commitSha;
@@ -87,11 +81,12 @@ export async function search(ctx: RequestContext): Promise<Response> {
 	}
 
 	const {
-		repo_id: _repoId,
-		embedding_dim: embeddingDim,
-		commit_id: commitId,
+		embeddingDim,
+		commitId,
+		sha: resolvedSha,
 		status,
-	} = repoCommit[0]!;
+		depth: ancestorDepth,
+	} = resolved;
 
 	// Validate query vector dimension
 	if (queryVector.length !== embeddingDim) {
@@ -220,6 +215,10 @@ export async function search(ctx: RequestContext): Promise<Response> {
 	ctx.metrics.queryDim = queryVector.length;
 	ctx.metrics.resultsReturned = results.length;
 	ctx.metrics.searchMs = searchDurationMs;
+	ctx.metrics.resolvedCommitSha = resolvedSha;
+	ctx.metrics.ancestorDepth = ancestorDepth;
 
-	return json(results);
+	const response = json(results);
+	response.headers.set(RESOLVED_COMMIT_HEADER, resolvedSha);
+	return response;
 }
@@ -4,6 +4,7 @@
  */
 
 import type { CommitStatus } from "../../types.js";
+import { checkRepoAccess } from "../access.js";
 import type { RequestContext } from "../router.js";
 import { json } from "../router.js";
 
@@ -34,6 +35,9 @@ export async function getStatus(ctx: RequestContext): Promise<Response> {
 	const orgSlug = repoParam.slice(0, slashIdx);
 	const repoSlug = repoParam.slice(slashIdx + 1);
 
+	const forbidden = checkRepoAccess(ctx, orgSlug, repoSlug);
+	if (forbidden) return forbidden;
+
 	// Resolve repo
 	const repos = await ctx.sql<{ repo_id: number }[]>`
 		SELECT r.id AS repo_id
@@ -6,6 +6,12 @@
  */
 
 import { createHash } from "node:crypto";
+import {
+	type KeyRole,
+	checkUsageLimits,
+	isKeyRole,
+	loadKeyUsage,
+} from "./access.js";
 import type { RequestContext } from "./router.js";
 import { json } from "./router.js";
 
@@ -20,6 +26,10 @@ import { json } from "./router.js";
  * Skips /v1/health unconditionally.
  * When MASTER_API_KEY is not set in config → auth disabled (dev/test mode).
  *
+ * Regular keys are loaded with their role, scope and limits into ctx.apiKey;
+ * the router enforces roles and handlers enforce repo scope. Keys over their
+ * rate limit or daily quota get 429 with Retry-After.
+ *
  * Sets ctx.metrics.apiKeyId on success for downstream usage tracking.
  */
 export async function authMiddleware(
@@ -48,25 +58,65 @@ export async function authMiddleware(
 	const hash = createHash("sha256").update(token).digest("hex");
 
 	const rows = await ctx.sql<
-		{ id: number; name: string; is_active: boolean }[]
+		{
+			id: number;
+			is_active: boolean;
+			role: string;
+			org_id: number | null;
+			org_slug: string | null;
+			repo_slugs: string[] | null;
+			rate_limit_per_minute: number | null;
+			daily_quota: number | null;
+		}[]
 	>`
-		SELECT id, name, is_active
-		FROM api_keys
-		WHERE key_hash = ${hash}
+		SELECT k.id, k.is_active, k.role, k.org_id, o.slug AS org_slug,
+		       k.repo_slugs, k.rate_limit_per_minute, k.daily_quota
+		FROM api_keys k
+		LEFT JOIN orgs o ON o.id = k.org_id
+		WHERE k.key_hash = ${hash}
 		LIMIT 1
 	`;
 
-	if (rows.length === 0 || !rows[0]!.is_active) {
+	const row = rows[0];
+	if (!row || !row.is_active) {
 		return json({ error: "forbidden" }, 403);
 	}
 
-	// Key management endpoints require master key only
-	if (ctx.pathname.startsWith("/v1/keys")) {
-		return json({ error: "forbidden" }, 403);
+	// Unknown roles (e.g. written by a newer server) get the least privilege,
+	// and admin rights need an org to be confined to
+	let role: KeyRole = isKeyRole(row.role) ? row.role : "search";
+	if (role === "admin" && row.org_id === null) role = "uploader";
+	ctx.apiKey = {
+		id: row.id,
+		role,
+		orgId: row.org_id,
+		orgSlug: row.org_slug,
+		repoSlugs: row.repo_slugs,
+		rateLimitPerMinute: row.rate_limit_per_minute,
+		dailyQuota: row.daily_quota,
+	};
+	ctx.metrics.apiKeyId = row.id;
+	ctx.metrics.apiKeySource = "key";
+	ctx.metrics.apiKeyRole = role;
+
+	if (row.rate_limit_per_minute !== null || row.daily_quota !== null) {
+		const usage = await loadKeyUsage(ctx.sql, row.id);
+		const exceeded = checkUsageLimits(ctx.apiKey, usage);
+		if (exceeded) {
+			ctx.metrics.errorCode = exceeded.error;
+			const response = json(
+				{
+					error: exceeded.error,
+					limit: exceeded.limit,
+					retryAfter: exceeded.retryAfterSeconds,
+				},
+				429,
+			);
+			response.headers.set("Retry-After", String(exceeded.retryAfterSeconds));
+			return response;
+		}
 	}
 
-	ctx.metrics.apiKeyId = rows[0]!.id;
-	ctx.metrics.apiKeySource = "key";
 	return null;
 }
 
@@ -3,6 +3,7 @@
  * Hand-written pattern matching — no framework dependency.
  */
 
+import { type AuthenticatedKey, type KeyRole, hasRole } from "./access.js";
 import type { ServerConfig } from "./config.js";
 import type { Sql } from "./db.js";
 
@@ -36,6 +37,10 @@ export interface RequestMetrics {
 	filesChanged?: number;
 	/** Files inherited from parent commit unchanged */
 	filesInherited?: number;
+	/** File symbol graphs that were not stored before */
+	graphFilesStored?: number;
+	/** File symbol graphs already present by graph hash (not re-stored) */
+	graphFilesDeduped?: number;
 
 	// --- Chunk dedup check (POST /v1/chunks/check) ---
 
@@ -50,10 +55,14 @@ export interface RequestMetrics {
 
 	/** Dimension of the query vector (used to detect version skew) */
 	queryDim?: number;
-	/** Number of search results returned (0 indicates empty index or bad query) */
+	/** Number of search (or symbol graph) results returned (0 indicates empty index or bad query) */
 	resultsReturned?: number;
 	/** Duration of the pgvector query only, in milliseconds */
 	searchMs?: number;
+	/** Commit actually searched (differs from commitSha after ancestor fallback) */
+	resolvedCommitSha?: string;
+	/** Parent hops from commitSha to resolvedCommitSha (0 = exact match) */
+	ancestorDepth?: number;
 
 	// --- Commit status (GET /v1/commits/:sha/status) ---
 
@@ -76,6 +85,8 @@ export interface RequestMetrics {
 	apiKeyId?: number;
 	/** Source of auth: "master" | "key" | "none" */
 	apiKeySource?: "master" | "key" | "none";
+	/** Role of the authenticated API key */
+	apiKeyRole?: KeyRole;
 }
 
 // ============================================================================
@@ -92,6 +103,8 @@ export interface RequestContext {
 	sql: Sql;
 	/** Server configuration */
 	config: ServerConfig;
+	/** Authenticated API key (undefined for the master key or when auth is disabled) */
+	apiKey?: AuthenticatedKey;
 	/** Per-request telemetry bag — handlers write here; fetch wrapper reads for logging */
 	metrics: Partial<RequestMetrics>;
 }
@@ -136,8 +149,21 @@ function matchRoute(
 // ============================================================================
 
 import { check } from "./handlers/chunks.js";
+import {
+	getCallees,
+	getCallers,
+	getGraph,
+	getMap,
+	getSymbol,
+} from "./handlers/graph.js";
 import { uploadIndex } from "./handlers/index-handler.js";
-import { createKey, deleteKey, listKeys } from "./handlers/keys.js";
+import {
+	createKey,
+	deleteKey,
+	getKeyUsage,
+	listKeys,
+	updateKey,
+} from "./handlers/keys.js";
 import { register } from "./handlers/repos.js";
 import { search } from "./handlers/search.js";
 import { getStatus } from "./handlers/status.js";
@@ -151,6 +177,8 @@ type HandlerFn = (ctx: RequestContext) => Promise<Response>;
 interface Route {
 	pattern: RoutePattern;
 	handler: HandlerFn;
+	/** Minimum API key role (omitted = open to any authenticated caller) */
+	role?: KeyRole;
 }
 
 const routes: Route[] = [
@@ -160,6 +188,7 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/repos/:orgSlug/:repoSlug/register"),
 		},
 		handler: register,
+		role: "uploader",
 	},
 	{
 		pattern: {
@@ -167,6 +196,7 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/chunks/check"),
 		},
 		handler: check,
+		role: "uploader",
 	},
 	{
 		pattern: {
@@ -174,6 +204,7 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/index"),
 		},
 		handler: uploadIndex,
+		role: "uploader",
 	},
 	{
 		pattern: {
@@ -181,6 +212,7 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/commits/:sha/status"),
 		},
 		handler: getStatus,
+		role: "search",
 	},
 	{
 		pattern: {
@@ -188,6 +220,55 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/search"),
 		},
 		handler: search,
+		role: "search",
+	},
+	{
+		pattern: {
+			method: "GET",
+			segments: parsePattern("/v1/symbol/:name"),
+		},
+		handler: getSymbol,
+		role: "search",
+	},
+	{
+		pattern: {
+			method: "GET",
+			segments: parsePattern("/v1/callers/:name"),
+		},
+		handler: getCallers,
+		role: "search",
+	},
+	{
+		pattern: {
+			method: "GET",
+			segments: parsePattern("/v1/callees/:name"),
+		},
+		handler: getCallees,
+		role: "search",
+	},
+	{
+		pattern: {
+			method: "GET",
+			segments: parsePattern("/v1/map"),
+		},
+		handler: getMap,
+		role: "search",
+	},
+	{
+		pattern: {
+			method: "GET",
+			segments: parsePattern("/v1/graph"),
+		},
+		handler: getGraph,
+		role: "search",
+	},
+	{
+		pattern: {
+			method: "POST",
+			segments: parsePattern("/v1/graph"),
+		},
+		handler: getGraph,
+		role: "search",
 	},
 	{
 		pattern: {
@@ -202,6 +283,7 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/keys"),
 		},
 		handler: createKey,
+		role: "admin",
 	},
 	{
 		pattern: {
@@ -209,6 +291,7 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/keys"),
 		},
 		handler: listKeys,
+		role: "admin",
 	},
 	{
 		pattern: {
@@ -216,6 +299,23 @@ const routes: Route[] = [
 			segments: parsePattern("/v1/keys/:keyId"),
 		},
 		handler: deleteKey,
+		role: "admin",
+	},
+	{
+		pattern: {
+			method: "PATCH",
+			segments: parsePattern("/v1/keys/:keyId"),
+		},
+		handler: updateKey,
+		role: "admin",
+	},
+	{
+		pattern: {
+			method: "GET",
+			segments: parsePattern("/v1/keys/:keyId/usage"),
+		},
+		handler: getKeyUsage,
+		role: "admin",
 	},
 ];
 
@@ -230,6 +330,10 @@ export async function router(ctx: RequestContext): Promise<Response> {
 		const params = matchRoute(route.pattern, ctx.method, pathSegments);
 		if (params !== null) {
 			ctx.params = params;
+			if (route.role && !hasRole(ctx.apiKey, route.role)) {
+				ctx.metrics.errorCode = "role_forbidden";
+				return json({ error: "forbidden", requiredRole: route.role }, 403);
+			}
 			try {
 				return await route.handler(ctx);
 			} catch (err) {
@@ -68,14 +68,87 @@ CREATE TABLE IF NOT EXISTS enrichment_docs (
     UNIQUE(content_hash, doc_type)
 );
 
+-- Symbol graph of a single file, content-addressed like chunks:
+-- graph_hash is SHA-256 of the file path plus its symbols (without PageRank
+-- scores), references and imports, so an unchanged file graph is stored
+-- once across commits.
+CREATE TABLE IF NOT EXISTS file_graphs (
+    id SERIAL PRIMARY KEY,
+    graph_hash TEXT UNIQUE NOT NULL,
+    file_path TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ordinal: 1-based position of the symbol in its file graph
+CREATE TABLE IF NOT EXISTS graph_symbols (
+    id SERIAL PRIMARY KEY,
+    file_graph_id INTEGER NOT NULL REFERENCES file_graphs(id) ON DELETE CASCADE,
+    ordinal INTEGER NOT NULL,
+    symbol_id TEXT,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    signature TEXT,
+    docstring TEXT,
+    parent_id TEXT,
+    is_exported BOOLEAN,
+    language TEXT
+);
+
+CREATE TABLE IF NOT EXISTS graph_references (
+    id SERIAL PRIMARY KEY,
+    file_graph_id INTEGER NOT NULL REFERENCES file_graphs(id) ON DELETE CASCADE,
+    from_symbol_id TEXT,
+    from_symbol_name TEXT NOT NULL,
+    to_symbol_name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    line INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS graph_imports (
+    id SERIAL PRIMARY KEY,
+    file_graph_id INTEGER NOT NULL REFERENCES file_graphs(id) ON DELETE CASCADE,
+    file_path TEXT NOT NULL,
+    module_specifier TEXT NOT NULL,
+    imported_name TEXT NOT NULL,
+    local_name TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    is_reexport BOOLEAN NOT NULL DEFAULT false
+);
+
+-- Which file graphs make up a commit's symbol graph (inherited from parents
+-- like commit_files; files without symbols have no row).
+-- symbol_ranks: PageRank of the file's symbols at this commit, indexed by
+-- graph_symbols.ordinal and computed by the server over the commit's whole
+-- graph. Ranks change without the file changing, so they are kept out of
+-- the shared file graph.
+CREATE TABLE IF NOT EXISTS commit_graph_files (
+    id SERIAL PRIMARY KEY,
+    commit_id INTEGER REFERENCES commits(id),
+    file_path TEXT NOT NULL,
+    graph_hash TEXT NOT NULL,
+    symbol_ranks DOUBLE PRECISION[] NOT NULL DEFAULT '{}',
+    UNIQUE(commit_id, file_path)
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_chunks_content_hash ON chunks(content_hash);
 CREATE INDEX IF NOT EXISTS idx_commit_files_commit_id ON commit_files(commit_id);
 CREATE INDEX IF NOT EXISTS idx_commits_repo_sha ON commits(repo_id, sha);
+CREATE INDEX IF NOT EXISTS idx_commit_graph_files_commit_id ON commit_graph_files(commit_id);
+CREATE INDEX IF NOT EXISTS idx_graph_symbols_graph_name ON graph_symbols(file_graph_id, name);
+CREATE INDEX IF NOT EXISTS idx_graph_references_graph ON graph_references(file_graph_id);
+CREATE INDEX IF NOT EXISTS idx_graph_imports_graph ON graph_imports(file_graph_id);
 
 -- API key storage
 -- key_hash: SHA-256 hex of the full key (never stored in cleartext)
 -- key_prefix: first 8 chars of the key after "cmem_" prefix (for display)
+-- org_id / repo_slugs: scope of the key (NULL org = legacy unscoped key,
+--   NULL repo_slugs = every repo in the org)
+-- role: "search" (read-only), "uploader" (CI) or "admin" (manages org keys)
 CREATE TABLE IF NOT EXISTS api_keys (
     id            SERIAL PRIMARY KEY,
     key_hash      TEXT UNIQUE NOT NULL,       -- SHA-256 hex of full key
@@ -83,9 +156,21 @@ CREATE TABLE IF NOT EXISTS api_keys (
     name          TEXT NOT NULL,              -- human label e.g. "CI deploy"
     created_at    TIMESTAMPTZ DEFAULT now(),
     last_used_at  TIMESTAMPTZ,
-    is_active     BOOLEAN NOT NULL DEFAULT true
+    is_active     BOOLEAN NOT NULL DEFAULT true,
+    org_id        INTEGER REFERENCES orgs(id) ON DELETE CASCADE,
+    repo_slugs    TEXT[],
+    role          TEXT NOT NULL DEFAULT 'uploader',
+    rate_limit_per_minute INTEGER,            -- NULL = unlimited
+    daily_quota   INTEGER                     -- requests per rolling 24h, NULL = unlimited
 );
 
+-- Scope, role and limit columns for databases created before they existed
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS org_id INTEGER REFERENCES orgs(id) ON DELETE CASCADE;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS repo_slugs TEXT[];
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'uploader';
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS daily_quota INTEGER;
+
 -- Per-request usage log (append-only)
 CREATE TABLE IF NOT EXISTS api_key_usage (
     id           SERIAL PRIMARY KEY,
@@ -99,3 +184,5 @@ CREATE TABLE IF NOT EXISTS api_key_usage (
 CREATE INDEX IF NOT EXISTS idx_api_keys_hash       ON api_keys(key_hash);
 CREATE INDEX IF NOT EXISTS idx_api_key_usage_key   ON api_key_usage(key_id);
 CREATE INDEX IF NOT EXISTS idx_api_key_usage_time  ON api_key_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_api_keys_org        ON api_keys(org_id);
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_key_time ON api_key_usage(key_id, created_at);
@@ -11,6 +11,9 @@
  * - getCommitStatus: returns "ready" for uploaded commits, "not_found" otherwise
  * - waitForCommit: resolves immediately for ready commits
  * - search: naive text-contains match against stored chunk text/name
+ * - getGraph: per-commit symbol graph inherited from the first parent,
+ *   with graphFiles replaced and deletedFiles dropped (falls back to
+ *   symbols derived from named chunks when no graph was uploaded)
  * - all other methods return sensible empty defaults
  */
 
@@ -19,10 +22,13 @@ import type {
 	ChunkCheckResult,
 	CloudCallerResult,
 	CloudCalleeResult,
+	CloudFileImport,
+	CloudGraphQuery,
 	CloudGraphResult,
 	CloudSearchRequest,
 	CloudSearchResult,
 	CloudSymbol,
+	CloudSymbolReference,
 	CommitStatus,
 	RegisterRepoRequest,
 	RegisterRepoResponse,
@@ -51,6 +57,13 @@ interface CommitRecord {
 	indexedAt: string;
 }
 
+/** Symbol graph of a single file at a commit */
+interface FileGraph {
+	symbols: CloudSymbol[];
+	references: CloudSymbolReference[];
+	imports: CloudFileImport[];
+}
+
 interface RepoRecord {
 	repoSlug: string;
 	orgSlug: string;
@@ -73,6 +86,9 @@ export class LocalCloudStub implements ICloudIndexClient {
 	/** Registered repos, keyed by `${orgSlug}::${repoSlug}` */
 	private readonly repos = new Map<string, RepoRecord>();
 
+	/** Per-commit symbol graphs (by file path), keyed by `${repoSlug}::${commitSha}` */
+	private readonly graphs = new Map<string, Map<string, FileGraph>>();
+
 	// --------------------------------------------------------------------------
 	// ICloudIndexClient
 	// --------------------------------------------------------------------------
@@ -124,6 +140,7 @@ export class LocalCloudStub implements ICloudIndexClient {
 			deletedFiles: request.deletedFiles ?? [],
 			indexedAt: new Date().toISOString(),
 		});
+		this.storeGraph(key, request);
 
 		return {
 			ok: true,
@@ -306,27 +323,44 @@ export class LocalCloudStub implements ICloudIndexClient {
 	async getGraph(
 		repoSlug: string,
 		commitSha: string,
+		query?: CloudGraphQuery,
 	): Promise<CloudGraphResult> {
 		const key = this.commitKey(repoSlug, commitSha);
 		const record = this.commits.get(key);
 
 		if (!record) {
-			return { symbols: [], references: [], repoMap: "" };
+			return { symbols: [], references: [], imports: [], repoMap: "" };
 		}
 
-		// Build symbols from stored chunks
+		const wanted = query?.filePaths ? new Set(query.filePaths) : null;
 		const symbols: CloudGraphResult["symbols"] = [];
-		for (const hash of record.chunkHashes) {
-			const chunk = this.chunks.get(hash);
-			if (!chunk?.name) continue;
-			symbols.push({
-				name: chunk.name,
-				kind: chunk.chunkType,
-				filePath: chunk.filePath,
-				startLine: chunk.startLine,
-				endLine: chunk.endLine,
-				pagerankScore: 0,
-			});
+		const references: CloudGraphResult["references"] = [];
+		const imports: CloudFileImport[] = [];
+
+		const graph = this.graphs.get(key);
+		if (graph) {
+			for (const [filePath, fileGraph] of graph) {
+				if (wanted && !wanted.has(filePath)) continue;
+				symbols.push(...fileGraph.symbols);
+				references.push(...fileGraph.references);
+				imports.push(...fileGraph.imports);
+			}
+		} else {
+			// No graph uploaded — build symbols from stored chunks
+			for (const hash of record.chunkHashes) {
+				const chunk = this.chunks.get(hash);
+				if (!chunk?.name) continue;
+				if (wanted && !wanted.has(chunk.filePath)) continue;
+				symbols.push({
+					name: chunk.name,
+					kind: chunk.chunkType,
+					filePath: chunk.filePath,
+					startLine: chunk.startLine,
+					endLine: chunk.endLine,
+					language: chunk.language,
+					pagerankScore: 0,
+				});
+			}
 		}
 
 		// Build repo map using the same logic as getMap
@@ -334,7 +368,8 @@ export class LocalCloudStub implements ICloudIndexClient {
 
 		return {
 			symbols,
-			references: [],
+			references,
+			imports,
 			repoMap,
 		};
 	}
@@ -415,6 +450,7 @@ export class LocalCloudStub implements ICloudIndexClient {
 		this.chunks.clear();
 		this.commits.clear();
 		this.repos.clear();
+		this.graphs.clear();
 	}
 
 	// --------------------------------------------------------------------------
@@ -424,6 +460,49 @@ export class LocalCloudStub implements ICloudIndexClient {
 	private commitKey(repoSlug: string, commitSha: string): string {
 		return `${repoSlug}::${commitSha}`;
 	}
+
+	/**
+	 * Record the symbol graph for an uploaded commit: start from the first
+	 * parent's graph, drop deleted files and replace the uploaded ones.
+	 */
+	private storeGraph(key: string, request: UploadIndexRequest): void {
+		const parentSha = request.parentShas[0];
+		const parentGraph = parentSha
+			? this.graphs.get(this.commitKey(request.repoSlug, parentSha))
+			: undefined;
+		const hasGraph =
+			request.graphFiles !== undefined || request.symbols !== undefined;
+		if (!parentGraph && !hasGraph) return;
+
+		const graph = new Map(parentGraph ?? []);
+		for (const filePath of request.deletedFiles ?? []) {
+			graph.delete(filePath);
+		}
+
+		const changedFiles = new Set<string>(request.graphFiles ?? []);
+		for (const item of [
+			...(request.symbols ?? []),
+			...(request.references ?? []),
+			...(request.imports ?? []),
+		]) {
+			changedFiles.add(item.filePath);
+		}
+		for (const filePath of changedFiles) {
+			graph.set(filePath, { symbols: [], references: [], imports: [] });
+		}
+
+		for (const symbol of request.symbols ?? []) {
+			graph.get(symbol.filePath)?.symbols.push(symbol);
+		}
+		for (const reference of request.references ?? []) {
+			graph.get(reference.filePath)?.references.push(reference);
+		}
+		for (const imp of request.imports ?? []) {
+			graph.get(imp.filePath)?.imports.push(imp);
+		}
+
+		this.graphs.set(key, graph);
+	}
 }
 
 // ============================================================================
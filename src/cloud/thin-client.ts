@@ -21,6 +21,7 @@ import type {
 	ChunkCheckResult,
 	CloudCallerResult,
 	CloudCalleeResult,
+	CloudGraphQuery,
 	CloudGraphResult,
 	CloudSearchRequest,
 	CloudSearchResult,
@@ -72,6 +73,9 @@ const WAIT_INITIAL_DELAY_MS = 1_000;
 const WAIT_MAX_DELAY_MS = 30_000;
 const WAIT_DEFAULT_TIMEOUT_MS = 120_000;
 
+/** Response header naming the commit a read endpoint actually served */
+const RESOLVED_COMMIT_HEADER = "X-Mnemex-Resolved-Commit";
+
 /**
  * Real HTTP client for the mnemex cloud API.
  * Use LocalCloudStub in unit tests instead of this class.
@@ -214,9 +218,25 @@ export class ThinCloudClient implements ICloudIndexClient {
 	async getGraph(
 		repoSlug: string,
 		commitSha: string,
+		query?: CloudGraphQuery,
 	): Promise<CloudGraphResult> {
 		const qs = new URLSearchParams({ repo: repoSlug, commit: commitSha });
-		return this.get<CloudGraphResult>(`/v1/graph?${qs}`);
+		const url = `${this.endpoint}/v1/graph?${qs}`;
+		// Partial graphs can list many files — send them in the body
+		const response = await fetch(
+			url,
+			query?.filePaths
+				? {
+						method: "POST",
+						headers: this.headers(),
+						body: JSON.stringify({ filePaths: query.filePaths }),
+					}
+				: { method: "GET", headers: this.headers() },
+		);
+		const graph = await this.handleResponse<CloudGraphResult>(response);
+		graph.resolvedCommitSha =
+			response.headers.get(RESOLVED_COMMIT_HEADER) ?? commitSha;
+		return graph;
 	}
 
 	// --------------------------------------------------------------------------
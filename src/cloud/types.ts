@@ -150,6 +150,19 @@ export interface UploadIndexRequest {
 	 * Only included when teamConfig.uploadEnrichment === true.
 	 */
 	enrichmentDocs?: CloudEnrichmentDoc[];
+	/**
+	 * Files whose symbol graph is included in this upload.
+	 * For these paths the symbols, references and imports below replace
+	 * the ones inherited from the parent commit (a listed file with no
+	 * symbols clears its entry).
+	 */
+	graphFiles?: string[];
+	/** Symbol definitions extracted from graphFiles */
+	symbols?: CloudSymbol[];
+	/** Reference edges originating in graphFiles */
+	references?: CloudSymbolReference[];
+	/** Import statements declared in graphFiles */
+	imports?: CloudFileImport[];
 }
 
 /** Server response after uploading an index */
@@ -282,6 +295,8 @@ export interface CloudEnrichmentDoc {
  * A symbol reference edge from the cloud symbol graph.
  */
 export interface CloudSymbolReference {
+	/** ID of the calling/referencing symbol (matches CloudSymbol.id) */
+	fromSymbolId?: string;
 	/** Name of the calling/referencing symbol */
 	fromSymbolName: string;
 	/** Name of the called/referenced symbol */
@@ -294,6 +309,25 @@ export interface CloudSymbolReference {
 	line: number;
 }
 
+/**
+ * An import statement from the cloud symbol graph.
+ * Synced alongside references so they can be bound to the imported module.
+ */
+export interface CloudFileImport {
+	/** File containing the import */
+	filePath: string;
+	/** Module specifier as written ("./utils", "react", "pkg.mod") */
+	moduleSpecifier: string;
+	/** Exported name ("default" for default imports, "*" for whole module) */
+	importedName: string;
+	/** Local binding name ("*" for `export * from`) */
+	localName: string;
+	/** Line number of the import */
+	line: number;
+	/** Whether this is a re-export */
+	isReexport?: boolean;
+}
+
 /**
  * Full symbol graph result downloaded from the cloud for offline use.
  */
@@ -302,12 +336,30 @@ export interface CloudGraphResult {
 	symbols: CloudSymbol[];
 	/** Symbol reference edges */
 	references: CloudSymbolReference[];
+	/** Import statements (omitted by servers that don't track them) */
+	imports?: CloudFileImport[];
 	/** Pre-generated repo map text */
 	repoMap: string;
+	/**
+	 * Commit the graph was served from: the requested commit, or its nearest
+	 * indexed ancestor when the requested commit has no index
+	 */
+	resolvedCommitSha?: string;
+}
+
+/** Options for downloading part of the symbol graph */
+export interface CloudGraphQuery {
+	/**
+	 * Only return symbols, references and imports for these files.
+	 * Used for incremental sync; omit to download the whole graph.
+	 */
+	filePaths?: string[];
 }
 
 /** A symbol definition from the cloud index */
 export interface CloudSymbol {
+	/** Stable symbol ID (same scheme as local symbol extraction) */
+	id?: string;
 	/** Symbol name */
 	name: string;
 	/** Symbol kind (function, class, method, etc.) */
@@ -322,7 +374,16 @@ export interface CloudSymbol {
 	signature?: string;
 	/** Docstring / JSDoc comment */
 	docstring?: string;
-	/** PageRank importance score */
+	/** Parent symbol ID (for methods inside classes) */
+	parentId?: string;
+	/** Whether the symbol is exported/public */
+	isExported?: boolean;
+	/** Language identifier */
+	language?: string;
+	/**
+	 * PageRank importance score over the commit's whole graph. The server
+	 * computes it after each upload; uploaded values are ignored.
+	 */
 	pagerankScore: number;
 }
 
@@ -430,10 +491,15 @@ export interface ICloudIndexClient {
 	): Promise<string>;
 
 	/**
-	 * Download the full symbol graph for a commit (for offline use).
-	 * Returns symbols, reference edges, and a pre-generated repo map.
+	 * Download the symbol graph for a commit (for offline use).
+	 * Returns symbols, reference edges, imports, and a pre-generated repo map.
+	 * Pass query.filePaths to download only the graph of specific files.
 	 */
-	getGraph(repoSlug: string, commitSha: string): Promise<CloudGraphResult>;
+	getGraph(
+		repoSlug: string,
+		commitSha: string,
+		query?: CloudGraphQuery,
+	): Promise<CloudGraphResult>;
 }
 
 // ============================================================================
@@ -5,14 +5,23 @@
  * project-specific config (.mnemex/config.json)
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	renameSync,
+	writeFileSync,
+} from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import type {
 	Config,
+	EmbeddingCacheConfig,
 	EmbeddingProvider,
 	GlobalConfig,
+	HistoryConfig,
 	ProjectConfig,
+	VectorTablesState,
 } from "./types.js";
 
 // ============================================================================
@@ -40,9 +49,18 @@ export const INDEX_DB_FILE = "index.db";
 /** Vector store directory name */
 export const VECTORS_DIR = "vectors";
 
+/** Vector table state file, written by model migration */
+export const VECTOR_TABLES_FILE = "vectors.json";
+
 /** Embedding models cache file */
 export const MODELS_CACHE_FILE = "embedding-models.json";
 
+/** Global embedding cache file (inside GLOBAL_CONFIG_DIR) */
+export const EMBEDDING_CACHE_FILE = "embedding-cache.db";
+
+/** Default embedding cache size limit in MB */
+export const DEFAULT_EMBEDDING_CACHE_MAX_MB = 2048;
+
 /** Cache max age in days */
 export const CACHE_MAX_AGE_DAYS = 2;
 
@@ -227,6 +245,9 @@ export const DEFAULT_DOCS_CACHE_TTL = 24;
 /** Default max pages per library */
 export const DEFAULT_DOCS_MAX_PAGES = 10;
 
+/** Default number of recent commits indexed for history search */
+export const DEFAULT_HISTORY_MAX_COMMITS = 500;
+
 // ============================================================================
 // Configuration Loading
 // ============================================================================
@@ -482,9 +503,55 @@ export function getIndexDbPath(projectPath: string): string {
 
 /**
  * Get the path to the project's vector store
+ * Follows the active table after a model migration
  */
 export function getVectorStorePath(projectPath: string): string {
-	return join(getIndexDir(projectPath), VECTORS_DIR);
+	const active = loadVectorTables(projectPath)?.active.dir ?? VECTORS_DIR;
+	return join(getIndexDir(projectPath), active);
+}
+
+/**
+ * Load the project's vector table state (null before any model migration)
+ */
+export function loadVectorTables(
+	projectPath: string,
+): VectorTablesState | null {
+	const statePath = join(getIndexDir(projectPath), VECTOR_TABLES_FILE);
+	if (!existsSync(statePath)) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(readFileSync(statePath, "utf-8")) as VectorTablesState;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Save the project's vector table state.
+ * Written to a temp file and renamed, so readers switch tables atomically.
+ */
+export function saveVectorTables(
+	projectPath: string,
+	state: VectorTablesState,
+): void {
+	const indexDir = getIndexDir(projectPath);
+	if (!existsSync(indexDir)) {
+		mkdirSync(indexDir, { recursive: true });
+	}
+
+	const statePath = join(indexDir, VECTOR_TABLES_FILE);
+	const tmpPath = `${statePath}.${process.pid}.tmp`;
+	writeFileSync(tmpPath, JSON.stringify(state, null, 2), "utf-8");
+	renameSync(tmpPath, statePath);
+}
+
+/**
+ * Get the path to the global embedding cache
+ */
+export function getEmbeddingCachePath(): string {
+	return join(GLOBAL_CONFIG_DIR, EMBEDDING_CACHE_FILE);
 }
 
 /**
@@ -716,6 +783,45 @@ export function isVectorEnabled(projectPath?: string): boolean {
 	return true;
 }
 
+/**
+ * Check if chunks are embedded with their call-graph context
+ * Priority: project config > default (false)
+ */
+export function isContextualChunksEnabled(projectPath?: string): boolean {
+	if (projectPath) {
+		return loadProjectConfig(projectPath)?.contextualChunks === true;
+	}
+	return false;
+}
+
+/**
+ * Get git history indexing settings with defaults applied
+ * Priority: project config > default (disabled, 500 commits)
+ */
+export function getHistoryConfig(
+	projectPath?: string,
+): Required<HistoryConfig> {
+	const historyConfig = projectPath
+		? (loadProjectConfig(projectPath)?.history ?? {})
+		: {};
+	return {
+		enabled: historyConfig.enabled === true,
+		maxCommits: historyConfig.maxCommits ?? DEFAULT_HISTORY_MAX_COMMITS,
+	};
+}
+
+/**
+ * Get global embedding cache settings with defaults applied
+ * Priority: global config > default (enabled, 2048 MB)
+ */
+export function getEmbeddingCacheConfig(): Required<EmbeddingCacheConfig> {
+	const cacheConfig = loadGlobalConfig().embeddingCache ?? {};
+	return {
+		enabled: cacheConfig.enabled !== false,
+		maxSizeMB: cacheConfig.maxSizeMB ?? DEFAULT_EMBEDDING_CACHE_MAX_MB,
+	};
+}
+
 // ============================================================================
 // Documentation Fetching Configuration
 // ============================================================================
@@ -788,7 +894,7 @@ export function getDocsConfig(projectPath?: string): Required<DocsConfig> {
 		context7ApiKey: getContext7ApiKey(projectPath) ?? "",
 		providers:
 			docsConfig.providers ??
-			(["context7", "llms_txt", "devdocs"] as DocProviderType[]),
+			(["context7", "llms_txt", "devdocs", "local"] as DocProviderType[]),
 		cacheTTL: docsConfig.cacheTTL ?? DEFAULT_DOCS_CACHE_TTL,
 		excludeLibraries: docsConfig.excludeLibraries ?? [],
 		maxPagesPerLibrary: docsConfig.maxPagesPerLibrary ?? DEFAULT_DOCS_MAX_PAGES,
@@ -834,6 +940,25 @@ export function isLearningEnabled(projectPath?: string): boolean {
 	return globalConfig.learning !== false;
 }
 
+/**
+ * Check if learned tool guidance is enabled for the PreToolUse hook.
+ * Priority: project config > global config > self-learning setting
+ */
+export function isToolGuidanceEnabled(projectPath?: string): boolean {
+	if (projectPath) {
+		const projectConfig = loadProjectConfig(projectPath);
+		if (projectConfig?.toolGuidance !== undefined) {
+			return projectConfig.toolGuidance;
+		}
+	}
+
+	const globalConfig = loadGlobalConfig();
+	if (globalConfig.toolGuidance !== undefined) {
+		return globalConfig.toolGuidance;
+	}
+	return isLearningEnabled(projectPath);
+}
+
 /**
  * Get test file handling mode for search results.
  * Priority: project config > default ('downrank')
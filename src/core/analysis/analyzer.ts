@@ -7,6 +7,7 @@
  * - Change impact analysis
  */
 
+import { getProjectParserManager } from "../../parsers/parser-manager.js";
 import type { IFileTracker } from "../tracker.js";
 import type { SymbolDefinition } from "../../types.js";
 import {
@@ -84,10 +85,16 @@ export class CodeAnalyzer {
 	private graphManager: ReferenceGraphManager;
 	private testDetector: TestFileDetector;
 
-	constructor(tracker: IFileTracker) {
+	/**
+	 * @param projectPath - Project whose languages the test detection knows
+	 *   (default: built-in languages only)
+	 */
+	constructor(tracker: IFileTracker, projectPath?: string) {
 		this.tracker = tracker;
 		this.graphManager = createReferenceGraphManager(tracker);
-		this.testDetector = createTestFileDetector();
+		this.testDetector = createTestFileDetector(
+			projectPath ? getProjectParserManager(projectPath) : undefined,
+		);
 	}
 
 	// ========================================================================
@@ -366,6 +373,9 @@ export class CodeAnalyzer {
 /**
  * Create a code analyzer instance
  */
-export function createCodeAnalyzer(tracker: IFileTracker): CodeAnalyzer {
-	return new CodeAnalyzer(tracker);
+export function createCodeAnalyzer(
+	tracker: IFileTracker,
+	projectPath?: string,
+): CodeAnalyzer {
+	return new CodeAnalyzer(tracker, projectPath);
 }
@@ -5,6 +5,11 @@
  * Centralizes test identification logic for dead-code and test-gaps analysis.
  */
 
+import {
+	type ParserManager,
+	getParserManager,
+} from "../../parsers/parser-manager.js";
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -27,7 +32,12 @@ export type SupportedLanguage =
 	| "java"
 	| "c"
 	| "cpp"
-	| "dingo";
+	| "dingo"
+	| "ruby"
+	| "php"
+	| "kotlin"
+	| "swift"
+	| "csharp";
 
 // ============================================================================
 // Language-Specific Test Patterns
@@ -108,6 +118,31 @@ const TEST_PATTERNS: Record<SupportedLanguage, TestPattern> = {
 		dirPatterns: [/\/testdata\//],
 		symbolPatterns: [/^Test[A-Z]/, /^Benchmark[A-Z]/, /^Example[A-Z]/],
 	},
+	ruby: {
+		filePatterns: [/_spec\.rb$/, /_test\.rb$/, /(^|\/)test_[^/]*\.rb$/],
+		dirPatterns: [/(^|\/)spec\//, /(^|\/)test\//],
+		symbolPatterns: [/^test_/],
+	},
+	php: {
+		filePatterns: [/test\.php$/, /tests\.php$/],
+		dirPatterns: [/(^|\/)tests?\//],
+		symbolPatterns: [/^test/],
+	},
+	kotlin: {
+		filePatterns: [/test\.kts?$/, /tests\.kts?$/, /spec\.kts?$/],
+		dirPatterns: [/src\/test\//, /src\/androidtest\//, /\/tests?\//],
+		symbolPatterns: [/^test[A-Z]/, /^should[A-Z]/],
+	},
+	swift: {
+		filePatterns: [/tests?\.swift$/, /spec\.swift$/],
+		dirPatterns: [/(^|\/)tests\//],
+		symbolPatterns: [/^test[A-Z]/],
+	},
+	csharp: {
+		filePatterns: [/tests?\.cs$/],
+		dirPatterns: [/\.tests?\//, /(^|\/)tests?\//],
+		symbolPatterns: [/^Test[A-Z]/, /^Should[A-Z]/, /_Should/],
+	},
 };
 
 // Extension to language mapping
@@ -129,15 +164,33 @@ const EXTENSION_TO_LANGUAGE: Record<string, SupportedLanguage> = {
 	".cxx": "cpp",
 	".hpp": "cpp",
 	".dingo": "dingo",
+	".rb": "ruby",
+	".php": "php",
+	".kt": "kotlin",
+	".kts": "kotlin",
+	".swift": "swift",
+	".cs": "csharp",
 };
 
 // ============================================================================
 // Test File Detector Class
 // ============================================================================
 
+/** Parser registry lookups used to find project-defined languages */
+type LanguageRegistry = Pick<
+	ParserManager,
+	"getLanguage" | "getCustomLanguage"
+>;
+
 export class TestFileDetector {
 	private customPatterns: TestPattern | null = null;
 
+	/**
+	 * @param registry - Parser registry to consult for project-defined
+	 *   languages (default: the parser manager of built-in languages)
+	 */
+	constructor(private readonly registry?: LanguageRegistry) {}
+
 	/**
 	 * Set custom test patterns (overrides language-specific defaults)
 	 */
@@ -172,9 +225,8 @@ export class TestFileDetector {
 		}
 
 		// Detect language and use language-specific patterns
-		const language = this.detectLanguage(filePath);
-		if (language) {
-			const patterns = TEST_PATTERNS[language];
+		const patterns = this.patternsForFile(filePath);
+		if (patterns) {
 			return this.matchesPatterns(lowerPath, patterns);
 		}
 
@@ -198,12 +250,9 @@ export class TestFileDetector {
 
 		// Detect language from file and use language-specific patterns
 		if (filePath) {
-			const language = this.detectLanguage(filePath);
-			if (language) {
-				const patterns = TEST_PATTERNS[language].symbolPatterns;
-				if (patterns) {
-					return patterns.some((p) => p.test(symbolName));
-				}
+			const patterns = this.patternsForFile(filePath)?.symbolPatterns;
+			if (patterns) {
+				return patterns.some((p) => p.test(symbolName));
 			}
 		}
 
@@ -229,6 +278,22 @@ export class TestFileDetector {
 	// Private Methods
 	// ========================================================================
 
+	/**
+	 * Patterns for a file: a project-defined language's own test patterns
+	 * (from the parser registry) take precedence over the built-in table
+	 */
+	private patternsForFile(filePath: string): TestPattern | null {
+		const registry = this.registry ?? getParserManager();
+		const registered = registry.getLanguage(filePath);
+		const custom = registered && registry.getCustomLanguage(registered);
+		if (custom) {
+			return custom.testPatterns ?? null;
+		}
+
+		const language = this.detectLanguage(filePath);
+		return language ? TEST_PATTERNS[language] : null;
+	}
+
 	private getExtension(filePath: string): string {
 		const match = filePath.match(/\.[^./\\]+$/);
 		return match ? match[0].toLowerCase() : "";
@@ -275,6 +340,8 @@ export class TestFileDetector {
 /**
  * Create a test file detector instance
  */
-export function createTestFileDetector(): TestFileDetector {
-	return new TestFileDetector();
+export function createTestFileDetector(
+	registry?: LanguageRegistry,
+): TestFileDetector {
+	return new TestFileDetector(registry);
 }
@@ -118,9 +118,13 @@ export class CodeUnitExtractor {
 	private parserManager: ParserManager;
 	private metadataExtractor: ASTMetadataExtractor;
 
-	constructor() {
-		this.parserManager = getParserManager();
-		this.metadataExtractor = new ASTMetadataExtractor();
+	/**
+	 * @param parserManager - Parser manager of the project (default: built-in
+	 * languages only)
+	 */
+	constructor(parserManager: ParserManager = getParserManager()) {
+		this.parserManager = parserManager;
+		this.metadataExtractor = new ASTMetadataExtractor(parserManager);
 	}
 
 	/**
@@ -667,6 +671,8 @@ export class CodeUnitExtractor {
 /**
  * Create a code unit extractor instance
  */
-export function createCodeUnitExtractor(): CodeUnitExtractor {
-	return new CodeUnitExtractor();
+export function createCodeUnitExtractor(
+	parserManager?: ParserManager,
+): CodeUnitExtractor {
+	return new CodeUnitExtractor(parserManager);
 }
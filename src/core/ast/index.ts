@@ -4,6 +4,7 @@
  * Provides AST-based code analysis utilities:
  * - Metadata extraction (visibility, async, parameters, types, references)
  * - Code unit extraction (hierarchical extraction with parent-child relationships)
+ * - Structural search (tree-sitter queries and code patterns with metavariables)
  */
 
 export {
@@ -16,3 +17,11 @@ export {
 	createCodeUnitExtractor,
 	type ExtractionOptions,
 } from "./code-unit-extractor.js";
+export {
+	StructuralSearch,
+	createStructuralSearch,
+	type StructuralCapture,
+	type StructuralMatch,
+	type StructuralSearchOptions,
+	type StructuralSearchResult,
+} from "./structural-search.js";
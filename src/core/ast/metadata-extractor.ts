@@ -75,8 +75,12 @@ const ASYNC_MARKERS: Record<string, Set<string>> = {
 export class ASTMetadataExtractor {
 	private parserManager: ParserManager;
 
-	constructor() {
-		this.parserManager = getParserManager();
+	/**
+	 * @param parserManager - Parser manager of the project (default: built-in
+	 * languages only)
+	 */
+	constructor(parserManager: ParserManager = getParserManager()) {
+		this.parserManager = parserManager;
 	}
 
 	/**
@@ -812,6 +816,8 @@ export class ASTMetadataExtractor {
 /**
  * Create an AST metadata extractor instance
  */
-export function createASTMetadataExtractor(): ASTMetadataExtractor {
-	return new ASTMetadataExtractor();
+export function createASTMetadataExtractor(
+	parserManager?: ParserManager,
+): ASTMetadataExtractor {
+	return new ASTMetadataExtractor(parserManager);
 }
@@ -0,0 +1,559 @@
+/**
+ * Structural Search
+ *
+ * Syntax-aware code search across indexed files. Two query forms:
+ *
+ * - Tree-sitter query S-expressions, run as-is against each file's tree:
+ *     (call_expression function: (identifier) @fn (#eq? @fn "fetch")) @match
+ * - Code patterns with metavariables, matched node-by-node against the tree:
+ *     await fetch($URL, $$$)
+ *
+ * In patterns, `$NAME` matches any single node (repeated names must match the
+ * same text), `$_` matches any node without capturing, and `$$$` / `$$$NAME`
+ * match zero or more sibling nodes. Matches can be filtered by the node types
+ * they must (not) be nested in, e.g. `notInside: ["try_statement"]`.
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { minimatch } from "minimatch";
+import type { Node } from "web-tree-sitter";
+import { Query } from "web-tree-sitter";
+import {
+	type ParserManager,
+	getProjectParserManager,
+} from "../../parsers/parser-manager.js";
+import type { SupportedLanguage } from "../../types.js";
+import type { IFileTracker } from "../tracker.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The subset of a tree-sitter node the pattern matcher works on.
+ */
+export interface SyntaxNode {
+	readonly type: string;
+	readonly text: string;
+	readonly isExtra: boolean;
+	readonly startIndex: number;
+	readonly endIndex: number;
+	readonly startPosition: { row: number };
+	readonly endPosition: { row: number };
+	readonly children: (SyntaxNode | null)[];
+	readonly parent: SyntaxNode | null;
+}
+
+export interface StructuralCapture {
+	/** Capture name (query) or metavariable name without `$` (pattern) */
+	name: string;
+	text: string;
+	startLine: number;
+	endLine: number;
+}
+
+export interface StructuralMatch {
+	filePath: string;
+	language: SupportedLanguage;
+	startLine: number;
+	endLine: number;
+	/** Source of the matched node (truncated) */
+	text: string;
+	captures: StructuralCapture[];
+}
+
+export interface StructuralSearchOptions {
+	/** Tree-sitter query S-expression */
+	query?: string;
+	/** Code pattern with metavariables (used when no query is given) */
+	pattern?: string;
+	/** Restrict the search to one language */
+	language?: SupportedLanguage;
+	/** Glob filter on file paths relative to the project root */
+	fileGlob?: string;
+	/** Node types the match must be nested in (any of) */
+	inside?: string[];
+	/** Node types the match must not be nested in */
+	notInside?: string[];
+	/** Maximum number of matches (default: 50) */
+	limit?: number;
+}
+
+export interface StructuralSearchResult {
+	matches: StructuralMatch[];
+	filesSearched: number;
+	/** Languages the query or pattern was valid for */
+	languages: SupportedLanguage[];
+	/** True when the limit was reached before all files were searched */
+	truncated: boolean;
+}
+
+/** Parsed metavariable placeholder */
+export interface Metavariable {
+	/** Name without `$`, or "_" for an anonymous wildcard */
+	name: string;
+	/** Matches zero or more sibling nodes (`$$$`) */
+	multi: boolean;
+}
+
+export interface CompiledPattern {
+	/** Pattern source with metavariables replaced by identifier placeholders */
+	source: string;
+	/** Placeholder identifier → metavariable */
+	metavariables: Map<string, Metavariable>;
+}
+
+/** Nodes bound to each named metavariable */
+export type PatternBindings = Map<string, SyntaxNode[]>;
+
+const MATCH_TEXT_LIMIT = 500;
+const DEFAULT_LIMIT = 50;
+
+// ============================================================================
+// Pattern Compilation
+// ============================================================================
+
+const METAVARIABLE_RE = /\$\$\$([A-Z_][A-Z0-9_]*)?|\$([A-Z_][A-Z0-9_]*)/g;
+const PLACEHOLDER_PREFIX = "__MNX_";
+
+/**
+ * Replace metavariables with identifiers every supported grammar accepts, so
+ * the pattern can be parsed like ordinary code.
+ */
+export function compilePattern(pattern: string): CompiledPattern {
+	const metavariables = new Map<string, Metavariable>();
+	let anonymous = 0;
+
+	const source = pattern.replace(
+		METAVARIABLE_RE,
+		(_match, multiName?: string, singleName?: string) => {
+			const multi = singleName === undefined;
+			const name = (multi ? multiName : singleName) ?? "_";
+			// Anonymous metavariables each get their own placeholder
+			const key =
+				name === "_" ? `ANY${anonymous++}` : `${multi ? "M" : "S"}_${name}`;
+			const placeholder = `${PLACEHOLDER_PREFIX}${key}`;
+			metavariables.set(placeholder, { name, multi });
+			return placeholder;
+		},
+	);
+
+	return { source, metavariables };
+}
+
+/**
+ * Find the node a parsed pattern stands for: descend through wrappers
+ * (program, expression statement) that only contain the pattern itself.
+ */
+export function patternRoot(root: SyntaxNode): SyntaxNode {
+	let node = root;
+	for (;;) {
+		const children = significantChildren(node);
+		if (children.length !== 1) return node;
+		const [child] = children;
+		if (stripTerminator(child.text) !== stripTerminator(node.text)) {
+			return node;
+		}
+		node = child;
+	}
+}
+
+// ============================================================================
+// Pattern Matching
+// ============================================================================
+
+function stripTerminator(text: string): string {
+	return text.trim().replace(/;$/, "").trimEnd();
+}
+
+function significantChildren(node: SyntaxNode): SyntaxNode[] {
+	return node.children.filter(
+		(child): child is SyntaxNode => child !== null && !child.isExtra,
+	);
+}
+
+function metavariableOf(
+	node: SyntaxNode,
+	metavariables: Map<string, Metavariable>,
+): Metavariable | undefined {
+	if (!node.text.includes(PLACEHOLDER_PREFIX)) return undefined;
+	return metavariables.get(stripTerminator(node.text));
+}
+
+function sameText(a: SyntaxNode[], b: SyntaxNode[]): boolean {
+	return (
+		a.length === b.length &&
+		a.every(
+			(node, i) => stripTerminator(node.text) === stripTerminator(b[i].text),
+		)
+	);
+}
+
+/** Bind a metavariable, or check it against its earlier binding */
+function bind(
+	metavariable: Metavariable,
+	nodes: SyntaxNode[],
+	bindings: PatternBindings,
+): boolean {
+	if (metavariable.name === "_") return true;
+	const bound = bindings.get(metavariable.name);
+	if (bound) return sameText(bound, nodes);
+	bindings.set(metavariable.name, nodes);
+	return true;
+}
+
+/**
+ * Match a pattern node against a target node. Node types, child sequences
+ * and leaf text must be equal; metavariables match anything. Comments in the
+ * target are ignored. On success the bindings are extended.
+ */
+export function matchPattern(
+	pattern: SyntaxNode,
+	target: SyntaxNode,
+	metavariables: Map<string, Metavariable>,
+	bindings: PatternBindings = new Map(),
+): boolean {
+	const metavariable = metavariableOf(pattern, metavariables);
+	if (metavariable) return bind(metavariable, [target], bindings);
+
+	if (pattern.type !== target.type) return false;
+
+	const patternChildren = significantChildren(pattern);
+	if (patternChildren.length === 0) return pattern.text === target.text;
+
+	return matchSequence(
+		patternChildren,
+		0,
+		significantChildren(target),
+		0,
+		metavariables,
+		bindings,
+	);
+}
+
+function matchSequence(
+	pattern: SyntaxNode[],
+	i: number,
+	target: SyntaxNode[],
+	j: number,
+	metavariables: Map<string, Metavariable>,
+	bindings: PatternBindings,
+): boolean {
+	if (i === pattern.length) return j === target.length;
+
+	const metavariable = metavariableOf(pattern[i], metavariables);
+	if (metavariable?.multi) {
+		// Try the shortest run of siblings first
+		for (let end = j; end <= target.length; end++) {
+			const saved = new Map(bindings);
+			if (
+				bind(metavariable, target.slice(j, end), bindings) &&
+				matchSequence(pattern, i + 1, target, end, metavariables, bindings)
+			) {
+				return true;
+			}
+			restore(bindings, saved);
+		}
+		return false;
+	}
+
+	if (j === target.length) return false;
+	const saved = new Map(bindings);
+	if (
+		matchPattern(pattern[i], target[j], metavariables, bindings) &&
+		matchSequence(pattern, i + 1, target, j + 1, metavariables, bindings)
+	) {
+		return true;
+	}
+	restore(bindings, saved);
+	return false;
+}
+
+function restore(bindings: PatternBindings, saved: PatternBindings): void {
+	bindings.clear();
+	for (const [name, nodes] of saved) bindings.set(name, nodes);
+}
+
+/**
+ * Find every node in a tree that matches the pattern, outermost first.
+ */
+export function findPatternMatches(
+	pattern: SyntaxNode,
+	root: SyntaxNode,
+	metavariables: Map<string, Metavariable>,
+): Array<{ node: SyntaxNode; bindings: PatternBindings }> {
+	const matches: Array<{ node: SyntaxNode; bindings: PatternBindings }> = [];
+	const stack: SyntaxNode[] = [root];
+
+	for (let node = stack.pop(); node; node = stack.pop()) {
+		const bindings: PatternBindings = new Map();
+		if (matchPattern(pattern, node, metavariables, bindings)) {
+			matches.push({ node, bindings });
+		}
+		const children = significantChildren(node);
+		for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+	}
+
+	return matches;
+}
+
+/**
+ * Check a match against `inside` / `notInside` ancestor node types.
+ */
+export function passesAncestorFilters(
+	node: SyntaxNode,
+	inside: string[] = [],
+	notInside: string[] = [],
+): boolean {
+	if (inside.length === 0 && notInside.length === 0) return true;
+
+	let foundInside = inside.length === 0;
+	for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+		if (notInside.includes(ancestor.type)) return false;
+		if (inside.includes(ancestor.type)) foundInside = true;
+	}
+	return foundInside;
+}
+
+// ============================================================================
+// Structural Search
+// ============================================================================
+
+/** Per-language compiled form of the query or pattern */
+type Matcher =
+	| { kind: "query"; query: Query }
+	| {
+			kind: "pattern";
+			root: SyntaxNode;
+			metavariables: Map<string, Metavariable>;
+	  };
+
+/**
+ * Runs tree-sitter queries and code patterns across the indexed files.
+ */
+export class StructuralSearch {
+	private tracker: IFileTracker;
+	private projectPath: string;
+	private parserManager: ParserManager;
+
+	constructor(
+		tracker: IFileTracker,
+		projectPath: string,
+		parserManager?: ParserManager,
+	) {
+		this.tracker = tracker;
+		this.projectPath = projectPath;
+		this.parserManager =
+			parserManager ?? getProjectParserManager(projectPath, true);
+	}
+
+	/**
+	 * Search indexed files for a query or pattern.
+	 *
+	 * @throws Error if neither is given, or it is invalid for every language
+	 */
+	async search(
+		options: StructuralSearchOptions,
+	): Promise<StructuralSearchResult> {
+		if (!options.query && !options.pattern) {
+			throw new Error("Either a query or a pattern is required");
+		}
+		if (
+			options.language &&
+			!this.parserManager.getSupportedLanguages().includes(options.language)
+		) {
+			throw new Error(`Unsupported language: ${options.language}`);
+		}
+		const limit = options.limit ?? DEFAULT_LIMIT;
+
+		// Group indexed files by language
+		const filesByLanguage = new Map<SupportedLanguage, string[]>();
+		for (const file of this.tracker.getAllFiles()) {
+			if (
+				options.fileGlob &&
+				!minimatch(file.path, options.fileGlob, { dot: true, matchBase: true })
+			) {
+				continue;
+			}
+			const language = this.parserManager.getLanguage(file.path);
+			if (!language) continue;
+			if (options.language && language !== options.language) continue;
+			const files = filesByLanguage.get(language) ?? [];
+			files.push(file.path);
+			filesByLanguage.set(language, files);
+		}
+
+		const result: StructuralSearchResult = {
+			matches: [],
+			filesSearched: 0,
+			languages: [],
+			truncated: false,
+		};
+		const errors: string[] = [];
+
+		for (const [language, files] of filesByLanguage) {
+			let matcher: Matcher;
+			try {
+				matcher = await this.compile(options, language);
+			} catch (error) {
+				errors.push(
+					`${language}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				continue;
+			}
+			result.languages.push(language);
+
+			for (const filePath of files.sort()) {
+				if (result.matches.length >= limit) {
+					result.truncated = true;
+					return result;
+				}
+
+				let source: string;
+				try {
+					source = readFileSync(join(this.projectPath, filePath), "utf-8");
+				} catch {
+					continue; // Deleted since indexing
+				}
+				const tree = await this.parserManager.parse(source, language);
+				if (!tree) continue;
+				result.filesSearched++;
+
+				const matches = this.run(matcher, tree.rootNode, source, options);
+				for (const match of matches) {
+					if (result.matches.length >= limit) {
+						result.truncated = true;
+						break;
+					}
+					result.matches.push({ filePath, language, ...match });
+				}
+			}
+		}
+
+		if (result.languages.length === 0 && errors.length > 0) {
+			throw new Error(
+				`${options.query ? "Query" : "Pattern"} is not valid for any indexed language:\n${errors.join("\n")}`,
+			);
+		}
+
+		return result;
+	}
+
+	private async compile(
+		options: StructuralSearchOptions,
+		language: SupportedLanguage,
+	): Promise<Matcher> {
+		if (options.query) {
+			const lang = await this.parserManager.getLanguageObject(language);
+			if (!lang) throw new Error("grammar not available");
+			return { kind: "query", query: new Query(lang, options.query) };
+		}
+
+		const compiled = compilePattern(options.pattern ?? "");
+		const tree = await this.parserManager.parse(compiled.source, language);
+		if (!tree) throw new Error("grammar not available");
+		if (tree.rootNode.hasError) throw new Error("pattern does not parse");
+
+		const root = patternRoot(tree.rootNode);
+		if (metavariableOf(root, compiled.metavariables)) {
+			throw new Error("pattern must contain code, not only a metavariable");
+		}
+		return { kind: "pattern", root, metavariables: compiled.metavariables };
+	}
+
+	private run(
+		matcher: Matcher,
+		root: Node,
+		source: string,
+		options: StructuralSearchOptions,
+	): Array<Omit<StructuralMatch, "filePath" | "language">> {
+		const matches: Array<Omit<StructuralMatch, "filePath" | "language">> = [];
+
+		if (matcher.kind === "pattern") {
+			for (const { node, bindings } of findPatternMatches(
+				matcher.root,
+				root,
+				matcher.metavariables,
+			)) {
+				if (!passesAncestorFilters(node, options.inside, options.notInside)) {
+					continue;
+				}
+				matches.push({
+					...nodeRange(node),
+					text: truncate(node.text),
+					captures: [...bindings].map(([name, nodes]) =>
+						captureOf(name, nodes, source),
+					),
+				});
+			}
+			return matches;
+		}
+
+		for (const match of matcher.query.matches(root)) {
+			if (match.captures.length === 0) continue;
+			// The @match capture (or the widest capture) is the matched node
+			const anchor =
+				match.captures.find((c) => c.name === "match")?.node ??
+				match.captures.reduce((widest, c) =>
+					c.node.endIndex - c.node.startIndex >
+					widest.node.endIndex - widest.node.startIndex
+						? c
+						: widest,
+				).node;
+			if (!passesAncestorFilters(anchor, options.inside, options.notInside)) {
+				continue;
+			}
+			matches.push({
+				...nodeRange(anchor),
+				text: truncate(anchor.text),
+				captures: match.captures
+					.filter((c) => c.name !== "match")
+					.map((c) => captureOf(c.name, [c.node], source)),
+			});
+		}
+		return matches;
+	}
+}
+
+function nodeRange(node: SyntaxNode): { startLine: number; endLine: number } {
+	return {
+		startLine: node.startPosition.row + 1,
+		endLine: node.endPosition.row + 1,
+	};
+}
+
+function captureOf(
+	name: string,
+	nodes: SyntaxNode[],
+	source: string,
+): StructuralCapture {
+	if (nodes.length === 0) {
+		return { name, text: "", startLine: 0, endLine: 0 };
+	}
+	const first = nodes[0];
+	const last = nodes[nodes.length - 1];
+	return {
+		name,
+		text: truncate(source.slice(first.startIndex, last.endIndex)),
+		startLine: first.startPosition.row + 1,
+		endLine: last.endPosition.row + 1,
+	};
+}
+
+function truncate(text: string): string {
+	return text.length > MATCH_TEXT_LIMIT
+		? `${text.slice(0, MATCH_TEXT_LIMIT)}…`
+		: text;
+}
+
+/**
+ * Create a structural search over a project's indexed files.
+ */
+export function createStructuralSearch(
+	tracker: IFileTracker,
+	projectPath: string,
+	parserManager?: ParserManager,
+): StructuralSearch {
+	return new StructuralSearch(tracker, projectPath, parserManager);
+}
@@ -0,0 +1,226 @@
+/**
+ * Contextual Chunk Text
+ *
+ * A chunk embedded on its own loses what surrounds it: a method chunk has
+ * no class header, no imports and no idea what it calls. When contextual
+ * chunks are enabled (`contextualChunks` in the project config) the indexer
+ * embeds a short header built from the symbol graph in front of the chunk:
+ *
+ *   File: src/core/indexer.ts
+ *   In: export class Indexer {
+ *   Imports: readFileSync (node:fs), chunkFileByPath (src/core/chunker.ts)
+ *   Calls: computeFileHash(filePath: string): string
+ *
+ * The header only feeds the embedding model. Stored chunks keep their raw
+ * content, which is what search results show.
+ */
+
+import type { CodeChunk, FileImport, SymbolDefinition } from "../types.js";
+import { ModuleResolver, loadModuleResolverConfig } from "./module-resolver.js";
+import type { IFileTracker } from "./tracker.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Keep the header small relative to the chunk it describes */
+const MAX_IMPORTS = 12;
+const MAX_CALLEES = 12;
+const MAX_SIGNATURE_LENGTH = 160;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChunkContext {
+	/** File path, relative to project root */
+	filePath: string;
+	/** Signature of the enclosing class (methods) or symbol (split parts) */
+	parentSignature?: string;
+	/** Imports the chunk uses, with the project file they resolve to */
+	imports: string[];
+	/** Signatures of symbols the chunk calls directly */
+	callees: string[];
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Prefix chunk content with its context header
+ */
+export function formatContextualChunkText(
+	content: string,
+	context: ChunkContext,
+): string {
+	const header = [`File: ${context.filePath}`];
+	if (context.parentSignature) {
+		header.push(`In: ${context.parentSignature}`);
+	}
+	if (context.imports.length > 0) {
+		header.push(`Imports: ${context.imports.join(", ")}`);
+	}
+	if (context.callees.length > 0) {
+		header.push(`Calls: ${context.callees.join("; ")}`);
+	}
+	return `${header.join("\n")}\n\n${content}`;
+}
+
+/**
+ * One-line signature of a symbol (falls back to its name)
+ */
+function compactSignature(symbol: SymbolDefinition): string {
+	const signature = (symbol.signature ?? symbol.name)
+		.replace(/\s+/g, " ")
+		.trim();
+	return signature.length > MAX_SIGNATURE_LENGTH
+		? `${signature.slice(0, MAX_SIGNATURE_LENGTH)}…`
+		: signature;
+}
+
+// ============================================================================
+// Context Builder
+// ============================================================================
+
+export class ChunkContextBuilder {
+	private tracker: IFileTracker;
+	private modules: ModuleResolver;
+
+	/**
+	 * @param tracker Tracker whose symbol graph is up to date for the files
+	 * @param projectPath Project root (for tsconfig paths, go.mod, ...)
+	 * @param knownFiles Indexed files, relative to project root
+	 */
+	constructor(
+		tracker: IFileTracker,
+		projectPath: string,
+		knownFiles: string[],
+	) {
+		this.tracker = tracker;
+		this.modules = new ModuleResolver(
+			knownFiles,
+			loadModuleResolverConfig(projectPath, knownFiles),
+		);
+	}
+
+	/**
+	 * Build the embedding text for every chunk of a file
+	 *
+	 * @param filePath File path, relative to project root
+	 * @returns Contextual text keyed by chunk id
+	 */
+	buildTexts(filePath: string, chunks: CodeChunk[]): Map<string, string> {
+		const symbols = this.tracker.getSymbolsByFile(filePath);
+		const imports = this.tracker.getImportsByFile(filePath);
+		const texts = new Map<string, string>();
+
+		for (const chunk of chunks) {
+			const context = this.buildContext(filePath, chunk, symbols, imports);
+			texts.set(chunk.id, formatContextualChunkText(chunk.content, context));
+		}
+		return texts;
+	}
+
+	/**
+	 * Collect parent signature, used imports and direct callees of a chunk
+	 */
+	buildContext(
+		filePath: string,
+		chunk: CodeChunk,
+		symbols: SymbolDefinition[],
+		imports: FileImport[],
+	): ChunkContext {
+		return {
+			filePath,
+			parentSignature: this.findParentSignature(chunk, symbols),
+			imports: this.findUsedImports(filePath, chunk, imports),
+			callees: this.findCallees(chunk, symbols),
+		};
+	}
+
+	private findParentSignature(
+		chunk: CodeChunk,
+		symbols: SymbolDefinition[],
+	): string | undefined {
+		// Innermost symbol containing the chunk's first line
+		let owner: SymbolDefinition | undefined;
+		for (const symbol of symbols) {
+			if (
+				symbol.startLine <= chunk.startLine &&
+				symbol.endLine >= chunk.startLine &&
+				(!owner ||
+					symbol.endLine - symbol.startLine < owner.endLine - owner.startLine)
+			) {
+				owner = symbol;
+			}
+		}
+		if (!owner) return undefined;
+
+		// A method's class, or the symbol a split part belongs to
+		if (owner.parentId) {
+			const parent = this.tracker.getSymbol(owner.parentId);
+			if (parent) return compactSignature(parent);
+		}
+		return owner.startLine < chunk.startLine
+			? compactSignature(owner)
+			: undefined;
+	}
+
+	private findUsedImports(
+		filePath: string,
+		chunk: CodeChunk,
+		imports: FileImport[],
+	): string[] {
+		const identifiers = new Set(chunk.content.match(/[A-Za-z_$][\w$]*/g));
+		const used: string[] = [];
+
+		for (const imp of imports) {
+			if (imp.localName === "*" || !identifiers.has(imp.localName)) continue;
+
+			const [target] = this.modules.resolve(
+				imp.moduleSpecifier,
+				filePath,
+				chunk.language,
+			);
+			const name =
+				imp.importedName === imp.localName ||
+				imp.importedName === "*" ||
+				imp.importedName === "default"
+					? imp.localName
+					: `${imp.importedName} as ${imp.localName}`;
+			used.push(`${name} (${target ?? imp.moduleSpecifier})`);
+			if (used.length >= MAX_IMPORTS) break;
+		}
+		return used;
+	}
+
+	private findCallees(chunk: CodeChunk, symbols: SymbolDefinition[]): string[] {
+		const callees = new Set<string>();
+
+		for (const symbol of symbols) {
+			// Symbols overlapping the chunk make its outgoing references
+			if (
+				symbol.startLine > chunk.endLine ||
+				symbol.endLine < chunk.startLine
+			) {
+				continue;
+			}
+			for (const ref of this.tracker.getReferencesFrom(symbol.id)) {
+				if (
+					ref.kind !== "call" ||
+					ref.line < chunk.startLine ||
+					ref.line > chunk.endLine
+				) {
+					continue;
+				}
+				const target = ref.toSymbolId
+					? this.tracker.getSymbol(ref.toSymbolId)
+					: null;
+				callees.add(target ? compactSignature(target) : ref.toSymbolName);
+				if (callees.size >= MAX_CALLEES) return [...callees];
+			}
+		}
+		return [...callees];
+	}
+}
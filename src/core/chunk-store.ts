@@ -0,0 +1,368 @@
+/**
+ * Shared Chunk Store
+ *
+ * Content-addressed code rows shared by every branch and worktree of a
+ * repository. The code chunks and code units of a file version, with their
+ * vectors, are stored once in a LanceDB database in the common git directory
+ * (<git-common-dir>/mnemex/vectors, one table per embedding model), with
+ * paths relative to the worktree root. They are immutable: a file version
+ * embedded once never needs embedding again, on any branch or worktree.
+ *
+ * Worktrees do not copy these rows. A worktree's vector store reads the
+ * shared rows of the file versions it has indexed (its view, as recorded by
+ * its index tracker) next to its own table, which only holds what is
+ * specific to the worktree: enrichment documents, commits, observations and
+ * library docs. After a branch switch the indexer adopts the rows of file
+ * versions indexed before instead of chunking and embedding them again.
+ *
+ * Each branch view (one worktree on one branch) records which file versions
+ * it references in chunks.db, and rows no branch references anymore are
+ * pruned.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { join, relative } from "node:path";
+import * as lancedb from "@lancedb/lancedb";
+import { getIndexDbPath } from "../config.js";
+import type { CheckoutInfo } from "../git/checkout.js";
+import { type SQLiteDatabase, createDatabaseSync } from "./sqlite.js";
+import { openSharedDatabase } from "./vector-db.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Where a worktree's vector table finds the shared rows */
+export interface SharedRowsLink {
+	/** LanceDB directory in the common git directory */
+	dbPath: string;
+	/** Table of the embedding model (and text mode) */
+	tableName: string;
+	/** Worktree root the stored paths are relative to */
+	root: string;
+}
+
+/** Shared rows as seen by one worktree */
+export interface SharedRows extends SharedRowsLink {
+	/**
+	 * File versions the worktree has indexed: path relative to the worktree
+	 * root → file hash
+	 */
+	getView(): Map<string, string>;
+}
+
+export interface ChunkStoreStats {
+	/** Distinct file versions referenced by a branch view */
+	files: number;
+	/** Branch views referencing the store */
+	owners: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CHUNK_STORE_DIR = "mnemex";
+const CHUNK_STORE_FILE = "chunks.db";
+const SHARED_ROWS_DIR = "vectors";
+
+/** Link file in a worktree's vector table directory */
+const SHARED_ROWS_FILE = "shared-rows.json";
+
+/** File hashes per IN (...) filter */
+const PRUNE_BATCH_SIZE = 500;
+
+/**
+ * Rows younger than this are never pruned: a worktree that is indexing adds
+ * rows before its branch view references them
+ */
+const PRUNE_GRACE_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * Location of the branch references of a checkout
+ */
+export function getChunkStorePath(checkout: CheckoutInfo): string {
+	return join(checkout.commonDir, CHUNK_STORE_DIR, CHUNK_STORE_FILE);
+}
+
+/**
+ * Location of the shared rows of a checkout
+ */
+export function getSharedRowsPath(checkout: CheckoutInfo): string {
+	return join(checkout.commonDir, CHUNK_STORE_DIR, SHARED_ROWS_DIR);
+}
+
+/**
+ * Table of the shared rows embedded with a model
+ *
+ * @param vectorModel Embedding model, with "#contextual" for contextual text
+ */
+export function getSharedTableName(vectorModel: string): string {
+	const slug = vectorModel
+		.toLowerCase()
+		.replace(/[^a-z0-9.-]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return `chunks-${slug}`;
+}
+
+/**
+ * Owner key of a branch view: one per worktree and branch
+ */
+export function getBranchOwner(checkout: CheckoutInfo): string {
+	return `${checkout.worktreeId}:${checkout.branch}`;
+}
+
+// ============================================================================
+// Links
+// ============================================================================
+
+/**
+ * Read the shared rows link of a worktree's vector table
+ */
+export function readSharedRowsLink(vectorsDir: string): SharedRowsLink | null {
+	const linkPath = join(vectorsDir, SHARED_ROWS_FILE);
+	if (!existsSync(linkPath)) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(readFileSync(linkPath, "utf-8")) as SharedRowsLink;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Point a worktree's vector table at shared rows, or at none (null)
+ *
+ * @returns Whether the link changed. Code rows indexed under the old link
+ * are then out of reach and the worktree must be indexed again.
+ */
+export function linkSharedRows(
+	vectorsDir: string,
+	link: SharedRowsLink | null,
+): boolean {
+	const previous = readSharedRowsLink(vectorsDir);
+	const linkPath = join(vectorsDir, SHARED_ROWS_FILE);
+
+	if (!link) {
+		rmSync(linkPath, { force: true });
+		return previous !== null;
+	}
+
+	if (
+		previous?.dbPath === link.dbPath &&
+		previous.tableName === link.tableName &&
+		previous.root === link.root
+	) {
+		return false;
+	}
+
+	mkdirSync(vectorsDir, { recursive: true });
+	writeFileSync(linkPath, JSON.stringify(link, null, 2));
+	return true;
+}
+
+/**
+ * Shared rows a worktree's vector table is linked to
+ *
+ * @param projectPath Project the vector table belongs to; its index tracker
+ * records the worktree's view
+ */
+export function loadSharedRows(
+	vectorsDir: string,
+	projectPath: string,
+): SharedRows | null {
+	const link = readSharedRowsLink(vectorsDir);
+	if (!link) {
+		return null;
+	}
+
+	const indexDbPath = getIndexDbPath(projectPath);
+	return {
+		...link,
+		getView: () => readView(indexDbPath, projectPath, link.root),
+	};
+}
+
+/**
+ * Indexed file versions of a project, by path relative to the worktree root
+ */
+function readView(
+	indexDbPath: string,
+	projectPath: string,
+	root: string,
+): Map<string, string> {
+	const view = new Map<string, string>();
+	if (!existsSync(indexDbPath)) {
+		return view;
+	}
+
+	const db = createDatabaseSync(indexDbPath);
+	try {
+		// The indexer may be writing
+		db.exec("PRAGMA busy_timeout = 5000");
+		const rows = db
+			.prepare("SELECT path, content_hash FROM files")
+			.all() as Array<{ path: string; content_hash: string }>;
+		for (const row of rows) {
+			view.set(relative(root, join(projectPath, row.path)), row.content_hash);
+		}
+	} catch {
+		// No files table yet
+	} finally {
+		db.close();
+	}
+	return view;
+}
+
+// ============================================================================
+// Shared Chunk Store Class
+// ============================================================================
+
+export class SharedChunkStore {
+	private db: SQLiteDatabase;
+	private rowsPath: string;
+
+	/**
+	 * @param dbPath Branch references (chunks.db)
+	 * @param rowsPath LanceDB directory of the shared rows
+	 */
+	constructor(dbPath: string, rowsPath: string) {
+		this.rowsPath = rowsPath;
+		// Worktrees index concurrently
+		this.db = openSharedDatabase(dbPath);
+		this.db.exec(`
+      CREATE TABLE IF NOT EXISTS refs (
+        owner TEXT NOT NULL,
+        file_hash TEXT NOT NULL,
+        PRIMARY KEY (owner, file_hash)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_refs_file_hash ON refs(file_hash);
+
+      -- Vectors are stored with the shared rows now
+      DROP TABLE IF EXISTS vectors;
+    `);
+	}
+
+	/**
+	 * Replace the file versions a branch view references
+	 */
+	setRefs(owner: string, fileHashes: string[]): void {
+		const insert = this.db.prepare(
+			"INSERT OR IGNORE INTO refs (owner, file_hash) VALUES (?, ?)",
+		);
+		this.db.transaction(() => {
+			this.db.prepare("DELETE FROM refs WHERE owner = ?").run(owner);
+			for (const fileHash of fileHashes) {
+				insert.run(owner, fileHash);
+			}
+		});
+	}
+
+	/**
+	 * Branch views referencing the store
+	 */
+	getOwners(): string[] {
+		const rows = this.db
+			.prepare("SELECT DISTINCT owner FROM refs ORDER BY owner")
+			.all() as Array<{ owner: string }>;
+		return rows.map((r) => r.owner);
+	}
+
+	/**
+	 * Forget a branch view (its rows stay until pruned)
+	 */
+	dropOwner(owner: string): void {
+		this.db.prepare("DELETE FROM refs WHERE owner = ?").run(owner);
+	}
+
+	/**
+	 * Delete the shared rows of file versions no branch view references, in
+	 * the tables of all embedding models
+	 *
+	 * @returns Number of file versions deleted
+	 */
+	async prune(): Promise<number> {
+		if (!existsSync(this.rowsPath)) {
+			return 0;
+		}
+
+		const rows = this.db
+			.prepare("SELECT DISTINCT file_hash FROM refs")
+			.all() as Array<{ file_hash: string }>;
+		const referenced = new Set(rows.map((r) => r.file_hash));
+		const cutoff = new Date(Date.now() - PRUNE_GRACE_MS).toISOString();
+
+		const db = await lancedb.connect(this.rowsPath);
+		let pruned = 0;
+		for (const tableName of await db.tableNames()) {
+			const table = await db.openTable(tableName);
+			const stale = new Set<string>();
+			for await (const batch of table
+				.query()
+				.select(["fileHash", "createdAt"])) {
+				for (const row of batch.toArray()) {
+					const fileHash = row.fileHash as string;
+					if (!referenced.has(fileHash) && (row.createdAt as string) < cutoff) {
+						stale.add(fileHash);
+					}
+				}
+			}
+
+			const hashes = [...stale];
+			for (let i = 0; i < hashes.length; i += PRUNE_BATCH_SIZE) {
+				const batch = hashes
+					.slice(i, i + PRUNE_BATCH_SIZE)
+					.map((h) => `'${h.replace(/'/g, "''")}'`)
+					.join(", ");
+				await table.delete(
+					`\`fileHash\` IN (${batch}) AND \`createdAt\` < '${cutoff}'`,
+				);
+			}
+			pruned += hashes.length;
+		}
+		return pruned;
+	}
+
+	getStats(): ChunkStoreStats {
+		const row = this.db
+			.prepare(
+				"SELECT COUNT(DISTINCT file_hash) as files, COUNT(DISTINCT owner) as owners FROM refs",
+			)
+			.get() as { files: number; owners: number };
+
+		return { files: row.files, owners: row.owners };
+	}
+
+	close(): void {
+		this.db.close();
+	}
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Open the shared chunk store of a checkout
+ */
+export function createSharedChunkStore(
+	checkout: CheckoutInfo,
+): SharedChunkStore {
+	return new SharedChunkStore(
+		getChunkStorePath(checkout),
+		getSharedRowsPath(checkout),
+	);
+}
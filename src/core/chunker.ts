@@ -7,7 +7,10 @@
 
 import { createHash } from "node:crypto";
 import type { Node, Tree } from "web-tree-sitter";
-import { getParserManager } from "../parsers/parser-manager.js";
+import {
+	type ParserManager,
+	getParserManager,
+} from "../parsers/parser-manager.js";
 import {
 	isDocumentFormat,
 	chunkDocument,
@@ -38,26 +41,73 @@ const MIN_CHUNK_TOKENS = 50;
 /** Characters per token estimate for code */
 const CHARS_PER_TOKEN = 4;
 
+/**
+ * Language-specific node types, checked before the shared lists in
+ * getChunkType(). Kept per language because some grammars use keyword-like
+ * node types (Ruby's `class` and `module`) or reuse names with a different
+ * meaning.
+ */
+const LANGUAGE_CHUNK_TYPES: Partial<
+	Record<SupportedLanguage, Record<string, ChunkType>>
+> = {
+	ruby: {
+		method: "method",
+		singleton_method: "method",
+		class: "class",
+		module: "module",
+	},
+	php: {
+		trait_declaration: "class",
+	},
+	kotlin: {
+		object_declaration: "class",
+	},
+	swift: {
+		protocol_declaration: "class",
+		init_declaration: "method",
+	},
+	csharp: {
+		namespace_declaration: "module",
+		file_scoped_namespace_declaration: "module",
+		struct_declaration: "class",
+		record_declaration: "class",
+		constructor_declaration: "method",
+	},
+	yaml: {
+		// stream > document > block_node > block_mapping > block_mapping_pair
+		document: "module",
+		block_node: "module",
+		block_mapping: "module",
+		block_mapping_pair: "config-section",
+	},
+	toml: {
+		table: "config-section",
+		table_array_element: "config-section",
+	},
+};
+
 // ============================================================================
 // Chunk Extraction
 // ============================================================================
 
 /**
  * Extract chunks from a source file
+ *
+ * @param parserManager - Parser manager of the file's project (knows its
+ * project-defined languages)
  */
 export async function chunkFile(
 	source: string,
 	filePath: string,
 	language: SupportedLanguage,
 	fileHash: string,
+	parserManager: ParserManager = getParserManager(),
 ): Promise<CodeChunk[]> {
 	// Route document formats to document chunker
 	if (isDocumentFormat(language)) {
 		return chunkDocument(source, filePath, language as any, fileHash);
 	}
 
-	const parserManager = getParserManager();
-
 	// Parse the source
 	const tree = await parserManager.parse(source, language);
 	if (!tree) {
@@ -66,7 +116,7 @@ export async function chunkFile(
 	}
 
 	// AST-pure chunking: every line belongs to exactly one chunk
-	const parsedChunks = extractChunksAST(tree, source, language);
+	const parsedChunks = extractChunksAST(tree, source, language, parserManager);
 
 	// Convert to CodeChunk format — no MIN_CHUNK_TOKENS filter for AST chunks
 	// (every AST-extracted chunk is semantically meaningful regardless of size)
@@ -96,9 +146,10 @@ function extractChunksAST(
 	tree: Tree,
 	source: string,
 	language: SupportedLanguage,
+	parserManager: ParserManager,
 ): ParsedChunk[] {
 	const chunks: ParsedChunk[] = [];
-	processChildren(tree.rootNode, source, language, chunks, null);
+	processChildren(tree.rootNode, source, language, parserManager, chunks, null);
 	return chunks;
 }
 
@@ -117,6 +168,7 @@ function processChildren(
 	parent: Node,
 	source: string,
 	language: SupportedLanguage,
+	parserManager: ParserManager,
 	chunks: ParsedChunk[],
 	containerName: string | null,
 	initialPreamble?: string,
@@ -134,7 +186,7 @@ function processChildren(
 	for (const child of children) {
 		const content = source.slice(child.startIndex, child.endIndex);
 		const tokens = estimateTokens(content);
-		const chunkType = getChunkType(child.type, language);
+		const chunkType = getChunkType(child.type, language, parserManager);
 
 		// Skip semicolons (typically on lines already covered by their statement)
 		if (child.type === ";") continue;
@@ -224,6 +276,7 @@ function processChildren(
 					body,
 					source,
 					language,
+					parserManager,
 					chunks,
 					name ?? containerName,
 					preamble,
@@ -240,6 +293,7 @@ function processChildren(
 					child,
 					source,
 					language,
+					parserManager,
 					containerName,
 					chunks,
 					preamble,
@@ -249,7 +303,7 @@ function processChildren(
 		} else {
 			// Non-chunk node (import, field, export_statement, etc.)
 			// Check if it wraps recognized children (e.g., export_statement wrapping class_declaration)
-			if (hasRecognizedChild(child, language)) {
+			if (hasRecognizedChild(child, language, parserManager)) {
 				flushGap(
 					gapLines,
 					gapStartLine,
@@ -259,7 +313,14 @@ function processChildren(
 				);
 				gapLines = [];
 				gapStartLine = -1;
-				processChildren(child, source, language, chunks, containerName);
+				processChildren(
+					child,
+					source,
+					language,
+					parserManager,
+					chunks,
+					containerName,
+				);
 			} else {
 				// Terminal gap node → accumulate
 				if (gapStartLine < 0) gapStartLine = child.startPosition.row;
@@ -289,6 +350,7 @@ function splitIntoConnectedParts(
 	node: Node,
 	source: string,
 	language: SupportedLanguage,
+	parserManager: ParserManager,
 	containerName: string | null,
 	chunks: ParsedChunk[],
 	preamble?: string,
@@ -298,7 +360,7 @@ function splitIntoConnectedParts(
 	const lines = content.split("\n");
 	const maxLines = Math.floor((MAX_CHUNK_TOKENS * CHARS_PER_TOKEN) / 80);
 	const name = extractName(node, language);
-	const chunkType = getChunkType(node.type, language)!;
+	const chunkType = getChunkType(node.type, language, parserManager)!;
 
 	// Build split boundaries, merging a tiny last part into the previous one.
 	// Without this, the last part can be just 2-3 closing braces — not a
@@ -377,10 +439,14 @@ function flushGap(
  * Used to detect wrapper nodes like export_statement that contain
  * class_declaration, function_declaration, etc.
  */
-function hasRecognizedChild(node: Node, language: SupportedLanguage): boolean {
+function hasRecognizedChild(
+	node: Node,
+	language: SupportedLanguage,
+	parserManager: ParserManager,
+): boolean {
 	for (let i = 0; i < node.childCount; i++) {
 		const child = node.child(i)!;
-		if (getChunkType(child.type, language) !== null) return true;
+		if (getChunkType(child.type, language, parserManager) !== null) return true;
 	}
 	return false;
 }
@@ -391,7 +457,14 @@ function hasRecognizedChild(node: Node, language: SupportedLanguage): boolean {
 function getChunkType(
 	nodeType: string,
 	language: SupportedLanguage,
+	parserManager: ParserManager,
 ): ChunkType | null {
+	// Project-defined languages chunk exactly what their chunk query captures
+	const custom = parserManager.getCustomLanguage(language);
+	if (custom) {
+		return custom.chunkTypes.get(nodeType) ?? null;
+	}
+
 	// Document sections (handled by document-chunker)
 	if (["atx_heading", "section"].includes(nodeType)) {
 		return "document-section" as any;
@@ -412,6 +485,12 @@ function getChunkType(
 		return "shell-function" as any;
 	}
 
+	// Ruby, PHP, Kotlin, Swift, C#, YAML and TOML declarations
+	const languageChunkType = LANGUAGE_CHUNK_TYPES[language]?.[nodeType];
+	if (languageChunkType) {
+		return languageChunkType;
+	}
+
 	// GraphQL queries
 	if (nodeType === "query") {
 		return "query" as any;
@@ -497,6 +576,18 @@ function extractName(
 		}
 	}
 
+	// Kotlin grammar has no field names: use the first identifier child
+	if (language === "kotlin") {
+		for (const child of node.namedChildren) {
+			if (
+				child?.type === "simple_identifier" ||
+				child?.type === "type_identifier"
+			) {
+				return child.text;
+			}
+		}
+	}
+
 	return undefined;
 }
 
@@ -743,8 +834,8 @@ export async function chunkFileByPath(
 	source: string,
 	filePath: string,
 	fileHash: string,
+	parserManager: ParserManager = getParserManager(),
 ): Promise<CodeChunk[]> {
-	const parserManager = getParserManager();
 	const language = parserManager.getLanguage(filePath);
 
 	if (!language) {
@@ -753,13 +844,15 @@ export async function chunkFileByPath(
 		return fallbackChunk(source, filePath, ext, fileHash);
 	}
 
-	return chunkFile(source, filePath, language, fileHash);
+	return chunkFile(source, filePath, language, fileHash, parserManager);
 }
 
 /**
  * Check if a file can be chunked
  */
-export function canChunkFile(filePath: string): boolean {
-	const parserManager = getParserManager();
+export function canChunkFile(
+	filePath: string,
+	parserManager: ParserManager = getParserManager(),
+): boolean {
 	return parserManager.isSupported(filePath);
 }
@@ -4,8 +4,13 @@
  * Orchestrates diagnosis of context files
  */
 
-import type { ContextFile, ContextFileDiagnosis } from "./types.js";
+import type {
+	ContextFile,
+	ContextFileDiagnosis,
+	ReferenceCheck,
+} from "./types.js";
 import type { FileTracker } from "../tracker.js";
+import { buildReferenceIndex, checkReferences } from "./references.js";
 import {
 	analyzeTokenCount,
 	analyzeSpecificity,
@@ -18,18 +23,32 @@ import { aggregateScore } from "./scorer.js";
 
 /**
  * Analyze a single context file
+ *
+ * @param referenceCheck Precomputed reference check (e.g. with git move
+ *   suggestions); computed from the tracker when omitted
  */
 export function analyzeContextFile(
 	file: ContextFile,
 	tracker: FileTracker | null,
 	projectPath: string,
+	referenceCheck?: ReferenceCheck | null,
 ): ContextFileDiagnosis {
+	const check =
+		referenceCheck !== undefined
+			? referenceCheck
+			: tracker
+				? checkReferences(
+						file.content,
+						buildReferenceIndex(projectPath, tracker),
+					)
+				: null;
+
 	const criteria = [
 		analyzeTokenCount(file),
 		analyzeSpecificity(file),
 		analyzeInstructionDensity(file),
 		analyzeDuplication(file, projectPath),
-		analyzeStaleness(file, tracker),
+		analyzeStaleness(file, check),
 		analyzeSkillsBenchCompliance(file),
 	];
 
@@ -48,6 +67,7 @@ export function analyzeContextFile(
 			tokensPerQuery,
 			budgetPercent,
 		},
+		...(check ? { deadReferences: check.dead } : {}),
 	};
 
 	return diagnosis;
@@ -4,8 +4,8 @@
  * Implements all 6 diagnostic criteria for context file quality
  */
 
-import type { ContextFile, CriterionResult } from "./types.js";
-import type { FileTracker } from "../tracker.js";
+import { isAutoFixable } from "./references.js";
+import type { ContextFile, CriterionResult, ReferenceCheck } from "./types.js";
 
 /**
  * Criterion 1: Token Count (weight 2.0)
@@ -310,18 +310,18 @@ export function analyzeDuplication(
 
 /**
  * Criterion 5: Staleness (weight 2.5)
- * Checks if file paths mentioned in context file actually exist
- * Requires optional FileTracker for full analysis
+ * Checks that the file paths, symbols, scripts and commands mentioned in the
+ * context file still exist (see references.ts). Requires the index.
  */
 export function analyzeStaleness(
 	file: ContextFile,
-	tracker: FileTracker | null,
+	check: ReferenceCheck | null,
 ): CriterionResult {
 	const issues: string[] = [];
 	const recommendations: string[] = [];
 
-	// If no tracker available, we can't check staleness
-	if (!tracker) {
+	// If no index available, we can't check staleness
+	if (!check) {
 		return {
 			name: "Staleness",
 			score: 50,
@@ -332,37 +332,39 @@ export function analyzeStaleness(
 		};
 	}
 
-	// Try to extract file paths from context
-	const filePathPattern = /(?:src|lib|test)\/[\w\-/.]+\.\w+/g;
-	const matches = file.content.match(filePathPattern) || [];
-	const uniquePaths = [...new Set(matches)];
-
-	let staleCount = 0;
-
-	// This would require access to FileTracker's internal file list
-	// For now, we estimate based on typical patterns
-	// A real implementation would query tracker.getFileStates()
-	for (const path of uniquePaths) {
-		// Rough heuristic: common files that often become stale
-		if (
-			path.includes("test") &&
-			!path.includes("src") &&
-			!path.includes("tests")
-		) {
-			staleCount++;
-		}
-	}
-
+	const staleCount = check.dead.length;
 	const score = Math.max(0, 100 - staleCount * 15);
 
 	const severity = score >= 80 ? "good" : score >= 60 ? "warning" : "critical";
 
-	if (uniquePaths.length > 0 && staleCount === 0) {
+	if (check.checked > 0 && staleCount === 0) {
 		recommendations.push("File references appear to be current");
 	} else if (staleCount > 0) {
-		issues.push(`${staleCount} potentially stale file references detected`);
-		recommendations.push("Remove references to deleted or moved files");
-		recommendations.push("Update file paths to match current structure");
+		const listed = check.dead
+			.slice(0, 5)
+			.map((ref) => `${ref.text} (line ${ref.occurrences[0].line})`);
+		const more = staleCount > 5 ? `, +${staleCount - 5} more` : "";
+		issues.push(
+			`${staleCount} dead reference${staleCount === 1 ? "" : "s"} in ${file.relativePath}: ${listed.join(", ")}${more}`,
+		);
+
+		const fixable = check.dead.filter(isAutoFixable).length;
+		const guessed = check.dead.filter(
+			(ref) => ref.suggestion && !isAutoFixable(ref),
+		).length;
+		if (fixable > 0) {
+			recommendations.push(
+				"Run 'mnemex doctor --fix' to rewrite references to moved files",
+			);
+		}
+		if (guessed > 0) {
+			recommendations.push(
+				"Check the suggested names for renamed symbols, scripts and commands",
+			);
+		}
+		if (fixable + guessed < staleCount) {
+			recommendations.push("Remove references to deleted files and symbols");
+		}
 	}
 
 	return {
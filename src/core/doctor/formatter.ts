@@ -87,6 +87,23 @@ export function formatDoctorReport(result: DoctorResult): string {
 				`       Cost: ${diagnosis.costOverhead.budgetPercent.toFixed(1)}% of typical query budget`,
 			);
 
+			// Dead references with their replacements
+			const dead = diagnosis.deadReferences ?? [];
+			if (dead.length > 0) {
+				lines.push(`       ${c.yellow}Dead references:${c.reset}`);
+				for (const ref of dead) {
+					const where = ref.occurrences.map((o) => o.line).join(", ");
+					// Low-confidence guesses are not applied by --fix
+					const guess = ref.confidence === "low" ? "?" : "";
+					const fix = ref.suggestion
+						? ` ${c.dim}→${c.reset} ${ref.suggestion}${guess} ${c.dim}(${ref.reason})${c.reset}`
+						: "";
+					lines.push(
+						`         - ${ref.kind} ${ref.text} ${c.dim}(line ${where})${c.reset}${fix}`,
+					);
+				}
+			}
+
 			// Show critical issues
 			const criticalCriteria = diagnosis.criteria.filter(
 				(c) => c.severity === "critical",
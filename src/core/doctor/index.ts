@@ -6,6 +6,14 @@
 
 export { scanForContextFiles } from "./scanner.js";
 export { analyzeContextFile, aggregateDiagnoses } from "./analyzer.js";
+export {
+	applyReferenceFixes,
+	buildReferenceIndex,
+	checkReferences,
+	extractReferences,
+	isAutoFixable,
+	suggestMovedFiles,
+} from "./references.js";
 export { aggregateScore, classifySeverity } from "./scorer.js";
 export {
 	formatDoctorReport,
@@ -0,0 +1,541 @@
+/**
+ * Context file reference checking
+ *
+ * Extracts the file paths, symbols, package scripts and CLI commands a
+ * context file mentions, resolves them against the index and the package
+ * manifests, and suggests replacements for the ones that no longer exist.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { basename, join } from "node:path";
+import type { GitHistory } from "../../git/history.js";
+import type { FileTracker } from "../tracker.js";
+import type {
+	ContextReference,
+	DeadReference,
+	ReferenceCheck,
+	ReferenceIndex,
+} from "./types.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Relative paths like src/core/x.ts (not URLs, home paths or globs) */
+const FILE_PATH_PATTERN =
+	/(?<![\w@/.:~$-])(?:\.\/)?((?:[\w@-][\w@.-]*\/)+[\w@-][\w@.-]*\.[A-Za-z]\w*)(?![\w/*])/g;
+
+/** `npm run build`, `bun run test:unit`, `make lint` */
+const SCRIPT_PATTERN =
+	/\b(?:(?:npm|pnpm|yarn|bun)\s+run(?:-script)?|make)\s+([\w:.-]+)/g;
+
+/** Inline code spans outside fenced blocks */
+const CODE_SPAN_PATTERN = /`([^`\n]+)`/g;
+
+/** Symbol-like code spans: foo(), Foo.bar, fooBar, FooBar */
+const SYMBOL_PATTERN =
+	/^([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)(\([^)]*\))?$/;
+
+/** Subcommand dispatch in CLI sources (switch, commander, argparse, cobra) */
+const COMMAND_DEFINITION_PATTERN =
+	/\bcase\s+["'`]([\w:-]+)["'`]\s*:|\.command\(\s*["'`]([\w:-]+)|add_parser\(\s*["']([\w-]+)|\bUse:\s*"([\w-]+)/g;
+
+/** Generated or vendored directories that need not exist in a checkout */
+const IGNORED_PATH_PREFIXES = [
+	"node_modules/",
+	"dist/",
+	"build/",
+	"out/",
+	".git/",
+];
+
+/** Globals that context files call without them being project symbols */
+const GLOBAL_NAMES = new Set([
+	"require",
+	"fetch",
+	"setTimeout",
+	"setInterval",
+	"parseInt",
+	"parseFloat",
+	"print",
+	"len",
+	"main",
+]);
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Find every reference in a context file, one entry per occurrence.
+ * Symbols are only taken from inline code spans outside fenced blocks;
+ * paths, scripts and commands are taken from everywhere.
+ */
+export function extractReferences(
+	content: string,
+	bins: Set<string> = new Set(),
+): ContextReference[] {
+	const references: ContextReference[] = [];
+	const commandPattern =
+		bins.size > 0
+			? new RegExp(
+					`(?<![\\w/.-])(?:${[...bins].map(escapeRegExp).join("|")})\\s+([a-z][\\w:-]*)`,
+					"g",
+				)
+			: null;
+
+	let inFence = false;
+	content.split("\n").forEach((text, index) => {
+		const line = index + 1;
+		if (/^\s*(```|~~~)/.test(text)) {
+			inFence = !inFence;
+			return;
+		}
+
+		for (const match of text.matchAll(FILE_PATH_PATTERN)) {
+			const path = match[1];
+			if (IGNORED_PATH_PREFIXES.some((p) => path.startsWith(p))) continue;
+			references.push({
+				kind: "file",
+				text: path,
+				line,
+				column: (match.index ?? 0) + match[0].length - path.length,
+			});
+		}
+
+		for (const match of text.matchAll(SCRIPT_PATTERN)) {
+			const name = match[1];
+			// `bun run scripts/x.ts` runs a file, which the path check covers
+			if (name.includes("/") || /\.[jt]s$/.test(name)) continue;
+			references.push({
+				kind: "script",
+				text: name,
+				line,
+				column: (match.index ?? 0) + match[0].length - name.length,
+			});
+		}
+
+		// Commands only count in code: "mnemex is a tool" is prose
+		const code = inFence
+			? [{ text, offset: 0 }]
+			: [...text.matchAll(CODE_SPAN_PATTERN)].map((m) => ({
+					text: m[1],
+					offset: (m.index ?? 0) + 1,
+				}));
+		for (const segment of commandPattern ? code : []) {
+			for (const match of segment.text.matchAll(commandPattern as RegExp)) {
+				references.push({
+					kind: "command",
+					text: match[1],
+					line,
+					column:
+						segment.offset +
+						(match.index ?? 0) +
+						match[0].length -
+						match[1].length,
+				});
+			}
+		}
+
+		if (inFence) return;
+		for (const match of text.matchAll(CODE_SPAN_PATTERN)) {
+			const span = match[1].trim();
+			const symbol = SYMBOL_PATTERN.exec(span);
+			if (!symbol) continue;
+
+			const isCall = symbol[2] !== undefined;
+			const segments = symbol[1].split(".");
+			const name = segments[segments.length - 1];
+			if (!isCall && !looksLikeSymbol(name) && segments.length === 1) {
+				continue;
+			}
+
+			const spanStart = (match.index ?? 0) + 1 + match[1].indexOf(span);
+			references.push({
+				kind: "symbol",
+				text: segments.length > 1 ? symbol[1] : name,
+				line,
+				column: spanStart,
+			});
+		}
+	});
+
+	return references;
+}
+
+/**
+ * camelCase and PascalCase identifiers with at least two words. Plain
+ * words, ALL_CAPS (usually env vars) and snake_case are too ambiguous
+ * without call parentheses.
+ */
+function looksLikeSymbol(name: string): boolean {
+	return (
+		/^[a-z$_][a-z0-9]*[A-Z]\w*$/.test(name) ||
+		/^[A-Z][a-z0-9]+[A-Z]\w*$/.test(name)
+	);
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Collect what context files may refer to: indexed files and symbols from
+ * the tracker, scripts from package.json (root and workspaces) and the
+ * Makefile, and subcommands of the project's own CLIs.
+ */
+export function buildReferenceIndex(
+	projectPath: string,
+	tracker: FileTracker,
+): ReferenceIndex {
+	const files = new Set<string>();
+	const filesByHash = new Map<string, string[]>();
+	for (const file of tracker.getAllFiles()) {
+		files.add(file.path);
+		const paths = filesByHash.get(file.contentHash) ?? [];
+		paths.push(file.path);
+		filesByHash.set(file.contentHash, paths);
+	}
+
+	const symbols = new Set<string>();
+	for (const symbol of tracker.getAllSymbols()) {
+		symbols.add(symbol.name);
+	}
+	for (const imported of tracker.getAllImports()) {
+		if (imported.localName !== "*") symbols.add(imported.localName);
+		if (imported.importedName !== "*") symbols.add(imported.importedName);
+	}
+
+	const scripts = new Set<string>();
+	const bins = new Set<string>();
+	const rootManifest = readManifest(join(projectPath, "package.json"));
+	const manifests = [rootManifest];
+	for (const pattern of getWorkspacePatterns(rootManifest)) {
+		// "packages/*" and literal directories; deeper globs are not expanded
+		const dirs = pattern.endsWith("/*")
+			? listDirectories(join(projectPath, pattern.slice(0, -2)))
+			: [join(projectPath, pattern)];
+		for (const dir of dirs) {
+			manifests.push(readManifest(join(dir, "package.json")));
+		}
+	}
+	for (const manifest of manifests) {
+		if (!manifest) continue;
+		for (const name of Object.keys(asRecord(manifest.scripts))) {
+			scripts.add(name);
+		}
+		if (typeof manifest.bin === "string" && typeof manifest.name === "string") {
+			bins.add(manifest.name.replace(/^@[^/]+\//, ""));
+		}
+		for (const name of Object.keys(asRecord(manifest.bin))) {
+			bins.add(name);
+		}
+	}
+	for (const target of readMakeTargets(join(projectPath, "Makefile"))) {
+		scripts.add(target);
+	}
+
+	return {
+		projectPath,
+		files,
+		filesByHash,
+		symbols,
+		scripts,
+		bins,
+		commands:
+			bins.size > 0 ? findCommandDefinitions(projectPath, files) : new Set(),
+	};
+}
+
+/**
+ * Resolve a context file's references and return the dead ones, grouped by
+ * text, with replacement suggestions where a single good candidate exists
+ */
+export function checkReferences(
+	content: string,
+	index: ReferenceIndex,
+): ReferenceCheck {
+	const references = extractReferences(content, index.bins);
+	const groups = new Map<string, DeadReference>();
+	const checked = new Set<string>();
+
+	for (const ref of references) {
+		const key = `${ref.kind}:${ref.text}`;
+		if (checked.has(key)) {
+			groups.get(key)?.occurrences.push({ line: ref.line, column: ref.column });
+			continue;
+		}
+		checked.add(key);
+		if (resolves(ref, index)) continue;
+
+		groups.set(key, {
+			kind: ref.kind,
+			text: ref.text,
+			occurrences: [{ line: ref.line, column: ref.column }],
+			...suggestReplacement(ref, index),
+		});
+	}
+
+	return { checked: checked.size, dead: [...groups.values()] };
+}
+
+function resolves(ref: ContextReference, index: ReferenceIndex): boolean {
+	switch (ref.kind) {
+		case "file":
+			return (
+				index.files.has(ref.text) ||
+				existsSync(join(index.projectPath, ref.text)) ||
+				// Paths written relative to a package in a monorepo
+				[...index.files].some((f) => f.endsWith(`/${ref.text}`))
+			);
+		case "symbol": {
+			// No symbols indexed (unsupported language): nothing to check against
+			if (index.symbols.size === 0) return true;
+			const segments = ref.text.split(".");
+			const head = segments[0];
+			const name = segments[segments.length - 1];
+			if (segments.length > 1) {
+				// `JSON.parse`, `tracker.getAllFiles`: only Class.member
+				// references to a project class are checked
+				return !index.symbols.has(head) || index.symbols.has(name);
+			}
+			return index.symbols.has(name) || GLOBAL_NAMES.has(name);
+		}
+		case "script":
+			return index.scripts.has(ref.text) || index.scripts.size === 0;
+		case "command":
+			return index.commands.has(ref.text) || index.commands.size === 0;
+	}
+}
+
+/**
+ * Best guess for what a dead reference now points at: the only indexed file
+ * with the same basename, or (with low confidence) the closest symbol,
+ * script or command name
+ */
+export function suggestReplacement(
+	ref: ContextReference,
+	index: ReferenceIndex,
+): Pick<DeadReference, "suggestion" | "reason" | "confidence"> {
+	if (ref.kind === "file") {
+		const name = basename(ref.text);
+		const candidates = [...index.files].filter((f) => basename(f) === name);
+		return candidates.length === 1
+			? {
+					suggestion: candidates[0],
+					reason: "only indexed file with this name",
+					confidence: "high",
+				}
+			: {};
+	}
+
+	const segments = ref.text.split(".");
+	const name = segments[segments.length - 1];
+	const pool =
+		ref.kind === "symbol"
+			? index.symbols
+			: ref.kind === "script"
+				? index.scripts
+				: index.commands;
+	const closest = findClosest(name, pool);
+	if (!closest) return {};
+
+	// A typo fix and a different name look alike; a person has to decide
+	segments[segments.length - 1] = closest;
+	return {
+		suggestion: segments.join("."),
+		reason: `closest ${ref.kind} name`,
+		confidence: "low",
+	};
+}
+
+/**
+ * The single candidate within a small edit distance of name (a quarter of
+ * its length, at least 1), or null when there is none or it is ambiguous
+ */
+export function findClosest(
+	name: string,
+	candidates: Iterable<string>,
+): string | null {
+	const maxDistance = Math.max(1, Math.floor(name.length / 4));
+	let best: string | null = null;
+	let bestDistance = Number.POSITIVE_INFINITY;
+	let ambiguous = false;
+
+	for (const candidate of candidates) {
+		if (Math.abs(candidate.length - name.length) > maxDistance) continue;
+		const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+		if (distance > maxDistance) continue;
+		if (distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+			ambiguous = false;
+		} else if (distance === bestDistance) {
+			ambiguous = true;
+		}
+	}
+
+	return ambiguous ? null : best;
+}
+
+/** Edit distance where swapping two adjacent characters counts as one edit */
+function editDistance(a: string, b: string): number {
+	const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+	for (let i = 1; i <= a.length; i++) {
+		const row = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			row[j] = Math.min(
+				rows[i - 1][j] + 1,
+				row[j - 1] + 1,
+				rows[i - 1][j - 1] + cost,
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				row[j] = Math.min(row[j], rows[i - 2][j - 2] + 1);
+			}
+		}
+		rows.push(row);
+	}
+	return rows[a.length][b.length];
+}
+
+/**
+ * Replace basename guesses for dead file references with moves found by
+ * content hash: the last committed version of the missing file is hashed
+ * and looked up among the indexed files
+ */
+export async function suggestMovedFiles(
+	check: ReferenceCheck,
+	index: ReferenceIndex,
+	git: GitHistory,
+): Promise<void> {
+	for (const ref of check.dead) {
+		if (ref.kind !== "file") continue;
+		const content = await git.lastCommittedContent(ref.text);
+		if (content === null) continue;
+
+		const hash = createHash("sha256").update(content).digest("hex");
+		const matches = index.filesByHash.get(hash) ?? [];
+		if (matches.length === 1) {
+			ref.suggestion = matches[0];
+			ref.reason = "moved (same content)";
+			ref.confidence = "high";
+		}
+	}
+}
+
+// ============================================================================
+// Fixing
+// ============================================================================
+
+/**
+ * Whether `doctor --fix` may apply a reference's suggestion unreviewed
+ */
+export function isAutoFixable(ref: DeadReference): boolean {
+	return ref.suggestion !== undefined && ref.confidence === "high";
+}
+
+/**
+ * Rewrite every occurrence of the dead references with a high-confidence
+ * suggestion. Returns the new content and the number of references replaced.
+ */
+export function applyReferenceFixes(
+	content: string,
+	dead: DeadReference[],
+): { content: string; fixed: number } {
+	const lines = content.split("\n");
+	const edits = dead
+		.filter(isAutoFixable)
+		.flatMap((ref) => ref.occurrences.map((o) => ({ ...o, ref })))
+		// Right to left so earlier columns on the same line stay valid
+		.sort((a, b) => a.line - b.line || b.column - a.column);
+
+	const fixed = new Set<DeadReference>();
+	for (const { line, column, ref } of edits) {
+		const text = lines[line - 1];
+		if (text?.slice(column, column + ref.text.length) !== ref.text) continue;
+		lines[line - 1] =
+			text.slice(0, column) +
+			ref.suggestion +
+			text.slice(column + ref.text.length);
+		fixed.add(ref);
+	}
+
+	return { content: lines.join("\n"), fixed: fixed.size };
+}
+
+// ============================================================================
+// Manifests
+// ============================================================================
+
+type Manifest = Record<string, unknown>;
+
+function readManifest(path: string): Manifest | null {
+	try {
+		return JSON.parse(readFileSync(path, "utf-8")) as Manifest;
+	} catch {
+		return null;
+	}
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+	return value && typeof value === "object" && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: {};
+}
+
+function getWorkspacePatterns(manifest: Manifest | null): string[] {
+	const workspaces = manifest?.workspaces;
+	const patterns = Array.isArray(workspaces)
+		? workspaces
+		: asRecord(workspaces).packages;
+	return Array.isArray(patterns)
+		? patterns.filter((p): p is string => typeof p === "string")
+		: [];
+}
+
+function listDirectories(dirPath: string): string[] {
+	try {
+		return readdirSync(dirPath, { withFileTypes: true })
+			.filter((entry) => entry.isDirectory())
+			.map((entry) => join(dirPath, entry.name));
+	} catch {
+		return [];
+	}
+}
+
+function readMakeTargets(path: string): string[] {
+	if (!existsSync(path)) return [];
+	const targets: string[] = [];
+	for (const match of readFileSync(path, "utf-8").matchAll(
+		/^([\w.-]+)\s*:(?!=)/gm,
+	)) {
+		targets.push(match[1]);
+	}
+	return targets;
+}
+
+function findCommandDefinitions(
+	projectPath: string,
+	files: Set<string>,
+): Set<string> {
+	const commands = new Set<string>();
+	for (const path of files) {
+		let content: string;
+		try {
+			content = readFileSync(join(projectPath, path), "utf-8");
+		} catch {
+			continue;
+		}
+		for (const match of content.matchAll(COMMAND_DEFINITION_PATTERN)) {
+			const name = match[1] ?? match[2] ?? match[3] ?? match[4];
+			if (name) commands.add(name);
+		}
+	}
+	return commands;
+}
@@ -35,6 +35,43 @@ export interface ContextFileDiagnosis {
 	overallScore: number;
 	criteria: CriterionResult[];
 	costOverhead: { tokensPerQuery: number; budgetPercent: number };
+	deadReferences?: DeadReference[]; // Only when the project is indexed
+}
+
+export type ReferenceKind = "file" | "symbol" | "script" | "command";
+
+export interface ContextReference {
+	kind: ReferenceKind;
+	text: string; // Exactly as written, e.g. "src/core/indexer.ts"
+	line: number; // 1-based
+	column: number; // 0-based offset of text within the line
+}
+
+export interface DeadReference {
+	kind: ReferenceKind;
+	text: string;
+	occurrences: Array<{ line: number; column: number }>;
+	suggestion?: string; // Likely replacement
+	reason?: string; // Why the suggestion was made
+	confidence?: "high" | "low"; // Only "high" is applied by `doctor --fix`
+}
+
+export interface ReferenceCheck {
+	checked: number; // Distinct references resolved
+	dead: DeadReference[];
+}
+
+/**
+ * Everything a context file may legitimately refer to
+ */
+export interface ReferenceIndex {
+	projectPath: string;
+	files: Set<string>; // Indexed files (relative paths)
+	filesByHash: Map<string, string[]>; // content hash → indexed files
+	symbols: Set<string>; // Symbol names, plus imported names
+	scripts: Set<string>; // package.json scripts and Makefile targets
+	bins: Set<string>; // CLI names from package.json "bin"
+	commands: Set<string>; // Subcommands of those CLIs found in the source
 }
 
 export interface DoctorResult {
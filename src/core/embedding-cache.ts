@@ -0,0 +1,426 @@
+/**
+ * Global Embedding Cache
+ *
+ * Content-addressed cache of embeddings shared by every project on the
+ * machine (~/.mnemex/embedding-cache.db). Entries are keyed by embedding
+ * model and the hash of the embedded text, so `clear` + `index`, reindexes
+ * with the same model, forks, vendored copies and files shared between
+ * repositories never pay the provider twice for the same text.
+ *
+ * The cache is bounded: beyond the configured size, least recently used
+ * entries are evicted. Hits, misses and the tokens/cost they saved are
+ * counted for `mnemex status` and `mnemex cache`.
+ */
+
+import { createHash } from "node:crypto";
+import { getEmbeddingCacheConfig, getEmbeddingCachePath } from "../config.js";
+import type {
+	EmbedResult,
+	EmbeddingProgressCallback,
+	IEmbeddingsClient,
+} from "../types.js";
+import type { SQLiteDatabase } from "./sqlite.js";
+import { decodeVector, encodeVector, openSharedDatabase } from "./vector-db.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CachedEmbedding {
+	vector: number[];
+	/** Tokens the provider billed for the text when it was embedded */
+	tokens: number;
+	/** Cost in USD of embedding the text */
+	cost: number;
+}
+
+export interface EmbeddingCacheEntry extends CachedEmbedding {
+	text: string;
+}
+
+export interface EmbeddingCacheStats {
+	entries: number;
+	sizeBytes: number;
+	maxSizeBytes: number;
+	hits: number;
+	misses: number;
+	/** hits / (hits + misses), 0 when the cache was never consulted */
+	hitRate: number;
+	tokensSaved: number;
+	costSaved: number;
+	/** Entries per model, largest first */
+	models: Array<{ model: string; entries: number; sizeBytes: number }>;
+}
+
+export interface EmbeddingCachePruneOptions {
+	/** Only remove entries of this model */
+	model?: string;
+	/** Only remove entries not used for this many days */
+	olderThanDays?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rows examined per eviction step */
+const EVICTION_BATCH = 1000;
+
+const COUNTERS = ["hits", "misses", "tokens_saved", "cost_saved"] as const;
+type Counter = (typeof COUNTERS)[number];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Cache key of an embedded text
+ */
+export function hashEmbeddingText(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Cache key of a client's model (the same model id can mean different
+ * weights on different providers)
+ */
+export function getEmbeddingCacheModel(client: IEmbeddingsClient): string {
+	return `${client.getProvider()}:${client.getModel()}`;
+}
+
+// ============================================================================
+// Embedding Cache Class
+// ============================================================================
+
+export class EmbeddingCache {
+	private db: SQLiteDatabase;
+	private maxSizeBytes: number;
+
+	constructor(dbPath: string, maxSizeBytes: number) {
+		this.maxSizeBytes = maxSizeBytes;
+		// Projects index concurrently
+		this.db = openSharedDatabase(dbPath);
+		this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        model TEXT NOT NULL,
+        text_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        bytes INTEGER NOT NULL,
+        tokens INTEGER NOT NULL DEFAULT 0,
+        cost REAL NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        PRIMARY KEY (model, text_hash)
+      );
+
+      CREATE TABLE IF NOT EXISTS counters (
+        name TEXT PRIMARY KEY,
+        value REAL NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_embeddings_last_used ON embeddings(last_used_at);
+    `);
+	}
+
+	/**
+	 * Look up embeddings of texts. Hits are marked as recently used.
+	 *
+	 * @returns One entry per text, undefined on a miss
+	 */
+	lookup(model: string, texts: string[]): Array<CachedEmbedding | undefined> {
+		const select = this.db.prepare(
+			"SELECT vector, tokens, cost FROM embeddings WHERE model = ? AND text_hash = ?",
+		);
+		const touch = this.db.prepare(
+			"UPDATE embeddings SET last_used_at = ? WHERE model = ? AND text_hash = ?",
+		);
+		const now = Date.now();
+
+		return this.db.transaction(() =>
+			texts.map((text) => {
+				const hash = hashEmbeddingText(text);
+				const row = select.get(model, hash) as
+					| { vector: Uint8Array; tokens: number; cost: number }
+					| undefined;
+				if (!row) return undefined;
+
+				touch.run(now, model, hash);
+				return {
+					vector: decodeVector(row.vector),
+					tokens: row.tokens,
+					cost: row.cost,
+				};
+			}),
+		);
+	}
+
+	/**
+	 * Store embeddings. Texts already cached are left as they are.
+	 */
+	store(model: string, entries: EmbeddingCacheEntry[]): void {
+		if (entries.length === 0) return;
+
+		const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO embeddings
+        (model, text_hash, vector, bytes, tokens, cost, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+		const now = Date.now();
+
+		this.db.transaction(() => {
+			for (const { text, vector, tokens, cost } of entries) {
+				if (vector.length === 0) continue;
+				const blob = encodeVector(vector);
+				insert.run(
+					model,
+					hashEmbeddingText(text),
+					blob,
+					blob.byteLength,
+					tokens,
+					cost,
+					now,
+					now,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Add lookup outcomes to the hit-rate and savings counters
+	 */
+	recordUsage(usage: Partial<Record<Counter, number>>): void {
+		const update = this.db.prepare(`
+      INSERT INTO counters (name, value) VALUES (?, ?)
+      ON CONFLICT(name) DO UPDATE SET value = value + excluded.value
+    `);
+		this.db.transaction(() => {
+			for (const name of COUNTERS) {
+				const value = usage[name];
+				if (value) update.run(name, value);
+			}
+		});
+	}
+
+	/**
+	 * Evict least recently used entries until the cache fits the size limit
+	 *
+	 * @returns Entries and bytes evicted
+	 */
+	evict(maxSizeBytes = this.maxSizeBytes): { entries: number; bytes: number } {
+		let excess = this.getSizeBytes() - maxSizeBytes;
+		const evicted = { entries: 0, bytes: 0 };
+		if (excess <= 0) return evicted;
+
+		const oldest = this.db.prepare(
+			"SELECT model, text_hash, bytes FROM embeddings ORDER BY last_used_at ASC LIMIT ?",
+		);
+		const remove = this.db.prepare(
+			"DELETE FROM embeddings WHERE model = ? AND text_hash = ?",
+		);
+
+		while (excess > 0) {
+			const rows = oldest.all(EVICTION_BATCH) as Array<{
+				model: string;
+				text_hash: string;
+				bytes: number;
+			}>;
+			if (rows.length === 0) break;
+
+			this.db.transaction(() => {
+				for (const row of rows) {
+					if (excess <= 0) break;
+					remove.run(row.model, row.text_hash);
+					excess -= row.bytes;
+					evicted.entries++;
+					evicted.bytes += row.bytes;
+				}
+			});
+		}
+
+		return evicted;
+	}
+
+	/**
+	 * Remove entries by model and/or age (all entries without options)
+	 *
+	 * @returns Number of entries removed
+	 */
+	prune(options: EmbeddingCachePruneOptions = {}): number {
+		const conditions: string[] = [];
+		const params: unknown[] = [];
+		if (options.model) {
+			conditions.push("model = ?");
+			params.push(options.model);
+		}
+		if (options.olderThanDays !== undefined) {
+			conditions.push("last_used_at < ?");
+			params.push(Date.now() - options.olderThanDays * DAY_MS);
+		}
+
+		const where =
+			conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+		return this.db.prepare(`DELETE FROM embeddings${where}`).run(...params)
+			.changes;
+	}
+
+	/**
+	 * Remove all entries and reset the counters
+	 */
+	clear(): void {
+		this.db.exec("DELETE FROM embeddings");
+		this.db.exec("DELETE FROM counters");
+	}
+
+	getStats(): EmbeddingCacheStats {
+		const totals = this.db
+			.prepare(
+				"SELECT COUNT(*) as entries, COALESCE(SUM(bytes), 0) as bytes FROM embeddings",
+			)
+			.get() as { entries: number; bytes: number };
+		const models = this.db
+			.prepare(
+				"SELECT model, COUNT(*) as entries, SUM(bytes) as bytes FROM embeddings GROUP BY model ORDER BY entries DESC",
+			)
+			.all() as Array<{ model: string; entries: number; bytes: number }>;
+		const counters = this.db
+			.prepare("SELECT name, value FROM counters")
+			.all() as Array<{ name: Counter; value: number }>;
+
+		const counter = (name: Counter) =>
+			counters.find((c) => c.name === name)?.value ?? 0;
+		const hits = counter("hits");
+		const misses = counter("misses");
+
+		return {
+			entries: totals.entries,
+			sizeBytes: totals.bytes,
+			maxSizeBytes: this.maxSizeBytes,
+			hits,
+			misses,
+			hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+			tokensSaved: counter("tokens_saved"),
+			costSaved: counter("cost_saved"),
+			models: models.map((m) => ({
+				model: m.model,
+				entries: m.entries,
+				sizeBytes: m.bytes,
+			})),
+		};
+	}
+
+	close(): void {
+		this.db.close();
+	}
+
+	private getSizeBytes(): number {
+		const row = this.db
+			.prepare("SELECT COALESCE(SUM(bytes), 0) as bytes FROM embeddings")
+			.get() as { bytes: number };
+		return row.bytes;
+	}
+}
+
+// ============================================================================
+// Caching Wrapper
+// ============================================================================
+
+/**
+ * Wrap an embeddings client so embed() only sends texts the cache does not
+ * know to the provider. Cost and tokens in the result cover the provider
+ * call only; what cached texts would have cost is recorded as savings.
+ * Non-invasive: wraps the public embed() method, like withLatencyTracking.
+ */
+export function withEmbeddingCache(
+	client: IEmbeddingsClient,
+	cache: EmbeddingCache,
+): IEmbeddingsClient {
+	const originalEmbed = client.embed.bind(client);
+	const model = getEmbeddingCacheModel(client);
+
+	client.embed = async (
+		texts: string[],
+		onProgress?: EmbeddingProgressCallback,
+	): Promise<EmbedResult> => {
+		const cached = cache.lookup(model, texts);
+		const missing = texts.filter((_, i) => !cached[i]);
+		const hits = texts.length - missing.length;
+
+		let result: EmbedResult = { embeddings: [] };
+		if (missing.length > 0) {
+			result = await originalEmbed(
+				missing,
+				onProgress &&
+					((completed, total, inProgress) =>
+						onProgress(completed + hits, total + hits, inProgress)),
+			);
+			// Leave mismatches to the caller, which reports them
+			if (result.embeddings.length !== missing.length) {
+				return result;
+			}
+			cache.store(model, attributeUsage(missing, result));
+		} else {
+			onProgress?.(texts.length, texts.length);
+		}
+
+		let saved = { tokens: 0, cost: 0 };
+		for (const entry of cached) {
+			if (!entry) continue;
+			saved = {
+				tokens: saved.tokens + entry.tokens,
+				cost: saved.cost + entry.cost,
+			};
+		}
+		cache.recordUsage({
+			hits,
+			misses: missing.length,
+			tokens_saved: saved.tokens,
+			cost_saved: saved.cost,
+		});
+
+		let next = 0;
+		return {
+			...result,
+			embeddings: cached.map(
+				(entry) => entry?.vector ?? result.embeddings[next++],
+			),
+		};
+	};
+	return client;
+}
+
+/**
+ * Split a batch's billed tokens and cost over its texts by length
+ */
+function attributeUsage(
+	texts: string[],
+	result: EmbedResult,
+): EmbeddingCacheEntry[] {
+	const totalLength = texts.reduce((sum, t) => sum + t.length, 0) || 1;
+	return texts.map((text, i) => {
+		const share = text.length / totalLength;
+		return {
+			text,
+			vector: result.embeddings[i],
+			tokens: Math.round((result.totalTokens ?? 0) * share),
+			cost: (result.cost ?? 0) * share,
+		};
+	});
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Open the global embedding cache
+ *
+ * @returns null when the cache is disabled in the global config
+ */
+export function createEmbeddingCache(): EmbeddingCache | null {
+	const config = getEmbeddingCacheConfig();
+	if (!config.enabled) return null;
+	return new EmbeddingCache(getEmbeddingCachePath(), config.maxSizeMB * MB);
+}
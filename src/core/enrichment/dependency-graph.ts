@@ -37,6 +37,9 @@ const DEFAULT_DEPENDENCIES: Record<DocumentType, DocumentType[]> = {
 	// Project docs are the highest level - depend on summaries and idioms
 	project_doc: ["file_summary", "idiom"],
 
+	// Directory summaries are built bottom-up from file summaries
+	directory_summary: ["file_summary"],
+
 	// External documentation types - no internal dependencies
 	// These come from external sources (Context7, llms.txt, DevDocs)
 	framework_doc: [],
@@ -45,6 +48,9 @@ const DEFAULT_DEPENDENCIES: Record<DocumentType, DocumentType[]> = {
 
 	// Session observations - no dependencies (written directly)
 	session_observation: [],
+
+	// Commits - no dependencies (read from git history)
+	commit: [],
 };
 
 // ============================================================================
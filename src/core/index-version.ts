@@ -5,7 +5,11 @@
  * Maps version numbers to feature sets and provides upgrade detection.
  */
 
-import { loadProjectConfig, saveProjectConfig } from "../config.js";
+import {
+	isContextualChunksEnabled,
+	loadProjectConfig,
+	saveProjectConfig,
+} from "../config.js";
 
 // ============================================================================
 // Version Registry
@@ -149,3 +153,35 @@ export function warnIfOutdated(projectPath: string): void {
 export function checkIndexVersion(projectPath: string): string | null {
 	return getUpgradeMessage(projectPath);
 }
+
+// ============================================================================
+// Embedding Text Mode
+// ============================================================================
+
+/**
+ * What chunk text the vectors were built from:
+ * - raw: the chunk content alone
+ * - contextual: content behind a file/parent/imports/callees header
+ */
+export type EmbeddingTextMode = "raw" | "contextual";
+
+/** Index metadata key recording the mode the stored vectors were built with */
+export const EMBEDDING_TEXT_MODE_KEY = "embeddingTextMode";
+
+/**
+ * The embedding text mode selected by the project config
+ */
+export function getEmbeddingTextMode(projectPath: string): EmbeddingTextMode {
+	return isContextualChunksEnabled(projectPath) ? "contextual" : "raw";
+}
+
+/**
+ * Returns true when stored vectors were built in another mode and the index
+ * must be re-embedded. Indexes that predate the setting were built raw.
+ */
+export function needsReembed(
+	storedMode: string | null,
+	mode: EmbeddingTextMode,
+): boolean {
+	return (storedMode ?? "raw") !== mode;
+}
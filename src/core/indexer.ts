@@ -16,6 +16,7 @@ import {
 	getDocsConfig,
 	getEmbeddingModel,
 	getExcludePatterns,
+	getHistoryConfig,
 	getIndexDbPath,
 	getVectorStorePath,
 	isDocsEnabled,
@@ -30,13 +31,17 @@ import {
 	type Enricher,
 	type FileToEnrich,
 } from "./enrichment/index.js";
-import { getParserManager } from "../parsers/parser-manager.js";
+import {
+	type ParserManager,
+	getProjectParserManager,
+} from "../parsers/parser-manager.js";
 import type {
 	ChunkWithEmbedding,
 	CodeChunk,
 	CodeUnit,
 	CodeUnitWithEmbedding,
 	EnrichedIndexResult,
+	EnrichedSearchResult,
 	EnrichmentResult,
 	IEmbeddingsClient,
 	IndexResult,
@@ -49,10 +54,40 @@ import {
 	createCodeUnitExtractor,
 	type CodeUnitExtractor,
 } from "./ast/code-unit-extractor.js";
-import { setIndexVersion, CURRENT_INDEX_VERSION } from "./index-version.js";
+import {
+	setIndexVersion,
+	CURRENT_INDEX_VERSION,
+	EMBEDDING_TEXT_MODE_KEY,
+	getEmbeddingTextMode,
+	needsReembed,
+} from "./index-version.js";
+import { ChunkContextBuilder } from "./chunk-context.js";
+import {
+	createSharedChunkStore,
+	getBranchOwner,
+	getSharedRowsPath,
+	getSharedTableName,
+	linkSharedRows,
+	type SharedChunkStore,
+} from "./chunk-store.js";
 import { chunkFileByPath } from "./chunker.js";
+import {
+	createEmbeddingCache,
+	type EmbeddingCache,
+	withEmbeddingCache,
+} from "./embedding-cache.js";
 import { createEmbeddingsClient } from "./embeddings.js";
+import {
+	buildSymbolHashes,
+	createObservationManager,
+	type FileChanges,
+	type SymbolHashes,
+} from "./observations.js";
 import { createVectorStore, type IVectorStore } from "./store.js";
+import {
+	createDirectorySummarizer,
+	type DirectorySummarizationResult,
+} from "./summarization/index.js";
 import {
 	computeFileHash,
 	createFileTracker,
@@ -63,6 +98,12 @@ import { createReferenceGraphManager } from "./reference-graph.js";
 import { createRepoMapGenerator } from "./repo-map.js";
 import { createIndexLock, type IIndexLock, type LockOptions } from "./lock.js";
 import { createDocsFetcher, type DocsFetcher } from "../docs/index.js";
+import {
+	detectCheckout,
+	listLocalBranches,
+	type CheckoutInfo,
+} from "../git/checkout.js";
+import { buildCommitDocument, createGitHistory } from "../git/history.js";
 import { computeHash } from "./tracker.js";
 
 // ============================================================================
@@ -178,6 +219,7 @@ export class Indexer {
 	private onWaitingForLock?: (holderPid: number, waitedMs: number) => void;
 
 	private embeddingsClient: IEmbeddingsClient | null = null;
+	private embeddingCache: EmbeddingCache | null = null;
 	private vectorStore: IVectorStore | null = null;
 	private fileTracker: IFileTracker | null = null;
 	private llmClient: ILLMClient | null = null;
@@ -185,11 +227,22 @@ export class Indexer {
 	private indexLock: IIndexLock | null = null;
 	private docsFetcher: DocsFetcher | null = null;
 	private codeUnitExtractor: CodeUnitExtractor | null = null;
+	// Parser manager of this project (built-in + project-defined languages)
+	private parserManager: ParserManager;
 
 	// Smart incremental reindexing: cache of old chunk vectors by contentHash
 	// Used to reuse embeddings for unchanged content, saving API costs
 	private oldChunksCache: Map<string, Map<string, number[]>> = new Map();
 
+	// Branch-aware indexing: code rows shared by all branches and worktrees
+	private checkout: CheckoutInfo | null = null;
+	private chunkStore: SharedChunkStore | null = null;
+	// Whether this run links the vector table to other shared rows than before
+	private sharedRowsRelinked = false;
+
+	// Observation lifecycle: symbol hashes of modified files before this run
+	private oldSymbolHashes: Map<string, SymbolHashes> = new Map();
+
 	constructor(options: IndexerOptions) {
 		this.projectPath = options.projectPath;
 		this.modelExplicitlySet = !!options.model;
@@ -201,6 +254,7 @@ export class Indexer {
 		];
 		// Get config options
 		const projectConfig = loadProjectConfig(options.projectPath);
+		this.parserManager = getProjectParserManager(options.projectPath, true);
 		this.includePatterns =
 			options.includePatterns || projectConfig?.includePatterns || [];
 
@@ -228,11 +282,10 @@ export class Indexer {
 		ensureProjectDir(this.projectPath);
 
 		// Initialize parser manager
-		const parserManager = getParserManager();
-		await parserManager.initialize();
+		await this.parserManager.initialize();
 
 		// Initialize code unit extractor (always available, falls back to file-level unit)
-		this.codeUnitExtractor = createCodeUnitExtractor();
+		this.codeUnitExtractor = createCodeUnitExtractor(this.parserManager);
 
 		// Create file tracker first (to read stored metadata)
 		const indexDbPath = getIndexDbPath(this.projectPath);
@@ -256,10 +309,21 @@ export class Indexer {
 
 			// Create embeddings client with appropriate model
 			this.embeddingsClient = createEmbeddingsClient({ model: modelToUse });
+
+			// Indexing consults the global embedding cache before the provider
+			if (!forSearch) {
+				this.embeddingCache = createEmbeddingCache();
+				if (this.embeddingCache) {
+					withEmbeddingCache(this.embeddingsClient, this.embeddingCache);
+				}
+			}
 		}
 
 		// Create vector store
 		const vectorStorePath = getVectorStorePath(this.projectPath);
+		if (!forSearch) {
+			this.linkSharedRows(vectorStorePath);
+		}
 		this.vectorStore = createVectorStore(vectorStorePath);
 		await this.vectorStore.initialize();
 
@@ -348,6 +412,18 @@ export class Indexer {
 		// Check if embedding model changed - requires full reindex
 		const previousModel = this.fileTracker!.getMetadata("embeddingModel");
 		const modelChanged = previousModel && previousModel !== this.model;
+
+		// Check if contextual chunks were toggled - stored vectors embed other text
+		const embeddingTextMode = getEmbeddingTextMode(this.projectPath);
+		const previousTextMode = this.fileTracker!.getMetadata(
+			EMBEDDING_TEXT_MODE_KEY,
+		);
+		const textModeChanged =
+			!force &&
+			previousModel &&
+			this.vectorEnabled &&
+			needsReembed(previousTextMode, embeddingTextMode);
+
 		if (modelChanged) {
 			console.log(
 				`\n⚠️  Embedding model changed: ${previousModel} → ${this.model}`,
@@ -355,9 +431,45 @@ export class Indexer {
 			console.log("   Clearing old index (vector dimensions may differ)...\n");
 			await this.vectorStore!.clear();
 			this.fileTracker!.clear();
+		} else if (textModeChanged) {
+			console.log(
+				`\n⚠️  Embedding text mode changed: ${previousTextMode ?? "raw"} → ${embeddingTextMode}`,
+			);
+			console.log("   Re-embedding all chunks...\n");
+		}
+		if (modelChanged || textModeChanged) {
 			force = true; // Treat as force reindex
 		}
 
+		// Code rows indexed under another link are out of the vector table's reach
+		if (
+			this.sharedRowsRelinked &&
+			!force &&
+			this.fileTracker!.getAllFiles().length > 0
+		) {
+			console.log("\n📦 Moving code rows to the repository's shared store...");
+			console.log("   Re-indexing all files...\n");
+			force = true;
+		}
+
+		// Branch-aware indexing: a branch switch shows up as modified files,
+		// which adopt the shared rows of versions indexed on any branch
+		const checkout = this.checkout;
+		if (checkout && this.vectorEnabled) {
+			this.chunkStore = createSharedChunkStore(checkout);
+		}
+		const previousBranch = this.fileTracker!.getMetadata(
+			Indexer.ACTIVE_BRANCH_KEY,
+		);
+		if (checkout && previousBranch && previousBranch !== checkout.branch) {
+			console.log(
+				`\n🔀 Branch changed: ${previousBranch} → ${checkout.branch}`,
+			);
+			console.log(
+				"   Reusing code rows of files indexed on other branches...\n",
+			);
+		}
+
 		// Discover files
 		const allFiles = this.discoverFiles();
 
@@ -415,6 +527,7 @@ export class Indexer {
 						}
 					}
 					this.oldChunksCache.set(modifiedFile, oldChunksMap);
+					this.oldSymbolHashes.set(modifiedFile, buildSymbolHashes(oldChunks));
 				}
 				// Now delete old data (use absolute path to match stored chunks)
 				await this.vectorStore!.deleteByFile(modifiedFile);
@@ -422,6 +535,22 @@ export class Indexer {
 			}
 		}
 
+		// Contextual chunks are built from this run's symbol graph, so extract
+		// it before embedding instead of after
+		let contextBuilder: ChunkContextBuilder | null = null;
+		if (
+			embeddingTextMode === "contextual" &&
+			this.vectorEnabled &&
+			filesToIndex.length > 0
+		) {
+			await this.extractSymbolGraph(filesToIndex, force);
+			contextBuilder = new ChunkContextBuilder(
+				this.fileTracker!,
+				this.projectPath,
+				allFiles.map((file) => relative(this.projectPath, file)),
+			);
+		}
+
 		// Process files in batches to limit memory usage
 		// Each batch: parse → embed → store → release memory
 		const skippedFiles: string[] = [];
@@ -462,6 +591,10 @@ export class Indexer {
 				filePath: string;
 				fileHash: string;
 			}> = [];
+			// Contextual embedding text by chunk id (stored content stays raw)
+			const embeddingTexts = new Map<string, string>();
+			// Shared rows of file versions indexed before, by file
+			const adoptedChunks = await this.adoptSharedChunks(batchFiles);
 
 			for (let i = 0; i < batchFiles.length; i++) {
 				const filePath = batchFiles[i];
@@ -483,10 +616,19 @@ export class Indexer {
 					);
 				}
 
+				if (adoptedChunks.has(filePath)) {
+					continue;
+				}
+
 				try {
 					const content = readFileSync(filePath, "utf-8");
 					const fileHash = computeFileHash(filePath);
-					const chunks = await chunkFileByPath(content, filePath, fileHash);
+					const chunks = await chunkFileByPath(
+						content,
+						filePath,
+						fileHash,
+						this.parserManager,
+					);
 
 					if (chunks.length === 0) {
 						skippedFiles.push(relativePath);
@@ -494,6 +636,12 @@ export class Indexer {
 						for (const chunk of chunks) {
 							batchChunks.push({ chunk, filePath, fileHash });
 						}
+						if (contextBuilder) {
+							const texts = contextBuilder.buildTexts(relativePath, chunks);
+							for (const [chunkId, text] of texts) {
+								embeddingTexts.set(chunkId, text);
+							}
+						}
 					}
 				} catch (error) {
 					const errorMsg =
@@ -503,7 +651,7 @@ export class Indexer {
 			}
 
 			// Skip embedding/storing if no chunks in this batch
-			if (batchChunks.length === 0) {
+			if (batchChunks.length === 0 && adoptedChunks.size === 0) {
 				continue;
 			}
 
@@ -582,7 +730,9 @@ export class Indexer {
 				}> = [];
 
 				if (chunksNeedingEmbedding.length > 0) {
-					const texts = chunksNeedingEmbedding.map((c) => c.chunk.content);
+					const texts = chunksNeedingEmbedding.map(
+						(c) => embeddingTexts.get(c.chunk.id) ?? c.chunk.content,
+					);
 					let embedResult: {
 						embeddings: number[][];
 						cost?: number;
@@ -690,7 +840,7 @@ export class Indexer {
 					if (filesProcessedForUnits.has(filePath)) continue;
 					filesProcessedForUnits.add(filePath);
 
-					const language = getParserManager().getLanguage(
+					const language = this.parserManager.getLanguage(
 						filePath,
 					) as SupportedLanguage;
 					if (!language) continue;
@@ -798,11 +948,27 @@ export class Indexer {
 			}
 
 			// Phase 4: Update file tracker for this batch (only for successfully stored chunks)
+			// Adopted files join the view with their shared rows
+			const indexedChunks: Array<{
+				chunk: CodeChunk;
+				filePath: string;
+				fileHash: string;
+			}> = [...validChunks];
+			for (const chunks of adoptedChunks.values()) {
+				for (const chunk of chunks) {
+					indexedChunks.push({
+						chunk,
+						filePath: chunk.filePath,
+						fileHash: chunk.fileHash,
+					});
+				}
+			}
+
 			const fileChunkMap = new Map<
 				string,
 				{ fileHash: string; chunkIds: string[] }
 			>();
-			for (const { chunk, filePath, fileHash } of validChunks) {
+			for (const { chunk, filePath, fileHash } of indexedChunks) {
 				if (!fileChunkMap.has(filePath)) {
 					fileChunkMap.set(filePath, { fileHash, chunkIds: [] });
 				}
@@ -814,7 +980,7 @@ export class Indexer {
 			}
 
 			totalFilesIndexed += fileChunkMap.size;
-			totalChunksCreated += chunksWithEmbeddings.length;
+			totalChunksCreated += indexedChunks.length;
 
 			// Collect files for enrichment
 			if (this.enableEnrichment && this.enricher) {
@@ -824,7 +990,7 @@ export class Indexer {
 					{ content: string; chunks: CodeChunk[]; language: string }
 				>();
 
-				for (const { chunk, filePath } of validChunks) {
+				for (const { chunk, filePath } of indexedChunks) {
 					if (!fileChunksMap.has(filePath)) {
 						const content = readFileSync(filePath, "utf-8");
 						fileChunksMap.set(filePath, {
@@ -869,7 +1035,12 @@ export class Indexer {
 				try {
 					const content = readFileSync(absPath, "utf-8");
 					const fileHash = computeFileHash(absPath);
-					const chunks = await chunkFileByPath(content, absPath, fileHash);
+					const chunks = await chunkFileByPath(
+						content,
+						absPath,
+						fileHash,
+						this.parserManager,
+					);
 					if (chunks.length === 0) continue;
 
 					fileChunksForEnrichment.push({
@@ -922,7 +1093,8 @@ export class Indexer {
 		};
 
 		const runASTExtraction = async (): Promise<void> => {
-			if (filesToIndex.length > 0) {
+			// Already extracted up front for contextual chunks
+			if (filesToIndex.length > 0 && !contextBuilder) {
 				await this.extractSymbolGraph(filesToIndex, force);
 			}
 		};
@@ -942,6 +1114,22 @@ export class Indexer {
 			totalCost += enrichmentResult.cost;
 		}
 
+		// Phase 5.5: Directory, package and workspace summaries
+		// Rebuilt from file summaries; unchanged directories are skipped
+		if (this.enableEnrichment && this.enricher) {
+			try {
+				const directoryResult = await this.summarizeDirectories();
+				if (directoryResult.cost) {
+					totalCost += directoryResult.cost;
+				}
+			} catch (error) {
+				console.warn(
+					"⚠️  Directory summaries failed:",
+					error instanceof Error ? error.message : error,
+				);
+			}
+		}
+
 		// Phase 6: Fetch external documentation for dependencies
 		// Only run if manifest files changed (or force reindex), to avoid unnecessary network calls
 		if (this.docsFetcher?.isEnabled() && manifestFilesChanged) {
@@ -958,12 +1146,52 @@ export class Indexer {
 			}
 		}
 
+		// Phase 7: Index git history (commit messages and diffs)
+		if (this.embeddingsClient && getHistoryConfig(this.projectPath).enabled) {
+			try {
+				const historyResult = await this.indexGitHistory();
+				if (historyResult.cost) {
+					totalCost += historyResult.cost;
+				}
+			} catch (error) {
+				console.warn(
+					"⚠️  Git history indexing failed:",
+					error instanceof Error ? error.message : error,
+				);
+			}
+		}
+
+		// Flag observations about files and symbols that changed
+		try {
+			const flagged = await this.reviewObservations(deletedFiles);
+			if (flagged > 0) {
+				console.log(
+					`\n🔎 ${flagged} observation(s) need review (mnemex observations review)`,
+				);
+			}
+		} catch (error) {
+			console.warn(
+				"⚠️  Observation review failed:",
+				error instanceof Error ? error.message : error,
+			);
+		}
+
+		// Record the branch's file set and release rows no branch uses
+		if (checkout) {
+			await this.recordBranchState(checkout);
+		}
+
 		// Save metadata
 		this.fileTracker!.setMetadata("embeddingModel", this.model);
+		this.fileTracker!.setMetadata(EMBEDDING_TEXT_MODE_KEY, embeddingTextMode);
 		this.fileTracker!.setMetadata("lastIndexed", new Date().toISOString());
 
 		// Clean up: Release cached old chunks to free memory
 		this.oldChunksCache.clear();
+		this.oldSymbolHashes.clear();
+
+		// Keep the global embedding cache within its size limit
+		this.embeddingCache?.evict();
 
 		const durationMs = Date.now() - startTime;
 
@@ -1027,6 +1255,27 @@ export class Indexer {
 		return results;
 	}
 
+	/**
+	 * Search indexed commits (messages and diffs).
+	 * Returns nothing when vector embeddings are disabled, since commit
+	 * history is only indexed in vector mode.
+	 */
+	async searchHistory(
+		query: string,
+		limit = 10,
+	): Promise<EnrichedSearchResult[]> {
+		await this.initialize(true);
+		if (!this.embeddingsClient || !this.vectorStore) {
+			return [];
+		}
+
+		const queryVector = await this.embeddingsClient.embedOne(query);
+		return this.vectorStore.searchDocuments(query, queryVector, {
+			documentTypes: ["commit"],
+			limit,
+		});
+	}
+
 	/**
 	 * Get index status
 	 */
@@ -1050,6 +1299,8 @@ export class Indexer {
 
 		const embeddingModel = this.fileTracker!.getMetadata("embeddingModel");
 		const lastIndexed = this.fileTracker!.getMetadata("lastIndexed");
+		const branch = this.fileTracker!.getMetadata(Indexer.ACTIVE_BRANCH_KEY);
+		const branchStates = this.fileTracker!.getBranchStates();
 
 		return {
 			exists: true,
@@ -1058,6 +1309,9 @@ export class Indexer {
 			lastUpdated: lastIndexed ? new Date(lastIndexed) : undefined,
 			embeddingModel: embeddingModel || undefined,
 			languages: storeStats.languages,
+			branch: branch || undefined,
+			indexedBranches:
+				branchStates.length > 0 ? branchStates.map((b) => b.branch) : undefined,
 		};
 	}
 
@@ -1116,8 +1370,9 @@ export class Indexer {
 	 */
 	private discoverFiles(): string[] {
 		const files: string[] = [];
-		const parserManager = getParserManager();
-		const supportedExtensions = new Set(parserManager.getSupportedExtensions());
+		const supportedExtensions = new Set(
+			this.parserManager.getSupportedExtensions(),
+		);
 
 		const walk = (dir: string) => {
 			const entries = readdirSync(dir, { withFileTypes: true });
@@ -1169,9 +1424,12 @@ export class Indexer {
 		filesToIndex: string[],
 		force: boolean,
 	): Promise<void> {
-		const symbolExtractor = createSymbolExtractor();
-		const graphManager = createReferenceGraphManager(this.fileTracker!);
-		const parserManager = getParserManager();
+		const symbolExtractor = createSymbolExtractor(this.parserManager);
+		const graphManager = createReferenceGraphManager(
+			this.fileTracker!,
+			this.projectPath,
+		);
+		const parserManager = this.parserManager;
 
 		// Delete old symbols/references for files being re-indexed
 		if (!force) {
@@ -1210,6 +1468,14 @@ export class Indexer {
 					language as SupportedLanguage,
 				);
 
+				// Extract imports (used to bind references to the right module)
+				const imports = await symbolExtractor.extractImports(
+					content,
+					relativePath,
+					language as SupportedLanguage,
+				);
+				this.fileTracker!.insertImports(imports);
+
 				if (symbols.length > 0) {
 					this.fileTracker!.insertSymbols(symbols);
 
@@ -1277,6 +1543,257 @@ export class Indexer {
 		}
 	}
 
+	/** Tracker metadata key: branch the index currently reflects */
+	private static readonly ACTIVE_BRANCH_KEY = "activeBranch";
+
+	/**
+	 * Point the vector table at the shared rows of the checkout and the
+	 * embedding model (or at none without a git checkout or vectors)
+	 */
+	private linkSharedRows(vectorStorePath: string): void {
+		this.checkout = detectCheckout(this.projectPath);
+		const checkout = this.checkout;
+		// Contextual chunks embed other text than raw chunks
+		const vectorModel =
+			getEmbeddingTextMode(this.projectPath) === "contextual"
+				? `${this.model}#contextual`
+				: this.model;
+
+		this.sharedRowsRelinked = linkSharedRows(
+			vectorStorePath,
+			checkout && this.vectorEnabled
+				? {
+						dbPath: getSharedRowsPath(checkout),
+						tableName: getSharedTableName(vectorModel),
+						root: checkout.root,
+					}
+				: null,
+		);
+	}
+
+	/**
+	 * Code chunks of the files' current versions in the shared rows, indexed
+	 * before on any branch or worktree, by file (empty without a store)
+	 */
+	private async adoptSharedChunks(
+		files: string[],
+	): Promise<Map<string, ChunkWithEmbedding[]>> {
+		const adopted = new Map<string, ChunkWithEmbedding[]>();
+		if (!this.chunkStore) return adopted;
+
+		const fileHashes = new Map<string, string>();
+		for (const filePath of files) {
+			try {
+				fileHashes.set(filePath, computeFileHash(filePath));
+			} catch {
+				// Reported when the file is chunked
+			}
+		}
+
+		for (const chunk of await this.vectorStore!.getSharedChunks(fileHashes)) {
+			const chunks = adopted.get(chunk.filePath) ?? [];
+			chunks.push(chunk);
+			adopted.set(chunk.filePath, chunks);
+		}
+		return adopted;
+	}
+
+	/**
+	 * Flag observations whose affected files or symbols changed in this run
+	 *
+	 * @param deletedFiles Absolute paths of files removed from the index
+	 * @returns Number of observations flagged for review
+	 */
+	private async reviewObservations(deletedFiles: string[]): Promise<number> {
+		const store = this.vectorStore;
+		if (
+			!store ||
+			(this.oldSymbolHashes.size === 0 && deletedFiles.length === 0)
+		) {
+			return 0;
+		}
+
+		const manager = createObservationManager(store);
+		const observations = await manager.list();
+		const observedFiles = new Set(
+			observations.flatMap((o) => o.metadata.affectedFiles),
+		);
+		if (observedFiles.size === 0) {
+			return 0;
+		}
+
+		// Only files some observation is about need their new symbols hashed
+		const changes: FileChanges = {
+			modified: new Map(),
+			deleted: new Set(
+				deletedFiles
+					.map((file) => relative(this.projectPath, file))
+					.filter((file) => observedFiles.has(file)),
+			),
+		};
+		for (const [file, before] of this.oldSymbolHashes) {
+			const relativePath = relative(this.projectPath, file);
+			if (!observedFiles.has(relativePath)) continue;
+
+			const chunks = await store.getChunksWithVectors(file);
+			changes.modified.set(relativePath, {
+				before,
+				after: buildSymbolHashes(chunks),
+			});
+		}
+
+		return manager.flagStale(changes, observations);
+	}
+
+	/**
+	 * Record the indexed file set of the checked-out branch, mark its file
+	 * versions as referenced in the shared chunk store, and drop branches
+	 * that no longer exist. Shared rows no branch references anymore are
+	 * pruned; the worktree's own vector table is not affected.
+	 */
+	private async recordBranchState(checkout: CheckoutInfo): Promise<void> {
+		const tracker = this.fileTracker!;
+		tracker.saveBranchState(checkout.branch, checkout.head);
+		tracker.setMetadata(Indexer.ACTIVE_BRANCH_KEY, checkout.branch);
+
+		const liveBranches = new Set(listLocalBranches(this.projectPath));
+		for (const state of tracker.getBranchStates()) {
+			if (state.branch !== checkout.branch && !liveBranches.has(state.branch)) {
+				tracker.deleteBranchState(state.branch);
+			}
+		}
+
+		if (!this.chunkStore) return;
+
+		const owner = getBranchOwner(checkout);
+		this.chunkStore.setRefs(owner, [
+			...new Set(tracker.getBranchFiles(checkout.branch).values()),
+		]);
+		// Owners are "<worktree>:<branch>"; branches are shared by all worktrees
+		for (const other of this.chunkStore.getOwners()) {
+			const branch = other.slice(other.indexOf(":") + 1);
+			if (other !== owner && !liveBranches.has(branch)) {
+				this.chunkStore.dropOwner(other);
+			}
+		}
+		await this.chunkStore.prune();
+	}
+
+	/**
+	 * Refresh directory summaries for the indexed files. Only directories
+	 * whose descendants' summaries changed are sent to the LLM.
+	 */
+	private async summarizeDirectories(): Promise<DirectorySummarizationResult> {
+		const summarizer = createDirectorySummarizer(
+			this.llmClient!,
+			this.embeddingsClient!,
+			this.vectorStore!,
+			this.projectPath,
+		);
+
+		return summarizer.summarize(
+			this.fileTracker!.getAllFiles().map((file) => file.path),
+			{
+				concurrency: this.enrichmentConcurrency,
+				onProgress: (completed, total, status) => {
+					if (this.onProgress) {
+						this.onProgress(
+							completed,
+							total,
+							`[directory summaries] ${completed}/${total} ${status}`,
+						);
+					}
+				},
+			},
+		);
+	}
+
+	/** Tracker metadata key: HEAD commit at the last history indexing */
+	private static readonly HISTORY_HEAD_KEY = "historyHead";
+
+	/**
+	 * Keep "commit" documents in step with the history of HEAD, by commit:
+	 * the latest commits (up to maxCommits) that have no document yet are
+	 * embedded, and documents of commits no longer reachable from HEAD
+	 * (rebased away, other branch) are deleted. A branch switch or rebase
+	 * thus only embeds the commits that are new to the index.
+	 */
+	private async indexGitHistory(): Promise<{
+		commitsIndexed: number;
+		cost?: number;
+	}> {
+		if (!this.embeddingsClient || !this.vectorStore || !this.fileTracker) {
+			return { commitsIndexed: 0 };
+		}
+
+		const history = createGitHistory(this.projectPath);
+		if (!(await history.isAvailable())) {
+			return { commitsIndexed: 0 };
+		}
+
+		const head = await history.getHead();
+		const indexedHead = this.fileTracker.getMetadata(Indexer.HISTORY_HEAD_KEY);
+		if (indexedHead === head) {
+			return { commitsIndexed: 0 };
+		}
+
+		const { maxCommits } = getHistoryConfig(this.projectPath);
+		const latest = await history.log({ maxCount: maxCommits });
+		const latestHashes = new Set(latest.map((commit) => commit.hash));
+
+		// Indexed commits, by hash → document id
+		const indexed = new Map<string, string>();
+		for (const doc of await this.vectorStore.getDocumentsByType("commit")) {
+			const hash = doc.metadata?.hash;
+			if (typeof hash === "string") {
+				indexed.set(hash, doc.id);
+			}
+		}
+
+		// Commits older than the latest ones stay while still reachable
+		const unreachable: string[] = [];
+		for (const [hash, id] of indexed) {
+			if (!latestHashes.has(hash) && !(await history.isAncestor(hash, head))) {
+				unreachable.push(id);
+			}
+		}
+		if (unreachable.length > 0) {
+			await this.vectorStore.deleteByIds(unreachable);
+		}
+
+		const commits = latest.filter((commit) => !indexed.has(commit.hash));
+
+		const documents = [];
+		for (let i = 0; i < commits.length; i++) {
+			if (this.onProgress) {
+				this.onProgress(
+					i + 1,
+					commits.length,
+					`[history] ${i + 1}/${commits.length} ${commits[i].subject}`,
+				);
+			}
+			const diff = await history.diff(commits[i].hash);
+			documents.push(buildCommitDocument(commits[i], diff));
+		}
+
+		let cost: number | undefined;
+		if (documents.length > 0) {
+			const embedResult = await this.embeddingsClient.embed(
+				documents.map((doc) => doc.content),
+			);
+			cost = embedResult.cost;
+			await this.vectorStore.addDocuments(
+				documents.map((doc, idx) => ({
+					...doc,
+					vector: embedResult.embeddings[idx],
+				})),
+			);
+		}
+
+		this.fileTracker.setMetadata(Indexer.HISTORY_HEAD_KEY, head);
+		return { commitsIndexed: documents.length, cost };
+	}
+
 	/**
 	 * Fetch external documentation for project dependencies
 	 * Phase 6 of the indexing pipeline
@@ -1454,6 +1971,14 @@ export class Indexer {
 		if (this.vectorStore) {
 			await this.vectorStore.close();
 		}
+		if (this.chunkStore) {
+			this.chunkStore.close();
+			this.chunkStore = null;
+		}
+		if (this.embeddingCache) {
+			this.embeddingCache.close();
+			this.embeddingCache = null;
+		}
 		if (this.fileTracker) {
 			this.fileTracker.close();
 		}
@@ -0,0 +1,705 @@
+/**
+ * Embedding Model Migration
+ *
+ * Moves a project index to another embedding model without downtime:
+ *
+ * 1. Build: re-embed every row of the active vector table into a shadow
+ *    table (vectors-<model>). Searches keep using the active table. In git
+ *    checkouts, code rows go to the repository's shared rows of the model.
+ * 2. Compare: run the benchmark queries (from `mnemex benchmark-llm`)
+ *    against both tables and score hit@K and MRR.
+ * 3. Swap: catch the shadow table up with rows indexed meanwhile, then
+ *    point vectors.json at it. The rename of the pointer file is atomic, so
+ *    readers see either the old or the new table.
+ * 4. Rollback: the replaced table is kept and can be swapped back, after
+ *    the same catch-up as a swap.
+ */
+
+import { existsSync, rmSync } from "node:fs";
+import { join, relative } from "node:path";
+import { BenchmarkDatabase } from "../benchmark-v2/storage/benchmark-db.js";
+import {
+	ENV,
+	VECTORS_DIR,
+	getIndexDbPath,
+	getIndexDir,
+	loadVectorTables,
+	saveProjectConfig,
+	saveVectorTables,
+} from "../config.js";
+import type {
+	ChunkType,
+	CodeChunk,
+	IEmbeddingsClient,
+	VectorTablesState,
+} from "../types.js";
+import { ChunkContextBuilder } from "./chunk-context.js";
+import {
+	getSharedTableName,
+	linkSharedRows,
+	readSharedRowsLink,
+} from "./chunk-store.js";
+import { createEmbeddingCache, withEmbeddingCache } from "./embedding-cache.js";
+import { createEmbeddingsClient } from "./embeddings.js";
+import {
+	EMBEDDING_TEXT_MODE_KEY,
+	getEmbeddingTextMode,
+} from "./index-version.js";
+import {
+	type IVectorStore,
+	type VectorRecord,
+	createVectorStore,
+} from "./store.js";
+import { type IFileTracker, createFileTracker } from "./tracker.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A benchmark query and the code it should retrieve */
+export interface RetrievalQuery {
+	query: string;
+	/** Target file, relative to project root */
+	filePath: string;
+	startLine: number;
+	endLine: number;
+}
+
+/** Where a search result points */
+export interface RetrievedLocation {
+	filePath: string;
+	startLine: number;
+	endLine: number;
+}
+
+export interface RetrievalScore {
+	queries: number;
+	/** Share of queries with the target in the top K results */
+	hitRate: number;
+	/** Mean reciprocal rank of the target (0 when not in the top K) */
+	mrr: number;
+}
+
+export interface ModelComparison {
+	/** Results per query considered */
+	k: number;
+	active: RetrievalScore & { model: string };
+	shadow: RetrievalScore & { model: string };
+}
+
+export interface SyncResult {
+	/** Rows (re-)embedded with the new model */
+	embedded: number;
+	/** Rows deleted because they left the active table */
+	deleted: number;
+	/** Rows in the shadow table afterwards */
+	total: number;
+}
+
+export interface MigrationOptions {
+	/** Progress messages for the CLI */
+	onProgress?: (message: string) => void;
+	/**
+	 * Embeddings client of a model (default: the configured provider, backed
+	 * by the global embedding cache)
+	 */
+	createEmbeddingsClient?: (model: string) => IEmbeddingsClient;
+}
+
+/**
+ * Error thrown when a migration step cannot run in the current state
+ */
+export class ModelMigrationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ModelMigrationError";
+	}
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Rows embedded per request (bounds memory on large indexes) */
+const EMBED_BATCH_SIZE = 256;
+
+/** Results per query scored by the comparison */
+export const COMPARISON_TOP_K = 10;
+
+/** The new model may score this much MRR below the old one and still swap */
+export const DEFAULT_MRR_TOLERANCE = 0.01;
+
+// ============================================================================
+// Vector Tables
+// ============================================================================
+
+/**
+ * Directory name of the shadow table for a model
+ */
+export function getShadowTableDir(model: string): string {
+	const slug = model
+		.toLowerCase()
+		.replace(/[^a-z0-9.-]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+	return `vectors-${slug}`;
+}
+
+/**
+ * Current vector tables; projects that never migrated use "vectors" with
+ * the model recorded by the last index run
+ */
+export function getVectorTables(projectPath: string): VectorTablesState | null {
+	const state = loadVectorTables(projectPath);
+	if (state) {
+		return state;
+	}
+
+	const model = withTracker(projectPath, (tracker) =>
+		tracker.getMetadata("embeddingModel"),
+	);
+	return model ? { active: { dir: VECTORS_DIR, model } } : null;
+}
+
+function openTable(projectPath: string, dir: string): IVectorStore {
+	return createVectorStore(join(getIndexDir(projectPath), dir), projectPath);
+}
+
+/**
+ * Link a shadow table to the repository's shared rows of its model when the
+ * active table is linked, so its code rows are shared between worktrees too
+ */
+function linkShadowTable(
+	projectPath: string,
+	activeDir: string,
+	dir: string,
+	model: string,
+): void {
+	const indexDir = getIndexDir(projectPath);
+	const link = readSharedRowsLink(join(indexDir, activeDir));
+	const vectorModel =
+		getEmbeddingTextMode(projectPath) === "contextual"
+			? `${model}#contextual`
+			: model;
+	linkSharedRows(
+		join(indexDir, dir),
+		link ? { ...link, tableName: getSharedTableName(vectorModel) } : null,
+	);
+}
+
+function withTracker<T>(
+	projectPath: string,
+	fn: (tracker: IFileTracker) => T,
+): T | null {
+	const indexDbPath = getIndexDbPath(projectPath);
+	if (!existsSync(indexDbPath)) {
+		return null;
+	}
+
+	const tracker = createFileTracker(indexDbPath, projectPath);
+	try {
+		return fn(tracker);
+	} finally {
+		tracker.close();
+	}
+}
+
+/**
+ * Record the model searches and the next index run should use
+ */
+function recordActiveModel(projectPath: string, model: string): void {
+	withTracker(projectPath, (tracker) =>
+		tracker.setMetadata("embeddingModel", model),
+	);
+	saveProjectConfig(projectPath, { embeddingModel: model });
+}
+
+// ============================================================================
+// Build and Sync
+// ============================================================================
+
+/**
+ * Build a shadow table for a new embedding model from the active table.
+ * Any earlier shadow table is discarded.
+ */
+export async function buildShadowTable(
+	projectPath: string,
+	model: string,
+	options: MigrationOptions = {},
+): Promise<SyncResult> {
+	const state = getVectorTables(projectPath);
+	if (!state) {
+		throw new ModelMigrationError(
+			"No index found. Run 'mnemex index' before migrating the model.",
+		);
+	}
+	if (state.active.model === model) {
+		throw new ModelMigrationError(`The index already uses ${model}.`);
+	}
+
+	const dir = getShadowTableDir(model);
+	if (dir === state.active.dir) {
+		throw new ModelMigrationError(
+			`Shadow table ${dir} would replace the active table.`,
+		);
+	}
+
+	// A fresh build; this also reclaims the rollback table if it held the model
+	rmSync(join(getIndexDir(projectPath), dir), { recursive: true, force: true });
+	const previous = state.previous?.dir === dir ? undefined : state.previous;
+	linkShadowTable(projectPath, state.active.dir, dir, model);
+
+	const result = await syncShadowTable(projectPath, state, dir, model, options);
+
+	saveVectorTables(projectPath, {
+		active: state.active,
+		previous,
+		shadow: {
+			dir,
+			model,
+			builtAt: new Date().toISOString(),
+			records: result.total,
+		},
+	});
+	return result;
+}
+
+/**
+ * Bring a shadow table up to date with the active table: embed rows that
+ * are new or changed and delete rows that are gone
+ */
+async function syncShadowTable(
+	projectPath: string,
+	state: VectorTablesState,
+	dir: string,
+	model: string,
+	options: MigrationOptions,
+): Promise<SyncResult> {
+	const activeStore = openTable(projectPath, state.active.dir);
+	const shadowStore = openTable(projectPath, dir);
+
+	try {
+		// Ids and content only: the vectors of a whole table can exceed memory
+		const activeContent = await activeStore.getRecordContents();
+		const shadowContent = await shadowStore.getRecordContents();
+
+		const pending = [...activeContent]
+			.filter(([id, content]) => shadowContent.get(id) !== content)
+			.map(([id]) => id);
+		const stale = [...shadowContent.keys()].filter(
+			(id) => !activeContent.has(id),
+		);
+
+		// Changed rows are replaced, not updated
+		await shadowStore.deleteByIds([
+			...stale,
+			...pending.filter((id) => shadowContent.has(id)),
+		]);
+
+		const embedded =
+			pending.length > 0
+				? await embedRecords(
+						projectPath,
+						model,
+						pending,
+						activeStore,
+						shadowStore,
+						options,
+					)
+				: 0;
+
+		return {
+			embedded,
+			deleted: stale.length,
+			total: activeContent.size,
+		};
+	} finally {
+		await activeStore.close();
+		await shadowStore.close();
+	}
+}
+
+/**
+ * Copy rows from one table to another, page by page, with vectors of the
+ * given model
+ *
+ * @returns Rows written. Rows deleted meanwhile or left without a vector are
+ * skipped; the next sync retries them.
+ */
+async function embedRecords(
+	projectPath: string,
+	model: string,
+	ids: string[],
+	source: IVectorStore,
+	target: IVectorStore,
+	options: MigrationOptions,
+): Promise<number> {
+	const { onProgress } = options;
+	const cache = options.createEmbeddingsClient ? null : createEmbeddingCache();
+	const client =
+		options.createEmbeddingsClient?.(model) ??
+		createEmbeddingsClient({ model });
+	const cachedClient = cache ? withEmbeddingCache(client, cache) : client;
+	const texts = createEmbeddingTextBuilder(projectPath);
+	let written = 0;
+
+	try {
+		for (let i = 0; i < ids.length; i += EMBED_BATCH_SIZE) {
+			const batch = await source.getRecordsByIds(
+				ids.slice(i, i + EMBED_BATCH_SIZE),
+			);
+			onProgress?.(
+				`Embedding ${Math.min(i + EMBED_BATCH_SIZE, ids.length)}/${ids.length} rows with ${model}`,
+			);
+			if (batch.length === 0) continue;
+
+			const batchTexts = texts.build(batch);
+			const { embeddings } = await cachedClient.embed(
+				batch.map((r) => batchTexts.get(r.id) ?? r.content),
+			);
+			if (embeddings.length !== batch.length) {
+				throw new ModelMigrationError(
+					`Embedding count mismatch: expected ${batch.length}, got ${embeddings.length}`,
+				);
+			}
+
+			const records = batch
+				.map((r, idx) => ({ ...r, vector: embeddings[idx] ?? [] }))
+				.filter((r) => r.vector.length > 0);
+			await target.addRecords(records);
+			written += records.length;
+		}
+		return written;
+	} finally {
+		texts.close();
+		cache?.close();
+	}
+}
+
+interface EmbeddingTextBuilder {
+	/** Embedding text keyed by row id; rows not in the map embed their content */
+	build(records: VectorRecord[]): Map<string, string>;
+	close(): void;
+}
+
+/**
+ * Embedding text of code chunks in contextual mode. Other rows embed their
+ * content as stored.
+ */
+function createEmbeddingTextBuilder(projectPath: string): EmbeddingTextBuilder {
+	const indexDbPath = getIndexDbPath(projectPath);
+	const tracker = existsSync(indexDbPath)
+		? createFileTracker(indexDbPath, projectPath)
+		: null;
+	const builder =
+		tracker?.getMetadata(EMBEDDING_TEXT_MODE_KEY) === "contextual"
+			? new ChunkContextBuilder(
+					tracker,
+					projectPath,
+					tracker.getAllFiles().map((f) => relative(projectPath, f.path)),
+				)
+			: null;
+
+	return {
+		build(records) {
+			const texts = new Map<string, string>();
+			if (!builder) {
+				return texts;
+			}
+
+			const chunksByFile = new Map<string, CodeChunk[]>();
+			for (const record of records) {
+				if ((record.documentType || "code_chunk") !== "code_chunk") continue;
+				const filePath = relative(projectPath, record.filePath);
+				const chunks = chunksByFile.get(filePath) ?? [];
+				chunks.push(toCodeChunk(record));
+				chunksByFile.set(filePath, chunks);
+			}
+			for (const [filePath, chunks] of chunksByFile) {
+				for (const [id, text] of builder.buildTexts(filePath, chunks)) {
+					texts.set(id, text);
+				}
+			}
+			return texts;
+		},
+		close() {
+			tracker?.close();
+		},
+	};
+}
+
+function toCodeChunk(record: VectorRecord): CodeChunk {
+	return {
+		id: record.id,
+		contentHash: record.contentHash,
+		content: record.content,
+		filePath: record.filePath,
+		startLine: record.startLine,
+		endLine: record.endLine,
+		language: record.language,
+		chunkType: record.chunkType as ChunkType,
+		name: record.name || undefined,
+		parentName: record.parentName || undefined,
+		signature: record.signature || undefined,
+		fileHash: record.fileHash,
+	};
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Benchmark queries of the latest benchmark run that generated any
+ */
+export function loadBenchmarkQueries(projectPath: string): RetrievalQuery[] {
+	const dbPath = join(projectPath, ".mnemex", "benchmark.db");
+	if (!existsSync(dbPath)) {
+		return [];
+	}
+
+	const db = new BenchmarkDatabase(dbPath);
+	try {
+		for (const run of db.listRuns()) {
+			const queries = db.getQueries(run.id).filter((q) => q.shouldFind);
+			if (queries.length === 0) continue;
+
+			const units = new Map(db.getCodeUnits(run.id).map((u) => [u.id, u]));
+			const result: RetrievalQuery[] = [];
+			for (const query of queries) {
+				const unit = units.get(query.codeUnitId);
+				if (!unit) continue;
+				result.push({
+					query: query.query,
+					filePath: unit.path,
+					startLine: unit.metadata.startLine,
+					endLine: unit.metadata.endLine,
+				});
+			}
+			return result;
+		}
+		return [];
+	} finally {
+		db.close();
+	}
+}
+
+/**
+ * 1-based rank of the first result overlapping the target, or null
+ */
+export function findTargetRank(
+	results: RetrievedLocation[],
+	target: RetrievalQuery,
+): number | null {
+	const index = results.findIndex(
+		(r) =>
+			r.filePath === target.filePath &&
+			r.startLine <= target.endLine &&
+			r.endLine >= target.startLine,
+	);
+	return index === -1 ? null : index + 1;
+}
+
+/**
+ * Hit rate and MRR over the target ranks of a query set
+ */
+export function scoreRanks(
+	ranks: Array<number | null>,
+	k = COMPARISON_TOP_K,
+): RetrievalScore {
+	if (ranks.length === 0) {
+		return { queries: 0, hitRate: 0, mrr: 0 };
+	}
+
+	const inTopK = ranks.filter((r): r is number => r !== null && r <= k);
+	return {
+		queries: ranks.length,
+		hitRate: inTopK.length / ranks.length,
+		mrr: inTopK.reduce((sum, r) => sum + 1 / r, 0) / ranks.length,
+	};
+}
+
+/**
+ * Whether the shadow table retrieves well enough to replace the active one
+ */
+export function isSwapSafe(
+	comparison: ModelComparison,
+	tolerance = DEFAULT_MRR_TOLERANCE,
+): boolean {
+	return comparison.shadow.mrr >= comparison.active.mrr - tolerance;
+}
+
+async function scoreTable(
+	projectPath: string,
+	dir: string,
+	model: string,
+	queries: RetrievalQuery[],
+): Promise<RetrievalScore> {
+	const store = openTable(projectPath, dir);
+	const client = createEmbeddingsClient({ model });
+
+	try {
+		const { embeddings } = await client.embed(queries.map((q) => q.query));
+		const ranks: Array<number | null> = [];
+		for (let i = 0; i < queries.length; i++) {
+			const results = await store.search(queries[i].query, embeddings[i], {
+				limit: COMPARISON_TOP_K,
+			});
+			ranks.push(
+				findTargetRank(
+					results.map(({ chunk }) => ({
+						filePath: relative(projectPath, chunk.filePath),
+						startLine: chunk.startLine,
+						endLine: chunk.endLine,
+					})),
+					queries[i],
+				),
+			);
+		}
+		return scoreRanks(ranks);
+	} finally {
+		await store.close();
+	}
+}
+
+/**
+ * Score the active and shadow tables on the benchmark queries
+ *
+ * @returns null when there are no benchmark queries to compare with
+ */
+export async function compareTables(
+	projectPath: string,
+): Promise<ModelComparison | null> {
+	const state = requireShadow(projectPath);
+	const queries = loadBenchmarkQueries(projectPath);
+	if (queries.length === 0) {
+		return null;
+	}
+
+	const { active, shadow } = state;
+	return {
+		k: COMPARISON_TOP_K,
+		active: {
+			model: active.model,
+			...(await scoreTable(projectPath, active.dir, active.model, queries)),
+		},
+		shadow: {
+			model: shadow.model,
+			...(await scoreTable(projectPath, shadow.dir, shadow.model, queries)),
+		},
+	};
+}
+
+// ============================================================================
+// Swap and Rollback
+// ============================================================================
+
+function requireShadow(
+	projectPath: string,
+): VectorTablesState & { shadow: NonNullable<VectorTablesState["shadow"]> } {
+	const state = loadVectorTables(projectPath);
+	if (!state?.shadow) {
+		throw new ModelMigrationError(
+			"No shadow table. Run 'mnemex migrate-model <model>' first.",
+		);
+	}
+	return { ...state, shadow: state.shadow };
+}
+
+/**
+ * Make the shadow table the active one, keeping the old table for rollback
+ *
+ * @returns The catch-up sync run before switching
+ */
+export async function swapTables(
+	projectPath: string,
+	options: MigrationOptions = {},
+): Promise<SyncResult> {
+	const state = requireShadow(projectPath);
+	const { active, shadow, previous } = state;
+
+	// Rows indexed since the build still only exist in the active table
+	const result = await syncShadowTable(
+		projectPath,
+		state,
+		shadow.dir,
+		shadow.model,
+		options,
+	);
+
+	saveVectorTables(projectPath, {
+		active: { dir: shadow.dir, model: shadow.model },
+		previous: {
+			dir: active.dir,
+			model: active.model,
+			retiredAt: new Date().toISOString(),
+		},
+	});
+	recordActiveModel(projectPath, shadow.model);
+
+	// Only one rollback table is kept
+	if (previous && previous.dir !== shadow.dir) {
+		rmSync(join(getIndexDir(projectPath), previous.dir), {
+			recursive: true,
+			force: true,
+		});
+	}
+	return result;
+}
+
+/**
+ * Switch back to the table replaced by the last swap
+ *
+ * @returns The catch-up sync run before switching
+ */
+export async function rollbackTables(
+	projectPath: string,
+	options: MigrationOptions = {},
+): Promise<SyncResult> {
+	const state = loadVectorTables(projectPath);
+	if (!state?.previous) {
+		throw new ModelMigrationError("No previous table to roll back to.");
+	}
+	const { active, previous } = state;
+
+	// Index runs since the swap only updated the active table
+	const result = await syncShadowTable(
+		projectPath,
+		state,
+		previous.dir,
+		previous.model,
+		options,
+	);
+
+	saveVectorTables(projectPath, {
+		active: { dir: previous.dir, model: previous.model },
+		previous: {
+			dir: active.dir,
+			model: active.model,
+			retiredAt: new Date().toISOString(),
+		},
+	});
+	recordActiveModel(projectPath, previous.model);
+	return result;
+}
+
+/**
+ * Discard the shadow table without swapping
+ */
+export function discardShadowTable(projectPath: string): void {
+	const state = requireShadow(projectPath);
+	rmSync(join(getIndexDir(projectPath), state.shadow.dir), {
+		recursive: true,
+		force: true,
+	});
+	saveVectorTables(projectPath, {
+		active: state.active,
+		previous: state.previous,
+	});
+}
+
+/**
+ * Whether MNEMEX_MODEL overrides the model chosen by migration
+ */
+export function isModelOverridden(): boolean {
+	return Boolean(process.env[ENV.MNEMEX_MODEL]);
+}
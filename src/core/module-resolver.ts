@@ -0,0 +1,448 @@
+/**
+ * Module Resolver
+ *
+ * Maps import specifiers to indexed project files so references can be
+ * bound to the module they were actually imported from.
+ *
+ * Supports:
+ * - JS/TS relative imports (with extension probing, index files and the
+ *   ".js" → ".ts" convention used by ESM TypeScript)
+ * - tsconfig/jsconfig `baseUrl` and `paths` aliases
+ * - Workspace packages (monorepo package.json `name` → directory)
+ * - Python absolute and relative module paths
+ * - Go package paths under the module declared in go.mod
+ *
+ * Specifiers that don't resolve to indexed files (npm packages, stdlib,
+ * third-party Go modules) return an empty list and are treated as external.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join, posix } from "node:path";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Extensions probed for extensionless JS/TS imports */
+const JS_EXTENSIONS = [
+	".ts",
+	".tsx",
+	".mts",
+	".cts",
+	".d.ts",
+	".js",
+	".jsx",
+	".mjs",
+	".cjs",
+];
+
+/** ESM TypeScript imports "./foo.js" to reach "./foo.ts" */
+const JS_TO_TS_EXTENSION: Record<string, string[]> = {
+	".js": [".ts", ".tsx"],
+	".jsx": [".tsx"],
+	".mjs": [".mts"],
+	".cjs": [".cts"],
+};
+
+/** Directories commonly used as Python source roots */
+const PYTHON_SOURCE_ROOTS = ["", "src/", "lib/"];
+
+const JS_LIKE = new Set(["typescript", "javascript", "tsx", "jsx"]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Project-level module configuration (tsconfig, workspace packages, go.mod) */
+export interface ModuleResolverConfig {
+	/** tsconfig `baseUrl`, relative to project root */
+	baseUrl?: string;
+	/** tsconfig `paths`, with targets relative to project root */
+	paths?: Record<string, string[]>;
+	/** Workspace package name → package directory (relative to project root) */
+	workspacePackages?: Record<string, string>;
+	/** Module path declared in the root go.mod */
+	goModulePath?: string;
+}
+
+interface PathAlias {
+	/** Pattern prefix before "*" (or full pattern when there is no "*") */
+	prefix: string;
+	/** Pattern suffix after "*" */
+	suffix: string;
+	/** Whether the pattern contains a wildcard */
+	wildcard: boolean;
+	/** Target patterns, relative to project root */
+	targets: string[];
+}
+
+// ============================================================================
+// Module Resolver Class
+// ============================================================================
+
+export class ModuleResolver {
+	private files: Set<string>;
+	private filesByDir = new Map<string, string[]>();
+	private cache = new Map<string, string[]>();
+
+	private baseUrl: string | null;
+	private aliases: PathAlias[];
+	private workspacePackages: Map<string, string>;
+	private goModulePath: string | null;
+
+	/**
+	 * @param knownFiles Indexed file paths, relative to project root
+	 * @param config Project module configuration (see loadModuleResolverConfig)
+	 */
+	constructor(knownFiles: Iterable<string>, config: ModuleResolverConfig = {}) {
+		this.files = new Set();
+
+		for (const file of knownFiles) {
+			const normalized = toPosix(file);
+			this.files.add(normalized);
+			const dir = posix.dirname(normalized);
+			const list = this.filesByDir.get(dir);
+			if (list) {
+				list.push(normalized);
+			} else {
+				this.filesByDir.set(dir, [normalized]);
+			}
+		}
+
+		this.baseUrl =
+			config.baseUrl !== undefined ? normalizeDir(config.baseUrl) : null;
+		this.aliases = Object.entries(config.paths ?? {})
+			.map(([pattern, targets]) => {
+				const star = pattern.indexOf("*");
+				return {
+					prefix: star >= 0 ? pattern.slice(0, star) : pattern,
+					suffix: star >= 0 ? pattern.slice(star + 1) : "",
+					wildcard: star >= 0,
+					targets,
+				};
+			})
+			// Longest prefix wins, as in TypeScript
+			.sort((a, b) => b.prefix.length - a.prefix.length);
+		this.workspacePackages = new Map(
+			Object.entries(config.workspacePackages ?? {}).map(([name, dir]) => [
+				name,
+				normalizeDir(dir),
+			]),
+		);
+		this.goModulePath = config.goModulePath ?? null;
+	}
+
+	/**
+	 * Resolve an import specifier to indexed files.
+	 * Go packages resolve to every file in the package directory.
+	 *
+	 * @param specifier Module specifier as written in the import
+	 * @param fromFile Importing file, relative to project root
+	 * @param language Language of the importing file
+	 * @returns Matching project files (empty for external modules)
+	 */
+	resolve(specifier: string, fromFile: string, language: string): string[] {
+		const from = toPosix(fromFile);
+		const key = `${language}\0${posix.dirname(from)}\0${specifier}`;
+		const cached = this.cache.get(key);
+		if (cached) return cached;
+
+		let result: string[] = [];
+		if (JS_LIKE.has(language)) {
+			result = this.resolveJs(specifier, from);
+		} else if (language === "python") {
+			result = this.resolvePython(specifier, from);
+		} else if (language === "go") {
+			result = this.resolveGo(specifier);
+		}
+
+		this.cache.set(key, result);
+		return result;
+	}
+
+	// ==========================================================================
+	// JavaScript / TypeScript
+	// ==========================================================================
+
+	private resolveJs(specifier: string, fromFile: string): string[] {
+		if (specifier.startsWith(".")) {
+			const base = posix.normalize(
+				posix.join(posix.dirname(fromFile), specifier),
+			);
+			return this.probeJs(base);
+		}
+
+		// tsconfig paths aliases
+		for (const alias of this.aliases) {
+			const match = matchAlias(alias, specifier);
+			if (match === null) continue;
+			for (const target of alias.targets) {
+				const resolved = this.probeJs(
+					posix.normalize(target.replace("*", match)),
+				);
+				if (resolved.length > 0) return resolved;
+			}
+		}
+
+		// Workspace packages: "@scope/pkg" or "@scope/pkg/sub/path"
+		const pkg = this.matchWorkspacePackage(specifier);
+		if (pkg) {
+			const resolved = this.probeJs(pkg);
+			if (resolved.length > 0) return resolved;
+		}
+
+		// baseUrl-relative imports ("components/Button")
+		if (this.baseUrl !== null) {
+			const resolved = this.probeJs(
+				posix.normalize(posix.join(this.baseUrl, specifier)),
+			);
+			if (resolved.length > 0) return resolved;
+		}
+
+		return [];
+	}
+
+	/**
+	 * Probe a JS/TS module path for a matching indexed file
+	 */
+	private probeJs(base: string): string[] {
+		if (this.files.has(base)) return [base];
+
+		const ext = posix.extname(base);
+		const tsExtensions = JS_TO_TS_EXTENSION[ext];
+		if (tsExtensions) {
+			const stem = base.slice(0, -ext.length);
+			for (const tsExt of tsExtensions) {
+				if (this.files.has(stem + tsExt)) return [stem + tsExt];
+			}
+		}
+
+		for (const candidateExt of JS_EXTENSIONS) {
+			if (this.files.has(base + candidateExt)) return [base + candidateExt];
+		}
+		for (const candidateExt of JS_EXTENSIONS) {
+			const index = posix.join(base, `index${candidateExt}`);
+			if (this.files.has(index)) return [index];
+		}
+		for (const candidateExt of JS_EXTENSIONS) {
+			const index = posix.join(base, `src/index${candidateExt}`);
+			if (this.files.has(index)) return [index];
+		}
+
+		return [];
+	}
+
+	private matchWorkspacePackage(specifier: string): string | null {
+		const parts = specifier.split("/");
+		const nameLength = specifier.startsWith("@") ? 2 : 1;
+		const name = parts.slice(0, nameLength).join("/");
+		const dir = this.workspacePackages.get(name);
+		if (dir === undefined) return null;
+		const rest = parts.slice(nameLength).join("/");
+		return rest ? posix.join(dir, rest) : dir || ".";
+	}
+
+	// ==========================================================================
+	// Python
+	// ==========================================================================
+
+	private resolvePython(specifier: string, fromFile: string): string[] {
+		if (!specifier) return [];
+
+		if (specifier.startsWith(".")) {
+			const level = specifier.match(/^\.+/)![0].length;
+			let dir = posix.dirname(fromFile);
+			for (let i = 1; i < level; i++) {
+				dir = posix.dirname(dir);
+			}
+			const rest = specifier.slice(level).split(".").filter(Boolean);
+			return this.probePython(
+				dir === "." ? rest.join("/") : posix.join(dir, ...rest),
+			);
+		}
+
+		const modulePath = specifier.split(".").join("/");
+		for (const root of PYTHON_SOURCE_ROOTS) {
+			const resolved = this.probePython(root + modulePath);
+			if (resolved.length > 0) return resolved;
+		}
+
+		// Nested source roots (e.g. "services/api/app/models.py" for "app.models")
+		for (const suffix of [`/${modulePath}.py`, `/${modulePath}/__init__.py`]) {
+			for (const file of this.files) {
+				if (file.endsWith(suffix)) return [file];
+			}
+		}
+
+		return [];
+	}
+
+	private probePython(base: string): string[] {
+		for (const candidate of [
+			`${base}.py`,
+			`${base}.pyi`,
+			posix.join(base, "__init__.py"),
+			posix.join(base, "__init__.pyi"),
+		]) {
+			if (this.files.has(candidate)) return [candidate];
+		}
+		return [];
+	}
+
+	// ==========================================================================
+	// Go
+	// ==========================================================================
+
+	private resolveGo(specifier: string): string[] {
+		if (this.goModulePath) {
+			if (specifier === this.goModulePath) {
+				return this.goFilesInDir(".");
+			}
+			if (specifier.startsWith(`${this.goModulePath}/`)) {
+				return this.goFilesInDir(specifier.slice(this.goModulePath.length + 1));
+			}
+			return [];
+		}
+
+		// No go.mod at the root: match the longest directory suffix
+		const segments = specifier.split("/");
+		for (let i = 1; i < segments.length; i++) {
+			const files = this.goFilesInDir(segments.slice(i).join("/"));
+			if (files.length > 0) return files;
+		}
+		return [];
+	}
+
+	private goFilesInDir(dir: string): string[] {
+		return (this.filesByDir.get(dir) ?? []).filter((f) => f.endsWith(".go"));
+	}
+}
+
+// ============================================================================
+// Configuration Loading
+// ============================================================================
+
+/**
+ * Read module configuration from the project root: tsconfig/jsconfig
+ * `baseUrl` and `paths`, workspace package names from indexed
+ * package.json files, and the go.mod module path.
+ */
+export function loadModuleResolverConfig(
+	projectRoot: string,
+	knownFiles: Iterable<string>,
+): ModuleResolverConfig {
+	const config: ModuleResolverConfig = {};
+
+	for (const name of ["tsconfig.json", "jsconfig.json"]) {
+		const tsconfig = readJsonc(join(projectRoot, name)) as {
+			compilerOptions?: {
+				baseUrl?: string;
+				paths?: Record<string, string[]>;
+			};
+		} | null;
+		const options = tsconfig?.compilerOptions;
+		if (!options) continue;
+
+		// paths are relative to baseUrl (or the tsconfig directory without one)
+		const base = options.baseUrl ?? ".";
+		if (options.baseUrl !== undefined) {
+			config.baseUrl = options.baseUrl;
+		}
+		if (options.paths) {
+			config.paths = Object.fromEntries(
+				Object.entries(options.paths).map(([pattern, targets]) => [
+					pattern,
+					targets.map((t) => posix.normalize(posix.join(base, t))),
+				]),
+			);
+		}
+		break;
+	}
+
+	const workspacePackages: Record<string, string> = {};
+	for (const file of knownFiles) {
+		const normalized = toPosix(file);
+		if (
+			posix.basename(normalized) !== "package.json" ||
+			normalized.includes("node_modules/")
+		) {
+			continue;
+		}
+		const pkg = readJsonc(join(projectRoot, normalized)) as {
+			name?: string;
+		} | null;
+		if (pkg?.name) {
+			workspacePackages[pkg.name] = posix.dirname(normalized);
+		}
+	}
+	if (Object.keys(workspacePackages).length > 0) {
+		config.workspacePackages = workspacePackages;
+	}
+
+	const goModPath = join(projectRoot, "go.mod");
+	if (existsSync(goModPath)) {
+		try {
+			const match = readFileSync(goModPath, "utf-8").match(/^module\s+(\S+)/m);
+			if (match) config.goModulePath = match[1];
+		} catch {
+			// Unreadable go.mod - fall back to suffix matching
+		}
+	}
+
+	return config;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function toPosix(path: string): string {
+	return path.replace(/\\/g, "/");
+}
+
+/**
+ * Normalize a project-relative directory ("." and "./" become "")
+ */
+function normalizeDir(dir: string): string {
+	const normalized = posix.normalize(toPosix(dir)).replace(/\/$/, "");
+	return normalized === "." ? "" : normalized;
+}
+
+/**
+ * Match a specifier against a tsconfig paths pattern.
+ * @returns The text captured by "*" ("" for exact patterns), or null
+ */
+function matchAlias(alias: PathAlias, specifier: string): string | null {
+	if (!alias.wildcard) {
+		return specifier === alias.prefix ? "" : null;
+	}
+	if (
+		specifier.length >= alias.prefix.length + alias.suffix.length &&
+		specifier.startsWith(alias.prefix) &&
+		specifier.endsWith(alias.suffix)
+	) {
+		return specifier.slice(
+			alias.prefix.length,
+			specifier.length - alias.suffix.length,
+		);
+	}
+	return null;
+}
+
+/**
+ * Read a JSON file that may contain comments and trailing commas
+ * (tsconfig.json allows both). Returns null if missing or unparseable.
+ */
+function readJsonc(filePath: string): unknown {
+	if (!existsSync(filePath)) return null;
+	try {
+		const text = readFileSync(filePath, "utf-8")
+			.replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (m, str) =>
+				str ? m : "",
+			)
+			.replace(/,(\s*[}\]])/g, "$1");
+		return JSON.parse(text);
+	} catch {
+		return null;
+	}
+}
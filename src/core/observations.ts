@@ -0,0 +1,501 @@
+/**
+ * Observation Lifecycle
+ *
+ * Session observations (gotchas, patterns, architecture notes recorded by
+ * agents via `observe`) are stored as session_observation documents in the
+ * vector table. This module keeps them honest over time:
+ *
+ * - Dedupe: a new observation nearly identical to an existing one (by
+ *   embedding similarity) is merged into it instead of stored again.
+ * - Invalidation: when the indexer sees the files or symbols an observation
+ *   is about change or disappear, the observation is flagged for review.
+ * - Decay: confidence halves every CONFIDENCE_HALF_LIFE_DAYS since the
+ *   observation was recorded or last confirmed; flagged observations count
+ *   half. Retired observations no longer surface in search.
+ */
+
+import { createHash } from "node:crypto";
+import type { IEmbeddingsClient } from "../types.js";
+import type { IVectorStore } from "./store.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const OBSERVATION_TYPES = [
+	"gotcha",
+	"pattern",
+	"architecture",
+	"procedure",
+	"preference",
+] as const;
+
+export type ObservationType = (typeof OBSERVATION_TYPES)[number];
+
+export type ObservationStatus = "active" | "needs_review" | "retired";
+
+export interface ObservationMetadata {
+	[key: string]: unknown;
+	observationType: string;
+	/** Confidence when recorded or last confirmed (0-1) */
+	confidence: number;
+	/** Files the observation is about, relative to project root */
+	affectedFiles: string[];
+	/** Symbols the observation is about; when set, only their changes flag it */
+	affectedSymbols?: string[];
+	/** Defaults to "active" (observations predating the lifecycle) */
+	status?: ObservationStatus;
+	/** Why the observation was flagged for review */
+	reviewReason?: string;
+	/** Last time a user or agent confirmed the observation */
+	confirmedAt?: string;
+	/** How often the observation was recorded (merged duplicates included) */
+	occurrences?: number;
+}
+
+export interface Observation {
+	id: string;
+	content: string;
+	createdAt: string;
+	metadata: ObservationMetadata;
+	vector: number[];
+}
+
+export interface ObservationInput {
+	content: string;
+	affectedFiles?: string[];
+	affectedSymbols?: string[];
+	observationType?: string;
+	confidence?: number;
+}
+
+export interface RecordResult {
+	observation: Observation;
+	/** True when merged into an existing near-duplicate */
+	merged: boolean;
+}
+
+/** Symbols of a file version: symbol name -> hash of its chunks */
+export type SymbolHashes = Map<string, string>;
+
+/** Files changed by an index run, relative to project root */
+export interface FileChanges {
+	/** Symbol hashes of modified files before and after the run */
+	modified: Map<string, { before: SymbolHashes; after: SymbolHashes }>;
+	deleted: Set<string>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_OBSERVATION_CONFIDENCE = 0.7;
+
+/** Cosine similarity above which two observations are the same note */
+export const DUPLICATE_SIMILARITY = 0.92;
+
+/** Confidence halves after this many days without confirmation */
+export const CONFIDENCE_HALF_LIFE_DAYS = 90;
+
+/** Weight of an observation flagged for review */
+const NEEDS_REVIEW_FACTOR = 0.5;
+
+/** Confidence gained when a duplicate is recorded again */
+const REPEAT_CONFIDENCE_BOOST = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Pure Helpers
+// ============================================================================
+
+/**
+ * Confidence after decay and review state
+ */
+export function getEffectiveConfidence(
+	observation: Pick<Observation, "createdAt" | "metadata">,
+	now = Date.now(),
+): number {
+	const { metadata } = observation;
+	if (metadata.status === "retired") {
+		return 0;
+	}
+
+	const since = Date.parse(metadata.confirmedAt ?? observation.createdAt);
+	const ageDays = Number.isNaN(since) ? 0 : Math.max(0, now - since) / DAY_MS;
+	const decayed =
+		(metadata.confidence ?? DEFAULT_OBSERVATION_CONFIDENCE) *
+		0.5 ** (ageDays / CONFIDENCE_HALF_LIFE_DAYS);
+
+	return metadata.status === "needs_review"
+		? decayed * NEEDS_REVIEW_FACTOR
+		: decayed;
+}
+
+/**
+ * Parse stored observation metadata, filling defaults for old records
+ */
+export function normalizeObservationMetadata(
+	raw: Record<string, unknown> | undefined,
+	filePath?: string,
+): ObservationMetadata {
+	const meta = raw ?? {};
+	const affectedFiles = Array.isArray(meta.affectedFiles)
+		? (meta.affectedFiles as string[])
+		: filePath
+			? [filePath]
+			: [];
+
+	return {
+		...meta,
+		observationType: (meta.observationType as string) || "pattern",
+		confidence:
+			typeof meta.confidence === "number"
+				? meta.confidence
+				: DEFAULT_OBSERVATION_CONFIDENCE,
+		affectedFiles,
+		status: (meta.status as ObservationStatus) || "active",
+	};
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	if (a.length !== b.length || a.length === 0) return 0;
+
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * The existing observation a new one duplicates, if any.
+ * Only observations of the same type that are not retired qualify.
+ */
+export function findDuplicate(
+	observations: Observation[],
+	vector: number[],
+	observationType: string,
+	threshold = DUPLICATE_SIMILARITY,
+): { observation: Observation; similarity: number } | null {
+	let best: { observation: Observation; similarity: number } | null = null;
+
+	for (const observation of observations) {
+		if (observation.metadata.status === "retired") continue;
+		if (observation.metadata.observationType !== observationType) continue;
+
+		const similarity = cosineSimilarity(observation.vector, vector);
+		if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+			best = { observation, similarity };
+		}
+	}
+	return best;
+}
+
+/**
+ * Hash the chunks of each named symbol in a file version
+ */
+export function buildSymbolHashes(
+	chunks: Array<{ name?: string; parentName?: string; contentHash: string }>,
+): SymbolHashes {
+	const hashesByName = new Map<string, string[]>();
+	for (const chunk of chunks) {
+		if (!chunk.name) continue;
+		const names = chunk.parentName
+			? [chunk.name, `${chunk.parentName}.${chunk.name}`]
+			: [chunk.name];
+		for (const name of names) {
+			const hashes = hashesByName.get(name) ?? [];
+			hashes.push(chunk.contentHash);
+			hashesByName.set(name, hashes);
+		}
+	}
+
+	const result: SymbolHashes = new Map();
+	for (const [name, hashes] of hashesByName) {
+		result.set(name, hashes.sort().join(","));
+	}
+	return result;
+}
+
+/**
+ * Observations invalidated by an index run, with the reason for review.
+ *
+ * An observation about specific symbols is flagged when one of them changed
+ * or disappeared; otherwise any change to an affected file flags it.
+ */
+export function findStaleObservations(
+	observations: Observation[],
+	changes: FileChanges,
+): Array<{ id: string; reason: string }> {
+	const stale: Array<{ id: string; reason: string }> = [];
+
+	for (const observation of observations) {
+		const { affectedFiles, affectedSymbols, status } = observation.metadata;
+		if (status === "retired") continue;
+
+		let reason: string | null = null;
+		for (const file of affectedFiles) {
+			if (changes.deleted.has(file)) {
+				reason = `${file} was deleted`;
+				break;
+			}
+
+			const modified = changes.modified.get(file);
+			if (!modified) continue;
+
+			if (!affectedSymbols || affectedSymbols.length === 0) {
+				reason = `${file} changed`;
+				break;
+			}
+
+			const changed = affectedSymbols.filter(
+				(symbol) =>
+					modified.before.has(symbol) &&
+					modified.before.get(symbol) !== modified.after.get(symbol),
+			);
+			if (changed.length > 0) {
+				reason = `${changed.join(", ")} changed in ${file}`;
+				break;
+			}
+		}
+
+		if (reason) {
+			stale.push({ id: observation.id, reason });
+		}
+	}
+	return stale;
+}
+
+// ============================================================================
+// Observation Manager
+// ============================================================================
+
+export class ObservationManager {
+	private store: IVectorStore;
+	private embeddingsClient?: IEmbeddingsClient;
+
+	/**
+	 * @param embeddingsClient Needed to record and edit observations
+	 */
+	constructor(store: IVectorStore, embeddingsClient?: IEmbeddingsClient) {
+		this.store = store;
+		this.embeddingsClient = embeddingsClient;
+	}
+
+	/**
+	 * All observations, most confident first
+	 */
+	async list(status?: ObservationStatus): Promise<Observation[]> {
+		const docs = await this.store.getDocumentsByType("session_observation");
+		const observations = docs.map((doc) => ({
+			id: doc.id,
+			content: doc.content,
+			createdAt: doc.createdAt,
+			metadata: normalizeObservationMetadata(doc.metadata, doc.filePath),
+			vector: doc.vector,
+		}));
+
+		return observations
+			.filter((o) => !status || o.metadata.status === status)
+			.sort((a, b) => getEffectiveConfidence(b) - getEffectiveConfidence(a));
+	}
+
+	async get(id: string): Promise<Observation | null> {
+		const observations = await this.list();
+		return observations.find((o) => o.id === id || o.id.startsWith(id)) ?? null;
+	}
+
+	/**
+	 * Record an observation, merging it into a near-duplicate if there is one
+	 */
+	async record(input: ObservationInput): Promise<RecordResult> {
+		const client = this.requireEmbeddings();
+		const observationType = input.observationType ?? "pattern";
+		const confidence = input.confidence ?? DEFAULT_OBSERVATION_CONFIDENCE;
+		const affectedFiles = input.affectedFiles ?? [];
+		const affectedSymbols = input.affectedSymbols ?? [];
+		const vector = await client.embedOne(input.content);
+
+		const duplicate = findDuplicate(await this.list(), vector, observationType);
+		if (duplicate) {
+			const { observation } = duplicate;
+			const meta = observation.metadata;
+			const merged: ObservationMetadata = {
+				...meta,
+				confidence: Math.min(
+					1,
+					Math.max(meta.confidence, confidence) + REPEAT_CONFIDENCE_BOOST,
+				),
+				affectedFiles: union(meta.affectedFiles, affectedFiles),
+				affectedSymbols: union(meta.affectedSymbols ?? [], affectedSymbols),
+				// Seeing it again re-confirms it
+				status: "active",
+				reviewReason: undefined,
+				confirmedAt: new Date().toISOString(),
+				occurrences: (meta.occurrences ?? 1) + 1,
+			};
+			await this.store.updateDocumentMetadata(observation.id, merged);
+			return {
+				observation: { ...observation, metadata: merged },
+				merged: true,
+			};
+		}
+
+		const id = createHash("sha256")
+			.update(`observation:${input.content}:${affectedFiles.join(",")}`)
+			.digest("hex")
+			.slice(0, 16);
+		const now = new Date().toISOString();
+		const metadata: ObservationMetadata = {
+			observationType,
+			confidence,
+			affectedFiles,
+			...(affectedSymbols.length > 0 ? { affectedSymbols } : {}),
+			status: "active",
+			occurrences: 1,
+		};
+
+		await this.store.addDocuments([
+			{
+				id,
+				content: input.content,
+				documentType: "session_observation",
+				filePath: affectedFiles[0] || "",
+				fileHash: "",
+				createdAt: now,
+				enrichedAt: now,
+				sourceIds: [],
+				metadata,
+				vector,
+			},
+		]);
+		return {
+			observation: {
+				id,
+				content: input.content,
+				createdAt: now,
+				metadata,
+				vector,
+			},
+			merged: false,
+		};
+	}
+
+	/**
+	 * Confirm an observation is still accurate: clears the review flag and
+	 * restarts decay
+	 */
+	async confirm(id: string, confidence?: number): Promise<Observation | null> {
+		return this.updateMetadata(id, (meta) => ({
+			...meta,
+			confidence: confidence ?? meta.confidence,
+			status: "active",
+			reviewReason: undefined,
+			confirmedAt: new Date().toISOString(),
+		}));
+	}
+
+	/**
+	 * Rewrite an observation's text (re-embedded) and confirm it
+	 */
+	async edit(id: string, content: string): Promise<Observation | null> {
+		const observation = await this.get(id);
+		if (!observation) return null;
+
+		const vector = await this.requireEmbeddings().embedOne(content);
+		await this.store.updateDocumentContent(observation.id, content, vector);
+		const confirmed = await this.confirm(observation.id);
+		return confirmed && { ...confirmed, content, vector };
+	}
+
+	/**
+	 * Retire an observation: kept for the record, no longer surfaced
+	 */
+	async retire(id: string, reason?: string): Promise<Observation | null> {
+		return this.updateMetadata(id, (meta) => ({
+			...meta,
+			status: "retired",
+			reviewReason: reason ?? meta.reviewReason,
+		}));
+	}
+
+	/**
+	 * Flag observations whose files or symbols changed in an index run
+	 *
+	 * @param observations Observations already listed by the caller
+	 * @returns Number of observations newly flagged
+	 */
+	async flagStale(
+		changes: FileChanges,
+		observations?: Observation[],
+	): Promise<number> {
+		if (changes.modified.size === 0 && changes.deleted.size === 0) {
+			return 0;
+		}
+
+		const candidates = observations ?? (await this.list());
+		let flagged = 0;
+		const byId = new Map(candidates.map((o) => [o.id, o]));
+		for (const { id, reason } of findStaleObservations(candidates, changes)) {
+			const observation = byId.get(id);
+			if (!observation) continue;
+
+			const wasFlagged = observation.metadata.status === "needs_review";
+			const updated = await this.writeMetadata(observation, {
+				...observation.metadata,
+				status: "needs_review",
+				reviewReason: reason,
+			});
+			if (updated && !wasFlagged) flagged++;
+		}
+		return flagged;
+	}
+
+	private async updateMetadata(
+		id: string,
+		update: (meta: ObservationMetadata) => ObservationMetadata,
+	): Promise<Observation | null> {
+		const observation = await this.get(id);
+		if (!observation) return null;
+
+		return this.writeMetadata(observation, update(observation.metadata));
+	}
+
+	private async writeMetadata(
+		observation: Observation,
+		metadata: ObservationMetadata,
+	): Promise<Observation | null> {
+		const ok = await this.store.updateDocumentMetadata(
+			observation.id,
+			metadata,
+		);
+		return ok ? { ...observation, metadata } : null;
+	}
+
+	private requireEmbeddings(): IEmbeddingsClient {
+		if (!this.embeddingsClient) {
+			throw new Error("An embeddings client is required to embed observations");
+		}
+		return this.embeddingsClient;
+	}
+}
+
+function union(a: string[], b: string[]): string[] {
+	return [...new Set([...a, ...b])];
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createObservationManager(
+	store: IVectorStore,
+	embeddingsClient?: IEmbeddingsClient,
+): ObservationManager {
+	return new ObservationManager(store, embeddingsClient);
+}
@@ -6,7 +6,8 @@
  */
 
 import type { IFileTracker } from "./tracker.js";
-import type { SymbolDefinition, SymbolReference } from "../types.js";
+import type { ReferenceCandidate, SymbolDefinition } from "../types.js";
+import { createReferenceResolver } from "./reference-resolver.js";
 
 // ============================================================================
 // Types
@@ -14,8 +15,8 @@ import type { SymbolDefinition, SymbolReference } from "../types.js";
 
 interface GraphNode {
 	symbol: SymbolDefinition;
-	outEdges: Set<string>; // IDs of symbols this symbol references
-	inEdges: Set<string>; // IDs of symbols that reference this symbol
+	outEdges: Map<string, number>; // Referenced symbol ID → edge weight (confidence)
+	inEdges: Map<string, number>; // Referencing symbol ID → edge weight (confidence)
 }
 
 // ============================================================================
@@ -24,56 +25,103 @@ interface GraphNode {
 
 export class ReferenceGraphManager {
 	private tracker: IFileTracker;
+	private projectRoot?: string;
 	private graph: Map<string, GraphNode> | null = null;
 
-	constructor(tracker: IFileTracker) {
+	/**
+	 * @param tracker File tracker holding the symbol graph
+	 * @param projectRoot Absolute project root, used to read tsconfig/go.mod
+	 *   when resolving imports
+	 */
+	constructor(tracker: IFileTracker, projectRoot?: string) {
 		this.tracker = tracker;
+		this.projectRoot = projectRoot;
 	}
 
 	/**
 	 * Build the reference graph from database
 	 */
 	async buildGraph(): Promise<void> {
+		this.graph = this.loadGraph();
+	}
+
+	/**
+	 * Load graph nodes and weighted edges from the tracker.
+	 * Ambiguous references contribute one fractional edge per candidate,
+	 * weighted by the resolver's confidence.
+	 */
+	private loadGraph(): Map<string, GraphNode> {
 		const symbols = this.tracker.getAllSymbols();
 		const references = this.tracker.getAllReferences();
 
-		this.graph = new Map();
+		const candidatesByRef = new Map<number, ReferenceCandidate[]>();
+		for (const candidate of this.tracker.getAllReferenceCandidates()) {
+			const list = candidatesByRef.get(candidate.referenceId);
+			if (list) {
+				list.push(candidate);
+			} else {
+				candidatesByRef.set(candidate.referenceId, [candidate]);
+			}
+		}
+
+		const graph = new Map<string, GraphNode>();
 
 		// Initialize nodes for all symbols
 		for (const symbol of symbols) {
-			this.graph.set(symbol.id, {
+			graph.set(symbol.id, {
 				symbol,
-				outEdges: new Set(),
-				inEdges: new Set(),
+				outEdges: new Map(),
+				inEdges: new Map(),
 			});
 		}
 
+		const addEdge = (fromId: string, toId: string, weight: number) => {
+			const fromNode = graph.get(fromId);
+			const toNode = graph.get(toId);
+			if (!fromNode || !toNode || weight <= 0) return;
+
+			// Keep the strongest edge when a symbol references a target several ways
+			const existing = fromNode.outEdges.get(toId) ?? 0;
+			if (weight > existing) {
+				fromNode.outEdges.set(toId, weight);
+				toNode.inEdges.set(fromId, weight);
+			}
+		};
+
 		// Build edges from resolved references
 		for (const ref of references) {
-			if (ref.isResolved && ref.toSymbolId) {
-				const fromNode = this.graph.get(ref.fromSymbolId);
-				const toNode = this.graph.get(ref.toSymbolId);
+			if (!ref.isResolved) continue;
 
-				if (fromNode && toNode) {
-					fromNode.outEdges.add(ref.toSymbolId);
-					toNode.inEdges.add(ref.fromSymbolId);
+			const candidates = ref.id !== undefined && candidatesByRef.get(ref.id);
+			if (candidates) {
+				for (const candidate of candidates) {
+					addEdge(ref.fromSymbolId, candidate.symbolId, candidate.confidence);
 				}
+			} else if (ref.toSymbolId) {
+				addEdge(ref.fromSymbolId, ref.toSymbolId, ref.confidence ?? 1);
 			}
 		}
+
+		return graph;
 	}
 
 	/**
 	 * Resolve unresolved references
-	 * Attempts to match reference names to symbol names
+	 * Binds reference names to definitions through each file's imports
 	 * @returns Number of references resolved
 	 */
 	async resolveReferences(): Promise<number> {
-		// Use bulk SQL resolution for efficiency
-		const resolved = this.tracker.resolveReferencesByName();
+		const resolver = createReferenceResolver(this.tracker, {
+			projectRoot: this.projectRoot,
+		});
+		const resolved = resolver.resolve();
 
 		// Update degree counts after resolution
 		this.tracker.updateDegreeCounts();
 
+		// Force a rebuild so PageRank sees the corrected edges
+		this.graph = null;
+
 		return resolved;
 	}
 
@@ -98,30 +146,7 @@ export class ReferenceGraphManager {
 	): Map<string, number> {
 		// Build graph if not already built
 		if (!this.graph) {
-			const symbols = this.tracker.getAllSymbols();
-			const references = this.tracker.getAllReferences();
-
-			this.graph = new Map();
-
-			for (const symbol of symbols) {
-				this.graph.set(symbol.id, {
-					symbol,
-					outEdges: new Set(),
-					inEdges: new Set(),
-				});
-			}
-
-			for (const ref of references) {
-				if (ref.isResolved && ref.toSymbolId) {
-					const fromNode = this.graph.get(ref.fromSymbolId);
-					const toNode = this.graph.get(ref.toSymbolId);
-
-					if (fromNode && toNode) {
-						fromNode.outEdges.add(ref.toSymbolId);
-						toNode.inEdges.add(ref.fromSymbolId);
-					}
-				}
-			}
+			this.graph = this.loadGraph();
 		}
 
 		const n = this.graph.size;
@@ -140,6 +165,16 @@ export class ReferenceGraphManager {
 		// Teleport probability (random jump)
 		const teleportScore = (1 - dampingFactor) / n;
 
+		// Total outgoing edge weight per node
+		const outWeights = new Map<string, number>();
+		for (const [id, node] of this.graph) {
+			let total = 0;
+			for (const weight of node.outEdges.values()) {
+				total += weight;
+			}
+			outWeights.set(id, total || 1); // Avoid division by zero
+		}
+
 		// Iterative PageRank computation
 		for (let iter = 0; iter < iterations; iter++) {
 			const newScores = new Map<string, number>();
@@ -147,13 +182,13 @@ export class ReferenceGraphManager {
 			for (const [id, node] of this.graph) {
 				let incomingScore = 0;
 
-				// Sum contributions from all nodes that link to this one
-				for (const sourceId of node.inEdges) {
-					const sourceNode = this.graph.get(sourceId);
-					if (sourceNode) {
+				// Sum contributions from all nodes that link to this one,
+				// split across each source's outgoing edges by weight
+				for (const [sourceId, weight] of node.inEdges) {
+					const sourceWeight = outWeights.get(sourceId);
+					if (sourceWeight) {
 						const sourceScore = scores.get(sourceId) || 0;
-						const sourceOutDegree = sourceNode.outEdges.size || 1; // Avoid division by zero
-						incomingScore += sourceScore / sourceOutDegree;
+						incomingScore += (sourceScore * weight) / sourceWeight;
 					}
 				}
 
@@ -369,6 +404,7 @@ export class ReferenceGraphManager {
  */
 export function createReferenceGraphManager(
 	tracker: IFileTracker,
+	projectRoot?: string,
 ): ReferenceGraphManager {
-	return new ReferenceGraphManager(tracker);
+	return new ReferenceGraphManager(tracker, projectRoot);
 }
@@ -0,0 +1,452 @@
+/**
+ * Reference Resolver
+ *
+ * Binds unresolved symbol references to their definitions using the
+ * imports captured for each file, instead of matching the first symbol
+ * that happens to share the name.
+ *
+ * Resolution order for a reference to `name` in file F:
+ * 1. An import binding in F with local name `name` → the exported symbol
+ *    in the resolved module (following re-exports/barrel files)
+ * 2. A symbol with that name defined in F itself
+ * 3. Same package (Go: same directory)
+ * 4. Namespace/module imports of F (`import * as ns`, `import pkg`, Go packages)
+ * 5. Project-wide exported symbols with that name, ranked by path proximity
+ *
+ * Steps 1-4 are import-backed and get high confidence. Step 5 is a guess:
+ * when several definitions match, all of them are recorded as a candidate
+ * set with confidence split by proximity, and the best one becomes the
+ * primary target. Names imported from external modules are never guessed.
+ */
+
+import { posix } from "node:path";
+import type {
+	FileImport,
+	SymbolDefinition,
+	SymbolReference,
+} from "../types.js";
+import {
+	ModuleResolver,
+	type ModuleResolverConfig,
+	loadModuleResolverConfig,
+} from "./module-resolver.js";
+import type { IFileTracker, ReferenceResolution } from "./tracker.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Confidence for references bound through an explicit import */
+const IMPORT_CONFIDENCE = 1.0;
+
+/** Confidence for definitions in the referencing file */
+const SAME_FILE_CONFIDENCE = 1.0;
+
+/** Confidence for same-package definitions (Go) */
+const SAME_PACKAGE_CONFIDENCE = 0.9;
+
+/** Confidence for matches inside namespace/module imports */
+const NAMESPACE_CONFIDENCE = 0.85;
+
+/** Confidence for a unique project-wide name match */
+const GLOBAL_UNIQUE_CONFIDENCE = 0.6;
+
+/** Total confidence spread over an ambiguous project-wide candidate set */
+const GLOBAL_AMBIGUOUS_CONFIDENCE = 0.5;
+
+/** Maximum re-export hops followed through barrel files */
+const MAX_REEXPORT_DEPTH = 5;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReferenceResolverOptions {
+	/** Absolute project root (enables tsconfig/go.mod/workspace lookups) */
+	projectRoot?: string;
+	/** Maximum candidates recorded for an ambiguous reference (default: 8) */
+	maxCandidates?: number;
+	/** Module configuration to use instead of reading it from projectRoot */
+	moduleConfig?: ModuleResolverConfig;
+}
+
+/** Outcome of looking a name up through an import */
+interface ExportLookup {
+	/** Whether the module resolved to project files */
+	internal: boolean;
+	/** Matching definitions */
+	symbols: SymbolDefinition[];
+}
+
+// ============================================================================
+// Reference Resolver Class
+// ============================================================================
+
+export class ReferenceResolver {
+	private tracker: IFileTracker;
+	private projectRoot?: string;
+	private maxCandidates: number;
+	private moduleConfig?: ModuleResolverConfig;
+
+	private symbolsByFile = new Map<string, SymbolDefinition[]>();
+	private symbolsByName = new Map<string, SymbolDefinition[]>();
+	private importsByFile = new Map<string, FileImport[]>();
+	private languageByFile = new Map<string, string>();
+	private modules!: ModuleResolver;
+
+	constructor(tracker: IFileTracker, options: ReferenceResolverOptions = {}) {
+		this.tracker = tracker;
+		this.projectRoot = options.projectRoot;
+		this.maxCandidates = options.maxCandidates ?? 8;
+		this.moduleConfig = options.moduleConfig;
+	}
+
+	/**
+	 * Resolve all unresolved references in the tracker
+	 * @returns Number of references resolved
+	 */
+	resolve(): number {
+		this.tracker.resetDanglingReferences();
+
+		const references = this.tracker.getUnresolvedReferences();
+		if (references.length === 0) {
+			return 0;
+		}
+
+		this.loadIndex();
+
+		const resolutions: ReferenceResolution[] = [];
+		for (const ref of references) {
+			const resolution = this.resolveReference(ref);
+			if (resolution) {
+				resolutions.push(resolution);
+			}
+		}
+
+		this.tracker.applyReferenceResolutions(resolutions);
+		return resolutions.length;
+	}
+
+	/**
+	 * Resolve a single reference, or null if no plausible target exists
+	 */
+	resolveReference(ref: SymbolReference): ReferenceResolution | null {
+		if (ref.id === undefined) return null;
+
+		const name = ref.toSymbolName;
+		const fromFile = ref.filePath;
+		const language = this.languageByFile.get(fromFile) ?? "";
+		const imports = this.importsByFile.get(fromFile) ?? [];
+
+		// 1. Explicit import binding
+		const binding = imports.find(
+			(imp) => imp.localName === name && imp.importedName !== "*",
+		);
+		let importedFromProject = false;
+		if (binding) {
+			const lookup = this.lookupExport(
+				binding.moduleSpecifier,
+				binding.importedName === "default" ? name : binding.importedName,
+				binding.importedName === "default",
+				fromFile,
+				language,
+				0,
+			);
+			if (lookup.symbols.length > 0) {
+				return this.build(ref, lookup.symbols, IMPORT_CONFIDENCE);
+			}
+			if (!lookup.internal) {
+				// Imported from an external package: never bind to a project symbol
+				return null;
+			}
+			importedFromProject = true;
+		}
+
+		// 2. Same file
+		const local = (this.symbolsByFile.get(fromFile) ?? []).filter(
+			(s) => s.name === name,
+		);
+		if (local.length > 0) {
+			return this.build(ref, local, SAME_FILE_CONFIDENCE);
+		}
+
+		// 3. Same package (Go shares scope across a directory)
+		if (language === "go") {
+			const dir = posix.dirname(fromFile);
+			const samePackage = (this.symbolsByName.get(name) ?? []).filter(
+				(s) => s.language === "go" && posix.dirname(s.filePath) === dir,
+			);
+			if (samePackage.length > 0) {
+				return this.build(ref, samePackage, SAME_PACKAGE_CONFIDENCE);
+			}
+		}
+
+		// 4. Namespace / module imports
+		const namespaced: SymbolDefinition[] = [];
+		for (const imp of imports) {
+			const specifiers =
+				imp.importedName === "*"
+					? [imp.moduleSpecifier]
+					: language === "python"
+						? [joinPythonModule(imp.moduleSpecifier, imp.importedName)]
+						: [];
+			for (const specifier of specifiers) {
+				const lookup = this.lookupExport(
+					specifier,
+					name,
+					false,
+					fromFile,
+					language,
+					0,
+				);
+				namespaced.push(...lookup.symbols);
+			}
+		}
+		if (namespaced.length > 0) {
+			return this.build(ref, dedupe(namespaced), NAMESPACE_CONFIDENCE);
+		}
+
+		// 5. Project-wide exported definitions
+		const global = (this.symbolsByName.get(name) ?? []).filter(
+			(s) => s.isExported && s.id !== ref.fromSymbolId,
+		);
+		if (global.length === 0) {
+			return null;
+		}
+		if (global.length === 1) {
+			return this.build(
+				ref,
+				global,
+				importedFromProject
+					? GLOBAL_AMBIGUOUS_CONFIDENCE
+					: GLOBAL_UNIQUE_CONFIDENCE,
+			);
+		}
+		return this.buildRanked(ref, global, GLOBAL_AMBIGUOUS_CONFIDENCE);
+	}
+
+	// ==========================================================================
+	// Index loading
+	// ==========================================================================
+
+	private loadIndex(): void {
+		this.symbolsByFile.clear();
+		this.symbolsByName.clear();
+		this.importsByFile.clear();
+		this.languageByFile.clear();
+
+		const knownFiles = new Set<string>();
+		for (const file of this.tracker.getAllFiles()) {
+			knownFiles.add(file.path);
+		}
+
+		for (const symbol of this.tracker.getAllSymbols()) {
+			knownFiles.add(symbol.filePath);
+			this.languageByFile.set(symbol.filePath, symbol.language);
+			pushTo(this.symbolsByFile, symbol.filePath, symbol);
+			pushTo(this.symbolsByName, symbol.name, symbol);
+		}
+
+		for (const imp of this.tracker.getAllImports()) {
+			// Barrel files may declare nothing but re-exports
+			knownFiles.add(imp.filePath);
+			pushTo(this.importsByFile, imp.filePath, imp);
+		}
+
+		const config =
+			this.moduleConfig ??
+			(this.projectRoot
+				? loadModuleResolverConfig(this.projectRoot, knownFiles)
+				: {});
+		this.modules = new ModuleResolver(knownFiles, config);
+	}
+
+	// ==========================================================================
+	// Export lookup
+	// ==========================================================================
+
+	/**
+	 * Find the definition of `name` exported by a module, following
+	 * re-exports through barrel files.
+	 */
+	private lookupExport(
+		specifier: string,
+		name: string,
+		isDefault: boolean,
+		fromFile: string,
+		language: string,
+		depth: number,
+	): ExportLookup {
+		const files = this.modules.resolve(specifier, fromFile, language);
+		if (files.length === 0) {
+			return { internal: false, symbols: [] };
+		}
+		if (depth > MAX_REEXPORT_DEPTH) {
+			return { internal: true, symbols: [] };
+		}
+
+		const symbols: SymbolDefinition[] = [];
+		for (const file of files) {
+			const topLevel = (this.symbolsByFile.get(file) ?? []).filter(
+				(s) => !s.parentId,
+			);
+			const direct = topLevel.filter((s) => s.name === name);
+			if (direct.length > 0) {
+				symbols.push(...direct);
+				continue;
+			}
+
+			if (isDefault) {
+				// `import Foo from "./foo"` where the default export has another name
+				const exported = topLevel.filter((s) => s.isExported);
+				if (exported.length === 1) {
+					symbols.push(exported[0]);
+					continue;
+				}
+			}
+
+			// Barrel files: export { name } from "./x", export * from "./y"
+			for (const imp of this.importsByFile.get(file) ?? []) {
+				let forwardedName: string | null = null;
+				if (imp.localName === name && imp.importedName !== "*") {
+					forwardedName = imp.importedName;
+				} else if (imp.localName === "*" && imp.importedName === "*") {
+					forwardedName = name;
+				}
+				if (!forwardedName) continue;
+
+				const lookup = this.lookupExport(
+					imp.moduleSpecifier,
+					forwardedName === "default" ? name : forwardedName,
+					forwardedName === "default",
+					file,
+					this.languageByFile.get(file) ?? language,
+					depth + 1,
+				);
+				symbols.push(...lookup.symbols);
+			}
+		}
+
+		return { internal: true, symbols: dedupe(symbols) };
+	}
+
+	// ==========================================================================
+	// Resolution building
+	// ==========================================================================
+
+	/**
+	 * Build a resolution from equally plausible targets
+	 */
+	private build(
+		ref: SymbolReference,
+		targets: SymbolDefinition[],
+		confidence: number,
+	): ReferenceResolution {
+		if (targets.length === 1) {
+			return {
+				referenceId: ref.id!,
+				toSymbolId: targets[0].id,
+				confidence,
+				candidates: [],
+			};
+		}
+		return this.buildRanked(ref, targets, confidence);
+	}
+
+	/**
+	 * Build a candidate-set resolution, splitting confidence by how close
+	 * each target is to the referencing file
+	 */
+	private buildRanked(
+		ref: SymbolReference,
+		targets: SymbolDefinition[],
+		totalConfidence: number,
+	): ReferenceResolution {
+		const ranked = targets
+			.map((symbol) => ({
+				symbol,
+				weight: 1 + sharedPathDepth(ref.filePath, symbol.filePath),
+			}))
+			.sort(
+				(a, b) =>
+					b.weight - a.weight ||
+					b.symbol.pagerankScore - a.symbol.pagerankScore,
+			)
+			.slice(0, this.maxCandidates);
+
+		const totalWeight = ranked.reduce((sum, r) => sum + r.weight, 0);
+		const candidates = ranked.map((r) => ({
+			symbolId: r.symbol.id,
+			confidence: (totalConfidence * r.weight) / totalWeight,
+		}));
+
+		return {
+			referenceId: ref.id!,
+			toSymbolId: candidates[0].symbolId,
+			confidence: candidates[0].confidence,
+			candidates,
+		};
+	}
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function pushTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+	const list = map.get(key);
+	if (list) {
+		list.push(value);
+	} else {
+		map.set(key, [value]);
+	}
+}
+
+function dedupe(symbols: SymbolDefinition[]): SymbolDefinition[] {
+	const seen = new Set<string>();
+	return symbols.filter((s) => {
+		if (seen.has(s.id)) return false;
+		seen.add(s.id);
+		return true;
+	});
+}
+
+/**
+ * Number of leading directory segments two files share
+ */
+function sharedPathDepth(a: string, b: string): number {
+	const aParts = posix.dirname(a).split("/");
+	const bParts = posix.dirname(b).split("/");
+	let depth = 0;
+	while (
+		depth < aParts.length &&
+		depth < bParts.length &&
+		aParts[depth] === bParts[depth] &&
+		aParts[depth] !== "."
+	) {
+		depth++;
+	}
+	return depth;
+}
+
+/**
+ * Python `from pkg import mod` may import a submodule rather than a symbol
+ */
+function joinPythonModule(specifier: string, name: string): string {
+	if (!specifier) return name;
+	return specifier.endsWith(".") ? specifier + name : `${specifier}.${name}`;
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a reference resolver
+ */
+export function createReferenceResolver(
+	tracker: IFileTracker,
+	options?: ReferenceResolverOptions,
+): ReferenceResolver {
+	return new ReferenceResolver(tracker, options);
+}
@@ -16,14 +16,20 @@
  *   class VectorStore
  *     async addChunks(chunks[]): Promise<void>
  *     async search(query, vector): Promise<SearchResult[]>
+ *
+ * When directory summaries are available they are listed first, as a
+ * tree of one-line descriptions above the files.
  */
 
+import { posix } from "node:path";
 import type { IFileTracker } from "./tracker.js";
 import type {
 	SymbolDefinition,
 	SymbolKind,
 	RepoMapOptions,
 	RepoMapEntry,
+	RepoMapDirectory,
+	RepoMapDirectorySummary,
 } from "../types.js";
 
 // ============================================================================
@@ -39,6 +45,9 @@ const INDENT = "  ";
 /** Maximum symbols per file in the map */
 const MAX_SYMBOLS_PER_FILE = 20;
 
+/** Share of the token budget directory summaries may use */
+const DIRECTORY_BUDGET_SHARE = 1 / 3;
+
 // ============================================================================
 // Repo Map Generator Class
 // ============================================================================
@@ -59,6 +68,7 @@ export class RepoMapGenerator {
 			includeSignatures = true,
 			pathPattern,
 			topNByPagerank,
+			directorySummaries,
 		} = options;
 
 		// Get symbols sorted by PageRank
@@ -83,6 +93,19 @@ export class RepoMapGenerator {
 		let currentTokens = 0;
 		const maxChars = maxTokens * CHARS_PER_TOKEN;
 
+		// Directory summaries first, within their share of the budget
+		if (directorySummaries && directorySummaries.length > 0) {
+			const directoryLines = this.formatDirectories(
+				directorySummaries,
+				pathPattern,
+				maxTokens * DIRECTORY_BUDGET_SHARE,
+			);
+			if (directoryLines.length > 0) {
+				lines.push(...directoryLines, "");
+				currentTokens += this.estimateTokens(directoryLines.join("\n"));
+			}
+		}
+
 		for (const filePath of sortedFiles) {
 			const fileSymbols = fileMap.get(filePath)!;
 			const fileLines = this.formatFile(
@@ -153,6 +176,44 @@ export class RepoMapGenerator {
 		);
 	}
 
+	/**
+	 * Generate the structured repo map as a directory tree, with directory
+	 * summaries attached where available (for tree views)
+	 */
+	generateTree(options: RepoMapOptions = {}): RepoMapDirectory {
+		const summaries = new Map(
+			(options.directorySummaries ?? []).map((s) => [s.path, s]),
+		);
+		const directories = new Map<string, RepoMapDirectory>();
+
+		const getDirectory = (path: string): RepoMapDirectory => {
+			let directory = directories.get(path);
+			if (!directory) {
+				directory = {
+					path,
+					summary: summaries.get(path),
+					directories: [],
+					files: [],
+				};
+				directories.set(path, directory);
+				if (path !== ".") {
+					getDirectory(posix.dirname(path)).directories.push(directory);
+				}
+			}
+			return directory;
+		};
+
+		const root = getDirectory(".");
+		for (const entry of this.generateStructured(options)) {
+			getDirectory(posix.dirname(entry.filePath)).files.push(entry);
+		}
+		for (const directory of directories.values()) {
+			directory.directories.sort((a, b) => comparePaths(a.path, b.path));
+		}
+
+		return root;
+	}
+
 	/**
 	 * Generate a focused repo map for a specific query
 	 * Returns symbols most relevant to the query terms
@@ -342,6 +403,52 @@ export class RepoMapGenerator {
 		return `${prefix}${symbol.kind} ${symbol.name}`;
 	}
 
+	/**
+	 * Format directory summaries as an indented tree. When the budget is
+	 * too small for all of them, shallower directories win.
+	 */
+	private formatDirectories(
+		summaries: RepoMapDirectorySummary[],
+		pathPattern: string | undefined,
+		maxTokens: number,
+	): string[] {
+		let candidates = summaries;
+		if (pathPattern) {
+			const pattern = new RegExp(
+				pathPattern.replace(/\*/g, ".*").replace(/\//g, "\\/"),
+			);
+			candidates = candidates.filter((s) => pattern.test(s.path));
+		}
+
+		const depthOf = (path: string) =>
+			path === "." ? 0 : path.split("/").length;
+		const formatLine = (s: RepoMapDirectorySummary) => {
+			const name = s.path === "." ? "." : `${s.path}/`;
+			const level = s.level === "directory" ? "" : ` (${s.level})`;
+			const firstSentence = s.summary.split(/(?<=[.!?])\s/)[0];
+			return `${INDENT.repeat(depthOf(s.path))}${name}${level}: ${firstSentence}`;
+		};
+
+		const selected: RepoMapDirectorySummary[] = [];
+		let tokens = this.estimateTokens("Directories:");
+		const byDepth = [...candidates].sort(
+			(a, b) => depthOf(a.path) - depthOf(b.path),
+		);
+		for (const summary of byDepth) {
+			const lineTokens = this.estimateTokens(formatLine(summary));
+			if (tokens + lineTokens > maxTokens) break;
+			selected.push(summary);
+			tokens += lineTokens;
+		}
+
+		if (selected.length === 0) {
+			return [];
+		}
+
+		selected.sort((a, b) => comparePaths(a.path, b.path));
+		return ["Directories:", ...selected.map(formatLine)];
+	}
+
 	/**
 	 * Estimate token count for a string
 	 */
@@ -350,6 +457,23 @@ export class RepoMapGenerator {
 	}
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Order paths as a tree walk: parents before children, "." first */
+function comparePaths(a: string, b: string): number {
+	if (a === ".") return b === "." ? 0 : -1;
+	if (b === ".") return 1;
+
+	const aParts = a.split("/");
+	const bParts = b.split("/");
+	for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+		if (aParts[i] !== bParts[i]) return aParts[i] < bParts[i] ? -1 : 1;
+	}
+	return aParts.length - bParts.length;
+}
+
 // ============================================================================
 // Factory Function
 // ============================================================================
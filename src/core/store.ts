@@ -3,11 +3,16 @@
  *
  * Handles vector storage and hybrid search (BM25 + vector similarity)
  * using LanceDB's embedded database.
+ *
+ * In git checkouts the code chunks and code units are not stored in the
+ * project's own table but in the repository's shared rows
+ * (see chunk-store.ts). Queries read both: the own table, and the shared rows
+ * of the file versions the worktree has indexed.
  */
 
 import * as lancedb from "@lancedb/lancedb";
 import { existsSync, mkdirSync } from "node:fs";
-import { dirname } from "node:path";
+import { dirname, isAbsolute, join, relative } from "node:path";
 import type {
 	ASTMetadata,
 	BaseDocument,
@@ -15,6 +20,7 @@ import type {
 	CodeChunk,
 	CodeUnit,
 	CodeUnitWithEmbedding,
+	DirectorySummaryLevel,
 	DocumentType,
 	DocumentWithEmbedding,
 	EnrichedSearchOptions,
@@ -28,6 +34,12 @@ import {
 	type TestFileDetector,
 } from "./analysis/test-detector.js";
 import { getTestFileMode, type TestFileMode } from "../config.js";
+import { getProjectParserManager } from "../parsers/parser-manager.js";
+import { type SharedRows, loadSharedRows } from "./chunk-store.js";
+import {
+	getEffectiveConfidence,
+	normalizeObservationMetadata,
+} from "./observations.js";
 
 // ============================================================================
 // Constants
@@ -45,6 +57,18 @@ const BM25_WEIGHT = 0.4;
 /** Vector weight in hybrid search */
 const VECTOR_WEIGHT = 0.6;
 
+/** Ids per IN (...) filter */
+const ID_BATCH_SIZE = 500;
+
+/** A row's file version ("<path>:<file hash>"), for filters on shared rows */
+const VERSION_COLUMN = "concat(`filePath`, ':', `fileHash`)";
+
+/** Document types stored with the shared rows */
+const SHARED_DOCUMENT_TYPES: ReadonlySet<string> = new Set([
+	"code_chunk",
+	"code_unit",
+]);
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -63,6 +87,58 @@ function escapeFilterValue(value: string): string {
 		.replace(/_/g, "\\_");
 }
 
+/**
+ * Quote ids for an IN (...) filter (exact match, so only quotes are escaped)
+ */
+function quoteIds(ids: string[]): string {
+	return ids.map((id) => `'${id.replace(/'/g, "''")}'`).join(", ");
+}
+
+/**
+ * Key of the rows of one document type for a file version
+ */
+function getVersionKey(row: {
+	documentType: unknown;
+	filePath: unknown;
+	fileHash: unknown;
+}): string {
+	return `${row.documentType}:${row.filePath}:${row.fileHash}`;
+}
+
+/**
+ * Merge vector search results of the own table and the shared rows,
+ * nearest first
+ */
+function mergeNearest<T extends { _distance: number }>(
+	own: T[],
+	shared: T[],
+	limit: number,
+): T[] {
+	if (shared.length === 0) {
+		return own;
+	}
+	return [...own, ...shared]
+		.sort((a, b) => a._distance - b._distance)
+		.slice(0, limit);
+}
+
+/**
+ * Merge full-text search results of the own table and the shared rows,
+ * best match first
+ */
+function mergeBestMatches<T extends { _score: number }>(
+	own: T[],
+	shared: T[],
+	limit: number,
+): T[] {
+	if (shared.length === 0) {
+		return own;
+	}
+	return [...own, ...shared]
+		.sort((a, b) => b._score - a._score)
+		.slice(0, limit);
+}
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -95,12 +171,16 @@ interface StoredChunk {
 	summary: string; // LLM-generated summary of this unit
 }
 
+/** Raw row of the vector table (code chunks, code units and documents) */
+export type VectorRecord = StoredChunk;
+
 export interface SearchOptions {
 	limit?: number;
 	language?: string;
 	filePath?: string;
 	pathPattern?: string;
 	keywordOnly?: boolean;
+	vectorOnly?: boolean;
 	useCase?: SearchUseCase;
 }
 
@@ -124,6 +204,7 @@ export interface IVectorStore {
 	deleteByFile(filePath: string): Promise<number>;
 	deleteByFileHash(fileHash: string): Promise<number>;
 	getChunksWithVectors(filePath: string): Promise<ChunkWithEmbedding[]>;
+	getSharedChunks(files: Map<string, string>): Promise<ChunkWithEmbedding[]>;
 	clear(): Promise<void>;
 	getChunkContents(limit?: number): Promise<string[]>;
 	getStats(): Promise<{
@@ -153,6 +234,13 @@ export interface IVectorStore {
 		newVector: number[],
 	): Promise<boolean>;
 	getAllSummaries(): Promise<Array<BaseDocument & { vector: number[] }>>;
+	getDocumentsByType(
+		documentType: DocumentType,
+	): Promise<Array<BaseDocument & { vector: number[] }>>;
+	updateDocumentMetadata(
+		documentId: string,
+		metadata: Record<string, unknown>,
+	): Promise<boolean>;
 	getCodeUnitsByFile(
 		filePath: string,
 		unitTypes?: UnitType[],
@@ -173,6 +261,10 @@ export interface IVectorStore {
 		},
 	): Promise<Array<CodeUnit & { score: number }>>;
 	getMaxDepth(filePath?: string): Promise<number>;
+	getRecordContents(): Promise<Map<string, string>>;
+	getRecordsByIds(ids: string[]): Promise<VectorRecord[]>;
+	addRecords(records: VectorRecord[]): Promise<void>;
+	deleteByIds(ids: string[]): Promise<number>;
 }
 
 // ============================================================================
@@ -188,13 +280,25 @@ export class VectorStore implements IVectorStore {
 	private tableDimension: number | null = null;
 	private _dimensionMismatchCleared = false;
 	private testFileDetector: TestFileDetector;
+	private shared: SharedRows | null;
+	private sharedTable: lancedb.Table | null = null;
 
-	constructor(dbPath: string, projectPath?: string) {
+	/**
+	 * @param shared Shared rows holding the project's code chunks and units
+	 */
+	constructor(
+		dbPath: string,
+		projectPath?: string,
+		shared: SharedRows | null = null,
+	) {
 		this.dbPath = dbPath;
 		// Extract project path from dbPath if not provided
 		// dbPath is like: /path/to/project/.mnemex/vectors
 		this.projectPath = projectPath ?? dirname(dirname(dbPath));
-		this.testFileDetector = createTestFileDetector();
+		this.testFileDetector = createTestFileDetector(
+			getProjectParserManager(this.projectPath),
+		);
+		this.shared = shared;
 	}
 
 	/**
@@ -270,6 +374,248 @@ export class VectorStore implements IVectorStore {
 		}
 	}
 
+	// ========================================================================
+	// Shared Rows
+	// ========================================================================
+
+	/**
+	 * Whether a row is stored with the shared rows: code chunks and code units
+	 * of files in the worktree (library docs and documents stay in the own
+	 * table)
+	 */
+	private isSharedRow(row: StoredChunk): boolean {
+		if (
+			!this.shared ||
+			!SHARED_DOCUMENT_TYPES.has(row.documentType) ||
+			!isAbsolute(row.filePath)
+		) {
+			return false;
+		}
+
+		const path = relative(this.shared.root, row.filePath);
+		return path !== "" && !path.startsWith("..") && !isAbsolute(path);
+	}
+
+	/**
+	 * Open the shared rows table (null until some worktree stored rows)
+	 */
+	private async openSharedTable(): Promise<lancedb.Table | null> {
+		if (!this.shared || this.sharedTable) {
+			return this.sharedTable;
+		}
+		if (!existsSync(this.shared.dbPath)) {
+			return null;
+		}
+
+		const db = await lancedb.connect(this.shared.dbPath);
+		if ((await db.tableNames()).includes(this.shared.tableName)) {
+			this.sharedTable = await db.openTable(this.shared.tableName);
+		}
+		return this.sharedTable;
+	}
+
+	/**
+	 * Store code rows with the shared rows. File versions stored before (by
+	 * any worktree or branch) are skipped: their rows are the same.
+	 */
+	private async addSharedRows(rows: StoredChunk[]): Promise<void> {
+		const shared = this.shared!;
+		const data = rows.map((row) => ({
+			...row,
+			filePath: relative(shared.root, row.filePath),
+		}));
+
+		const table = await this.openSharedTable();
+		if (table) {
+			const stored = await this.getSharedVersions(table, data);
+			const fresh = data.filter((row) => !stored.has(getVersionKey(row)));
+			if (fresh.length > 0) {
+				await table.add(fresh);
+			}
+			return;
+		}
+
+		if (!existsSync(shared.dbPath)) {
+			mkdirSync(shared.dbPath, { recursive: true });
+		}
+		const db = await lancedb.connect(shared.dbPath);
+		try {
+			this.sharedTable = await db.createTable(shared.tableName, data, {
+				mode: "create",
+			});
+		} catch {
+			// Another worktree created the table first
+			this.sharedTable = await db.openTable(shared.tableName);
+			await this.addSharedRows(rows);
+		}
+	}
+
+	/**
+	 * Version keys (see getVersionKey) of the given rows' file versions that
+	 * the shared rows hold
+	 */
+	private async getSharedVersions(
+		table: lancedb.Table,
+		rows: StoredChunk[],
+	): Promise<Set<string>> {
+		const versions = [
+			...new Set(rows.map((row) => `${row.filePath}:${row.fileHash}`)),
+		];
+		const stored = new Set<string>();
+		for (let i = 0; i < versions.length; i += ID_BATCH_SIZE) {
+			const batch = versions.slice(i, i + ID_BATCH_SIZE);
+			const found = await table
+				.query()
+				.where(`${VERSION_COLUMN} IN (${quoteIds(batch)})`)
+				.select(["documentType", "filePath", "fileHash"])
+				.toArray();
+			for (const row of found) {
+				stored.add(getVersionKey(row));
+			}
+		}
+		return stored;
+	}
+
+	/**
+	 * Filter for the shared rows the worktree sees: the rows of the file
+	 * versions it has indexed, optionally of one file only
+	 *
+	 * @returns null when the worktree sees no shared rows
+	 */
+	private getViewFilter(filePath?: string): string | null {
+		const shared = this.shared!;
+		const view = shared.getView();
+
+		if (filePath !== undefined) {
+			const path = relative(shared.root, filePath);
+			const fileHash = view.get(path);
+			return fileHash
+				? `\`filePath\` = ${quoteIds([path])} AND \`fileHash\` = ${quoteIds([fileHash])}`
+				: null;
+		}
+
+		if (view.size === 0) {
+			return null;
+		}
+		const versions = [...view].map(([path, hash]) => `${path}:${hash}`);
+		return `${VERSION_COLUMN} IN (${quoteIds(versions)})`;
+	}
+
+	/**
+	 * Combine a filter with the worktree's view of the shared rows
+	 *
+	 * @param where Filter on other columns (column names quoted)
+	 * @param filePath Only rows of this file
+	 */
+	private getSharedFilter(where?: string, filePath?: string): string | null {
+		const view = this.getViewFilter(filePath);
+		if (!view) {
+			return null;
+		}
+		return where ? `(${where}) AND ${view}` : view;
+	}
+
+	/**
+	 * Shared rows the worktree sees, with worktree paths
+	 *
+	 * @param where Filter on other columns (column names quoted)
+	 * @param filePath Only rows of this file
+	 */
+	private async querySharedRows(
+		where?: string,
+		filePath?: string,
+	): Promise<any[]> {
+		const table = await this.openSharedTable();
+		const filter = table && this.getSharedFilter(where, filePath);
+		if (!table || !filter) {
+			return [];
+		}
+
+		const rows = await table.query().where(filter).toArray();
+		return rows.map((row) => this.toWorktreeRow(row));
+	}
+
+	/**
+	 * Nearest shared rows the worktree sees, with worktree paths
+	 */
+	private async vectorSearchSharedRows(
+		queryVector: number[],
+		where: string | undefined,
+		limit: number,
+	): Promise<any[]> {
+		const table = await this.openSharedTable();
+		const filter = table && this.getSharedFilter(where);
+		if (!table || !filter) {
+			return [];
+		}
+
+		const rows = await table
+			.vectorSearch(queryVector)
+			.where(filter)
+			.limit(limit)
+			.toArray();
+		return rows.map((row) => this.toWorktreeRow(row));
+	}
+
+	private sharedFtsIndexReady = false;
+
+	/**
+	 * Best BM25 matches among the shared rows the worktree sees, with
+	 * worktree paths
+	 */
+	private async fullTextSearchSharedRows(
+		queryText: string,
+		where: string | undefined,
+		limit: number,
+	): Promise<any[]> {
+		const table = await this.openSharedTable();
+		const filter = table && this.getSharedFilter(where);
+		if (!table || !filter) {
+			return [];
+		}
+
+		try {
+			if (!this.sharedFtsIndexReady) {
+				await table.createIndex("content", {
+					config: lancedb.Index.fts(),
+					replace: true,
+				});
+				this.sharedFtsIndexReady = true;
+			}
+			const rows = await table
+				.query()
+				.fullTextSearch(queryText, { columns: ["content"] })
+				.where(filter)
+				.limit(limit)
+				.toArray();
+			return rows.map((row) => this.toWorktreeRow(row));
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Store the code rows that belong with the shared rows there
+	 *
+	 * @returns The rows for the own table
+	 */
+	private async storeSharedRows(rows: StoredChunk[]): Promise<StoredChunk[]> {
+		if (!this.shared) {
+			return rows;
+		}
+
+		const own = rows.filter((row) => !this.isSharedRow(row));
+		if (own.length < rows.length) {
+			await this.addSharedRows(rows.filter((row) => this.isSharedRow(row)));
+		}
+		return own;
+	}
+
+	/** A shared row with the path resolved in this worktree */
+	private toWorktreeRow<T extends { filePath: string }>(row: T): T {
+		return { ...row, filePath: join(this.shared!.root, row.filePath) };
+	}
+
 	/**
 	 * Add chunks with embeddings to the store
 	 */
@@ -281,7 +627,7 @@ export class VectorStore implements IVectorStore {
 		// Convert to stored format
 		// Use empty strings instead of null for optional fields to avoid Arrow type inference issues
 		const now = new Date().toISOString();
-		const data: StoredChunk[] = chunks.map((chunk) => ({
+		const rows: StoredChunk[] = chunks.map((chunk) => ({
 			id: chunk.id,
 			contentHash: chunk.contentHash || "", // For incremental diffing
 			content: chunk.content,
@@ -308,6 +654,11 @@ export class VectorStore implements IVectorStore {
 			summary: "",
 		}));
 
+		const data = await this.storeSharedRows(rows);
+		if (data.length === 0) {
+			return;
+		}
+
 		// Try to open existing table
 		let table = await this.ensureTableOpen();
 
@@ -373,24 +724,25 @@ export class VectorStore implements IVectorStore {
 			filePath,
 			pathPattern,
 			keywordOnly,
+			vectorOnly,
 			useCase,
 		} = options;
 
 		const table = await this.ensureTableOpen();
-		if (!table) {
+		if (!table && !(await this.openSharedTable())) {
 			return [];
 		}
 
 		// Build filter string with escaped values to prevent injection
 		const filters: string[] = [];
 		if (language) {
-			filters.push(`language = '${escapeFilterValue(language)}'`);
+			filters.push(`\`language\` = '${escapeFilterValue(language)}'`);
 		}
 		if (filePath) {
-			filters.push(`filePath LIKE '%${escapeFilterValue(filePath)}%'`);
+			filters.push(`\`filePath\` LIKE '%${escapeFilterValue(filePath)}%'`);
 		}
 		if (pathPattern) {
-			filters.push(`filePath LIKE '%${escapeFilterValue(pathPattern)}%'`);
+			filters.push(`\`filePath\` LIKE '%${escapeFilterValue(pathPattern)}%'`);
 		}
 		const filterStr = filters.length > 0 ? filters.join(" AND ") : undefined;
 
@@ -400,27 +752,43 @@ export class VectorStore implements IVectorStore {
 		// Vector search (skip if keyword-only mode or no vector)
 		let vectorResults: any[] = [];
 		if (!keywordOnly && queryVector) {
-			let vectorQuery = table.vectorSearch(queryVector).limit(fetchLimit);
-			if (filterStr) {
-				vectorQuery = vectorQuery.where(filterStr);
+			if (table) {
+				let vectorQuery = table.vectorSearch(queryVector).limit(fetchLimit);
+				if (filterStr) {
+					vectorQuery = vectorQuery.where(filterStr);
+				}
+				vectorResults = await vectorQuery.toArray();
 			}
-			vectorResults = await vectorQuery.toArray();
+			vectorResults = mergeNearest(
+				vectorResults,
+				await this.vectorSearchSharedRows(queryVector, filterStr, fetchLimit),
+				fetchLimit,
+			);
 		}
 
-		// BM25 full-text search (if available)
-		await this.ensureFtsIndex();
+		// BM25 full-text search (if available; skipped for vector-only queries)
 		let bm25Results: any[] = [];
-		try {
-			let ftsQuery = table
-				.query()
-				.fullTextSearch(queryText, { columns: ["content"] })
-				.limit(fetchLimit);
-			if (filterStr) {
-				ftsQuery = ftsQuery.where(filterStr);
+		if (!vectorOnly || !queryVector) {
+			if (table) {
+				await this.ensureFtsIndex();
+				try {
+					let ftsQuery = table
+						.query()
+						.fullTextSearch(queryText, { columns: ["content"] })
+						.limit(fetchLimit);
+					if (filterStr) {
+						ftsQuery = ftsQuery.where(filterStr);
+					}
+					bm25Results = await ftsQuery.toArray();
+				} catch {
+					bm25Results = [];
+				}
 			}
-			bm25Results = await ftsQuery.toArray();
-		} catch {
-			bm25Results = [];
+			bm25Results = mergeBestMatches(
+				bm25Results,
+				await this.fullTextSearchSharedRows(queryText, filterStr, fetchLimit),
+				fetchLimit,
+			);
 		}
 
 		// Type-aware Reciprocal Rank Fusion
@@ -467,11 +835,19 @@ export class VectorStore implements IVectorStore {
 						targetMap.set(srcId, summaryText);
 					}
 				}
+			} else if (docType === "session_observation") {
+				// Retired observations are kept but not surfaced; aged or
+				// flagged ones rank lower
+				const weight = getObservationWeight(r);
+				if (weight > 0) {
+					codeResults.push({ ...r, fusedScore: r.fusedScore * weight });
+				}
 			} else {
-				// code_chunk, code_unit, session_observation, etc.
+				// code_chunk, code_unit, etc.
 				codeResults.push(r);
 			}
 		}
+		codeResults.sort((a, b) => b.fusedScore - a.fusedScore);
 
 		// Attach summaries to their source code chunks
 		// Prefer symbol-level summary (more specific), fall back to file-level
@@ -522,12 +898,20 @@ export class VectorStore implements IVectorStore {
 							observationMetadata: meta,
 						}
 					: {}),
+				...(docType === "directory_summary"
+					? {
+							documentType: "directory_summary" as const,
+							directoryLevel: meta?.level as DirectorySummaryLevel | undefined,
+						}
+					: {}),
 			};
 		});
 	}
 
 	/**
 	 * Delete all chunks from a specific file
+	 * (shared rows stay; the file leaves the worktree's view with its tracker
+	 * entry, and its rows are pruned once no branch references them)
 	 */
 	async deleteByFile(filePath: string): Promise<number> {
 		if (!this.db || !this.table) {
@@ -564,40 +948,68 @@ export class VectorStore implements IVectorStore {
 	 */
 	async getChunksWithVectors(filePath: string): Promise<ChunkWithEmbedding[]> {
 		const table = await this.ensureTableOpen();
-		if (!table) {
+
+		try {
+			const results = [
+				...(table
+					? await table
+							.query()
+							.where(
+								`\`filePath\` = ${quoteIds([filePath])} AND \`documentType\` = 'code_chunk'`,
+							)
+							.toArray()
+					: []),
+				...(await this.querySharedRows(
+					"`documentType` = 'code_chunk'",
+					filePath,
+				)),
+			];
+
+			return results.map((row) => this.rowToChunk(row));
+		} catch {
 			return [];
 		}
+	}
 
-		try {
-			const results = await table
+	/**
+	 * Get the code chunks the shared rows hold for file versions, indexed by
+	 * any worktree or branch, with their vectors. Files whose version was
+	 * indexed before can take these instead of being chunked and embedded.
+	 *
+	 * @param files Absolute path → file hash
+	 */
+	async getSharedChunks(
+		files: Map<string, string>,
+	): Promise<ChunkWithEmbedding[]> {
+		const table = await this.openSharedTable();
+		if (!table || files.size === 0) {
+			return [];
+		}
+
+		const root = this.shared!.root;
+		const versions = [...files].map(
+			([filePath, fileHash]) => `${relative(root, filePath)}:${fileHash}`,
+		);
+		const chunks: ChunkWithEmbedding[] = [];
+		for (let i = 0; i < versions.length; i += ID_BATCH_SIZE) {
+			const batch = versions.slice(i, i + ID_BATCH_SIZE);
+			const rows = await table
 				.query()
 				.where(
-					`filePath = '${escapeFilterValue(filePath)}' AND documentType = 'code_chunk'`,
+					`\`documentType\` = 'code_chunk' AND ${VERSION_COLUMN} IN (${quoteIds(batch)})`,
 				)
 				.toArray();
-
-			return results.map((row) => ({
-				id: row.id,
-				contentHash: row.contentHash || "",
-				content: row.content,
-				filePath: row.filePath,
-				startLine: row.startLine,
-				endLine: row.endLine,
-				language: row.language,
-				chunkType: row.chunkType as any,
-				name: row.name || undefined,
-				parentName: row.parentName || undefined,
-				signature: row.signature || undefined,
-				fileHash: row.fileHash,
-				vector: row.vector,
-			}));
-		} catch {
-			return [];
+			for (const row of rows) {
+				const chunk = this.rowToChunk(this.toWorktreeRow(row));
+				// Arrow vectors to plain arrays
+				chunks.push({ ...chunk, vector: Array.from(chunk.vector) });
+			}
 		}
+		return chunks;
 	}
 
 	/**
-	 * Delete all chunks
+	 * Delete all chunks (of the own table; shared rows are only pruned)
 	 */
 	async clear(): Promise<void> {
 		if (!this.db) {
@@ -617,17 +1029,19 @@ export class VectorStore implements IVectorStore {
 	 */
 	async getChunkContents(limit?: number): Promise<string[]> {
 		const table = await this.ensureTableOpen();
-		if (!table) {
-			return [];
-		}
 
 		try {
-			let query = table.query();
-			if (limit) {
+			let query = table?.query();
+			if (query && limit) {
 				query = query.limit(limit);
 			}
-			const allData = await query.toArray();
-			return allData.map((row) => row.content as string);
+			const allData = [
+				...((await query?.toArray()) ?? []),
+				...(await this.querySharedRows()),
+			];
+			return (limit ? allData.slice(0, limit) : allData).map(
+				(row) => row.content as string,
+			);
 		} catch {
 			return [];
 		}
@@ -643,12 +1057,12 @@ export class VectorStore implements IVectorStore {
 	}> {
 		// Ensure table is opened before querying
 		const table = await this.ensureTableOpen();
-		if (!table) {
-			return { totalChunks: 0, uniqueFiles: 0, languages: [] };
-		}
 
 		try {
-			const allData = await table.query().toArray();
+			const allData = [
+				...(table ? await table.query().toArray() : []),
+				...(await this.querySharedRows()),
+			];
 
 			const files = new Set<string>();
 			const languages = new Set<string>();
@@ -668,6 +1082,101 @@ export class VectorStore implements IVectorStore {
 		}
 	}
 
+	// ========================================================================
+	// Raw Record Methods (used to copy the table for model migration)
+	// ========================================================================
+
+	/**
+	 * Get the content of every row keyed by id, without vectors (streamed in
+	 * record batches, so the table is never loaded at once)
+	 */
+	async getRecordContents(): Promise<Map<string, string>> {
+		const contents = new Map<string, string>();
+		const queries: lancedb.Query[] = [];
+		const table = await this.ensureTableOpen();
+		if (table) {
+			queries.push(table.query());
+		}
+		const sharedTable = await this.openSharedTable();
+		const viewFilter = sharedTable && this.getViewFilter();
+		if (sharedTable && viewFilter) {
+			queries.push(sharedTable.query().where(viewFilter));
+		}
+
+		for (const query of queries) {
+			for await (const batch of query.select(["id", "content"])) {
+				for (const row of batch.toArray()) {
+					contents.set(row.id as string, row.content as string);
+				}
+			}
+		}
+		return contents;
+	}
+
+	/**
+	 * Get rows by id, with vectors (ids that do not exist are skipped)
+	 */
+	async getRecordsByIds(ids: string[]): Promise<VectorRecord[]> {
+		const table = await this.ensureTableOpen();
+		if (ids.length === 0) {
+			return [];
+		}
+
+		const records: VectorRecord[] = [];
+		for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+			const filter = `id IN (${quoteIds(ids.slice(i, i + ID_BATCH_SIZE))})`;
+			const rows = [
+				...(table ? await table.query().where(filter).toArray() : []),
+				...(await this.querySharedRows(filter)),
+			];
+			for (const row of rows) {
+				records.push({
+					...row,
+					// Arrow vectors to plain arrays
+					vector: Array.from(row.vector as ArrayLike<number>),
+				} as VectorRecord);
+			}
+		}
+		return records;
+	}
+
+	/**
+	 * Add raw rows as they are (creates the table from the first batch)
+	 */
+	async addRecords(rows: VectorRecord[]): Promise<void> {
+		const records = await this.storeSharedRows(rows);
+		if (records.length === 0) {
+			return;
+		}
+
+		const table = await this.ensureTableOpen();
+		if (table) {
+			await table.add(records);
+		} else if (this.db) {
+			this.table = await this.db.createTable(CHUNKS_TABLE, records, {
+				mode: "create",
+			});
+			this.tableDimension = records[0].vector.length;
+		}
+	}
+
+	/**
+	 * Delete rows by id (of the own table; shared rows are only pruned)
+	 */
+	async deleteByIds(ids: string[]): Promise<number> {
+		const table = await this.ensureTableOpen();
+		if (!table || ids.length === 0) {
+			return 0;
+		}
+
+		for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+			await table.delete(
+				`id IN (${quoteIds(ids.slice(i, i + ID_BATCH_SIZE))})`,
+			);
+		}
+		return ids.length;
+	}
+
 	// ========================================================================
 	// Enriched Document Methods
 	// ========================================================================
@@ -787,18 +1296,24 @@ export class VectorStore implements IVectorStore {
 		documentTypes?: DocumentType[],
 	): Promise<BaseDocument[]> {
 		const table = await this.ensureTableOpen();
-		if (!table) {
-			return [];
-		}
 
 		try {
-			let filter = `filePath = '${filePath}'`;
+			let where = "";
 			if (documentTypes && documentTypes.length > 0) {
 				const types = documentTypes.map((t) => `'${t}'`).join(", ");
-				filter += ` AND documentType IN (${types})`;
+				where = `\`documentType\` IN (${types})`;
 			}
 
-			const results = await table.query().where(filter).toArray();
+			const filter = `\`filePath\` = ${quoteIds([filePath])}`;
+			const results = [
+				...(table
+					? await table
+							.query()
+							.where(where ? `${filter} AND ${where}` : filter)
+							.toArray()
+					: []),
+				...(await this.querySharedRows(where || undefined, filePath)),
+			];
 
 			return results.map((row) => ({
 				id: row.id,
@@ -835,17 +1350,17 @@ export class VectorStore implements IVectorStore {
 		} = options;
 
 		const table = await this.ensureTableOpen();
-		if (!table) {
+		if (!table && !(await this.openSharedTable())) {
 			return [];
 		}
 
 		// Build filter string with escaped values to prevent injection
 		const filters: string[] = [];
 		if (language) {
-			filters.push(`language = '${escapeFilterValue(language)}'`);
+			filters.push(`\`language\` = '${escapeFilterValue(language)}'`);
 		}
 		if (pathPattern) {
-			filters.push(`filePath LIKE '%${escapeFilterValue(pathPattern)}%'`);
+			filters.push(`\`filePath\` LIKE '%${escapeFilterValue(pathPattern)}%'`);
 		}
 
 		// Filter by document types (these are enum values, but escape anyway for safety)
@@ -866,33 +1381,58 @@ export class VectorStore implements IVectorStore {
 			const types = effectiveTypes
 				.map((t) => `'${escapeFilterValue(t)}'`)
 				.join(", ");
-			filters.push(`documentType IN (${types})`);
+			filters.push(`\`documentType\` IN (${types})`);
 		}
 
 		const filterStr = filters.length > 0 ? filters.join(" AND ") : undefined;
+		// Shared rows only hold code chunks and code units
+		const sharedLimit =
+			!effectiveTypes ||
+			effectiveTypes.some((t) => SHARED_DOCUMENT_TYPES.has(t))
+				? limit * 3
+				: 0;
 
 		// Vector search
-		let vectorQuery = table.vectorSearch(queryVector).limit(limit * 3);
-		if (filterStr) {
-			vectorQuery = vectorQuery.where(filterStr);
+		let vectorResults: any[] = [];
+		if (table) {
+			let vectorQuery = table.vectorSearch(queryVector).limit(limit * 3);
+			if (filterStr) {
+				vectorQuery = vectorQuery.where(filterStr);
+			}
+			vectorResults = await vectorQuery.toArray();
 		}
-		const vectorResults = await vectorQuery.toArray();
+		vectorResults = mergeNearest(
+			vectorResults,
+			sharedLimit > 0
+				? await this.vectorSearchSharedRows(queryVector, filterStr, sharedLimit)
+				: [],
+			limit * 3,
+		);
 
 		// BM25 full-text search
-		await this.ensureFtsIndex();
 		let bm25Results: any[] = [];
-		try {
-			let ftsQuery = table
-				.query()
-				.fullTextSearch(queryText, { columns: ["content"] })
-				.limit(limit * 3);
-			if (filterStr) {
-				ftsQuery = ftsQuery.where(filterStr);
+		if (table) {
+			await this.ensureFtsIndex();
+			try {
+				let ftsQuery = table
+					.query()
+					.fullTextSearch(queryText, { columns: ["content"] })
+					.limit(limit * 3);
+				if (filterStr) {
+					ftsQuery = ftsQuery.where(filterStr);
+				}
+				bm25Results = await ftsQuery.toArray();
+			} catch {
+				bm25Results = [];
 			}
-			bm25Results = await ftsQuery.toArray();
-		} catch {
-			bm25Results = [];
 		}
+		bm25Results = mergeBestMatches(
+			bm25Results,
+			sharedLimit > 0
+				? await this.fullTextSearchSharedRows(queryText, filterStr, sharedLimit)
+				: [],
+			limit * 3,
+		);
 
 		// Get weights for the use case
 		const weights = typeWeights || getUseCaseWeights(useCase);
@@ -936,12 +1476,12 @@ export class VectorStore implements IVectorStore {
 	 */
 	async getDocumentTypeStats(): Promise<Record<DocumentType, number>> {
 		const table = await this.ensureTableOpen();
-		if (!table) {
-			return {} as Record<DocumentType, number>;
-		}
 
 		try {
-			const allData = await table.query().toArray();
+			const allData = [
+				...(table ? await table.query().toArray() : []),
+				...(await this.querySharedRows()),
+			];
 
 			const counts: Record<string, number> = {};
 			for (const row of allData) {
@@ -962,6 +1502,7 @@ export class VectorStore implements IVectorStore {
 		// LanceDB connections are auto-managed
 		this.db = null;
 		this.table = null;
+		this.sharedTable = null;
 	}
 
 	// ========================================================================
@@ -977,7 +1518,7 @@ export class VectorStore implements IVectorStore {
 		}
 
 		const now = new Date().toISOString();
-		const data: StoredChunk[] = units.map((unit) => ({
+		const rows: StoredChunk[] = units.map((unit) => ({
 			id: unit.id,
 			contentHash: "", // CodeUnits don't use contentHash (for incremental diffing)
 			content: unit.content,
@@ -1004,6 +1545,11 @@ export class VectorStore implements IVectorStore {
 			summary: "", // Will be populated by summarization phase
 		}));
 
+		const data = await this.storeSharedRows(rows);
+		if (data.length === 0) {
+			return;
+		}
+
 		let table = await this.ensureTableOpen();
 
 		// Check for dimension mismatch
@@ -1046,6 +1592,25 @@ export class VectorStore implements IVectorStore {
 	 * Update summary for a code unit (used during bottom-up summarization)
 	 */
 	async updateUnitSummary(unitId: string, summary: string): Promise<void> {
+		// A shared unit's summary is shared as well
+		const sharedTable = await this.openSharedTable();
+		const sharedFilter =
+			sharedTable && this.getSharedFilter(`id = ${quoteIds([unitId])}`);
+		if (sharedTable && sharedFilter) {
+			try {
+				if ((await sharedTable.countRows(sharedFilter)) > 0) {
+					await sharedTable.update({
+						where: sharedFilter,
+						values: { summary },
+					});
+					return;
+				}
+			} catch (error) {
+				console.warn(`Failed to update summary for unit ${unitId}:`, error);
+				return;
+			}
+		}
+
 		const table = await this.ensureTableOpen();
 		if (!table) return;
 
@@ -1139,6 +1704,76 @@ export class VectorStore implements IVectorStore {
 		}
 	}
 
+	/**
+	 * Get all documents of one type with their vectors
+	 */
+	async getDocumentsByType(
+		documentType: DocumentType,
+	): Promise<Array<BaseDocument & { vector: number[] }>> {
+		const table = await this.ensureTableOpen();
+
+		try {
+			const filter = `\`documentType\` = '${escapeFilterValue(documentType)}'`;
+			const results = [
+				...(table ? await table.query().where(filter).toArray() : []),
+				...(SHARED_DOCUMENT_TYPES.has(documentType)
+					? await this.querySharedRows(filter)
+					: []),
+			];
+
+			return results.map((row) => ({
+				id: row.id,
+				content: row.content,
+				documentType: row.documentType as DocumentType,
+				filePath: row.filePath || undefined,
+				fileHash: row.fileHash || undefined,
+				createdAt: row.createdAt,
+				enrichedAt: row.enrichedAt || undefined,
+				sourceIds: row.sourceIds ? JSON.parse(row.sourceIds) : undefined,
+				metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+				vector: Array.from(row.vector as ArrayLike<number>),
+			}));
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Replace the metadata of a document (content and vector are kept)
+	 */
+	async updateDocumentMetadata(
+		documentId: string,
+		metadata: Record<string, unknown>,
+	): Promise<boolean> {
+		const table = await this.ensureTableOpen();
+		if (!table) return false;
+
+		try {
+			// LanceDB update via delete + insert pattern
+			const results = await table
+				.query()
+				.where(`id = '${escapeFilterValue(documentId)}'`)
+				.toArray();
+			if (results.length === 0) return false;
+
+			const existing = results[0] as StoredChunk;
+
+			await table.delete(`id = '${escapeFilterValue(documentId)}'`);
+			await table.add([
+				{
+					...existing,
+					vector: Array.from(existing.vector),
+					metadata: JSON.stringify(metadata),
+				},
+			]);
+
+			return true;
+		} catch (error) {
+			console.warn(`Failed to update document ${documentId}:`, error);
+			return false;
+		}
+	}
+
 	/**
 	 * Get code units for a file, optionally filtered by unit type
 	 */
@@ -1147,18 +1782,21 @@ export class VectorStore implements IVectorStore {
 		unitTypes?: UnitType[],
 	): Promise<CodeUnit[]> {
 		const table = await this.ensureTableOpen();
-		if (!table) return [];
 
 		try {
-			let filter = `filePath = '${escapeFilterValue(filePath)}' AND documentType = 'code_unit'`;
+			let where = "`documentType` = 'code_unit'";
 			if (unitTypes && unitTypes.length > 0) {
 				const types = unitTypes
 					.map((t) => `'${escapeFilterValue(t)}'`)
 					.join(", ");
-				filter += ` AND unitType IN (${types})`;
+				where += ` AND \`unitType\` IN (${types})`;
 			}
 
-			const results = await table.query().where(filter).toArray();
+			const filter = `\`filePath\` = ${quoteIds([filePath])} AND ${where}`;
+			const results = [
+				...(table ? await table.query().where(filter).toArray() : []),
+				...(await this.querySharedRows(where, filePath)),
+			];
 
 			return results.map((row) => this.rowToCodeUnit(row));
 		} catch {
@@ -1174,15 +1812,16 @@ export class VectorStore implements IVectorStore {
 		filePath?: string,
 	): Promise<CodeUnit[]> {
 		const table = await this.ensureTableOpen();
-		if (!table) return [];
 
 		try {
-			let filter = `depth = ${depth} AND documentType = 'code_unit'`;
-			if (filePath) {
-				filter += ` AND filePath = '${escapeFilterValue(filePath)}'`;
-			}
-
-			const results = await table.query().where(filter).toArray();
+			const where = `depth = ${depth} AND \`documentType\` = 'code_unit'`;
+			const filter = filePath
+				? `${where} AND \`filePath\` = ${quoteIds([filePath])}`
+				: where;
+			const results = [
+				...(table ? await table.query().where(filter).toArray() : []),
+				...(await this.querySharedRows(where, filePath)),
+			];
 
 			return results.map((row) => this.rowToCodeUnit(row));
 		} catch {
@@ -1195,11 +1834,13 @@ export class VectorStore implements IVectorStore {
 	 */
 	async getChildUnits(parentId: string): Promise<CodeUnit[]> {
 		const table = await this.ensureTableOpen();
-		if (!table) return [];
 
 		try {
-			const filter = `parentId = '${escapeFilterValue(parentId)}' AND documentType = 'code_unit'`;
-			const results = await table.query().where(filter).toArray();
+			const filter = `\`parentId\` = ${quoteIds([parentId])} AND \`documentType\` = 'code_unit'`;
+			const results = [
+				...(table ? await table.query().where(filter).toArray() : []),
+				...(await this.querySharedRows(filter)),
+			];
 
 			return results.map((row) => this.rowToCodeUnit(row));
 		} catch {
@@ -1212,11 +1853,13 @@ export class VectorStore implements IVectorStore {
 	 */
 	async getCodeUnit(unitId: string): Promise<CodeUnit | null> {
 		const table = await this.ensureTableOpen();
-		if (!table) return null;
 
 		try {
-			const filter = `id = '${escapeFilterValue(unitId)}'`;
-			const results = await table.query().where(filter).toArray();
+			const filter = `id = ${quoteIds([unitId])}`;
+			const results = [
+				...(table ? await table.query().where(filter).toArray() : []),
+				...(await this.querySharedRows(filter)),
+			];
 
 			if (results.length === 0) return null;
 			return this.rowToCodeUnit(results[0]);
@@ -1250,16 +1893,16 @@ export class VectorStore implements IVectorStore {
 		} = options;
 
 		const table = await this.ensureTableOpen();
-		if (!table) return [];
+		if (!table && !(await this.openSharedTable())) return [];
 
 		// Build filter
-		const filters: string[] = ["documentType = 'code_unit'"];
+		const filters: string[] = ["`documentType` = 'code_unit'"];
 
 		if (unitTypes && unitTypes.length > 0) {
 			const types = unitTypes
 				.map((t) => `'${escapeFilterValue(t)}'`)
 				.join(", ");
-			filters.push(`unitType IN (${types})`);
+			filters.push(`\`unitType\` IN (${types})`);
 		}
 		if (minDepth !== undefined) {
 			filters.push(`depth >= ${minDepth}`);
@@ -1268,29 +1911,44 @@ export class VectorStore implements IVectorStore {
 			filters.push(`depth <= ${maxDepth}`);
 		}
 		if (filePath) {
-			filters.push(`filePath LIKE '%${escapeFilterValue(filePath)}%'`);
+			filters.push(`\`filePath\` LIKE '%${escapeFilterValue(filePath)}%'`);
 		}
 
 		const filterStr = filters.join(" AND ");
 
 		// Vector search
-		let vectorQuery = table.vectorSearch(queryVector).limit(limit * 2);
-		vectorQuery = vectorQuery.where(filterStr);
-		const vectorResults = await vectorQuery.toArray();
+		let vectorResults: any[] = [];
+		if (table) {
+			let vectorQuery = table.vectorSearch(queryVector).limit(limit * 2);
+			vectorQuery = vectorQuery.where(filterStr);
+			vectorResults = await vectorQuery.toArray();
+		}
+		vectorResults = mergeNearest(
+			vectorResults,
+			await this.vectorSearchSharedRows(queryVector, filterStr, limit * 2),
+			limit * 2,
+		);
 
 		// BM25 search (search both content and summary if summaries exist)
-		await this.ensureFtsIndex();
 		let bm25Results: any[] = [];
-		try {
-			let ftsQuery = table
-				.query()
-				.fullTextSearch(queryText, { columns: ["content"] })
-				.limit(limit * 2);
-			ftsQuery = ftsQuery.where(filterStr);
-			bm25Results = await ftsQuery.toArray();
-		} catch {
-			bm25Results = [];
+		if (table) {
+			await this.ensureFtsIndex();
+			try {
+				let ftsQuery = table
+					.query()
+					.fullTextSearch(queryText, { columns: ["content"] })
+					.limit(limit * 2);
+				ftsQuery = ftsQuery.where(filterStr);
+				bm25Results = await ftsQuery.toArray();
+			} catch {
+				bm25Results = [];
+			}
 		}
+		bm25Results = mergeBestMatches(
+			bm25Results,
+			await this.fullTextSearchSharedRows(queryText, filterStr, limit * 2),
+			limit * 2,
+		);
 
 		// RRF fusion with test file handling
 		const testFileMode = getTestFileMode(this.projectPath);
@@ -1314,15 +1972,16 @@ export class VectorStore implements IVectorStore {
 	 */
 	async getMaxDepth(filePath?: string): Promise<number> {
 		const table = await this.ensureTableOpen();
-		if (!table) return 0;
 
 		try {
-			let filter = "documentType = 'code_unit'";
-			if (filePath) {
-				filter += ` AND filePath = '${escapeFilterValue(filePath)}'`;
-			}
-
-			const results = await table.query().where(filter).toArray();
+			const where = "`documentType` = 'code_unit'";
+			const filter = filePath
+				? `${where} AND \`filePath\` = ${quoteIds([filePath])}`
+				: where;
+			const results = [
+				...(table ? await table.query().where(filter).toArray() : []),
+				...(await this.querySharedRows(where, filePath)),
+			];
 			if (results.length === 0) return 0;
 
 			return Math.max(...results.map((r) => (r.depth as number) || 0));
@@ -1331,6 +1990,27 @@ export class VectorStore implements IVectorStore {
 		}
 	}
 
+	/**
+	 * Convert database row to a code chunk with its vector
+	 */
+	private rowToChunk(row: any): ChunkWithEmbedding {
+		return {
+			id: row.id,
+			contentHash: row.contentHash || "",
+			content: row.content,
+			filePath: row.filePath,
+			startLine: row.startLine,
+			endLine: row.endLine,
+			language: row.language,
+			chunkType: row.chunkType as any,
+			name: row.name || undefined,
+			parentName: row.parentName || undefined,
+			signature: row.signature || undefined,
+			fileHash: row.fileHash,
+			vector: row.vector,
+		};
+	}
+
 	/**
 	 * Convert database row to CodeUnit
 	 */
@@ -1366,6 +2046,28 @@ interface FusedResult extends StoredChunk {
 /** Test file weight multiplier for downranking */
 const TEST_FILE_WEIGHT = 0.3;
 
+/**
+ * Ranking weight of an observation: its decayed confidence relative to the
+ * recorded one (0 when retired)
+ */
+function getObservationWeight(r: FusedResult): number {
+	let raw: Record<string, unknown> | undefined;
+	try {
+		raw = typeof r.metadata === "string" ? JSON.parse(r.metadata) : undefined;
+	} catch {
+		raw = undefined;
+	}
+
+	const metadata = normalizeObservationMetadata(raw, r.filePath);
+	if (metadata.confidence <= 0) {
+		return metadata.status === "retired" ? 0 : 1;
+	}
+	return (
+		getEffectiveConfidence({ createdAt: r.createdAt, metadata }) /
+		metadata.confidence
+	);
+}
+
 /**
  * Combine results from vector and BM25 search using RRF
  */
@@ -1486,6 +2188,7 @@ const USE_CASE_WEIGHTS: Record<
 		best_practice: 0.05, // Best practices
 		api_reference: 0.05, // API reference
 		session_observation: 0.2, // High — observations most useful for search
+		directory_summary: 0.1, // "What does this package do" questions
 	},
 	// Agent navigation: prioritize understanding structure and patterns
 	navigation: {
@@ -1498,6 +2201,7 @@ const USE_CASE_WEIGHTS: Record<
 		api_reference: 0.08, // API navigation
 		best_practice: 0.02, // Light guidance
 		session_observation: 0.15, // Medium — useful for understanding architecture
+		directory_summary: 0.12, // Package/directory overviews for orientation
 	},
 };
 
@@ -1523,6 +2227,7 @@ function getUseCaseWeights(
 		best_practice: 0.05,
 		api_reference: 0.05,
 		session_observation: 0.15,
+		directory_summary: 0.08,
 	};
 }
 
@@ -1634,5 +2339,10 @@ export function createVectorStore(
 	dbPath: string,
 	projectPath?: string,
 ): IVectorStore {
-	return new VectorStore(dbPath, projectPath);
+	// Tables of git checkouts are linked to the repository's shared rows
+	const shared = loadSharedRows(
+		dbPath,
+		projectPath ?? dirname(dirname(dbPath)),
+	);
+	return new VectorStore(dbPath, projectPath, shared);
 }
@@ -0,0 +1,563 @@
+/**
+ * Directory Summarizer
+ *
+ * Continues the bottom-up hierarchy above files:
+ * 1. File summaries (from enrichment) are the leaves
+ * 2. Directories inject their files' and subdirectories' summaries
+ * 3. Package roots (directories with a manifest) and the workspace root
+ *    are summarized the same way, with their package name attached
+ *
+ * Every summary records a hash of the child summaries it was built from,
+ * so a refresh only regenerates directories with changed descendants.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { join, posix } from "node:path";
+import { getVectorStorePath } from "../../config.js";
+import type {
+	BaseDocument,
+	DirectorySummary,
+	DirectorySummaryLevel,
+	IEmbeddingsClient,
+	ILLMClient,
+	LLMMessage,
+	RepoMapDirectorySummary,
+} from "../../types.js";
+import { type IVectorStore, createVectorStore } from "../store.js";
+import {
+	type DirectorySummaryInput,
+	SUMMARY_SYSTEM_PROMPT,
+	buildDirectorySummaryPrompt,
+} from "./prompts.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DirectoryNode {
+	/** Directory path relative to the project root ("." for the workspace) */
+	path: string;
+	level: DirectorySummaryLevel;
+	/** Number of path segments ("." is 0) */
+	depth: number;
+	/** Files directly in this directory */
+	files: string[];
+	/** Direct subdirectories */
+	directories: string[];
+}
+
+export interface DirectorySummarizationOptions {
+	/** Maximum concurrent LLM calls */
+	concurrency?: number;
+	/** Progress callback */
+	onProgress?: (completed: number, total: number, status: string) => void;
+	/** Package root detection (default: a manifest file in the directory) */
+	isPackageRoot?: (dir: string) => boolean;
+}
+
+export interface DirectorySummarizationResult {
+	summariesGenerated: number;
+	/** Directories whose children did not change */
+	summariesReused: number;
+	/** Summaries of directories that no longer contain summarized files */
+	summariesRemoved: number;
+	errors: Array<{ path: string; error: string }>;
+	/** Embedding cost of the new summaries */
+	cost?: number;
+	durationMs: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Files that make a directory a package root */
+const PACKAGE_MANIFESTS = [
+	"package.json",
+	"pyproject.toml",
+	"setup.py",
+	"go.mod",
+	"Cargo.toml",
+	"pom.xml",
+	"build.gradle",
+	"composer.json",
+];
+
+/** Children listed per prompt; larger directories are truncated */
+const MAX_CHILDREN_PER_PROMPT = 60;
+
+// ============================================================================
+// Directory Tree
+// ============================================================================
+
+/**
+ * Build the directory nodes containing the given files (relative paths),
+ * deepest directories first so children are summarized before parents.
+ */
+export function buildDirectoryTree(
+	filePaths: string[],
+	isPackageRoot: (dir: string) => boolean = () => false,
+): DirectoryNode[] {
+	const nodes = new Map<string, DirectoryNode>();
+
+	const getNode = (path: string): DirectoryNode => {
+		let node = nodes.get(path);
+		if (!node) {
+			node = {
+				path,
+				level:
+					path === "."
+						? "workspace"
+						: isPackageRoot(path)
+							? "package"
+							: "directory",
+				depth: path === "." ? 0 : path.split("/").length,
+				files: [],
+				directories: [],
+			};
+			nodes.set(path, node);
+
+			if (path !== ".") {
+				getNode(posix.dirname(path)).directories.push(path);
+			}
+		}
+		return node;
+	};
+
+	for (const filePath of filePaths) {
+		getNode(posix.dirname(filePath)).files.push(filePath);
+	}
+
+	for (const node of nodes.values()) {
+		node.files.sort();
+		node.directories.sort();
+	}
+
+	return Array.from(nodes.values()).sort(
+		(a, b) => b.depth - a.depth || a.path.localeCompare(b.path),
+	);
+}
+
+/**
+ * Read the first summary paragraph out of a file summary document
+ */
+export function extractFileSummary(doc: BaseDocument): string {
+	const match = doc.content.match(/Summary:\s*(.+)/);
+	return (match ? match[1] : doc.content).trim();
+}
+
+// ============================================================================
+// Directory Summarizer Class
+// ============================================================================
+
+export class DirectorySummarizer {
+	private llmClient: ILLMClient;
+	private embeddingsClient: IEmbeddingsClient;
+	private store: IVectorStore;
+	private projectPath: string;
+
+	constructor(
+		llmClient: ILLMClient,
+		embeddingsClient: IEmbeddingsClient,
+		store: IVectorStore,
+		projectPath: string,
+	) {
+		this.llmClient = llmClient;
+		this.embeddingsClient = embeddingsClient;
+		this.store = store;
+		this.projectPath = projectPath;
+	}
+
+	/**
+	 * Generate or refresh summaries for every directory containing one of
+	 * the given files (relative paths). Only files with a file summary take
+	 * part; directories whose child summaries are unchanged keep theirs.
+	 */
+	async summarize(
+		filePaths: string[],
+		options: DirectorySummarizationOptions = {},
+	): Promise<DirectorySummarizationResult> {
+		const startTime = Date.now();
+		const { onProgress, concurrency = 5 } = options;
+
+		const fileSummaries = await this.loadFileSummaries(new Set(filePaths));
+		const existing = await this.store.getDocumentsByType("directory_summary");
+		const existingByPath = new Map(
+			latestByPath(existing).map((doc) => [doc.filePath || ".", doc]),
+		);
+
+		const nodes = buildDirectoryTree(
+			[...fileSummaries.keys()],
+			options.isPackageRoot ?? ((dir) => this.isPackageRoot(dir)),
+		);
+
+		const summaries = new Map<string, string>();
+		const generated: DirectorySummary[] = [];
+		const errors: Array<{ path: string; error: string }> = [];
+		let reused = 0;
+		let completed = 0;
+
+		// Deepest first; directories at the same depth are independent
+		const depths = [...new Set(nodes.map((n) => n.depth))];
+		for (const depth of depths) {
+			const atDepth = nodes.filter((n) => n.depth === depth);
+
+			for (let i = 0; i < atDepth.length; i += concurrency) {
+				const batch = atDepth.slice(i, i + concurrency);
+				const results = await Promise.allSettled(
+					batch.map((node) =>
+						this.summarizeNode(node, fileSummaries, summaries, existingByPath),
+					),
+				);
+
+				for (let j = 0; j < results.length; j++) {
+					const result = results[j];
+					const node = batch[j];
+					const previous = existingByPath.get(node.path);
+
+					if (result.status === "fulfilled") {
+						summaries.set(node.path, result.value.summary);
+						if (result.value.doc) {
+							generated.push(result.value.doc);
+						} else {
+							reused++;
+						}
+					} else {
+						errors.push({
+							path: node.path,
+							error: result.reason?.message || String(result.reason),
+						});
+						// Parents still get the last good summary
+						const summary = previous?.metadata?.summary;
+						if (typeof summary === "string") {
+							summaries.set(node.path, summary);
+						}
+					}
+				}
+
+				completed += batch.length;
+				if (onProgress) {
+					onProgress(completed, nodes.length, `depth ${depth}`);
+				}
+			}
+		}
+
+		// Replaced summaries and directories without summarized files go away
+		const livePaths = new Set(nodes.map((n) => n.path));
+		const regenerated = new Set(generated.map((d) => d.filePath));
+		const stale = existing.filter((doc) => {
+			const path = doc.filePath || ".";
+			return (
+				!livePaths.has(path) ||
+				regenerated.has(path) ||
+				existingByPath.get(path) !== doc
+			);
+		});
+
+		let cost: number | undefined;
+		if (generated.length > 0) {
+			const embedResult = await this.embeddingsClient.embed(
+				generated.map((doc) => doc.content),
+			);
+			cost = embedResult.cost;
+			await this.store.addDocuments(
+				generated.map((doc, idx) => ({
+					...doc,
+					vector: embedResult.embeddings[idx],
+				})),
+			);
+		}
+		if (stale.length > 0) {
+			await this.store.deleteByIds(stale.map((doc) => doc.id));
+		}
+
+		return {
+			summariesGenerated: generated.length,
+			summariesReused: reused,
+			summariesRemoved: stale.filter(
+				(doc) => !livePaths.has(doc.filePath || "."),
+			).length,
+			errors,
+			cost,
+			durationMs: Date.now() - startTime,
+		};
+	}
+
+	/**
+	 * Summarize one directory, or return the existing summary when its
+	 * children are unchanged (doc is null then).
+	 */
+	private async summarizeNode(
+		node: DirectoryNode,
+		fileSummaries: Map<string, string>,
+		summaries: Map<string, string>,
+		existingByPath: Map<string, BaseDocument>,
+	): Promise<{ summary: string; doc: DirectorySummary | null }> {
+		const input: DirectorySummaryInput = {
+			path: node.path,
+			level: node.level,
+			packageName:
+				node.level === "directory"
+					? undefined
+					: this.readPackageName(node.path),
+			files: node.files.map((file) => ({
+				name: posix.basename(file),
+				summary: fileSummaries.get(file) ?? "",
+			})),
+			directories: node.directories.flatMap((dir) => {
+				const summary = summaries.get(dir);
+				return summary ? [{ name: posix.basename(dir), summary }] : [];
+			}),
+		};
+
+		const childHash = hashChildren(input);
+		const previous = existingByPath.get(node.path);
+		const previousSummary = previous?.metadata?.summary;
+		if (
+			previous?.metadata?.childHash === childHash &&
+			typeof previousSummary === "string"
+		) {
+			return { summary: previousSummary, doc: null };
+		}
+
+		let summary: string;
+		if (
+			input.files.length === 0 &&
+			input.directories.length === 1 &&
+			node.level === "directory"
+		) {
+			// Pass-through directory (e.g. src/main/java): nothing to add
+			summary = input.directories[0].summary;
+		} else {
+			const messages: LLMMessage[] = [
+				{ role: "system", content: SUMMARY_SYSTEM_PROMPT },
+				{
+					role: "user",
+					content: buildDirectorySummaryPrompt({
+						...input,
+						files: input.files.slice(0, MAX_CHILDREN_PER_PROMPT),
+						directories: input.directories.slice(0, MAX_CHILDREN_PER_PROMPT),
+					}),
+				},
+			];
+			const response = await this.llmClient.complete(messages);
+			summary = response.content.trim();
+		}
+
+		const children = [
+			...node.directories.map((dir) => `${dir}/`),
+			...node.files,
+		];
+		const content = buildContent(node.path, node.level, summary, children);
+		const now = new Date().toISOString();
+
+		return {
+			summary,
+			doc: {
+				id: createHash("sha256")
+					.update(
+						["directory_summary", node.path, childHash, content].join("::"),
+					)
+					.digest("hex")
+					.slice(0, 16),
+				content,
+				documentType: "directory_summary",
+				filePath: node.path,
+				createdAt: now,
+				enrichedAt: now,
+				sourceIds: node.files,
+				level: node.level,
+				summary,
+				children,
+				childHash,
+				// Only metadata survives storage
+				metadata: { level: node.level, summary, children, childHash },
+			},
+		};
+	}
+
+	/**
+	 * Latest file summary per file, limited to the given files
+	 */
+	private async loadFileSummaries(
+		filePaths: Set<string>,
+	): Promise<Map<string, string>> {
+		const docs = await this.store.getDocumentsByType("file_summary");
+		const summaries = new Map<string, string>();
+
+		for (const doc of latestByPath(docs)) {
+			if (doc.filePath && filePaths.has(doc.filePath)) {
+				summaries.set(doc.filePath, extractFileSummary(doc));
+			}
+		}
+		return summaries;
+	}
+
+	private isPackageRoot(dir: string): boolean {
+		return PACKAGE_MANIFESTS.some((manifest) =>
+			existsSync(join(this.projectPath, dir, manifest)),
+		);
+	}
+
+	/**
+	 * Read the package name from the directory's manifest, if it has one
+	 */
+	private readPackageName(dir: string): string | undefined {
+		const read = (file: string): string | null => {
+			const path = join(this.projectPath, dir, file);
+			if (!existsSync(path)) return null;
+			try {
+				return readFileSync(path, "utf-8");
+			} catch {
+				return null;
+			}
+		};
+
+		const packageJson = read("package.json");
+		if (packageJson) {
+			try {
+				const name = JSON.parse(packageJson).name;
+				if (typeof name === "string") return name;
+			} catch {
+				// Fall through to other manifests
+			}
+		}
+
+		const goMod = read("go.mod");
+		const goModule = goMod?.match(/^module\s+(\S+)/m);
+		if (goModule) return goModule[1];
+
+		for (const file of ["Cargo.toml", "pyproject.toml"]) {
+			const name = read(file)?.match(/^name\s*=\s*["']([^"']+)["']/m);
+			if (name) return name[1];
+		}
+
+		return undefined;
+	}
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load stored directory summaries for display (repo map, TUI)
+ */
+export async function loadDirectorySummaries(
+	store: IVectorStore,
+): Promise<RepoMapDirectorySummary[]> {
+	const docs = await store.getDocumentsByType("directory_summary");
+
+	return latestByPath(docs)
+		.filter((doc) => typeof doc.metadata?.summary === "string")
+		.map((doc) => ({
+			path: doc.filePath || ".",
+			level: (doc.metadata?.level as DirectorySummaryLevel) ?? "directory",
+			summary: doc.metadata?.summary as string,
+		}))
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Load directory summaries from a project's index. Returns none when the
+ * project has no vector index (the repo map then works from symbols alone).
+ */
+export async function readDirectorySummaries(
+	projectPath: string,
+): Promise<RepoMapDirectorySummary[]> {
+	const vectorStorePath = getVectorStorePath(projectPath);
+	if (!existsSync(vectorStorePath)) {
+		return [];
+	}
+
+	const store = createVectorStore(vectorStorePath);
+	try {
+		await store.initialize();
+		return await loadDirectorySummaries(store);
+	} catch {
+		return [];
+	} finally {
+		await store.close();
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Keep the most recently enriched document per path */
+function latestByPath<T extends BaseDocument>(docs: T[]): T[] {
+	const latest = new Map<string, T>();
+	for (const doc of docs) {
+		const path = doc.filePath || ".";
+		const current = latest.get(path);
+		const stamp = doc.enrichedAt ?? doc.createdAt;
+		if (!current || stamp > (current.enrichedAt ?? current.createdAt)) {
+			latest.set(path, doc);
+		}
+	}
+	return Array.from(latest.values());
+}
+
+function hashChildren(input: DirectorySummaryInput): string {
+	return createHash("sha256")
+		.update(
+			JSON.stringify([
+				input.level,
+				input.packageName,
+				input.files,
+				input.directories,
+			]),
+		)
+		.digest("hex")
+		.slice(0, 16);
+}
+
+/**
+ * Build searchable content from the summary
+ */
+function buildContent(
+	path: string,
+	level: DirectorySummaryLevel,
+	summary: string,
+	children: string[],
+): string {
+	const header =
+		level === "workspace"
+			? "Directory: . (workspace root)"
+			: level === "package"
+				? `Directory: ${path}/ (package)`
+				: `Directory: ${path}/`;
+
+	const names = children.map((child) =>
+		child.endsWith("/") ? `${posix.basename(child)}/` : posix.basename(child),
+	);
+
+	return [
+		header,
+		`\nSummary: ${summary}`,
+		`\nContents: ${names.join(", ")}`,
+	].join("\n");
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a directory summarizer
+ */
+export function createDirectorySummarizer(
+	llmClient: ILLMClient,
+	embeddingsClient: IEmbeddingsClient,
+	store: IVectorStore,
+	projectPath: string,
+): DirectorySummarizer {
+	return new DirectorySummarizer(
+		llmClient,
+		embeddingsClient,
+		store,
+		projectPath,
+	);
+}
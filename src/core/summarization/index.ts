@@ -5,6 +5,7 @@
  * - Methods/functions summarized first
  * - Classes inject child summaries
  * - Files inject exported unit summaries
+ * - Directories, packages and the workspace inject child summaries
  */
 
 export {
@@ -15,14 +16,28 @@ export {
 	type SummaryResult,
 } from "./summarizer.js";
 
+export {
+	DirectorySummarizer,
+	createDirectorySummarizer,
+	buildDirectoryTree,
+	extractFileSummary,
+	loadDirectorySummaries,
+	readDirectorySummaries,
+	type DirectoryNode,
+	type DirectorySummarizationOptions,
+	type DirectorySummarizationResult,
+} from "./directories.js";
+
 export {
 	SUMMARY_SYSTEM_PROMPT,
 	buildFunctionSummaryPrompt,
 	buildClassSummaryPrompt,
 	buildFileSummaryPrompt,
+	buildDirectorySummaryPrompt,
 	buildGoFunctionSummaryPrompt,
 	type FunctionSummaryInput,
 	type ClassSummaryInput,
 	type FileSummaryInput,
+	type DirectorySummaryInput,
 	type GoFunctionSummaryInput,
 } from "./prompts.js";
@@ -40,6 +40,7 @@ export const SUMMARY_SYSTEM_PROMPT = `You are a senior software engineer writing
 - Functions/Methods: 2-4 sentences
 - Classes/Interfaces: 3-6 sentences
 - Files/Modules: 4-8 sentences
+- Directories/Packages: 3-6 sentences
 
 ## Output Format
 Provide ONLY the summary text. No markdown formatting, no labels, no additional commentary.`;
@@ -240,6 +241,63 @@ export function buildFileSummaryPrompt(input: FileSummaryInput): string {
 	return parts.join("\n");
 }
 
+// ============================================================================
+// Directory/Package Summary Prompt
+// ============================================================================
+
+export interface DirectorySummaryInput {
+	path: string;
+	level: "directory" | "package" | "workspace";
+	/** Package name from the manifest, for package and workspace roots */
+	packageName?: string;
+	files: Array<{ name: string; summary: string }>;
+	directories: Array<{ name: string; summary: string }>;
+}
+
+export function buildDirectorySummaryPrompt(
+	input: DirectorySummaryInput,
+): string {
+	const kind =
+		input.level === "workspace"
+			? "repository"
+			: input.level === "package"
+				? "package"
+				: "directory";
+	const parts: string[] = [
+		`Write a summary for this ${kind} from the summaries of its contents.`,
+		"",
+		`**Path:** ${input.path === "." ? "(repository root)" : input.path}`,
+	];
+
+	if (input.packageName) {
+		parts.push(`**Package:** ${input.packageName}`);
+	}
+
+	// Subdirectory summaries are already condensed, keep them whole
+	if (input.directories.length > 0) {
+		parts.push("");
+		parts.push("**Subdirectories:**");
+		for (const dir of input.directories) {
+			parts.push(`- ${dir.name}/: ${dir.summary}`);
+		}
+	}
+
+	// File summaries (first sentence only for brevity)
+	if (input.files.length > 0) {
+		parts.push("");
+		parts.push("**Files:**");
+		for (const file of input.files) {
+			const firstSentence = file.summary.split(/(?<=[.!?])\s/)[0];
+			parts.push(`- ${file.name}: ${firstSentence}`);
+		}
+	}
+
+	parts.push("");
+	parts.push("Summary:");
+
+	return parts.join("\n");
+}
+
 // ============================================================================
 // Language-Specific Helpers
 // ============================================================================
@@ -13,6 +13,7 @@ import {
 	type ParserManager,
 } from "../parsers/parser-manager.js";
 import type {
+	FileImport,
 	SymbolDefinition,
 	SymbolReference,
 	SymbolKind,
@@ -54,6 +55,77 @@ const NODE_TYPE_TO_SYMBOL_KIND: Record<string, SymbolKind> = {
 	impl_item: "impl",
 };
 
+/**
+ * Language-specific node types, checked before NODE_TYPE_TO_SYMBOL_KIND.
+ * Kept per language because some grammars use keyword-like node types
+ * (Ruby's `class`, `module` and `method`).
+ */
+const LANGUAGE_NODE_TYPE_TO_SYMBOL_KIND: Partial<
+	Record<SupportedLanguage, Record<string, SymbolKind>>
+> = {
+	ruby: {
+		method: "method",
+		singleton_method: "method",
+		class: "class",
+		module: "class",
+	},
+	php: {
+		trait_declaration: "trait",
+	},
+	kotlin: {
+		object_declaration: "class",
+	},
+	swift: {
+		protocol_declaration: "interface",
+		protocol_function_declaration: "method",
+	},
+	csharp: {
+		struct_declaration: "struct",
+		record_declaration: "class",
+		constructor_declaration: "method",
+	},
+};
+
+/** Swift declares classes, structs, enums and extensions with one node type */
+const SWIFT_DECLARATION_KINDS: Record<string, SymbolKind> = {
+	struct: "struct",
+	enum: "enum",
+	extension: "impl",
+};
+
+/** Node types whose children are extracted as well (methods) */
+const CLASS_LIKE_TYPES = new Set([
+	"class_declaration",
+	"class_definition",
+	"class_specifier",
+	"struct_item",
+	"struct_specifier",
+	"trait_item",
+	"impl_item",
+	// Ruby
+	"class",
+	"module",
+	// PHP, Kotlin, Swift, C#
+	"interface_declaration",
+	"trait_declaration",
+	"object_declaration",
+	"protocol_declaration",
+	"struct_declaration",
+	"record_declaration",
+]);
+
+/** Enclosing declarations that make a nested function a method */
+const CLASS_CONTAINER_TYPES = new Set([
+	"class_declaration",
+	"class_definition",
+	"interface_declaration",
+	"trait_declaration",
+	"object_declaration",
+	"protocol_declaration",
+	"struct_declaration",
+	"record_declaration",
+]);
+
 /** Map capture name suffix to reference kind */
 const CAPTURE_TO_REFERENCE_KIND: Record<string, ReferenceKind> = {
 	call: "call",
@@ -64,6 +136,14 @@ const CAPTURE_TO_REFERENCE_KIND: Record<string, ReferenceKind> = {
 	field: "field_access",
 };
 
+/** Languages whose imports are captured for reference resolution */
+const JS_LIKE_LANGUAGES = new Set<SupportedLanguage>([
+	"typescript",
+	"javascript",
+	"tsx",
+	"jsx",
+]);
+
 // ============================================================================
 // Symbol Extractor Class
 // ============================================================================
@@ -71,8 +151,12 @@ const CAPTURE_TO_REFERENCE_KIND: Record<string, ReferenceKind> = {
 export class SymbolExtractor {
 	private parserManager: ParserManager;
 
-	constructor() {
-		this.parserManager = getParserManager();
+	/**
+	 * @param parserManager - Parser manager of the project (default: built-in
+	 * languages only)
+	 */
+	constructor(parserManager: ParserManager = getParserManager()) {
+		this.parserManager = parserManager;
 	}
 
 	/**
@@ -94,7 +178,7 @@ export class SymbolExtractor {
 
 		// Walk tree and extract symbols
 		this.walkTree(tree.rootNode, (node) => {
-			const kind = NODE_TYPE_TO_SYMBOL_KIND[node.type];
+			const kind = this.symbolKindOf(node, language);
 			if (!kind) {
 				return true; // Continue traversing
 			}
@@ -125,34 +209,32 @@ export class SymbolExtractor {
 				node.startPosition.row + 1,
 			);
 
+			const startLine = node.startPosition.row + 1; // 1-indexed
+			const endLine = node.endPosition.row + 1;
+
 			symbols.push({
 				id,
 				name,
 				kind,
 				filePath,
-				startLine: node.startPosition.row + 1, // 1-indexed
-				endLine: node.endPosition.row + 1,
+				startLine,
+				endLine,
 				signature,
 				docstring,
 				parentId,
 				isExported,
 				language,
 				pagerankScore: 0,
+				bodyHash: hashSymbolBody(sourceLines, startLine, endLine),
 				createdAt: now,
 				updatedAt: now,
 			});
 
 			// Continue into class-like nodes to extract methods
-			const classLikeTypes = new Set([
-				"class_declaration",
-				"class_definition",
-				"class_specifier",
-				"struct_item",
-				"struct_specifier",
-				"trait_item",
-				"impl_item",
-			]);
-			return classLikeTypes.has(node.type);
+			return (
+				CLASS_LIKE_TYPES.has(node.type) ||
+				this.isCustomContainer(node, language)
+			);
 		});
 
 		return symbols;
@@ -240,6 +322,249 @@ export class SymbolExtractor {
 		return this.deduplicateReferences(references);
 	}
 
+	/**
+	 * Extract import bindings from a source file.
+	 * Captures ES module imports/re-exports and CommonJS requires (JS/TS),
+	 * Python import statements and Go import specs.
+	 */
+	async extractImports(
+		source: string,
+		filePath: string,
+		language: SupportedLanguage,
+	): Promise<FileImport[]> {
+		const isJsLike = JS_LIKE_LANGUAGES.has(language);
+		if (!isJsLike && language !== "python" && language !== "go") {
+			return [];
+		}
+
+		const tree = await this.parserManager.parse(source, language);
+		if (!tree) {
+			return [];
+		}
+
+		const imports: FileImport[] = [];
+		const add = (
+			node: Node,
+			moduleSpecifier: string,
+			importedName: string,
+			localName: string,
+			isReexport = false,
+		) => {
+			if (!moduleSpecifier) return;
+			imports.push({
+				filePath,
+				moduleSpecifier,
+				importedName,
+				localName,
+				line: node.startPosition.row + 1,
+				isReexport: isReexport || undefined,
+			});
+		};
+
+		this.walkTree(tree.rootNode, (node) => {
+			if (isJsLike) {
+				return this.collectJsImports(node, add);
+			}
+			if (language === "python") {
+				return this.collectPythonImports(node, add);
+			}
+			return this.collectGoImports(node, add);
+		});
+
+		return imports;
+	}
+
+	/**
+	 * Collect JS/TS import bindings from a node.
+	 * Returns whether traversal should continue into children.
+	 */
+	private collectJsImports(
+		node: Node,
+		add: (
+			node: Node,
+			moduleSpecifier: string,
+			importedName: string,
+			localName: string,
+			isReexport?: boolean,
+		) => void,
+	): boolean {
+		if (node.type === "import_statement") {
+			const spec = this.stripQuotes(node.childForFieldName("source")?.text);
+			const clause = node.namedChildren.find(
+				(c) => c?.type === "import_clause",
+			);
+			if (!clause) {
+				return false; // Side-effect import: import "./polyfill"
+			}
+			for (const child of clause.namedChildren) {
+				if (!child) continue;
+				if (child.type === "identifier") {
+					add(node, spec, "default", child.text);
+				} else if (child.type === "namespace_import") {
+					const local = child.namedChildren.find(
+						(c) => c?.type === "identifier",
+					);
+					if (local) add(node, spec, "*", local.text);
+				} else if (child.type === "named_imports") {
+					for (const specifier of child.namedChildren) {
+						if (specifier?.type !== "import_specifier") continue;
+						const name = specifier.childForFieldName("name")?.text;
+						const alias = specifier.childForFieldName("alias")?.text;
+						if (name) add(node, spec, name, alias ?? name);
+					}
+				}
+			}
+			return false;
+		}
+
+		if (node.type === "export_statement") {
+			const sourceNode = node.childForFieldName("source");
+			if (!sourceNode) {
+				return true; // Local export: keep walking for nested requires
+			}
+			const spec = this.stripQuotes(sourceNode.text);
+			const clause = node.namedChildren.find(
+				(c) => c?.type === "export_clause",
+			);
+			const namespaceExport = node.namedChildren.find(
+				(c) => c?.type === "namespace_export",
+			);
+			if (clause) {
+				for (const specifier of clause.namedChildren) {
+					if (specifier?.type !== "export_specifier") continue;
+					const name = specifier.childForFieldName("name")?.text;
+					const alias = specifier.childForFieldName("alias")?.text;
+					if (name) add(node, spec, name, alias ?? name, true);
+				}
+			} else if (namespaceExport) {
+				const local = namespaceExport.namedChildren.find(
+					(c) => c?.type === "identifier",
+				);
+				if (local) add(node, spec, "*", local.text, true);
+			} else {
+				add(node, spec, "*", "*", true); // export * from "./x"
+			}
+			return false;
+		}
+
+		if (node.type === "variable_declarator") {
+			const value = node.childForFieldName("value");
+			if (
+				value?.type !== "call_expression" ||
+				value.childForFieldName("function")?.text !== "require"
+			) {
+				return true;
+			}
+			const arg = value.childForFieldName("arguments")?.namedChildren[0];
+			if (arg?.type !== "string") return true;
+			const spec = this.stripQuotes(arg.text);
+			const nameNode = node.childForFieldName("name");
+			if (nameNode?.type === "identifier") {
+				add(node, spec, "*", nameNode.text);
+			} else if (nameNode?.type === "object_pattern") {
+				for (const prop of nameNode.namedChildren) {
+					if (!prop) continue;
+					if (prop.type === "shorthand_property_identifier_pattern") {
+						add(node, spec, prop.text, prop.text);
+					} else if (prop.type === "pair_pattern") {
+						const key = prop.childForFieldName("key")?.text;
+						const value = prop.childForFieldName("value");
+						if (key && value?.type === "identifier") {
+							add(node, spec, key, value.text);
+						}
+					}
+				}
+			}
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Collect Python import bindings from a node.
+	 * Returns whether traversal should continue into children.
+	 */
+	private collectPythonImports(
+		node: Node,
+		add: (
+			node: Node,
+			moduleSpecifier: string,
+			importedName: string,
+			localName: string,
+		) => void,
+	): boolean {
+		if (node.type === "import_statement") {
+			// import a.b [as c]
+			for (const child of node.childrenForFieldName("name")) {
+				if (!child) continue;
+				if (child.type === "dotted_name") {
+					add(node, child.text, "*", child.text);
+				} else if (child.type === "aliased_import") {
+					const name = child.childForFieldName("name")?.text;
+					const alias = child.childForFieldName("alias")?.text;
+					if (name) add(node, name, "*", alias ?? name);
+				}
+			}
+			return false;
+		}
+
+		if (node.type === "import_from_statement") {
+			// from a.b import c [as d] / from . import e / from x import *
+			const spec = node.childForFieldName("module_name")?.text ?? "";
+			if (node.namedChildren.some((c) => c?.type === "wildcard_import")) {
+				add(node, spec, "*", "*");
+				return false;
+			}
+			for (const child of node.childrenForFieldName("name")) {
+				if (!child) continue;
+				if (child.type === "dotted_name") {
+					add(node, spec, child.text, child.text);
+				} else if (child.type === "aliased_import") {
+					const name = child.childForFieldName("name")?.text;
+					const alias = child.childForFieldName("alias")?.text;
+					if (name) add(node, spec, name, alias ?? name);
+				}
+			}
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Collect Go import specs from a node.
+	 * Go imports whole packages, so every binding is a namespace import.
+	 */
+	private collectGoImports(
+		node: Node,
+		add: (
+			node: Node,
+			moduleSpecifier: string,
+			importedName: string,
+			localName: string,
+		) => void,
+	): boolean {
+		if (node.type !== "import_spec") {
+			return true;
+		}
+
+		const spec = this.stripQuotes(node.childForFieldName("path")?.text);
+		const alias = node.childForFieldName("name")?.text;
+		const localName = alias ?? spec.split("/").pop() ?? spec;
+		// Dot imports merge the package scope into the file, like a star import
+		add(node, spec, "*", alias === "." ? "*" : localName);
+		return false;
+	}
+
+	/**
+	 * Strip surrounding quotes from a string literal
+	 */
+	private stripQuotes(text: string | undefined): string {
+		if (!text) return "";
+		return text.replace(/^[`'"]|[`'"]$/g, "");
+	}
+
 	/**
 	 * Extract symbol name from AST node
 	 */
@@ -267,15 +592,25 @@ export class SymbolExtractor {
 						return typeName.text;
 					}
 				}
-				// Direct identifier
+				// Direct identifier (Ruby constants, PHP names, Swift identifiers)
 				if (
 					nameNode.type === "identifier" ||
 					nameNode.type === "type_identifier" ||
 					nameNode.type === "property_identifier" ||
-					nameNode.type === "field_identifier"
+					nameNode.type === "field_identifier" ||
+					nameNode.type === "constant" ||
+					nameNode.type === "name" ||
+					nameNode.type === "simple_identifier"
 				) {
 					return nameNode.text;
 				}
+				// Namespaced Ruby class (Foo::Bar) or Swift extension (extension Foo)
+				if (nameNode.type === "scope_resolution") {
+					return nameNode.childForFieldName("name")?.text;
+				}
+				if (nameNode.type === "user_type") {
+					return nameNode.text;
+				}
 			}
 		}
 
@@ -298,9 +633,94 @@ export class SymbolExtractor {
 			}
 		}
 
+		// Kotlin grammar has no field names: use the first identifier child
+		if (language === "kotlin") {
+			for (const child of node.namedChildren) {
+				if (
+					child?.type === "simple_identifier" ||
+					child?.type === "type_identifier"
+				) {
+					return child.text;
+				}
+			}
+		}
+
 		return undefined;
 	}
 
+	/**
+	 * Map an AST node to a symbol kind (undefined for non-symbols)
+	 */
+	private symbolKindOf(
+		node: Node,
+		language: SupportedLanguage,
+	): SymbolKind | undefined {
+		const custom = this.parserManager.getCustomLanguage(language);
+		if (custom) {
+			return custom.symbolKinds.get(node.type);
+		}
+
+		const kind =
+			LANGUAGE_NODE_TYPE_TO_SYMBOL_KIND[language]?.[node.type] ??
+			NODE_TYPE_TO_SYMBOL_KIND[node.type];
+
+		if (language === "swift" && node.type === "class_declaration") {
+			const declarationKind = node.childForFieldName("declaration_kind")?.text;
+			return SWIFT_DECLARATION_KINDS[declarationKind ?? ""] ?? kind;
+		}
+
+		return kind;
+	}
+
+	/**
+	 * Whether a node of a project-defined language was captured as class-like
+	 */
+	private isCustomContainer(node: Node, language: SupportedLanguage): boolean {
+		return (
+			this.parserManager
+				.getCustomLanguage(language)
+				?.containerTypes.has(node.type) ?? false
+		);
+	}
+
+	/**
+	 * Collect visibility modifier keywords of a declaration
+	 * (Kotlin/Swift `modifiers`, C# `modifier`, PHP `visibility_modifier`)
+	 */
+	private visibilityModifiers(node: Node): string[] {
+		const modifiers: string[] = [];
+		for (const child of node.namedChildren) {
+			if (!child) continue;
+			if (child.type === "modifiers") {
+				modifiers.push(...this.visibilityModifiers(child));
+			} else if (
+				child.type === "visibility_modifier" ||
+				child.type === "modifier"
+			) {
+				modifiers.push(child.text);
+			}
+		}
+		return modifiers;
+	}
+
+	/**
+	 * Ruby: a method is private when a bare `private`/`protected` precedes it
+	 * in the class body (until a bare `public`)
+	 */
+	private isRubyPublicMethod(node: Node): boolean {
+		let prev = node.previousNamedSibling;
+		while (prev) {
+			if (prev.type === "identifier") {
+				if (prev.text === "public") return true;
+				if (prev.text === "private" || prev.text === "protected") {
+					return false;
+				}
+			}
+			prev = prev.previousNamedSibling;
+		}
+		return true;
+	}
+
 	/**
 	 * Check if symbol is exported/public
 	 */
@@ -351,6 +771,36 @@ export class SymbolExtractor {
 			}
 		}
 
+		// Ruby: classes, modules and methods are public unless marked private
+		if (language === "ruby") {
+			return node.type !== "method" || this.isRubyPublicMethod(node);
+		}
+
+		// PHP: class members default to public; functions and classes are global
+		if (language === "php") {
+			const visibility = this.visibilityModifiers(node);
+			return visibility.length === 0 || visibility.includes("public");
+		}
+
+		// Kotlin: public unless private/protected/internal
+		if (language === "kotlin") {
+			return !this.visibilityModifiers(node).some((m) =>
+				["private", "protected", "internal"].includes(m),
+			);
+		}
+
+		// Swift: internal by default, exported when public or open
+		if (language === "swift") {
+			return this.visibilityModifiers(node).some((m) =>
+				["public", "open"].includes(m),
+			);
+		}
+
+		// C#: check for public modifier
+		if (language === "csharp") {
+			return this.visibilityModifiers(node).includes("public");
+		}
+
 		// Java: check for public modifier
 		if (language === "java") {
 			const modifiers = node.childForFieldName("modifiers");
@@ -380,15 +830,22 @@ export class SymbolExtractor {
 		if (
 			node.type === "method_definition" ||
 			node.type === "method_declaration" ||
+			this.symbolKindOf(node, language) === "method" ||
 			// Python: function_definition inside a class body is a method
-			(node.type === "function_definition" && this.isInsideClass(node))
+			(node.type === "function_definition" && this.isInsideClass(node)) ||
+			// Kotlin/Swift: same for function_declaration
+			((language === "kotlin" || language === "swift") &&
+				node.type === "function_declaration" &&
+				this.isInsideClass(node))
 		) {
 			let parent = node.parent;
 			while (parent) {
 				if (
-					parent.type === "class_declaration" ||
-					parent.type === "class_definition" ||
-					parent.type === "class_body"
+					CLASS_CONTAINER_TYPES.has(parent.type) ||
+					this.isCustomContainer(parent, language) ||
+					parent.type === "class_body" ||
+					(language === "ruby" &&
+						(parent.type === "class" || parent.type === "module"))
 				) {
 					// Get class name
 					let classNode = parent;
@@ -400,7 +857,7 @@ export class SymbolExtractor {
 						return this.createSymbolId(
 							filePath,
 							className,
-							"class",
+							this.symbolKindOf(classNode, language) ?? "class",
 							classNode.startPosition.row + 1,
 						);
 					}
@@ -412,15 +869,13 @@ export class SymbolExtractor {
 	}
 
 	/**
-	 * Check if a node is inside a class definition (for Python methods)
+	 * Check if a node is inside a class definition (for Python, Kotlin and
+	 * Swift methods)
 	 */
 	private isInsideClass(node: Node): boolean {
 		let parent = node.parent;
 		while (parent) {
-			if (
-				parent.type === "class_definition" ||
-				parent.type === "class_declaration"
-			) {
+			if (CLASS_CONTAINER_TYPES.has(parent.type)) {
 				return true;
 			}
 			// Stop at module level
@@ -597,6 +1052,26 @@ export class SymbolExtractor {
 	}
 }
 
+// ============================================================================
+// Body Hash
+// ============================================================================
+
+/**
+ * Hash the source lines spanned by a symbol (1-indexed, inclusive).
+ * Stored at index time so the editor can tell whether a symbol's body
+ * changed on disk since it was indexed, even when it moved.
+ */
+export function hashSymbolBody(
+	lines: string[],
+	startLine: number,
+	endLine: number,
+): string {
+	return createHash("sha256")
+		.update(lines.slice(startLine - 1, endLine).join("\n"))
+		.digest("hex")
+		.slice(0, 16);
+}
+
 // ============================================================================
 // Factory Function
 // ============================================================================
@@ -604,6 +1079,8 @@ export class SymbolExtractor {
 /**
  * Create a symbol extractor instance
  */
-export function createSymbolExtractor(): SymbolExtractor {
-	return new SymbolExtractor();
+export function createSymbolExtractor(
+	parserManager?: ParserManager,
+): SymbolExtractor {
+	return new SymbolExtractor(parserManager);
 }
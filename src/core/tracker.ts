@@ -12,7 +12,9 @@ import type {
 	DocumentType,
 	DocProviderType,
 	EnrichmentState,
+	FileImport,
 	FileState,
+	ReferenceCandidate,
 	SymbolDefinition,
 	SymbolReference,
 	SymbolKind,
@@ -72,6 +74,28 @@ export interface IndexedDocState {
 	chunkIds: string[];
 }
 
+/** Index state recorded for a branch the project was indexed on */
+export interface BranchState {
+	/** Branch name ("detached@<sha>" for a detached HEAD) */
+	branch: string;
+	/** HEAD commit when the branch was last indexed */
+	head: string;
+	indexedAt: string;
+	fileCount: number;
+}
+
+/** Outcome of resolving a single symbol reference */
+export interface ReferenceResolution {
+	/** Reference being resolved */
+	referenceId: number;
+	/** Best target symbol */
+	toSymbolId: string;
+	/** Confidence in the best target (0-1) */
+	confidence: number;
+	/** All plausible targets when the reference is ambiguous (empty otherwise) */
+	candidates: Array<{ symbolId: string; confidence: number }>;
+}
+
 // ============================================================================
 // IFileTracker Interface
 // ============================================================================
@@ -91,6 +115,10 @@ export interface IFileTracker {
 	setMetadata(key: string, value: string): void;
 	getStats(): { totalFiles: number; lastIndexed: string | null };
 	clear(): void;
+	saveBranchState(branch: string, head: string): void;
+	getBranchStates(): BranchState[];
+	getBranchFiles(branch: string): Map<string, string>;
+	deleteBranchState(branch: string): void;
 	recordActivity(type: string, metadata: Record<string, unknown>): number;
 	getActivity(sinceId?: number, limit?: number): ActivityRow[];
 	pruneActivity(keepCount?: number): void;
@@ -153,8 +181,14 @@ export interface IFileTracker {
 	getUnresolvedReferences(): SymbolReference[];
 	getAllReferences(): SymbolReference[];
 	resolveReference(refId: number, toSymbolId: string): void;
-	resolveReferencesByName(): number;
+	applyReferenceResolutions(resolutions: ReferenceResolution[]): void;
+	getReferenceCandidates(referenceId: number): ReferenceCandidate[];
+	getAllReferenceCandidates(): ReferenceCandidate[];
+	resetDanglingReferences(): number;
 	deleteReferencesByFile(filePath: string): void;
+	insertImports(imports: FileImport[]): void;
+	getImportsByFile(filePath: string): FileImport[];
+	getAllImports(): FileImport[];
 	updatePageRankScores(scores: Map<string, number>): void;
 	updateDegreeCounts(): void;
 	getGraphMetadata(key: string): string | null;
@@ -222,6 +256,20 @@ export class FileTracker implements IFileTracker {
         PRIMARY KEY (library, version, provider)
       );
 
+      CREATE TABLE IF NOT EXISTS branch_states (
+        branch TEXT PRIMARY KEY,
+        head TEXT NOT NULL,
+        indexed_at TEXT NOT NULL,
+        file_count INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS branch_files (
+        branch TEXT NOT NULL,
+        path TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        PRIMARY KEY (branch, path)
+      );
+
       CREATE INDEX IF NOT EXISTS idx_files_content_hash ON files(content_hash);
       CREATE INDEX IF NOT EXISTS idx_documents_file_path ON documents(file_path);
       CREATE INDEX IF NOT EXISTS idx_documents_type ON documents(document_type);
@@ -266,6 +314,24 @@ export class FileTracker implements IFileTracker {
 			if (!columnNames.includes("enriched_at")) {
 				this.db.exec("ALTER TABLE files ADD COLUMN enriched_at TEXT");
 			}
+
+			// Check if symbol_references.confidence column exists
+			const refColumns = this.db
+				.prepare("PRAGMA table_info(symbol_references)")
+				.all() as Array<{ name: string }>;
+			if (!refColumns.some((c) => c.name === "confidence")) {
+				this.db.exec(
+					"ALTER TABLE symbol_references ADD COLUMN confidence REAL DEFAULT 1.0",
+				);
+			}
+
+			// Check if symbols.body_hash column exists
+			const symbolColumns = this.db
+				.prepare("PRAGMA table_info(symbols)")
+				.all() as Array<{ name: string }>;
+			if (!symbolColumns.some((c) => c.name === "body_hash")) {
+				this.db.exec("ALTER TABLE symbols ADD COLUMN body_hash TEXT");
+			}
 		} catch {
 			// Ignore migration errors (columns might already exist)
 		}
@@ -504,6 +570,76 @@ export class FileTracker implements IFileTracker {
 		this.db.exec("DELETE FROM metadata");
 		this.db.exec("DELETE FROM documents");
 		this.db.exec("DELETE FROM indexed_docs");
+		this.db.exec("DELETE FROM branch_states");
+		this.db.exec("DELETE FROM branch_files");
+	}
+
+	// ========================================================================
+	// Branch State Methods
+	// ========================================================================
+
+	/**
+	 * Record the current file set as the index state of a branch
+	 */
+	saveBranchState(branch: string, head: string): void {
+		this.db.transaction(() => {
+			this.db.prepare("DELETE FROM branch_files WHERE branch = ?").run(branch);
+			this.db
+				.prepare(`
+        INSERT INTO branch_files (branch, path, content_hash)
+        SELECT ?, path, content_hash FROM files
+      `)
+				.run(branch);
+
+			const { count } = this.db
+				.prepare("SELECT COUNT(*) as count FROM files")
+				.get() as { count: number };
+			this.db
+				.prepare(`
+        INSERT OR REPLACE INTO branch_states (branch, head, indexed_at, file_count)
+        VALUES (?, ?, ?, ?)
+      `)
+				.run(branch, head, new Date().toISOString(), count);
+		});
+	}
+
+	/**
+	 * Branches the project was indexed on, most recently indexed first
+	 */
+	getBranchStates(): BranchState[] {
+		const rows = this.db
+			.prepare("SELECT * FROM branch_states ORDER BY indexed_at DESC")
+			.all() as Array<{
+			branch: string;
+			head: string;
+			indexed_at: string;
+			file_count: number;
+		}>;
+
+		return rows.map((r) => ({
+			branch: r.branch,
+			head: r.head,
+			indexedAt: r.indexed_at,
+			fileCount: r.file_count,
+		}));
+	}
+
+	/**
+	 * File content hashes recorded for a branch, keyed by relative path
+	 */
+	getBranchFiles(branch: string): Map<string, string> {
+		const rows = this.db
+			.prepare("SELECT path, content_hash FROM branch_files WHERE branch = ?")
+			.all(branch) as Array<{ path: string; content_hash: string }>;
+		return new Map(rows.map((r) => [r.path, r.content_hash]));
+	}
+
+	/**
+	 * Forget the recorded state of a branch
+	 */
+	deleteBranchState(branch: string): void {
+		this.db.prepare("DELETE FROM branch_states WHERE branch = ?").run(branch);
+		this.db.prepare("DELETE FROM branch_files WHERE branch = ?").run(branch);
 	}
 
 	// ========================================================================
@@ -1062,6 +1198,7 @@ export class FileTracker implements IFileTracker {
 				pagerank REAL DEFAULT 0.0,
 				in_degree INTEGER DEFAULT 0,
 				out_degree INTEGER DEFAULT 0,
+				body_hash TEXT,
 				created_at TEXT NOT NULL,
 				updated_at TEXT NOT NULL,
 				FOREIGN KEY (parent_id) REFERENCES symbols(id) ON DELETE SET NULL
@@ -1077,11 +1214,33 @@ export class FileTracker implements IFileTracker {
 				file_path TEXT NOT NULL,
 				line INTEGER NOT NULL,
 				is_resolved INTEGER DEFAULT 0,
+				confidence REAL DEFAULT 1.0,
 				created_at TEXT NOT NULL,
 				FOREIGN KEY (from_symbol_id) REFERENCES symbols(id) ON DELETE CASCADE,
 				FOREIGN KEY (to_symbol_id) REFERENCES symbols(id) ON DELETE SET NULL
 			);
 
+			-- Candidate targets for ambiguous references
+			CREATE TABLE IF NOT EXISTS reference_candidates (
+				reference_id INTEGER NOT NULL,
+				symbol_id TEXT NOT NULL,
+				confidence REAL NOT NULL,
+				PRIMARY KEY (reference_id, symbol_id),
+				FOREIGN KEY (reference_id) REFERENCES symbol_references(id) ON DELETE CASCADE,
+				FOREIGN KEY (symbol_id) REFERENCES symbols(id) ON DELETE CASCADE
+			);
+
+			-- Import bindings captured per file (used for reference resolution)
+			CREATE TABLE IF NOT EXISTS file_imports (
+				id INTEGER PRIMARY KEY AUTOINCREMENT,
+				file_path TEXT NOT NULL,
+				module_specifier TEXT NOT NULL,
+				imported_name TEXT NOT NULL,
+				local_name TEXT NOT NULL,
+				line INTEGER NOT NULL,
+				is_reexport INTEGER DEFAULT 0
+			);
+
 			-- Graph metadata table
 			CREATE TABLE IF NOT EXISTS graph_metadata (
 				key TEXT PRIMARY KEY,
@@ -1103,6 +1262,11 @@ export class FileTracker implements IFileTracker {
 			CREATE INDEX IF NOT EXISTS idx_refs_to_name ON symbol_references(to_symbol_name);
 			CREATE INDEX IF NOT EXISTS idx_refs_file ON symbol_references(file_path);
 			CREATE INDEX IF NOT EXISTS idx_refs_kind ON symbol_references(kind);
+			CREATE INDEX IF NOT EXISTS idx_ref_candidates_symbol ON reference_candidates(symbol_id);
+
+			-- Indexes for imports
+			CREATE INDEX IF NOT EXISTS idx_imports_file ON file_imports(file_path);
+			CREATE INDEX IF NOT EXISTS idx_imports_local ON file_imports(local_name);
 		`);
 	}
 
@@ -1117,8 +1281,9 @@ export class FileTracker implements IFileTracker {
 		const stmt = this.db.prepare(`
 			INSERT OR REPLACE INTO symbols
 			(id, name, kind, file_path, start_line, end_line, signature, docstring,
-			 parent_id, is_exported, language, pagerank, in_degree, out_degree, created_at, updated_at)
-			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			 parent_id, is_exported, language, pagerank, in_degree, out_degree, body_hash,
+			 created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		`);
 
 		stmt.run(
@@ -1136,6 +1301,7 @@ export class FileTracker implements IFileTracker {
 			symbol.pagerankScore,
 			symbol.inDegree || 0,
 			symbol.outDegree || 0,
+			symbol.bodyHash || null,
 			symbol.createdAt,
 			symbol.updatedAt,
 		);
@@ -1150,8 +1316,9 @@ export class FileTracker implements IFileTracker {
 		const stmt = this.db.prepare(`
 			INSERT OR REPLACE INTO symbols
 			(id, name, kind, file_path, start_line, end_line, signature, docstring,
-			 parent_id, is_exported, language, pagerank, in_degree, out_degree, created_at, updated_at)
-			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			 parent_id, is_exported, language, pagerank, in_degree, out_degree, body_hash,
+			 created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		`);
 
 		this.db.transaction(() => {
@@ -1171,6 +1338,7 @@ export class FileTracker implements IFileTracker {
 					symbol.pagerankScore,
 					symbol.inDegree || 0,
 					symbol.outDegree || 0,
+					symbol.bodyHash || null,
 					symbol.createdAt,
 					symbol.updatedAt,
 				);
@@ -1258,9 +1426,17 @@ export class FileTracker implements IFileTracker {
 			: filePath;
 
 		// Delete references first (cascade would handle this, but be explicit)
+		this.db
+			.prepare(
+				"DELETE FROM reference_candidates WHERE reference_id IN (SELECT id FROM symbol_references WHERE file_path = ?)",
+			)
+			.run(relativePath);
 		this.db
 			.prepare("DELETE FROM symbol_references WHERE file_path = ?")
 			.run(relativePath);
+		this.db
+			.prepare("DELETE FROM file_imports WHERE file_path = ?")
+			.run(relativePath);
 
 		// Delete symbols
 		this.db
@@ -1287,6 +1463,7 @@ export class FileTracker implements IFileTracker {
 			pagerankScore: row.pagerank as number,
 			inDegree: row.in_degree as number,
 			outDegree: row.out_degree as number,
+			bodyHash: (row.body_hash as string) || undefined,
 			createdAt: row.created_at as string,
 			updatedAt: row.updated_at as string,
 		};
@@ -1399,27 +1576,82 @@ export class FileTracker implements IFileTracker {
 	}
 
 	/**
-	 * Bulk resolve references by name
-	 * Resolves all unresolved references matching a symbol name
+	 * Apply resolver output in one transaction.
+	 * Replaces any previous candidate set for each reference.
 	 */
-	resolveReferencesByName(): number {
-		// Resolve references where target_name matches a symbol name exactly
+	applyReferenceResolutions(resolutions: ReferenceResolution[]): void {
+		if (resolutions.length === 0) return;
+
+		const updateStmt = this.db.prepare(
+			"UPDATE symbol_references SET to_symbol_id = ?, is_resolved = 1, confidence = ? WHERE id = ?",
+		);
+		const clearStmt = this.db.prepare(
+			"DELETE FROM reference_candidates WHERE reference_id = ?",
+		);
+		const candidateStmt = this.db.prepare(`
+			INSERT OR REPLACE INTO reference_candidates (reference_id, symbol_id, confidence)
+			VALUES (?, ?, ?)
+		`);
+
+		this.db.transaction(() => {
+			for (const resolution of resolutions) {
+				updateStmt.run(
+					resolution.toSymbolId,
+					resolution.confidence,
+					resolution.referenceId,
+				);
+				clearStmt.run(resolution.referenceId);
+				for (const candidate of resolution.candidates) {
+					candidateStmt.run(
+						resolution.referenceId,
+						candidate.symbolId,
+						candidate.confidence,
+					);
+				}
+			}
+		});
+	}
+
+	/**
+	 * Get candidate targets recorded for an ambiguous reference
+	 */
+	getReferenceCandidates(referenceId: number): ReferenceCandidate[] {
+		const stmt = this.db.prepare(
+			"SELECT reference_id, symbol_id, confidence FROM reference_candidates WHERE reference_id = ? ORDER BY confidence DESC",
+		);
+		const rows = stmt.all(referenceId) as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToCandidate(row));
+	}
+
+	/**
+	 * Get all candidate targets (used for weighted graph construction)
+	 */
+	getAllReferenceCandidates(): ReferenceCandidate[] {
+		const stmt = this.db.prepare(
+			"SELECT reference_id, symbol_id, confidence FROM reference_candidates",
+		);
+		const rows = stmt.all() as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToCandidate(row));
+	}
+
+	/**
+	 * Mark references whose target symbol no longer exists as unresolved,
+	 * so the resolver picks them up again after incremental reindexing.
+	 * @returns Number of references reset
+	 */
+	resetDanglingReferences(): number {
+		this.db.exec(`
+			DELETE FROM reference_candidates
+			WHERE symbol_id NOT IN (SELECT id FROM symbols)
+			OR reference_id NOT IN (SELECT id FROM symbol_references)
+		`);
+
 		const result = this.db
 			.prepare(`
 			UPDATE symbol_references
-			SET to_symbol_id = (
-				SELECT s.id FROM symbols s
-				WHERE s.name = symbol_references.to_symbol_name
-				AND s.is_exported = 1
-				LIMIT 1
-			),
-			is_resolved = 1
-			WHERE is_resolved = 0
-			AND EXISTS (
-				SELECT 1 FROM symbols s
-				WHERE s.name = symbol_references.to_symbol_name
-				AND s.is_exported = 1
-			)
+			SET to_symbol_id = NULL, is_resolved = 0, confidence = 1.0
+			WHERE is_resolved = 1
+			AND (to_symbol_id IS NULL OR to_symbol_id NOT IN (SELECT id FROM symbols))
 		`)
 			.run();
 
@@ -1434,6 +1666,11 @@ export class FileTracker implements IFileTracker {
 			? relative(this.projectRoot, filePath)
 			: filePath;
 
+		this.db
+			.prepare(
+				"DELETE FROM reference_candidates WHERE reference_id IN (SELECT id FROM symbol_references WHERE file_path = ?)",
+			)
+			.run(relativePath);
 		this.db
 			.prepare("DELETE FROM symbol_references WHERE file_path = ?")
 			.run(relativePath);
@@ -1452,10 +1689,95 @@ export class FileTracker implements IFileTracker {
 			filePath: row.file_path as string,
 			line: row.line as number,
 			isResolved: (row.is_resolved as number) === 1,
+			confidence:
+				(row.is_resolved as number) === 1
+					? ((row.confidence as number | null) ?? 1)
+					: undefined,
 			createdAt: row.created_at as string,
 		};
 	}
 
+	/**
+	 * Convert database row to ReferenceCandidate
+	 */
+	private rowToCandidate(row: Record<string, unknown>): ReferenceCandidate {
+		return {
+			referenceId: row.reference_id as number,
+			symbolId: row.symbol_id as string,
+			confidence: row.confidence as number,
+		};
+	}
+
+	// ========================================================================
+	// Import Methods
+	// ========================================================================
+
+	/**
+	 * Insert import bindings for files (batched)
+	 */
+	insertImports(imports: FileImport[]): void {
+		if (imports.length === 0) return;
+
+		const stmt = this.db.prepare(`
+			INSERT INTO file_imports
+			(file_path, module_specifier, imported_name, local_name, line, is_reexport)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`);
+
+		this.db.transaction(() => {
+			for (const imp of imports) {
+				stmt.run(
+					imp.filePath,
+					imp.moduleSpecifier,
+					imp.importedName,
+					imp.localName,
+					imp.line,
+					imp.isReexport ? 1 : 0,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Get import bindings declared in a file
+	 */
+	getImportsByFile(filePath: string): FileImport[] {
+		const relativePath = filePath.startsWith(this.projectRoot)
+			? relative(this.projectRoot, filePath)
+			: filePath;
+
+		const stmt = this.db.prepare(
+			"SELECT * FROM file_imports WHERE file_path = ? ORDER BY line",
+		);
+		const rows = stmt.all(relativePath) as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToImport(row));
+	}
+
+	/**
+	 * Get all import bindings
+	 */
+	getAllImports(): FileImport[] {
+		const stmt = this.db.prepare(
+			"SELECT * FROM file_imports ORDER BY file_path, line",
+		);
+		const rows = stmt.all() as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToImport(row));
+	}
+
+	/**
+	 * Convert database row to FileImport
+	 */
+	private rowToImport(row: Record<string, unknown>): FileImport {
+		return {
+			filePath: row.file_path as string,
+			moduleSpecifier: row.module_specifier as string,
+			importedName: row.imported_name as string,
+			localName: row.local_name as string,
+			line: row.line as number,
+			isReexport: (row.is_reexport as number) === 1,
+		};
+	}
+
 	// ========================================================================
 	// PageRank and Graph Metadata Methods
 	// ========================================================================
@@ -1582,6 +1904,8 @@ export class FileTracker implements IFileTracker {
 	 * Clear all symbol graph data
 	 */
 	clearSymbolGraph(): void {
+		this.db.exec("DELETE FROM reference_candidates");
+		this.db.exec("DELETE FROM file_imports");
 		this.db.exec("DELETE FROM symbol_references");
 		this.db.exec("DELETE FROM symbols");
 		this.db.exec("DELETE FROM graph_metadata");
@@ -0,0 +1,45 @@
+/**
+ * Shared Vector Databases
+ *
+ * Helpers for the SQLite databases written by several processes at once:
+ * the branch references of the shared chunk store (all worktrees of a
+ * repository) and the global embedding cache (all projects on the machine).
+ */
+
+import { existsSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { type SQLiteDatabase, createDatabaseSync } from "./sqlite.js";
+
+/** Concurrent writers wait this long for each other's locks */
+const BUSY_TIMEOUT_MS = 5000;
+
+/**
+ * Open (creating its directory if needed) a database that other processes
+ * may write concurrently
+ */
+export function openSharedDatabase(dbPath: string): SQLiteDatabase {
+	const dir = dirname(dbPath);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+
+	const db = createDatabaseSync(dbPath);
+	db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+	db.exec("PRAGMA journal_mode = WAL");
+	return db;
+}
+
+/**
+ * Encode a vector as a float32 BLOB
+ */
+export function encodeVector(vector: number[]): Uint8Array {
+	return new Uint8Array(Float32Array.from(vector).buffer);
+}
+
+/**
+ * Decode a float32 BLOB written by encodeVector
+ */
+export function decodeVector(blob: Uint8Array): number[] {
+	// Copy first: the blob may not be aligned for a Float32Array view
+	return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+}
@@ -2,8 +2,8 @@
  * Documentation Module
  *
  * Provides multi-source documentation fetching for project dependencies.
- * Supports Context7, llms.txt, and DevDocs providers with automatic
- * fallback and version matching.
+ * Supports Context7, llms.txt, DevDocs and locally installed packages
+ * with automatic fallback and version matching.
  */
 
 import { getContext7ApiKey, getDocsConfig, isDocsEnabled } from "../config.js";
@@ -23,6 +23,7 @@ import {
 	createContext7Provider,
 	createDevDocsProvider,
 	createLlmsTxtProvider,
+	createLocalDocsProvider,
 } from "./providers/index.js";
 
 // ============================================================================
@@ -62,6 +63,22 @@ export {
 // Library mapping
 export { LibraryMapper, createLibraryMapper } from "./library-mapper.js";
 
+// Lockfiles
+export {
+	type LockedVersions,
+	readLockedVersions,
+	parseLockfile,
+	getLockedVersions,
+	normalizePackageName,
+} from "./lockfiles.js";
+
+// Source doc extraction
+export {
+	extractPythonDocstrings,
+	extractGoDocComments,
+	extractRustDocComments,
+} from "./source-docs.js";
+
 // Chunking
 export { DocChunker, createDocChunker } from "./doc-chunker.js";
 
@@ -70,14 +87,20 @@ export { DocChunker, createDocChunker } from "./doc-chunker.js";
 // ============================================================================
 
 /**
- * Create all enabled documentation providers based on configuration
+ * Create all enabled documentation providers based on configuration.
+ * The local provider reads installed dependencies, so it needs the
+ * project path.
  */
-export function createProviders(config?: DocsConfig): DocProvider[] {
+export function createProviders(
+	config?: DocsConfig,
+	projectPath?: string,
+): DocProvider[] {
 	const providers: DocProvider[] = [];
 	const enabledProviders = config?.providers || [
 		"context7",
 		"llms_txt",
 		"devdocs",
+		"local",
 	];
 	const cacheTTL = config?.cacheTTL || 24;
 
@@ -97,6 +120,10 @@ export function createProviders(config?: DocsConfig): DocProvider[] {
 		providers.push(createDevDocsProvider(cacheTTL));
 	}
 
+	if (enabledProviders.includes("local") && projectPath) {
+		providers.push(createLocalDocsProvider(projectPath, cacheTTL));
+	}
+
 	// Sort by priority (lower = first)
 	return providers.sort((a, b) => a.priority - b.priority);
 }
@@ -118,14 +145,18 @@ export class DocsFetcher {
 	/**
 	 * Create a DocsFetcher with explicit config or from project path
 	 * @param configOrPath - Either a DocsConfig object or a project path string
+	 * @param projectPath - Project for the local provider when passing a config
 	 */
-	constructor(configOrPath: DocsConfig | string) {
+	constructor(configOrPath: DocsConfig | string, projectPath?: string) {
 		if (typeof configOrPath === "string") {
 			this.config = getDocsConfig(configOrPath);
 		} else {
 			this.config = configOrPath;
 		}
-		this.providers = createProviders(this.config);
+		this.providers = createProviders(
+			this.config,
+			typeof configOrPath === "string" ? configOrPath : projectPath,
+		);
 		this.mapper = createLibraryMapper();
 		this.chunker = createDocChunker();
 	}
@@ -203,7 +234,8 @@ export class DocsFetcher {
 		return this.chunker.chunkAll(result.docs, {
 			provider: result.provider,
 			library,
-			version: options?.version,
+			// Prefer the exact version a provider read the docs from
+			version: result.docs[0]?.version ?? options?.version,
 		});
 	}
 
@@ -251,7 +283,7 @@ export function createDocsFetcher(
 	config?: DocsConfig,
 ): DocsFetcher {
 	// If explicit config provided, use it; otherwise load from project path
-	return new DocsFetcher(config || projectPath);
+	return new DocsFetcher(config || projectPath, projectPath);
 }
 
 /**
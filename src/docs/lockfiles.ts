@@ -0,0 +1,361 @@
+/**
+ * Lockfile Reader
+ *
+ * Reads the exact versions a project resolved its dependencies to.
+ * Manifests only carry constraints ("^18.2.0"); lockfiles pin what was
+ * actually installed, which is what local documentation must match.
+ */
+
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { PackageEcosystem } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Resolved versions by package name. A package can resolve to several
+ * versions (nested installs, go.sum history); the first is preferred.
+ */
+export type LockedVersions = Map<string, string[]>;
+
+/** Lockfile info */
+interface LockfileInfo {
+	filename: string;
+	ecosystem: PackageEcosystem;
+	parser: (content: string) => Array<[name: string, version: string]>;
+}
+
+/** Known lockfiles and their parsers, most authoritative first */
+const LOCKFILES: LockfileInfo[] = [
+	{ filename: "package-lock.json", ecosystem: "npm", parser: parsePackageLock },
+	{ filename: "bun.lock", ecosystem: "npm", parser: parseBunLock },
+	{ filename: "pnpm-lock.yaml", ecosystem: "npm", parser: parsePnpmLock },
+	{ filename: "yarn.lock", ecosystem: "npm", parser: parseYarnLock },
+	{ filename: "poetry.lock", ecosystem: "pypi", parser: parseTomlPackages },
+	{ filename: "uv.lock", ecosystem: "pypi", parser: parseTomlPackages },
+	{ filename: "Pipfile.lock", ecosystem: "pypi", parser: parsePipfileLock },
+	{
+		filename: "requirements.txt",
+		ecosystem: "pypi",
+		parser: parsePinnedRequirements,
+	},
+	{ filename: "go.mod", ecosystem: "go", parser: parseGoModRequires },
+	{ filename: "go.sum", ecosystem: "go", parser: parseGoSum },
+	{ filename: "Cargo.lock", ecosystem: "cargo", parser: parseTomlPackages },
+];
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Read the locked versions of a project's dependencies for one ecosystem.
+ * Missing or unreadable lockfiles are skipped.
+ */
+export async function readLockedVersions(
+	projectPath: string,
+	ecosystem: PackageEcosystem,
+): Promise<LockedVersions> {
+	const locked: LockedVersions = new Map();
+
+	for (const lockfile of LOCKFILES) {
+		if (lockfile.ecosystem !== ecosystem) continue;
+		try {
+			const content = await readFile(
+				join(projectPath, lockfile.filename),
+				"utf-8",
+			);
+			mergeVersions(locked, lockfile.parser(content), ecosystem);
+		} catch {
+			// File doesn't exist or can't be read - skip
+		}
+	}
+
+	return locked;
+}
+
+/**
+ * Parse a single lockfile by name. Returns an empty map for unknown files.
+ */
+export function parseLockfile(
+	filename: string,
+	content: string,
+): LockedVersions {
+	const locked: LockedVersions = new Map();
+	const lockfile = LOCKFILES.find((l) => l.filename === filename);
+	if (lockfile) {
+		mergeVersions(locked, lockfile.parser(content), lockfile.ecosystem);
+	}
+	return locked;
+}
+
+/**
+ * Locked versions of a package, preferred first.
+ */
+export function getLockedVersions(
+	locked: LockedVersions,
+	name: string,
+	ecosystem: PackageEcosystem,
+): string[] {
+	return locked.get(normalizePackageName(name, ecosystem)) ?? [];
+}
+
+/**
+ * Normalize a package name for lookups. Python package names are
+ * case-insensitive and treat "-", "_" and "." alike (PEP 503).
+ */
+export function normalizePackageName(
+	name: string,
+	ecosystem: PackageEcosystem,
+): string {
+	return ecosystem === "pypi"
+		? name.toLowerCase().replace(/[-_.]+/g, "-")
+		: name;
+}
+
+// ============================================================================
+// npm Lockfiles
+// ============================================================================
+
+/** package-lock.json v1 (dependencies) and v2/v3 (packages) */
+function parsePackageLock(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+
+	try {
+		const lock = JSON.parse(content);
+
+		for (const [path, info] of Object.entries(lock.packages ?? {})) {
+			// Only top-level installs: "node_modules/<name>"
+			const parts = path.split("node_modules/");
+			const version = (info as { version?: string }).version;
+			if (parts.length === 2 && parts[0] === "" && version) {
+				entries.push([parts[1], version]);
+			}
+		}
+
+		if (entries.length === 0) {
+			for (const [name, info] of Object.entries(lock.dependencies ?? {})) {
+				const version = (info as { version?: string }).version;
+				if (version) entries.push([name, version]);
+			}
+		}
+	} catch {
+		// Invalid JSON - skip
+	}
+
+	return entries;
+}
+
+/** bun.lock (JSONC): "react": ["react@18.2.0", ...] */
+function parseBunLock(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+	const pattern = /^\s*"([^"]+)":\s*\["([^"]+)"/gm;
+
+	for (const match of content.matchAll(pattern)) {
+		const [, key, spec] = match;
+		const parsed = splitNameVersion(spec);
+		// Keys of nested installs are paths ("parent/child"); skip them
+		if (parsed && parsed[0] === key) entries.push(parsed);
+	}
+
+	return entries;
+}
+
+/** pnpm-lock.yaml: keys under packages: ("/react@18.2.0", "react@18.2.0(...)") */
+function parsePnpmLock(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+	let inPackages = false;
+
+	for (const line of content.split("\n")) {
+		if (/^\S/.test(line)) {
+			inPackages = line.startsWith("packages:");
+			continue;
+		}
+		if (!inPackages) continue;
+
+		const match = line.match(/^ {2}(['"]?)(\S+?)\1:\s*$/);
+		if (!match) continue;
+
+		// Drop the leading slash (v5/v6) and peer suffixes
+		const key = match[2]
+			.replace(/^\//, "")
+			.replace(/\(.*$/, "")
+			.replace(/([/@]\d[^/@_(]*)_.*$/, "$1");
+		const parsed =
+			splitNameVersion(key) ??
+			// v5: /name/1.2.3
+			splitAt(key, key.lastIndexOf("/"));
+		if (parsed) entries.push(parsed);
+	}
+
+	return entries;
+}
+
+/** yarn.lock v1 (version "1.2.3") and berry (version: 1.2.3) */
+function parseYarnLock(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+	let names: string[] = [];
+
+	for (const line of content.split("\n")) {
+		if (/^\S.*:$/.test(line) && !line.startsWith("#")) {
+			// "react@^18.0.0", "react@npm:^18.2.0":
+			names = line
+				.slice(0, -1)
+				.split(",")
+				.map((spec) => spec.trim().replace(/^"|"$/g, ""))
+				.filter((spec) => spec.indexOf("@", 1) > 0)
+				.map((spec) => spec.slice(0, spec.indexOf("@", 1)));
+			continue;
+		}
+
+		const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+		if (version && names.length > 0) {
+			for (const name of new Set(names)) {
+				entries.push([name, version[1]]);
+			}
+			names = [];
+		}
+	}
+
+	return entries;
+}
+
+// ============================================================================
+// Python Lockfiles
+// ============================================================================
+
+/** Pipfile.lock: { default: { name: { version: "==1.2.3" } } } */
+function parsePipfileLock(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+
+	try {
+		const lock = JSON.parse(content);
+		for (const section of ["default", "develop"]) {
+			for (const [name, info] of Object.entries(lock[section] ?? {})) {
+				const version = (info as { version?: string }).version;
+				if (version?.startsWith("==")) entries.push([name, version.slice(2)]);
+			}
+		}
+	} catch {
+		// Invalid JSON - skip
+	}
+
+	return entries;
+}
+
+/** requirements.txt pins (pip-compile output): name==1.2.3 */
+function parsePinnedRequirements(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+
+	for (const line of content.split("\n")) {
+		const match = line
+			.trim()
+			.match(/^([a-zA-Z0-9_.-]+)(?:\[[^\]]*\])?\s*==\s*([^\s;#]+)/);
+		if (match) entries.push([match[1], match[2]]);
+	}
+
+	return entries;
+}
+
+// ============================================================================
+// Go
+// ============================================================================
+
+/** go.mod require lines carry the selected version */
+function parseGoModRequires(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+	let inRequire = false;
+
+	for (const line of content.split("\n")) {
+		const trimmed = line.trim();
+		if (trimmed.startsWith("require (")) {
+			inRequire = true;
+			continue;
+		}
+		if (trimmed === ")") {
+			inRequire = false;
+			continue;
+		}
+		if (inRequire || trimmed.startsWith("require ")) {
+			const match = trimmed.replace(/^require\s+/, "").match(/^(\S+)\s+(v\S+)/);
+			if (match) entries.push([match[1], match[2]]);
+		}
+	}
+
+	return entries;
+}
+
+/** go.sum: module v1.2.3 h1:... (module-only lines, not /go.mod) */
+function parseGoSum(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+
+	for (const line of content.split("\n")) {
+		const match = line.match(/^(\S+)\s+(v[^\s/]+)\s+h1:/);
+		if (match) entries.push([match[1], match[2]]);
+	}
+
+	return entries;
+}
+
+// ============================================================================
+// TOML Lockfiles (Cargo.lock, poetry.lock, uv.lock)
+// ============================================================================
+
+/** [[package]] tables with name and version keys */
+function parseTomlPackages(content: string): Array<[string, string]> {
+	const entries: Array<[string, string]> = [];
+	let name: string | undefined;
+	let version: string | undefined;
+
+	const flush = () => {
+		if (name && version) entries.push([name, version]);
+		name = undefined;
+		version = undefined;
+	};
+
+	for (const line of content.split("\n")) {
+		if (line.startsWith("[")) {
+			flush();
+			continue;
+		}
+		const match = line.match(/^(name|version)\s*=\s*"([^"]+)"/);
+		if (match?.[1] === "name") name = match[2];
+		else if (match?.[1] === "version") version = match[2];
+	}
+	flush();
+
+	return entries;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function mergeVersions(
+	locked: LockedVersions,
+	entries: Array<[string, string]>,
+	ecosystem: PackageEcosystem,
+): void {
+	for (const [name, version] of entries) {
+		const key = normalizePackageName(name, ecosystem);
+		const versions = locked.get(key) ?? [];
+		if (!versions.includes(version)) versions.push(version);
+		locked.set(key, versions);
+	}
+}
+
+/** "name@1.2.3" or "@scope/name@npm:1.2.3" → [name, version] */
+function splitNameVersion(spec: string): [string, string] | null {
+	const parsed = splitAt(spec, spec.indexOf("@", 1));
+	if (!parsed) return null;
+	const version = parsed[1].replace(/^npm:/, "");
+	return /^\d/.test(version) ? [parsed[0], version] : null;
+}
+
+function splitAt(text: string, index: number): [string, string] | null {
+	if (index <= 0) return null;
+	const version = text.slice(index + 1);
+	return version ? [text.slice(0, index), version] : null;
+}
@@ -22,3 +22,11 @@ export { LlmsTxtProvider, createLlmsTxtProvider } from "./llms-txt.js";
 
 // DevDocs provider
 export { DevDocsProvider, createDevDocsProvider } from "./devdocs.js";
+
+// Local (installed dependencies) provider
+export {
+	LocalDocsProvider,
+	createLocalDocsProvider,
+	escapeGoModulePath,
+} from "./local.js";
+export type { InstalledPackage } from "./local.js";
@@ -0,0 +1,626 @@
+/**
+ * Local Documentation Provider
+ *
+ * Indexes documentation that is already on disk for installed
+ * dependencies, so docs work without network access:
+ * - npm: READMEs and .d.ts files in node_modules (falling back to @types)
+ * - Python: package metadata and docstrings in the project's venv
+ * - Go: READMEs and doc comments in the module cache
+ * - Cargo: READMEs and doc comments in the registry source cache
+ *
+ * The installed copy must match the version pinned in the project's
+ * lockfiles; a stale install is skipped rather than indexed under the
+ * wrong version.
+ */
+
+import type { Dirent } from "node:fs";
+import { readFile, readdir, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join, relative } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { DocProviderType } from "../../types.js";
+import { createLibraryMapper } from "../library-mapper.js";
+import {
+	type LockedVersions,
+	getLockedVersions,
+	normalizePackageName,
+	readLockedVersions,
+} from "../lockfiles.js";
+import {
+	extractGoDocComments,
+	extractPythonDocstrings,
+	extractRustDocComments,
+} from "../source-docs.js";
+import type {
+	DetectedDependency,
+	FetchOptions,
+	FetchedDoc,
+	PackageEcosystem,
+} from "../types.js";
+import { BaseDocProvider } from "./base.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An installed copy of a dependency */
+export interface InstalledPackage {
+	name: string;
+	ecosystem: PackageEcosystem;
+	/** Exact installed version */
+	version: string;
+	/** Package directory (site-packages for Python) */
+	dir: string;
+	/** Python: the package's .dist-info directory */
+	distInfo?: string;
+}
+
+/** A documentation file read from an installed package */
+interface LocalDocFile {
+	path: string;
+	title: string;
+	section: string;
+	content: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Maximum files indexed per library */
+const MAX_FILES_PER_LIBRARY = 40;
+
+/** Files larger than this are skipped (generated bundles, huge typings) */
+const MAX_FILE_BYTES = 256 * 1024;
+
+/** Ecosystems tried for libraries not declared in any manifest */
+const ECOSYSTEM_ORDER: PackageEcosystem[] = ["npm", "pypi", "go", "cargo"];
+
+/** Directories never worth indexing */
+const SKIP_DIRS = new Set([
+	"node_modules",
+	"test",
+	"tests",
+	"testdata",
+	"__tests__",
+	"internal",
+	"vendor",
+	"examples",
+	"example",
+	"benches",
+]);
+
+const README_PATTERN = /^readme(\.(md|markdown|txt|rst))?$/i;
+
+// ============================================================================
+// Provider Implementation
+// ============================================================================
+
+export class LocalDocsProvider extends BaseDocProvider {
+	name: DocProviderType = "local";
+	priority = 4; // Offline fallback after the network providers
+
+	private mapper = createLibraryMapper();
+	private dependencies?: Promise<DetectedDependency[]>;
+	private locked = new Map<PackageEcosystem, Promise<LockedVersions>>();
+	private located = new Map<string, Promise<InstalledPackage | null>>();
+
+	constructor(
+		private projectPath: string,
+		cacheTTLHours = 24,
+	) {
+		super(cacheTTLHours);
+	}
+
+	/**
+	 * Check if the library is installed at its locked version
+	 */
+	async supports(library: string): Promise<boolean> {
+		return (await this.locate(library)) !== null;
+	}
+
+	/**
+	 * Read documentation from the installed copy of a library
+	 */
+	async fetch(library: string, options?: FetchOptions): Promise<FetchedDoc[]> {
+		const cached = this.getCached(library, options?.version);
+		if (cached) return cached;
+
+		const pkg = await this.locate(library);
+		if (!pkg) return [];
+
+		const files = await this.collect(pkg);
+		const docs = files.map((file, index) => ({
+			id: `local:${library}@${pkg.version}:${index}`,
+			title: file.title,
+			content: file.content,
+			section: file.section,
+			url: pathToFileURL(file.path).href,
+			tags: [pkg.ecosystem],
+			version: pkg.version,
+		}));
+
+		if (options?.onProgress) {
+			options.onProgress(docs.length, docs.length);
+		}
+
+		this.setCache(library, options?.version, docs);
+		return docs;
+	}
+
+	/**
+	 * Find the installed copy of a library matching its locked version
+	 */
+	locate(library: string): Promise<InstalledPackage | null> {
+		let located = this.located.get(library);
+		if (!located) {
+			located = this.findInstalled(library);
+			this.located.set(library, located);
+		}
+		return located;
+	}
+
+	// ==========================================================================
+	// Lookup
+	// ==========================================================================
+
+	private async findInstalled(
+		library: string,
+	): Promise<InstalledPackage | null> {
+		this.dependencies ??= this.mapper.detectDependencies(this.projectPath);
+		const dep = (await this.dependencies).find(
+			(d) => d.name.toLowerCase() === library.toLowerCase(),
+		);
+		const ecosystems = dep ? [dep.ecosystem] : ECOSYSTEM_ORDER;
+		const name = dep?.name ?? library;
+
+		for (const ecosystem of ecosystems) {
+			const versions = getLockedVersions(
+				await this.getLocked(ecosystem),
+				name,
+				ecosystem,
+			);
+			const pkg = await this.findForEcosystem(name, ecosystem, versions);
+			if (pkg) return pkg;
+		}
+
+		return null;
+	}
+
+	private getLocked(ecosystem: PackageEcosystem): Promise<LockedVersions> {
+		let locked = this.locked.get(ecosystem);
+		if (!locked) {
+			locked = readLockedVersions(this.projectPath, ecosystem);
+			this.locked.set(ecosystem, locked);
+		}
+		return locked;
+	}
+
+	private findForEcosystem(
+		name: string,
+		ecosystem: PackageEcosystem,
+		versions: string[],
+	): Promise<InstalledPackage | null> {
+		switch (ecosystem) {
+			case "npm":
+				return this.findNpm(name, versions);
+			case "pypi":
+				return this.findPython(name, versions);
+			case "go":
+				return findGo(name, versions);
+			case "cargo":
+				return findCargo(name, versions);
+		}
+	}
+
+	/** node_modules/<name>, checked against the lockfile */
+	private async findNpm(
+		name: string,
+		versions: string[],
+	): Promise<InstalledPackage | null> {
+		const dir = join(this.projectPath, "node_modules", name);
+		const version = await readJsonVersion(join(dir, "package.json"));
+		if (!version) return null;
+		if (versions.length > 0 && !versions.includes(version)) return null;
+		return { name, ecosystem: "npm", version, dir };
+	}
+
+	/** <venv>/lib/python3.x/site-packages/<name>-<version>.dist-info */
+	private async findPython(
+		name: string,
+		versions: string[],
+	): Promise<InstalledPackage | null> {
+		const wanted = normalizePackageName(name, "pypi");
+
+		for (const sitePackages of await this.sitePackagesDirs()) {
+			for (const entry of await listDir(sitePackages)) {
+				if (!entry.name.endsWith(".dist-info")) continue;
+
+				const stem = entry.name.slice(0, -".dist-info".length);
+				const dash = stem.indexOf("-");
+				if (dash <= 0) continue;
+				if (normalizePackageName(stem.slice(0, dash), "pypi") !== wanted) {
+					continue;
+				}
+
+				const version = stem.slice(dash + 1);
+				if (versions.length > 0 && !versions.includes(version)) continue;
+				return {
+					name,
+					ecosystem: "pypi",
+					version,
+					dir: sitePackages,
+					distInfo: join(sitePackages, entry.name),
+				};
+			}
+		}
+
+		return null;
+	}
+
+	/** site-packages of the active and in-project virtualenvs */
+	private async sitePackagesDirs(): Promise<string[]> {
+		const venvs = [
+			process.env.VIRTUAL_ENV,
+			join(this.projectPath, ".venv"),
+			join(this.projectPath, "venv"),
+			join(this.projectPath, "env"),
+		].filter((v): v is string => Boolean(v));
+
+		const dirs: string[] = [];
+		for (const venv of venvs) {
+			// Windows layout
+			const windows = join(venv, "Lib", "site-packages");
+			if (await isDirectory(windows)) dirs.push(windows);
+
+			for (const entry of await listDir(join(venv, "lib"))) {
+				if (entry.name.startsWith("python")) {
+					const dir = join(venv, "lib", entry.name, "site-packages");
+					if (await isDirectory(dir)) dirs.push(dir);
+				}
+			}
+		}
+		return dirs;
+	}
+
+	// ==========================================================================
+	// Collection
+	// ==========================================================================
+
+	private collect(pkg: InstalledPackage): Promise<LocalDocFile[]> {
+		switch (pkg.ecosystem) {
+			case "npm":
+				return this.collectNpm(pkg);
+			case "pypi":
+				return collectPython(pkg);
+			case "go":
+				return collectSources(pkg, pkg.dir, ".go", extractGoDocComments);
+			case "cargo":
+				return collectSources(
+					pkg,
+					join(pkg.dir, "src"),
+					".rs",
+					extractRustDocComments,
+				);
+		}
+	}
+
+	/** README plus type declarations, from @types when the package has none */
+	private async collectNpm(pkg: InstalledPackage): Promise<LocalDocFile[]> {
+		const files = await readReadme(pkg);
+
+		let typesDir = pkg.dir;
+		let declarations = await findFiles(pkg.dir, isDeclarationFile);
+		if (declarations.length === 0) {
+			// @scope/name → @types/scope__name
+			const typesName = pkg.name.replace(/^@/, "").replace("/", "__");
+			typesDir = join(this.projectPath, "node_modules", "@types", typesName);
+			declarations = await findFiles(typesDir, isDeclarationFile);
+		}
+
+		for (const path of declarations) {
+			const content = await readText(path);
+			if (content?.trim()) {
+				files.push({
+					path,
+					title: relative(typesDir, path),
+					section: "API Reference",
+					content,
+				});
+			}
+		}
+
+		return files.slice(0, MAX_FILES_PER_LIBRARY);
+	}
+}
+
+// ============================================================================
+// Go and Cargo Lookup
+// ============================================================================
+
+/** $GOMODCACHE/<escaped module>@<version> */
+async function findGo(
+	name: string,
+	versions: string[],
+): Promise<InstalledPackage | null> {
+	const gopath = process.env.GOPATH?.split(/[:;]/)[0] || join(homedir(), "go");
+	const modCache = process.env.GOMODCACHE || join(gopath, "pkg", "mod");
+
+	for (const version of versions) {
+		const dir = join(modCache, `${escapeGoModulePath(name)}@${version}`);
+		if (await isDirectory(dir)) {
+			return { name, ecosystem: "go", version, dir };
+		}
+	}
+
+	return null;
+}
+
+/** $CARGO_HOME/registry/src/<registry>/<name>-<version> */
+async function findCargo(
+	name: string,
+	versions: string[],
+): Promise<InstalledPackage | null> {
+	const cargoHome = process.env.CARGO_HOME || join(homedir(), ".cargo");
+	const registries = join(cargoHome, "registry", "src");
+
+	for (const registry of await listDir(registries)) {
+		const root = join(registries, registry.name);
+
+		if (versions.length === 0) {
+			// No Cargo.lock: use the newest cached release
+			const cached = (await listDir(root))
+				.map((e) => e.name)
+				.filter((n) => n.startsWith(`${name}-`))
+				.map((n) => n.slice(name.length + 1))
+				.filter((v) => /^\d/.test(v))
+				.sort(compareVersions);
+			const newest = cached[cached.length - 1];
+			if (newest) {
+				const dir = join(root, `${name}-${newest}`);
+				return { name, ecosystem: "cargo", version: newest, dir };
+			}
+			continue;
+		}
+
+		for (const version of versions) {
+			const dir = join(root, `${name}-${version}`);
+			if (await isDirectory(dir)) {
+				return { name, ecosystem: "cargo", version, dir };
+			}
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Escape a module path for the module cache: uppercase letters become
+ * "!" followed by the lowercase letter.
+ */
+export function escapeGoModulePath(path: string): string {
+	return path.replace(/[A-Z]/g, (c) => `!${c.toLowerCase()}`);
+}
+
+// ============================================================================
+// Collection Helpers
+// ============================================================================
+
+/** Package description from METADATA plus module docstrings */
+async function collectPython(pkg: InstalledPackage): Promise<LocalDocFile[]> {
+	const files: LocalDocFile[] = [];
+	if (!pkg.distInfo) return files;
+
+	const metadataPath = join(pkg.distInfo, "METADATA");
+	const metadata = await readText(metadataPath);
+	// The long description follows the header block
+	const description = metadata
+		?.split(/\r?\n\r?\n/)
+		.slice(1)
+		.join("\n\n");
+	if (description?.trim()) {
+		files.push({
+			path: metadataPath,
+			title: `${pkg.name} README`,
+			section: "Overview",
+			content: description.trim(),
+		});
+	}
+
+	for (const module of await pythonModules(pkg)) {
+		const path = join(pkg.dir, module);
+		const sources = (await isDirectory(path))
+			? await findFiles(path, isPublicPythonFile)
+			: [`${path}.py`];
+
+		for (const source of sources) {
+			if (files.length >= MAX_FILES_PER_LIBRARY) return files;
+			const content = await readText(source);
+			const docs = content ? extractPythonDocstrings(content) : "";
+			if (docs) {
+				files.push({
+					path: source,
+					title: relative(pkg.dir, source),
+					section: "API Reference",
+					content: docs,
+				});
+			}
+		}
+	}
+
+	return files;
+}
+
+/** Top-level import names, from top_level.txt or the RECORD file */
+async function pythonModules(pkg: InstalledPackage): Promise<string[]> {
+	if (!pkg.distInfo) return [];
+
+	const topLevel = await readText(join(pkg.distInfo, "top_level.txt"));
+	if (topLevel?.trim()) {
+		return topLevel
+			.split("\n")
+			.map((l) => l.trim())
+			.filter(Boolean);
+	}
+
+	const record = await readText(join(pkg.distInfo, "RECORD"));
+	const modules = new Set<string>();
+	for (const line of record?.split("\n") ?? []) {
+		const path = line.split(",")[0];
+		if (!path.endsWith(".py") || path.includes(".dist-info/")) continue;
+		const [first] = path.split("/");
+		modules.add(first.endsWith(".py") ? first.slice(0, -3) : first);
+	}
+	if (modules.size > 0) return [...modules];
+
+	return [pkg.name.replace(/[-.]/g, "_")];
+}
+
+/** README plus doc comments from source files with the given extension */
+async function collectSources(
+	pkg: InstalledPackage,
+	sourceDir: string,
+	extension: string,
+	extract: (source: string) => string,
+): Promise<LocalDocFile[]> {
+	const files = await readReadme(pkg);
+	const sources = await findFiles(
+		sourceDir,
+		(name) => name.endsWith(extension) && !name.endsWith(`_test${extension}`),
+	);
+
+	for (const source of sources) {
+		if (files.length >= MAX_FILES_PER_LIBRARY) break;
+		const content = await readText(source);
+		const docs = content ? extract(content) : "";
+		if (docs) {
+			files.push({
+				path: source,
+				title: relative(pkg.dir, source),
+				section: "API Reference",
+				content: docs,
+			});
+		}
+	}
+
+	return files;
+}
+
+async function readReadme(pkg: InstalledPackage): Promise<LocalDocFile[]> {
+	const entry = (await listDir(pkg.dir)).find(
+		(e) => e.isFile() && README_PATTERN.test(e.name),
+	);
+	if (!entry) return [];
+
+	const path = join(pkg.dir, entry.name);
+	const content = await readText(path);
+	if (!content?.trim()) return [];
+
+	return [{ path, title: `${pkg.name} README`, section: "Overview", content }];
+}
+
+function isDeclarationFile(name: string): boolean {
+	return name.endsWith(".d.ts");
+}
+
+function isPublicPythonFile(name: string): boolean {
+	return (
+		name.endsWith(".py") &&
+		(name === "__init__.py" || !name.startsWith("_")) &&
+		!name.startsWith("test_")
+	);
+}
+
+// ============================================================================
+// File System Helpers
+// ============================================================================
+
+/**
+ * Files under a directory accepted by a name filter, breadth-first in
+ * name order so top-level entry points come first.
+ */
+async function findFiles(
+	dir: string,
+	accept: (name: string) => boolean,
+	limit = MAX_FILES_PER_LIBRARY,
+): Promise<string[]> {
+	const found: string[] = [];
+	const queue = [dir];
+
+	while (queue.length > 0 && found.length < limit) {
+		const current = queue.shift() as string;
+		const entries = (await listDir(current)).sort((a, b) =>
+			a.name.localeCompare(b.name),
+		);
+
+		for (const entry of entries) {
+			const path = join(current, entry.name);
+			if (entry.isDirectory()) {
+				if (!entry.name.startsWith(".") && !SKIP_DIRS.has(entry.name)) {
+					queue.push(path);
+				}
+			} else if (entry.isFile() && accept(entry.name)) {
+				found.push(path);
+				if (found.length >= limit) break;
+			}
+		}
+	}
+
+	return found;
+}
+
+async function listDir(dir: string): Promise<Dirent[]> {
+	try {
+		return await readdir(dir, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+	try {
+		return (await stat(path)).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+/** Read a text file, skipping files over the size limit */
+async function readText(path: string): Promise<string | null> {
+	try {
+		if ((await stat(path)).size > MAX_FILE_BYTES) return null;
+		return await readFile(path, "utf-8");
+	} catch {
+		return null;
+	}
+}
+
+async function readJsonVersion(path: string): Promise<string | null> {
+	const content = await readText(path);
+	if (!content) return null;
+	try {
+		const version = JSON.parse(content).version;
+		return typeof version === "string" ? version : null;
+	} catch {
+		return null;
+	}
+}
+
+/** Numeric-aware version comparison ("1.10.0" > "1.9.2") */
+function compareVersions(a: string, b: string): number {
+	return a.localeCompare(b, undefined, { numeric: true });
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a local documentation provider for a project
+ */
+export function createLocalDocsProvider(
+	projectPath: string,
+	cacheTTLHours = 24,
+): LocalDocsProvider {
+	return new LocalDocsProvider(projectPath, cacheTTLHours);
+}
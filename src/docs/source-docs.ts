@@ -0,0 +1,201 @@
+/**
+ * Source Doc Extraction
+ *
+ * Pulls API documentation out of installed package sources: Python
+ * docstrings, Go doc comments and Rust doc comments. Each extractor
+ * returns markdown with one heading per documented public item, or an
+ * empty string when the file documents nothing.
+ */
+
+// ============================================================================
+// Python
+// ============================================================================
+
+/**
+ * Extract the module docstring and public function/class docstrings.
+ */
+export function extractPythonDocstrings(source: string): string {
+	const lines = source.split("\n");
+	const sections: string[] = [];
+
+	// Module docstring: first statement of the file
+	let start = 0;
+	while (
+		start < lines.length &&
+		(lines[start].trim() === "" || lines[start].trim().startsWith("#"))
+	) {
+		start++;
+	}
+	const moduleDoc = readDocstring(lines, start);
+	if (moduleDoc) sections.push(moduleDoc.text);
+
+	for (let i = moduleDoc ? moduleDoc.end + 1 : 0; i < lines.length; i++) {
+		const match = lines[i].match(/^(\s*)(?:async\s+)?(def|class)\s+(\w+)/);
+		if (!match || match[3].startsWith("_")) continue;
+
+		// Signatures can span lines; the body starts after the closing colon
+		let end = i;
+		while (end < lines.length - 1 && !/:\s*(#.*)?$/.test(lines[end])) end++;
+		const signature = lines
+			.slice(i, end + 1)
+			.map((l) => l.trim())
+			.join(" ")
+			.replace(/:\s*(#.*)?$/, "");
+
+		const doc = readDocstring(lines, end + 1);
+		if (!doc) continue;
+
+		const level = match[1].length > 0 ? "###" : "##";
+		sections.push(`${level} \`${signature}\`\n\n${doc.text}`);
+		i = doc.end;
+	}
+
+	return sections.join("\n\n");
+}
+
+/** Read a triple-quoted string starting at the first non-blank line */
+function readDocstring(
+	lines: string[],
+	from: number,
+): { text: string; end: number } | null {
+	let i = from;
+	while (i < lines.length && lines[i].trim() === "") i++;
+	if (i >= lines.length) return null;
+
+	const opening = lines[i].trim().match(/^[rRuUbB]?("""|''')/);
+	if (!opening) return null;
+
+	const quote = opening[1];
+	const first = lines[i].trim().slice(opening[0].length);
+	const body: string[] = [];
+
+	// Single-line docstring
+	if (first.includes(quote)) {
+		return { text: first.slice(0, first.indexOf(quote)).trim(), end: i };
+	}
+	body.push(first);
+
+	for (let j = i + 1; j < lines.length; j++) {
+		const index = lines[j].indexOf(quote);
+		if (index >= 0) {
+			body.push(lines[j].slice(0, index));
+			return { text: dedent(body).trim(), end: j };
+		}
+		body.push(lines[j]);
+	}
+
+	return null;
+}
+
+// ============================================================================
+// Go
+// ============================================================================
+
+/**
+ * Extract the package comment and comments on exported declarations.
+ */
+export function extractGoDocComments(source: string): string {
+	const lines = source.split("\n");
+	const sections: string[] = [];
+	let comment: string[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+
+		if (trimmed.startsWith("//")) {
+			comment.push(trimmed.replace(/^\/\/ ?/, ""));
+			continue;
+		}
+		if (trimmed.startsWith("/*")) {
+			// Block comment (common for long package docs in doc.go)
+			const block: string[] = [];
+			let j = i;
+			for (; j < lines.length; j++) {
+				block.push(lines[j]);
+				if (lines[j].includes("*/")) break;
+			}
+			comment = dedent(
+				block
+					.join("\n")
+					.replace(/^\s*\/\*+/, "")
+					.replace(/\*+\/\s*$/, "")
+					.split("\n"),
+			)
+				.trim()
+				.split("\n");
+			i = j;
+			continue;
+		}
+
+		if (comment.length > 0 && trimmed !== "") {
+			const text = comment.join("\n").trim();
+			if (trimmed.startsWith("package ")) {
+				sections.push(text);
+			} else if (isExportedGoDecl(trimmed)) {
+				sections.push(`## \`${trimmed.replace(/\s*[{(]$/, "")}\`\n\n${text}`);
+			}
+		}
+		comment = [];
+	}
+
+	return sections.join("\n\n");
+}
+
+/** func Name, func (r *T) Name, type Name, var/const Name */
+function isExportedGoDecl(line: string): boolean {
+	return /^(?:func\s+(?:\([^)]*\)\s*)?|type\s+|var\s+|const\s+)[A-Z]/.test(
+		line,
+	);
+}
+
+// ============================================================================
+// Rust
+// ============================================================================
+
+/**
+ * Extract crate/module docs (`//!`) and docs on public items (`///`).
+ */
+export function extractRustDocComments(source: string): string {
+	const lines = source.split("\n");
+	const sections: string[] = [];
+	const moduleDoc: string[] = [];
+	let comment: string[] = [];
+
+	for (const line of lines) {
+		const trimmed = line.trim();
+
+		if (trimmed.startsWith("//!")) {
+			moduleDoc.push(trimmed.replace(/^\/\/! ?/, ""));
+			continue;
+		}
+		if (trimmed.startsWith("///")) {
+			comment.push(trimmed.replace(/^\/\/\/ ?/, ""));
+			continue;
+		}
+		// Attributes sit between doc comments and their item
+		if (trimmed.startsWith("#[") || trimmed === "") continue;
+
+		if (comment.length > 0 && /^pub(?:\([^)]*\))?\s/.test(trimmed)) {
+			const signature = trimmed.replace(/\s*[{;(]\s*$/, "");
+			sections.push(`## \`${signature}\`\n\n${comment.join("\n").trim()}`);
+		}
+		comment = [];
+	}
+
+	const crateDoc = moduleDoc.join("\n").trim();
+	return [crateDoc, ...sections].filter(Boolean).join("\n\n");
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Remove the common leading indentation (ignoring the first line) */
+function dedent(lines: string[]): string {
+	const indents = lines
+		.slice(1)
+		.filter((l) => l.trim() !== "")
+		.map((l) => l.match(/^\s*/)?.[0].length ?? 0);
+	const indent = indents.length > 0 ? Math.min(...indents) : 0;
+	return [lines[0], ...lines.slice(1).map((l) => l.slice(indent))].join("\n");
+}
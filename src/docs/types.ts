@@ -22,6 +22,8 @@ export interface FetchedDoc {
 	url?: string;
 	/** Tags/topics */
 	tags?: string[];
+	/** Exact version the doc was read from, when the provider knows it */
+	version?: string;
 }
 
 /** Options for fetching documentation */
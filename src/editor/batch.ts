@@ -0,0 +1,141 @@
+/**
+ * Batch Edits
+ *
+ * Types and pure helpers for multi-file edit transactions
+ * (SymbolEditor.editBatch): every edit in a batch is resolved to a line
+ * splice, all splices for a file are checked for overlaps and applied
+ * bottom-to-top so earlier line numbers stay valid.
+ */
+
+import type { InsertMode } from "./editor.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Edit a symbol located by name via the index */
+export interface BatchSymbolEdit {
+	symbol: string;
+	/** File path hint to disambiguate symbols with the same name */
+	file?: string;
+	newContent: string;
+	/** How to apply the edit (default: "replace") */
+	mode?: InsertMode;
+}
+
+/** Replace a line range in a file */
+export interface BatchLineEdit {
+	/** File path (relative to workspace root) */
+	file: string;
+	/** First line to replace (1-indexed) */
+	startLine: number;
+	/** Last line to replace (1-indexed, inclusive) */
+	endLine: number;
+	newContent: string;
+}
+
+export type BatchEdit = BatchSymbolEdit | BatchLineEdit;
+
+export interface BatchEditResult {
+	/** Session ID restorable with restore_edit */
+	sessionId: string;
+	dryRun: boolean;
+	/** Files written (relative to workspace root) */
+	filesChanged: string[];
+	/** Resolved location of every edit, in request order */
+	edits: Array<{
+		filePath: string;
+		startLine: number;
+		endLine: number;
+		linesChanged: number;
+		symbolName?: string;
+		/** True when the file changed since indexing and the edit was merged */
+		merged?: boolean;
+	}>;
+}
+
+/**
+ * A resolved edit: delete `deleteCount` lines starting at 0-indexed `start`
+ * and insert `lines` in their place.
+ */
+export interface LineSplice {
+	/** Position of the edit in the batch (for error messages) */
+	index: number;
+	start: number;
+	deleteCount: number;
+	lines: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isSymbolEdit(edit: BatchEdit): edit is BatchSymbolEdit {
+	return "symbol" in edit;
+}
+
+/**
+ * Convert a 1-indexed inclusive line range and insert mode to a splice.
+ */
+export function toSplice(
+	index: number,
+	startLine: number,
+	endLine: number,
+	newContent: string,
+	mode: InsertMode,
+): LineSplice {
+	const lines = newContent.split("\n");
+	switch (mode) {
+		case "replace":
+			return {
+				index,
+				start: startLine - 1,
+				deleteCount: endLine - startLine + 1,
+				lines,
+			};
+		case "before":
+			return { index, start: startLine - 1, deleteCount: 0, lines };
+		case "after":
+			return { index, start: endLine, deleteCount: 0, lines };
+	}
+}
+
+/**
+ * Apply splices to a file's lines. Throws if any splice falls outside the
+ * file or two splices overlap (inserts at the same position as another edit
+ * go before it, in batch order).
+ */
+export function applySplices(
+	filePath: string,
+	lines: string[],
+	splices: LineSplice[],
+): string[] {
+	const ordered = [...splices].sort(
+		(a, b) =>
+			a.start - b.start || a.deleteCount - b.deleteCount || a.index - b.index,
+	);
+
+	for (const splice of ordered) {
+		if (splice.start < 0 || splice.start + splice.deleteCount > lines.length) {
+			throw new Error(
+				`Edit #${splice.index + 1}: invalid line range for ${filePath} with ${lines.length} lines`,
+			);
+		}
+	}
+	for (let i = 1; i < ordered.length; i++) {
+		const prev = ordered[i - 1];
+		const next = ordered[i];
+		if (prev.start + prev.deleteCount > next.start) {
+			throw new Error(
+				`Edits #${prev.index + 1} and #${next.index + 1} overlap in ${filePath}`,
+			);
+		}
+	}
+
+	// Bottom-to-top so earlier splice positions stay valid
+	const result = [...lines];
+	for (const splice of ordered.reverse()) {
+		result.splice(splice.start, splice.deleteCount, ...splice.lines);
+	}
+	return result;
+}
@@ -2,20 +2,33 @@
  * Symbol Editor
  *
  * Orchestrates code edits: locate symbol → validate → backup → write → reindex.
- * Provides both symbol-level and line-level editing with per-file locking.
+ * Provides symbol-level, line-level and multi-file batch editing with
+ * per-file locking.
  */
 
 import { readFileSync, writeFileSync, renameSync } from "node:fs";
 import { randomBytes } from "node:crypto";
-import { dirname, join, resolve } from "node:path";
+import { dirname, join, relative, resolve } from "node:path";
 import { spawn } from "node:child_process";
 
-import { SymbolLocator } from "./locator.js";
+import {
+	type BatchEdit,
+	type BatchEditResult,
+	type LineSplice,
+	applySplices,
+	isSymbolEdit,
+	toSplice,
+} from "./batch.js";
+import { SymbolLocator, type SymbolLocation } from "./locator.js";
 import { EditValidator } from "./validator.js";
 import { EditHistory } from "./history.js";
 import type { IndexCache } from "../mcp/cache.js";
 import type { McpConfig } from "../mcp/config.js";
 import type { LspManager } from "../lsp/manager.js";
+import {
+	type ParserManager,
+	getProjectParserManager,
+} from "../parsers/parser-manager.js";
 
 export type InsertMode = "replace" | "before" | "after";
 
@@ -26,6 +39,12 @@ export interface EditOptions {
 	sessionId?: string;
 	/** Skip syntax validation (for speed when caller knows content is valid) */
 	skipSyntaxCheck?: boolean;
+	/**
+	 * Merge symbol edits into a file that changed since it was indexed, as
+	 * long as the target symbol itself is unchanged (default: true).
+	 * When false, any change to the file since indexing rejects the edit.
+	 */
+	merge?: boolean;
 }
 
 export interface EditResult {
@@ -36,6 +55,8 @@ export interface EditResult {
 	dryRun: boolean;
 	sessionId: string;
 	symbolName?: string;
+	/** True when the file had changed since indexing and the edit was merged */
+	merged?: boolean;
 }
 
 /** Per-file lock chain */
@@ -59,13 +80,15 @@ export class SymbolEditor {
 	private locator: SymbolLocator;
 	private validator: EditValidator;
 	private history: EditHistory;
+	private parserManager: ParserManager;
 
 	constructor(
 		private cache: IndexCache,
 		private config: McpConfig,
 		private lspManager: LspManager | null = null,
 	) {
-		this.validator = new EditValidator();
+		this.parserManager = getProjectParserManager(config.workspaceRoot);
+		this.validator = new EditValidator(this.parserManager);
 		this.history = new EditHistory(config.indexDir);
 		// Locator is created lazily when cache is loaded
 		this.locator = null!;
@@ -74,7 +97,12 @@ export class SymbolEditor {
 	private async ensureLocator(): Promise<SymbolLocator> {
 		if (this.locator) return this.locator;
 		const { graphManager, tracker } = await this.cache.get();
-		this.locator = new SymbolLocator(graphManager, tracker, this.lspManager);
+		this.locator = new SymbolLocator(
+			graphManager,
+			tracker,
+			this.lspManager,
+			this.parserManager,
+		);
 		return this.locator;
 	}
 
@@ -99,7 +127,7 @@ export class SymbolEditor {
 			location.startLine,
 			location.endLine,
 			newContent,
-			{ ...options, _mode: mode },
+			{ ...options, _mode: mode, _location: location },
 		);
 
 		return { ...result, symbolName };
@@ -107,13 +135,20 @@ export class SymbolEditor {
 
 	/**
 	 * Edit specific lines in a file.
+	 *
+	 * When called for a symbol (`_location`) and the file changed on disk since
+	 * it was indexed, the symbol is relocated in the current contents and the
+	 * edit is merged (see merge.ts) instead of rejected.
 	 */
 	async editLines(
 		filePath: string,
 		startLine: number,
 		endLine: number,
 		newContent: string,
-		options: EditOptions & { _mode?: InsertMode } = {},
+		options: EditOptions & {
+			_mode?: InsertMode;
+			_location?: SymbolLocation;
+		} = {},
 	): Promise<EditResult> {
 		const absPath = resolve(this.config.workspaceRoot, filePath);
 		const dryRun = options.dryRun ?? false;
@@ -142,28 +177,29 @@ export class SymbolEditor {
 			const currentContent = readFileSync(absPath, "utf-8");
 			const lines = currentContent.split("\n");
 
+			// TOCTOU guard: verify hash inside lock, merging symbol edits into
+			// files that changed since indexing
+			const {
+				startLine: fromLine,
+				endLine: toLine,
+				merged,
+			} = await this.resolveRange(
+				filePath,
+				currentContent,
+				startLine,
+				endLine,
+				mode,
+				options._location,
+				options.merge,
+			);
+
 			// Validate line range
-			if (startLine < 1 || endLine > lines.length || startLine > endLine) {
+			if (fromLine < 1 || toLine > lines.length || fromLine > toLine) {
 				throw new Error(
-					`Invalid line range ${startLine}-${endLine} for file with ${lines.length} lines`,
+					`Invalid line range ${fromLine}-${toLine} for file with ${lines.length} lines`,
 				);
 			}
 
-			// TOCTOU guard: verify hash inside lock
-			const { tracker } = await this.cache.get();
-			const state = tracker.getFileState(filePath);
-			if (state) {
-				const { createHash } = await import("node:crypto");
-				const currentHash = createHash("sha256")
-					.update(currentContent)
-					.digest("hex");
-				if (currentHash !== state.contentHash) {
-					throw new Error(
-						`File ${filePath} changed between validation and write (TOCTOU). Retry the edit.`,
-					);
-				}
-			}
-
 			// Build new content based on mode
 			const newLines = newContent.split("\n");
 			let resultLines: string[];
@@ -171,23 +207,23 @@ export class SymbolEditor {
 			switch (mode) {
 				case "replace":
 					resultLines = [
-						...lines.slice(0, startLine - 1),
+						...lines.slice(0, fromLine - 1),
 						...newLines,
-						...lines.slice(endLine),
+						...lines.slice(toLine),
 					];
 					break;
 				case "before":
 					resultLines = [
-						...lines.slice(0, startLine - 1),
+						...lines.slice(0, fromLine - 1),
 						...newLines,
-						...lines.slice(startLine - 1),
+						...lines.slice(fromLine - 1),
 					];
 					break;
 				case "after":
 					resultLines = [
-						...lines.slice(0, endLine),
+						...lines.slice(0, toLine),
 						...newLines,
-						...lines.slice(endLine),
+						...lines.slice(toLine),
 					];
 					break;
 			}
@@ -215,17 +251,237 @@ export class SymbolEditor {
 
 			return {
 				filePath,
-				startLine,
-				endLine,
+				startLine: fromLine,
+				endLine: toLine,
 				linesChanged: newLines.length,
 				dryRun: false,
 				sessionId,
+				...(merged ? { merged } : {}),
 			};
 		} finally {
 			release();
 		}
 	}
 
+	/**
+	 * Apply a batch of symbol and line edits across files as one transaction.
+	 *
+	 * Every edit is located and validated (path, size, freshness, overlaps,
+	 * syntax of each resulting file) before anything is written. Then all
+	 * files are backed up under one session and written; if any write fails,
+	 * the files already written are restored. Touched files are reindexed once.
+	 */
+	async editBatch(
+		edits: BatchEdit[],
+		options: EditOptions = {},
+	): Promise<BatchEditResult> {
+		const dryRun = options.dryRun ?? false;
+		const sessionId = options.sessionId ?? randomBytes(8).toString("hex");
+		if (edits.length === 0) {
+			throw new Error("Batch contains no edits");
+		}
+
+		// ── Phase 1: locate every edit and run stateless checks ──────────────
+		const locator = await this.ensureLocator();
+		const planned = edits.map((edit, index) => {
+			let planEdit: {
+				index: number;
+				absPath: string;
+				startLine: number;
+				endLine: number;
+				mode: InsertMode;
+				location?: SymbolLocation;
+				symbolName?: string;
+			};
+			if (isSymbolEdit(edit)) {
+				const location = locator.locate(edit.symbol, { file: edit.file });
+				if (!location) {
+					throw new Error(
+						`Edit #${index + 1}: symbol '${edit.symbol}' not found in index`,
+					);
+				}
+				planEdit = {
+					index,
+					absPath: resolve(this.config.workspaceRoot, location.filePath),
+					startLine: location.startLine,
+					endLine: location.endLine,
+					mode: edit.mode ?? "replace",
+					location,
+					symbolName: edit.symbol,
+				};
+			} else {
+				if (edit.startLine < 1 || edit.startLine > edit.endLine) {
+					throw new Error(
+						`Edit #${index + 1}: invalid line range ${edit.startLine}-${edit.endLine}`,
+					);
+				}
+				planEdit = {
+					index,
+					absPath: resolve(this.config.workspaceRoot, edit.file),
+					startLine: edit.startLine,
+					endLine: edit.endLine,
+					mode: "replace",
+				};
+			}
+			this.validator.preCheck(planEdit.absPath, this.config.workspaceRoot);
+			this.validator.sizeCheck(edit.newContent);
+			return { ...planEdit, newContent: edit.newContent };
+		});
+
+		const files = Array.from(new Set(planned.map((p) => p.absPath))).sort();
+
+		// Lock every touched file (sorted order avoids lock-order deadlocks)
+		const releases: Array<() => void> = [];
+		try {
+			for (const absPath of files) {
+				releases.push(await acquireFileLock(absPath));
+			}
+
+			// ── Phase 2: resolve ranges against current contents ────────────
+			const originals = new Map<string, string>();
+			const splices = new Map<string, LineSplice[]>();
+			const resolved: BatchEditResult["edits"] = [];
+
+			for (const edit of planned) {
+				let content = originals.get(edit.absPath);
+				if (content === undefined) {
+					content = readFileSync(edit.absPath, "utf-8");
+					originals.set(edit.absPath, content);
+				}
+
+				const { startLine, endLine, merged } = await this.resolveRange(
+					edit.absPath,
+					content,
+					edit.startLine,
+					edit.endLine,
+					edit.mode,
+					edit.location,
+					options.merge,
+				);
+
+				const list = splices.get(edit.absPath) ?? [];
+				list.push(
+					toSplice(edit.index, startLine, endLine, edit.newContent, edit.mode),
+				);
+				splices.set(edit.absPath, list);
+
+				resolved.push({
+					filePath: relative(this.config.workspaceRoot, edit.absPath),
+					startLine,
+					endLine,
+					linesChanged: edit.newContent.split("\n").length,
+					...(edit.symbolName ? { symbolName: edit.symbolName } : {}),
+					...(merged ? { merged } : {}),
+				});
+			}
+
+			// ── Phase 3: build and syntax-check every resulting file ─────────
+			const results = new Map<string, string>();
+			for (const absPath of files) {
+				const original = originals.get(absPath) ?? "";
+				const finalContent = applySplices(
+					relative(this.config.workspaceRoot, absPath),
+					original.split("\n"),
+					splices.get(absPath) ?? [],
+				).join("\n");
+				this.validator.sizeCheck(finalContent);
+				if (!options.skipSyntaxCheck) {
+					await this.validator.syntaxCheck(finalContent, absPath);
+				}
+				results.set(absPath, finalContent);
+			}
+
+			const filesChanged = files.map((f) =>
+				relative(this.config.workspaceRoot, f),
+			);
+			if (dryRun) {
+				return { sessionId, dryRun: true, filesChanged, edits: resolved };
+			}
+
+			// ── Phase 4: back up all files, then write all-or-nothing ────────
+			await this.history.backupAll(
+				sessionId,
+				files.map((filePath) => ({
+					filePath,
+					content: originals.get(filePath) ?? "",
+				})),
+			);
+
+			try {
+				for (const [absPath, finalContent] of results) {
+					atomicWrite(absPath, finalContent);
+				}
+			} catch (err) {
+				try {
+					await this.history.restoreAll(sessionId);
+				} catch {
+					// Rollback failure: the session backup remains for restore_edit
+				}
+				throw err;
+			}
+
+			if (this.lspManager) {
+				for (const [absPath, finalContent] of results) {
+					this.lspManager.notifyFileSaved(absPath, finalContent);
+				}
+			}
+
+			// Reindex all touched files once
+			this.triggerReindex(...files);
+
+			return { sessionId, dryRun: false, filesChanged, edits: resolved };
+		} finally {
+			for (const release of releases) {
+				release();
+			}
+		}
+	}
+
+	/**
+	 * Resolve the line range to edit against the file's current contents.
+	 *
+	 * If the file changed since it was indexed, symbol edits are merged by
+	 * relocating the symbol (see merge.ts); other edits are rejected.
+	 */
+	private async resolveRange(
+		filePath: string,
+		currentContent: string,
+		startLine: number,
+		endLine: number,
+		mode: InsertMode,
+		location: SymbolLocation | undefined,
+		merge: boolean | undefined,
+	): Promise<{ startLine: number; endLine: number; merged: boolean }> {
+		const { tracker } = await this.cache.get();
+		const state = tracker.getFileState(filePath);
+		if (!state) {
+			return { startLine, endLine, merged: false };
+		}
+
+		const { createHash } = await import("node:crypto");
+		const currentHash = createHash("sha256")
+			.update(currentContent)
+			.digest("hex");
+		if (currentHash === state.contentHash) {
+			return { startLine, endLine, merged: false };
+		}
+
+		if (!location || merge === false) {
+			throw new Error(
+				`File ${filePath} changed between validation and write (TOCTOU). Retry the edit.`,
+			);
+		}
+		const locator = await this.ensureLocator();
+		const current = await locator.relocate(location, currentContent, {
+			requireUnchanged: mode === "replace",
+		});
+		return {
+			startLine: current.startLine,
+			endLine: current.endLine,
+			merged: true,
+		};
+	}
+
 	/**
 	 * Restore all files from an edit session.
 	 */
@@ -255,14 +511,14 @@ export class SymbolEditor {
 	}
 
 	/**
-	 * Trigger immediate reindex for a specific file.
+	 * Trigger immediate reindex for specific files.
 	 * Spawns a background process to avoid blocking.
 	 */
-	private triggerReindex(filePath: string): void {
+	private triggerReindex(...filePaths: string[]): void {
 		try {
 			const child = spawn(
 				"mnemex",
-				["index", "--quiet", "--files", filePath],
+				["index", "--quiet", "--files", ...filePaths],
 				{
 					cwd: this.config.workspaceRoot,
 					stdio: "ignore",
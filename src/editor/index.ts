@@ -11,7 +11,17 @@ export {
 } from "./locator.js";
 export type { SymbolLocation } from "./locator.js";
 export { EditValidator } from "./validator.js";
+export { EditConflictError, matchSymbol, mergeSymbol } from "./merge.js";
+export type { MergeConflictReason, MergeOptions } from "./merge.js";
 export { EditHistory } from "./history.js";
 export type { EditSession } from "./history.js";
 export { SymbolEditor, atomicWrite } from "./editor.js";
 export type { InsertMode, EditOptions, EditResult } from "./editor.js";
+export { applySplices, isSymbolEdit, toSplice } from "./batch.js";
+export type {
+	BatchEdit,
+	BatchEditResult,
+	BatchLineEdit,
+	BatchSymbolEdit,
+	LineSplice,
+} from "./batch.js";
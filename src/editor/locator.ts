@@ -6,9 +6,18 @@
  */
 
 import type { ReferenceGraphManager } from "../core/reference-graph.js";
+import {
+	type SymbolExtractor,
+	createSymbolExtractor,
+} from "../core/symbol-extractor.js";
 import type { IFileTracker } from "../core/tracker.js";
+import {
+	type ParserManager,
+	getParserManager,
+} from "../parsers/parser-manager.js";
 import type { SymbolDefinition } from "../types.js";
 import type { LspManager } from "../lsp/manager.js";
+import { EditConflictError, mergeSymbol } from "./merge.js";
 
 export interface SymbolLocation {
 	filePath: string;
@@ -51,10 +60,13 @@ export function byteToUtf16Offset(line: string, byteOffset: number): number {
 }
 
 export class SymbolLocator {
+	private extractor: SymbolExtractor | null = null;
+
 	constructor(
 		private graphManager: ReferenceGraphManager,
 		private tracker: IFileTracker,
 		private lspManager: LspManager | null = null,
+		private parserManager: ParserManager = getParserManager(),
 	) {}
 
 	/**
@@ -97,4 +109,50 @@ export class SymbolLocator {
 			symbol: s,
 		}));
 	}
+
+	/**
+	 * Relocate an indexed symbol in the current contents of its file, which
+	 * changed on disk since indexing. Re-parses the contents and returns the
+	 * symbol's current location (see merge.ts for the merge rules).
+	 *
+	 * @throws EditConflictError if the symbol was removed, or modified when
+	 * requireUnchanged is set
+	 */
+	async relocate(
+		location: SymbolLocation,
+		content: string,
+		options: { requireUnchanged: boolean },
+	): Promise<SymbolLocation> {
+		const indexed = location.symbol;
+		const language = this.parserManager.getLanguage(indexed.filePath);
+		if (!language) {
+			throw new EditConflictError(
+				indexed.name,
+				indexed.filePath,
+				"unverifiable",
+			);
+		}
+
+		this.extractor ??= createSymbolExtractor(this.parserManager);
+		const current = await this.extractor.extractSymbols(
+			content,
+			indexed.filePath,
+			language,
+		);
+		const parentName = indexed.parentId
+			? this.tracker.getSymbol(indexed.parentId)?.name
+			: undefined;
+
+		const symbol = mergeSymbol(indexed, current, {
+			parentName,
+			requireUnchanged: options.requireUnchanged,
+		});
+		return {
+			filePath: symbol.filePath,
+			startLine: symbol.startLine,
+			endLine: symbol.endLine,
+			source: "tree-sitter",
+			symbol,
+		};
+	}
 }
@@ -0,0 +1,121 @@
+/**
+ * Semantic Merge
+ *
+ * Three-way merge of a symbol edit into a file that changed on disk since it
+ * was indexed (another agent or the user edited it). The indexed symbol is
+ * the base, the current file is "theirs" and the edit is "ours":
+ *
+ * - Symbol body unchanged (same body hash), possibly moved → apply the edit
+ *   at the symbol's current lines
+ * - Symbol body modified since indexing → conflict
+ * - Symbol removed or renamed → conflict
+ *
+ * Inserting before/after a symbol only needs its current position, so those
+ * edits merge even when the symbol body itself changed.
+ */
+
+import type { SymbolDefinition } from "../types.js";
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type MergeConflictReason = "modified" | "removed" | "unverifiable";
+
+/**
+ * Raised when an edit cannot be merged into the current file contents.
+ */
+export class EditConflictError extends Error {
+	constructor(
+		public readonly symbolName: string,
+		public readonly filePath: string,
+		public readonly reason: MergeConflictReason,
+	) {
+		super(conflictMessage(symbolName, filePath, reason));
+		this.name = "EditConflictError";
+	}
+}
+
+function conflictMessage(
+	symbolName: string,
+	filePath: string,
+	reason: MergeConflictReason,
+): string {
+	switch (reason) {
+		case "modified":
+			return `Edit conflict: '${symbolName}' in ${filePath} was modified since it was indexed. Re-read the symbol and retry the edit.`;
+		case "removed":
+			return `Edit conflict: '${symbolName}' no longer exists in ${filePath} (removed or renamed since it was indexed).`;
+		case "unverifiable":
+			return `Edit conflict: ${filePath} changed since it was indexed and '${symbolName}' cannot be verified against the index. Run 'mnemex index' and retry.`;
+	}
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+export interface MergeOptions {
+	/** Name of the indexed symbol's parent (e.g. the class of a method) */
+	parentName?: string;
+	/** Require the symbol body to be unchanged (replace edits) */
+	requireUnchanged: boolean;
+}
+
+/**
+ * Find the indexed symbol among the symbols extracted from the current file
+ * contents. Matches on name, kind and parent name; when several candidates
+ * remain (overloads), the one closest to the indexed position wins.
+ */
+export function matchSymbol(
+	indexed: SymbolDefinition,
+	current: SymbolDefinition[],
+	parentName?: string,
+): SymbolDefinition | null {
+	const namesById = new Map(current.map((s) => [s.id, s.name]));
+	const candidates = current.filter(
+		(s) =>
+			s.name === indexed.name &&
+			s.kind === indexed.kind &&
+			(s.parentId ? namesById.get(s.parentId) : undefined) === parentName,
+	);
+	if (candidates.length === 0) return null;
+
+	// Prefer an exact body match, then proximity to the indexed start line
+	return candidates.reduce((best, candidate) => {
+		const bestExact = best.bodyHash === indexed.bodyHash;
+		const candidateExact = candidate.bodyHash === indexed.bodyHash;
+		if (bestExact !== candidateExact) return candidateExact ? candidate : best;
+		const bestDistance = Math.abs(best.startLine - indexed.startLine);
+		const candidateDistance = Math.abs(candidate.startLine - indexed.startLine);
+		return candidateDistance < bestDistance ? candidate : best;
+	});
+}
+
+/**
+ * Relocate an indexed symbol in the current file contents and decide whether
+ * the edit merges cleanly. Returns the symbol as it is now on disk.
+ *
+ * @throws EditConflictError if the symbol was removed, or modified when the
+ * edit requires an unchanged body
+ */
+export function mergeSymbol(
+	indexed: SymbolDefinition,
+	current: SymbolDefinition[],
+	options: MergeOptions,
+): SymbolDefinition {
+	if (options.requireUnchanged && !indexed.bodyHash) {
+		throw new EditConflictError(indexed.name, indexed.filePath, "unverifiable");
+	}
+
+	const match = matchSymbol(indexed, current, options.parentName);
+	if (!match) {
+		throw new EditConflictError(indexed.name, indexed.filePath, "removed");
+	}
+
+	if (options.requireUnchanged && match.bodyHash !== indexed.bodyHash) {
+		throw new EditConflictError(indexed.name, indexed.filePath, "modified");
+	}
+
+	return match;
+}
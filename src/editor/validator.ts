@@ -8,7 +8,10 @@
 import { realpathSync, readFileSync, statSync } from "node:fs";
 import { extname } from "node:path";
 import type { IFileTracker } from "../core/tracker.js";
-import { getParserManager } from "../parsers/parser-manager.js";
+import {
+	type ParserManager,
+	getParserManager,
+} from "../parsers/parser-manager.js";
 import type { SupportedLanguage } from "../types.js";
 import { createHash } from "node:crypto";
 
@@ -31,9 +34,26 @@ const EXT_TO_LANG: Record<string, SupportedLanguage> = {
 	".h": "c",
 	".cpp": "cpp",
 	".java": "java",
+	".rb": "ruby",
+	".php": "php",
+	".kt": "kotlin",
+	".kts": "kotlin",
+	".swift": "swift",
+	".cs": "csharp",
+	".yaml": "yaml",
+	".yml": "yaml",
+	".toml": "toml",
 };
 
 export class EditValidator {
+	/**
+	 * @param parserManager - Parser manager of the workspace (knows its
+	 * project-defined languages)
+	 */
+	constructor(
+		private readonly parserManager: ParserManager = getParserManager(),
+	) {}
+
 	/**
 	 * Guard against path traversal and symlink escape.
 	 * Uses fs.realpathSync to resolve symlinks before checking containment.
@@ -102,11 +122,15 @@ export class EditValidator {
 	 * Silently returns true for unsupported languages.
 	 */
 	async syntaxCheck(content: string, filePath: string): Promise<boolean> {
-		const ext = extname(filePath);
-		const lang = EXT_TO_LANG[ext];
+		const pm = this.parserManager;
+		const detected = pm.getLanguage(filePath);
+		// Project-defined languages are always checked against their grammar
+		const lang =
+			detected && pm.getCustomLanguage(detected)
+				? detected
+				: EXT_TO_LANG[extname(filePath)];
 		if (!lang) return true; // Unknown language, skip check
 
-		const pm = getParserManager();
 		const tree = await pm.parse(content, lang);
 		if (!tree) return true; // Parser not available
 
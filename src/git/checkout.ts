@@ -0,0 +1,107 @@
+/**
+ * Git Checkout
+ *
+ * Identifies the branch and worktree a project directory is checked out as.
+ * The indexer keys per-branch index state on the branch name and shares one
+ * content-addressed chunk store between all worktrees of a repository (it
+ * lives in the common git directory, not in any single worktree, and stores
+ * paths relative to the worktree root).
+ */
+
+import { execFileSync } from "node:child_process";
+import { basename, dirname, isAbsolute, resolve } from "node:path";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CheckoutInfo {
+	/** Branch name, or "detached@<sha>" when HEAD is detached */
+	branch: string;
+	/** HEAD commit hash */
+	head: string;
+	/** Git directory shared by all worktrees of the repository */
+	commonDir: string;
+	/** "main" for the primary worktree, otherwise the linked worktree's name */
+	worktreeId: string;
+	/** Top-level directory of the worktree */
+	root: string;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/** Run git in a directory and return trimmed stdout */
+function git(projectPath: string, args: string[]): string {
+	return execFileSync("git", args, {
+		cwd: projectPath,
+		encoding: "utf-8",
+		stdio: ["ignore", "pipe", "ignore"],
+	}).trim();
+}
+
+/**
+ * Detect the checkout of a project directory
+ *
+ * @returns null when the directory is not a git work tree or has no commits
+ */
+export function detectCheckout(projectPath: string): CheckoutInfo | null {
+	try {
+		const head = git(projectPath, ["rev-parse", "HEAD"]);
+		const gitDir = resolveGitPath(
+			projectPath,
+			git(projectPath, ["rev-parse", "--git-dir"]),
+		);
+		const commonDir = resolveGitPath(
+			projectPath,
+			git(projectPath, ["rev-parse", "--git-common-dir"]),
+		);
+		const root = resolve(git(projectPath, ["rev-parse", "--show-toplevel"]));
+
+		let branch: string;
+		try {
+			branch = git(projectPath, ["symbolic-ref", "--short", "-q", "HEAD"]);
+		} catch {
+			branch = "";
+		}
+
+		return {
+			branch: branch || `detached@${head.slice(0, 8)}`,
+			head,
+			commonDir,
+			// Linked worktrees live in <common>/worktrees/<name>
+			worktreeId:
+				gitDir === commonDir ||
+				basename(dirname(gitDir)) !== "worktrees" ||
+				dirname(dirname(gitDir)) !== commonDir
+					? "main"
+					: basename(gitDir),
+			root,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Local branch names of the repository (shared by all worktrees)
+ */
+export function listLocalBranches(projectPath: string): string[] {
+	try {
+		return git(projectPath, [
+			"for-each-ref",
+			"--format=%(refname:short)",
+			"refs/heads",
+		])
+			.split("\n")
+			.filter(Boolean);
+	} catch {
+		return [];
+	}
+}
+
+/** git prints paths relative to the working directory unless absolute */
+function resolveGitPath(projectPath: string, path: string): string {
+	return isAbsolute(path) ? resolve(path) : resolve(projectPath, path);
+}
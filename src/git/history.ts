@@ -0,0 +1,489 @@
+/**
+ * Git History
+ *
+ * Reads commit history and blame information for the history search backend
+ * and the `why` command. Commit messages and diffs are indexed as "commit"
+ * documents; blame maps a symbol's current lines back to the commits and
+ * authors that last touched them.
+ */
+
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { promisify } from "node:util";
+import type { BaseDocument } from "../types.js";
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CommitInfo {
+	/** Full 40-char commit hash */
+	hash: string;
+	author: string;
+	email: string;
+	/** Author date (ISO 8601) */
+	date: string;
+	subject: string;
+	body: string;
+	/** Files changed by the commit, relative to the repository root */
+	files: string[];
+}
+
+export interface BlameLine {
+	/** Line number in the current file (1-indexed) */
+	line: number;
+	hash: string;
+	author: string;
+	email: string;
+	/** Author date (ISO 8601) */
+	date: string;
+	summary: string;
+}
+
+/** Blame aggregated per commit */
+export interface BlameCommit {
+	hash: string;
+	shortHash: string;
+	author: string;
+	email: string;
+	date: string;
+	summary: string;
+	/** Number of current lines last touched by the commit */
+	lines: number;
+	/** Contiguous line ranges [start, end] attributed to the commit */
+	ranges: Array<[number, number]>;
+	/** Lines that are modified in the working tree but not committed */
+	uncommitted: boolean;
+}
+
+/** Authors of a line range, by number of lines they last touched */
+export interface BlameAuthor {
+	author: string;
+	email: string;
+	lines: number;
+	commits: number;
+}
+
+/** The commits and authors that shaped a line range */
+export interface LineHistory {
+	/** Committed changes, most lines first, with their full messages */
+	commits: Array<BlameCommit & { message: string }>;
+	authors: BlameAuthor[];
+	/** Lines modified in the working tree but not committed */
+	uncommittedLines: number;
+}
+
+export interface LogOptions {
+	/** Stop after this many commits (newest first) */
+	maxCount?: number;
+	/** Only list commits after this one (exclusive) */
+	since?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Unit/record separators never appear in commit metadata */
+const FIELD_SEP = "\x1f";
+const RECORD_SEP = "\x1e";
+const LOG_FORMAT = `${RECORD_SEP}%H${FIELD_SEP}%an${FIELD_SEP}%ae${FIELD_SEP}%aI${FIELD_SEP}%s${FIELD_SEP}%b${FIELD_SEP}`;
+
+/** Hash git blame uses for lines that are not committed yet */
+const UNCOMMITTED_HASH = "0".repeat(40);
+
+/** Keep commit documents within embedding model limits */
+const MAX_DIFF_CHARS = 4000;
+const MAX_LISTED_FILES = 50;
+
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse `git log --name-only` output produced with LOG_FORMAT
+ */
+export function parseLog(output: string): CommitInfo[] {
+	const commits: CommitInfo[] = [];
+
+	for (const record of output.split(RECORD_SEP)) {
+		const fields = record.split(FIELD_SEP);
+		if (fields.length < 7) continue;
+
+		const [hash, author, email, date, subject, body, fileBlock] = fields;
+		commits.push({
+			hash: hash.trim(),
+			author,
+			email,
+			date,
+			subject,
+			body: body.trim(),
+			files: fileBlock
+				.split("\n")
+				.map((line) => line.trim())
+				.filter(Boolean),
+		});
+	}
+
+	return commits;
+}
+
+/**
+ * Parse `git blame --line-porcelain` output.
+ *
+ * Every line starts with a header "<hash> <orig-line> <final-line> [<count>]",
+ * followed by "key value" lines and the line content prefixed with a tab.
+ */
+export function parseBlamePorcelain(output: string): BlameLine[] {
+	const lines: BlameLine[] = [];
+	let current: BlameLine | null = null;
+
+	for (const raw of output.split("\n")) {
+		if (raw.startsWith("\t")) {
+			if (current) lines.push(current);
+			current = null;
+			continue;
+		}
+
+		const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(raw);
+		if (header) {
+			current = {
+				line: Number.parseInt(header[2], 10),
+				hash: header[1],
+				author: "",
+				email: "",
+				date: "",
+				summary: "",
+			};
+			continue;
+		}
+		if (!current) continue;
+
+		const space = raw.indexOf(" ");
+		const key = space === -1 ? raw : raw.slice(0, space);
+		const value = space === -1 ? "" : raw.slice(space + 1);
+		switch (key) {
+			case "author":
+				current.author = value;
+				break;
+			case "author-mail":
+				current.email = value.replace(/^<|>$/g, "");
+				break;
+			case "author-time":
+				current.date = new Date(
+					Number.parseInt(value, 10) * 1000,
+				).toISOString();
+				break;
+			case "summary":
+				current.summary = value;
+				break;
+		}
+	}
+
+	return lines;
+}
+
+/**
+ * Group blamed lines by commit, most lines first (newest first on ties)
+ */
+export function summarizeBlame(lines: BlameLine[]): BlameCommit[] {
+	const byHash = new Map<string, BlameCommit>();
+
+	for (const line of [...lines].sort((a, b) => a.line - b.line)) {
+		let commit = byHash.get(line.hash);
+		if (!commit) {
+			const uncommitted = line.hash === UNCOMMITTED_HASH;
+			commit = {
+				hash: line.hash,
+				shortHash: line.hash.slice(0, 8),
+				author: uncommitted ? "(uncommitted)" : line.author,
+				email: uncommitted ? "" : line.email,
+				date: line.date,
+				summary: uncommitted ? "Local changes" : line.summary,
+				lines: 0,
+				ranges: [],
+				uncommitted,
+			};
+			byHash.set(line.hash, commit);
+		}
+
+		commit.lines++;
+		const last = commit.ranges[commit.ranges.length - 1];
+		if (last && last[1] === line.line - 1) {
+			last[1] = line.line;
+		} else {
+			commit.ranges.push([line.line, line.line]);
+		}
+	}
+
+	return [...byHash.values()].sort(
+		(a, b) => b.lines - a.lines || b.date.localeCompare(a.date),
+	);
+}
+
+/**
+ * Group blamed commits by author, most lines first
+ */
+export function summarizeAuthors(commits: BlameCommit[]): BlameAuthor[] {
+	const byEmail = new Map<string, BlameAuthor>();
+
+	for (const commit of commits) {
+		if (commit.uncommitted) continue;
+		const key = commit.email || commit.author;
+		const entry = byEmail.get(key) ?? {
+			author: commit.author,
+			email: commit.email,
+			lines: 0,
+			commits: 0,
+		};
+		entry.lines += commit.lines;
+		entry.commits++;
+		byEmail.set(key, entry);
+	}
+
+	return [...byEmail.values()].sort((a, b) => b.lines - a.lines);
+}
+
+// ============================================================================
+// Commit Documents
+// ============================================================================
+
+/**
+ * Searchable text of a commit: message, changed files and a truncated diff
+ */
+export function formatCommitText(commit: CommitInfo, diff: string): string {
+	const parts = [commit.subject];
+	if (commit.body) parts.push(commit.body);
+
+	if (commit.files.length > 0) {
+		const listed = commit.files.slice(0, MAX_LISTED_FILES);
+		const more = commit.files.length - listed.length;
+		parts.push(
+			`Files changed:\n${listed.map((f) => `- ${f}`).join("\n")}${more > 0 ? `\n- … and ${more} more` : ""}`,
+		);
+	}
+
+	const trimmed = diff.trim();
+	if (trimmed) {
+		parts.push(
+			trimmed.length > MAX_DIFF_CHARS
+				? `${trimmed.slice(0, MAX_DIFF_CHARS)}\n… (diff truncated)`
+				: trimmed,
+		);
+	}
+
+	return parts.join("\n\n");
+}
+
+/**
+ * Build the "commit" document stored alongside code chunks.
+ * Commits have no file path, so regular code search never returns them.
+ */
+export function buildCommitDocument(
+	commit: CommitInfo,
+	diff: string,
+): BaseDocument {
+	const content = formatCommitText(commit, diff);
+	return {
+		id: createHash("sha256")
+			.update(`commit:${commit.hash}`)
+			.digest("hex")
+			.slice(0, 16),
+		content,
+		documentType: "commit",
+		filePath: "",
+		createdAt: commit.date,
+		enrichedAt: new Date().toISOString(),
+		metadata: {
+			hash: commit.hash,
+			author: commit.author,
+			email: commit.email,
+			date: commit.date,
+			subject: commit.subject,
+			files: commit.files,
+		},
+	};
+}
+
+// ============================================================================
+// Git History Class
+// ============================================================================
+
+/**
+ * Runs git in the project directory. All paths are relative to the
+ * project root.
+ */
+export class GitHistory {
+	private readonly projectPath: string;
+
+	constructor(projectPath: string) {
+		this.projectPath = projectPath;
+	}
+
+	/**
+	 * Whether the project is inside a git work tree with at least one commit
+	 */
+	async isAvailable(): Promise<boolean> {
+		try {
+			await this.getHead();
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Current HEAD commit hash
+	 */
+	async getHead(): Promise<string> {
+		return (await this.run(["rev-parse", "HEAD"])).trim();
+	}
+
+	/**
+	 * Whether `ancestor` is reachable from `commit` (false if either is unknown)
+	 */
+	async isAncestor(ancestor: string, commit: string): Promise<boolean> {
+		try {
+			await this.run(["merge-base", "--is-ancestor", ancestor, commit]);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Non-merge commits reachable from HEAD, newest first
+	 */
+	async log(options: LogOptions = {}): Promise<CommitInfo[]> {
+		const args = [
+			"log",
+			"--no-merges",
+			"--name-only",
+			`--format=${LOG_FORMAT}`,
+		];
+		if (options.maxCount) args.push(`--max-count=${options.maxCount}`);
+		args.push(options.since ? `${options.since}..HEAD` : "HEAD");
+		args.push("--");
+
+		return parseLog(await this.run(args));
+	}
+
+	/**
+	 * Unified diff introduced by a commit (without the message)
+	 */
+	async diff(hash: string): Promise<string> {
+		return this.run([
+			"show",
+			"--format=",
+			"--no-color",
+			"--no-ext-diff",
+			"--unified=1",
+			hash,
+		]);
+	}
+
+	/**
+	 * Full commit message (subject and body)
+	 */
+	async message(hash: string): Promise<string> {
+		return (await this.run(["show", "-s", "--format=%B", hash])).trim();
+	}
+
+	/**
+	 * Content of a file as last committed, looking past its deletion if it
+	 * is gone from HEAD; null if git never tracked it
+	 */
+	async lastCommittedContent(filePath: string): Promise<string | null> {
+		try {
+			return await this.run(["show", `HEAD:./${filePath}`]);
+		} catch {
+			// Not in HEAD: find the commit that deleted it
+		}
+		try {
+			const deletedIn = (
+				await this.run(["rev-list", "-n", "1", "HEAD", "--", filePath])
+			).trim();
+			if (!deletedIn) return null;
+			return await this.run(["show", `${deletedIn}^:./${filePath}`]);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Blame a line range and return the commits (with their messages) and
+	 * authors behind its current lines
+	 *
+	 * @param maxCommits Most-contributing commits to return messages for
+	 */
+	async explainLines(
+		filePath: string,
+		startLine: number,
+		endLine: number,
+		maxCommits = 10,
+	): Promise<LineHistory> {
+		const blamed = summarizeBlame(
+			await this.blame(filePath, startLine, endLine),
+		);
+		const committed = blamed.filter((c) => !c.uncommitted);
+
+		const commits = [];
+		for (const commit of committed.slice(0, maxCommits)) {
+			commits.push({ ...commit, message: await this.message(commit.hash) });
+		}
+
+		return {
+			commits,
+			authors: summarizeAuthors(committed),
+			uncommittedLines: blamed
+				.filter((c) => c.uncommitted)
+				.reduce((sum, c) => sum + c.lines, 0),
+		};
+	}
+
+	/**
+	 * Blame a line range of the working tree version of a file
+	 */
+	async blame(
+		filePath: string,
+		startLine: number,
+		endLine: number,
+	): Promise<BlameLine[]> {
+		const output = await this.run([
+			"blame",
+			"--line-porcelain",
+			"-w",
+			"-L",
+			`${startLine},${endLine}`,
+			"--",
+			filePath,
+		]);
+		return parseBlamePorcelain(output);
+	}
+
+	/** Run git in the project directory and return stdout */
+	private async run(args: string[]): Promise<string> {
+		const { stdout } = await execFileAsync("git", args, {
+			cwd: this.projectPath,
+			maxBuffer: MAX_BUFFER,
+			// Prevent git from spawning a pager
+			env: { ...process.env, GIT_PAGER: "cat" },
+		});
+		return stdout;
+	}
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a git history reader for a project
+ */
+export function createGitHistory(projectPath: string): GitHistory {
+	return new GitHistory(projectPath);
+}
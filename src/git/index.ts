@@ -7,3 +7,22 @@ export {
 	createGitHookManager,
 	type HookStatus,
 } from "./hook-manager.js";
+export {
+	detectCheckout,
+	listLocalBranches,
+	type CheckoutInfo,
+} from "./checkout.js";
+export {
+	GitHistory,
+	createGitHistory,
+	buildCommitDocument,
+	parseBlamePorcelain,
+	parseLog,
+	summarizeAuthors,
+	summarizeBlame,
+	type BlameAuthor,
+	type BlameCommit,
+	type BlameLine,
+	type CommitInfo,
+	type LineHistory,
+} from "./history.js";
@@ -15,6 +15,10 @@ import {
 	type InteractionSystem,
 	generateSessionId,
 } from "../../learning/interaction/index.js";
+import {
+	classifyToolUse,
+	encodeToolContext,
+} from "../../learning/advisor/tool-actions.js";
 
 // ============================================================================
 // Singleton Management
@@ -141,6 +145,9 @@ export function logToolCompletion(input: HookInput): void {
 	// Determine success
 	const success = !isToolError(input.tool_response);
 
+	// Classify what the tool was used for (input for the tool advisor)
+	const use = classifyToolUse(input.tool_name, input.tool_input);
+
 	// Log tool event
 	system.logger.logToolEvent({
 		sessionId,
@@ -149,6 +156,8 @@ export function logToolCompletion(input: HookInput): void {
 		toolInput: input.tool_input as Record<string, unknown> | undefined,
 		success,
 		error: extractErrorMessage(input.tool_response),
+		action: use.action,
+		context: encodeToolContext(use),
 	});
 
 	// Log code changes for Write/Edit tools
@@ -326,6 +335,15 @@ export function getCorrectionGapStats(projectPath: string) {
 	return system.store.getCorrectionGapStats();
 }
 
+/**
+ * Get recent classified tool events for a project (oldest first).
+ */
+export function getActionEvents(projectPath: string) {
+	const system = getInteractionSystem(projectPath);
+	if (!system) return [];
+	return system.store.getActionEvents();
+}
+
 /**
  * Prune old interaction data.
  */
@@ -7,13 +7,23 @@
  * - Glob: Provide tips about semantic search
  * - Read: Track for potential feedback (future)
  * - All tools: Log tool start for interaction monitoring
+ *
+ * Once the project has tool history, learned guidance (tool-guidance.ts)
+ * picks the mnemex command to run, or lets the search through when it has
+ * been resolving similar lookups well.
  */
 
+import { spawnSync } from "node:child_process";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import { spawnSync } from "node:child_process";
+import {
+	type ToolAdvice,
+	actionArgument,
+	classifyCommand,
+} from "../../learning/advisor/index.js";
 import type { HookInput, HookOutput, IndexStatus } from "../types.js";
 import { logToolStart } from "./interaction-logger.js";
+import { formatToolAdvice, getToolAdvice } from "./tool-guidance.js";
 
 // ============================================================================
 // Utilities
@@ -53,6 +63,46 @@ function runMnemex(args: string[], cwd?: string): string | null {
 	}
 }
 
+/**
+ * Learned advice for this tool call (null if unavailable)
+ */
+function adviseSafely(input: HookInput): ToolAdvice | null {
+	try {
+		return getToolAdvice(input);
+	} catch {
+		// Don't fail the hook if guidance fails
+		return null;
+	}
+}
+
+/**
+ * Mnemex command (e.g. "callers") the advice confidently prefers over the
+ * intercepted search, if any
+ */
+function learnedCommand(advice: ToolAdvice | null): string | null {
+	if (!advice?.confident || advice.recommended === advice.action) return null;
+	return advice.recommended.slice("mnemex:".length);
+}
+
+/**
+ * Whether the advice confidently prefers letting the search run
+ */
+function learnedToAllow(advice: ToolAdvice | null): boolean {
+	return !!advice?.confident && advice.recommended === advice.action;
+}
+
+/**
+ * Append learned guidance to hook context
+ */
+function withAdvice(
+	context: string,
+	advice: ToolAdvice | null,
+	query?: string,
+): string {
+	const learned = advice ? formatToolAdvice(advice, query) : null;
+	return learned ? `${context}\n\n${learned}` : context;
+}
+
 // ============================================================================
 // Tool Handlers
 // ============================================================================
@@ -78,12 +128,34 @@ mnemex index
 		};
 	}
 
+	// Let the search run when it has been resolving similar lookups here
+	const advice = adviseSafely(input);
+	if (learnedToAllow(advice)) {
+		return { additionalContext: withAdvice("Grep allowed.", advice) };
+	}
+
 	// Determine best command based on pattern
 	let results: string | null = null;
 	let commandUsed = "map";
+	let argument = pattern;
+
+	// Prefer the command learned for queries like this one
+	const learned = learnedCommand(advice);
+	if (learned) {
+		results = runMnemex(
+			["--nologo", learned, actionArgument(pattern), "--raw"],
+			input.cwd,
+		);
+		if (results?.trim()) {
+			commandUsed = learned;
+			argument = actionArgument(pattern);
+		} else {
+			results = null;
+		}
+	}
 
 	// If pattern looks like a symbol name, try symbol lookup first
-	if (/^[A-Z][a-zA-Z0-9]*$|^[a-z][a-zA-Z0-9_]*$/.test(pattern)) {
+	if (!results && /^[A-Z][a-zA-Z0-9]*$|^[a-z][a-zA-Z0-9_]*$/.test(pattern)) {
 		results = runMnemex(["--nologo", "symbol", pattern, "--raw"], input.cwd);
 		if (results && !results.includes("No results") && results.trim()) {
 			commandUsed = "symbol";
@@ -101,10 +173,11 @@ mnemex index
 	}
 
 	return {
-		additionalContext: `**MNEMEX AST ANALYSIS** (Grep intercepted)
+		additionalContext: withAdvice(
+			`**MNEMEX AST ANALYSIS** (Grep intercepted)
 
 **Query:** "${pattern}"
-**Command:** mnemex --nologo ${commandUsed} "${pattern}" --raw
+**Command:** mnemex --nologo ${commandUsed} "${argument}" --raw
 
 ${results}
 
@@ -116,6 +189,9 @@ AST structural analysis complete.
 - \`mnemex --nologo callers <name> --raw\` - What calls this?
 - \`mnemex --nologo callees <name> --raw\` - What does this call?
 - \`mnemex --nologo context <name> --raw\` - Full call chain`,
+			advice,
+			pattern,
+		),
 		hookSpecificOutput: {
 			hookEventName: "PreToolUse",
 			permissionDecision: "deny",
@@ -134,25 +210,10 @@ async function handleBashIntercept(
 	const command = input.tool_input?.command;
 	if (!command) return null;
 
-	// Patterns that indicate search commands
-	const searchPatterns = [
-		/\bgrep\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/,
-		/\brg\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/,
-		/\bag\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/,
-		/\back\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/,
-		/\bfind\s+.*-i?name\s+["']?\*?([^"'\s*]+)/,
-	];
-
-	// Extract search pattern
-	let extractedPattern: string | null = null;
-	for (const regex of searchPatterns) {
-		const match = command.match(regex);
-		if (match) {
-			extractedPattern = match[1];
-			break;
-		}
-	}
-
+	// Extract search pattern (grep, rg, ag, ack, find -name)
+	const use = classifyCommand(command);
+	if (use.action !== "grep" && use.action !== "find") return null;
+	const extractedPattern = use.query;
 	if (!extractedPattern) return null;
 
 	const status = isIndexed(input.cwd);
@@ -167,22 +228,47 @@ Allowing command as fallback.`,
 		};
 	}
 
-	// Run mnemex instead
-	const results =
+	// Let the search run when it has been resolving similar lookups here
+	const advice = adviseSafely(input);
+	if (learnedToAllow(advice)) {
+		return { additionalContext: withAdvice("Search allowed.", advice) };
+	}
+
+	// Run mnemex instead, with the command learned for queries like this one
+	const learned = learnedCommand(advice);
+	let commandUsed = "map";
+	let argument = extractedPattern;
+	let results: string | null = null;
+	if (learned) {
+		results = runMnemex(
+			["--nologo", learned, actionArgument(extractedPattern), "--raw"],
+			input.cwd,
+		);
+		if (results) {
+			commandUsed = learned;
+			argument = actionArgument(extractedPattern);
+		}
+	}
+	results =
+		results ||
 		runMnemex(["--nologo", "map", extractedPattern, "--raw"], input.cwd) ||
 		"No results found";
 
 	return {
-		additionalContext: `**MNEMEX AST ANALYSIS** (Bash search intercepted)
+		additionalContext: withAdvice(
+			`**MNEMEX AST ANALYSIS** (Bash search intercepted)
 
 **Original command:** \`${command}\`
 **Pattern extracted:** "${extractedPattern}"
-**Replaced with:** mnemex --nologo map "${extractedPattern}" --raw
+**Replaced with:** mnemex --nologo ${commandUsed} "${argument}" --raw
 
 ${results}
 
 ---
 Use mnemex for structural analysis instead of grep/find.`,
+			advice,
+			extractedPattern,
+		),
 		hookSpecificOutput: {
 			hookEventName: "PreToolUse",
 			permissionDecision: "deny",
@@ -209,6 +295,16 @@ mnemex --nologo map "your query" --raw
 		};
 	}
 
+	// Learned guidance replaces the generic tip once there is evidence
+	const advice = adviseSafely(input);
+	if (advice?.confident) {
+		const learned = formatToolAdvice(
+			advice,
+			input.tool_input?.pattern as string | undefined,
+		);
+		return learned ? { additionalContext: learned } : null;
+	}
+
 	// Don't block Glob, just add tips
 	return {
 		additionalContext: `**Tip:** For semantic code search, use mnemex:
@@ -0,0 +1,102 @@
+/**
+ * Tool Guidance - Learned recommendations for PreToolUse.
+ *
+ * Trains the tool advisor (bandit + shadow predictor) on the project's
+ * logged tool events and turns its advice into hook context. Disabled with
+ * `toolGuidance: false` in the project or global config, or
+ * CLAUDE_LEARNING=off.
+ */
+
+import { isToolGuidanceEnabled } from "../../config.js";
+import {
+	SEARCH_ACTIONS,
+	type ToolAdvice,
+	classifyToolUse,
+	createToolAdvisor,
+	formatActionCommand,
+} from "../../learning/advisor/index.js";
+import type { HookInput } from "../types.js";
+import { getActionEvents } from "./interaction-logger.js";
+
+// ============================================================================
+// Advice
+// ============================================================================
+
+/**
+ * Advice for the tool call in a PreToolUse event, or null when guidance is
+ * off, nothing has been learned yet, or the tool has no alternatives.
+ */
+export function getToolAdvice(input: HookInput): ToolAdvice | null {
+	if (!input.tool_name) return null;
+	if (!isToolGuidanceEnabled(input.cwd)) return null;
+
+	// Empty when CLAUDE_LEARNING=off or nothing has been logged yet
+	const events = getActionEvents(input.cwd);
+	if (events.length === 0) return null;
+
+	const advisor = createToolAdvisor();
+	advisor.train(events);
+
+	const recentActions = events
+		.filter((e) => e.sessionId === input.session_id)
+		.map((e) => e.action ?? e.toolName.toLowerCase());
+	return advisor.advise(
+		classifyToolUse(input.tool_name, input.tool_input),
+		recentActions,
+	);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Markdown lines explaining confident advice, or null when there is
+ * nothing worth saying.
+ */
+export function formatToolAdvice(
+	advice: ToolAdvice,
+	query?: string,
+): string | null {
+	if (!advice.confident) return null;
+
+	const rateOf = (action: string) =>
+		advice.rates.find((r) => r.action === action);
+	const chosen = rateOf(advice.recommended);
+	const current = rateOf(advice.action);
+	if (!chosen || !current) return null;
+
+	const lines: string[] = [];
+	if (advice.recommended === advice.action) {
+		const runnerUp = advice.rates.find((r) => r.action !== advice.action);
+		lines.push(
+			`**Learned for this project:** ${advice.action} has resolved ${percent(current.successRate)} of similar lookups (${current.uses} uses)${
+				runnerUp
+					? `, vs ${percent(runnerUp.successRate)} for ${label(runnerUp.action)}`
+					: ""
+			}.`,
+		);
+	} else {
+		lines.push(
+			`**Learned for this project:** \`${formatActionCommand(advice.recommended, query)}\` would likely answer this faster than ${advice.action}: it resolved ${percent(chosen.successRate)} of similar lookups (${chosen.uses} uses) vs ${percent(current.successRate)} for ${advice.action}.`,
+		);
+
+		const next = advice.predictedNext;
+		if (next && SEARCH_ACTIONS.has(next.action) && next.probability >= 0.5) {
+			lines.push(
+				`After ${advice.action}, the next step here is usually another search (${label(next.action)}, ${percent(next.probability)}).`,
+			);
+		}
+	}
+
+	return lines.join("\n");
+}
+
+function percent(rate: number): string {
+	return `${Math.round(rate * 100)}%`;
+}
+
+/** "mnemex:callers" → "mnemex callers" */
+function label(action: string): string {
+	return action.replace(":", " ");
+}
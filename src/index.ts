@@ -6,6 +6,7 @@
  * Entry point that supports two modes:
  * - CLI mode (default): Interactive command-line interface
  * - MCP mode (--mcp): Model Context Protocol server for Claude Code integration
+ *   (stdio; add --http [--port N] [--host H] for a multi-workspace HTTP daemon)
  */
 
 import { config } from "dotenv";
@@ -33,8 +34,16 @@ if (isAutocompleteServerMode) {
 	});
 } else if (isMcpMode) {
 	// MCP server mode - lazy load to keep CLI startup fast
+	const portIdx = args.findIndex((a) => a === "--port");
+	const hostIdx = args.findIndex((a) => a === "--host");
+	const port = portIdx !== -1 ? Number(args[portIdx + 1]) : undefined;
+
 	import("./mcp/server.js").then((module) => {
-		module.startMcpServer();
+		module.startMcpServer({
+			http: args.includes("--http"),
+			port: port !== undefined && Number.isFinite(port) ? port : undefined,
+			host: hostIdx !== -1 ? args[hostIdx + 1] : undefined,
+		});
 	});
 } else {
 	// CLI mode
@@ -0,0 +1,51 @@
+/**
+ * Advisor Module - Learned tool guidance for Claude Code hooks.
+ *
+ * This module provides:
+ * - Tool actions: classify tool calls ("Bash: rg foo" → "grep")
+ * - ToolAdvisor: ToolBandit + ShadowPredictor trained on logged tool events
+ *
+ * Usage:
+ * ```typescript
+ * import {
+ *   classifyToolUse,
+ *   createToolAdvisor,
+ * } from "./learning/advisor/index.js";
+ *
+ * const advisor = createToolAdvisor();
+ * advisor.train(store.getActionEvents());
+ *
+ * const advice = advisor.advise(
+ *   classifyToolUse("Grep", { pattern: "handleHook" }),
+ *   recentSessionActions,
+ * );
+ * if (advice?.confident && advice.recommended !== advice.action) {
+ *   // suggest advice.recommended instead
+ * }
+ * ```
+ */
+
+// Tool Actions
+export {
+	SEARCH_ACTIONS,
+	actionArgument,
+	alternativesFor,
+	classifyCommand,
+	classifyQuery,
+	classifyToolUse,
+	encodeToolContext,
+	formatActionCommand,
+	type QueryKind,
+	type ToolUse,
+} from "./tool-actions.js";
+
+// Tool Advisor
+export {
+	ToolAdvisor,
+	createToolAdvisor,
+	DEFAULT_ADVISOR_CONFIG,
+	type ActionRate,
+	type ToolAdvice,
+	type ToolAdvisorConfig,
+	type ToolBeliefs,
+} from "./tool-advisor.js";
@@ -0,0 +1,187 @@
+/**
+ * Tool Actions - Classify raw tool calls into the actions the advisor learns.
+ *
+ * Claude Code reports tool names ("Bash", "Grep"), but what matters for
+ * guidance is what the call did: a Bash call may be a grep, a find or a
+ * mnemex command. Each call is mapped to an action ("grep",
+ * "mnemex:callers", "read", ...) plus context features describing the
+ * query, which key the bandit's contextual arms.
+ */
+
+import { createContextEncoder } from "../bandit/context-encoder.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ToolUse {
+	/** Action name, e.g. "grep", "find", "glob", "mnemex:callers", "read" */
+	action: string;
+	/** Search pattern or symbol name, for search actions */
+	query?: string;
+}
+
+/** Shape of a query, used as bandit context */
+export type QueryKind = "identifier" | "call" | "path" | "text";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Actions that look for code (the advisor's bandit arms) */
+export const SEARCH_ACTIONS = new Set([
+	"grep",
+	"find",
+	"glob",
+	"mnemex:search",
+	"mnemex:map",
+	"mnemex:symbol",
+	"mnemex:callers",
+	"mnemex:callees",
+	"mnemex:context",
+]);
+
+/** Shell search commands and the capture group holding their pattern */
+const SHELL_SEARCH_PATTERNS: Array<{ action: string; regex: RegExp }> = [
+	{ action: "grep", regex: /\bgrep\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/ },
+	{ action: "grep", regex: /\brg\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/ },
+	{ action: "grep", regex: /\bag\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/ },
+	{ action: "grep", regex: /\back\s+(?:-[^\s]+\s+)*["']?([^"'\s|>]+)/ },
+	{ action: "find", regex: /\bfind\s+.*-i?name\s+["']?\*?([^"'\s*]+)/ },
+];
+
+/** `mnemex [flags] <command> [query]` */
+const MNEMEX_COMMAND_PATTERN =
+	/\bmnemex\s+(?:--?[\w-]+\s+)*([a-z][\w-]*)(?:\s+["']?([^"'\s|>]+))?/;
+
+/** MCP tools as named by Claude Code: mcp__<server>__<tool> */
+const MNEMEX_MCP_PATTERN = /^mcp__mnemex__(\w+)$/;
+
+/** MCP tool names whose CLI command is named differently */
+const MCP_COMMAND_ALIASES: Record<string, string> = {
+	search_code: "search",
+};
+
+const encoder = createContextEncoder({ includeTimeFeatures: false });
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Map a tool call to the action it performs.
+ */
+export function classifyToolUse(
+	toolName: string,
+	toolInput: Record<string, unknown> = {},
+): ToolUse {
+	const text = (key: string) =>
+		typeof toolInput[key] === "string" ? (toolInput[key] as string) : undefined;
+
+	switch (toolName) {
+		case "Grep":
+			return { action: "grep", query: text("pattern") };
+		case "Glob":
+			return { action: "glob", query: text("pattern") };
+		case "Bash": {
+			const command = text("command");
+			return command ? classifyCommand(command) : { action: "bash" };
+		}
+	}
+
+	const mcp = toolName.match(MNEMEX_MCP_PATTERN);
+	if (mcp) {
+		return {
+			action: `mnemex:${MCP_COMMAND_ALIASES[mcp[1]] ?? mcp[1]}`,
+			query: text("name") ?? text("symbol") ?? text("query"),
+		};
+	}
+
+	return { action: toolName.toLowerCase() };
+}
+
+/**
+ * Classify a shell command: grep-like searches, find, mnemex commands, or
+ * plain "bash".
+ */
+export function classifyCommand(command: string): ToolUse {
+	for (const { action, regex } of SHELL_SEARCH_PATTERNS) {
+		const match = command.match(regex);
+		if (match) return { action, query: match[1] };
+	}
+
+	const mnemex = command.match(MNEMEX_COMMAND_PATTERN);
+	if (mnemex) {
+		return { action: `mnemex:${mnemex[1]}`, query: mnemex[2] };
+	}
+
+	return { action: "bash" };
+}
+
+/**
+ * Describe a search query's shape.
+ */
+export function classifyQuery(query: string): QueryKind {
+	if (/^[A-Za-z_$][\w$]*$/.test(query)) return "identifier";
+	if (/^[A-Za-z_$][\w$.]*(?:\\?\(|\\s\*\\\()/.test(query)) return "call";
+	if (query.includes("/") || query.includes("*")) return "path";
+	return "text";
+}
+
+/**
+ * Bandit context features for a tool use (empty without a query).
+ */
+export function encodeToolContext(use: ToolUse): string[] {
+	if (!use.query) return [];
+	return encoder.encode({
+		recentTools: [],
+		custom: { query: classifyQuery(use.query) },
+	}).features;
+}
+
+/**
+ * The mnemex commands worth proposing instead of a search action, given the
+ * query's shape. Includes the action itself so the bandit can keep it.
+ */
+export function alternativesFor(use: ToolUse): string[] {
+	if (!SEARCH_ACTIONS.has(use.action) || use.action.startsWith("mnemex:")) {
+		return [];
+	}
+
+	const kind = use.query ? classifyQuery(use.query) : "text";
+	const alternatives =
+		kind === "identifier"
+			? ["mnemex:symbol", "mnemex:callers", "mnemex:context"]
+			: kind === "call"
+				? ["mnemex:callers"]
+				: kind === "path"
+					? ["mnemex:map"]
+					: ["mnemex:search", "mnemex:map"];
+
+	return [use.action, ...alternatives];
+}
+
+/**
+ * The command line an agent would run for an action, e.g.
+ * `mnemex --nologo callers handleHook --raw`.
+ */
+export function formatActionCommand(action: string, query?: string): string {
+	if (!action.startsWith("mnemex:")) return action;
+	const command = action.slice("mnemex:".length);
+	if (query === undefined) return `mnemex --nologo ${command} --raw`;
+
+	const argument = actionArgument(query);
+	const shown = /^[\w$.-]+$/.test(argument) ? argument : `"${argument}"`;
+	return `mnemex --nologo ${command} ${shown} --raw`;
+}
+
+/**
+ * The argument a mnemex command takes for a search query: the called
+ * symbol for call-site patterns ("foo\\(" → "foo"), the query otherwise.
+ */
+export function actionArgument(query: string): string {
+	if (classifyQuery(query) !== "call") return query;
+	const name = query.match(/^[A-Za-z_$][\w$.]*/)?.[0] ?? query;
+	const segments = name.split(".");
+	return segments[segments.length - 1];
+}
@@ -0,0 +1,278 @@
+/**
+ * ToolAdvisor - Learned tool guidance for the PreToolUse hook.
+ *
+ * Feeds the project's logged tool events into two models:
+ * - ToolBandit: how often each search action resolves a lookup, per query
+ *   shape (a search counts as resolved when it succeeded and the agent did
+ *   not immediately search again)
+ * - ShadowPredictor: which action usually follows which, per session
+ *
+ * Before a search runs, the bandit samples among the action and its mnemex
+ * alternatives; the advice says which one to use and how sure that is.
+ */
+
+import {
+	type ToolBandit,
+	type ToolBanditConfig,
+	createToolBandit,
+} from "../bandit/tool-bandit.js";
+import type { ToolEvent } from "../interaction/types.js";
+import {
+	type ShadowPredictor,
+	type ShadowPredictorConfig,
+	createShadowPredictor,
+} from "../shadow/shadow-predictor.js";
+import {
+	SEARCH_ACTIONS,
+	type ToolUse,
+	alternativesFor,
+	encodeToolContext,
+} from "./tool-actions.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ToolAdvisorConfig {
+	/** Bandit settings (minSamples is also the evidence needed to advise) */
+	bandit: Partial<ToolBanditConfig>;
+	/** Shadow predictor settings */
+	shadow: Partial<ShadowPredictorConfig>;
+	/** Session actions used as context for next-action prediction */
+	historyLength: number;
+}
+
+export const DEFAULT_ADVISOR_CONFIG: ToolAdvisorConfig = {
+	bandit: {},
+	shadow: {},
+	historyLength: 3,
+};
+
+export interface ActionRate {
+	action: string;
+	/** Expected share of uses that resolved the lookup */
+	successRate: number;
+	/** Observed uses across all contexts */
+	uses: number;
+}
+
+export interface ToolAdvice {
+	/** Action the agent is about to take */
+	action: string;
+	/** Context features of the query */
+	context: string[];
+	/** Action picked by Thompson sampling among action and alternatives */
+	recommended: string;
+	/**
+	 * Whether there is enough evidence to act on the pick: the recommended
+	 * alternative has been tried enough, or (when the pick is the action
+	 * itself) some alternative has and still lost the draw
+	 */
+	confident: boolean;
+	/** Learned rates of the action and its alternatives, best first */
+	rates: ActionRate[];
+	/** What usually follows the action in sessions like this one */
+	predictedNext: { action: string; probability: number } | null;
+}
+
+export interface ToolBeliefs {
+	/** Events the models were trained on */
+	events: number;
+	/** Sessions the events came from */
+	sessions: number;
+	/** Per-action resolution rates across contexts, best first */
+	actions: Array<ActionRate & { uncertainty: number }>;
+	/** Per-context resolution rates, best first within each context */
+	contexts: Array<{ context: string; rates: ActionRate[] }>;
+	/** Most likely follow-up of each search action */
+	nextActions: Array<{ after: string; next: string; probability: number }>;
+}
+
+// ============================================================================
+// ToolAdvisor Class
+// ============================================================================
+
+export class ToolAdvisor {
+	private config: ToolAdvisorConfig;
+	private bandit: ToolBandit;
+	private shadow: ShadowPredictor;
+	private minSamples: number;
+	private eventCount = 0;
+	private sessionCount = 0;
+
+	constructor(config: Partial<ToolAdvisorConfig> = {}) {
+		this.config = { ...DEFAULT_ADVISOR_CONFIG, ...config };
+		this.bandit = createToolBandit(this.config.bandit);
+		this.shadow = createShadowPredictor(this.config.shadow);
+		this.minSamples = this.config.bandit.minSamples ?? 5;
+	}
+
+	/**
+	 * Train both models on classified tool events (oldest first).
+	 */
+	train(events: ToolEvent[]): void {
+		const sessions = new Map<string, ToolEvent[]>();
+		for (const event of events) {
+			const existing = sessions.get(event.sessionId) ?? [];
+			existing.push(event);
+			sessions.set(event.sessionId, existing);
+		}
+
+		// A search resolved the lookup if the next action isn't a search
+		const resolved = new Map<ToolEvent, boolean>();
+		for (const sessionEvents of sessions.values()) {
+			const actions = sessionEvents.map(actionOf);
+			this.shadow.trainSequence(actions);
+
+			for (let i = 0; i < sessionEvents.length; i++) {
+				const next = actions[i + 1];
+				resolved.set(
+					sessionEvents[i],
+					sessionEvents[i].success &&
+						(next === undefined || !SEARCH_ACTIONS.has(next)),
+				);
+			}
+		}
+
+		// Bandit updates are discounted, so apply them in time order
+		for (const event of events) {
+			if (!SEARCH_ACTIONS.has(actionOf(event))) continue;
+			this.bandit.update(
+				actionOf(event),
+				resolved.get(event) ?? false,
+				event.context ? [...event.context] : undefined,
+			);
+		}
+
+		this.eventCount += events.length;
+		this.sessionCount += sessions.size;
+	}
+
+	/**
+	 * Advise on a tool use about to happen, or null for actions that have
+	 * no alternatives (anything but grep, find and glob).
+	 */
+	advise(use: ToolUse, recentActions: string[] = []): ToolAdvice | null {
+		const candidates = alternativesFor(use);
+		if (candidates.length === 0) return null;
+
+		const context = encodeToolContext(use);
+		const choice = this.bandit.recommend(candidates, [...context]);
+		const alternatives = candidates.filter((c) => c !== use.action);
+
+		const confident =
+			choice.tool === use.action
+				? alternatives.some((a) => this.uses(a) >= this.minSamples)
+				: !choice.isExploration;
+
+		const rates = candidates
+			.map((action) => ({
+				action,
+				successRate: this.bandit.getExpectedSuccessRate(action, [...context]),
+				uses: this.uses(action),
+			}))
+			.sort((a, b) => b.successRate - a.successRate);
+
+		const history = [
+			...recentActions.slice(-(this.config.historyLength - 1)),
+			use.action,
+		];
+		const prediction = this.shadow.predict(history).topPrediction;
+
+		return {
+			action: use.action,
+			context,
+			recommended: choice.tool,
+			confident,
+			rates,
+			predictedNext: prediction
+				? { action: prediction.tool, probability: prediction.probability }
+				: null,
+		};
+	}
+
+	/**
+	 * What the models currently believe, for `mnemex learn tools`.
+	 */
+	getBeliefs(): ToolBeliefs {
+		const rate = (arm: { alpha: number; beta: number }) =>
+			arm.alpha / (arm.alpha + arm.beta);
+
+		const actions = this.bandit
+			.getAllArms()
+			.filter((arm) => arm.totalPulls > 0)
+			.map((arm) => ({
+				action: arm.tool,
+				successRate: rate(arm),
+				uses: arm.totalPulls,
+				uncertainty: Math.sqrt(
+					(arm.alpha * arm.beta) /
+						((arm.alpha + arm.beta) ** 2 * (arm.alpha + arm.beta + 1)),
+				),
+			}))
+			.sort((a, b) => b.successRate - a.successRate);
+
+		const byContext = new Map<string, ActionRate[]>();
+		for (const arm of this.bandit.export().contextualArms) {
+			if (arm.totalPulls === 0) continue;
+			const rates = byContext.get(arm.contextKey) ?? [];
+			rates.push({
+				action: arm.tool,
+				successRate: rate(arm),
+				uses: arm.totalPulls,
+			});
+			byContext.set(arm.contextKey, rates);
+		}
+		const contexts = [...byContext.entries()]
+			.map(([context, rates]) => ({
+				context,
+				rates: rates.sort((a, b) => b.successRate - a.successRate),
+			}))
+			.sort((a, b) => a.context.localeCompare(b.context));
+
+		const nextActions: ToolBeliefs["nextActions"] = [];
+		for (const { action } of actions) {
+			const top = this.shadow.predict([action]).topPrediction;
+			if (top) {
+				nextActions.push({
+					after: action,
+					next: top.tool,
+					probability: top.probability,
+				});
+			}
+		}
+
+		return {
+			events: this.eventCount,
+			sessions: this.sessionCount,
+			actions,
+			contexts,
+			nextActions,
+		};
+	}
+
+	private uses(action: string): number {
+		return this.bandit.getArm(action)?.totalPulls ?? 0;
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function actionOf(event: ToolEvent): string {
+	return event.action ?? event.toolName.toLowerCase();
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a tool advisor with optional configuration.
+ */
+export function createToolAdvisor(
+	config: Partial<ToolAdvisorConfig> = {},
+): ToolAdvisor {
+	return new ToolAdvisor(config);
+}
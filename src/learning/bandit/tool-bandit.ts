@@ -168,7 +168,8 @@ export class ToolBandit {
 	 * Update arm with outcome.
 	 */
 	update(tool: string, success: boolean, context?: string[]): void {
-		const arm = this.getOrCreateArm(tool, context);
+		// Global arm (with a context, getOrCreateArm may return a combined copy)
+		const arm = this.getOrCreateArm(tool);
 
 		// Apply discount to existing observations
 		arm.alpha = 1 + (arm.alpha - 1) * this.config.discountFactor;
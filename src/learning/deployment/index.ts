@@ -5,6 +5,7 @@
  * - ABTestManager: Controlled rollout with statistical significance testing
  * - MetricsTracker: Time-series metrics and trend analysis
  * - RollbackManager: Revert improvements on regression
+ * - SkillDeployer: Propose, install and evaluate generated agent skills
  *
  * Usage:
  * ```typescript
@@ -71,3 +72,16 @@ export {
 	type RollbackStatus,
 	type RollbackReason,
 } from "./rollback.js";
+
+// Skill Deployer
+export {
+	SkillDeployer,
+	createSkillDeployer,
+	evaluateSkillImpact,
+	DEFAULT_SKILL_DEPLOYER_CONFIG,
+	type SkillDeployerConfig,
+	type SkillProposal,
+	type SkillInstallResult,
+	type SkillImpact,
+	type SessionCorrections,
+} from "./skill-deployer.js";
@@ -0,0 +1,460 @@
+/**
+ * SkillDeployer - Proposes, installs and tracks generated agent skills.
+ *
+ * Pipeline:
+ * 1. Mine the interaction store: WorkflowDetector finds repeated tool
+ *    sequences, ErrorClusterer groups recurring failures
+ * 2. SkillGenerator turns them into skill specs, rendered as SKILL.md
+ * 3. SafetyValidator scores the spec, then checks the rendered file
+ * 4. Approved skills are written to .claude/skills (and .opencode/skill in
+ *    OpenCode projects)
+ * 5. Installed skills are evaluated as a before/after experiment: sessions
+ *    in the baseline window before install are the control group, sessions
+ *    since are the treatment. A regression in the share of sessions with a
+ *    correction rolls the skill back.
+ *
+ * Proposals are stored as "skill" improvements whose implementation is the
+ * exact SKILL.md content, so what was reviewed is what gets installed.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	readdirSync,
+	rmdirSync,
+	unlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import {
+	type ErrorCluster,
+	createErrorClusterer,
+} from "../analysis/error-clusterer.js";
+import { createWorkflowDetector } from "../analysis/workflow-detector.js";
+import {
+	type SafetyValidator,
+	type ValidationResult,
+	createSafetyValidator,
+} from "../generator/safety-validator.js";
+import {
+	type GeneratedSkill,
+	type SkillGenerator,
+	type SkillGeneratorConfig,
+	createSkillGenerator,
+} from "../generator/skill-generator.js";
+import {
+	type SkillTarget,
+	isGeneratedSkill,
+	renderSkill,
+	skillFilePath,
+	skillFiles,
+} from "../generator/skill-renderer.js";
+import type { InteractionStore } from "../interaction/interaction-store.js";
+import type { DetectedPattern, Improvement } from "../interaction/types.js";
+import {
+	type ABTestConfig,
+	type Experiment,
+	type ExperimentDecision,
+	createABTestManager,
+} from "./ab-testing.js";
+import {
+	type RollbackEvent,
+	type RollbackManager,
+	type RollbackManagerConfig,
+	type RollbackReason,
+	createRollbackManager,
+} from "./rollback.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SkillDeployerConfig {
+	/** Tool events mined per proposal run */
+	eventLimit: number;
+	/** Maximum new proposals per run */
+	maxProposals: number;
+	/** How far before install the control sessions reach (ms) */
+	baselineWindowMs: number;
+	/** Skill generation thresholds */
+	generator: Partial<SkillGeneratorConfig>;
+	/** Experiment thresholds (minimum sessions, duration, significance) */
+	abTest: Partial<ABTestConfig>;
+	/** Rollback settings */
+	rollback: Partial<RollbackManagerConfig>;
+}
+
+export const DEFAULT_SKILL_DEPLOYER_CONFIG: SkillDeployerConfig = {
+	eventLimit: 5000,
+	maxProposals: 5,
+	baselineWindowMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+	generator: {},
+	abTest: {},
+	rollback: {},
+};
+
+export interface SkillProposal {
+	/** Stored improvement (implementation holds the SKILL.md content) */
+	improvement: Improvement;
+	/** Safety verdict for the rendered file, based on the spec's score */
+	validation: ValidationResult;
+}
+
+export interface SkillInstallResult {
+	improvement: Improvement;
+	/** Project-relative files written */
+	written: string[];
+	/** Files left alone because something else already lives there */
+	skipped: string[];
+}
+
+export interface SkillImpact {
+	improvement: Improvement;
+	/** Before/after experiment rebuilt from session history */
+	experiment: Experiment;
+	decision: ExperimentDecision;
+}
+
+/** Session with its correction count, as stored by the interaction store */
+export interface SessionCorrections {
+	sessionId: string;
+	timestamp: number;
+	corrections: number;
+}
+
+// ============================================================================
+// SkillDeployer Class
+// ============================================================================
+
+export class SkillDeployer {
+	private store: InteractionStore;
+	private projectPath: string;
+	private config: SkillDeployerConfig;
+	private generator: SkillGenerator;
+	private validator: SafetyValidator;
+	private rollbackManager: RollbackManager;
+
+	constructor(
+		store: InteractionStore,
+		projectPath: string,
+		config: Partial<SkillDeployerConfig> = {},
+	) {
+		this.store = store;
+		this.projectPath = projectPath;
+		this.config = { ...DEFAULT_SKILL_DEPLOYER_CONFIG, ...config };
+		this.generator = createSkillGenerator(this.config.generator);
+		this.validator = createSafetyValidator();
+		this.rollbackManager = createRollbackManager(this.config.rollback);
+	}
+
+	/**
+	 * Mine recent interactions for new skills, store them as proposals and
+	 * return every pending proposal with its safety verdict. Skills that were
+	 * installed or rolled back before are not proposed again.
+	 */
+	propose(): SkillProposal[] {
+		const known = new Set(
+			this.store
+				.getImprovementsByType("skill")
+				.map((i) => i.improvementData.name),
+		);
+
+		let created = 0;
+		for (const { skill, pattern } of this.generateSkills()) {
+			if (created >= this.config.maxProposals) break;
+			if (known.has(skill.name)) continue;
+			known.add(skill.name);
+
+			const patternId = this.recordPattern(pattern);
+			const improvement = this.generator.toImprovement(skill, patternId);
+			improvement.improvementData.implementation = renderSkill(skill);
+
+			// The spec's score is the base the stored file is validated from
+			improvement.safetyScore = this.validator.validateSkill(skill).safetyScore;
+			this.store.createImprovement(improvement);
+			created++;
+		}
+
+		return this.getProposals();
+	}
+
+	/**
+	 * Pending proposals, re-validated against their stored content.
+	 */
+	getProposals(): SkillProposal[] {
+		return this.store
+			.getImprovementsByStatus("proposed")
+			.filter((i) => i.improvementType === "skill")
+			.map((improvement) => ({
+				improvement,
+				validation: this.validator.validate(improvement),
+			}))
+			.sort(
+				(a, b) =>
+					(b.improvement.impactScore ?? 0) - (a.improvement.impactScore ?? 0),
+			);
+	}
+
+	/**
+	 * Skills currently installed.
+	 */
+	getInstalled(): Improvement[] {
+		return this.store
+			.getImprovementsByStatus("deployed")
+			.filter((i) => i.improvementType === "skill");
+	}
+
+	/**
+	 * Install an approved proposal. The stored content is validated once more
+	 * right before writing; rejected content is never installed.
+	 */
+	install(improvement: Improvement): SkillInstallResult {
+		if (
+			improvement.status !== "proposed" &&
+			improvement.status !== "approved"
+		) {
+			throw new Error(
+				`Skill ${improvement.improvementData.name} is ${improvement.status}, not a pending proposal`,
+			);
+		}
+
+		const content = improvement.improvementData.implementation;
+		const validation = this.validator.validate(improvement);
+		if (!content || !validation.passed) {
+			throw new Error(
+				`Skill ${improvement.improvementData.name} failed safety validation: ${validation.issues.map((i) => i.description).join("; ")}`,
+			);
+		}
+
+		this.store.updateImprovementStatus(improvement.improvementId, "approved");
+
+		const written: string[] = [];
+		const skipped: string[] = [];
+		for (const file of skillFiles(
+			improvement.improvementData.name,
+			content,
+			this.targets(),
+		)) {
+			const fullPath = join(this.projectPath, file.path);
+			if (
+				existsSync(fullPath) &&
+				!isGeneratedSkill(readFileSync(fullPath, "utf-8"))
+			) {
+				skipped.push(file.path);
+				continue;
+			}
+			mkdirSync(dirname(fullPath), { recursive: true });
+			writeFileSync(fullPath, file.content);
+			written.push(file.path);
+		}
+
+		if (written.length > 0) {
+			this.store.updateImprovementStatus(improvement.improvementId, "deployed");
+		}
+
+		return {
+			improvement: {
+				...improvement,
+				status: written.length > 0 ? "deployed" : "approved",
+			},
+			written,
+			skipped,
+		};
+	}
+
+	/**
+	 * Compare correction rates before and after a skill was installed.
+	 */
+	evaluate(improvement: Improvement): SkillImpact {
+		const deployedAt = improvement.deployedAt ?? Date.now();
+		const sessions = this.store.getSessionCorrectionCounts(
+			deployedAt - this.config.baselineWindowMs,
+		);
+		return evaluateSkillImpact(improvement, sessions, this.config.abTest);
+	}
+
+	/**
+	 * Remove an installed skill's files and mark it rolled back.
+	 */
+	rollback(
+		improvement: Improvement,
+		reason: RollbackReason,
+		description: string,
+		initiatedBy: RollbackEvent["initiatedBy"] = "user",
+	): RollbackEvent {
+		for (const target of ["claude", "opencode"] as const) {
+			this.removeSkillFile(
+				skillFilePath(improvement.improvementData.name, target),
+			);
+		}
+
+		const event = this.rollbackManager.initiateRollback(
+			{ ...improvement },
+			reason,
+			description,
+			initiatedBy,
+		);
+		if (event.success) {
+			this.store.updateImprovementStatus(
+				improvement.improvementId,
+				"rolled_back",
+			);
+		}
+		return event;
+	}
+
+	// ========================================================================
+	// Private Methods
+	// ========================================================================
+
+	/**
+	 * Skill specs from workflows and error clusters, highest impact first.
+	 */
+	private generateSkills(): Array<{
+		skill: GeneratedSkill;
+		pattern: DetectedPattern;
+	}> {
+		const events = this.store.getRecentToolEvents(this.config.eventLimit);
+		if (events.length === 0) return [];
+
+		const detector = createWorkflowDetector();
+		const workflowPatterns = detector.toPatterns(detector.detect(events));
+		const fromWorkflows = this.generator
+			.generateFromPatterns(workflowPatterns)
+			.skills.map((skill) => ({
+				skill,
+				pattern: skill.sourcePattern as DetectedPattern,
+			}));
+
+		const clusters = createErrorClusterer().cluster(events).clusters;
+		const fromErrors = clusters.flatMap((cluster) =>
+			this.generator.generateDefensiveSkills([cluster]).map((skill) => ({
+				skill,
+				pattern: clusterPattern(cluster),
+			})),
+		);
+
+		return [...fromWorkflows, ...fromErrors].sort(
+			(a, b) => b.skill.estimatedImpact - a.skill.estimatedImpact,
+		);
+	}
+
+	/**
+	 * Store a source pattern unless it is already known, returning its ID.
+	 */
+	private recordPattern(pattern: DetectedPattern): string {
+		const existing = this.store.getPatternByHash(pattern.patternHash);
+		if (existing) return existing.patternId;
+		this.store.upsertPattern(pattern);
+		return pattern.patternId;
+	}
+
+	/**
+	 * Agents to install skills for: Claude Code always, OpenCode when the
+	 * project uses it.
+	 */
+	private targets(): SkillTarget[] {
+		const isOpenCode =
+			existsSync(join(this.projectPath, "opencode.json")) ||
+			existsSync(join(this.projectPath, ".opencode"));
+		return isOpenCode ? ["claude", "opencode"] : ["claude"];
+	}
+
+	/**
+	 * Delete a skill file written by mnemex (and its directory once empty).
+	 */
+	private removeSkillFile(relativePath: string): void {
+		const fullPath = join(this.projectPath, relativePath);
+		if (!existsSync(fullPath)) return;
+		if (!isGeneratedSkill(readFileSync(fullPath, "utf-8"))) return;
+
+		unlinkSync(fullPath);
+		const dir = dirname(fullPath);
+		if (readdirSync(dir).length === 0) {
+			rmdirSync(dir);
+		}
+	}
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Rebuild a skill's before/after experiment from session history and ask
+ * the A/B test manager for a decision.
+ *
+ * The metric is the share of sessions with at least one correction, which
+ * keeps the proportion test valid when a session has several corrections.
+ */
+export function evaluateSkillImpact(
+	improvement: Improvement,
+	sessions: SessionCorrections[],
+	config: Partial<ABTestConfig> = {},
+): SkillImpact {
+	const deployedAt = improvement.deployedAt ?? Date.now();
+	const manager = createABTestManager(config);
+	const created = manager.createExperiment(
+		improvement,
+		`Skill: ${improvement.improvementData.name}`,
+		100,
+	);
+	manager.loadExperiments([
+		{ ...created, status: "running", startedAt: deployedAt },
+	]);
+
+	for (const session of sessions) {
+		manager.recordSessionMetrics(
+			created.experimentId,
+			session.timestamp >= deployedAt ? "treatment" : "control",
+			{ corrections: session.corrections > 0 ? 1 : 0 },
+		);
+	}
+
+	const decision = manager.evaluateExperiment(created.experimentId);
+	const experiment = manager.getExperiment(created.experimentId) as Experiment;
+	return { improvement, experiment, decision };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Error pattern record for a cluster a defensive skill was generated from.
+ */
+function clusterPattern(cluster: ErrorCluster): DetectedPattern {
+	const tools = [...cluster.tools].sort();
+	return {
+		patternId: `error_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+		patternType: "error",
+		patternHash: `error:${cluster.errorType}:${tools.join(",")}`,
+		patternData: {
+			description: `${cluster.errorType} errors with ${tools.join(", ")} (${cluster.members.length}x)`,
+			tools,
+			errorTypes: [cluster.errorType],
+			confidence: cluster.cohesion,
+			occurrences: cluster.members.length,
+		},
+		occurrenceCount: cluster.members.length,
+		lastSeen: Date.now(),
+		severity: cluster.members.length >= 10 ? "critical" : "medium",
+		projectScope: undefined,
+	};
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a skill deployer for a project's interaction store.
+ */
+export function createSkillDeployer(
+	store: InteractionStore,
+	projectPath: string,
+	config: Partial<SkillDeployerConfig> = {},
+): SkillDeployer {
+	return new SkillDeployer(store, projectPath, config);
+}
@@ -38,6 +38,7 @@ const DEFAULT_DOC_TYPE_WEIGHTS: Partial<Record<DocumentType, number>> = {
 	framework_doc: 0.1,
 	best_practice: 0.05,
 	api_reference: 0.05,
+	directory_summary: 0.08,
 };
 
 /** All document types for iteration */
@@ -52,6 +53,7 @@ const ALL_DOC_TYPES: DocumentType[] = [
 	"framework_doc",
 	"best_practice",
 	"api_reference",
+	"directory_summary",
 ];
 
 // ============================================================================
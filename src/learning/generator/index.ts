@@ -6,6 +6,7 @@
  * - SubagentComposer: Create subagent specs from error clusters
  * - PromptOptimizer: Refine prompts from correction patterns
  * - SafetyValidator: Validate improvements before deployment
+ * - SkillRenderer: Render skill specs as SKILL.md files
  *
  * Usage:
  * ```typescript
@@ -87,3 +88,14 @@ export {
 	type ValidationIssue,
 	type BatchValidationResult,
 } from "./safety-validator.js";
+
+// Skill Renderer
+export {
+	renderSkill,
+	skillFiles,
+	skillFilePath,
+	isGeneratedSkill,
+	SKILL_MARKER,
+	type SkillTarget,
+	type SkillFile,
+} from "./skill-renderer.js";
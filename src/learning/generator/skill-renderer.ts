@@ -0,0 +1,142 @@
+/**
+ * SkillRenderer - Turns generated skill specs into agent skill files.
+ *
+ * Claude Code loads project skills from `.claude/skills/<name>/SKILL.md`;
+ * OpenCode reads the same format from `.opencode/skill/<name>/SKILL.md`.
+ * Both are markdown with YAML frontmatter (name + description), where the
+ * description tells the agent when to reach for the skill.
+ *
+ * Rendered files carry a marker comment so mnemex only ever removes
+ * skills it installed itself.
+ */
+
+import type { GeneratedSkill } from "./skill-generator.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Agent a skill file is written for */
+export type SkillTarget = "claude" | "opencode";
+
+export interface SkillFile {
+	target: SkillTarget;
+	/** Path relative to the project root */
+	path: string;
+	content: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Marker identifying skill files installed by mnemex */
+export const SKILL_MARKER = "<!-- mnemex-skill";
+
+/** Directory each target loads project skills from */
+const SKILL_DIRS: Record<SkillTarget, string> = {
+	claude: ".claude/skills",
+	opencode: ".opencode/skill",
+};
+
+/** Frontmatter limits shared by Claude Code and OpenCode */
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 1024;
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a generated skill as SKILL.md content.
+ */
+export function renderSkill(skill: GeneratedSkill): string {
+	const name = skillDirName(skill.name);
+	const description = truncate(
+		`${skill.description} Use ${lowerFirst(skill.triggerCondition)}.`,
+		MAX_DESCRIPTION_LENGTH,
+	);
+
+	const steps = skill.implementation.map((step) =>
+		step.startsWith("  ") ? step : `- ${step}`,
+	);
+
+	const lines = [
+		"---",
+		`name: ${name}`,
+		`description: ${JSON.stringify(description)}`,
+		"---",
+		"",
+		`# ${name}`,
+		"",
+		skill.description,
+		"",
+		"## When to use",
+		"",
+		skill.triggerCondition,
+		"",
+		"## Steps",
+		"",
+		...steps,
+		"",
+		"## Constraints",
+		"",
+		...skill.constraints.map((c) => `- ${c}`),
+		"",
+		`${SKILL_MARKER} confidence=${skill.confidence.toFixed(2)} -->`,
+		"",
+	];
+
+	return lines.join("\n");
+}
+
+/**
+ * The files installing a skill writes, one per target.
+ */
+export function skillFiles(
+	name: string,
+	content: string,
+	targets: SkillTarget[],
+): SkillFile[] {
+	return targets.map((target) => ({
+		target,
+		path: skillFilePath(name, target),
+		content,
+	}));
+}
+
+/**
+ * Project-relative SKILL.md path for a skill and target.
+ */
+export function skillFilePath(name: string, target: SkillTarget): string {
+	return `${SKILL_DIRS[target]}/${skillDirName(name)}/SKILL.md`;
+}
+
+/**
+ * Whether file content was written by mnemex.
+ */
+export function isGeneratedSkill(content: string): boolean {
+	return content.includes(SKILL_MARKER);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Skill names must be lowercase letters, digits and hyphens */
+function skillDirName(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/[^a-z0-9-]/g, "-")
+		.replace(/-+/g, "-")
+		.replace(/^-|-$/g, "")
+		.slice(0, MAX_NAME_LENGTH);
+}
+
+function lowerFirst(text: string): string {
+	return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function truncate(text: string, max: number): string {
+	return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
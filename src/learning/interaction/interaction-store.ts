@@ -79,6 +79,8 @@ export class InteractionStore {
 				duration_ms INTEGER,
 				execution_order INTEGER NOT NULL,
 				timestamp INTEGER NOT NULL,
+				action TEXT,
+				context TEXT,
 				FOREIGN KEY (session_id) REFERENCES agent_sessions(session_id)
 			);
 
@@ -163,9 +165,31 @@ export class InteractionStore {
 			CREATE INDEX IF NOT EXISTS idx_improvements_pattern ON improvements(pattern_id);
 		`);
 
+		this.migrateSchema();
 		this.initialized = true;
 	}
 
+	/**
+	 * Migrate schema for existing databases
+	 */
+	private migrateSchema(): void {
+		try {
+			const columns = this.db
+				.prepare("PRAGMA table_info(tool_events)")
+				.all() as Array<{ name: string }>;
+			const columnNames = columns.map((c) => c.name);
+
+			if (!columnNames.includes("action")) {
+				this.db.exec("ALTER TABLE tool_events ADD COLUMN action TEXT");
+			}
+			if (!columnNames.includes("context")) {
+				this.db.exec("ALTER TABLE tool_events ADD COLUMN context TEXT");
+			}
+		} catch {
+			// Ignore migration errors (columns might already exist)
+		}
+	}
+
 	// ========================================================================
 	// Session Operations
 	// ========================================================================
@@ -277,8 +301,8 @@ export class InteractionStore {
 		const stmt = this.db.prepare(`
 			INSERT INTO tool_events
 			(session_id, tool_use_id, tool_name, tool_input_hash, success,
-			 error_type, duration_ms, execution_order, timestamp)
-			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+			 error_type, duration_ms, execution_order, timestamp, action, context)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		`);
 
 		const result = stmt.run(
@@ -291,6 +315,8 @@ export class InteractionStore {
 			event.durationMs || null,
 			event.executionOrder,
 			event.timestamp,
+			event.action || null,
+			event.context ? JSON.stringify(event.context) : null,
 		);
 
 		return Number(result.lastInsertRowid);
@@ -309,6 +335,41 @@ export class InteractionStore {
 		return rows.map((row) => this.rowToToolEvent(row));
 	}
 
+	/**
+	 * Get the most recent classified tool events across sessions, oldest
+	 * first (input for the tool advisor).
+	 */
+	getActionEvents(limit = 5000): ToolEvent[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM (
+				SELECT * FROM tool_events
+				WHERE action IS NOT NULL
+				ORDER BY timestamp DESC, id DESC
+				LIMIT ?
+			)
+			ORDER BY timestamp ASC, id ASC
+		`);
+		const rows = stmt.all(limit) as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToToolEvent(row));
+	}
+
+	/**
+	 * Get the most recent tool events across sessions, oldest first (input
+	 * for workflow detection and error clustering).
+	 */
+	getRecentToolEvents(limit = 5000): ToolEvent[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM (
+				SELECT * FROM tool_events
+				ORDER BY timestamp DESC, id DESC
+				LIMIT ?
+			)
+			ORDER BY timestamp ASC, id ASC
+		`);
+		const rows = stmt.all(limit) as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToToolEvent(row));
+	}
+
 	/**
 	 * Get tool sequence for a session (just tool names in order).
 	 */
@@ -522,6 +583,33 @@ export class InteractionStore {
 		return rows.map((row) => this.rowToCorrection(row));
 	}
 
+	/**
+	 * Get sessions started since a timestamp with their correction counts,
+	 * oldest first.
+	 */
+	getSessionCorrectionCounts(
+		since: number,
+	): Array<{ sessionId: string; timestamp: number; corrections: number }> {
+		const stmt = this.db.prepare(`
+			SELECT s.session_id, s.timestamp, COUNT(c.id) as corrections
+			FROM agent_sessions s
+			LEFT JOIN corrections c ON c.session_id = s.session_id
+			WHERE s.timestamp >= ?
+			GROUP BY s.session_id
+			ORDER BY s.timestamp ASC
+		`);
+		const rows = stmt.all(since) as Array<{
+			session_id: string;
+			timestamp: number;
+			corrections: number;
+		}>;
+		return rows.map((row) => ({
+			sessionId: row.session_id,
+			timestamp: row.timestamp,
+			corrections: row.corrections,
+		}));
+	}
+
 	// ========================================================================
 	// Pattern Operations
 	// ========================================================================
@@ -685,6 +773,19 @@ export class InteractionStore {
 		return rows.map((row) => this.rowToImprovement(row));
 	}
 
+	/**
+	 * Get improvements of a type, in any status.
+	 */
+	getImprovementsByType(improvementType: ImprovementType): Improvement[] {
+		const stmt = this.db.prepare(`
+			SELECT * FROM improvements
+			WHERE improvement_type = ?
+			ORDER BY created_at DESC
+		`);
+		const rows = stmt.all(improvementType) as Array<Record<string, unknown>>;
+		return rows.map((row) => this.rowToImprovement(row));
+	}
+
 	/**
 	 * Get improvements ready for auto-deploy.
 	 */
@@ -973,6 +1074,10 @@ export class InteractionStore {
 			durationMs: row.duration_ms as number | undefined,
 			executionOrder: row.execution_order as number,
 			timestamp: row.timestamp as number,
+			action: (row.action as string | null) ?? undefined,
+			context: row.context
+				? (JSON.parse(row.context as string) as string[])
+				: undefined,
 		};
 	}
 
@@ -49,6 +49,8 @@ export class ToolEventLogger {
 		toolInput?: Record<string, unknown>;
 		success: boolean;
 		error?: string;
+		action?: string;
+		context?: string[];
 	}): number | undefined {
 		if (!this.config.enabled) return undefined;
 
@@ -72,6 +74,8 @@ export class ToolEventLogger {
 			durationMs: timing?.durationMs,
 			executionOrder: timing?.executionOrder || 0,
 			timestamp: Date.now(),
+			action: options.action,
+			context: options.context,
 		};
 
 		const eventId = this.store.recordToolEvent(event);
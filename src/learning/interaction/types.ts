@@ -76,6 +76,10 @@ export interface ToolEvent {
 	durationMs?: number;
 	executionOrder: number;
 	timestamp: number;
+	/** What the tool was used for, e.g. "grep" or "mnemex:callers" */
+	action?: string;
+	/** Context features of the use (see learning/advisor) */
+	context?: string[];
 }
 
 /**
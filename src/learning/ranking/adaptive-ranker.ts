@@ -33,6 +33,7 @@ const DEFAULT_WEIGHTS: LearnedWeights = {
 		framework_doc: 0.1,
 		best_practice: 0.05,
 		api_reference: 0.05,
+		directory_summary: 0.08,
 	},
 	fileBoosts: new Map(),
 	queryPatterns: new Map(),
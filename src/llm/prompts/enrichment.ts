@@ -164,6 +164,8 @@ Write for developers who are new to the codebase.`,
 	best_practice: "", // Not used - fetched from external sources
 	api_reference: "", // Not used - fetched from external sources
 	session_observation: "", // Not used - written directly by users/agents
+	commit: "", // Not used - read from git history
+	directory_summary: "", // Not used - built by core/summarization from file summaries
 };
 
 // ============================================================================
@@ -4,7 +4,7 @@
  * Reads environment variables on startup. No hot-reload.
  */
 
-import { join } from "node:path";
+import { join, resolve } from "node:path";
 import {
 	DEFAULT_PIPELINE_CONFIG,
 	type PipelineConfig,
@@ -16,7 +16,7 @@ export type { PipelineConfig };
 export { DEFAULT_PIPELINE_CONFIG };
 
 export interface McpConfig {
-	/** Workspace root (CWD at startup) */
+	/** Workspace root (CWD at startup, or the workspace selected by an HTTP session) */
 	workspaceRoot: string;
 	/** Pipeline configuration */
 	pipeline: PipelineConfig;
@@ -36,6 +36,32 @@ export interface McpConfig {
 	logLevel: LogLevel;
 	/** LSP configuration */
 	lsp: LspConfig;
+	/** Streamable HTTP transport configuration */
+	http: HttpConfig;
+}
+
+export interface HttpConfig {
+	/** Host to bind (MNEMEX_HTTP_HOST, default "127.0.0.1") */
+	host: string;
+	/** Port to listen on (MNEMEX_HTTP_PORT, default 7333) */
+	port: number;
+	/**
+	 * Directories sessions may select workspaces under
+	 * (MNEMEX_HTTP_WORKSPACES, comma-separated; empty = the default workspace only)
+	 */
+	allowedRoots: string[];
+	/**
+	 * Extra hostnames clients may address the daemon by
+	 * (MNEMEX_HTTP_ALLOWED_HOSTS, comma-separated; loopback names and the
+	 * bind host are always allowed)
+	 */
+	allowedHosts: string[];
+	/**
+	 * How long a session may go without requests before it is closed, and a
+	 * workspace without sessions stays open, in ms (MNEMEX_HTTP_IDLE_MS,
+	 * default 1800000; 0 = never)
+	 */
+	idleMs: number;
 }
 
 export interface LspConfig {
@@ -55,7 +81,7 @@ export interface LspConfig {
 }
 
 const DEFAULT_WATCH_PATTERNS = [
-	"**/*.{ts,tsx,js,jsx,go,py,rs,java,kt,swift,rb,php,c,cpp,h}",
+	"**/*.{ts,tsx,js,jsx,go,py,rs,java,kt,swift,rb,php,cs,c,cpp,h}",
 ];
 
 const DEFAULT_IGNORE_PATTERNS = [
@@ -71,14 +97,19 @@ const DEFAULT_DEBOUNCE_MS = 120000;
 const DEFAULT_MAX_MEMORY_MB = 500;
 const DEFAULT_COMPLETION_POLL_MS = 2000;
 const DEFAULT_LOG_LEVEL: LogLevel = "warn";
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 7333;
+const DEFAULT_HTTP_IDLE_MS = 30 * 60 * 1000;
 
 /**
  * Parse environment variables and return an McpConfig.
  * Invalid numeric values fall back to defaults.
+ *
+ * @param workspaceRoot - Workspace to serve (defaults to CWD)
  */
-export function loadMcpConfig(): McpConfig {
-	const workspaceRoot = process.cwd();
-
+export function loadMcpConfig(
+	workspaceRoot: string = process.cwd(),
+): McpConfig {
 	const indexDirEnv = process.env.MNEMEX_INDEX_DIR;
 	const indexDir = indexDirEnv
 		? join(workspaceRoot, indexDirEnv)
@@ -122,6 +153,19 @@ export function loadMcpConfig(): McpConfig {
 		rsCommand: process.env.MNEMEX_LSP_RS_CMD,
 	};
 
+	const http: HttpConfig = {
+		host: process.env.MNEMEX_HTTP_HOST || DEFAULT_HTTP_HOST,
+		port: parseIntWithDefault(process.env.MNEMEX_HTTP_PORT, DEFAULT_HTTP_PORT),
+		allowedRoots: parsePatterns(process.env.MNEMEX_HTTP_WORKSPACES, []).map(
+			(root) => resolve(workspaceRoot, root),
+		),
+		allowedHosts: parsePatterns(process.env.MNEMEX_HTTP_ALLOWED_HOSTS, []),
+		idleMs: parseIntWithDefault(
+			process.env.MNEMEX_HTTP_IDLE_MS,
+			DEFAULT_HTTP_IDLE_MS,
+		),
+	};
+
 	return {
 		workspaceRoot,
 		indexDir,
@@ -132,6 +176,7 @@ export function loadMcpConfig(): McpConfig {
 		completionPollMs,
 		logLevel,
 		lsp,
+		http,
 		pipeline: loadPipelineConfig(),
 	};
 }
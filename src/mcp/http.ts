@@ -0,0 +1,406 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Serves MCP over the streamable HTTP transport so one long-lived daemon can
+ * serve many editor windows and repositories. Each session picks its
+ * workspace when it initializes, either with the `Mnemex-Workspace` header
+ * or the `?workspace=` query parameter (falling back to the daemon's default
+ * workspace), and is routed to an McpServer bound to that workspace.
+ *
+ * The daemon has no authentication, so every request must address it by an
+ * allowed hostname (Host header, and Origin header when a browser sends one)
+ * to keep web pages from reaching it through DNS rebinding, and sessions may
+ * only open workspaces under the allowed roots.
+ *
+ * Sessions that serve no request (and hold no open stream) for the idle
+ * period are closed, so clients that vanish without closing their session
+ * do not pin its server and workspace forever.
+ *
+ *   POST   /mcp   - JSON-RPC requests (initialize opens a new session)
+ *   GET    /mcp   - SSE stream for server-initiated messages
+ *   DELETE /mcp   - Close the session
+ *   GET    /health - Daemon status and open sessions
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+	type IncomingMessage,
+	type ServerResponse,
+	createServer,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { isAbsolute, relative, resolve } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Logger } from "./logger.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HttpTransportOptions {
+	/** Host to bind */
+	host: string;
+	/** Port to listen on (0 = any free port) */
+	port: number;
+	/** Workspace used when a session does not select one */
+	defaultWorkspace?: string;
+	/** Directories sessions may select workspaces under (empty = the default workspace only) */
+	allowedRoots: string[];
+	/** Extra hostnames clients may use besides loopback names and `host` */
+	allowedHosts?: string[];
+	/** Close sessions idle for this long, in ms (0 = never) */
+	idleMs?: number;
+	/** Create an McpServer bound to the given absolute workspace root */
+	createServer: (workspaceRoot: string) => Promise<McpServer>;
+	/**
+	 * Called once for every server createServer returned, after it closed —
+	 * with its session, or because the session never initialized
+	 */
+	releaseServer?: (workspaceRoot: string) => void;
+	logger: Logger;
+}
+
+export interface HttpTransportHandle {
+	/** URL of the MCP endpoint */
+	url: string;
+	/** Close all sessions and stop listening */
+	close(): Promise<void>;
+}
+
+interface Session {
+	transport: StreamableHTTPServerTransport;
+	server: McpServer;
+	workspaceRoot: string;
+	/** Requests being served, including open SSE streams */
+	activeRequests: number;
+	/** When the last request started or finished (epoch ms) */
+	lastActivity: number;
+}
+
+/** Header a session uses to select its workspace */
+export const WORKSPACE_HEADER = "mnemex-workspace";
+
+/** Hostnames that always reach a loopback-bound daemon */
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+const MCP_PATH = "/mcp";
+const HEALTH_PATH = "/health";
+
+/** Maximum accepted request body size */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Longest delay between checks for idle sessions */
+const MAX_REAP_INTERVAL_MS = 60 * 1000;
+
+/** Error with the HTTP status to answer with */
+class HttpError extends Error {
+	constructor(
+		public readonly status: number,
+		message: string,
+	) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Start the streamable HTTP transport and resolve once it is listening.
+ */
+export async function startHttpTransport(
+	options: HttpTransportOptions,
+): Promise<HttpTransportHandle> {
+	const { logger } = options;
+	const sessions = new Map<string, Session>();
+	const allowedHostnames = new Set([
+		...LOOPBACK_HOSTNAMES,
+		hostnameOf(options.host) ?? options.host,
+		...(options.allowedHosts ?? []),
+	]);
+	const allowedRoots =
+		options.allowedRoots.length > 0
+			? options.allowedRoots
+			: options.defaultWorkspace
+				? [options.defaultWorkspace]
+				: [];
+	// Exact Host and Origin values for the SDK's own check, set once listening
+	let transportHosts: string[] = [];
+	let transportOrigins: string[] = [];
+
+	const httpServer = createServer((req, res) => {
+		handleRequest(req, res).catch((err) => {
+			const status = err instanceof HttpError ? err.status : 500;
+			const message = err instanceof Error ? err.message : String(err);
+			if (status === 500) {
+				logger.error("HTTP transport: request failed", err);
+			}
+			sendJsonRpcError(res, status, message);
+		});
+	});
+
+	async function handleRequest(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		const url = new URL(req.url ?? "/", "http://localhost");
+		checkHostHeaders(req);
+
+		if (url.pathname === HEALTH_PATH && req.method === "GET") {
+			sendJson(res, 200, {
+				status: "ok",
+				sessions: Array.from(sessions, ([sessionId, session]) => ({
+					sessionId,
+					workspaceRoot: session.workspaceRoot,
+				})),
+			});
+			return;
+		}
+
+		if (url.pathname !== MCP_PATH) {
+			throw new HttpError(404, `Not found: ${url.pathname}`);
+		}
+
+		// ── Existing session ─────────────────────────────────────────────────
+		const sessionId = req.headers["mcp-session-id"];
+		if (typeof sessionId === "string") {
+			const session = sessions.get(sessionId);
+			if (!session) {
+				throw new HttpError(404, `Unknown session: ${sessionId}`);
+			}
+			session.activeRequests++;
+			session.lastActivity = Date.now();
+			res.once("close", () => {
+				session.activeRequests--;
+				session.lastActivity = Date.now();
+			});
+			const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+			await session.transport.handleRequest(req, res, body);
+			return;
+		}
+
+		// ── New session: only an initialize request may omit the session ID ─
+		if (req.method !== "POST") {
+			throw new HttpError(400, "Missing Mcp-Session-Id header");
+		}
+		const body = await readJsonBody(req);
+		if (!isInitializeRequest(body)) {
+			throw new HttpError(
+				400,
+				"Missing Mcp-Session-Id header (only initialize may start a session)",
+			);
+		}
+
+		const workspaceRoot = selectWorkspace(req, url);
+		let server: McpServer;
+		try {
+			server = await options.createServer(workspaceRoot);
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			throw new HttpError(400, message);
+		}
+
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			enableDnsRebindingProtection: true,
+			allowedHosts: transportHosts,
+			allowedOrigins: transportOrigins,
+			onsessioninitialized: (id) => {
+				sessions.set(id, {
+					transport,
+					server,
+					workspaceRoot,
+					activeRequests: 0,
+					lastActivity: Date.now(),
+				});
+				logger.info(`HTTP transport: session ${id} opened`, {
+					workspaceRoot,
+				});
+			},
+		});
+		let released = false;
+		transport.onclose = () => {
+			const id = transport.sessionId;
+			if (id && sessions.delete(id)) {
+				logger.info(`HTTP transport: session ${id} closed`);
+			}
+			if (!released) {
+				released = true;
+				options.releaseServer?.(workspaceRoot);
+			}
+		};
+
+		try {
+			await server.connect(transport);
+			await transport.handleRequest(req, res, body);
+		} finally {
+			// The transport rejected the initialize request (or failed)
+			const id = transport.sessionId;
+			if (!id || !sessions.has(id)) {
+				await transport.close();
+			}
+		}
+	}
+
+	/**
+	 * Close sessions that served no request for the idle period.
+	 */
+	function reapIdleSessions(idleMs: number): void {
+		const cutoff = Date.now() - idleMs;
+		for (const [id, session] of sessions) {
+			if (session.activeRequests === 0 && session.lastActivity <= cutoff) {
+				logger.info(`HTTP transport: closing idle session ${id}`);
+				session.server.close().catch((err) => {
+					logger.error(`HTTP transport: failed to close session ${id}`, err);
+				});
+			}
+		}
+	}
+
+	/**
+	 * Reject requests that address the daemon by a hostname it does not
+	 * answer to, or that come from a page served by another host.
+	 */
+	function checkHostHeaders(req: IncomingMessage): void {
+		const host = req.headers.host;
+		if (!host || !allowedHostnames.has(hostnameOf(host) ?? "")) {
+			throw new HttpError(403, `Invalid Host header: ${host ?? "(none)"}`);
+		}
+		const origin = req.headers.origin;
+		if (origin !== undefined && !allowedHostnames.has(originHostname(origin))) {
+			throw new HttpError(403, `Invalid Origin header: ${origin}`);
+		}
+	}
+
+	/**
+	 * Resolve the workspace a new session asked for and check it is allowed.
+	 */
+	function selectWorkspace(req: IncomingMessage, url: URL): string {
+		const header = req.headers[WORKSPACE_HEADER];
+		const requested =
+			(typeof header === "string" ? header : undefined) ??
+			url.searchParams.get("workspace") ??
+			options.defaultWorkspace;
+		if (!requested) {
+			throw new HttpError(
+				400,
+				`No workspace selected (set the ${WORKSPACE_HEADER} header or ?workspace=)`,
+			);
+		}
+
+		const workspaceRoot = resolve(requested);
+		if (!allowedRoots.some((root) => isWithin(root, workspaceRoot))) {
+			throw new HttpError(403, `Workspace not allowed: ${workspaceRoot}`);
+		}
+		return workspaceRoot;
+	}
+
+	await new Promise<void>((resolveListen, rejectListen) => {
+		httpServer.once("error", rejectListen);
+		httpServer.listen(options.port, options.host, () => {
+			httpServer.off("error", rejectListen);
+			resolveListen();
+		});
+	});
+
+	const { port } = httpServer.address() as AddressInfo;
+	const url = `http://${options.host}:${port}${MCP_PATH}`;
+	transportHosts = Array.from(allowedHostnames, (name) => `${name}:${port}`);
+	transportOrigins = transportHosts.map((host) => `http://${host}`);
+	logger.info(`HTTP transport: listening on ${url}`);
+
+	const idleMs = options.idleMs ?? 0;
+	const reaper =
+		idleMs > 0
+			? setInterval(
+					() => reapIdleSessions(idleMs),
+					Math.min(idleMs, MAX_REAP_INTERVAL_MS),
+				)
+			: null;
+	reaper?.unref();
+
+	return {
+		url,
+		async close() {
+			if (reaper) {
+				clearInterval(reaper);
+			}
+			const open = Array.from(sessions.values());
+			sessions.clear();
+			await Promise.allSettled(open.map((session) => session.server.close()));
+			await new Promise<void>((resolveClose) => {
+				httpServer.close(() => resolveClose());
+				httpServer.closeAllConnections();
+			});
+		},
+	};
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Hostname of a Host header value (port stripped), or null if malformed */
+function hostnameOf(host: string): string | null {
+	try {
+		return new URL(`http://${host}`).hostname;
+	} catch {
+		return null;
+	}
+}
+
+/** Hostname of an Origin header value ("" for opaque origins like "null") */
+function originHostname(origin: string): string {
+	try {
+		return new URL(origin).hostname;
+	} catch {
+		return "";
+	}
+}
+
+function isWithin(root: string, path: string): boolean {
+	const rel = relative(resolve(root), path);
+	return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += chunk.length;
+		if (size > MAX_BODY_BYTES) {
+			throw new HttpError(413, "Request body too large");
+		}
+		chunks.push(chunk as Buffer);
+	}
+	try {
+		return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+	} catch {
+		throw new HttpError(400, "Invalid JSON body");
+	}
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+	if (res.headersSent) {
+		res.end();
+		return;
+	}
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+	res: ServerResponse,
+	status: number,
+	message: string,
+): void {
+	sendJson(res, status, {
+		jsonrpc: "2.0",
+		error: { code: -32000, message },
+		id: null,
+	});
+}
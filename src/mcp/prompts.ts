@@ -0,0 +1,218 @@
+/**
+ * MCP Prompts
+ *
+ * Reusable prompts that embed index context (as MCP resources) so clients
+ * can start a focused conversation without spending tool calls:
+ *
+ *   explain_symbol  - Explain a symbol using its body, callers and callees
+ *   review_impact   - Review the blast radius of changing a symbol
+ *   explain_file    - Walk through a file using its symbol outline
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { createCodeAnalyzer } from "../core/analysis/analyzer.js";
+import {
+	fileOutlineResourceUri,
+	renderFileOutline,
+	renderSymbol,
+	symbolResourceUri,
+} from "./resources.js";
+import type { ToolDeps } from "./tools/deps.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Transitive caller depth used by review_impact */
+const IMPACT_DEPTH = 3;
+
+/** Maximum impacted symbols listed by review_impact */
+const MAX_IMPACTED = 40;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type PromptMessage = {
+	role: "user";
+	content:
+		| { type: "text"; text: string }
+		| {
+				type: "resource";
+				resource: { uri: string; mimeType: string; text: string };
+		  };
+};
+
+function textMessage(text: string): PromptMessage {
+	return { role: "user", content: { type: "text", text } };
+}
+
+function resourceMessage(uri: string, text: string): PromptMessage {
+	return {
+		role: "user",
+		content: {
+			type: "resource",
+			resource: { uri, mimeType: "text/markdown", text },
+		},
+	};
+}
+
+function symbolNotFound(name: string): McpError {
+	return new McpError(
+		ErrorCode.InvalidParams,
+		`Symbol "${name}" not found in index`,
+	);
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+export function registerPrompts(server: McpServer, deps: ToolDeps): void {
+	const { cache, config } = deps;
+
+	// =========================================================================
+	// explain_symbol
+	// =========================================================================
+	server.registerPrompt(
+		"explain_symbol",
+		{
+			title: "Explain symbol",
+			description:
+				"Explain what a symbol does and how it is used, with its source, callers and callees attached.",
+			argsSchema: {
+				symbol: z
+					.string()
+					.describe("Symbol name (supports 'Class.method' notation)"),
+			},
+		},
+		async ({ symbol }) => {
+			const index = await cache.get();
+			const text = renderSymbol(index, config.workspaceRoot, symbol);
+			if (text === null) throw symbolNotFound(symbol);
+
+			return {
+				description: `Explain ${symbol}`,
+				messages: [
+					resourceMessage(symbolResourceUri(symbol), text),
+					textMessage(
+						[
+							`Explain what \`${symbol}\` does.`,
+							"Cover its inputs and outputs, side effects, and how its callers use it.",
+							"Point out any assumptions callers rely on that are not obvious from the signature.",
+						].join(" "),
+					),
+				],
+			};
+		},
+	);
+
+	// =========================================================================
+	// review_impact
+	// =========================================================================
+	server.registerPrompt(
+		"review_impact",
+		{
+			title: "Review change impact",
+			description:
+				"Review the impact of changing a symbol, with its source and transitive callers attached.",
+			argsSchema: {
+				symbol: z.string().describe("Symbol name to change"),
+				change: z
+					.string()
+					.optional()
+					.describe("Description of the planned change"),
+			},
+		},
+		async ({ symbol, change }) => {
+			const index = await cache.get();
+			const text = renderSymbol(index, config.workspaceRoot, symbol);
+			if (text === null) throw symbolNotFound(symbol);
+
+			const analyzer = createCodeAnalyzer(index.tracker);
+			const target = analyzer.findSymbolForImpact(symbol);
+			const impact = target
+				? analyzer.findImpact(target.id, { maxDepth: IMPACT_DEPTH })
+				: null;
+
+			const impactLines = [`# Impact of changing ${symbol}`, ""];
+			if (!impact || impact.totalAffected === 0) {
+				impactLines.push("No callers found in the index.");
+			} else {
+				impactLines.push(
+					`${impact.directCallers.length} direct and ${impact.totalAffected} ` +
+						`transitive dependents across ${impact.byFile.size} files ` +
+						`(depth ≤ ${IMPACT_DEPTH}).`,
+					"",
+				);
+				for (const caller of impact.transitiveCallers.slice(0, MAX_IMPACTED)) {
+					impactLines.push(
+						`- [depth ${caller.depth}] ${caller.symbol.name} — ` +
+							`${caller.symbol.filePath}:${caller.symbol.startLine}`,
+					);
+				}
+				if (impact.transitiveCallers.length > MAX_IMPACTED) {
+					impactLines.push(
+						`- … ${impact.transitiveCallers.length - MAX_IMPACTED} more`,
+					);
+				}
+			}
+
+			return {
+				description: `Review impact of changing ${symbol}`,
+				messages: [
+					resourceMessage(symbolResourceUri(symbol), text),
+					textMessage(impactLines.join("\n")),
+					textMessage(
+						[
+							change ? `Planned change to \`${symbol}\`: ${change}\n\n` : "",
+							`Review the impact of changing \`${symbol}\`.`,
+							" Identify which dependents would break or change behavior,",
+							" what needs updating alongside it, and which tests should cover the change.",
+						].join(""),
+					),
+				],
+			};
+		},
+	);
+
+	// =========================================================================
+	// explain_file
+	// =========================================================================
+	server.registerPrompt(
+		"explain_file",
+		{
+			title: "Explain file",
+			description:
+				"Walk through a file's responsibilities using its symbol outline.",
+			argsSchema: {
+				path: z.string().describe("File path, relative to workspace root"),
+			},
+		},
+		async ({ path }) => {
+			const { tracker } = await cache.get();
+			const text = renderFileOutline(tracker, path);
+			if (text === null) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`No indexed symbols for file "${path}"`,
+				);
+			}
+
+			return {
+				description: `Explain ${path}`,
+				messages: [
+					resourceMessage(fileOutlineResourceUri(path), text),
+					textMessage(
+						[
+							`Explain the responsibilities of \`${path}\` and how its main symbols fit together.`,
+							"Note which symbols are its public surface.",
+						].join(" "),
+					),
+				],
+			};
+		},
+	);
+}
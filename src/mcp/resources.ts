@@ -0,0 +1,333 @@
+/**
+ * MCP Resources
+ *
+ * Exposes index data as MCP resources so clients can attach code context
+ * without spending tool calls:
+ *
+ *   mnemex://map                   - PageRank-ranked repo map
+ *   mnemex://symbol/{name}         - Symbol definition, body, callers, callees
+ *   mnemex://file/{path}/outline   - Symbols declared in a file, nested
+ *   mnemex://memory/{key}          - Project memory content
+ *
+ * Symbol and outline renderers are exported for reuse by the MCP prompts.
+ */
+
+import {
+	type McpServer,
+	ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { IFileTracker } from "../core/tracker.js";
+import { readSymbolBody } from "../retrieval/backends/utils/read-body.js";
+import type { SymbolDefinition } from "../types.js";
+import type { CachedIndex } from "./cache.js";
+import type { ToolDeps } from "./tools/deps.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAP_RESOURCE_URI = "mnemex://map";
+
+/** Token budget for the map resource */
+const MAP_MAX_TOKENS = 4000;
+
+/** Number of top-ranked symbols advertised by resources/list */
+const LISTED_SYMBOLS = 50;
+
+/** Maximum callers/callees rendered per symbol */
+const MAX_RELATED = 25;
+
+/** Maximum completion suggestions */
+const MAX_COMPLETIONS = 20;
+
+// ============================================================================
+// URI helpers
+// ============================================================================
+
+export function symbolResourceUri(name: string): string {
+	return `mnemex://symbol/${encodeURIComponent(name)}`;
+}
+
+export function fileOutlineResourceUri(filePath: string): string {
+	return `mnemex://file/${filePath.split("/").map(encodeURIComponent).join("/")}/outline`;
+}
+
+export function memoryResourceUri(key: string): string {
+	return `mnemex://memory/${encodeURIComponent(key)}`;
+}
+
+/** Decode a template variable (variables may be exploded into arrays) */
+function variable(value: string | string[] | undefined): string {
+	const raw = Array.isArray(value) ? value.join(",") : (value ?? "");
+	return decodeURIComponent(raw);
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+/**
+ * Render a symbol as markdown: location, source body, callers and callees.
+ * Returns null if no symbol matches the name (supports "Class.method").
+ */
+export function renderSymbol(
+	index: CachedIndex,
+	workspaceRoot: string,
+	name: string,
+): string | null {
+	const definition = index.graphManager.findSymbol(name, {
+		preferExported: true,
+	});
+	if (!definition) return null;
+
+	const lines: string[] = [
+		`# ${definition.name} (${definition.kind})`,
+		"",
+		`${definition.filePath}:${definition.startLine}-${definition.endLine}` +
+			`${definition.isExported ? " · exported" : ""}` +
+			` · PageRank ${definition.pagerankScore.toFixed(4)}`,
+	];
+
+	if (definition.docstring) {
+		lines.push("", definition.docstring);
+	}
+
+	const { body } = readSymbolBody(
+		workspaceRoot,
+		definition.filePath,
+		definition.startLine,
+		definition.endLine,
+	);
+	const source = body ?? definition.signature;
+	if (source) {
+		lines.push("", `\`\`\`${definition.language}`, source, "```");
+	}
+
+	const callers = index.graphManager.getCallers(definition.id);
+	const callees = index.graphManager.getCallees(definition.id);
+	lines.push("", ...renderRelated("Callers", callers));
+	lines.push("", ...renderRelated("Callees", callees));
+
+	// Other definitions with the same name (overloads, same name in other files)
+	const others = index.tracker
+		.getSymbolByName(definition.name)
+		.filter((s) => s.id !== definition.id);
+	if (others.length > 0) {
+		lines.push("", ...renderRelated("Other definitions", others));
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+function renderRelated(title: string, symbols: SymbolDefinition[]): string[] {
+	if (symbols.length === 0) {
+		return [`## ${title} (0)`, "", "_none_"];
+	}
+	const lines = [`## ${title} (${symbols.length})`, ""];
+	for (const s of symbols.slice(0, MAX_RELATED)) {
+		lines.push(`- ${s.name} (${s.kind}) — ${s.filePath}:${s.startLine}`);
+	}
+	if (symbols.length > MAX_RELATED) {
+		lines.push(`- … ${symbols.length - MAX_RELATED} more`);
+	}
+	return lines;
+}
+
+/**
+ * Render the symbols declared in a file as a nested markdown outline.
+ * Returns null if the file has no indexed symbols.
+ */
+export function renderFileOutline(
+	tracker: IFileTracker,
+	filePath: string,
+): string | null {
+	const symbols = tracker
+		.getSymbolsByFile(filePath)
+		.sort((a, b) => a.startLine - b.startLine);
+	if (symbols.length === 0) return null;
+
+	const ids = new Set(symbols.map((s) => s.id));
+	const children = new Map<string, SymbolDefinition[]>();
+	const roots: SymbolDefinition[] = [];
+	for (const symbol of symbols) {
+		if (symbol.parentId && ids.has(symbol.parentId)) {
+			const list = children.get(symbol.parentId) ?? [];
+			list.push(symbol);
+			children.set(symbol.parentId, list);
+		} else {
+			roots.push(symbol);
+		}
+	}
+
+	const lines: string[] = [`# ${filePath}`, ""];
+	const visit = (symbol: SymbolDefinition, depth: number) => {
+		const signature = symbol.signature ? ` — \`${symbol.signature}\`` : "";
+		lines.push(
+			`${"  ".repeat(depth)}- ${symbol.kind} ${symbol.name} ` +
+				`(L${symbol.startLine}-${symbol.endLine})${signature}`,
+		);
+		for (const child of children.get(symbol.id) ?? []) {
+			visit(child, depth + 1);
+		}
+	};
+	for (const root of roots) {
+		visit(root, 0);
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+export function registerResources(server: McpServer, deps: ToolDeps): void {
+	const { cache, config, memoryStore } = deps;
+
+	// ── mnemex://map ─────────────────────────────────────────────────────────
+	server.registerResource(
+		"map",
+		MAP_RESOURCE_URI,
+		{
+			title: "Repository map",
+			description:
+				"Architectural overview of the codebase with symbols ranked by PageRank importance.",
+			mimeType: "text/plain",
+		},
+		async (uri) => {
+			const { repoMapGen } = await cache.get();
+			const text = repoMapGen.generate({
+				maxTokens: MAP_MAX_TOKENS,
+				includeSignatures: true,
+			});
+			return {
+				contents: [{ uri: uri.href, mimeType: "text/plain", text }],
+			};
+		},
+	);
+
+	// ── mnemex://symbol/{name} ───────────────────────────────────────────────
+	server.registerResource(
+		"symbol",
+		new ResourceTemplate("mnemex://symbol/{name}", {
+			list: async () => {
+				const { tracker } = await cache.get();
+				return {
+					resources: tracker.getTopSymbols(LISTED_SYMBOLS).map((s) => ({
+						uri: symbolResourceUri(s.name),
+						name: s.name,
+						description: `${s.kind} in ${s.filePath}:${s.startLine}`,
+						mimeType: "text/markdown",
+					})),
+				};
+			},
+			complete: {
+				name: async (value) => {
+					const { tracker } = await cache.get();
+					const names = new Set<string>();
+					for (const s of tracker.getTopSymbols(500)) {
+						if (s.name.startsWith(value)) names.add(s.name);
+						if (names.size >= MAX_COMPLETIONS) break;
+					}
+					return Array.from(names);
+				},
+			},
+		}),
+		{
+			title: "Symbol",
+			description:
+				"Symbol definition with source body, callers and callees. Supports 'Class.method' names.",
+			mimeType: "text/markdown",
+		},
+		async (uri, variables) => {
+			const name = variable(variables.name);
+			const index = await cache.get();
+			const text = renderSymbol(index, config.workspaceRoot, name);
+			if (text === null) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`Symbol "${name}" not found in index`,
+				);
+			}
+			return {
+				contents: [{ uri: uri.href, mimeType: "text/markdown", text }],
+			};
+		},
+	);
+
+	// ── mnemex://file/{path}/outline ─────────────────────────────────────────
+	// {+path} matches across "/" so paths can be given unencoded
+	server.registerResource(
+		"file-outline",
+		new ResourceTemplate("mnemex://file/{+path}/outline", {
+			list: undefined,
+		}),
+		{
+			title: "File outline",
+			description:
+				"Symbols declared in a file (classes, functions, methods), nested by parent.",
+			mimeType: "text/markdown",
+		},
+		async (uri, variables) => {
+			const filePath = variable(variables.path);
+			const { tracker } = await cache.get();
+			const text = renderFileOutline(tracker, filePath);
+			if (text === null) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`No indexed symbols for file "${filePath}"`,
+				);
+			}
+			return {
+				contents: [{ uri: uri.href, mimeType: "text/markdown", text }],
+			};
+		},
+	);
+
+	// ── mnemex://memory/{key} ────────────────────────────────────────────────
+	if (!memoryStore) return;
+
+	server.registerResource(
+		"memory",
+		new ResourceTemplate("mnemex://memory/{key}", {
+			list: async () => ({
+				resources: memoryStore.list().map((m) => ({
+					uri: memoryResourceUri(m.key),
+					name: m.key,
+					description: `Project memory (updated ${m.updatedAt})`,
+					mimeType: "text/markdown",
+				})),
+			}),
+			complete: {
+				key: async (value) =>
+					memoryStore
+						.list()
+						.map((m) => m.key)
+						.filter((key) => key.startsWith(value))
+						.slice(0, MAX_COMPLETIONS),
+			},
+		}),
+		{
+			title: "Project memory",
+			description:
+				"Persistent project memory (architectural decisions, patterns, preferences).",
+			mimeType: "text/markdown",
+		},
+		async (uri, variables) => {
+			const key = variable(variables.key);
+			const memory = memoryStore.read(key);
+			if (!memory) {
+				throw new McpError(
+					ErrorCode.InvalidParams,
+					`Memory "${key}" not found`,
+				);
+			}
+			return {
+				contents: [
+					{ uri: uri.href, mimeType: "text/markdown", text: memory.content },
+				],
+			};
+		},
+	);
+}
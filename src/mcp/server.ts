@@ -7,32 +7,29 @@
  * Startup sequence:
  * 1. Parse env vars → loadMcpConfig()
  * 2. Create logger
- * 3. Initialize IndexStateManager
- * 4. Check index existence — run blocking initial index if missing
- * 5. Create IndexCache
- * 6. Create CompletionDetector
- * 7. Create DebounceReindexer
- * 8. Start FileWatcher
- * 9. Register all MCP tools
- * 10. Connect stdio transport
- * 11. Register SIGTERM/SIGINT shutdown handlers
+ * 3. Open the workspace (see workspace.ts): IndexStateManager, initial index,
+ *    IndexCache, CompletionDetector, DebounceReindexer, FileWatcher, LSP,
+ *    editor and memory
+ * 4. Register all MCP tools, resources and prompts
+ * 5. Connect the transport:
+ *    - stdio (default): one client, one workspace (CWD)
+ *    - streamable HTTP (--http): many sessions, each routed to the workspace
+ *      it selects; workspaces stay open across sessions
+ * 6. Register SIGTERM/SIGINT shutdown handlers
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { spawn } from "node:child_process";
 import { existsSync, readFileSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { loadMcpConfig } from "./config.js";
-import { createLogger } from "./logger.js";
-import { IndexStateManager } from "./state-manager.js";
-import { IndexCache } from "./cache.js";
-import { CompletionDetector } from "./completion-detector.js";
-import { DebounceReindexer } from "./reindexer.js";
-import { FileWatcher } from "./watcher.js";
-import { getIndexDbPath } from "../config.js";
+import { type McpConfig, loadMcpConfig } from "./config.js";
+import { type Logger, createLogger } from "./logger.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { startHttpTransport } from "./http.js";
+import { WorkspaceRegistry, openWorkspace } from "./workspace.js";
 
 import {
 	registerSearchTools,
@@ -53,11 +50,10 @@ import {
 	registerThinkTools,
 	registerReadFileTools,
 	registerSearchPatternTools,
+	registerSearchStructureTools,
+	registerWhyTools,
 	type ToolDeps,
 } from "./tools/index.js";
-import { LspManager } from "../lsp/manager.js";
-import { SymbolEditor } from "../editor/editor.js";
-import { MemoryStore } from "../memory/store.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -75,185 +71,25 @@ function readVersion(): string {
 
 const SERVER_VERSION: string = readVersion();
 
-/**
- * Run a blocking initial index when no index.db exists yet.
- * Spawns `mnemex index --quiet` and waits for it to complete.
- */
-async function runBlockingIndex(
-	workspaceRoot: string,
-	logger: ReturnType<typeof createLogger>,
-): Promise<void> {
-	return new Promise((resolve, reject) => {
-		logger.info(
-			"No index found — running initial index before starting server",
-		);
-
-		const child = spawn("mnemex", ["index", "--quiet"], {
-			cwd: workspaceRoot,
-			stdio: "ignore",
-		});
-
-		child.on("exit", (code) => {
-			if (code === 0) {
-				logger.info("Initial index complete");
-				resolve();
-			} else {
-				// Non-zero exit: warn but don't hard-fail — tools will report "no index" gracefully
-				logger.warn(
-					`Initial index exited with code ${code ?? "null"}, continuing`,
-				);
-				resolve();
-			}
-		});
-
-		child.on("error", (err) => {
-			// If mnemex binary is not found, warn and continue rather than crashing
-			logger.warn(`Could not run initial index: ${err.message}`);
-			resolve();
-		});
-	});
+export interface McpServerOptions {
+	/** Serve the streamable HTTP transport instead of stdio */
+	http?: boolean;
+	/** HTTP host override (default: MNEMEX_HTTP_HOST or 127.0.0.1) */
+	host?: string;
+	/** HTTP port override (default: MNEMEX_HTTP_PORT or 7333) */
+	port?: number;
 }
 
 /**
- * Start the MCP server.
- * Called from src/index.ts when --mcp flag is present.
+ * Create an McpServer with all tools, resources and prompts registered
+ * against the given workspace dependencies.
  */
-export async function startMcpServer(): Promise<void> {
-	// -------------------------------------------------------------------------
-	// Step 1: Load config from environment variables
-	// -------------------------------------------------------------------------
-	const config = loadMcpConfig();
-
-	// -------------------------------------------------------------------------
-	// Step 2: Create logger
-	// -------------------------------------------------------------------------
-	const logger = createLogger(config.logLevel);
-
-	logger.debug("MCP server starting", { workspaceRoot: config.workspaceRoot });
-
-	// -------------------------------------------------------------------------
-	// Step 3: Initialize IndexStateManager
-	// -------------------------------------------------------------------------
-	const stateManager = new IndexStateManager(config.indexDir);
-	await stateManager.initialize();
-
-	// -------------------------------------------------------------------------
-	// Step 4: Check index existence — run blocking initial index if missing
-	// -------------------------------------------------------------------------
-	const indexDbPath = getIndexDbPath(config.workspaceRoot);
-	if (!existsSync(indexDbPath)) {
-		await runBlockingIndex(config.workspaceRoot, logger);
-	}
-
-	// -------------------------------------------------------------------------
-	// Step 5: Create IndexCache
-	// -------------------------------------------------------------------------
-	const cache = new IndexCache(
-		config.workspaceRoot,
-		config.indexDir,
-		config.maxMemoryMB,
-		logger,
-	);
-
-	// -------------------------------------------------------------------------
-	// Step 6: Create CompletionDetector
-	// -------------------------------------------------------------------------
-	const completionDetector = new CompletionDetector(
-		config.indexDir,
-		config.completionPollMs,
-	);
-
-	// -------------------------------------------------------------------------
-	// Step 7: Create DebounceReindexer
-	// -------------------------------------------------------------------------
-	const reindexer = new DebounceReindexer(
-		config.workspaceRoot,
-		config.indexDir,
-		config.debounceMs,
-		stateManager,
-		cache,
-		completionDetector,
-		logger,
-	);
-
-	// -------------------------------------------------------------------------
-	// Step 8: Start FileWatcher
-	// -------------------------------------------------------------------------
-	const watcher = new FileWatcher(
-		config.workspaceRoot,
-		config.watchPatterns,
-		config.ignorePatterns,
-		(filePath: string) => {
-			stateManager.recordChange(filePath);
-			reindexer.scheduleReindex();
-		},
-		logger,
-	);
-
-	watcher.start();
-	const watcherActive = true;
-
-	// -------------------------------------------------------------------------
-	// Step 8a: Create LspManager (lazy — no servers spawned yet)
-	// -------------------------------------------------------------------------
-	const lspManager = config.lsp.enabled
-		? new LspManager({
-				enabled: true,
-				timeoutMs: config.lsp.timeoutMs,
-				maxServers: config.lsp.maxServers,
-				disabledLanguages: config.lsp.disabledLanguages,
-				workspaceRoot: config.workspaceRoot,
-				commandOverrides: {
-					...(config.lsp.tsCommand ? { typescript: config.lsp.tsCommand } : {}),
-					...(config.lsp.pyCommand ? { python: config.lsp.pyCommand } : {}),
-					...(config.lsp.goCommand ? { go: config.lsp.goCommand } : {}),
-					...(config.lsp.rsCommand ? { rust: config.lsp.rsCommand } : {}),
-				},
-			})
-		: null;
-
-	if (lspManager) {
-		logger.debug("LSP manager created (lazy initialization)");
-	}
-
-	// -------------------------------------------------------------------------
-	// Step 8b: Create SymbolEditor
-	// -------------------------------------------------------------------------
-	const editor = new SymbolEditor(cache, config, lspManager);
-
-	// -------------------------------------------------------------------------
-	// Step 8c: Create MemoryStore
-	// -------------------------------------------------------------------------
-	const memoryStore = new MemoryStore(config.indexDir);
-
-	// -------------------------------------------------------------------------
-	// Step 9: Build ToolDeps and create McpServer
-	// -------------------------------------------------------------------------
-	const serverStartTime = Date.now();
-
-	const deps: ToolDeps = {
-		cache,
-		stateManager,
-		config,
-		logger,
-		reindexer,
-		completionDetector,
-		serverStartTime,
-		watcherActive,
-		lspManager,
-		editor,
-		memoryStore,
-	};
-
+export function createMcpServer(deps: ToolDeps): McpServer {
 	const server = new McpServer({
 		name: "mnemex",
 		version: SERVER_VERSION,
 	});
 
-	// -------------------------------------------------------------------------
-	// Step 10: Register all tools
-	// -------------------------------------------------------------------------
-
 	// New structured tools (11 tools)
 	registerSearchTools(server, deps);
 	registerSymbolTools(server, deps);
@@ -281,9 +117,55 @@ export async function startMcpServer(): Promise<void> {
 	// File reading and pattern search tools
 	registerReadFileTools(server, deps);
 	registerSearchPatternTools(server, deps);
+	registerSearchStructureTools(server, deps);
+
+	// Git history: commits and authors behind a symbol's current lines
+	registerWhyTools(server, deps);
+
+	// Resources (mnemex://map, symbol, file outline, memory) and prompts so
+	// clients can attach context without tool calls
+	registerResources(server, deps);
+	registerPrompts(server, deps);
+
+	return server;
+}
+
+/**
+ * Start the MCP server.
+ * Called from src/index.ts when --mcp flag is present.
+ */
+export async function startMcpServer(
+	options: McpServerOptions = {},
+): Promise<void> {
+	// -------------------------------------------------------------------------
+	// Step 1: Load config from environment variables
+	// -------------------------------------------------------------------------
+	const config = loadMcpConfig();
+
+	// -------------------------------------------------------------------------
+	// Step 2: Create logger
+	// -------------------------------------------------------------------------
+	const logger = createLogger(config.logLevel);
+
+	logger.debug("MCP server starting", { workspaceRoot: config.workspaceRoot });
+
+	if (options.http) {
+		await startHttpServer(config, options, logger);
+		return;
+	}
+
+	// -------------------------------------------------------------------------
+	// Step 3: Open the workspace
+	// -------------------------------------------------------------------------
+	const workspace = await openWorkspace(config, logger);
+
+	// -------------------------------------------------------------------------
+	// Step 4: Register all tools, resources and prompts
+	// -------------------------------------------------------------------------
+	const server = createMcpServer(workspace.deps);
 
 	// -------------------------------------------------------------------------
-	// Step 11: Connect stdio transport
+	// Step 5: Connect stdio transport
 	// -------------------------------------------------------------------------
 	const transport = new StdioServerTransport();
 	await server.connect(transport);
@@ -291,18 +173,58 @@ export async function startMcpServer(): Promise<void> {
 	logger.info("MCP server ready", { version: SERVER_VERSION });
 
 	// -------------------------------------------------------------------------
-	// Step 12: Register shutdown handlers
+	// Step 6: Register shutdown handlers
 	// -------------------------------------------------------------------------
 	const shutdown = async (signal: string) => {
 		logger.info(`Received ${signal}, shutting down`);
-		reindexer.cancelPending();
-		watcher.stop();
-		completionDetector.stop();
-		// Shut down LSP servers before exiting (review fix: async shutdown before process.exit)
-		if (lspManager) {
-			await lspManager.shutdown();
-		}
-		cache.close();
+		await workspace.close();
+		process.exit(0);
+	};
+
+	process.on("SIGTERM", () => shutdown("SIGTERM"));
+	process.on("SIGINT", () => shutdown("SIGINT"));
+}
+
+/**
+ * Serve the streamable HTTP transport. Each session gets its own McpServer,
+ * bound to a workspace shared by every session that selects it and held
+ * until the session closes.
+ */
+async function startHttpServer(
+	config: McpConfig,
+	options: McpServerOptions,
+	logger: Logger,
+): Promise<void> {
+	const workspaces = new WorkspaceRegistry(logger, config.http.idleMs);
+
+	const handle = await startHttpTransport({
+		host: options.host ?? config.http.host,
+		port: options.port ?? config.http.port,
+		defaultWorkspace: config.workspaceRoot,
+		allowedRoots: config.http.allowedRoots,
+		allowedHosts: config.http.allowedHosts,
+		idleMs: config.http.idleMs,
+		createServer: async (workspaceRoot) => {
+			const workspace = await workspaces.acquire(workspaceRoot);
+			try {
+				return createMcpServer(workspace.deps);
+			} catch (err) {
+				workspaces.release(workspaceRoot);
+				throw err;
+			}
+		},
+		releaseServer: (workspaceRoot) => workspaces.release(workspaceRoot),
+		logger,
+	});
+
+	// Always log where the daemon listens (stderr — clients need the URL)
+	process.stderr.write(`[mnemex] MCP server listening on ${handle.url}\n`);
+	logger.info("MCP server ready", { version: SERVER_VERSION });
+
+	const shutdown = async (signal: string) => {
+		logger.info(`Received ${signal}, shutting down`);
+		await handle.close();
+		await workspaces.closeAll();
 		process.exit(0);
 	};
 
@@ -1,7 +1,7 @@
 /**
  * Edit Tools
  *
- * MCP tools for editing code: edit_symbol, edit_lines, restore_edit.
+ * MCP tools for editing code: edit_symbol, edit_lines, edit_batch, restore_edit.
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -19,7 +19,9 @@ export function registerEditTools(server: McpServer, deps: ToolDeps): void {
 		"edit_symbol",
 		"Replace, insert before, or insert after a symbol's body in source code. " +
 			"Locates the symbol by name using the AST index, validates syntax, " +
-			"backs up the original, and triggers reindex.",
+			"backs up the original, and triggers reindex. If the file changed since " +
+			"it was indexed, the edit is merged when the symbol itself is unchanged " +
+			"and reported as a conflict otherwise.",
 		{
 			symbol: z.string().describe("Symbol name to edit"),
 			file: z
@@ -122,6 +124,88 @@ export function registerEditTools(server: McpServer, deps: ToolDeps): void {
 		},
 	);
 
+	server.tool(
+		"edit_batch",
+		"Apply many symbol and line edits across files as one all-or-nothing " +
+			"transaction. Every edit is located and validated (path, freshness, " +
+			"overlaps, syntax) before anything is written; on success all files " +
+			"are written under one session restorable with restore_edit, and " +
+			"touched files are reindexed once.",
+		{
+			edits: z
+				.array(
+					z.union([
+						z.object({
+							symbol: z.string().describe("Symbol name to edit"),
+							file: z
+								.string()
+								.optional()
+								.describe(
+									"File path hint to disambiguate symbols with the same name",
+								),
+							newContent: z.string().describe("New source code content"),
+							mode: z
+								.enum(["replace", "before", "after"])
+								.default("replace")
+								.describe(
+									"Replace the symbol body, insert before, or insert after",
+								),
+						}),
+						z.object({
+							file: z
+								.string()
+								.describe("File path (relative to workspace root)"),
+							startLine: z
+								.number()
+								.int()
+								.min(1)
+								.describe("First line to replace (1-indexed)"),
+							endLine: z
+								.number()
+								.int()
+								.min(1)
+								.describe("Last line to replace (1-indexed, inclusive)"),
+							newContent: z
+								.string()
+								.describe("New source code content for the line range"),
+						}),
+					]),
+				)
+				.min(1)
+				.describe(
+					"Edits to apply: {symbol, newContent, mode?, file?} or {file, startLine, endLine, newContent}. " +
+						"Line numbers refer to the files before any edit in the batch.",
+				),
+			dryRun: z
+				.boolean()
+				.default(false)
+				.describe(
+					"If true, validate every edit and report what would change without writing",
+				),
+		},
+		async ({ edits, dryRun }) => {
+			const startTime = Date.now();
+
+			try {
+				const result = await editor.editBatch(edits, { dryRun });
+
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: JSON.stringify({
+								...result,
+								...buildFreshness(stateManager, startTime),
+							}),
+						},
+					],
+				};
+			} catch (err) {
+				return errorResponse(err);
+			}
+		},
+	);
+
 	server.tool(
 		"restore_edit",
 		"Restore files from a previous edit session backup. If no sessionId is provided, " +
@@ -22,4 +22,6 @@ export { registerObserveTools } from "./observe.js";
 export { registerThinkTools } from "./think.js";
 export { registerReadFileTools } from "./read-file.js";
 export { registerSearchPatternTools } from "./search-pattern.js";
+export { registerSearchStructureTools } from "./search-structure.js";
+export { registerWhyTools } from "./why.js";
 export type { ToolDeps } from "./deps.js";
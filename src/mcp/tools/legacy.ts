@@ -74,7 +74,7 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			path: z
 				.string()
 				.optional()
-				.describe("Project root path to index (default: current directory)"),
+				.describe("Project root path to index (default: workspace root)"),
 			force: z
 				.boolean()
 				.optional()
@@ -89,7 +89,7 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			const startTime = Date.now();
 
 			try {
-				const projectPath = path ?? process.cwd();
+				const projectPath = path ?? deps.config.workspaceRoot;
 
 				const indexer = createIndexer({
 					projectPath,
@@ -175,7 +175,7 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			path: z
 				.string()
 				.optional()
-				.describe("Project path (default: current directory)"),
+				.describe("Project path (default: workspace root)"),
 			autoIndex: z
 				.boolean()
 				.optional()
@@ -189,7 +189,7 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			const startTime = Date.now();
 
 			try {
-				const projectPath = path ?? process.cwd();
+				const projectPath = path ?? deps.config.workspaceRoot;
 				const indexer = createIndexer({ projectPath });
 
 				// Auto-index changed files before search
@@ -324,11 +324,11 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			path: z
 				.string()
 				.optional()
-				.describe("Project path (default: current directory)"),
+				.describe("Project path (default: workspace root)"),
 		},
 		async ({ path }) => {
 			try {
-				const projectPath = path ?? process.cwd();
+				const projectPath = path ?? deps.config.workspaceRoot;
 				const indexer = createIndexer({ projectPath });
 				await indexer.clear();
 				await indexer.close();
@@ -357,11 +357,11 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			path: z
 				.string()
 				.optional()
-				.describe("Project path (default: current directory)"),
+				.describe("Project path (default: workspace root)"),
 		},
 		async ({ path }) => {
 			try {
-				const projectPath = path ?? process.cwd();
+				const projectPath = path ?? deps.config.workspaceRoot;
 				const indexer = createIndexer({ projectPath });
 				const status = await indexer.getStatus();
 				await indexer.close();
@@ -478,7 +478,7 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			path: z
 				.string()
 				.optional()
-				.describe("Project path (default: current directory)"),
+				.describe("Project path (default: workspace root)"),
 		},
 		async ({
 			query,
@@ -490,7 +490,7 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			path,
 		}) => {
 			try {
-				const projectPath = path ?? process.cwd();
+				const projectPath = path ?? deps.config.workspaceRoot;
 				const tracker = getFileTracker(projectPath);
 
 				if (!tracker) {
@@ -542,11 +542,11 @@ export function registerLegacyTools(server: McpServer, deps: ToolDeps): void {
 			path: z
 				.string()
 				.optional()
-				.describe("Project path (default: current directory)"),
+				.describe("Project path (default: workspace root)"),
 		},
 		async ({ path }) => {
 			try {
-				const projectPath = path ?? process.cwd();
+				const projectPath = path ?? deps.config.workspaceRoot;
 				const tracker = getFileTracker(projectPath);
 
 				if (!tracker) {
@@ -2,13 +2,15 @@
  * Map Tool
  *
  * Generates an architectural overview (repo map) of the codebase,
- * using PageRank to prioritize the most important files and symbols.
+ * using PageRank to prioritize the most important files and symbols,
+ * headed by directory summaries when the index has them.
  * When cloud deps are available (deps.cloudClient), delegates to the
  * cloud getMap() API which returns a server-side pre-generated map.
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { readDirectorySummaries } from "../../core/summarization/index.js";
 import type { ToolDeps } from "./deps.js";
 import { buildFreshness, errorResponse } from "./deps.js";
 
@@ -17,7 +19,7 @@ export function registerMapTools(server: McpServer, deps: ToolDeps): void {
 
 	server.tool(
 		"map",
-		"Generate an architectural overview of the codebase, with symbols ranked by PageRank importance.",
+		"Generate an architectural overview of the codebase: directory summaries, then symbols ranked by PageRank importance.",
 		{
 			root: z
 				.string()
@@ -87,6 +89,9 @@ export function registerMapTools(server: McpServer, deps: ToolDeps): void {
 					maxTokens,
 					includeSignatures: true,
 					pathPattern,
+					directorySummaries: await readDirectorySummaries(
+						config.workspaceRoot,
+					),
 				});
 
 				return {
@@ -1,34 +1,58 @@
 /**
  * Observe Tool
  *
- * MCP tool for recording session observations (cognitive memory).
- * Observations are embedded and stored alongside code chunks in LanceDB,
- * surfacing in future searches when semantically relevant.
+ * MCP tools for recording and reviewing session observations (cognitive
+ * memory). Observations are embedded and stored alongside code chunks in
+ * LanceDB, surfacing in future searches when semantically relevant.
+ * Near-duplicates are merged, and observations whose code changed are
+ * flagged for review by the indexer.
  */
 
-import { createHash } from "node:crypto";
+import { isAbsolute, relative } from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import { getVectorStorePath } from "../../config.js";
 import { createEmbeddingsClient } from "../../core/embeddings.js";
-import { createIndexer } from "../../core/indexer.js";
+import {
+	OBSERVATION_TYPES,
+	type Observation,
+	createObservationManager,
+	getEffectiveConfidence,
+} from "../../core/observations.js";
+import { createVectorStore } from "../../core/store.js";
 import type { ToolDeps } from "./deps.js";
 import { buildFreshness, errorResponse } from "./deps.js";
 
+/** Observation as returned to agents (without its vector) */
+function toResult({ vector: _vector, ...observation }: Observation) {
+	return {
+		...observation,
+		effectiveConfidence: Number(getEffectiveConfidence(observation).toFixed(3)),
+	};
+}
+
 export function registerObserveTools(server: McpServer, deps: ToolDeps): void {
 	const { stateManager, config, logger } = deps;
 
 	server.tool(
 		"observe",
 		"Record a session observation (gotcha, pattern, architecture note). " +
-			"Observations are embedded and surface in future searches when relevant.",
+			"Observations are embedded and surface in future searches when relevant. " +
+			"A near-duplicate of an existing observation is merged into it.",
 		{
 			content: z.string().min(5).max(2000).describe("The observation text"),
 			affectedFiles: z
 				.array(z.string())
 				.default([])
 				.describe("File paths this observation relates to"),
+			affectedSymbols: z
+				.array(z.string())
+				.default([])
+				.describe(
+					"Symbols this observation relates to; only their changes flag it for review",
+				),
 			observationType: z
-				.enum(["gotcha", "pattern", "architecture", "procedure", "preference"])
+				.enum(OBSERVATION_TYPES)
 				.default("pattern")
 				.describe("Type of observation"),
 			confidence: z
@@ -38,63 +62,139 @@ export function registerObserveTools(server: McpServer, deps: ToolDeps): void {
 				.default(0.7)
 				.describe("Confidence level (0-1)"),
 		},
-		async ({ content, affectedFiles, observationType, confidence }) => {
+		async ({
+			content,
+			affectedFiles,
+			affectedSymbols,
+			observationType,
+			confidence,
+		}) => {
 			const startTime = Date.now();
+			const store = createVectorStore(getVectorStorePath(config.workspaceRoot));
 
 			try {
-				const embeddingsClient = createEmbeddingsClient();
-				const embedding = await embeddingsClient.embedOne(content);
+				const manager = createObservationManager(
+					store,
+					createEmbeddingsClient(),
+				);
+				const { observation, merged } = await manager.record({
+					content,
+					affectedFiles: affectedFiles.map((f) =>
+						isAbsolute(f) ? relative(config.workspaceRoot, f) : f,
+					),
+					affectedSymbols,
+					observationType,
+					confidence,
+				});
+				const meta = observation.metadata;
 
-				const id = createHash("sha256")
-					.update(`observation:${content}:${affectedFiles.join(",")}`)
-					.digest("hex")
-					.slice(0, 16);
+				logger.info(
+					`observe: ${merged ? "merged into" : "recorded"} observation ${observation.id} (${observationType})`,
+				);
 
-				const now = new Date().toISOString();
-				const doc = {
-					id,
-					content,
-					documentType: "session_observation" as const,
-					filePath: affectedFiles[0] || "",
-					fileHash: "",
-					createdAt: now,
-					enrichedAt: now,
-					sourceIds: [],
-					metadata: {
-						observationType,
-						confidence,
-						affectedFiles,
-					},
-					vector: embedding,
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: JSON.stringify({
+								observationId: observation.id,
+								merged,
+								observationType: meta.observationType,
+								confidence: meta.confidence,
+								affectedFiles: meta.affectedFiles,
+								...buildFreshness(stateManager, startTime),
+							}),
+						},
+					],
 				};
+			} catch (err) {
+				return errorResponse(err);
+			} finally {
+				await store.close();
+			}
+		},
+	);
 
-				// Write to LanceDB
-				const indexer = createIndexer({
-					projectPath: config.workspaceRoot,
-				});
-				const store = (indexer as any).vectorStore;
-				if (store) {
-					await store.addDocuments([doc]);
-				} else {
-					// Fallback: create store directly
-					const { createVectorStore } = await import("../../core/store.js");
-					const vs = await createVectorStore(config.workspaceRoot);
-					await vs.addDocuments([doc]);
-					await vs.close();
+	server.tool(
+		"observations",
+		"List and maintain session observations: list (optionally by status), " +
+			"confirm one that is still accurate, edit its text, or retire it. " +
+			"Observations are flagged needs_review when their code changes.",
+		{
+			action: z
+				.enum(["list", "confirm", "edit", "retire"])
+				.default("list")
+				.describe("What to do"),
+			status: z
+				.enum(["active", "needs_review", "retired"])
+				.optional()
+				.describe("Filter for list"),
+			id: z
+				.string()
+				.optional()
+				.describe("Observation ID (for confirm, edit and retire)"),
+			content: z
+				.string()
+				.min(5)
+				.max(2000)
+				.optional()
+				.describe("New text (for edit)"),
+			confidence: z
+				.number()
+				.min(0)
+				.max(1)
+				.optional()
+				.describe("New confidence (for confirm)"),
+			reason: z.string().optional().describe("Why (for retire)"),
+		},
+		async ({ action, status, id, content, confidence, reason }) => {
+			const startTime = Date.now();
+			const store = createVectorStore(getVectorStorePath(config.workspaceRoot));
+
+			try {
+				const manager = createObservationManager(
+					store,
+					action === "edit" ? createEmbeddingsClient() : undefined,
+				);
+
+				if (action === "list") {
+					const observations = await manager.list(status);
+					return {
+						content: [
+							{
+								type: "text" as const,
+								text: JSON.stringify({
+									observations: observations.map(toResult),
+									...buildFreshness(stateManager, startTime),
+								}),
+							},
+						],
+					};
 				}
-				await indexer.close();
 
-				logger.info(`observe: recorded observation ${id} (${observationType})`);
+				if (!id) {
+					throw new Error(`${action} requires an observation id`);
+				}
+				if (action === "edit" && !content) {
+					throw new Error("edit requires content");
+				}
+
+				const observation =
+					action === "confirm"
+						? await manager.confirm(id, confidence)
+						: action === "edit"
+							? await manager.edit(id, content as string)
+							: await manager.retire(id, reason);
+				if (!observation) {
+					throw new Error(`Observation not found: ${id}`);
+				}
 
 				return {
 					content: [
 						{
 							type: "text" as const,
 							text: JSON.stringify({
-								observationId: id,
-								observationType,
-								confidence,
-								affectedFiles,
+								observation: toResult(observation),
 								...buildFreshness(stateManager, startTime),
 							}),
 						},
@@ -102,6 +202,8 @@ export function registerObserveTools(server: McpServer, deps: ToolDeps): void {
 				};
 			} catch (err) {
 				return errorResponse(err);
+			} finally {
+				await store.close();
 			}
 		},
 	);
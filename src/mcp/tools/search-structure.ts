@@ -0,0 +1,128 @@
+/**
+ * Search Structure Tool
+ *
+ * Syntax-aware search across indexed files, complementing `search_pattern`
+ * (text) and `search` (semantic) for questions about code shape: "async
+ * functions that call fetch outside try/catch", "classes implementing X".
+ * Accepts tree-sitter query S-expressions or code patterns with
+ * metavariables.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createStructuralSearch } from "../../core/ast/structural-search.js";
+import type { SupportedLanguage } from "../../types.js";
+import type { ToolDeps } from "./deps.js";
+import { buildFreshness, errorResponse } from "./deps.js";
+
+export function registerSearchStructureTools(
+	server: McpServer,
+	deps: ToolDeps,
+): void {
+	const { cache, stateManager, config } = deps;
+
+	server.tool(
+		"search_structure",
+		"Search indexed code by syntax shape. Pass either a tree-sitter query S-expression (`query`, e.g. '(class_declaration (class_heritage (implements_clause (type_identifier) @iface (#eq? @iface \"Disposable\")))) @match') or a code pattern with metavariables (`pattern`, e.g. 'await fetch($URL, $$$)'; $X matches one node, $$$ matches any number of siblings). Returns matches with file, line range and captures.",
+		{
+			query: z
+				.string()
+				.min(1)
+				.max(5000)
+				.optional()
+				.describe(
+					"Tree-sitter query S-expression. Name a capture @match to choose the reported node",
+				),
+			pattern: z
+				.string()
+				.min(1)
+				.max(2000)
+				.optional()
+				.describe(
+					"Code pattern with metavariables ($NAME, $_, $$$, $$$NAME), used when no query is given",
+				),
+			language: z
+				.string()
+				.optional()
+				.describe(
+					"Only search files of this language (e.g. 'typescript', 'python')",
+				),
+			fileGlob: z
+				.string()
+				.optional()
+				.describe("Glob pattern to filter files (e.g. '*.ts', 'src/**')"),
+			inside: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Only keep matches nested in one of these node types (e.g. ['class_declaration'])",
+				),
+			notInside: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Drop matches nested in any of these node types (e.g. ['try_statement'])",
+				),
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.max(200)
+				.default(50)
+				.describe("Maximum number of matches to return (default: 50)"),
+		},
+		async ({
+			query,
+			pattern,
+			language,
+			fileGlob,
+			inside,
+			notInside,
+			limit,
+		}) => {
+			const startTime = Date.now();
+
+			try {
+				if (!query && !pattern) {
+					throw new Error("Provide either `query` or `pattern`");
+				}
+
+				const { tracker } = await cache.get();
+				const search = createStructuralSearch(tracker, config.workspaceRoot);
+				const result = await search.search({
+					query,
+					pattern,
+					language: language as SupportedLanguage | undefined,
+					fileGlob,
+					inside,
+					notInside,
+					limit,
+				});
+
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: JSON.stringify({
+								matches: result.matches.map((m) => ({
+									file: m.filePath,
+									startLine: m.startLine,
+									endLine: m.endLine,
+									text: m.text,
+									captures: m.captures,
+								})),
+								totalMatches: result.matches.length,
+								filesSearched: result.filesSearched,
+								languages: result.languages,
+								truncated: result.truncated,
+								...buildFreshness(stateManager, startTime),
+							}),
+						},
+					],
+				};
+			} catch (err) {
+				return errorResponse(err);
+			}
+		},
+	);
+}
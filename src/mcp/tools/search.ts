@@ -8,7 +8,9 @@
  * Cloud errors are returned directly — no silent fallback to local search.
  *
  * Local search uses PipelineOrchestrator: parallel backends (symbol-graph,
- * semantic, location, tree-sitter, LSP) merged via RRF.
+ * semantic, location, tree-sitter, LSP, history) merged via RRF.
+ * With MNEMEX_PIPELINE_QUERY_EXPANSION, the configured LLM also expands
+ * queries into lex/vec/hyde variants (cached for the server's lifetime).
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -19,12 +21,18 @@ import {
 } from "../../cloud/index.js";
 import { createEmbeddingsClient } from "../../core/embeddings.js";
 import { createIndexer } from "../../core/indexer.js";
-import { getParserManager } from "../../parsers/parser-manager.js";
+import { createLLMClient } from "../../llm/client.js";
+import { getProjectParserManager } from "../../parsers/parser-manager.js";
+import { HistoryBackend } from "../../retrieval/backends/history.js";
 import { LocationBackend } from "../../retrieval/backends/location.js";
 import { LspBackend } from "../../retrieval/backends/lsp.js";
 import { SemanticBackend } from "../../retrieval/backends/semantic.js";
 import { SymbolGraphBackend } from "../../retrieval/backends/symbol-graph.js";
 import { TreeSitterBackend } from "../../retrieval/backends/tree-sitter.js";
+import {
+	type QueryExpander,
+	createQueryExpander,
+} from "../../retrieval/expansion/index.js";
 import { loadPipelineConfig } from "../../retrieval/pipeline/config.js";
 import { PipelineOrchestrator } from "../../retrieval/pipeline/orchestrator.js";
 import { QueryRouter } from "../../retrieval/routing/query-router.js";
@@ -34,6 +42,18 @@ import { buildFreshness, errorResponse } from "./deps.js";
 export function registerSearchTools(server: McpServer, deps: ToolDeps): void {
 	const { stateManager, config, logger } = deps;
 
+	// One expander per server so expansions stay cached across searches
+	let expander: Promise<QueryExpander | null> | undefined;
+	const getExpander = (budgetMs: number, cacheSize: number) => {
+		expander ??= createLLMClient({}, config.workspaceRoot)
+			.then((llm) => createQueryExpander(llm, { budgetMs, cacheSize }))
+			.catch((err) => {
+				logger.warn("search: query expansion unavailable", err);
+				return null;
+			});
+		return expander;
+	};
+
 	server.tool(
 		"search",
 		"Semantic + BM25 hybrid code search. Auto-indexes changed files before searching.",
@@ -182,6 +202,15 @@ export function registerSearchTools(server: McpServer, deps: ToolDeps): void {
 					);
 				}
 
+				// History backend (commit messages and diffs, wraps indexer)
+				if (pipelineConfig.backends.history) {
+					backends.push(
+						new HistoryBackend(() =>
+							createIndexer({ projectPath: config.workspaceRoot }),
+						),
+					);
+				}
+
 				// Location backend (requires tracker from cache)
 				if (pipelineConfig.backends.location) {
 					try {
@@ -196,7 +225,7 @@ export function registerSearchTools(server: McpServer, deps: ToolDeps): void {
 				if (pipelineConfig.backends.treeSitter) {
 					try {
 						const { tracker } = await deps.cache.get();
-						const parserManager = getParserManager();
+						const parserManager = getProjectParserManager(config.workspaceRoot);
 						backends.push(
 							new TreeSitterBackend(
 								parserManager,
@@ -230,6 +259,12 @@ export function registerSearchTools(server: McpServer, deps: ToolDeps): void {
 					router,
 					backends,
 					pipelineConfig,
+					pipelineConfig.queryExpansion
+						? await getExpander(
+								pipelineConfig.expansionConfig.budgetMs,
+								pipelineConfig.expansionConfig.cacheSize,
+							)
+						: null,
 				);
 
 				const mergedResults = await orchestrator.search(query, {
@@ -0,0 +1,99 @@
+/**
+ * Why Tool
+ *
+ * Explain a symbol's current code through git history: the commits and
+ * authors that last touched its lines, with their commit messages.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createGitHistory } from "../../git/history.js";
+import type { ToolDeps } from "./deps.js";
+import { buildFreshness, errorResponse } from "./deps.js";
+
+export function registerWhyTools(server: McpServer, deps: ToolDeps): void {
+	const { cache, stateManager, config } = deps;
+
+	server.tool(
+		"why",
+		"Explain why a symbol looks the way it does: the commits (with messages) and authors that shaped its current lines, via git blame.",
+		{
+			symbol: z
+				.string()
+				.describe(
+					"Symbol name to explain. Use 'Class.method' notation for a method on a specific class.",
+				),
+			file: z
+				.string()
+				.optional()
+				.describe("File path hint to disambiguate symbols with the same name"),
+			maxCommits: z
+				.number()
+				.min(1)
+				.max(50)
+				.default(10)
+				.describe("Maximum number of commits to return (default: 10)"),
+		},
+		async ({ symbol: symbolName, file, maxCommits }) => {
+			const startTime = Date.now();
+
+			try {
+				const { graphManager } = await cache.get();
+
+				const definition = graphManager.findSymbol(symbolName, {
+					preferExported: true,
+					fileHint: file,
+				});
+				if (!definition) {
+					return errorResponse(new Error(`Symbol not found: ${symbolName}`));
+				}
+
+				const history = createGitHistory(config.workspaceRoot);
+				if (!(await history.isAvailable())) {
+					return errorResponse(
+						new Error("Not a git repository (or no commits yet)"),
+					);
+				}
+
+				const explained = await history.explainLines(
+					definition.filePath,
+					definition.startLine,
+					definition.endLine,
+					maxCommits,
+				);
+
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: JSON.stringify({
+								symbol: {
+									name: definition.name,
+									kind: definition.kind,
+									file: definition.filePath,
+									line: definition.startLine,
+									endLine: definition.endLine,
+								},
+								commits: explained.commits.map((c) => ({
+									hash: c.hash,
+									shortHash: c.shortHash,
+									author: c.author,
+									email: c.email,
+									date: c.date,
+									message: c.message,
+									lines: c.lines,
+									ranges: c.ranges,
+								})),
+								authors: explained.authors,
+								uncommittedLines: explained.uncommittedLines,
+								...buildFreshness(stateManager, startTime),
+							}),
+						},
+					],
+				};
+			} catch (err) {
+				return errorResponse(err);
+			}
+		},
+	);
+}
@@ -0,0 +1,354 @@
+/**
+ * MCP Workspace
+ *
+ * Per-workspace server infrastructure: index state, index cache, completion
+ * detection, debounced reindexing, file watching, LSP, editor and memory.
+ *
+ * The stdio transport opens exactly one workspace (CWD). The streamable HTTP
+ * transport opens one per selected workspace and keeps it warm across
+ * sessions, so new editor windows skip cold-start indexing. A workspace no
+ * session has used for the idle period is closed.
+ */
+
+import { spawn } from "node:child_process";
+import { existsSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+import { getIndexDbPath } from "../config.js";
+import { SymbolEditor } from "../editor/editor.js";
+import { LspManager } from "../lsp/manager.js";
+import { MemoryStore } from "../memory/store.js";
+import {
+	getProjectParserManager,
+	releaseProjectParserManager,
+} from "../parsers/parser-manager.js";
+import { IndexCache } from "./cache.js";
+import { CompletionDetector } from "./completion-detector.js";
+import { type McpConfig, loadMcpConfig } from "./config.js";
+import type { Logger } from "./logger.js";
+import { DebounceReindexer } from "./reindexer.js";
+import { IndexStateManager } from "./state-manager.js";
+import type { ToolDeps } from "./tools/deps.js";
+import { FileWatcher } from "./watcher.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Workspace {
+	/** Absolute workspace root */
+	root: string;
+	/** Dependencies passed to tool/resource/prompt registration */
+	deps: ToolDeps;
+	/** Stop the watcher, cancel reindexing and release all resources */
+	close(): Promise<void>;
+}
+
+// ============================================================================
+// Initial Index
+// ============================================================================
+
+/**
+ * Run a blocking initial index when no index.db exists yet.
+ * Spawns `mnemex index --quiet` and waits for it to complete.
+ */
+async function runBlockingIndex(
+	workspaceRoot: string,
+	logger: Logger,
+): Promise<void> {
+	return new Promise((resolve, reject) => {
+		logger.info(
+			"No index found — running initial index before starting server",
+		);
+
+		const child = spawn("mnemex", ["index", "--quiet"], {
+			cwd: workspaceRoot,
+			stdio: "ignore",
+		});
+
+		child.on("exit", (code) => {
+			if (code === 0) {
+				logger.info("Initial index complete");
+				resolve();
+			} else {
+				// Non-zero exit: warn but don't hard-fail — tools will report "no index" gracefully
+				logger.warn(
+					`Initial index exited with code ${code ?? "null"}, continuing`,
+				);
+				resolve();
+			}
+		});
+
+		child.on("error", (err) => {
+			// If mnemex binary is not found, warn and continue rather than crashing
+			logger.warn(`Could not run initial index: ${err.message}`);
+			resolve();
+		});
+	});
+}
+
+// ============================================================================
+// Open
+// ============================================================================
+
+/**
+ * Initialize all per-workspace infrastructure for a workspace.
+ * Runs a blocking initial index if the workspace has no index yet.
+ */
+export async function openWorkspace(
+	config: McpConfig,
+	logger: Logger,
+): Promise<Workspace> {
+	logger.debug("Opening workspace", { workspaceRoot: config.workspaceRoot });
+
+	// -------------------------------------------------------------------------
+	// Initialize IndexStateManager
+	// -------------------------------------------------------------------------
+	const stateManager = new IndexStateManager(config.indexDir);
+	await stateManager.initialize();
+
+	// -------------------------------------------------------------------------
+	// Register project-defined languages (parsing, editing, watching)
+	// -------------------------------------------------------------------------
+	const parserManager = getProjectParserManager(config.workspaceRoot, true);
+	const customLanguages = parserManager
+		.getSupportedLanguages()
+		.filter((language) => parserManager.getCustomLanguage(language));
+	const customExtensions = customLanguages.flatMap(
+		(language) => parserManager.getLanguageConfig(language).extensions,
+	);
+	if (customLanguages.length > 0) {
+		logger.debug("Registered project languages", { customLanguages });
+	}
+
+	// -------------------------------------------------------------------------
+	// Check index existence — run blocking initial index if missing
+	// -------------------------------------------------------------------------
+	const indexDbPath = getIndexDbPath(config.workspaceRoot);
+	if (!existsSync(indexDbPath)) {
+		await runBlockingIndex(config.workspaceRoot, logger);
+	}
+
+	// -------------------------------------------------------------------------
+	// Create IndexCache, CompletionDetector and DebounceReindexer
+	// -------------------------------------------------------------------------
+	const cache = new IndexCache(
+		config.workspaceRoot,
+		config.indexDir,
+		config.maxMemoryMB,
+		logger,
+	);
+
+	const completionDetector = new CompletionDetector(
+		config.indexDir,
+		config.completionPollMs,
+	);
+
+	const reindexer = new DebounceReindexer(
+		config.workspaceRoot,
+		config.indexDir,
+		config.debounceMs,
+		stateManager,
+		cache,
+		completionDetector,
+		logger,
+	);
+
+	// -------------------------------------------------------------------------
+	// Start FileWatcher
+	// -------------------------------------------------------------------------
+	const watcher = new FileWatcher(
+		config.workspaceRoot,
+		[...config.watchPatterns, ...customExtensions.map((ext) => `**/*${ext}`)],
+		config.ignorePatterns,
+		(filePath: string) => {
+			stateManager.recordChange(filePath);
+			reindexer.scheduleReindex();
+		},
+		logger,
+	);
+
+	watcher.start();
+	const watcherActive = true;
+
+	// -------------------------------------------------------------------------
+	// Create LspManager (lazy — no servers spawned yet)
+	// -------------------------------------------------------------------------
+	const lspManager = config.lsp.enabled
+		? new LspManager({
+				enabled: true,
+				timeoutMs: config.lsp.timeoutMs,
+				maxServers: config.lsp.maxServers,
+				disabledLanguages: config.lsp.disabledLanguages,
+				workspaceRoot: config.workspaceRoot,
+				commandOverrides: {
+					...(config.lsp.tsCommand ? { typescript: config.lsp.tsCommand } : {}),
+					...(config.lsp.pyCommand ? { python: config.lsp.pyCommand } : {}),
+					...(config.lsp.goCommand ? { go: config.lsp.goCommand } : {}),
+					...(config.lsp.rsCommand ? { rust: config.lsp.rsCommand } : {}),
+				},
+			})
+		: null;
+
+	if (lspManager) {
+		logger.debug("LSP manager created (lazy initialization)");
+	}
+
+	// -------------------------------------------------------------------------
+	// Create SymbolEditor and MemoryStore
+	// -------------------------------------------------------------------------
+	const editor = new SymbolEditor(cache, config, lspManager);
+	const memoryStore = new MemoryStore(config.indexDir);
+
+	const deps: ToolDeps = {
+		cache,
+		stateManager,
+		config,
+		logger,
+		reindexer,
+		completionDetector,
+		serverStartTime: Date.now(),
+		watcherActive,
+		lspManager,
+		editor,
+		memoryStore,
+	};
+
+	return {
+		root: config.workspaceRoot,
+		deps,
+		async close() {
+			reindexer.cancelPending();
+			watcher.stop();
+			completionDetector.stop();
+			// Shut down LSP servers before releasing the index
+			if (lspManager) {
+				await lspManager.shutdown();
+			}
+			cache.close();
+			releaseProjectParserManager(config.workspaceRoot);
+		},
+	};
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+interface RegisteredWorkspace {
+	opening: Promise<Workspace>;
+	/** Sessions holding the workspace */
+	refs: number;
+	/** Pending close once no session holds the workspace */
+	closeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Lazily opens and caches workspaces by absolute root, so every session that
+ * selects the same workspace shares one index cache, watcher and reindexer.
+ */
+export class WorkspaceRegistry {
+	private workspaces = new Map<string, RegisteredWorkspace>();
+
+	/**
+	 * @param idleMs How long a workspace no session holds stays open
+	 * (0 = until closeAll)
+	 */
+	constructor(
+		private logger: Logger,
+		private idleMs = 0,
+	) {}
+
+	/**
+	 * Get the workspace rooted at the given directory for a session, opening
+	 * it on first use. Every successful call must be paired with release().
+	 * Throws if the directory does not exist.
+	 */
+	async acquire(workspaceRoot: string): Promise<Workspace> {
+		const root = resolve(workspaceRoot);
+		const existing = this.workspaces.get(root);
+		if (existing) {
+			existing.refs++;
+			if (existing.closeTimer) {
+				clearTimeout(existing.closeTimer);
+				existing.closeTimer = null;
+			}
+			return this.holding(existing);
+		}
+
+		if (!existsSync(root) || !statSync(root).isDirectory()) {
+			throw new Error(`Workspace not found: ${root}`);
+		}
+
+		const entry: RegisteredWorkspace = {
+			opening: openWorkspace(loadMcpConfig(root), this.logger),
+			refs: 1,
+			closeTimer: null,
+		};
+		this.workspaces.set(root, entry);
+		// Forget failed opens so a later session can retry
+		entry.opening.catch(() => {
+			if (this.workspaces.get(root) === entry) {
+				this.workspaces.delete(root);
+			}
+		});
+		return this.holding(entry);
+	}
+
+	/**
+	 * Release a workspace acquired by a session. Once no session holds it, it
+	 * is closed after the idle period.
+	 */
+	release(workspaceRoot: string): void {
+		const root = resolve(workspaceRoot);
+		const entry = this.workspaces.get(root);
+		if (!entry || entry.refs === 0) {
+			return;
+		}
+
+		entry.refs--;
+		if (entry.refs > 0 || this.idleMs <= 0) {
+			return;
+		}
+		entry.closeTimer = setTimeout(() => {
+			this.workspaces.delete(root);
+			this.logger.info("Closing idle workspace", { workspaceRoot: root });
+			entry.opening
+				.then((workspace) => workspace.close())
+				.catch((err) =>
+					this.logger.error(`Failed to close workspace ${root}`, err),
+				);
+		}, this.idleMs);
+		entry.closeTimer.unref?.();
+	}
+
+	/** Roots of all open workspaces */
+	list(): string[] {
+		return Array.from(this.workspaces.keys());
+	}
+
+	/**
+	 * Close all open workspaces. Called on server shutdown.
+	 */
+	async closeAll(): Promise<void> {
+		const entries = Array.from(this.workspaces.values());
+		this.workspaces.clear();
+		await Promise.allSettled(
+			entries.map(async (entry) => {
+				if (entry.closeTimer) {
+					clearTimeout(entry.closeTimer);
+				}
+				await (await entry.opening).close();
+			}),
+		);
+	}
+
+	/** The session's reference is dropped again if the workspace fails to open */
+	private async holding(entry: RegisteredWorkspace): Promise<Workspace> {
+		try {
+			return await entry.opening;
+		} catch (err) {
+			entry.refs--;
+			throw err;
+		}
+	}
+}
@@ -15,6 +15,7 @@
 import type {
 	EnrichedIndexResult,
 	IndexStatus,
+	RepoMapDirectorySummary,
 	RepoMapEntry,
 	SearchResult,
 	SymbolDefinition,
@@ -61,7 +62,12 @@ function searchResults(query: string, results: SearchResult[]): void {
 			const meta = r.observationMetadata || {};
 			const files = (meta.affectedFiles as string[]) || [];
 			console.log(
-				`observation score=${r.score.toFixed(3)} type=${meta.observationType ?? "pattern"} confidence=${meta.confidence ?? 0.7} files=${files.join(",")} content=${r.chunk.content}`,
+				`observation score=${r.score.toFixed(3)} type=${meta.observationType ?? "pattern"} confidence=${meta.confidence ?? 0.7} status=${meta.status ?? "active"} files=${files.join(",")} content=${r.chunk.content}`,
+			);
+		} else if (r.documentType === "directory_summary") {
+			const summary = r.chunk.content.match(/Summary:\s*(.+?)(?:\n|$)/);
+			console.log(
+				`directory path=${r.chunk.filePath} level=${r.directoryLevel ?? "directory"} score=${r.score.toFixed(3)} summary=${summary ? summary[1].trim() : ""}`,
 			);
 		} else {
 			let line = `result file=${r.chunk.filePath} line=${r.chunk.startLine} end_line=${r.chunk.endLine} score=${r.score.toFixed(3)} type=${r.chunk.chunkType} name=${r.chunk.name ?? ""}`;
@@ -79,9 +85,17 @@ function searchResults(query: string, results: SearchResult[]): void {
 
 /**
  * Output for the `map` command: repo structure as indented path lines.
- * Each file is a line followed by its symbols.
+ * Directory summaries come first, then each file followed by its symbols.
  */
-function mapOutput(entries: RepoMapEntry[]): void {
+function mapOutput(
+	entries: RepoMapEntry[],
+	directories: RepoMapDirectorySummary[] = [],
+): void {
+	for (const directory of directories) {
+		console.log(
+			`directory path=${directory.path} level=${directory.level} summary=${directory.summary.replace(/\s+/g, " ")}`,
+		);
+	}
 	for (const entry of entries) {
 		console.log(`file=${entry.filePath}`);
 		for (const symbol of entry.symbols) {
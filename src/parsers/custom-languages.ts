@@ -0,0 +1,249 @@
+/**
+ * Project-defined Languages
+ *
+ * Compiles the `languages` entries of a project config into the lookup
+ * tables that chunking, symbol extraction, validation and test detection
+ * read through the ParserManager. Node types are taken from the top-level
+ * patterns of the chunk query, so a DSL needs no code changes to index.
+ */
+
+import { isAbsolute, resolve } from "node:path";
+import type {
+	ChunkType,
+	LanguageConfig,
+	LanguageDefinition,
+	SupportedLanguage,
+	SymbolKind,
+} from "../types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CustomLanguage {
+	config: LanguageConfig;
+	/** Absolute path to the .wasm grammar */
+	grammarPath: string;
+	/** Node type → chunk type, from the @chunk captures of the chunk query */
+	chunkTypes: Map<string, ChunkType>;
+	/** Node type → symbol kind, from the same captures */
+	symbolKinds: Map<string, SymbolKind>;
+	/** Node types whose nested symbols are members (class-like captures) */
+	containerTypes: Set<string>;
+	/** Test detection patterns (same shape as TestFileDetector's TestPattern) */
+	testPatterns?: {
+		filePatterns: RegExp[];
+		dirPatterns: RegExp[];
+		symbolPatterns: RegExp[];
+	};
+}
+
+/** A node type captured as a chunk, with the capture's kind suffix */
+export interface ChunkCapture {
+	nodeType: string;
+	kind: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** `@chunk.<kind>` suffixes and what they index as */
+const CHUNK_CAPTURE_KINDS: Record<
+	string,
+	{ chunkType: ChunkType; symbolKind?: SymbolKind }
+> = {
+	function: { chunkType: "function", symbolKind: "function" },
+	method: { chunkType: "method", symbolKind: "method" },
+	class: { chunkType: "class", symbolKind: "class" },
+	interface: { chunkType: "class", symbolKind: "interface" },
+	struct: { chunkType: "class", symbolKind: "struct" },
+	trait: { chunkType: "class", symbolKind: "trait" },
+	enum: { chunkType: "module", symbolKind: "enum" },
+	type: { chunkType: "module", symbolKind: "type" },
+	module: { chunkType: "module" },
+	block: { chunkType: "block" },
+	section: { chunkType: "config-section" },
+};
+
+/** Symbol kinds whose nested symbols get a parent */
+const CONTAINER_KINDS = new Set<SymbolKind>([
+	"class",
+	"interface",
+	"struct",
+	"trait",
+]);
+
+const LANGUAGE_ID_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+// ============================================================================
+// Query Parsing
+// ============================================================================
+
+/**
+ * Collect the node types of top-level query patterns captured as `@chunk`
+ * or `@chunk.<kind>`. Alternations (`[(a) (b)] @chunk`) contribute every
+ * alternative; wildcards, predicates, comments and strings are skipped.
+ */
+export function parseChunkCaptures(query: string): ChunkCapture[] {
+	const captures: ChunkCapture[] = [];
+	const stack: Array<{ bracket: "(" | "["; types: string[] }> = [];
+	let lastClosed: string[] = [];
+	let i = 0;
+
+	const readWord = (pattern: RegExp): string => {
+		pattern.lastIndex = i;
+		const match = pattern.exec(query);
+		if (!match) return "";
+		i += match[0].length;
+		return match[0];
+	};
+
+	while (i < query.length) {
+		const ch = query[i];
+
+		if (ch === ";") {
+			const end = query.indexOf("\n", i);
+			i = end === -1 ? query.length : end + 1;
+		} else if (ch === '"') {
+			i++;
+			while (i < query.length && query[i] !== '"') {
+				i += query[i] === "\\" ? 2 : 1;
+			}
+			i++;
+		} else if (ch === "(" || ch === "[") {
+			i++;
+			let types: string[] = [];
+			if (ch === "(") {
+				while (/\s/.test(query[i] ?? "")) i++;
+				const nodeType = readWord(/[A-Za-z_][\w]*/y);
+				if (nodeType && nodeType !== "_") types = [nodeType];
+			}
+			stack.push({ bracket: ch, types });
+		} else if (ch === ")" || ch === "]") {
+			i++;
+			const closed = stack.pop();
+			if (!closed) continue;
+			const parent = stack[stack.length - 1];
+			if (!parent) {
+				lastClosed = closed.types;
+			} else if (parent.bracket === "[" && stack.length === 1) {
+				parent.types.push(...closed.types);
+				lastClosed = closed.types;
+			}
+		} else if (ch === "@") {
+			i++;
+			const name = readWord(/[\w.-]+/y);
+			const atTopLevel =
+				stack.length === 0 || (stack.length === 1 && stack[0].bracket === "[");
+			if (atTopLevel && (name === "chunk" || name.startsWith("chunk."))) {
+				const kind = name === "chunk" ? "function" : name.slice(6);
+				for (const nodeType of lastClosed) {
+					captures.push({ nodeType, kind });
+				}
+			}
+		} else {
+			i++;
+		}
+	}
+
+	return captures;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Validate a language definition and build its lookup tables.
+ * Throws with the offending field when the definition is invalid.
+ */
+export function compileLanguageDefinition(
+	definition: LanguageDefinition,
+	projectPath: string,
+): CustomLanguage {
+	const { id } = definition;
+	if (typeof id !== "string" || !LANGUAGE_ID_PATTERN.test(id)) {
+		throw new Error(
+			`Invalid language id "${id}": use lowercase letters, digits, "-" or "_"`,
+		);
+	}
+
+	function fail(message: string): never {
+		throw new Error(`Language "${id}": ${message}`);
+	}
+
+	if (!Array.isArray(definition.extensions) || !definition.extensions.length) {
+		fail("extensions must list at least one extension");
+	}
+	const extensions = definition.extensions.map((ext) => {
+		if (!/^\.[^./\\]+$/.test(ext)) {
+			fail(`extension "${ext}" must start with a dot (e.g. ".rules")`);
+		}
+		return ext.toLowerCase();
+	});
+
+	if (typeof definition.grammar !== "string" || !definition.grammar) {
+		fail("grammar must be the path to a tree-sitter .wasm file");
+	}
+	if (typeof definition.chunkQuery !== "string") {
+		fail("chunkQuery is required");
+	}
+
+	const chunkTypes = new Map<string, ChunkType>();
+	const symbolKinds = new Map<string, SymbolKind>();
+	const containerTypes = new Set<string>();
+	for (const { nodeType, kind } of parseChunkCaptures(definition.chunkQuery)) {
+		const mapping = CHUNK_CAPTURE_KINDS[kind];
+		if (!mapping) {
+			fail(
+				`unknown capture @chunk.${kind} (expected one of ${Object.keys(CHUNK_CAPTURE_KINDS).join(", ")})`,
+			);
+		}
+		chunkTypes.set(nodeType, mapping.chunkType);
+		if (mapping.symbolKind) {
+			symbolKinds.set(nodeType, mapping.symbolKind);
+			if (CONTAINER_KINDS.has(mapping.symbolKind)) {
+				containerTypes.add(nodeType);
+			}
+		}
+	}
+	if (chunkTypes.size === 0) {
+		fail("chunkQuery must capture at least one node as @chunk");
+	}
+
+	const compileRegexes = (field: string, patterns: string[] = []) =>
+		patterns.map((pattern) => {
+			try {
+				return new RegExp(pattern);
+			} catch (error) {
+				return fail(
+					`invalid testPatterns.${field} regex "${pattern}": ${(error as Error).message}`,
+				);
+			}
+		});
+
+	const { testPatterns } = definition;
+
+	return {
+		config: {
+			// Registered at runtime; downstream code treats it like a built-in id
+			id: id as SupportedLanguage,
+			extensions,
+			grammarFile: definition.grammar,
+			chunkQuery: definition.chunkQuery,
+			referenceQuery: definition.referenceQuery,
+		},
+		grammarPath: isAbsolute(definition.grammar)
+			? definition.grammar
+			: resolve(projectPath, definition.grammar),
+		chunkTypes,
+		symbolKinds,
+		containerTypes,
+		testPatterns: testPatterns && {
+			filePatterns: compileRegexes("files", testPatterns.files),
+			dirPatterns: compileRegexes("directories", testPatterns.directories),
+			symbolPatterns: compileRegexes("symbols", testPatterns.symbols),
+		},
+	};
+}
@@ -3,13 +3,26 @@
  *
  * Manages tree-sitter parsers and provides language detection
  * and parsing capabilities using WASM grammars.
+ *
+ * Languages a project declares in its config are only known to that
+ * project's parser manager (getProjectParserManager), so one process can
+ * serve several projects without their languages leaking into each other.
  */
 
 import { existsSync, readFileSync } from "node:fs";
-import { extname, join } from "node:path";
+import { extname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { Language, Parser, Tree } from "web-tree-sitter";
-import type { LanguageConfig, SupportedLanguage } from "../types.js";
+import { loadProjectConfig } from "../config.js";
+import type {
+	LanguageConfig,
+	LanguageDefinition,
+	SupportedLanguage,
+} from "../types.js";
+import {
+	type CustomLanguage,
+	compileLanguageDefinition,
+} from "./custom-languages.js";
 
 // ============================================================================
 // Language Configurations
@@ -406,6 +419,196 @@ const LANGUAGE_CONFIGS: Record<SupportedLanguage, LanguageConfig> = {
       (super_interfaces
         (type_list
           (type_identifier) @ref.implements))
+    `,
+	},
+	ruby: {
+		id: "ruby",
+		extensions: [".rb", ".rake", ".gemspec"],
+		grammarFile: "tree-sitter-ruby.wasm",
+		chunkQuery: `
+      (method
+        name: (_) @name) @chunk
+      (singleton_method
+        name: (_) @name) @chunk
+      (class
+        name: (_) @name) @chunk
+      (module
+        name: (_) @name) @chunk
+    `,
+		referenceQuery: `
+      ; Method calls
+      (call
+        method: (identifier) @ref.call)
+      ; Superclass
+      (superclass
+        (constant) @ref.extends)
+      (superclass
+        (scope_resolution
+          name: (constant) @ref.extends))
+      ; Mixins (include/extend/prepend)
+      (call
+        method: (identifier) @_mixin
+        (#match? @_mixin "^(include|extend|prepend)$")
+        arguments: (argument_list
+          (constant) @ref.implements))
+      ; require / require_relative
+      (call
+        method: (identifier) @_require
+        (#match? @_require "^require(_relative)?$")
+        arguments: (argument_list
+          (string
+            (string_content) @ref.import)))
+      ; Namespaced constants (Foo::Bar)
+      (scope_resolution
+        name: (constant) @ref.type)
+    `,
+	},
+	php: {
+		id: "php",
+		extensions: [".php"],
+		grammarFile: "tree-sitter-php.wasm",
+		chunkQuery: `
+      (function_definition
+        name: (name) @name) @chunk
+      (method_declaration
+        name: (name) @name) @chunk
+      (class_declaration
+        name: (name) @name) @chunk
+      (interface_declaration
+        name: (name) @name) @chunk
+      (trait_declaration
+        name: (name) @name) @chunk
+      (enum_declaration
+        name: (name) @name) @chunk
+    `,
+		referenceQuery: `
+      ; Function calls
+      (function_call_expression
+        function: (name) @ref.call)
+      ; Method calls ($obj->foo(), Foo::bar())
+      (member_call_expression
+        name: (name) @ref.call)
+      (scoped_call_expression
+        name: (name) @ref.call)
+      ; Extends/implements
+      (base_clause
+        (name) @ref.extends)
+      (class_interface_clause
+        (name) @ref.implements)
+      ; Use statements
+      (namespace_use_clause
+        (qualified_name) @ref.import)
+    `,
+	},
+	kotlin: {
+		id: "kotlin",
+		extensions: [".kt", ".kts"],
+		grammarFile: "tree-sitter-kotlin.wasm",
+		chunkQuery: `
+      (function_declaration
+        (simple_identifier) @name) @chunk
+      (class_declaration
+        (type_identifier) @name) @chunk
+      (object_declaration
+        (type_identifier) @name) @chunk
+    `,
+		referenceQuery: `
+      ; Function calls
+      (call_expression
+        (simple_identifier) @ref.call)
+      (call_expression
+        (navigation_expression
+          (navigation_suffix
+            (simple_identifier) @ref.call)))
+      ; Type references
+      (user_type
+        (type_identifier) @ref.type)
+      ; Superclass (constructor call) and interfaces
+      (delegation_specifier
+        (constructor_invocation
+          (user_type
+            (type_identifier) @ref.extends)))
+      (delegation_specifier
+        (user_type
+          (type_identifier) @ref.implements))
+      ; Import statements
+      (import_header
+        (identifier) @ref.import)
+    `,
+	},
+	swift: {
+		id: "swift",
+		extensions: [".swift"],
+		grammarFile: "tree-sitter-swift.wasm",
+		chunkQuery: `
+      (function_declaration
+        name: (simple_identifier) @name) @chunk
+      ; class, struct, enum, actor and extension declarations
+      (class_declaration
+        name: (type_identifier) @name) @chunk
+      (class_declaration
+        name: (user_type) @name) @chunk
+      (protocol_declaration
+        name: (type_identifier) @name) @chunk
+    `,
+		referenceQuery: `
+      ; Function calls
+      (call_expression
+        (simple_identifier) @ref.call)
+      (call_expression
+        (navigation_expression
+          suffix: (navigation_suffix
+            suffix: (simple_identifier) @ref.call)))
+      ; Type references
+      (user_type
+        (type_identifier) @ref.type)
+      ; Superclass and protocol conformance
+      (inheritance_specifier
+        inherits_from: (user_type
+          (type_identifier) @ref.extends))
+      ; Import statements
+      (import_declaration
+        (identifier) @ref.import)
+    `,
+	},
+	csharp: {
+		id: "csharp",
+		extensions: [".cs"],
+		grammarFile: "tree-sitter-c_sharp.wasm",
+		chunkQuery: `
+      (method_declaration
+        name: (identifier) @name) @chunk
+      (constructor_declaration
+        name: (identifier) @name) @chunk
+      (class_declaration
+        name: (identifier) @name) @chunk
+      (interface_declaration
+        name: (identifier) @name) @chunk
+      (struct_declaration
+        name: (identifier) @name) @chunk
+      (record_declaration
+        name: (identifier) @name) @chunk
+      (enum_declaration
+        name: (identifier) @name) @chunk
+    `,
+		referenceQuery: `
+      ; Method calls
+      (invocation_expression
+        function: (identifier) @ref.call)
+      (invocation_expression
+        function: (member_access_expression
+          name: (identifier) @ref.call))
+      ; Object creation
+      (object_creation_expression
+        type: (identifier) @ref.type)
+      ; Base class and interfaces
+      (base_list
+        (identifier) @ref.extends)
+      ; Using directives
+      (using_directive
+        (qualified_name) @ref.import)
+      (using_directive
+        (identifier) @ref.import)
     `,
 	},
 	html: {
@@ -566,8 +769,52 @@ const LANGUAGE_CONFIGS: Record<SupportedLanguage, LanguageConfig> = {
       ; No references tracked for JSON
     `,
 	},
-	// NOTE: yaml, toml, markdown removed - no pre-built WASM grammars available
-	// These file types are still indexed as plain text chunks
+	yaml: {
+		id: "yaml",
+		extensions: [".yaml", ".yml"],
+		grammarFile: "tree-sitter-yaml.wasm",
+		chunkQuery: `
+      ; Mapping entries (top-level sections)
+      (block_mapping_pair
+        key: (flow_node) @name) @chunk
+    `,
+		referenceQuery: `
+      ; No references tracked for YAML
+    `,
+	},
+	toml: {
+		id: "toml",
+		extensions: [".toml"],
+		grammarFile: "tree-sitter-toml.wasm",
+		chunkQuery: `
+      ; Tables ([section]) and arrays of tables ([[section]])
+      (table
+        (bare_key) @name) @chunk
+      (table
+        (dotted_key) @name) @chunk
+      (table_array_element
+        (bare_key) @name) @chunk
+      (table_array_element
+        (dotted_key) @name) @chunk
+    `,
+		referenceQuery: `
+      ; No references tracked for TOML
+    `,
+	},
+	markdown: {
+		id: "markdown",
+		extensions: [".md", ".markdown"],
+		grammarFile: "tree-sitter-markdown.wasm",
+		chunkQuery: `
+      ; Header-based chunking handled by document-chunker.ts
+      (section
+        (atx_heading
+          heading_content: (inline) @name)) @chunk
+    `,
+		referenceQuery: `
+      ; No references tracked for Markdown
+    `,
+	},
 	rst: {
 		id: "rst",
 		extensions: [".rst"],
@@ -628,15 +875,27 @@ export class ParserManager {
 	private languages: Map<SupportedLanguage, Language> = new Map();
 	private missingGrammars: Set<SupportedLanguage> = new Set(); // Track warned grammars
 	private grammarsPath: string;
+	/** Project-defined languages, keyed by id */
+	private customLanguages: Map<string, CustomLanguage> = new Map();
+	/** Extensions claimed by project-defined languages (override built-ins) */
+	private customExtensions: Map<string, SupportedLanguage> = new Map();
+	/** Manager whose built-in parsers this one shares (project managers) */
+	private builtIns: ParserManager | null;
 
-	constructor(grammarsPath?: string) {
+	/**
+	 * @param builtIns - Manager to take built-in language parsers from, so
+	 * they are loaded once for all projects
+	 */
+	constructor(grammarsPath?: string, builtIns?: ParserManager) {
 		// Default to grammars directory relative to this file
 		// In development: src/parsers/parser-manager.ts -> ../../grammars
 		// In bundled dist: dist/index.js -> ../grammars
 		const __dirname = fileURLToPath(new URL(".", import.meta.url));
 		const isDist = __dirname.includes("/dist") || __dirname.endsWith("/dist/");
 		const relativePath = isDist ? "../grammars" : "../../grammars";
-		this.grammarsPath = grammarsPath || join(__dirname, relativePath);
+		this.grammarsPath =
+			grammarsPath || builtIns?.grammarsPath || join(__dirname, relativePath);
+		this.builtIns = builtIns ?? null;
 	}
 
 	/**
@@ -647,6 +906,11 @@ export class ParserManager {
 		if (this.initialized) {
 			return;
 		}
+		if (this.builtIns) {
+			await this.builtIns.initialize();
+			this.initialized = true;
+			return;
+		}
 
 		// Use locateFile to tell web-tree-sitter where to find tree-sitter.wasm
 		// This is critical for bundled distributions where the default path
@@ -665,7 +929,7 @@ export class ParserManager {
 	 */
 	getLanguage(filePath: string): SupportedLanguage | null {
 		const ext = extname(filePath).toLowerCase();
-		return EXTENSION_TO_LANGUAGE[ext] || null;
+		return this.customExtensions.get(ext) || EXTENSION_TO_LANGUAGE[ext] || null;
 	}
 
 	/**
@@ -679,13 +943,106 @@ export class ParserManager {
 	 * Get the configuration for a language
 	 */
 	getLanguageConfig(language: SupportedLanguage): LanguageConfig {
-		return LANGUAGE_CONFIGS[language];
+		return (
+			this.customLanguages.get(language)?.config ?? LANGUAGE_CONFIGS[language]
+		);
+	}
+
+	// ========================================================================
+	// Project-defined Languages
+	// ========================================================================
+
+	/**
+	 * Register a project-defined language. Its extensions take precedence
+	 * over built-in mappings; re-registering an id replaces the previous
+	 * definition. Throws if the definition is invalid.
+	 */
+	registerLanguage(
+		definition: LanguageDefinition,
+		projectPath: string,
+	): SupportedLanguage {
+		if (definition.id in LANGUAGE_CONFIGS) {
+			throw new Error(
+				`Language "${definition.id}" is built in and cannot be redefined`,
+			);
+		}
+
+		const custom = compileLanguageDefinition(definition, projectPath);
+		const language = custom.config.id;
+
+		// Re-registering (every indexer run) keeps an unchanged grammar loaded
+		const previous = this.customLanguages.get(language);
+		this.removeCustomLanguage(
+			language,
+			previous?.grammarPath === custom.grammarPath,
+		);
+		this.customLanguages.set(language, custom);
+		for (const ext of custom.config.extensions) {
+			this.customExtensions.set(ext, language);
+		}
+		return language;
+	}
+
+	/**
+	 * Remove a project-defined language and its cached parser
+	 */
+	unregisterLanguage(language: string): void {
+		this.removeCustomLanguage(language, false);
+	}
+
+	private removeCustomLanguage(language: string, keepGrammar: boolean): void {
+		const custom = this.customLanguages.get(language);
+		if (!custom) return;
+
+		for (const ext of custom.config.extensions) {
+			if (this.customExtensions.get(ext) === language) {
+				this.customExtensions.delete(ext);
+			}
+		}
+		this.customLanguages.delete(language);
+		if (keepGrammar) return;
+		this.parsers.delete(custom.config.id);
+		this.languages.delete(custom.config.id);
+		this.missingGrammars.delete(custom.config.id);
+	}
+
+	/**
+	 * Register the `languages` declared in a project's config. Invalid
+	 * definitions are reported and skipped so one typo doesn't stop indexing.
+	 *
+	 * @returns ids of the registered languages
+	 */
+	loadProjectLanguages(projectPath: string): SupportedLanguage[] {
+		const definitions = loadProjectConfig(projectPath)?.languages ?? [];
+		const registered: SupportedLanguage[] = [];
+
+		for (const definition of definitions) {
+			try {
+				registered.push(this.registerLanguage(definition, projectPath));
+			} catch (error) {
+				console.warn(
+					`Skipping custom language: ${error instanceof Error ? error.message : error}`,
+				);
+			}
+		}
+		return registered;
+	}
+
+	/**
+	 * Get the compiled definition of a project-defined language
+	 * (undefined for built-in languages)
+	 */
+	getCustomLanguage(language: string): CustomLanguage | undefined {
+		return this.customLanguages.get(language);
 	}
 
 	/**
 	 * Get a parser for a specific language
 	 */
 	async getParser(language: SupportedLanguage): Promise<Parser | null> {
+		if (this.builtIns && !this.customLanguages.has(language)) {
+			return this.builtIns.getParser(language);
+		}
 		await this.initialize();
 
 		// Return cached parser if available
@@ -724,13 +1081,19 @@ export class ParserManager {
 	private async loadLanguage(
 		language: SupportedLanguage,
 	): Promise<Language | null> {
+		if (this.builtIns && !this.customLanguages.has(language)) {
+			return this.builtIns.loadLanguage(language);
+		}
+
 		// Return cached language if available
 		if (this.languages.has(language)) {
 			return this.languages.get(language)!;
 		}
 
-		const config = LANGUAGE_CONFIGS[language];
-		const grammarPath = join(this.grammarsPath, config.grammarFile);
+		const custom = this.customLanguages.get(language);
+		const grammarPath =
+			custom?.grammarPath ??
+			join(this.grammarsPath, LANGUAGE_CONFIGS[language].grammarFile);
 
 		// Check if grammar file exists (only warn once per language)
 		if (!existsSync(grammarPath)) {
@@ -773,14 +1136,22 @@ export class ParserManager {
 	 * Get supported languages
 	 */
 	getSupportedLanguages(): SupportedLanguage[] {
-		return Object.keys(LANGUAGE_CONFIGS) as SupportedLanguage[];
+		return [
+			...(Object.keys(LANGUAGE_CONFIGS) as SupportedLanguage[]),
+			...[...this.customLanguages.values()].map((custom) => custom.config.id),
+		];
 	}
 
 	/**
 	 * Get supported extensions
 	 */
 	getSupportedExtensions(): string[] {
-		return Object.keys(EXTENSION_TO_LANGUAGE);
+		return [
+			...new Set([
+				...Object.keys(EXTENSION_TO_LANGUAGE),
+				...this.customExtensions.keys(),
+			]),
+		];
 	}
 }
 
@@ -790,8 +1161,11 @@ export class ParserManager {
 
 let parserManagerInstance: ParserManager | null = null;
 
+/** Parser managers of projects, by resolved project root */
+const projectParserManagers = new Map<string, ParserManager>();
+
 /**
- * Get the singleton parser manager instance
+ * Get the singleton parser manager instance (built-in languages only)
  */
 export function getParserManager(): ParserManager {
 	if (!parserManagerInstance) {
@@ -800,9 +1174,40 @@ export function getParserManager(): ParserManager {
 	return parserManagerInstance;
 }
 
+/**
+ * Get the parser manager of a project: the built-in languages plus the
+ * languages declared in the project's config
+ *
+ * @param reload - Register the config's languages again even if the manager
+ * exists (picks up config changes); they are always loaded on first use
+ */
+export function getProjectParserManager(
+	projectPath: string,
+	reload = false,
+): ParserManager {
+	const root = resolve(projectPath);
+	const existing = projectParserManagers.get(root);
+	if (existing && !reload) {
+		return existing;
+	}
+
+	const manager = existing ?? new ParserManager(undefined, getParserManager());
+	manager.loadProjectLanguages(root);
+	projectParserManagers.set(root, manager);
+	return manager;
+}
+
+/**
+ * Forget a project's parser manager, e.g. when its workspace is closed
+ */
+export function releaseProjectParserManager(projectPath: string): void {
+	projectParserManagers.delete(resolve(projectPath));
+}
+
 /**
  * Set a custom grammars path
  */
 export function setGrammarsPath(path: string): void {
 	parserManagerInstance = new ParserManager(path);
+	projectParserManagers.clear();
 }
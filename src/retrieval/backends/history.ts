@@ -0,0 +1,83 @@
+/**
+ * History Backend
+ *
+ * Searches indexed commits (messages, changed files and diffs) via
+ * Indexer.searchHistory(). Results point at a virtual "commit:<hash>" path.
+ * Activated for: history
+ */
+
+import type { Indexer } from "../../core/indexer.js";
+import type { QueryClassification } from "../../types.js";
+import type {
+	BackendName,
+	BackendResult,
+	ISearchBackend,
+	SearchOptions,
+} from "../pipeline/types.js";
+
+export class HistoryBackend implements ISearchBackend {
+	readonly name: BackendName = "history";
+
+	constructor(private createIndexer: () => Indexer) {}
+
+	async search(
+		query: string,
+		_intent: QueryClassification,
+		options: SearchOptions,
+		signal: AbortSignal,
+	): Promise<BackendResult[]> {
+		if (signal.aborted) return [];
+
+		const limit = options.limit ?? 10;
+		const indexer = this.createIndexer();
+		const backendName = this.name;
+
+		try {
+			const searchResults = await indexer.searchHistory(query, limit);
+
+			if (signal.aborted) return [];
+
+			// Filter by filePattern against the files each commit changed
+			const filePattern = options.filePattern;
+			const pattern = filePattern
+				? new RegExp(filePattern.replace(/\*\*/g, ".*").replace(/\*/g, "[^/]*"))
+				: null;
+
+			const commits = searchResults
+				.map((r) => ({
+					result: r,
+					meta: (r.document.metadata ?? {}) as {
+						hash?: string;
+						author?: string;
+						date?: string;
+						files?: string[];
+					},
+				}))
+				.filter(
+					({ meta }) =>
+						meta.hash &&
+						(!pattern || (meta.files ?? []).some((f) => pattern.test(f))),
+				);
+
+			if (commits.length === 0) return [];
+
+			// Normalize scores to [0, 1] by dividing by max score
+			const maxScore = Math.max(...commits.map(({ result }) => result.score));
+			const normalizer = maxScore > 0 ? maxScore : 1;
+
+			return commits.map(({ result, meta }) => {
+				const shortHash = (meta.hash as string).slice(0, 8);
+				const header = `${shortHash} ${(meta.date ?? "").slice(0, 10)} ${meta.author ?? ""}`;
+				return {
+					file: `commit:${shortHash}`,
+					startLine: 0,
+					snippet: `${header}\n${result.document.content}`.slice(0, 800),
+					score: result.score / normalizer,
+					backend: backendName,
+				};
+			});
+		} finally {
+			await indexer.close().catch(() => {});
+		}
+	}
+}
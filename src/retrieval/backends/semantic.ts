@@ -3,6 +3,7 @@
  *
  * Wraps the existing Indexer.search() (vector + BM25 hybrid) call.
  * Activated for: semantic, similarity, location
+ * Query expansion variants run keyword-only (lex) or vector-only (vec/hyde).
  */
 
 import type { Indexer } from "../../core/indexer.js";
@@ -35,6 +36,8 @@ export class SemanticBackend implements ISearchBackend {
 			const searchResults = await indexer.search(query, {
 				limit,
 				useCase: "search",
+				keywordOnly: options.retrievalMode === "keyword",
+				vectorOnly: options.retrievalMode === "vector",
 			});
 
 			if (signal.aborted) return [];
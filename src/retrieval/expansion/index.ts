@@ -0,0 +1,13 @@
+/**
+ * Query Expansion Module
+ *
+ * Rewrites queries into lex/vec/hyde variants for hybrid search.
+ */
+
+export {
+	QueryExpander,
+	createQueryExpander,
+	parseQueryExpansion,
+	type QueryExpansion,
+	type QueryExpanderOptions,
+} from "./query-expander.js";
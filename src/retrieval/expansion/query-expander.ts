@@ -0,0 +1,232 @@
+/**
+ * Query Expander
+ *
+ * Uses an LLM (any configured provider, including local models) to
+ * rewrite a search query into typed variants:
+ * - lex: keywords, searched with BM25
+ * - vec: natural language rephrasings, searched with vectors
+ * - hyde: hypothetical code that would answer the query, searched with vectors
+ *
+ * Expansions are cached per query. Each call waits at most the latency
+ * budget; a slow expansion keeps running in the background and is cached
+ * for the next time the query is seen.
+ */
+
+import type { ILLMClient, LLMMessage } from "../../types.js";
+import { QUERY_EXPANSION_PROMPT } from "../prompts.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QueryExpansion {
+	/** Keyword variants for BM25 */
+	lex: string[];
+	/** Natural language rephrasings for vector search */
+	vec: string[];
+	/** Hypothetical code snippets for vector search */
+	hyde: string[];
+}
+
+export interface QueryExpanderOptions {
+	/** Maximum time to wait for an expansion per query (default: 800ms) */
+	budgetMs?: number;
+	/** Maximum cached expansions (default: 500) */
+	cacheSize?: number;
+	/** How long cached expansions stay valid (default: 1 hour) */
+	cacheTtlMs?: number;
+}
+
+interface CachedExpansion {
+	expansion: QueryExpansion | null;
+	expiresAt: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const VARIANT_PREFIXES = ["lex", "vec", "hyde"] as const;
+
+/** Reasoning models wrap their thinking in these tags */
+const THINK_BLOCK = /<think>[\s\S]*?<\/think>/gi;
+
+// ============================================================================
+// Query Expander Class
+// ============================================================================
+
+export class QueryExpander {
+	private llmClient: ILLMClient;
+	private options: Required<QueryExpanderOptions>;
+	private cache = new Map<string, CachedExpansion>();
+	private pending = new Map<string, Promise<QueryExpansion | null>>();
+
+	constructor(llmClient: ILLMClient, options: QueryExpanderOptions = {}) {
+		this.llmClient = llmClient;
+		this.options = {
+			budgetMs: options.budgetMs ?? 800,
+			cacheSize: options.cacheSize ?? 500,
+			cacheTtlMs: options.cacheTtlMs ?? 60 * 60 * 1000,
+		};
+	}
+
+	/**
+	 * Expand a query, or return null when the LLM produced nothing usable
+	 * or the expansion did not arrive within the latency budget.
+	 */
+	async expand(
+		query: string,
+		budgetMs = this.options.budgetMs,
+	): Promise<QueryExpansion | null> {
+		const key = cacheKey(query);
+
+		const cached = this.cache.get(key);
+		if (cached && cached.expiresAt > Date.now()) {
+			// Refresh LRU position
+			this.cache.delete(key);
+			this.cache.set(key, cached);
+			return cached.expansion;
+		}
+
+		let request = this.pending.get(key);
+		if (!request) {
+			request = this.request(query).finally(() => this.pending.delete(key));
+			this.pending.set(key, request);
+		}
+
+		return withBudget(request, budgetMs);
+	}
+
+	/**
+	 * Number of cached expansions
+	 */
+	get cacheSize(): number {
+		return this.cache.size;
+	}
+
+	/**
+	 * Call the LLM and cache the parsed expansion. Failures resolve to null
+	 * and are not cached, so the query is retried next time.
+	 */
+	private async request(query: string): Promise<QueryExpansion | null> {
+		const messages: LLMMessage[] = [
+			{ role: "user", content: `Query: ${query}` },
+		];
+
+		try {
+			const response = await this.llmClient.complete(messages, {
+				systemPrompt: QUERY_EXPANSION_PROMPT,
+				temperature: 0.3,
+				maxTokens: 300,
+			});
+			const expansion = parseQueryExpansion(response.content, query);
+			this.remember(cacheKey(query), expansion);
+			return expansion;
+		} catch {
+			return null;
+		}
+	}
+
+	private remember(key: string, expansion: QueryExpansion | null): void {
+		this.cache.delete(key);
+		this.cache.set(key, {
+			expansion,
+			expiresAt: Date.now() + this.options.cacheTtlMs,
+		});
+
+		// Evict least recently used
+		while (this.cache.size > this.options.cacheSize) {
+			const oldest = this.cache.keys().next().value;
+			if (oldest === undefined) break;
+			this.cache.delete(oldest);
+		}
+	}
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse `lex:` / `vec:` / `hyde:` lines from LLM output. Lines that
+ * follow a `hyde:` line without a prefix continue its snippet. Variants
+ * identical to the original query are dropped; returns null when nothing
+ * is left.
+ */
+export function parseQueryExpansion(
+	output: string,
+	query: string,
+): QueryExpansion | null {
+	const expansion: QueryExpansion = { lex: [], vec: [], hyde: [] };
+	let current: (typeof VARIANT_PREFIXES)[number] | null = null;
+
+	for (const rawLine of output.replace(THINK_BLOCK, "").split("\n")) {
+		// Tolerate list markers and bold prefixes ("- **lex:** ...")
+		const line = rawLine.replace(/^\s*(?:[-*]\s+)?(?:\*\*)?/, "");
+		const match = line.match(/^(lex|vec|hyde)(?:\*\*)?\s*:(?:\*\*)?\s*(.*)$/i);
+
+		if (match) {
+			current = match[1].toLowerCase() as (typeof VARIANT_PREFIXES)[number];
+			expansion[current].push(match[2].trim());
+		} else if (
+			current === "hyde" &&
+			rawLine.trim() &&
+			!rawLine.includes("```")
+		) {
+			const snippets = expansion.hyde;
+			snippets[snippets.length - 1] += `\n${rawLine}`;
+		} else if (rawLine.trim()) {
+			current = null;
+		}
+	}
+
+	const original = cacheKey(query);
+	for (const prefix of VARIANT_PREFIXES) {
+		expansion[prefix] = [
+			...new Set(expansion[prefix].map((v) => v.trim())),
+		].filter((v) => v.length > 0 && cacheKey(v) !== original);
+	}
+
+	const total =
+		expansion.lex.length + expansion.vec.length + expansion.hyde.length;
+	return total > 0 ? expansion : null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function cacheKey(query: string): string {
+	return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Resolve to the promise's value, or null once the budget runs out */
+async function withBudget<T>(
+	promise: Promise<T | null>,
+	budgetMs: number,
+): Promise<T | null> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<null>((resolve) => {
+		timer = setTimeout(() => resolve(null), budgetMs);
+	});
+
+	try {
+		return await Promise.race([promise, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a query expander
+ */
+export function createQueryExpander(
+	llmClient: ILLMClient,
+	options?: QueryExpanderOptions,
+): QueryExpander {
+	return new QueryExpander(llmClient, options);
+}
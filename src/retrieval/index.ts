@@ -31,6 +31,17 @@ export type {
 	RetrievalStrategy,
 } from "./routing/query-router.js";
 
+// Query expansion
+export {
+	QueryExpander,
+	createQueryExpander,
+	parseQueryExpansion,
+} from "./expansion/query-expander.js";
+export type {
+	QueryExpansion,
+	QueryExpanderOptions,
+} from "./expansion/query-expander.js";
+
 // Reranking
 export { LLMReranker, createLLMReranker } from "./reranking/llm-reranker.js";
 export type {
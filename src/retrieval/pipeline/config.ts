@@ -22,6 +22,8 @@ export interface PipelineConfig {
 		semantic: boolean;
 		/** Location/glob backend (default: true) */
 		location: boolean;
+		/** Git history backend (default: true) */
+		history: boolean;
 	};
 
 	/** Minimum router confidence to activate non-semantic backends (default: 0.7) */
@@ -39,6 +41,8 @@ export interface PipelineConfig {
 		semantic: number;
 		/** Location/glob (default: 0.9) */
 		location: number;
+		/** Git history (default: 1.0) */
+		history: number;
 	};
 
 	/** Short-circuit on definitive LSP match (default: true) */
@@ -56,6 +60,19 @@ export interface PipelineConfig {
 		maxFilesToScan: number;
 	};
 
+	/** Expand natural language queries into lex/vec/hyde variants via the LLM (default: false) */
+	queryExpansion: boolean;
+
+	/** Query expansion settings */
+	expansionConfig: {
+		/** Max time to wait for an expansion per query (default: 800ms) */
+		budgetMs: number;
+		/** Cached expansions kept in memory (default: 500) */
+		cacheSize: number;
+		/** RRF weight multiplier for variant results vs. the original query (default: 0.7) */
+		variantWeight: number;
+	};
+
 	/** RRF k parameter (default: 60) */
 	rrfK: number;
 }
@@ -71,6 +88,7 @@ export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
 		treeSitter: true,
 		semantic: true,
 		location: true,
+		history: true,
 	},
 	routerMinConfidence: 0.7,
 	backendWeights: {
@@ -79,6 +97,7 @@ export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
 		treeSitter: 1.1,
 		semantic: 1.0,
 		location: 0.9,
+		history: 1.0,
 	},
 	lspShortCircuit: true,
 	semanticReranking: false,
@@ -86,6 +105,12 @@ export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
 	treeSitterConfig: {
 		maxFilesToScan: 2000,
 	},
+	queryExpansion: false,
+	expansionConfig: {
+		budgetMs: 800,
+		cacheSize: 500,
+		variantWeight: 0.7,
+	},
 	rrfK: 60,
 };
 
@@ -118,6 +143,10 @@ export function loadPipelineConfig(): PipelineConfig {
 				process.env.MNEMEX_PIPELINE_LOCATION,
 				d.backends.location,
 			),
+			history: parseBool(
+				process.env.MNEMEX_PIPELINE_HISTORY,
+				d.backends.history,
+			),
 		},
 		routerMinConfidence: parseFloatEnv(
 			process.env.MNEMEX_PIPELINE_ROUTER_CONFIDENCE,
@@ -129,6 +158,7 @@ export function loadPipelineConfig(): PipelineConfig {
 			treeSitter: d.backendWeights.treeSitter,
 			semantic: d.backendWeights.semantic,
 			location: d.backendWeights.location,
+			history: d.backendWeights.history,
 		},
 		lspShortCircuit: parseBool(
 			process.env.MNEMEX_PIPELINE_LSP_SHORT_CIRCUIT,
@@ -148,6 +178,21 @@ export function loadPipelineConfig(): PipelineConfig {
 				d.treeSitterConfig.maxFilesToScan,
 			),
 		},
+		queryExpansion: parseBool(
+			process.env.MNEMEX_PIPELINE_QUERY_EXPANSION,
+			d.queryExpansion,
+		),
+		expansionConfig: {
+			budgetMs: parseIntEnv(
+				process.env.MNEMEX_PIPELINE_EXPANSION_BUDGET_MS,
+				d.expansionConfig.budgetMs,
+			),
+			cacheSize: parseIntEnv(
+				process.env.MNEMEX_PIPELINE_EXPANSION_CACHE_SIZE,
+				d.expansionConfig.cacheSize,
+			),
+			variantWeight: d.expansionConfig.variantWeight,
+		},
 		rrfK: parseIntEnv(process.env.MNEMEX_PIPELINE_RRF_K, d.rrfK),
 	};
 }
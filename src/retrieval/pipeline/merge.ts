@@ -15,10 +15,15 @@ import type { BackendName, BackendResult, MergedResult } from "./types.js";
  * Merge results from multiple backends using Reciprocal Rank Fusion.
  *
  * Key by "file:startLine", accumulate weighted RRF scores across backends.
+ * A list may carry its own weight multiplier (query expansion variants).
  * isDefinitive override: force rrfScore = Infinity (always rank 0).
  */
 export function rrfMerge(
-	backendResults: Array<{ name: BackendName; results: BackendResult[] }>,
+	backendResults: Array<{
+		name: BackendName;
+		results: BackendResult[];
+		weight?: number;
+	}>,
 	config: Pick<PipelineConfig, "rrfK" | "backendWeights">,
 	limit: number,
 ): MergedResult[] {
@@ -31,13 +36,14 @@ export function rrfMerge(
 		"tree-sitter": config.backendWeights.treeSitter,
 		semantic: config.backendWeights.semantic,
 		location: config.backendWeights.location,
+		history: config.backendWeights.history,
 	};
 
 	// Map from "file:startLine" → MergedResult
 	const merged = new Map<string, MergedResult>();
 
-	for (const { name, results } of backendResults) {
-		const weight = weightMap[name] ?? 1.0;
+	for (const { name, results, weight: listWeight = 1 } of backendResults) {
+		const weight = (weightMap[name] ?? 1.0) * listWeight;
 
 		for (let rank = 0; rank < results.length; rank++) {
 			const result = results[rank];
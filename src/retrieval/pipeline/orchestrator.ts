@@ -3,9 +3,14 @@
  *
  * Routes queries to appropriate backends, fans out in parallel,
  * and merges results using Reciprocal Rank Fusion.
+ *
+ * With query expansion enabled, natural language queries are also
+ * rewritten by the LLM; lex variants go to BM25 and vec/hyde variants to
+ * vector search, and their results join the same RRF merge.
  */
 
-import type { QueryIntent } from "../../types.js";
+import type { QueryClassification, QueryIntent } from "../../types.js";
+import type { QueryExpander } from "../expansion/query-expander.js";
 import type { QueryRouter } from "../routing/query-router.js";
 import type { PipelineConfig } from "./config.js";
 import { rrfMerge } from "./merge.js";
@@ -14,6 +19,7 @@ import type {
 	BackendResult,
 	ISearchBackend,
 	MergedResult,
+	RetrievalMode,
 	SearchOptions,
 } from "./types.js";
 
@@ -28,8 +34,19 @@ const INTENT_BACKENDS: Record<QueryIntent, BackendName[]> = {
 	semantic: ["semantic"],
 	similarity: ["semantic"],
 	location: ["location", "semantic"],
+	history: ["history", "semantic"],
 };
 
+/** Intents phrased in natural language, where expansion helps */
+const EXPANSION_INTENTS: QueryIntent[] = ["semantic", "similarity"];
+
+/** Results from one backend call, with an optional RRF weight multiplier */
+interface SettledResults {
+	name: BackendName;
+	results: BackendResult[];
+	weight?: number;
+}
+
 // ============================================================================
 // Orchestrator
 // ============================================================================
@@ -39,6 +56,7 @@ export class PipelineOrchestrator {
 		private router: QueryRouter,
 		private backends: ISearchBackend[],
 		private config: PipelineConfig,
+		private expander: QueryExpander | null = null,
 	) {}
 
 	async search(
@@ -67,11 +85,20 @@ export class PipelineOrchestrator {
 		const controller = new AbortController();
 		const { signal } = controller;
 
+		// Query expansion runs alongside the backends, within its latency budget
+		const variantsPromise = this.searchVariants(
+			query,
+			classification,
+			selectedBackends,
+			options,
+			signal,
+		);
+
 		// 4. LSP short-circuit logic
 		const lspBackend = selectedBackends.find((b) => b.name === "lsp");
 		const otherBackends = selectedBackends.filter((b) => b.name !== "lsp");
 
-		const settled: Array<{ name: BackendName; results: BackendResult[] }> = [];
+		const settled: SettledResults[] = [];
 
 		if (
 			lspBackend &&
@@ -158,6 +185,8 @@ export class PipelineOrchestrator {
 			}
 		}
 
+		settled.push(...(await variantsPromise));
+
 		// Abort any still-running backends (no-op if already done)
 		controller.abort();
 
@@ -172,12 +201,72 @@ export class PipelineOrchestrator {
 				.replace(/\*\*/g, ".*")
 				.replace(/\*/g, "[^/]*");
 			const regex = new RegExp(pat, "i");
-			return merged.filter((r) => !r.file || regex.test(r.file));
+			// History results live at virtual commit paths; the history backend
+			// already matched the pattern against each commit's changed files
+			return merged.filter(
+				(r) => !r.file || r.backends.includes("history") || regex.test(r.file),
+			);
 		}
 
 		return merged;
 	}
 
+	/**
+	 * Expand the query and run each variant through the semantic backend:
+	 * lex keywords with BM25 only, vec rephrasings and hyde snippets with
+	 * vectors only. Returns nothing when expansion is off, not useful for
+	 * the intent, or over budget.
+	 */
+	private async searchVariants(
+		query: string,
+		classification: QueryClassification,
+		selectedBackends: ISearchBackend[],
+		options: SearchOptions,
+		signal: AbortSignal,
+	): Promise<SettledResults[]> {
+		if (!this.expander || !this.config.queryExpansion) return [];
+		if (!EXPANSION_INTENTS.includes(classification.intent)) return [];
+
+		const semantic = selectedBackends.find((b) => b.name === "semantic");
+		if (!semantic) return [];
+
+		const expansion = await this.expander.expand(
+			query,
+			this.config.expansionConfig.budgetMs,
+		);
+		if (!expansion || signal.aborted) return [];
+
+		const variants: Array<{ query: string; retrievalMode: RetrievalMode }> = [
+			...expansion.lex.map((q) => ({
+				query: q,
+				retrievalMode: "keyword" as const,
+			})),
+			...[...expansion.vec, ...expansion.hyde].map((q) => ({
+				query: q,
+				retrievalMode: "vector" as const,
+			})),
+		];
+
+		const settled = await Promise.allSettled(
+			variants.map((v) =>
+				semantic.search(
+					v.query,
+					classification,
+					{ ...options, retrievalMode: v.retrievalMode },
+					signal,
+				),
+			),
+		);
+
+		return settled
+			.filter((s) => s.status === "fulfilled")
+			.map((s) => ({
+				name: semantic.name,
+				results: (s as PromiseFulfilledResult<BackendResult[]>).value,
+				weight: this.config.expansionConfig.variantWeight,
+			}));
+	}
+
 	private isBackendEnabled(name: BackendName): boolean {
 		switch (name) {
 			case "symbol-graph":
@@ -190,6 +279,8 @@ export class PipelineOrchestrator {
 				return this.config.backends.semantic;
 			case "location":
 				return this.config.backends.location;
+			case "history":
+				return this.config.backends.history;
 			default:
 				return false;
 		}
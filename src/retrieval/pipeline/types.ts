@@ -15,7 +15,8 @@ export type BackendName =
 	| "lsp"
 	| "tree-sitter"
 	| "semantic"
-	| "location";
+	| "location"
+	| "history";
 
 export interface BackendResult {
 	/** Relative file path */
@@ -45,11 +46,16 @@ export interface MergedResult extends BackendResult {
 	backends: BackendName[];
 }
 
+/** Which half of hybrid search the semantic backend runs */
+export type RetrievalMode = "hybrid" | "keyword" | "vector";
+
 export interface SearchOptions {
 	/** Maximum results to return */
 	limit?: number;
 	/** Glob pattern to filter by file path */
 	filePattern?: string;
+	/** Semantic backend retrieval mode (default: hybrid) */
+	retrievalMode?: RetrievalMode;
 }
 
 // ============================================================================
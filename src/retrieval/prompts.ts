@@ -46,27 +46,23 @@ Respond with JSON only:
 // Query Expansion
 // ============================================================================
 
-export const QUERY_EXPANSION_PROMPT = `Expand this code search query with related terms, synonyms, and alternate phrasings that might match relevant code.
-
-**Original Query:** {query}
-**Detected Language Context:** {language_hint}
-
-Generate expansions that:
-1. Include synonyms (auth → authentication, verify, validate)
-2. Include related concepts (login → session, token, credentials)
-3. Include common implementation patterns (cache → memoize, store, LRU)
-4. Include language-specific terms if applicable
-
-Respond with JSON only:
-\`\`\`json
-{
-  "original": "<original query>",
-  "synonyms": ["<direct synonyms>"],
-  "related_concepts": ["<semantically related terms>"],
-  "implementation_patterns": ["<common implementation terms>"],
-  "expanded_query": "<combined query for search>"
-}
-\`\`\``;
+/**
+ * Rewrites a query into typed variants, one per line:
+ * - lex: keywords for BM25
+ * - vec: a natural language rephrasing for vector search
+ * - hyde: a hypothetical code snippet for vector search
+ *
+ * Matches the format benchmarked in experiments/query-expansion.
+ */
+export const QUERY_EXPANSION_PROMPT = `You are a code search query expansion engine. Given a search query, expand it into three types:
+- lex: keyword variants for BM25 search (technical terms, synonyms, related identifiers)
+- vec: a natural language rephrasing for semantic vector search
+- hyde: a short hypothetical code snippet that would match this query
+
+Respond with exactly 3 lines, no other text:
+lex: ...
+vec: ...
+hyde: ...`;
 
 // ============================================================================
 // LLM Reranking
@@ -48,6 +48,7 @@ export const DEFAULT_TYPE_WEIGHTS: Record<
 		idiom: 0.15,
 		usage_example: 0.1,
 		anti_pattern: 0.05,
+		directory_summary: 0.1,
 	},
 	// Agent navigation: prioritize understanding structure
 	navigation: {
@@ -56,6 +57,7 @@ export const DEFAULT_TYPE_WEIGHTS: Record<
 		code_chunk: 0.2,
 		idiom: 0.1,
 		project_doc: 0.05,
+		directory_summary: 0.1,
 	},
 };
 
@@ -7,6 +7,7 @@
  * - semantic: Natural language queries (vector search)
  * - similarity: Find similar code patterns
  * - location: Path-based queries
+ * - history: Why/when code changed (commit history)
  */
 
 import type {
@@ -76,6 +77,9 @@ const CLASSIFICATION_PROMPT = `Classify this code search query into one of the f
 5. **location** - Looking for code in a specific location
    - Examples: "tests for payment module", "handlers in api folder", "config files"
 
+6. **history** - Asking why, when or by whom code was changed
+   - Examples: "why was the retry limit lowered", "when was caching added", "commits that touched billing"
+
 **Query:** {query}
 
 Respond with JSON only:
@@ -106,6 +110,17 @@ const CLASSIFICATION_PATTERNS: Array<{
 		],
 		confidence: 0.85,
 	},
+	{
+		// History: change rationale, authorship and commit keywords
+		intent: "history",
+		patterns: [
+			/\bwhy\s+(was|were|did)\b/i,
+			/\b(when|who)\b.*\b(added|changed|introduced|removed|modified|wrote|written)\b/i,
+			/\b(commits?|blame|git\s+(log|history))\b/i,
+			/\b(history|changes)\s+(of|to|for)\b/i,
+		],
+		confidence: 0.8,
+	},
 	{
 		// Structural: relationship keywords (must be complete words, not prefixes)
 		intent: "structural",
@@ -254,6 +269,7 @@ export class QueryRouter {
 			semantic: "semantic",
 			similarity: "similarity",
 			location: "location",
+			history: "history",
 		};
 
 		return {
@@ -0,0 +1,263 @@
+/**
+ * Editor protocol (JSON-RPC 2.0 over JSONL)
+ *
+ * One JSON object per line over stdin/stdout, served by
+ * `mnemex serve --jsonrpc`. Editor clients use this instead of scraping
+ * CLI output. Result shapes are part of the protocol: additive changes
+ * keep PROTOCOL_VERSION, anything else bumps it.
+ */
+
+/** Version of the method set and result shapes below */
+export const PROTOCOL_VERSION = 1;
+
+export const JSONRPC_VERSION = "2.0";
+
+export type RpcMethod =
+	| "initialize"
+	| "search"
+	| "symbol"
+	| "callers"
+	| "callees"
+	| "context"
+	| "impact"
+	| "deadCode"
+	| "testGaps"
+	| "map"
+	| "status"
+	| "index"
+	| "cancel"
+	| "shutdown";
+
+export const RPC_METHODS: readonly RpcMethod[] = [
+	"initialize",
+	"search",
+	"symbol",
+	"callers",
+	"callees",
+	"context",
+	"impact",
+	"deadCode",
+	"testGaps",
+	"map",
+	"status",
+	"index",
+	"cancel",
+	"shutdown",
+];
+
+/** Server → client notifications */
+export type RpcNotificationMethod = "index/progress";
+
+/** JSON-RPC error codes (standard range plus mnemex-specific ones) */
+export const RPC_ERROR_CODES = {
+	parseError: -32700,
+	invalidRequest: -32600,
+	methodNotFound: -32601,
+	invalidParams: -32602,
+	internalError: -32603,
+	/** Same code as LSP's RequestCancelled */
+	requestCancelled: -32800,
+	/** The project has no index yet */
+	noIndex: -32001,
+	/** The requested symbol is not in the index */
+	symbolNotFound: -32002,
+} as const;
+
+export type RpcErrorCode =
+	(typeof RPC_ERROR_CODES)[keyof typeof RPC_ERROR_CODES];
+
+// ============================================================================
+// Params
+// ============================================================================
+
+export interface RpcInitializeParams {
+	/** Highest protocol version the client understands */
+	protocolVersion?: number;
+	clientName?: string;
+}
+
+export interface RpcSearchParams {
+	query: string;
+	limit?: number;
+	language?: string;
+	keywordOnly?: boolean;
+}
+
+export interface RpcSymbolParams {
+	name: string;
+	/** Prefer the definition in this file when the name is ambiguous */
+	file?: string;
+}
+
+export interface RpcContextParams extends RpcSymbolParams {
+	maxCallers?: number;
+	maxCallees?: number;
+}
+
+export interface RpcDeadCodeParams {
+	maxPageRank?: number;
+	includeExported?: boolean;
+	limit?: number;
+}
+
+export interface RpcTestGapsParams {
+	minPageRank?: number;
+	limit?: number;
+}
+
+export interface RpcMapParams {
+	maxTokens?: number;
+	/** Only include files matching this glob */
+	pathPattern?: string;
+}
+
+export interface RpcIndexParams {
+	/** Re-index every file instead of only changed ones */
+	force?: boolean;
+}
+
+export interface RpcCancelParams {
+	/** ID of the in-flight request to cancel */
+	id: string | number;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+export interface RpcInitializeResult {
+	protocolVersion: number;
+	serverVersion: string;
+	projectPath: string;
+	methods: readonly RpcMethod[];
+}
+
+export interface RpcSearchResult {
+	file: string;
+	line: number;
+	endLine: number;
+	score: number;
+	type: string;
+	name: string;
+	summary?: string;
+}
+
+/** A symbol as listed by callers, callees, context and impact */
+export interface RpcSymbolRef {
+	name: string;
+	file: string;
+	line: number;
+	kind: string;
+}
+
+export interface RpcSymbolInfo {
+	name: string;
+	file: string;
+	line: number;
+	endLine: number;
+	kind: string;
+	exported: boolean;
+	pagerank: number;
+	signature?: string;
+}
+
+export interface RpcCallersResult {
+	symbol: string;
+	callers: RpcSymbolRef[];
+}
+
+export interface RpcCalleesResult {
+	symbol: string;
+	callees: RpcSymbolRef[];
+}
+
+export interface RpcContextResult {
+	symbol: string;
+	file: string;
+	line: number;
+	kind: string;
+	callers: RpcSymbolRef[];
+	callees: RpcSymbolRef[];
+}
+
+export interface RpcImpactResult {
+	symbol: string;
+	affected: RpcSymbolRef[];
+}
+
+export interface RpcDeadCodeResult {
+	name: string;
+	file: string;
+	line: number;
+	kind: string;
+	pagerank: number;
+}
+
+export interface RpcTestGapResult extends RpcDeadCodeResult {
+	/** Number of (non-test) callers */
+	callers: number;
+}
+
+export interface RpcMapEntry {
+	filePath: string;
+	symbols: Array<{ name: string; kind: string; line: number; rank: number }>;
+}
+
+export interface RpcStatusResult {
+	exists: boolean;
+	files?: number;
+	chunks?: number;
+	languages?: string[];
+	model?: string;
+	/** ISO timestamp */
+	lastUpdated?: string;
+	branch?: string;
+}
+
+export interface RpcIndexResult {
+	filesIndexed: number;
+	chunksCreated: number;
+	durationMs: number;
+	errors: number;
+}
+
+/** Params of the `index/progress` notification */
+export interface RpcIndexProgressParams {
+	/** ID of the `index` request reporting progress */
+	id: string | number;
+	current: number;
+	total: number;
+	/** Phase and file being processed, e.g. "[embedding] src/cli.ts" */
+	detail: string;
+}
+
+// ============================================================================
+// Envelopes
+// ============================================================================
+
+export interface RpcRequest {
+	jsonrpc: typeof JSONRPC_VERSION;
+	id: string | number;
+	method: RpcMethod;
+	params?: unknown;
+}
+
+export interface RpcSuccessResponse {
+	jsonrpc: typeof JSONRPC_VERSION;
+	id: string | number;
+	result: unknown;
+}
+
+export interface RpcErrorResponse {
+	jsonrpc: typeof JSONRPC_VERSION;
+	id: string | number | null;
+	error: { code: RpcErrorCode; message: string };
+}
+
+export type RpcResponse = RpcSuccessResponse | RpcErrorResponse;
+
+export interface RpcNotification {
+	jsonrpc: typeof JSONRPC_VERSION;
+	method: RpcNotificationMethod;
+	params: RpcIndexProgressParams;
+}
@@ -0,0 +1,641 @@
+/**
+ * Editor protocol server (`mnemex serve --jsonrpc`)
+ *
+ * Long-lived process answering the requests in ./protocol.ts for one
+ * project. Symbol queries open the index per request so they always see
+ * the latest `index` run; the search indexer is kept warm between requests.
+ */
+
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import readline from "node:readline";
+import { getIndexDbPath } from "../config.js";
+import { createCodeAnalyzer } from "../core/analysis/index.js";
+import { type Indexer, createIndexer } from "../core/indexer.js";
+import { createReferenceGraphManager } from "../core/reference-graph.js";
+import { createRepoMapGenerator } from "../core/repo-map.js";
+import { FileTracker } from "../core/tracker.js";
+import type { SearchResult, SymbolDefinition } from "../types.js";
+import {
+	JSONRPC_VERSION,
+	PROTOCOL_VERSION,
+	RPC_ERROR_CODES,
+	RPC_METHODS,
+	type RpcCalleesResult,
+	type RpcCallersResult,
+	type RpcCancelParams,
+	type RpcContextParams,
+	type RpcContextResult,
+	type RpcDeadCodeParams,
+	type RpcDeadCodeResult,
+	type RpcErrorCode,
+	type RpcImpactResult,
+	type RpcIndexParams,
+	type RpcIndexResult,
+	type RpcInitializeResult,
+	type RpcMapEntry,
+	type RpcMapParams,
+	type RpcNotification,
+	type RpcRequest,
+	type RpcResponse,
+	type RpcSearchParams,
+	type RpcSearchResult,
+	type RpcStatusResult,
+	type RpcSymbolInfo,
+	type RpcSymbolParams,
+	type RpcSymbolRef,
+	type RpcTestGapResult,
+	type RpcTestGapsParams,
+} from "./protocol.js";
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class RpcError extends Error {
+	constructor(
+		public readonly code: RpcErrorCode,
+		message: string,
+	) {
+		super(message);
+		this.name = "RpcError";
+	}
+}
+
+// ============================================================================
+// Result Mapping
+// ============================================================================
+
+export function toSymbolRef(symbol: SymbolDefinition): RpcSymbolRef {
+	return {
+		name: symbol.name,
+		file: symbol.filePath,
+		line: symbol.startLine,
+		kind: symbol.kind,
+	};
+}
+
+export function toSymbolInfo(symbol: SymbolDefinition): RpcSymbolInfo {
+	return {
+		...toSymbolRef(symbol),
+		endLine: symbol.endLine,
+		exported: symbol.isExported,
+		pagerank: symbol.pagerankScore,
+		...(symbol.signature ? { signature: symbol.signature } : {}),
+	};
+}
+
+export function toSearchResult(result: SearchResult): RpcSearchResult {
+	return {
+		file: result.chunk.filePath,
+		line: result.chunk.startLine,
+		endLine: result.chunk.endLine,
+		score: result.score,
+		type: result.chunk.chunkType,
+		name: result.chunk.name ?? "",
+		...(result.summary ? { summary: result.summary } : {}),
+	};
+}
+
+function requireName(params: unknown): RpcSymbolParams {
+	const p = (params ?? {}) as Partial<RpcSymbolParams>;
+	if (typeof p.name !== "string" || !p.name) {
+		throw new RpcError(RPC_ERROR_CODES.invalidParams, "Missing symbol name");
+	}
+	return { name: p.name, file: p.file };
+}
+
+// ============================================================================
+// Request Handler
+// ============================================================================
+
+export interface RpcHandlerOptions {
+	/** mnemex version reported by initialize */
+	serverVersion?: string;
+	/** Sends a notification to the client */
+	notify?: (notification: RpcNotification) => void;
+}
+
+/** Warm indexer serving searches, with the searches it is running */
+interface SearchIndexerSlot {
+	indexer: Indexer;
+	searches: number;
+	/** Replaced; closed once its last search settles */
+	retired: boolean;
+}
+
+export class RpcHandler {
+	private projectPath: string;
+	private serverVersion: string;
+	private notify: (notification: RpcNotification) => void;
+	private searchIndexer: SearchIndexerSlot | null = null;
+	/** Requests in flight, so cancel can tell late results to be dropped */
+	private pending = new Set<string | number>();
+	private cancelled = new Set<string | number>();
+
+	constructor(projectPath: string, options: RpcHandlerOptions = {}) {
+		this.projectPath = resolve(projectPath);
+		this.serverVersion = options.serverVersion ?? "unknown";
+		this.notify = options.notify ?? (() => {});
+	}
+
+	/**
+	 * Handle one request. A cancelled request still runs to completion
+	 * (the index and search calls are not interruptible) but answers with
+	 * requestCancelled instead of its result.
+	 */
+	async handle(request: RpcRequest): Promise<RpcResponse> {
+		const { id } = request;
+		this.pending.add(id);
+		try {
+			const result = await this.dispatch(request);
+			if (this.cancelled.has(id)) {
+				return this.error(
+					id,
+					RPC_ERROR_CODES.requestCancelled,
+					"Request cancelled",
+				);
+			}
+			return { jsonrpc: JSONRPC_VERSION, id, result };
+		} catch (error) {
+			if (error instanceof RpcError) {
+				return this.error(id, error.code, error.message);
+			}
+			const message = error instanceof Error ? error.message : String(error);
+			return this.error(id, RPC_ERROR_CODES.internalError, message);
+		} finally {
+			this.pending.delete(id);
+			this.cancelled.delete(id);
+		}
+	}
+
+	/**
+	 * Release the warm search indexer. Searches still running on it finish
+	 * first; the next search opens a fresh one.
+	 */
+	async close(): Promise<void> {
+		const slot = this.searchIndexer;
+		this.searchIndexer = null;
+		if (!slot) return;
+
+		slot.retired = true;
+		if (slot.searches === 0) {
+			await slot.indexer.close();
+		}
+	}
+
+	private acquireSearchIndexer(): SearchIndexerSlot {
+		if (!this.searchIndexer) {
+			this.searchIndexer = {
+				indexer: createIndexer({ projectPath: this.projectPath }),
+				searches: 0,
+				retired: false,
+			};
+		}
+		this.searchIndexer.searches++;
+		return this.searchIndexer;
+	}
+
+	private async releaseSearchIndexer(slot: SearchIndexerSlot): Promise<void> {
+		slot.searches--;
+		if (slot.retired && slot.searches === 0) {
+			await slot.indexer.close();
+		}
+	}
+
+	private error(
+		id: string | number,
+		code: RpcErrorCode,
+		message: string,
+	): RpcResponse {
+		return { jsonrpc: JSONRPC_VERSION, id, error: { code, message } };
+	}
+
+	private async dispatch(request: RpcRequest): Promise<unknown> {
+		const params = request.params;
+		switch (request.method) {
+			case "initialize":
+				return this.initialize();
+			case "search":
+				return this.search(params as RpcSearchParams);
+			case "symbol":
+				return this.symbol(requireName(params));
+			case "callers":
+				return this.callers(requireName(params));
+			case "callees":
+				return this.callees(requireName(params));
+			case "context":
+				return this.context({
+					...(params as RpcContextParams),
+					...requireName(params),
+				});
+			case "impact":
+				return this.impact(requireName(params));
+			case "deadCode":
+				return this.deadCode((params ?? {}) as RpcDeadCodeParams);
+			case "testGaps":
+				return this.testGaps((params ?? {}) as RpcTestGapsParams);
+			case "map":
+				return this.map((params ?? {}) as RpcMapParams);
+			case "status":
+				return this.status();
+			case "index":
+				return this.index(request.id, (params ?? {}) as RpcIndexParams);
+			case "cancel":
+				return this.cancel(params as RpcCancelParams);
+			case "shutdown":
+				await this.close();
+				return { ok: true };
+			default:
+				throw new RpcError(
+					RPC_ERROR_CODES.methodNotFound,
+					`Unknown method: ${String(request.method)}`,
+				);
+		}
+	}
+
+	// ========================================================================
+	// Methods
+	// ========================================================================
+
+	private initialize(): RpcInitializeResult {
+		return {
+			protocolVersion: PROTOCOL_VERSION,
+			serverVersion: this.serverVersion,
+			projectPath: this.projectPath,
+			methods: RPC_METHODS,
+		};
+	}
+
+	private async search(params: RpcSearchParams): Promise<RpcSearchResult[]> {
+		if (!params || typeof params.query !== "string" || !params.query.trim()) {
+			throw new RpcError(RPC_ERROR_CODES.invalidParams, "Missing query");
+		}
+		this.requireIndex();
+
+		const slot = this.acquireSearchIndexer();
+		let results: SearchResult[];
+		try {
+			results = await slot.indexer.search(params.query, {
+				limit: params.limit ?? 10,
+				language: params.language,
+				keywordOnly: params.keywordOnly,
+			});
+		} finally {
+			await this.releaseSearchIndexer(slot);
+		}
+
+		// Observations have no code location to open in an editor
+		return results
+			.filter((r) => r.documentType !== "session_observation")
+			.map(toSearchResult);
+	}
+
+	private symbol(params: RpcSymbolParams): RpcSymbolInfo {
+		return this.withTracker((tracker) => {
+			const symbol = this.findSymbol(tracker, params);
+			return toSymbolInfo(symbol);
+		});
+	}
+
+	private callers(params: RpcSymbolParams): RpcCallersResult {
+		return this.withTracker((tracker) => {
+			const symbol = this.findSymbol(tracker, params);
+			const callers = createReferenceGraphManager(tracker).getCallers(
+				symbol.id,
+			);
+			return { symbol: symbol.name, callers: callers.map(toSymbolRef) };
+		});
+	}
+
+	private callees(params: RpcSymbolParams): RpcCalleesResult {
+		return this.withTracker((tracker) => {
+			const symbol = this.findSymbol(tracker, params);
+			const callees = createReferenceGraphManager(tracker).getCallees(
+				symbol.id,
+			);
+			return { symbol: symbol.name, callees: callees.map(toSymbolRef) };
+		});
+	}
+
+	private context(params: RpcContextParams): RpcContextResult {
+		return this.withTracker((tracker) => {
+			const symbol = this.findSymbol(tracker, params);
+			const context = createReferenceGraphManager(tracker).getSymbolContext(
+				symbol.id,
+				{
+					includeCallers: true,
+					includeCallees: true,
+					maxCallers: params.maxCallers ?? 10,
+					maxCallees: params.maxCallees ?? 15,
+				},
+			);
+			return {
+				symbol: symbol.name,
+				file: symbol.filePath,
+				line: symbol.startLine,
+				kind: symbol.kind,
+				callers: context.callers.map(toSymbolRef),
+				callees: context.callees.map(toSymbolRef),
+			};
+		});
+	}
+
+	private impact(params: RpcSymbolParams): RpcImpactResult {
+		return this.withTracker((tracker) => {
+			const analyzer = createCodeAnalyzer(tracker, this.projectPath);
+			const symbol = analyzer.findSymbolForImpact(params.name, params.file);
+			if (!symbol) {
+				throw new RpcError(
+					RPC_ERROR_CODES.symbolNotFound,
+					`Symbol '${params.name}' not found`,
+				);
+			}
+			const impact = analyzer.findImpact(symbol.id, {
+				maxDepth: 10,
+				includeTestFiles: true,
+				groupByFile: true,
+			});
+			return {
+				symbol: symbol.name,
+				affected: (impact?.transitiveCallers ?? []).map((r) =>
+					toSymbolRef(r.symbol),
+				),
+			};
+		});
+	}
+
+	private deadCode(params: RpcDeadCodeParams): RpcDeadCodeResult[] {
+		return this.withTracker((tracker) =>
+			createCodeAnalyzer(tracker, this.projectPath)
+				.findDeadCode({
+					maxPageRank: params.maxPageRank ?? 0.001,
+					unexportedOnly: !params.includeExported,
+					excludeTestFiles: true,
+					limit: params.limit ?? 50,
+				})
+				.map(({ symbol }) => ({
+					...toSymbolRef(symbol),
+					pagerank: symbol.pagerankScore,
+				})),
+		);
+	}
+
+	private testGaps(params: RpcTestGapsParams): RpcTestGapResult[] {
+		return this.withTracker((tracker) =>
+			createCodeAnalyzer(tracker, this.projectPath)
+				.findTestGaps({
+					minPageRank: params.minPageRank ?? 0.01,
+					limit: params.limit ?? 30,
+				})
+				.map(({ symbol, callerCount }) => ({
+					...toSymbolRef(symbol),
+					pagerank: symbol.pagerankScore,
+					callers: callerCount,
+				})),
+		);
+	}
+
+	private map(params: RpcMapParams): RpcMapEntry[] {
+		return this.withTracker((tracker) =>
+			createRepoMapGenerator(tracker)
+				.generateStructured({
+					maxTokens: params.maxTokens ?? 2000,
+					pathPattern: params.pathPattern,
+				})
+				.map((entry) => ({
+					filePath: entry.filePath,
+					symbols: entry.symbols.map((s) => ({
+						name: s.name,
+						kind: s.kind,
+						line: s.line,
+						rank: s.pagerankScore,
+					})),
+				})),
+		);
+	}
+
+	private async status(): Promise<RpcStatusResult> {
+		const indexer = createIndexer({ projectPath: this.projectPath });
+		try {
+			const status = await indexer.getStatus();
+			if (!status.exists) {
+				return { exists: false };
+			}
+			return {
+				exists: true,
+				files: status.totalFiles,
+				chunks: status.totalChunks,
+				languages: status.languages,
+				model: status.embeddingModel,
+				lastUpdated: status.lastUpdated?.toISOString(),
+				branch: status.branch,
+			};
+		} finally {
+			await indexer.close();
+		}
+	}
+
+	private async index(
+		id: string | number,
+		params: RpcIndexParams,
+	): Promise<RpcIndexResult> {
+		const indexer = createIndexer({
+			projectPath: this.projectPath,
+			onProgress: (current, total, detail) => {
+				if (this.cancelled.has(id)) return;
+				this.notify({
+					jsonrpc: JSONRPC_VERSION,
+					method: "index/progress",
+					params: { id, current, total, detail },
+				});
+			},
+		});
+
+		try {
+			const result = await indexer.index(params.force ?? false);
+			return {
+				filesIndexed: result.filesIndexed,
+				chunksCreated: result.chunksCreated,
+				durationMs: result.durationMs,
+				errors: result.errors.length,
+			};
+		} finally {
+			await indexer.close();
+			// The warm search indexer may hold stale table handles: later
+			// searches get a fresh one, running ones finish on the old one
+			await this.close();
+		}
+	}
+
+	private cancel(params: RpcCancelParams): { ok: true; cancelled: boolean } {
+		if (params?.id === undefined) {
+			throw new RpcError(RPC_ERROR_CODES.invalidParams, "Missing request id");
+		}
+		const inFlight = this.pending.has(params.id);
+		if (inFlight) {
+			this.cancelled.add(params.id);
+		}
+		return { ok: true, cancelled: inFlight };
+	}
+
+	// ========================================================================
+	// Helpers
+	// ========================================================================
+
+	private requireIndex(): string {
+		const dbPath = getIndexDbPath(this.projectPath);
+		if (!existsSync(dbPath)) {
+			throw new RpcError(
+				RPC_ERROR_CODES.noIndex,
+				"No index found. Run 'mnemex index' first.",
+			);
+		}
+		return dbPath;
+	}
+
+	private withTracker<T>(fn: (tracker: FileTracker) => T): T {
+		const tracker = new FileTracker(this.requireIndex(), this.projectPath);
+		try {
+			return fn(tracker);
+		} finally {
+			tracker.close();
+		}
+	}
+
+	private findSymbol(
+		tracker: FileTracker,
+		params: RpcSymbolParams,
+	): SymbolDefinition {
+		const symbol = createReferenceGraphManager(tracker).findSymbol(
+			params.name,
+			{ preferExported: true, fileHint: params.file },
+		);
+		if (!symbol) {
+			throw new RpcError(
+				RPC_ERROR_CODES.symbolNotFound,
+				`Symbol '${params.name}' not found`,
+			);
+		}
+		return symbol;
+	}
+}
+
+export function createRpcHandler(
+	projectPath: string,
+	options: RpcHandlerOptions = {},
+): RpcHandler {
+	return new RpcHandler(projectPath, options);
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+function write(message: RpcResponse | RpcNotification): void {
+	process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+/**
+ * Send console.log/info/debug to stderr, so logging of the indexer and
+ * other shared code cannot corrupt the protocol stream on stdout
+ *
+ * @returns Restores the console
+ */
+export function redirectConsoleToStderr(): () => void {
+	const { log, info, debug } = console;
+	const toStderr = (...args: unknown[]) => console.error(...args);
+	console.log = toStderr;
+	console.info = toStderr;
+	console.debug = toStderr;
+	return () => {
+		console.log = log;
+		console.info = info;
+		console.debug = debug;
+	};
+}
+
+/**
+ * Parse one input line. Returns the request, or an error response for lines
+ * that are not valid JSON-RPC requests.
+ */
+export function parseRequest(line: string): RpcRequest | RpcResponse {
+	let message: Partial<RpcRequest> | null;
+	try {
+		message = JSON.parse(line) as Partial<RpcRequest> | null;
+	} catch {
+		return {
+			jsonrpc: JSONRPC_VERSION,
+			id: null,
+			error: { code: RPC_ERROR_CODES.parseError, message: "Parse error" },
+		};
+	}
+
+	const hasId =
+		typeof message?.id === "string" || typeof message?.id === "number";
+	if (
+		!message ||
+		message.jsonrpc !== JSONRPC_VERSION ||
+		typeof message.method !== "string" ||
+		!hasId
+	) {
+		return {
+			jsonrpc: JSONRPC_VERSION,
+			id: hasId ? (message?.id as string | number) : null,
+			error: {
+				code: RPC_ERROR_CODES.invalidRequest,
+				message: "Invalid request: expected jsonrpc 2.0 with id and method",
+			},
+		};
+	}
+	return message as RpcRequest;
+}
+
+export async function startJsonRpcServer(
+	args: { projectPath?: string; serverVersion?: string } = {},
+): Promise<void> {
+	const projectPath = resolve(args.projectPath || process.cwd());
+	const restoreConsole = redirectConsoleToStderr();
+	const handler = createRpcHandler(projectPath, {
+		serverVersion: args.serverVersion,
+		notify: write,
+	});
+
+	const rl = readline.createInterface({
+		input: process.stdin,
+		crlfDelay: Number.POSITIVE_INFINITY,
+	});
+
+	// Requests are answered as they finish, so a slow index run does not
+	// block symbol queries; close waits for the ones still running
+	const inFlight = new Set<Promise<void>>();
+
+	rl.on("line", (line) => {
+		if (!line.trim()) return;
+
+		const request = parseRequest(line);
+		if (!("method" in request)) {
+			write(request);
+			return;
+		}
+
+		const done = handler.handle(request).then((response) => {
+			write(response);
+			inFlight.delete(done);
+			if (request.method === "shutdown") {
+				rl.close();
+			}
+		});
+		inFlight.add(done);
+	});
+
+	rl.on("close", async () => {
+		await Promise.allSettled(inFlight);
+		await handler.close();
+		restoreConsole();
+		process.exit(0);
+	});
+
+	process.on("SIGTERM", () => rl.close());
+	process.on("SIGINT", () => rl.close());
+}
@@ -1,12 +1,17 @@
 /**
  * HTTP client for the /v1/keys API endpoints.
- * All requests use the master key via Authorization: Bearer header.
+ * All requests use the master key (or an org admin key) via
+ * Authorization: Bearer header.
  */
 
 // ============================================================================
 // Types
 // ============================================================================
 
+export type ApiKeyRole = "search" | "uploader" | "admin";
+
+export const API_KEY_ROLES: ApiKeyRole[] = ["search", "uploader", "admin"];
+
 export interface ApiKey {
 	id: number;
 	name: string;
@@ -14,12 +19,51 @@ export interface ApiKey {
 	createdAt: string;
 	lastUsedAt: string | null;
 	isActive: boolean;
+	/** Org the key is scoped to (null = unscoped legacy key) */
+	orgSlug: string | null;
+	/** Repos the key may access (null = every repo in the org) */
+	repoSlugs: string[] | null;
+	role: ApiKeyRole;
+	rateLimitPerMinute: number | null;
+	dailyQuota: number | null;
 	usage: {
 		total: number;
 		byEndpoint: Record<string, number>;
 	};
 }
 
+/** Role, repo scope and limits — null clears a scope or limit */
+export interface ApiKeySettings {
+	role?: ApiKeyRole;
+	repoSlugs?: string[] | null;
+	rateLimitPerMinute?: number | null;
+	dailyQuota?: number | null;
+}
+
+export interface CreateApiKeyInput extends ApiKeySettings {
+	name: string;
+	/** Defaults to the admin key's own org when omitted */
+	orgSlug?: string;
+}
+
+export interface UpdateApiKeyInput extends ApiKeySettings {
+	name?: string;
+	isActive?: boolean;
+}
+
+export interface ApiKeyAudit {
+	key: Omit<ApiKey, "usage">;
+	window: {
+		minuteCount: number;
+		dayCount: number;
+		rateLimitPerMinute: number | null;
+		dailyQuota: number | null;
+	};
+	/** Requests per HTTP status over the last 24 hours */
+	statusCounts: Record<string, number>;
+	recent: { endpoint: string; statusCode: number; createdAt: string }[];
+}
+
 // ============================================================================
 // Client
 // ============================================================================
@@ -38,37 +82,41 @@ export class AdminApiClient {
 		};
 	}
 
+	/** Turn an error response into an Error with the most specific message */
+	private async fail(res: Response): Promise<never> {
+		const body = (await res.json().catch(() => ({}))) as {
+			error?: string;
+			field?: string;
+			reason?: string;
+			requiredRole?: string;
+		};
+		const detail = body.field ?? body.reason ?? body.requiredRole;
+		throw new Error(
+			detail
+				? `${body.error}: ${detail}`
+				: (body.error ?? `HTTP ${res.status}`),
+		);
+	}
+
 	async listKeys(): Promise<ApiKey[]> {
 		const res = await fetch(`${this.endpoint}/v1/keys`, {
 			method: "GET",
 			headers: this.headers(),
 		});
-		if (!res.ok) {
-			const body = (await res.json().catch(() => ({}))) as {
-				error?: string;
-			};
-			throw new Error(body.error ?? `HTTP ${res.status}`);
-		}
+		if (!res.ok) return this.fail(res);
 		const body = (await res.json()) as { keys: ApiKey[] };
 		return body.keys;
 	}
 
-	async createKey(name: string): Promise<{ key: ApiKey; secret: string }> {
+	async createKey(
+		input: CreateApiKeyInput,
+	): Promise<{ key: ApiKey; secret: string }> {
 		const res = await fetch(`${this.endpoint}/v1/keys`, {
 			method: "POST",
 			headers: this.headers(),
-			body: JSON.stringify({ name }),
+			body: JSON.stringify(input),
 		});
-		if (!res.ok) {
-			const body = (await res.json().catch(() => ({}))) as {
-				error?: string;
-				field?: string;
-			};
-			const msg = body.field
-				? `${body.error}: ${body.field}`
-				: (body.error ?? `HTTP ${res.status}`);
-			throw new Error(msg);
-		}
+		if (!res.ok) return this.fail(res);
 		const body = (await res.json()) as {
 			ok: boolean;
 			key: ApiKey;
@@ -77,16 +125,40 @@ export class AdminApiClient {
 		return { key: body.key, secret: body.secret };
 	}
 
+	async updateKey(
+		id: number,
+		input: UpdateApiKeyInput,
+	): Promise<Omit<ApiKey, "usage">> {
+		const res = await fetch(`${this.endpoint}/v1/keys/${id}`, {
+			method: "PATCH",
+			headers: this.headers(),
+			body: JSON.stringify(input),
+		});
+		if (!res.ok) return this.fail(res);
+		const body = (await res.json()) as {
+			ok: boolean;
+			key: Omit<ApiKey, "usage">;
+		};
+		return body.key;
+	}
+
+	async getKeyUsage(id: number, limit = 50): Promise<ApiKeyAudit> {
+		const res = await fetch(
+			`${this.endpoint}/v1/keys/${id}/usage?limit=${limit}`,
+			{
+				method: "GET",
+				headers: this.headers(),
+			},
+		);
+		if (!res.ok) return this.fail(res);
+		return (await res.json()) as ApiKeyAudit;
+	}
+
 	async deleteKey(id: number): Promise<void> {
 		const res = await fetch(`${this.endpoint}/v1/keys/${id}`, {
 			method: "DELETE",
 			headers: this.headers(),
 		});
-		if (!res.ok) {
-			const body = (await res.json().catch(() => ({}))) as {
-				error?: string;
-			};
-			throw new Error(body.error ?? `HTTP ${res.status}`);
-		}
+		if (!res.ok) return this.fail(res);
 	}
 }
@@ -4,21 +4,31 @@
  * State machine:
  *   "list"           — shows KeyListView
  *   "create"         — shows CreateKeyView (input form)
+ *   "scope"          — shows ScopeKeyView for the selected key
+ *   "audit"          — shows KeyAuditView for the selected key
  *   "delete-confirm" — shows delete confirmation overlay over KeyListView
  */
 
 import { useState, useEffect, useCallback } from "react";
 import { useKeyboard } from "@opentui/react";
-import { AdminApiClient, type ApiKey } from "./AdminApiClient.js";
+import {
+	AdminApiClient,
+	type ApiKey,
+	type ApiKeyAudit,
+	type CreateApiKeyInput,
+	type UpdateApiKeyInput,
+} from "./AdminApiClient.js";
 import { KeyListView } from "./KeyListView.js";
 import { CreateKeyView } from "./CreateKeyView.js";
+import { KeyAuditView } from "./KeyAuditView.js";
+import { ScopeKeyView } from "./ScopeKeyView.js";
 import { theme } from "../theme.js";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-type AdminView = "list" | "create" | "delete-confirm";
+type AdminView = "list" | "create" | "scope" | "audit" | "delete-confirm";
 
 export interface AdminAppProps {
 	endpoint: string;
@@ -42,6 +52,11 @@ export function AdminApp({ endpoint, masterKey, quit }: AdminAppProps) {
 	const [selectedIndex, setSelectedIndex] = useState(0);
 	const [createLoading, setCreateLoading] = useState(false);
 	const [createError, setCreateError] = useState<string | null>(null);
+	const [scopeLoading, setScopeLoading] = useState(false);
+	const [scopeError, setScopeError] = useState<string | null>(null);
+	const [audit, setAudit] = useState<ApiKeyAudit | null>(null);
+	const [auditLoading, setAuditLoading] = useState(false);
+	const [auditError, setAuditError] = useState<string | null>(null);
 
 	const loadKeys = useCallback(async () => {
 		setLoading(true);
@@ -85,11 +100,11 @@ export function AdminApp({ endpoint, masterKey, quit }: AdminAppProps) {
 		}
 	});
 
-	const handleCreate = async (name: string) => {
+	const handleCreate = async (input: CreateApiKeyInput) => {
 		setCreateLoading(true);
 		setCreateError(null);
 		try {
-			const result = await client.createKey(name);
+			const result = await client.createKey(input);
 			setNewSecret(result.secret);
 			setNewKeyName(result.key.name);
 			await loadKeys();
@@ -100,6 +115,32 @@ export function AdminApp({ endpoint, masterKey, quit }: AdminAppProps) {
 		}
 	};
 
+	const handleScope = async (id: number, input: UpdateApiKeyInput) => {
+		setScopeLoading(true);
+		setScopeError(null);
+		try {
+			await client.updateKey(id, input);
+			await loadKeys();
+			setView("list");
+		} catch (err) {
+			setScopeError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setScopeLoading(false);
+		}
+	};
+
+	const loadAudit = async (id: number) => {
+		setAuditLoading(true);
+		setAuditError(null);
+		try {
+			setAudit(await client.getKeyUsage(id));
+		} catch (err) {
+			setAuditError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setAuditLoading(false);
+		}
+	};
+
 	const handleDismissSecret = () => {
 		setNewSecret(null);
 		setNewKeyName("");
@@ -192,6 +233,36 @@ export function AdminApp({ endpoint, masterKey, quit }: AdminAppProps) {
 		);
 	}
 
+	if (view === "scope" && selectedKey) {
+		return (
+			<ScopeKeyView
+				apiKey={selectedKey}
+				loading={scopeLoading}
+				error={scopeError}
+				onSave={(input) => handleScope(selectedKey.id, input)}
+				onCancel={() => {
+					setScopeError(null);
+					setView("list");
+				}}
+			/>
+		);
+	}
+
+	if (view === "audit" && selectedKey) {
+		return (
+			<KeyAuditView
+				audit={audit}
+				loading={auditLoading}
+				error={auditError}
+				onRefresh={() => loadAudit(selectedKey.id)}
+				onBack={() => {
+					setAudit(null);
+					setView("list");
+				}}
+			/>
+		);
+	}
+
 	return (
 		<KeyListView
 			endpoint={endpoint}
@@ -205,6 +276,17 @@ export function AdminApp({ endpoint, masterKey, quit }: AdminAppProps) {
 				setNewSecret(null);
 				setView("create");
 			}}
+			onScope={() => {
+				if (!selectedKey) return;
+				setScopeError(null);
+				setView("scope");
+			}}
+			onAudit={() => {
+				if (!selectedKey) return;
+				setAudit(null);
+				setView("audit");
+				loadAudit(selectedKey.id);
+			}}
 			onDelete={() => {
 				if (keys.length > 0) setView("delete-confirm");
 			}}
@@ -1,8 +1,9 @@
 /**
- * CreateKeyView — name input form + secret display after creation.
+ * CreateKeyView — key form (name, org, repos, role, limits) + secret display
+ * after creation.
  *
  * Two sub-states:
- *   "input"  — text field for key name; Enter to create, Esc to cancel
+ *   "input"  — KeyForm fields; Enter to create, Esc to cancel
  *   "secret" — shows the secret once; Enter or Escape to return to list
  */
 
@@ -10,6 +11,24 @@ import { useState, useEffect } from "react";
 import { useKeyboard } from "@opentui/react";
 import { execSync } from "node:child_process";
 import { theme } from "../theme.js";
+import type { CreateApiKeyInput } from "./AdminApiClient.js";
+import {
+	type KeyFormField,
+	KeyFormFields,
+	type KeyFormValues,
+	keyFormValues,
+	parseKeySettings,
+	useKeyForm,
+} from "./KeyForm.js";
+
+const CREATE_FIELDS: KeyFormField[] = [
+	"name",
+	"org",
+	"repos",
+	"role",
+	"rateLimit",
+	"dailyQuota",
+];
 
 function copyToClipboard(text: string): boolean {
 	try {
@@ -31,7 +50,7 @@ export interface CreateKeyViewProps {
 	newKeyName: string;
 	loading: boolean;
 	error: string | null;
-	onCreate: (name: string) => void;
+	onCreate: (input: CreateApiKeyInput) => void;
 	onCancel: () => void;
 	onDismissSecret: () => void;
 }
@@ -49,8 +68,32 @@ export function CreateKeyView({
 	onCancel,
 	onDismissSecret,
 }: CreateKeyViewProps) {
-	const [name, setName] = useState("");
 	const [copied, setCopied] = useState(false);
+	const [formError, setFormError] = useState<string | null>(null);
+
+	const handleSubmit = (values: KeyFormValues) => {
+		const name = values.name.trim();
+		if (!name) {
+			setFormError("key name is required");
+			return;
+		}
+		const settings = parseKeySettings(values);
+		if (typeof settings === "string") {
+			setFormError(settings);
+			return;
+		}
+		setFormError(null);
+		const orgSlug = values.org.trim();
+		onCreate({ name, ...(orgSlug ? { orgSlug } : {}), ...settings });
+	};
+
+	const { values, focused } = useKeyForm({
+		fields: CREATE_FIELDS,
+		initial: keyFormValues(),
+		disabled: newSecret !== null || loading,
+		onSubmit: handleSubmit,
+		onCancel,
+	});
 
 	// Auto-copy secret to clipboard when it appears
 	useEffect(() => {
@@ -59,39 +102,15 @@ export function CreateKeyView({
 		}
 	}, [newSecret]);
 
+	// Input is handled by useKeyForm; here only dismissing the secret
 	useKeyboard((key) => {
-		// If showing secret, only Enter or Escape dismisses
-		if (newSecret !== null) {
-			if (
-				key.name === "return" ||
-				key.name === "enter" ||
-				key.name === "escape"
-			) {
-				onDismissSecret();
-			}
-			return;
-		}
-
-		if (key.name === "escape") {
-			onCancel();
-			return;
-		}
-
-		if (key.name === "return" || key.name === "enter") {
-			if (name.trim()) {
-				onCreate(name.trim());
-			}
-			return;
-		}
-
-		if (key.name === "backspace" || key.name === "delete") {
-			setName((prev) => prev.slice(0, -1));
-			return;
-		}
-
-		// Printable characters
-		if (key.sequence && key.sequence.length === 1 && !key.ctrl && !key.meta) {
-			setName((prev) => prev + key.sequence);
+		if (newSecret === null) return;
+		if (
+			key.name === "return" ||
+			key.name === "enter" ||
+			key.name === "escape"
+		) {
+			onDismissSecret();
 		}
 	});
 
@@ -178,29 +197,14 @@ export function CreateKeyView({
 				<text fg={theme.borderDim}>{"─┐"}</text>
 			</box>
 
-			{/* Input field */}
-			<box
-				flexDirection="column"
-				marginTop={2}
-				borderStyle="single"
-				borderColor={name.length > 0 ? theme.primary : theme.border}
-				paddingLeft={2}
-				paddingRight={2}
-				paddingTop={1}
-				paddingBottom={1}
-			>
-				<box flexDirection="row">
-					<text fg={theme.labelDim}>{"key name  "}</text>
-					<text fg={theme.valueBright}>{name}</text>
-					<text fg={theme.primary}>{"_"}</text>
-				</box>
-			</box>
+			{/* Input fields */}
+			<KeyFormFields fields={CREATE_FIELDS} values={values} focused={focused} />
 
 			{/* Error */}
-			{error && (
+			{(formError ?? error) && (
 				<box flexDirection="row" marginTop={1} paddingLeft={1}>
 					<text fg={theme.error}>{"! "}</text>
-					<text fg={theme.dangerText}>{error}</text>
+					<text fg={theme.dangerText}>{formError ?? error}</text>
 				</box>
 			)}
 
@@ -222,6 +226,10 @@ export function CreateKeyView({
 				<text fg={theme.shortcutBracket}>{"]"}</text>
 				<text fg={theme.muted}>{" create  "}</text>
 				<text fg={theme.shortcutBracket}>{"["}</text>
+				<text fg={theme.shortcutKey}>{"Tab"}</text>
+				<text fg={theme.shortcutBracket}>{"]"}</text>
+				<text fg={theme.muted}>{" next field  "}</text>
+				<text fg={theme.shortcutBracket}>{"["}</text>
 				<text fg={theme.shortcutKey}>{"Esc"}</text>
 				<text fg={theme.shortcutBracket}>{"]"}</text>
 				<text fg={theme.muted}>{" cancel"}</text>
@@ -0,0 +1,200 @@
+/**
+ * KeyAuditView — a key's scope, limits and recent requests.
+ *
+ * Shortcuts:
+ *   r          — refresh
+ *   Esc / q    — back to list
+ */
+
+import { useKeyboard } from "@opentui/react";
+import { theme } from "../theme.js";
+import type { ApiKeyAudit } from "./AdminApiClient.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface KeyAuditViewProps {
+	audit: ApiKeyAudit | null;
+	loading: boolean;
+	error: string | null;
+	onRefresh: () => void;
+	onBack: () => void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatTime(iso: string): string {
+	return new Date(iso).toLocaleString("en-US", {
+		month: "short",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		second: "2-digit",
+		hour12: false,
+	});
+}
+
+function formatLimit(count: number, limit: number | null): string {
+	return limit === null ? `${count} / unlimited` : `${count} / ${limit}`;
+}
+
+function statusColor(status: number): string {
+	if (status === 429) return theme.warning;
+	if (status >= 400) return theme.error;
+	return theme.accentGreen;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function KeyAuditView({
+	audit,
+	loading,
+	error,
+	onRefresh,
+	onBack,
+}: KeyAuditViewProps) {
+	useKeyboard((key) => {
+		if (key.name === "r") {
+			onRefresh();
+			return;
+		}
+		if (key.name === "escape" || key.name === "q") {
+			onBack();
+		}
+	});
+
+	const COL_TIME = 18;
+	const COL_STATUS = 8;
+
+	return (
+		<box flexDirection="column" width="100%" height="100%" padding={2}>
+			{/* Section title */}
+			<box flexDirection="row">
+				<text fg={theme.borderDim}>{"┌─"}</text>
+				<text fg={theme.primary}>{" Admin "}</text>
+				<text fg={theme.borderDim}>{"─"}</text>
+				<text fg={theme.muted}>{" Key Audit "}</text>
+				{audit && <text fg={theme.valueBright}>{` ${audit.key.name} `}</text>}
+				<text fg={theme.borderDim}>{"─┐"}</text>
+			</box>
+
+			{/* Error banner */}
+			{error && (
+				<box paddingLeft={1} paddingTop={1}>
+					<text fg={theme.error}>{"! "}</text>
+					<text fg={theme.dangerText}>{error}</text>
+				</box>
+			)}
+
+			{/* Loading */}
+			{loading && !audit && (
+				<box paddingLeft={1} paddingTop={1}>
+					<text fg={theme.muted}>{"  loading..."}</text>
+				</box>
+			)}
+
+			{audit && (
+				<box flexDirection="column" marginTop={1} paddingLeft={2}>
+					{/* Scope */}
+					<box flexDirection="row">
+						<text fg={theme.labelDim}>{"prefix   "}</text>
+						<text fg={theme.accentCyan}>{audit.key.prefix}</text>
+						<text fg={theme.labelDim}>{"    status  "}</text>
+						<text
+							fg={audit.key.isActive ? theme.accentGreen : theme.dangerText}
+						>
+							{audit.key.isActive ? "active" : "disabled"}
+						</text>
+					</box>
+					<box flexDirection="row">
+						<text fg={theme.labelDim}>{"role     "}</text>
+						<text fg={theme.valueBright}>{audit.key.role}</text>
+					</box>
+					<box flexDirection="row">
+						<text fg={theme.labelDim}>{"org      "}</text>
+						<text fg={theme.text}>{audit.key.orgSlug ?? "unscoped"}</text>
+					</box>
+					<box flexDirection="row">
+						<text fg={theme.labelDim}>{"repos    "}</text>
+						<text fg={theme.text}>
+							{audit.key.repoSlugs?.join(", ") ?? "all"}
+						</text>
+					</box>
+
+					{/* Limits */}
+					<box flexDirection="row" marginTop={1}>
+						<text fg={theme.labelDim}>{"last min "}</text>
+						<text fg={theme.text}>
+							{formatLimit(
+								audit.window.minuteCount,
+								audit.window.rateLimitPerMinute,
+							)}
+						</text>
+					</box>
+					<box flexDirection="row">
+						<text fg={theme.labelDim}>{"last 24h "}</text>
+						<text fg={theme.text}>
+							{formatLimit(audit.window.dayCount, audit.window.dailyQuota)}
+						</text>
+					</box>
+					<box flexDirection="row">
+						<text fg={theme.labelDim}>{"statuses "}</text>
+						{Object.keys(audit.statusCounts).length === 0 && (
+							<text fg={theme.dimmed}>{"no requests in the last 24h"}</text>
+						)}
+						{Object.entries(audit.statusCounts).map(([status, count]) => (
+							<text key={status} fg={statusColor(Number(status))}>
+								{`${status}×${count}  `}
+							</text>
+						))}
+					</box>
+
+					{/* Recent requests */}
+					<box marginTop={1}>
+						<text fg={theme.labelDim}>
+							{`${"TIME".padEnd(COL_TIME)}${"STATUS".padEnd(COL_STATUS)}ENDPOINT`}
+						</text>
+					</box>
+					{audit.recent.length === 0 && (
+						<box>
+							<text fg={theme.dimmed}>{"never used"}</text>
+						</box>
+					)}
+					{audit.recent.map((r, i) => (
+						<box key={`${r.createdAt}-${i}`} flexDirection="row">
+							<text fg={theme.dimmed}>
+								{formatTime(r.createdAt).padEnd(COL_TIME)}
+							</text>
+							<text fg={statusColor(r.statusCode)}>
+								{String(r.statusCode).padEnd(COL_STATUS)}
+							</text>
+							<text fg={theme.text}>{r.endpoint}</text>
+						</box>
+					))}
+				</box>
+			)}
+
+			{/* Spacer */}
+			<box flexGrow={1} />
+
+			{/* Footer */}
+			<box flexDirection="row" paddingLeft={1}>
+				<text fg={theme.borderDim}>{"└─ "}</text>
+				<text fg={theme.shortcutBracket}>{"["}</text>
+				<text fg={theme.shortcutKey}>{"r"}</text>
+				<text fg={theme.shortcutBracket}>{"]"}</text>
+				<text fg={theme.muted}>{" refresh  "}</text>
+				<text fg={theme.shortcutBracket}>{"["}</text>
+				<text fg={theme.shortcutKey}>{"Esc"}</text>
+				<text fg={theme.shortcutBracket}>{"]"}</text>
+				<text fg={theme.muted}>{" back"}</text>
+				<text fg={theme.borderDim}>{" ─┘"}</text>
+			</box>
+		</box>
+	);
+}
@@ -0,0 +1,250 @@
+/**
+ * KeyForm — field editor shared by CreateKeyView and ScopeKeyView.
+ *
+ * Shortcuts:
+ *   Tab / ArrowDown          — next field
+ *   Shift+Tab / ArrowUp      — previous field
+ *   ArrowLeft / ArrowRight   — cycle role (on the role field)
+ *   Enter                    — submit
+ *   Esc                      — cancel
+ */
+
+import { useKeyboard } from "@opentui/react";
+import { useState } from "react";
+import { theme } from "../theme.js";
+import {
+	API_KEY_ROLES,
+	type ApiKey,
+	type ApiKeyRole,
+	type ApiKeySettings,
+} from "./AdminApiClient.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type KeyFormField =
+	| "name"
+	| "org"
+	| "repos"
+	| "role"
+	| "rateLimit"
+	| "dailyQuota";
+
+export interface KeyFormValues {
+	name: string;
+	org: string;
+	/** Comma-separated repo slugs (blank = every repo in the org) */
+	repos: string;
+	role: ApiKeyRole;
+	/** Requests per minute (blank = unlimited) */
+	rateLimit: string;
+	/** Requests per 24 hours (blank = unlimited) */
+	dailyQuota: string;
+}
+
+export interface UseKeyFormOptions {
+	fields: KeyFormField[];
+	initial: KeyFormValues;
+	/** Ignore keyboard input (e.g. while a request is in flight) */
+	disabled?: boolean;
+	onSubmit: (values: KeyFormValues) => void;
+	onCancel: () => void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const FIELD_LABELS: Record<KeyFormField, string> = {
+	name: "key name  ",
+	org: "org       ",
+	repos: "repos     ",
+	role: "role      ",
+	rateLimit: "req/min   ",
+	dailyQuota: "req/day   ",
+};
+
+const FIELD_HINTS: Partial<Record<KeyFormField, string>> = {
+	org: "blank = your own org, or unscoped for the master key",
+	repos: "comma-separated, blank = every repo in the org",
+	role: "←/→ to change",
+	rateLimit: "blank = unlimited",
+	dailyQuota: "blank = unlimited",
+};
+
+const ROLE_DESCRIPTIONS: Record<ApiKeyRole, string> = {
+	search: "read-only search and symbol graph",
+	uploader: "search + index uploads (CI)",
+	admin: "uploader + manage the org's keys",
+};
+
+/** Form values for a new key, or for editing an existing one */
+export function keyFormValues(key?: Omit<ApiKey, "usage">): KeyFormValues {
+	return {
+		name: key?.name ?? "",
+		org: key?.orgSlug ?? "",
+		repos: key?.repoSlugs?.join(", ") ?? "",
+		role: key?.role ?? "uploader",
+		rateLimit: key?.rateLimitPerMinute?.toString() ?? "",
+		dailyQuota: key?.dailyQuota?.toString() ?? "",
+	};
+}
+
+/**
+ * Convert the scope and limit fields into API settings.
+ * Returns an error message when a field does not parse.
+ */
+export function parseKeySettings(
+	values: KeyFormValues,
+): ApiKeySettings | string {
+	const repos = values.repos
+		.split(",")
+		.map((r) => r.trim())
+		.filter((r) => r.length > 0);
+
+	const limits: Record<"rateLimit" | "dailyQuota", number | null> = {
+		rateLimit: null,
+		dailyQuota: null,
+	};
+	for (const field of ["rateLimit", "dailyQuota"] as const) {
+		const raw = values[field].trim();
+		if (!raw) continue;
+		const n = Number(raw);
+		if (!Number.isInteger(n) || n <= 0) {
+			return `${FIELD_LABELS[field].trim()} must be a positive whole number`;
+		}
+		limits[field] = n;
+	}
+
+	return {
+		role: values.role,
+		repoSlugs: repos.length > 0 ? repos : null,
+		rateLimitPerMinute: limits.rateLimit,
+		dailyQuota: limits.dailyQuota,
+	};
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export function useKeyForm({
+	fields,
+	initial,
+	disabled = false,
+	onSubmit,
+	onCancel,
+}: UseKeyFormOptions) {
+	const [values, setValues] = useState(initial);
+	const [focusIndex, setFocusIndex] = useState(0);
+	const focused = fields[focusIndex] ?? fields[0];
+
+	useKeyboard((key) => {
+		if (disabled) return;
+
+		if (key.name === "escape") {
+			onCancel();
+			return;
+		}
+
+		if (key.name === "return" || key.name === "enter") {
+			onSubmit(values);
+			return;
+		}
+
+		if ((key.name === "tab" && !key.shift) || key.name === "down") {
+			setFocusIndex((i) => (i + 1) % fields.length);
+			return;
+		}
+		if ((key.name === "tab" && key.shift) || key.name === "up") {
+			setFocusIndex((i) => (i - 1 + fields.length) % fields.length);
+			return;
+		}
+
+		if (focused === "role") {
+			const step =
+				key.name === "right" || key.name === "space"
+					? 1
+					: key.name === "left"
+						? -1
+						: 0;
+			if (step !== 0) {
+				setValues((prev) => {
+					const idx = API_KEY_ROLES.indexOf(prev.role);
+					const next =
+						API_KEY_ROLES[
+							(idx + step + API_KEY_ROLES.length) % API_KEY_ROLES.length
+						];
+					return next ? { ...prev, role: next } : prev;
+				});
+			}
+			return;
+		}
+
+		if (!focused) return;
+		const field = focused;
+
+		if (key.name === "backspace" || key.name === "delete") {
+			setValues((prev) => ({ ...prev, [field]: prev[field].slice(0, -1) }));
+			return;
+		}
+
+		// Printable characters
+		if (key.sequence && key.sequence.length === 1 && !key.ctrl && !key.meta) {
+			setValues((prev) => ({ ...prev, [field]: prev[field] + key.sequence }));
+		}
+	});
+
+	return { values, focused };
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function KeyFormFields({
+	fields,
+	values,
+	focused,
+}: {
+	fields: KeyFormField[];
+	values: KeyFormValues;
+	focused: KeyFormField | undefined;
+}) {
+	return (
+		<box
+			flexDirection="column"
+			marginTop={2}
+			borderStyle="single"
+			borderColor={theme.border}
+			paddingLeft={2}
+			paddingRight={2}
+			paddingTop={1}
+			paddingBottom={1}
+		>
+			{fields.map((field) => {
+				const isFocused = field === focused;
+				const value =
+					field === "role"
+						? `${values.role}  (${ROLE_DESCRIPTIONS[values.role]})`
+						: values[field];
+				const hint = FIELD_HINTS[field];
+
+				return (
+					<box key={field} flexDirection="row">
+						<text fg={isFocused ? theme.primary : theme.labelDim}>
+							{isFocused ? "> " : "  "}
+						</text>
+						<text fg={theme.labelDim}>{FIELD_LABELS[field]}</text>
+						<text fg={isFocused ? theme.valueBright : theme.text}>{value}</text>
+						{isFocused && field !== "role" && (
+							<text fg={theme.primary}>{"_"}</text>
+						)}
+						{isFocused && hint && <text fg={theme.dimmed}>{`   ${hint}`}</text>}
+					</box>
+				);
+			})}
+		</box>
+	);
+}
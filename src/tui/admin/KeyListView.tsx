@@ -5,6 +5,8 @@
  *   j / ArrowDown  — move selection down
  *   k / ArrowUp    — move selection up
  *   n              — create new key
+ *   e              — edit role, repo scope and limits of selected key
+ *   a              — audit selected key
  *   d              — delete selected key
  *   r              — refresh
  *   q              — quit
@@ -26,6 +28,8 @@ export interface KeyListViewProps {
 	error: string | null;
 	onSelect: (index: number) => void;
 	onNew: () => void;
+	onScope: () => void;
+	onAudit: () => void;
 	onDelete: () => void;
 	onRefresh: () => void;
 	onQuit: () => void;
@@ -45,6 +49,14 @@ function formatDate(iso: string | null): string {
 	});
 }
 
+/** Compact scope label: "*" (unscoped), "acme/*" or "acme/{api,web}" */
+function formatScope(key: ApiKey): string {
+	if (!key.orgSlug) return "*";
+	if (!key.repoSlugs) return `${key.orgSlug}/*`;
+	if (key.repoSlugs.length === 1) return `${key.orgSlug}/${key.repoSlugs[0]}`;
+	return `${key.orgSlug}/{${key.repoSlugs.join(",")}}`;
+}
+
 // ============================================================================
 // Sub-components
 // ============================================================================
@@ -73,6 +85,8 @@ export function KeyListView({
 	error,
 	onSelect,
 	onNew,
+	onScope,
+	onAudit,
 	onDelete,
 	onRefresh,
 	onQuit,
@@ -90,6 +104,14 @@ export function KeyListView({
 			onNew();
 			return;
 		}
+		if (key.name === "e" && keys.length > 0) {
+			onScope();
+			return;
+		}
+		if (key.name === "a" && keys.length > 0) {
+			onAudit();
+			return;
+		}
 		if (key.name === "d" && keys.length > 0) {
 			onDelete();
 			return;
@@ -138,12 +160,16 @@ export function KeyListView({
 	// Column widths (characters)
 	const COL_NAME = 20;
 	const COL_PREF = 10;
+	const COL_ROLE = 10;
+	const COL_SCOPE = 24;
 	const COL_CREATED = 13;
 	const COL_LASTUSED = 13;
 
 	const headerRow =
 		"NAME".padEnd(COL_NAME) +
 		"PREFIX".padEnd(COL_PREF) +
+		"ROLE".padEnd(COL_ROLE) +
+		"SCOPE".padEnd(COL_SCOPE) +
 		"CREATED".padEnd(COL_CREATED) +
 		"LAST USED".padEnd(COL_LASTUSED) +
 		"REQ";
@@ -151,6 +177,8 @@ export function KeyListView({
 	const dividerRow =
 		"─".repeat(COL_NAME - 1).padEnd(COL_NAME) +
 		"─".repeat(COL_PREF - 1).padEnd(COL_PREF) +
+		"─".repeat(COL_ROLE - 1).padEnd(COL_ROLE) +
+		"─".repeat(COL_SCOPE - 1).padEnd(COL_SCOPE) +
 		"─".repeat(COL_CREATED - 1).padEnd(COL_CREATED) +
 		"─".repeat(COL_LASTUSED - 1).padEnd(COL_LASTUSED) +
 		"───";
@@ -217,6 +245,8 @@ export function KeyListView({
 				const isSelected = i === selectedIndex;
 				const name = k.name.padEnd(COL_NAME).slice(0, COL_NAME);
 				const prefix = k.prefix.padEnd(COL_PREF);
+				const role = (k.isActive ? k.role : "disabled").padEnd(COL_ROLE);
+				const scope = formatScope(k).padEnd(COL_SCOPE).slice(0, COL_SCOPE);
 				const created = formatDate(k.createdAt).padEnd(COL_CREATED);
 				const lastUsed = formatDate(k.lastUsedAt).padEnd(COL_LASTUSED);
 				const requests = String(k.usage.total).padStart(3);
@@ -233,6 +263,10 @@ export function KeyListView({
 							<text fg={theme.valueBright}> </text>
 							<text fg={theme.primary}>{name}</text>
 							<text fg={theme.accentCyan}>{prefix}</text>
+							<text fg={k.isActive ? theme.valueBright : theme.dangerText}>
+								{role}
+							</text>
+							<text fg={theme.text}>{scope}</text>
 							<text fg={theme.text}>{created}</text>
 							<text fg={theme.muted}>{lastUsed}</text>
 							<text fg={theme.valueBright}>{requests}</text>
@@ -246,6 +280,8 @@ export function KeyListView({
 						<text fg={theme.text}> </text>
 						<text fg={theme.text}>{name}</text>
 						<text fg={theme.muted}>{prefix}</text>
+						<text fg={k.isActive ? theme.text : theme.dangerText}>{role}</text>
+						<text fg={theme.muted}>{scope}</text>
 						<text fg={theme.dimmed}>{created}</text>
 						<text fg={theme.dimmed}>{lastUsed}</text>
 						<text fg={theme.muted}>{requests}</text>
@@ -260,6 +296,8 @@ export function KeyListView({
 			<box flexDirection="row" paddingLeft={1} paddingBottom={1}>
 				<text fg={theme.borderDim}>{"└─ "}</text>
 				<ShortcutItem letter="n" label="new" />
+				<ShortcutItem letter="e" label="scope" />
+				<ShortcutItem letter="a" label="audit" />
 				<ShortcutItem letter="d" label="delete" />
 				<ShortcutItem letter="r" label="refresh" />
 				<ShortcutItem letter="j/k" label="navigate" />
@@ -0,0 +1,141 @@
+/**
+ * ScopeKeyView — edit the role, repo scope and limits of an existing key.
+ *
+ * The org of a key is fixed at creation; Enter saves, Esc returns to the
+ * list without changes.
+ */
+
+import { useState } from "react";
+import { theme } from "../theme.js";
+import type { ApiKey, UpdateApiKeyInput } from "./AdminApiClient.js";
+import {
+	type KeyFormField,
+	KeyFormFields,
+	type KeyFormValues,
+	keyFormValues,
+	parseKeySettings,
+	useKeyForm,
+} from "./KeyForm.js";
+
+const SCOPE_FIELDS: KeyFormField[] = [
+	"name",
+	"repos",
+	"role",
+	"rateLimit",
+	"dailyQuota",
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScopeKeyViewProps {
+	apiKey: ApiKey;
+	loading: boolean;
+	error: string | null;
+	onSave: (input: UpdateApiKeyInput) => void;
+	onCancel: () => void;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function ScopeKeyView({
+	apiKey,
+	loading,
+	error,
+	onSave,
+	onCancel,
+}: ScopeKeyViewProps) {
+	const [formError, setFormError] = useState<string | null>(null);
+
+	const handleSubmit = (values: KeyFormValues) => {
+		const name = values.name.trim();
+		if (!name) {
+			setFormError("key name is required");
+			return;
+		}
+		const settings = parseKeySettings(values);
+		if (typeof settings === "string") {
+			setFormError(settings);
+			return;
+		}
+		if (!apiKey.orgSlug && settings.repoSlugs) {
+			setFormError("unscoped keys cannot be limited to repos");
+			return;
+		}
+		setFormError(null);
+		onSave({ name, ...settings });
+	};
+
+	const { values, focused } = useKeyForm({
+		fields: SCOPE_FIELDS,
+		initial: keyFormValues(apiKey),
+		disabled: loading,
+		onSubmit: handleSubmit,
+		onCancel,
+	});
+
+	return (
+		<box flexDirection="column" width="100%" height="100%" padding={2}>
+			{/* Section title */}
+			<box flexDirection="row">
+				<text fg={theme.borderDim}>{"┌─"}</text>
+				<text fg={theme.primary}>{" Admin "}</text>
+				<text fg={theme.borderDim}>{"─"}</text>
+				<text fg={theme.muted}>{" Scope API Key "}</text>
+				<text fg={theme.borderDim}>{"─┐"}</text>
+			</box>
+
+			{/* Fixed attributes */}
+			<box flexDirection="row" marginTop={1} paddingLeft={2}>
+				<text fg={theme.labelDim}>{"prefix  "}</text>
+				<text fg={theme.accentCyan}>{apiKey.prefix}</text>
+				<text fg={theme.labelDim}>{"    org  "}</text>
+				<text fg={apiKey.orgSlug ? theme.valueBright : theme.dimmed}>
+					{apiKey.orgSlug ?? "unscoped"}
+				</text>
+			</box>
+
+			{/* Editable fields */}
+			<KeyFormFields fields={SCOPE_FIELDS} values={values} focused={focused} />
+
+			{/* Error */}
+			{(formError ?? error) && (
+				<box flexDirection="row" marginTop={1} paddingLeft={1}>
+					<text fg={theme.error}>{"! "}</text>
+					<text fg={theme.dangerText}>{formError ?? error}</text>
+				</box>
+			)}
+
+			{/* Loading */}
+			{loading && (
+				<box marginTop={1} paddingLeft={1}>
+					<text fg={theme.muted}>{"  saving..."}</text>
+				</box>
+			)}
+
+			{/* Spacer */}
+			<box flexGrow={1} />
+
+			{/* Footer */}
+			<box flexDirection="row" paddingLeft={1}>
+				<text fg={theme.borderDim}>{"└─ "}</text>
+				<text fg={theme.shortcutBracket}>{"["}</text>
+				<text fg={theme.shortcutKey}>{"Enter"}</text>
+				<text fg={theme.shortcutBracket}>{"]"}</text>
+				<text fg={theme.muted}>{" save  "}</text>
+				<text fg={theme.shortcutBracket}>{"["}</text>
+				<text fg={theme.shortcutKey}>{"Tab"}</text>
+				<text fg={theme.shortcutBracket}>{"]"}</text>
+				<text fg={theme.muted}>{" next field  "}</text>
+				<text fg={theme.shortcutBracket}>{"["}</text>
+				<text fg={theme.shortcutKey}>{"Esc"}</text>
+				<text fg={theme.shortcutBracket}>{"]"}</text>
+				<text fg={theme.muted}>{" cancel"}</text>
+				<text fg={theme.borderDim}>{" ─┘"}</text>
+			</box>
+		</box>
+	);
+}
@@ -1,11 +1,16 @@
 /**
  * SymbolTree Component
  *
- * Collapsible file/symbol tree for the Map view.
- * Shows files as collapsible nodes with symbols indented underneath.
+ * Collapsible directory/file/symbol tree for the Map view.
+ * Shows directories (with their summaries) and files as collapsible nodes,
+ * with symbols indented underneath their file.
  */
 
-import type { RepoMapEntry } from "../../types.js";
+import type {
+	RepoMapDirectory,
+	RepoMapDirectorySummary,
+	RepoMapEntry,
+} from "../../types.js";
 import { ScoreBar } from "./ScoreBar.js";
 import { theme } from "../theme.js";
 
@@ -14,8 +19,9 @@ import { theme } from "../theme.js";
 // ============================================================================
 
 export interface SymbolTreeProps {
-	entries: RepoMapEntry[];
+	tree: RepoMapDirectory | null;
 	expandedPaths: Set<string>;
+	collapsedDirectories: Set<string>;
 	onToggle: (path: string) => void;
 	selectedPath: string | null;
 	onSelect: (path: string) => void;
@@ -29,11 +35,17 @@ function formatPageRank(score: number): string {
 	return score.toFixed(3);
 }
 
+/** Indentation for a tree depth */
+function indent(depth: number): number {
+	return 2 + depth * 2;
+}
+
 // ============================================================================
 // Symbol Row Component
 // ============================================================================
 
 interface SymbolRowProps {
+	depth: number;
 	name: string;
 	kind: string;
 	pagerankScore: number;
@@ -42,6 +54,7 @@ interface SymbolRowProps {
 }
 
 function SymbolRow({
+	depth,
 	name,
 	kind,
 	pagerankScore,
@@ -53,7 +66,7 @@ function SymbolRow({
 	const normalizedScore = Math.min(1, pagerankScore / 0.1);
 
 	return (
-		<box flexDirection="row" paddingLeft={4} height={1}>
+		<box flexDirection="row" paddingLeft={indent(depth + 1)} height={1}>
 			<text fg={isExported ? theme.success : theme.muted}>{prefix}</text>
 			<text fg={theme.text} width={28}>
 				{name}
@@ -70,11 +83,46 @@ function SymbolRow({
 	);
 }
 
+// ============================================================================
+// Directory Row Component
+// ============================================================================
+
+interface DirectoryRowProps {
+	depth: number;
+	path: string;
+	summary?: RepoMapDirectorySummary;
+	isCollapsed: boolean;
+	isSelected: boolean;
+}
+
+function DirectoryRow({
+	depth,
+	path,
+	summary,
+	isCollapsed,
+	isSelected,
+}: DirectoryRowProps) {
+	const icon = isCollapsed ? "> " : "v ";
+	const name = path === "." ? "./" : `${path.split("/").pop()}/`;
+	const level =
+		summary && summary.level !== "directory" ? ` [${summary.level}]` : "";
+	const firstSentence = summary?.summary.split(/(?<=[.!?])\s/)[0] ?? "";
+
+	return (
+		<box flexDirection="row" paddingLeft={indent(depth)} height={1}>
+			<text fg={isSelected ? theme.primary : theme.warning}>{icon}</text>
+			<text fg={isSelected ? theme.text : theme.info}>{name + level}</text>
+			{firstSentence && <text fg={theme.dimmed}>{`  ${firstSentence}`}</text>}
+		</box>
+	);
+}
+
 // ============================================================================
 // File Row Component
 // ============================================================================
 
 interface FileRowProps {
+	depth: number;
 	filePath: string;
 	symbolCount: number;
 	aggregatePageRank: number;
@@ -83,6 +131,7 @@ interface FileRowProps {
 }
 
 function FileRow({
+	depth,
 	filePath,
 	symbolCount,
 	aggregatePageRank,
@@ -93,10 +142,10 @@ function FileRow({
 	const normalizedAgg = Math.min(1, aggregatePageRank / 0.3);
 
 	return (
-		<box flexDirection="row" paddingLeft={2} height={1}>
+		<box flexDirection="row" paddingLeft={indent(depth)} height={1}>
 			<text fg={isSelected ? theme.primary : theme.warning}>{icon}</text>
 			<text fg={isSelected ? theme.text : theme.primary} width={40}>
-				{filePath}
+				{filePath.split("/").pop() ?? filePath}
 			</text>
 			<text fg={theme.muted} width={12}>
 				{symbolCount + " sym"}
@@ -114,13 +163,14 @@ function FileRow({
 // ============================================================================
 
 export function SymbolTree({
-	entries,
+	tree,
 	expandedPaths,
+	collapsedDirectories,
 	onToggle,
 	selectedPath,
 	onSelect,
 }: SymbolTreeProps) {
-	if (entries.length === 0) {
+	if (!tree || (tree.files.length === 0 && tree.directories.length === 0)) {
 		return (
 			<box padding={2}>
 				<text fg={theme.muted}>No symbols indexed. Run: mnemex index</text>
@@ -128,43 +178,69 @@ export function SymbolTree({
 		);
 	}
 
+	const renderFile = (entry: RepoMapEntry, depth: number) => {
+		const isExpanded = expandedPaths.has(entry.filePath);
+		const aggregatePageRank = entry.symbols.reduce(
+			(sum, s) => sum + s.pagerankScore,
+			0,
+		);
+
+		return (
+			<box key={entry.filePath} flexDirection="column" width="100%">
+				<FileRow
+					depth={depth}
+					filePath={entry.filePath}
+					symbolCount={entry.symbols.length}
+					aggregatePageRank={aggregatePageRank}
+					isExpanded={isExpanded}
+					isSelected={selectedPath === entry.filePath}
+				/>
+
+				{isExpanded &&
+					entry.symbols.map((sym) => (
+						<box key={entry.filePath + ":" + sym.name + ":" + sym.line}>
+							<SymbolRow
+								depth={depth}
+								name={sym.name}
+								kind={sym.kind}
+								pagerankScore={sym.pagerankScore}
+								line={sym.line}
+								isExported={
+									sym.kind !== "variable" && !sym.name.startsWith("_")
+								}
+							/>
+						</box>
+					))}
+			</box>
+		);
+	};
+
+	const renderDirectory = (directory: RepoMapDirectory, depth: number) => {
+		const isCollapsed = collapsedDirectories.has(directory.path);
+
+		return (
+			<box key={`${directory.path}/`} flexDirection="column" width="100%">
+				<DirectoryRow
+					depth={depth}
+					path={directory.path}
+					summary={directory.summary}
+					isCollapsed={isCollapsed}
+					isSelected={selectedPath === directory.path}
+				/>
+
+				{!isCollapsed &&
+					directory.directories.map((child) =>
+						renderDirectory(child, depth + 1),
+					)}
+				{!isCollapsed &&
+					directory.files.map((entry) => renderFile(entry, depth + 1))}
+			</box>
+		);
+	};
+
 	return (
 		<scrollbox width="100%" height="100%">
-			{entries.map((entry) => {
-				const isExpanded = expandedPaths.has(entry.filePath);
-				const isSelected = selectedPath === entry.filePath;
-				const aggregatePageRank = entry.symbols.reduce(
-					(sum, s) => sum + s.pagerankScore,
-					0,
-				);
-
-				return (
-					<box key={entry.filePath} flexDirection="column" width="100%">
-						<FileRow
-							filePath={entry.filePath}
-							symbolCount={entry.symbols.length}
-							aggregatePageRank={aggregatePageRank}
-							isExpanded={isExpanded}
-							isSelected={isSelected}
-						/>
-
-						{isExpanded &&
-							entry.symbols.map((sym) => (
-								<box key={entry.filePath + ":" + sym.name + ":" + sym.line}>
-									<SymbolRow
-										name={sym.name}
-										kind={sym.kind}
-										pagerankScore={sym.pagerankScore}
-										line={sym.line}
-										isExported={
-											sym.kind !== "variable" && !sym.name.startsWith("_")
-										}
-									/>
-								</box>
-							))}
-					</box>
-				);
-			})}
+			{renderDirectory(tree, 0)}
 		</scrollbox>
 	);
 }
@@ -1,13 +1,18 @@
 /**
  * useRepoMap Hook
  *
- * Loads and manages the structured repository map.
- * Supports filtering and expanding/collapsing file paths.
+ * Loads and manages the structured repository map as a directory tree,
+ * with directory summaries attached when the index has them.
+ * Supports filtering and expanding/collapsing directories and files.
  */
 
 import { useState, useCallback, useEffect } from "react";
 import type { FileTracker } from "../../core/tracker.js";
-import type { RepoMapEntry } from "../../types.js";
+import type {
+	RepoMapDirectory,
+	RepoMapDirectorySummary,
+	RepoMapEntry,
+} from "../../types.js";
 import { createRepoMapGenerator } from "../../core/repo-map.js";
 
 // ============================================================================
@@ -16,10 +21,16 @@ import { createRepoMapGenerator } from "../../core/repo-map.js";
 
 export interface UseRepoMapReturn {
 	entries: RepoMapEntry[];
+	/** Entries grouped into directories (null until loaded) */
+	tree: RepoMapDirectory | null;
 	filter: string;
 	setFilter: (f: string) => void;
+	/** Expanded files (files start collapsed) */
 	expandedPaths: Set<string>;
 	togglePath: (path: string) => void;
+	/** Collapsed directories (directories start expanded) */
+	collapsedDirectories: Set<string>;
+	toggleDirectory: (path: string) => void;
 	loading: boolean;
 	error: string | null;
 	refresh: () => void;
@@ -29,31 +40,59 @@ export interface UseRepoMapReturn {
 // Hook
 // ============================================================================
 
-export function useRepoMap(tracker: FileTracker): UseRepoMapReturn {
+export function useRepoMap(
+	tracker: FileTracker,
+	projectPath: string,
+): UseRepoMapReturn {
 	const [entries, setEntries] = useState<RepoMapEntry[]>([]);
+	const [tree, setTree] = useState<RepoMapDirectory | null>(null);
 	const [filter, setFilter] = useState("");
 	const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
+	const [collapsedDirectories, setCollapsedDirectories] = useState<Set<string>>(
+		new Set(),
+	);
+	const [directorySummaries, setDirectorySummaries] = useState<
+		RepoMapDirectorySummary[]
+	>([]);
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [refreshTick, setRefreshTick] = useState(0);
 
+	// Summaries live in the vector store; reload on refresh, not per filter
+	useEffect(() => {
+		let cancelled = false;
+		import("../../core/summarization/index.js")
+			.then(({ readDirectorySummaries }) => readDirectorySummaries(projectPath))
+			.then((summaries) => {
+				if (!cancelled) setDirectorySummaries(summaries);
+			})
+			.catch(() => {
+				// Map still works without summaries
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [projectPath, refreshTick]);
+
 	const loadMap = useCallback(async () => {
 		setLoading(true);
 		setError(null);
 
 		try {
 			const generator = createRepoMapGenerator(tracker);
-			const allEntries = generator.generateStructured({
+			const options = {
 				pathPattern: filter || undefined,
 				topNByPagerank: 5000,
-			});
-			setEntries(allEntries);
+				directorySummaries,
+			};
+			setEntries(generator.generateStructured(options));
+			setTree(generator.generateTree(options));
 		} catch (err) {
 			setError(err instanceof Error ? err.message : String(err));
 		} finally {
 			setLoading(false);
 		}
-	}, [tracker, filter, refreshTick]);
+	}, [tracker, filter, directorySummaries, refreshTick]);
 
 	useEffect(() => {
 		loadMap();
@@ -71,16 +110,31 @@ export function useRepoMap(tracker: FileTracker): UseRepoMapReturn {
 		});
 	}, []);
 
+	const toggleDirectory = useCallback((path: string) => {
+		setCollapsedDirectories((prev: Set<string>) => {
+			const next = new Set(prev);
+			if (next.has(path)) {
+				next.delete(path);
+			} else {
+				next.add(path);
+			}
+			return next;
+		});
+	}, []);
+
 	const refresh = useCallback(() => {
 		setRefreshTick((n: number) => n + 1);
 	}, []);
 
 	return {
 		entries,
+		tree,
 		filter,
 		setFilter,
 		expandedPaths,
 		togglePath,
+		collapsedDirectories,
+		toggleDirectory,
 		loading,
 		error,
 		refresh,
@@ -1,8 +1,8 @@
 /**
  * MapView
  *
- * Repository map with collapsible file/symbol tree.
- * Shows PageRank scores for each symbol.
+ * Repository map with a collapsible directory/file/symbol tree.
+ * Directories show their summaries; symbols show PageRank scores.
  *
  * Layout:
  *   Row 1: filter input
@@ -11,11 +11,52 @@
 
 import { useState, useEffect } from "react";
 import { useKeyboard } from "@opentui/react";
+import type { RepoMapDirectory } from "../../types.js";
 import { useAppContext } from "../context.js";
 import { useRepoMap } from "../hooks/useRepoMap.js";
 import { SymbolTree } from "../components/SymbolTree.js";
 import { theme } from "../theme.js";
 
+// ============================================================================
+// Navigation
+// ============================================================================
+
+interface NavItem {
+	path: string;
+	kind: "directory" | "file" | "symbol";
+}
+
+/**
+ * Flatten the visible part of the tree in display order
+ */
+function buildNavItems(
+	tree: RepoMapDirectory | null,
+	collapsedDirectories: Set<string>,
+	expandedPaths: Set<string>,
+): NavItem[] {
+	const items: NavItem[] = [];
+
+	const walk = (directory: RepoMapDirectory) => {
+		items.push({ path: directory.path, kind: "directory" });
+		if (collapsedDirectories.has(directory.path)) return;
+
+		for (const child of directory.directories) {
+			walk(child);
+		}
+		for (const entry of directory.files) {
+			items.push({ path: entry.filePath, kind: "file" });
+			if (expandedPaths.has(entry.filePath)) {
+				for (const sym of entry.symbols) {
+					items.push({ path: `${entry.filePath}:${sym.name}`, kind: "symbol" });
+				}
+			}
+		}
+	};
+
+	if (tree) walk(tree);
+	return items;
+}
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -23,6 +64,7 @@ import { theme } from "../theme.js";
 export function MapView() {
 	const {
 		tracker,
+		projectPath,
 		setActiveTab,
 		pushNav,
 		inputFocused,
@@ -30,15 +72,17 @@ export function MapView() {
 		activeTab,
 	} = useAppContext();
 	const {
-		entries,
+		tree,
 		filter,
 		setFilter,
 		expandedPaths,
 		togglePath,
+		collapsedDirectories,
+		toggleDirectory,
 		loading,
 		error,
 		refresh,
-	} = useRepoMap(tracker);
+	} = useRepoMap(tracker, projectPath);
 
 	const [selectedPath, setSelectedPath] = useState<string | null>(null);
 	const [filterFocused, setFilterFocused] = useState(false);
@@ -54,18 +98,7 @@ export function MapView() {
 	}, [filterFocused, activeTab, setInputFocused]);
 
 	// Build flat list of navigable items for keyboard nav
-	const navItems: Array<{ path: string; isFile: boolean }> = [];
-	for (const entry of entries) {
-		navItems.push({ path: entry.filePath, isFile: true });
-		if (expandedPaths.has(entry.filePath)) {
-			for (const sym of entry.symbols) {
-				navItems.push({
-					path: `${entry.filePath}:${sym.name}`,
-					isFile: false,
-				});
-			}
-		}
-	}
+	const navItems = buildNavItems(tree, collapsedDirectories, expandedPaths);
 
 	const currentNavIdx = navItems.findIndex(
 		(item) => item.path === selectedPath,
@@ -105,12 +138,15 @@ export function MapView() {
 			setSelectedPath(navItems[navItems.length - 1]?.path ?? null);
 			return;
 		}
-		// Enter or Right: expand file
+		// Enter or Right: expand directory or file
 		if (key.name === "return" || key.name === "right") {
 			if (selectedPath) {
-				// Only expand file-level paths
 				const item = navItems[currentNavIdx];
-				if (item?.isFile) {
+				if (item?.kind === "directory") {
+					if (key.name === "return" || collapsedDirectories.has(selectedPath)) {
+						toggleDirectory(selectedPath);
+					}
+				} else if (item?.kind === "file") {
 					togglePath(selectedPath);
 				} else if (selectedPath.includes(":")) {
 					// It's a symbol, navigate to graph
@@ -125,7 +161,10 @@ export function MapView() {
 		}
 		// Left: collapse
 		if (key.name === "left") {
-			if (selectedPath && expandedPaths.has(selectedPath)) {
+			const item = navItems[currentNavIdx];
+			if (item?.kind === "directory" && !collapsedDirectories.has(item.path)) {
+				toggleDirectory(item.path);
+			} else if (selectedPath && expandedPaths.has(selectedPath)) {
 				togglePath(selectedPath);
 			}
 			return;
@@ -133,7 +172,7 @@ export function MapView() {
 		// s: navigate to graph for symbol
 		if (key.name === "s") {
 			const item = navItems[currentNavIdx];
-			if (item && !item.isFile) {
+			if (item?.kind === "symbol") {
 				const symName = item.path.split(":").pop();
 				if (symName) {
 					pushNav(symName);
@@ -181,8 +220,9 @@ export function MapView() {
 			{/* Tree */}
 			<box flexDirection="column" flexGrow={1} overflow="hidden">
 				<SymbolTree
-					entries={entries}
+					tree={tree}
 					expandedPaths={expandedPaths}
+					collapsedDirectories={collapsedDirectories}
 					onToggle={togglePath}
 					selectedPath={selectedPath}
 					onSelect={setSelectedPath}
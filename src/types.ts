@@ -157,7 +157,8 @@ export type QueryIntent =
 	| "structural" // Asking about code relationships or structure
 	| "semantic" // Natural language question about functionality
 	| "similarity" // Looking for code similar to an example
-	| "location"; // Looking for code in a specific location
+	| "location" // Looking for code in a specific location
+	| "history"; // Asking why or when code changed (git history)
 
 /** Result of query classification */
 export interface QueryClassification {
@@ -253,6 +254,8 @@ export interface SearchResult {
 	documentType?: DocumentType;
 	/** Observation metadata (only for session_observation results) */
 	observationMetadata?: Record<string, unknown>;
+	/** Directory level (only for directory_summary results) */
+	directoryLevel?: DirectorySummaryLevel;
 }
 
 export interface SearchOptions {
@@ -268,6 +271,8 @@ export interface SearchOptions {
 	useCase?: SearchUseCase;
 	/** Use keyword search only (no embedding API call, faster but less semantic) */
 	keywordOnly?: boolean;
+	/** Use vector search only (no BM25); ignored when vectors are unavailable */
+	vectorOnly?: boolean;
 }
 
 // ============================================================================
@@ -304,6 +309,31 @@ export interface IndexStatus {
 	embeddingModel?: string;
 	/** Languages indexed */
 	languages: string[];
+	/** Git branch the index currently reflects */
+	branch?: string;
+	/** Branches with recorded index state, most recently indexed first */
+	indexedBranches?: string[];
+}
+
+/** A vector table directory and the embedding model that filled it */
+export interface VectorTableRef {
+	/** Directory name inside the index directory */
+	dir: string;
+	/** Embedding model of the table's vectors */
+	model: string;
+}
+
+/**
+ * Vector tables of a project (<indexDir>/vectors.json). Written by
+ * `mnemex migrate-model`; without it the table lives in "vectors".
+ */
+export interface VectorTablesState {
+	/** Table searches and indexing use */
+	active: VectorTableRef;
+	/** Table being built with a new model, not searched yet */
+	shadow?: VectorTableRef & { builtAt: string; records: number };
+	/** Table replaced by the last swap, kept for rollback */
+	previous?: VectorTableRef & { retiredAt: string };
 }
 
 export interface FileState {
@@ -464,6 +494,15 @@ export interface GlobalConfig {
 	 * to improve search quality over time.
 	 */
 	learning?: boolean;
+	/**
+	 * Let the PreToolUse hook steer tool choice with learned per-project
+	 * success rates (default: same as learning).
+	 */
+	toolGuidance?: boolean;
+
+	// ─── Embedding Cache Settings ───
+	/** Embedding cache shared by all projects (~/.mnemex/embedding-cache.db) */
+	embeddingCache?: EmbeddingCacheConfig;
 }
 
 export interface ProjectConfig {
@@ -483,6 +522,12 @@ export interface ProjectConfig {
 	excludePatterns?: string[];
 	/** Include only these patterns (glob patterns) */
 	includePatterns?: string[];
+	/**
+	 * Embed chunks with their context (file, enclosing class, imports,
+	 * callees) instead of raw content (default: false). Toggling this
+	 * re-embeds the index on the next run.
+	 */
+	contextualChunks?: boolean;
 	/** Use .gitignore patterns for exclusion (default: true) */
 	useGitignore?: boolean;
 	/** Enable auto-indexing on search (default: true) */
@@ -500,6 +545,10 @@ export interface ProjectConfig {
 	/** Documentation fetching configuration */
 	docs?: DocsConfig;
 
+	// ─── Git History Settings ───
+	/** Commit history indexing (history search backend) */
+	history?: HistoryConfig;
+
 	// ─── Search Settings ───
 	/**
 	 * How to handle test files in search results (default: 'downrank').
@@ -509,12 +558,18 @@ export interface ProjectConfig {
 	 */
 	testFiles?: "downrank" | "exclude" | "include";
 
+	// ─── Language Settings ───
+	/** Extra tree-sitter languages (grammars, queries, test patterns) */
+	languages?: LanguageDefinition[];
+
 	// ─── Self-Learning Settings ───
 	/**
 	 * Enable/disable self-learning for this project (overrides global).
 	 * When enabled, mnemex learns from interactions to improve search quality.
 	 */
 	learning?: boolean;
+	/** Enable/disable learned tool guidance in hooks (overrides global) */
+	toolGuidance?: boolean;
 
 	// ─── Index Format ───
 	/**
@@ -539,7 +594,7 @@ export interface DocsConfig {
 	enabled?: boolean;
 	/** Context7 API key (overrides global) */
 	context7ApiKey?: string;
-	/** Providers to use, in priority order (default: ["context7", "llms_txt", "devdocs"]) */
+	/** Providers to use, in priority order (default: ["context7", "llms_txt", "devdocs", "local"]) */
 	providers?: DocProviderType[];
 	/** Cache TTL in hours (default: 24) */
 	cacheTTL?: number;
@@ -549,6 +604,22 @@ export interface DocsConfig {
 	maxPagesPerLibrary?: number;
 }
 
+/** Configuration for git commit history indexing */
+export interface HistoryConfig {
+	/** Index commit messages and diffs of git repositories (default: false) */
+	enabled?: boolean;
+	/** Most recent commits to index (default: 500) */
+	maxCommits?: number;
+}
+
+/** Configuration for the global embedding cache */
+export interface EmbeddingCacheConfig {
+	/** Reuse embeddings of identical text across projects (default: true) */
+	enabled?: boolean;
+	/** Evict least recently used entries beyond this size (default: 2048) */
+	maxSizeMB?: number;
+}
+
 export interface Config extends GlobalConfig {
 	/** Project-specific overrides */
 	project?: ProjectConfig;
@@ -596,6 +667,11 @@ export type SupportedLanguage =
 	| "c"
 	| "cpp"
 	| "java"
+	| "ruby"
+	| "php"
+	| "kotlin"
+	| "swift"
+	| "csharp"
 	// NEW: Web languages
 	| "html"
 	| "css"
@@ -608,8 +684,10 @@ export type SupportedLanguage =
 	| "graphql"
 	// NEW: Config formats
 	| "json"
-	// NOTE: yaml, toml, markdown removed - no pre-built WASM grammars available
+	| "yaml"
+	| "toml"
 	// NEW: Document formats (limited support)
+	| "markdown"
 	| "rst"
 	| "asciidoc"
 	| "org"
@@ -629,6 +707,34 @@ export interface LanguageConfig {
 	referenceQuery?: string;
 }
 
+/**
+ * A project-defined language, declared under `languages` in the project
+ * config so internal DSLs can be indexed with their own tree-sitter grammar.
+ */
+export interface LanguageDefinition {
+	/** Language identifier (must not clash with a built-in language) */
+	id: string;
+	/** File extensions including the dot (e.g. [".rules"]) */
+	extensions: string[];
+	/** Path to the tree-sitter .wasm grammar, relative to the project root */
+	grammar: string;
+	/**
+	 * Tree-sitter query selecting chunks. Capture nodes as `@chunk` (a
+	 * function) or `@chunk.<kind>` where kind is function, method, class,
+	 * interface, struct, trait, enum, type, module, block or section.
+	 */
+	chunkQuery: string;
+	/** Tree-sitter query capturing @ref.call, @ref.type, @ref.import, ... */
+	referenceQuery?: string;
+	/** Test detection regexes, matched against lower-cased file paths */
+	testPatterns?: {
+		files?: string[];
+		directories?: string[];
+		/** Matched against symbol names (case-sensitive) */
+		symbols?: string[];
+	};
+}
+
 // ============================================================================
 // Parser Types
 // ============================================================================
@@ -710,6 +816,8 @@ export interface SymbolDefinition {
 	inDegree?: number;
 	/** Number of outgoing references */
 	outDegree?: number;
+	/** Hash of the symbol's source lines at index time (see hashSymbolBody) */
+	bodyHash?: string;
 	/** When symbol was created */
 	createdAt: string;
 	/** When symbol was last updated */
@@ -734,10 +842,44 @@ export interface SymbolReference {
 	line: number;
 	/** Whether reference has been resolved to a symbol */
 	isResolved: boolean;
+	/** Resolution confidence (0-1); below 1 when the target was guessed */
+	confidence?: number;
 	/** When reference was created */
 	createdAt: string;
 }
 
+/** Candidate target for an ambiguous reference */
+export interface ReferenceCandidate {
+	/** Reference this candidate belongs to */
+	referenceId: number;
+	/** Candidate target symbol */
+	symbolId: string;
+	/** Probability that this candidate is the real target (0-1) */
+	confidence: number;
+}
+
+/** Import binding captured from a source file */
+export interface FileImport {
+	/** File containing the import (relative to project root) */
+	filePath: string;
+	/** Module specifier as written ("./utils", "@app/core", "pkg.mod", Go import path) */
+	moduleSpecifier: string;
+	/**
+	 * Name exported by the module.
+	 * "*" for namespace/whole-module imports, "default" for default imports.
+	 */
+	importedName: string;
+	/**
+	 * Name bound in the importing file.
+	 * "*" for wildcard re-exports (`export * from`) and Python star imports.
+	 */
+	localName: string;
+	/** Line number of the import (1-indexed) */
+	line: number;
+	/** Whether this binding is re-exported (`export { x } from "./y"`) */
+	isReexport?: boolean;
+}
+
 /** Options for repo map generation */
 export interface RepoMapOptions {
 	/** Maximum tokens for the map (default: 2000) */
@@ -748,6 +890,8 @@ export interface RepoMapOptions {
 	pathPattern?: string;
 	/** Include top N symbols by PageRank */
 	topNByPagerank?: number;
+	/** Directory summaries to show above the files (text map and tree) */
+	directorySummaries?: RepoMapDirectorySummary[];
 }
 
 /** Entry in structured repo map */
@@ -764,6 +908,26 @@ export interface RepoMapEntry {
 	}>;
 }
 
+/** Directory summary as shown in repo maps */
+export interface RepoMapDirectorySummary {
+	/** Directory path relative to the project root ("." for the workspace) */
+	path: string;
+	level: DirectorySummaryLevel;
+	summary: string;
+}
+
+/** Directory node in the structured repo map tree */
+export interface RepoMapDirectory {
+	/** Directory path relative to the project root ("." for the workspace) */
+	path: string;
+	/** Summary of the directory, when one has been generated */
+	summary?: RepoMapDirectorySummary;
+	/** Subdirectories, sorted by path */
+	directories: RepoMapDirectory[];
+	/** Files directly in this directory, most important first */
+	files: RepoMapEntry[];
+}
+
 /** Symbol graph statistics */
 export interface SymbolGraphStats {
 	/** Total symbols in graph */
@@ -793,14 +957,16 @@ export type DocumentType =
 	| "usage_example"
 	| "anti_pattern"
 	| "project_doc"
+	| "directory_summary" // Directory, package and workspace summaries
 	// External documentation types
 	| "framework_doc" // Official framework documentation
 	| "best_practice" // Recommended patterns from docs
 	| "api_reference" // API reference documentation
-	| "session_observation"; // Cognitive memory: session observations
+	| "session_observation" // Cognitive memory: session observations
+	| "commit"; // Git history: commit message and diff
 
 /** Provider types for external documentation */
-export type DocProviderType = "context7" | "llms_txt" | "devdocs";
+export type DocProviderType = "context7" | "llms_txt" | "devdocs" | "local";
 
 /** Metadata for externally fetched documentation */
 export interface DocProviderMetadata {
@@ -947,6 +1113,24 @@ export interface ProjectDoc extends BaseDocument {
 	}>;
 }
 
+/** Level of a directory summary in the hierarchy */
+export type DirectorySummaryLevel = "directory" | "package" | "workspace";
+
+/** Directory-level summary built from the summaries of its children */
+export interface DirectorySummary extends BaseDocument {
+	documentType: "directory_summary";
+	/** Directory path relative to the project root ("." for the workspace) */
+	filePath: string;
+	/** Plain directory, package root (has a manifest) or workspace root */
+	level: DirectorySummaryLevel;
+	/** What the directory contains and is responsible for */
+	summary: string;
+	/** Child files and directories the summary was built from */
+	children: string[];
+	/** Hash of the child summaries, used to skip unchanged directories */
+	childHash: string;
+}
+
 /** Union type of all document types */
 export type Document =
 	| FileSummary
@@ -954,7 +1138,8 @@ export type Document =
 	| Idiom
 	| UsageExample
 	| AntiPattern
-	| ProjectDoc;
+	| ProjectDoc
+	| DirectorySummary;
 
 // ============================================================================
 // LLM Types (for Enrichment)
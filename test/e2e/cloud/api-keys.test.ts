@@ -2,7 +2,8 @@
  * E2E tests for API key management.
  *
  * Uses a dedicated server on port 4516 with MASTER_API_KEY enabled.
- * Tests creation, listing, deletion, usage tracking, and auth enforcement.
+ * Tests creation, listing, deletion, usage tracking, and auth enforcement,
+ * plus org/repo scopes, roles, rate limits and the usage audit.
  */
 
 import {
@@ -121,6 +122,66 @@ function fakeHash(n: number): string {
 	return `hash_${n.toString(16).padStart(62, "0")}`;
 }
 
+/** Create a key with the master key and return its secret and metadata */
+async function createKey(
+	body: Record<string, unknown>,
+	apiKey = MASTER_KEY,
+): Promise<{ key: { id: number; orgSlug: string | null }; secret: string }> {
+	const res = await apiRequest("/v1/keys", { method: "POST", body, apiKey });
+	expect(res.status).toBe(201);
+	return res.json();
+}
+
+/** Register a repo and upload one ready commit with the master key */
+async function seedRepo(
+	orgSlug: string,
+	repoSlug: string,
+	seed: number,
+): Promise<string> {
+	const registerRes = await apiRequest(
+		`/v1/repos/${orgSlug}/${repoSlug}/register`,
+		{ method: "POST", body: {}, apiKey: MASTER_KEY },
+	);
+	expect(registerRes.status).toBe(200);
+
+	const commitSha = fakeSha(seed);
+	const indexRes = await apiRequest("/v1/index", {
+		method: "POST",
+		body: {
+			orgSlug,
+			repoSlug,
+			commitSha,
+			parentShas: [],
+			chunks: [
+				{
+					contentHash: fakeHash(seed),
+					filePath: "src/index.ts",
+					startLine: 1,
+					endLine: 10,
+					language: "typescript",
+					chunkType: "function",
+					name: `fn_${seed}`,
+					vector: syntheticVector(seed),
+				},
+			],
+			mode: "thin",
+		},
+		apiKey: MASTER_KEY,
+	});
+	expect(indexRes.status).toBe(202);
+	return commitSha;
+}
+
+function searchBody(orgSlug: string, repoSlug: string, commitSha: string) {
+	return {
+		repoSlug: `${orgSlug}/${repoSlug}`,
+		commitSha,
+		queryText: "fn",
+		queryVector: syntheticVector(1),
+		limit: 5,
+	};
+}
+
 // ============================================================================
 // Test suite
 // ============================================================================
@@ -482,4 +543,339 @@ describe("E2E: API key management", () => {
 		expect(found.usage.total).toBeGreaterThan(0);
 		expect(found.usage.byEndpoint["POST /v1/search"]).toBeGreaterThan(0);
 	});
+	// --------------------------------------------------------------------------
+	// Roles
+	// --------------------------------------------------------------------------
+
+	it("search role can read but not upload", async () => {
+		const commitSha = await seedRepo("test-org", "role-repo", 300);
+		const { secret } = await createKey({
+			name: "reader",
+			orgSlug: "test-org",
+			role: "search",
+		});
+
+		const searchRes = await apiRequest("/v1/search", {
+			method: "POST",
+			body: searchBody("test-org", "role-repo", commitSha),
+			apiKey: secret,
+		});
+		expect(searchRes.status).toBe(200);
+
+		const statusRes = await apiRequest(
+			`/v1/commits/${commitSha}/status?repo=test-org/role-repo`,
+			{ apiKey: secret },
+		);
+		expect(statusRes.status).toBe(200);
+
+		const registerRes = await apiRequest(
+			"/v1/repos/test-org/role-repo/register",
+			{ method: "POST", body: {}, apiKey: secret },
+		);
+		expect(registerRes.status).toBe(403);
+		expect(await registerRes.json()).toMatchObject({
+			error: "forbidden",
+			requiredRole: "uploader",
+		});
+	});
+
+	it("admin role requires an org", async () => {
+		const res = await apiRequest("/v1/keys", {
+			method: "POST",
+			body: { name: "orgless-admin", role: "admin" },
+			apiKey: MASTER_KEY,
+		});
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({
+			error: "missing_field",
+			field: "orgSlug",
+		});
+	});
+
+	// --------------------------------------------------------------------------
+	// Scopes
+	// --------------------------------------------------------------------------
+
+	it("keys are limited to their org and repo list", async () => {
+		const allowedSha = await seedRepo("test-org", "allowed-repo", 310);
+		const deniedSha = await seedRepo("test-org", "denied-repo", 311);
+		const otherSha = await seedRepo("other-org", "allowed-repo", 312);
+
+		const { secret } = await createKey({
+			name: "ci",
+			orgSlug: "test-org",
+			repoSlugs: ["allowed-repo"],
+		});
+
+		const allowed = await apiRequest("/v1/search", {
+			method: "POST",
+			body: searchBody("test-org", "allowed-repo", allowedSha),
+			apiKey: secret,
+		});
+		expect(allowed.status).toBe(200);
+
+		for (const [org, repo, sha] of [
+			["test-org", "denied-repo", deniedSha],
+			["other-org", "allowed-repo", otherSha],
+		] as const) {
+			const denied = await apiRequest("/v1/search", {
+				method: "POST",
+				body: searchBody(org, repo, sha),
+				apiKey: secret,
+			});
+			expect(denied.status).toBe(403);
+			expect(await denied.json()).toMatchObject({
+				reason: "repo_not_in_key_scope",
+			});
+		}
+
+		// Uploads are scoped the same way
+		const upload = await apiRequest("/v1/index", {
+			method: "POST",
+			body: {
+				orgSlug: "test-org",
+				repoSlug: "denied-repo",
+				commitSha: fakeSha(313),
+				parentShas: [],
+				chunks: [],
+				mode: "thin",
+			},
+			apiKey: secret,
+		});
+		expect(upload.status).toBe(403);
+	});
+
+	it("PATCH rescopes and disables a key", async () => {
+		const { key, secret } = await createKey({
+			name: "rescoped",
+			orgSlug: "test-org",
+		});
+
+		const patchRes = await apiRequest(`/v1/keys/${key.id}`, {
+			method: "PATCH",
+			body: { repoSlugs: ["repo-a"], rateLimitPerMinute: 100 },
+			apiKey: MASTER_KEY,
+		});
+		expect(patchRes.status).toBe(200);
+		expect((await patchRes.json()).key).toMatchObject({
+			orgSlug: "test-org",
+			repoSlugs: ["repo-a"],
+			role: "uploader",
+			rateLimitPerMinute: 100,
+			dailyQuota: null,
+		});
+
+		const denied = await apiRequest("/v1/repos/test-org/repo-b/register", {
+			method: "POST",
+			body: {},
+			apiKey: secret,
+		});
+		expect(denied.status).toBe(403);
+		const allowed = await apiRequest("/v1/repos/test-org/repo-a/register", {
+			method: "POST",
+			body: {},
+			apiKey: secret,
+		});
+		expect(allowed.status).toBe(200);
+
+		await apiRequest(`/v1/keys/${key.id}`, {
+			method: "PATCH",
+			body: { isActive: false },
+			apiKey: MASTER_KEY,
+		});
+		const disabled = await apiRequest("/v1/repos/test-org/repo-a/register", {
+			method: "POST",
+			body: {},
+			apiKey: secret,
+		});
+		expect(disabled.status).toBe(403);
+	});
+
+	// --------------------------------------------------------------------------
+	// Org admin keys
+	// --------------------------------------------------------------------------
+
+	it("org admin keys manage only their own org's keys", async () => {
+		const admin = await createKey({
+			name: "acme-admin",
+			orgSlug: "acme",
+			role: "admin",
+		});
+		const foreign = await createKey({ name: "other", orgSlug: "other-org" });
+
+		// Keys created by the admin default to its org
+		const created = await createKey(
+			{ name: "acme-reader", role: "search" },
+			admin.secret,
+		);
+		expect(created.key.orgSlug).toBe("acme");
+
+		const otherOrg = await apiRequest("/v1/keys", {
+			method: "POST",
+			body: { name: "sneaky", orgSlug: "other-org" },
+			apiKey: admin.secret,
+		});
+		expect(otherOrg.status).toBe(403);
+
+		const listRes = await apiRequest("/v1/keys", { apiKey: admin.secret });
+		expect(listRes.status).toBe(200);
+		const names = (await listRes.json()).keys.map(
+			(k: { name: string }) => k.name,
+		);
+		expect(names.sort()).toEqual(["acme-admin", "acme-reader"]);
+
+		const deleteForeign = await apiRequest(`/v1/keys/${foreign.key.id}`, {
+			method: "DELETE",
+			apiKey: admin.secret,
+		});
+		expect(deleteForeign.status).toBe(404);
+	});
+
+	it("repo-scoped admin keys cannot grant wider access", async () => {
+		const admin = await createKey({
+			name: "scoped-admin",
+			orgSlug: "acme",
+			repoSlugs: ["api"],
+			role: "admin",
+		});
+
+		const wider = await apiRequest("/v1/keys", {
+			method: "POST",
+			body: { name: "org-wide" },
+			apiKey: admin.secret,
+		});
+		expect(wider.status).toBe(403);
+
+		await createKey({ name: "api-only", repoSlugs: ["api"] }, admin.secret);
+	});
+
+	it("admin keys can only tighten limits", async () => {
+		const admin = await createKey({
+			name: "limited-admin",
+			orgSlug: "acme",
+			role: "admin",
+			rateLimitPerMinute: 60,
+			dailyQuota: 1000,
+		});
+
+		// New keys may not be looser than the admin itself
+		const unlimited = await apiRequest("/v1/keys", {
+			method: "POST",
+			body: { name: "unlimited", rateLimitPerMinute: 30 },
+			apiKey: admin.secret,
+		});
+		expect(unlimited.status).toBe(403);
+		expect(await unlimited.json()).toEqual({
+			error: "forbidden",
+			reason: "limit_not_in_key_scope",
+			field: "dailyQuota",
+		});
+
+		const { key } = await createKey(
+			{ name: "tight", rateLimitPerMinute: 30, dailyQuota: 500 },
+			admin.secret,
+		);
+
+		const patch = (body: Record<string, unknown>, apiKey = admin.secret) =>
+			apiRequest(`/v1/keys/${key.id}`, { method: "PATCH", body, apiKey });
+
+		expect((await patch({ rateLimitPerMinute: null })).status).toBe(403);
+		expect((await patch({ rateLimitPerMinute: 45 })).status).toBe(403);
+		expect((await patch({ dailyQuota: 100 })).status).toBe(200);
+		expect((await patch({ dailyQuota: 500 })).status).toBe(403);
+
+		// Only the master key may raise or clear limits
+		const cleared = await patch(
+			{ rateLimitPerMinute: null, dailyQuota: null },
+			MASTER_KEY,
+		);
+		expect(cleared.status).toBe(200);
+		expect(await cleared.json()).toMatchObject({
+			key: { rateLimitPerMinute: null, dailyQuota: null },
+		});
+	});
+
+	// --------------------------------------------------------------------------
+	// Rate limits and quotas
+	// --------------------------------------------------------------------------
+
+	it("rate-limited key gets 429 with Retry-After", async () => {
+		const { secret } = await createKey({
+			name: "throttled",
+			orgSlug: "test-org",
+			rateLimitPerMinute: 2,
+		});
+
+		const path = `/v1/commits/${fakeSha(320)}/status?repo=test-org/limited`;
+		for (let i = 0; i < 2; i++) {
+			const res = await apiRequest(path, { apiKey: secret });
+			expect(res.status).toBe(200);
+			// Let the fire-and-forget usage write land before the next check
+			await new Promise((resolve) => setTimeout(resolve, 200));
+		}
+
+		const limited = await apiRequest(path, { apiKey: secret });
+		expect(limited.status).toBe(429);
+		const retryAfter = Number(limited.headers.get("Retry-After"));
+		expect(retryAfter).toBeGreaterThanOrEqual(1);
+		expect(retryAfter).toBeLessThanOrEqual(60);
+		expect(await limited.json()).toMatchObject({
+			error: "rate_limited",
+			limit: 2,
+		});
+	});
+
+	it("daily quota is enforced", async () => {
+		const { secret } = await createKey({
+			name: "quota",
+			orgSlug: "test-org",
+			dailyQuota: 1,
+		});
+
+		const path = `/v1/commits/${fakeSha(321)}/status?repo=test-org/quota`;
+		expect((await apiRequest(path, { apiKey: secret })).status).toBe(200);
+		await new Promise((resolve) => setTimeout(resolve, 200));
+
+		const limited = await apiRequest(path, { apiKey: secret });
+		expect(limited.status).toBe(429);
+		expect(await limited.json()).toMatchObject({ error: "quota_exceeded" });
+	});
+
+	// --------------------------------------------------------------------------
+	// Usage audit
+	// --------------------------------------------------------------------------
+
+	it("usage audit shows recent requests and status counts", async () => {
+		const { key, secret } = await createKey({
+			name: "audited",
+			orgSlug: "test-org",
+			repoSlugs: ["audited-repo"],
+		});
+
+		await apiRequest(
+			`/v1/commits/${fakeSha(330)}/status?repo=test-org/audited-repo`,
+			{ apiKey: secret },
+		);
+		await apiRequest(
+			`/v1/commits/${fakeSha(330)}/status?repo=test-org/other-repo`,
+			{ apiKey: secret },
+		);
+		await new Promise((resolve) => setTimeout(resolve, 200));
+
+		const res = await apiRequest(`/v1/keys/${key.id}/usage`, {
+			apiKey: MASTER_KEY,
+		});
+		expect(res.status).toBe(200);
+		const audit = await res.json();
+
+		expect(audit.key).toMatchObject({ id: key.id, name: "audited" });
+		expect(audit.window).toMatchObject({
+			dayCount: 2,
+			rateLimitPerMinute: null,
+			dailyQuota: null,
+		});
+		expect(audit.statusCounts).toEqual({ "200": 1, "403": 1 });
+		expect(audit.recent).toHaveLength(2);
+		expect(audit.recent[0].endpoint).toMatch(/^GET \/v1\/commits\//);
+	});
 });
@@ -0,0 +1,382 @@
+/**
+ * E2E tests for the symbol graph endpoints: symbol, callers, callees, map
+ * and graph.
+ *
+ * Uploads symbol graphs through /v1/index with the real ThinCloudClient,
+ * then reads them back through every graph endpoint and syncs them into a
+ * local FileTracker with GraphSyncer.
+ */
+
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+} from "bun:test";
+import { createGraphSyncer } from "../../../src/cloud/graph-sync.js";
+import {
+	CloudApiError,
+	createThinCloudClient,
+} from "../../../src/cloud/thin-client.js";
+import type {
+	CloudSymbol,
+	CloudSymbolReference,
+	UploadChunk,
+} from "../../../src/cloud/types.js";
+import { FileTracker } from "../../../src/core/tracker.js";
+import { TEST_ORG_SLUG, type TestContext, startTestInfra } from "./setup.js";
+
+// ============================================================================
+// Test data
+// ============================================================================
+
+const REPO_SLUG = "e2e-graph-repo";
+const REPO_SLUG_FULL = `${TEST_ORG_SLUG}/${REPO_SLUG}`;
+
+/** Generate a fake 40-char hex SHA */
+function fakeSha(n: number): string {
+	return n.toString(16).padStart(40, "0");
+}
+
+const COMMIT_SHA_1 = fakeSha(0x6a1);
+const COMMIT_SHA_2 = fakeSha(0x6a2);
+
+/** A symbol as the cloud indexer uploads it: unranked */
+function symbol(
+	name: string,
+	filePath: string,
+	startLine: number,
+): CloudSymbol {
+	return {
+		id: `${filePath}:${name}`,
+		name,
+		kind: "function",
+		filePath,
+		startLine,
+		endLine: startLine + 5,
+		isExported: true,
+		language: "typescript",
+		pagerankScore: 0,
+	};
+}
+
+function call(
+	from: string,
+	to: string,
+	filePath: string,
+	line: number,
+): CloudSymbolReference {
+	return {
+		fromSymbolId: `${filePath}:${from}`,
+		fromSymbolName: from,
+		toSymbolName: to,
+		kind: "call",
+		filePath,
+		line,
+	};
+}
+
+/** One chunk per symbol — the index upload requires chunks */
+function chunksFor(symbols: CloudSymbol[], seed: number): UploadChunk[] {
+	return symbols.map((s, i) => ({
+		contentHash: `graph_${(seed + i).toString(16).padStart(58, "0")}`,
+		filePath: s.filePath,
+		startLine: s.startLine,
+		endLine: s.endLine,
+		language: "typescript",
+		chunkType: "function",
+		name: s.name,
+		vector: Array.from({ length: 8 }, (_, j) => (j === i % 8 ? 1 : 0)),
+	}));
+}
+
+// src/app.ts: main → loadConfig, main → serve (src/server.ts),
+// loadConfig → serve. serve ranks highest, then loadConfig, then main.
+const APP_SYMBOLS = [
+	symbol("main", "src/app.ts", 1),
+	symbol("loadConfig", "src/app.ts", 10),
+];
+const SERVER_SYMBOLS = [symbol("serve", "src/server.ts", 1)];
+const REFERENCES = [
+	call("main", "loadConfig", "src/app.ts", 3),
+	call("main", "serve", "src/app.ts", 4),
+	call("loadConfig", "serve", "src/app.ts", 12),
+];
+const IMPORTS = [
+	{
+		filePath: "src/app.ts",
+		moduleSpecifier: "./server",
+		importedName: "serve",
+		localName: "serve",
+		line: 1,
+	},
+];
+
+// ============================================================================
+// Test suite
+// ============================================================================
+
+describe("E2E: Symbol graph endpoints", () => {
+	let ctx: TestContext;
+
+	beforeAll(async () => {
+		ctx = await startTestInfra(4517);
+	}, 30_000);
+
+	afterAll(async () => {
+		await ctx.stop();
+	});
+
+	beforeEach(async () => {
+		await ctx.resetDb();
+	});
+
+	// Dummy token — server doesn't check auth
+	function createClient() {
+		return createThinCloudClient({ endpoint: ctx.endpoint, token: "dummy" });
+	}
+
+	/** Register the repo and upload the first commit with its graph */
+	async function uploadFirstCommit() {
+		const client = createClient();
+		await client.registerRepo({ orgSlug: TEST_ORG_SLUG, repoSlug: REPO_SLUG });
+
+		const symbols = [...APP_SYMBOLS, ...SERVER_SYMBOLS];
+		const upload = await client.uploadIndex({
+			orgSlug: TEST_ORG_SLUG,
+			repoSlug: REPO_SLUG,
+			commitSha: COMMIT_SHA_1,
+			parentShas: [],
+			chunks: chunksFor(symbols, 0),
+			mode: "thin",
+			graphFiles: ["src/app.ts", "src/server.ts"],
+			symbols,
+			references: REFERENCES,
+			imports: IMPORTS,
+		});
+		expect(upload.status).toBe("ready");
+		return client;
+	}
+
+	// --------------------------------------------------------------------------
+	// Lookups
+	// --------------------------------------------------------------------------
+
+	it("serves symbol, callers and callees", async () => {
+		const client = await uploadFirstCommit();
+
+		const symbols = await client.getSymbol(
+			REPO_SLUG_FULL,
+			COMMIT_SHA_1,
+			"serve",
+		);
+		expect(symbols).toHaveLength(1);
+		expect(symbols[0]).toMatchObject({
+			id: "src/server.ts:serve",
+			filePath: "src/server.ts",
+			startLine: 1,
+			isExported: true,
+		});
+		expect(symbols[0]?.pagerankScore).toBeCloseTo(0.521, 3);
+
+		const callers = await client.getCallers(
+			REPO_SLUG_FULL,
+			COMMIT_SHA_1,
+			"serve",
+		);
+		expect(callers.callers).toEqual([
+			{ name: "main", kind: "function", filePath: "src/app.ts", line: 4 },
+			{
+				name: "loadConfig",
+				kind: "function",
+				filePath: "src/app.ts",
+				line: 12,
+			},
+		]);
+
+		const callees = await client.getCallees(
+			REPO_SLUG_FULL,
+			COMMIT_SHA_1,
+			"main",
+		);
+		expect(callees.callees).toEqual([
+			{
+				name: "loadConfig",
+				kind: "function",
+				filePath: "src/app.ts",
+				line: 10,
+			},
+			{ name: "serve", kind: "function", filePath: "src/server.ts", line: 1 },
+		]);
+	});
+
+	it("serves a ranked repo map within the token budget", async () => {
+		const client = await uploadFirstCommit();
+
+		const map = await client.getMap(REPO_SLUG_FULL, COMMIT_SHA_1);
+		const lines = map.trim().split("\n");
+		expect(lines[0]).toContain(REPO_SLUG_FULL);
+		// Highest PageRank file first
+		expect(lines.filter((l) => l.startsWith("file="))).toEqual([
+			"file=src/server.ts",
+			"file=src/app.ts",
+		]);
+		expect(map).toContain("symbol name=serve kind=function line=1 rank=0.521");
+
+		const focused = await client.getMap(REPO_SLUG_FULL, COMMIT_SHA_1, "main");
+		expect(focused).toContain("# Query: main");
+		expect(focused.split("\n").find((l) => l.startsWith("file="))).toBe(
+			"file=src/app.ts",
+		);
+
+		const tiny = await client.getMap(
+			REPO_SLUG_FULL,
+			COMMIT_SHA_1,
+			undefined,
+			20,
+		);
+		expect(tiny).not.toContain("file=src/app.ts");
+	});
+
+	it("serves the full graph and the graph of selected files", async () => {
+		const client = await uploadFirstCommit();
+
+		const graph = await client.getGraph(REPO_SLUG_FULL, COMMIT_SHA_1);
+		expect(graph.symbols.map((s) => s.name).sort()).toEqual([
+			"loadConfig",
+			"main",
+			"serve",
+		]);
+		expect(graph.references).toHaveLength(3);
+		expect(graph.imports).toEqual([{ ...IMPORTS[0], isReexport: false }]);
+		expect(graph.repoMap).toContain("file=src/server.ts");
+
+		const partial = await client.getGraph(REPO_SLUG_FULL, COMMIT_SHA_1, {
+			filePaths: ["src/server.ts"],
+		});
+		expect(partial.symbols.map((s) => s.name)).toEqual(["serve"]);
+		expect(partial.references).toHaveLength(0);
+	});
+
+	// --------------------------------------------------------------------------
+	// Inheritance
+	// --------------------------------------------------------------------------
+
+	it("child commits inherit unchanged file graphs", async () => {
+		const client = await uploadFirstCommit();
+
+		// Commit 2 rewrites src/server.ts and deletes nothing else
+		const serverSymbols = [
+			symbol("serve", "src/server.ts", 5),
+			symbol("listen", "src/server.ts", 20),
+		];
+		await client.uploadIndex({
+			orgSlug: TEST_ORG_SLUG,
+			repoSlug: REPO_SLUG,
+			commitSha: COMMIT_SHA_2,
+			parentShas: [COMMIT_SHA_1],
+			chunks: chunksFor(serverSymbols, 100),
+			mode: "thin",
+			graphFiles: ["src/server.ts"],
+			symbols: serverSymbols,
+			references: [call("serve", "listen", "src/server.ts", 7)],
+		});
+
+		const graph = await client.getGraph(REPO_SLUG_FULL, COMMIT_SHA_2);
+		expect(graph.symbols.map((s) => s.name).sort()).toEqual([
+			"listen",
+			"loadConfig",
+			"main",
+			"serve",
+		]);
+
+		const serve = await client.getSymbol(REPO_SLUG_FULL, COMMIT_SHA_2, "serve");
+		expect(serve.map((s) => s.startLine)).toEqual([5]);
+
+		// The parent commit is unchanged
+		const parentServe = await client.getSymbol(
+			REPO_SLUG_FULL,
+			COMMIT_SHA_1,
+			"serve",
+		);
+		expect(parentServe.map((s) => s.startLine)).toEqual([1]);
+	});
+
+	it("ranks inherited files over the child commit's whole graph", async () => {
+		const client = await uploadFirstCommit();
+
+		const rankOf = async (sha: string, name: string) =>
+			(await client.getSymbol(REPO_SLUG_FULL, sha, name))[0]?.pagerankScore ??
+			0;
+
+		// At commit 1 nothing calls main
+		expect(await rankOf(COMMIT_SHA_1, "main")).toBeLessThan(
+			await rankOf(COMMIT_SHA_1, "loadConfig"),
+		);
+
+		// Commit 2 only adds src/cli.ts, whose run calls main
+		const cliSymbols = [symbol("run", "src/cli.ts", 1)];
+		await client.uploadIndex({
+			orgSlug: TEST_ORG_SLUG,
+			repoSlug: REPO_SLUG,
+			commitSha: COMMIT_SHA_2,
+			parentShas: [COMMIT_SHA_1],
+			chunks: chunksFor(cliSymbols, 200),
+			mode: "thin",
+			graphFiles: ["src/cli.ts"],
+			symbols: cliSymbols,
+			references: [call("run", "main", "src/cli.ts", 2)],
+		});
+
+		// The inherited src/app.ts is re-ranked at commit 2
+		expect(await rankOf(COMMIT_SHA_2, "main")).toBeGreaterThan(
+			await rankOf(COMMIT_SHA_2, "loadConfig"),
+		);
+
+		// The parent commit keeps its own ranks
+		expect(await rankOf(COMMIT_SHA_1, "main")).toBeLessThan(
+			await rankOf(COMMIT_SHA_1, "loadConfig"),
+		);
+	});
+
+	// --------------------------------------------------------------------------
+	// Errors
+	// --------------------------------------------------------------------------
+
+	it("returns 404 for unknown commits", async () => {
+		const client = await uploadFirstCommit();
+
+		const error = await client
+			.getCallers(REPO_SLUG_FULL, fakeSha(0xdead), "serve")
+			.catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(CloudApiError);
+		expect((error as CloudApiError).statusCode).toBe(404);
+	});
+
+	// --------------------------------------------------------------------------
+	// GraphSyncer round trip
+	// --------------------------------------------------------------------------
+
+	it("GraphSyncer materializes the cloud graph locally", async () => {
+		const client = await uploadFirstCommit();
+		const fileTracker = new FileTracker(":memory:", "/e2e-graph-project");
+
+		try {
+			const result = await createGraphSyncer({
+				projectPath: "/e2e-graph-project",
+				cloudClient: client,
+				repoSlug: REPO_SLUG_FULL,
+				commitSha: COMMIT_SHA_1,
+				fileTracker,
+			}).syncGraph();
+
+			expect(result.symbolCount).toBe(3);
+			expect(result.referenceCount).toBe(3);
+			expect(fileTracker.getSymbolByName("serve")).toHaveLength(1);
+		} finally {
+			fileTracker.close();
+		}
+	});
+});
@@ -89,9 +89,8 @@ export class TestWorkspace {
 
 		await this._walkAndIndex(tracker, extractor, pm);
 
-		tracker.resolveReferencesByName();
-
-		const graphManager = createReferenceGraphManager(tracker);
+		const graphManager = createReferenceGraphManager(tracker, this.root);
+		await graphManager.resolveReferences();
 
 		const cachedIndex: CachedIndex = {
 			tracker,
@@ -227,6 +226,9 @@ export class TestWorkspace {
 			const content = readFileSync(absPath, "utf-8");
 
 			const symbols = await extractor.extractSymbols(content, relPath, lang);
+			tracker.insertImports(
+				await extractor.extractImports(content, relPath, lang),
+			);
 			if (symbols.length > 0) {
 				tracker.insertSymbols(symbols);
 
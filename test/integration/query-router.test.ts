@@ -2,7 +2,8 @@
  * Integration tests for QueryRouter
  *
  * Tests:
- * - Query classification (symbol, structural, semantic, location, similarity)
+ * - Query classification (symbol, structural, semantic, location, similarity,
+ *   history)
  * - Strategy generation
  * - Entity extraction
  */
@@ -125,6 +126,23 @@ describe("QueryRouter", () => {
 		});
 	});
 
+	describe("History classification", () => {
+		test("classifies 'why was' queries as history", async () => {
+			const result = await router.route("why was the retry limit lowered");
+			expect(result.classification.intent).toBe("history");
+		});
+
+		test("classifies 'when was ... added' queries as history", async () => {
+			const result = await router.route("when was rate limiting added");
+			expect(result.classification.intent).toBe("history");
+		});
+
+		test("classifies commit queries as history", async () => {
+			const result = await router.route("commits that touched billing");
+			expect(result.classification.intent).toBe("history");
+		});
+	});
+
 	describe("Semantic classification", () => {
 		test("classifies natural language questions as semantic", async () => {
 			const result = await router.route("how does authentication work");
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for API key roles, repo scopes and usage limits
+ *
+ * Pure unit tests — no database, no HTTP server.
+ * Tests cover:
+ *  - Role ordering (search < uploader < admin) and the master key
+ *  - Org and repo scope checks, including legacy unscoped keys
+ *  - The 403 response of checkRepoAccess
+ *  - Rate limit and daily quota decisions with Retry-After
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	type AuthenticatedKey,
+	type KeyUsageWindow,
+	canAccessRepo,
+	checkRepoAccess,
+	checkUsageLimits,
+	hasRole,
+	isKeyRole,
+} from "../../../src/cloud/server/access.js";
+import type { RequestContext } from "../../../src/cloud/server/router.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function makeKey(overrides: Partial<AuthenticatedKey> = {}): AuthenticatedKey {
+	return {
+		id: 1,
+		role: "uploader",
+		orgId: 1,
+		orgSlug: "acme",
+		repoSlugs: null,
+		rateLimitPerMinute: null,
+		dailyQuota: null,
+		...overrides,
+	};
+}
+
+function makeUsage(overrides: Partial<KeyUsageWindow> = {}): KeyUsageWindow {
+	return {
+		minuteCount: 0,
+		minuteResetSeconds: null,
+		dayCount: 0,
+		dayResetSeconds: null,
+		...overrides,
+	};
+}
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+describe("hasRole", () => {
+	test("higher roles include lower ones", () => {
+		const admin = makeKey({ role: "admin" });
+		expect(hasRole(admin, "search")).toBe(true);
+		expect(hasRole(admin, "uploader")).toBe(true);
+		expect(hasRole(admin, "admin")).toBe(true);
+	});
+
+	test("search keys cannot upload or manage keys", () => {
+		const search = makeKey({ role: "search" });
+		expect(hasRole(search, "search")).toBe(true);
+		expect(hasRole(search, "uploader")).toBe(false);
+		expect(hasRole(search, "admin")).toBe(false);
+	});
+
+	test("uploader keys cannot manage keys", () => {
+		expect(hasRole(makeKey({ role: "uploader" }), "admin")).toBe(false);
+	});
+
+	test("master key (no AuthenticatedKey) has every role", () => {
+		expect(hasRole(undefined, "admin")).toBe(true);
+	});
+});
+
+describe("isKeyRole", () => {
+	test("accepts known roles only", () => {
+		expect(isKeyRole("search")).toBe(true);
+		expect(isKeyRole("admin")).toBe(true);
+		expect(isKeyRole("owner")).toBe(false);
+		expect(isKeyRole(1)).toBe(false);
+	});
+});
+
+// ============================================================================
+// Scopes
+// ============================================================================
+
+describe("canAccessRepo", () => {
+	test("org-wide key can access every repo of its org only", () => {
+		const key = makeKey();
+		expect(canAccessRepo(key, "acme", "api")).toBe(true);
+		expect(canAccessRepo(key, "acme", "web")).toBe(true);
+		expect(canAccessRepo(key, "other", "api")).toBe(false);
+	});
+
+	test("repo-scoped key can access listed repos only", () => {
+		const key = makeKey({ repoSlugs: ["api"] });
+		expect(canAccessRepo(key, "acme", "api")).toBe(true);
+		expect(canAccessRepo(key, "acme", "web")).toBe(false);
+		expect(canAccessRepo(key, "other", "api")).toBe(false);
+	});
+
+	test("legacy unscoped key and master key can access any repo", () => {
+		const legacy = makeKey({ orgId: null, orgSlug: null });
+		expect(canAccessRepo(legacy, "other", "api")).toBe(true);
+		expect(canAccessRepo(undefined, "other", "api")).toBe(true);
+	});
+});
+
+describe("checkRepoAccess", () => {
+	function makeCtx(apiKey?: AuthenticatedKey): RequestContext {
+		return { apiKey, metrics: {} } as unknown as RequestContext;
+	}
+
+	test("returns null when the repo is in scope", () => {
+		expect(checkRepoAccess(makeCtx(makeKey()), "acme", "api")).toBeNull();
+	});
+
+	test("returns 403 and records the error when out of scope", async () => {
+		const ctx = makeCtx(makeKey({ repoSlugs: ["api"] }));
+		const response = checkRepoAccess(ctx, "acme", "web");
+
+		expect(response?.status).toBe(403);
+		expect(await response?.json()).toEqual({
+			error: "forbidden",
+			reason: "repo_not_in_key_scope",
+		});
+		expect(ctx.metrics).toMatchObject({
+			orgSlug: "acme",
+			repoSlug: "web",
+			errorCode: "repo_forbidden",
+		});
+	});
+});
+
+// ============================================================================
+// Usage limits
+// ============================================================================
+
+describe("checkUsageLimits", () => {
+	test("unlimited keys are never limited", () => {
+		const usage = makeUsage({ minuteCount: 10_000, dayCount: 1_000_000 });
+		expect(checkUsageLimits(makeKey(), usage)).toBeNull();
+	});
+
+	test("allows requests below the rate limit", () => {
+		const key = makeKey({ rateLimitPerMinute: 5 });
+		expect(checkUsageLimits(key, makeUsage({ minuteCount: 4 }))).toBeNull();
+	});
+
+	test("rate limit reached → rate_limited with Retry-After from the window", () => {
+		const key = makeKey({ rateLimitPerMinute: 5 });
+		const result = checkUsageLimits(
+			key,
+			makeUsage({ minuteCount: 5, minuteResetSeconds: 12.3 }),
+		);
+		expect(result).toEqual({
+			error: "rate_limited",
+			limit: 5,
+			retryAfterSeconds: 13,
+		});
+	});
+
+	test("daily quota reached → quota_exceeded", () => {
+		const key = makeKey({ dailyQuota: 100 });
+		const result = checkUsageLimits(
+			key,
+			makeUsage({ dayCount: 100, dayResetSeconds: 3600 }),
+		);
+		expect(result).toEqual({
+			error: "quota_exceeded",
+			limit: 100,
+			retryAfterSeconds: 3600,
+		});
+	});
+
+	test("rate limit is reported before the daily quota", () => {
+		const key = makeKey({ rateLimitPerMinute: 1, dailyQuota: 1 });
+		const result = checkUsageLimits(
+			key,
+			makeUsage({ minuteCount: 1, dayCount: 1, minuteResetSeconds: 30 }),
+		);
+		expect(result?.error).toBe("rate_limited");
+	});
+
+	test("Retry-After is clamped to between 1 second and the window", () => {
+		const key = makeKey({ rateLimitPerMinute: 1 });
+		expect(
+			checkUsageLimits(
+				key,
+				makeUsage({ minuteCount: 1, minuteResetSeconds: -0.5 }),
+			)?.retryAfterSeconds,
+		).toBe(1);
+		expect(
+			checkUsageLimits(key, makeUsage({ minuteCount: 1 }))?.retryAfterSeconds,
+		).toBe(60);
+	});
+});
@@ -2,22 +2,29 @@
  * Unit tests for GraphSyncer
  *
  * Tests the GraphSyncer against LocalCloudStub (no real HTTP) and a
- * minimal in-memory IFileTracker. Verifies that:
+ * FileTracker backed by an in-memory database. Verifies that:
  *  - syncGraph() downloads symbols and references from the cloud
+ *  - The graph is materialized into the local symbol tables and resolved
+ *  - Later syncs only replace files changed between commits
+ *  - Commits served from an indexed ancestor are synced as that ancestor
  *  - The repo map is cached in local FileTracker metadata
  *  - Counts are reported correctly in GraphSyncResult
  *  - Missing commits return zero counts without throwing
  */
 
-import { describe, test, expect, beforeEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { LocalCloudStub } from "../../../src/cloud/stub.js";
 import {
 	GraphSyncer,
 	createGraphSyncer,
 } from "../../../src/cloud/graph-sync.js";
 import type { GraphSyncOptions } from "../../../src/cloud/graph-sync.js";
-import type { IFileTracker } from "../../../src/core/tracker.js";
+import { FileTracker } from "../../../src/core/tracker.js";
 import type {
+	ChangedFile,
+	CloudSymbol,
+	CloudSymbolReference,
+	IChangeDetector,
 	UploadIndexRequest,
 	UploadChunk,
 } from "../../../src/cloud/types.js";
@@ -30,6 +37,8 @@ const PROJECT_PATH = "/project";
 const REPO = "acme-corp/my-repo";
 const COMMIT_SHA = "aaaa1111bbbb2222cccc3333dddd4444eeee5555";
 const MISSING_SHA = "ffff0000ffff0000ffff0000ffff0000ffff0000";
+const NEXT_SHA = "1111aaaa2222bbbb3333cccc4444dddd5555eeee";
+const UNINDEXED_SHA = "9999aaaa9999bbbb9999cccc9999dddd9999eeee";
 
 function makeChunk(overrides: Partial<UploadChunk> = {}): UploadChunk {
 	return {
@@ -45,6 +54,82 @@ function makeChunk(overrides: Partial<UploadChunk> = {}): UploadChunk {
 	};
 }
 
+function makeSymbol(
+	name: string,
+	filePath: string,
+	overrides: Partial<CloudSymbol> = {},
+): CloudSymbol {
+	return {
+		id: `${filePath}#${name}`,
+		name,
+		kind: "function",
+		filePath,
+		startLine: 1,
+		endLine: 10,
+		isExported: true,
+		language: "typescript",
+		pagerankScore: 0,
+		...overrides,
+	};
+}
+
+function makeRef(
+	from: CloudSymbol,
+	toSymbolName: string,
+	overrides: Partial<CloudSymbolReference> = {},
+): CloudSymbolReference {
+	return {
+		fromSymbolId: from.id,
+		fromSymbolName: from.name,
+		toSymbolName,
+		kind: "call",
+		filePath: from.filePath,
+		line: 5,
+		...overrides,
+	};
+}
+
+/** Change detector that reports a fixed diff between any two commits */
+function makeChangeDetector(
+	changedFiles: ChangedFile[] | Error,
+): IChangeDetector {
+	return {
+		async getChangedFiles() {
+			if (changedFiles instanceof Error) throw changedFiles;
+			return changedFiles;
+		},
+		async getDirtyFiles() {
+			return [];
+		},
+		async getHeadSha() {
+			return COMMIT_SHA;
+		},
+		async getParentShas() {
+			return [];
+		},
+	};
+}
+
+/**
+ * The stub, serving `requested` from `ancestor` like the server's
+ * nearest-ancestor fallback
+ */
+function serveFromAncestor(
+	requested: string,
+	ancestor: string,
+): GraphSyncOptions["cloudClient"] {
+	const getGraph = stub.getGraph.bind(stub);
+	return Object.assign(Object.create(stub), {
+		async getGraph(
+			...[repoSlug, commitSha, query]: Parameters<LocalCloudStub["getGraph"]>
+		) {
+			if (commitSha !== requested) return getGraph(repoSlug, commitSha, query);
+			const graph = await getGraph(repoSlug, ancestor, query);
+			return { ...graph, resolvedCommitSha: ancestor };
+		},
+	});
+}
+
 function makeUploadRequest(
 	chunks: UploadChunk[],
 	overrides: Partial<UploadIndexRequest> = {},
@@ -60,66 +145,20 @@ function makeUploadRequest(
 	};
 }
 
-// ============================================================================
-// Minimal in-memory IFileTracker
-// ============================================================================
-
-class InMemoryFileTracker implements IFileTracker {
-	private metadata = new Map<string, string>();
-
-	getChanges(_currentFiles: string[]) {
-		return { added: [], modified: [], deleted: [], unchanged: [] };
-	}
-	markIndexed(_filePath: string, _contentHash: string, _chunkIds: string[]) {}
-	getChunkIds(_filePath: string): string[] {
-		return [];
-	}
-	removeFile(_filePath: string) {}
-	getFileState(_filePath: string) {
-		return null;
-	}
-	getAllFiles() {
-		return [];
-	}
-	getMetadata(key: string): string | null {
-		return this.metadata.get(key) ?? null;
-	}
-	setMetadata(key: string, value: string): void {
-		this.metadata.set(key, value);
-	}
-	getStats() {
-		return { totalFiles: 0, lastIndexed: null };
-	}
-	clear() {
-		this.metadata.clear();
-	}
-	recordActivity(_type: string, _metadata: Record<string, unknown>): number {
-		return 0;
-	}
-	needsEnrichment(_filePath: string, _documentType: string): boolean {
-		return false;
-	}
-	setEnrichmentState(
-		_filePath: string,
-		_documentType: string,
-		_state: string,
-	): void {}
-	getFilesNeedingEnrichment(_documentType: string): string[] {
-		return [];
-	}
-	trackDocuments(_docs: unknown[]): void {}
-}
-
 // ============================================================================
 // Setup
 // ============================================================================
 
 let stub: LocalCloudStub;
-let fileTracker: InMemoryFileTracker;
+let fileTracker: FileTracker;
 
 beforeEach(() => {
 	stub = new LocalCloudStub();
-	fileTracker = new InMemoryFileTracker();
+	fileTracker = new FileTracker(":memory:", PROJECT_PATH);
+});
+
+afterEach(() => {
+	fileTracker.close();
 });
 
 function makeSyncer(overrides: Partial<GraphSyncOptions> = {}): GraphSyncer {
@@ -304,3 +343,243 @@ describe("GraphSyncer — progress callback", () => {
 		expect(messages[0]).toContain(REPO);
 	});
 });
+
+// ============================================================================
+// syncGraph — materializing the graph locally
+// ============================================================================
+
+describe("GraphSyncer — full graph sync", () => {
+	const run = makeSymbol("run", "src/app.ts");
+	const helper = makeSymbol("helper", "src/util.ts");
+	const orphan = makeSymbol("orphan", "src/util.ts", {
+		startLine: 20,
+		endLine: 30,
+	});
+
+	beforeEach(async () => {
+		await stub.uploadIndex(
+			makeUploadRequest([], {
+				graphFiles: ["src/app.ts", "src/util.ts"],
+				symbols: [run, helper, orphan],
+				references: [makeRef(run, "helper")],
+				imports: [
+					{
+						filePath: "src/app.ts",
+						moduleSpecifier: "./util.js",
+						importedName: "helper",
+						localName: "helper",
+						line: 1,
+					},
+				],
+			}),
+		);
+	});
+
+	test("writes symbols, references and imports into the local tables", async () => {
+		const result = await makeSyncer().syncGraph();
+
+		expect(result.mode).toBe("full");
+		expect(result.symbolCount).toBe(3);
+		expect(result.referenceCount).toBe(1);
+		expect(fileTracker.getAllSymbols()).toHaveLength(3);
+		expect(fileTracker.getImportsByFile("src/app.ts")).toHaveLength(1);
+	});
+
+	test("resolves references so callers work offline", async () => {
+		const result = await makeSyncer().syncGraph();
+
+		expect(result.resolvedCount).toBe(1);
+		const callers = fileTracker.getReferencesTo(helper.id!);
+		expect(callers.map((r) => r.fromSymbolId)).toEqual([run.id!]);
+	});
+
+	test("computes PageRank and the local repo map", async () => {
+		await makeSyncer().syncGraph();
+
+		const helperSym = fileTracker.getSymbol(helper.id!);
+		const orphanSym = fileTracker.getSymbol(orphan.id!);
+		expect(helperSym!.pagerankScore).toBeGreaterThan(orphanSym!.pagerankScore);
+		expect(fileTracker.getMetadata("repoMap")).toContain("helper");
+	});
+
+	test("replaces a previously synced graph", async () => {
+		fileTracker.insertSymbols([
+			{
+				id: "stale",
+				name: "stale",
+				kind: "function",
+				filePath: "src/old.ts",
+				startLine: 1,
+				endLine: 2,
+				isExported: true,
+				language: "typescript",
+				pagerankScore: 0,
+				createdAt: new Date().toISOString(),
+				updatedAt: new Date().toISOString(),
+			},
+		]);
+
+		await makeSyncer().syncGraph();
+
+		expect(fileTracker.getSymbol("stale")).toBeNull();
+	});
+
+	test("attributes references without fromSymbolId to the enclosing symbol", async () => {
+		await stub.uploadIndex(
+			makeUploadRequest([], {
+				commitSha: NEXT_SHA,
+				parentShas: [COMMIT_SHA],
+				graphFiles: ["src/app.ts"],
+				symbols: [run],
+				references: [
+					makeRef(run, "helper", { fromSymbolId: undefined, line: 3 }),
+				],
+			}),
+		);
+
+		const result = await makeSyncer({ commitSha: NEXT_SHA }).syncGraph();
+
+		expect(result.referenceCount).toBe(1);
+		expect(fileTracker.getReferencesFrom(run.id!)[0].toSymbolId).toBe(
+			helper.id!,
+		);
+	});
+
+	test("reports unchanged when the graph is already at the commit", async () => {
+		await makeSyncer().syncGraph();
+		const result = await makeSyncer().syncGraph();
+
+		expect(result.mode).toBe("unchanged");
+		expect(fileTracker.getAllSymbols()).toHaveLength(3);
+	});
+});
+
+describe("GraphSyncer — incremental sync", () => {
+	const run = makeSymbol("run", "src/app.ts");
+	const helper = makeSymbol("helper", "src/util.ts");
+	const legacy = makeSymbol("legacy", "src/legacy.ts");
+	const helperV2 = makeSymbol("helper", "src/helpers.ts");
+
+	beforeEach(async () => {
+		await stub.uploadIndex(
+			makeUploadRequest([], {
+				graphFiles: ["src/app.ts", "src/util.ts", "src/legacy.ts"],
+				symbols: [run, helper, legacy],
+				references: [makeRef(run, "helper")],
+			}),
+		);
+		// helper moves from util.ts to helpers.ts, legacy.ts is deleted
+		await stub.uploadIndex(
+			makeUploadRequest([], {
+				commitSha: NEXT_SHA,
+				parentShas: [COMMIT_SHA],
+				graphFiles: ["src/helpers.ts", "src/util.ts"],
+				deletedFiles: ["src/legacy.ts"],
+				symbols: [helperV2],
+			}),
+		);
+		await makeSyncer().syncGraph();
+	});
+
+	const diff: ChangedFile[] = [
+		{ filePath: "src/helpers.ts", status: "renamed", oldPath: "src/util.ts" },
+		{ filePath: "src/legacy.ts", status: "deleted" },
+	];
+
+	test("replaces only the files changed since the last synced commit", async () => {
+		const result = await makeSyncer({
+			commitSha: NEXT_SHA,
+			changeDetector: makeChangeDetector(diff),
+		}).syncGraph();
+
+		expect(result.mode).toBe("incremental");
+		expect(result.filesSynced).toBe(3);
+		expect(result.symbolCount).toBe(1);
+
+		const names = fileTracker
+			.getAllSymbols()
+			.map((s) => `${s.filePath}:${s.name}`)
+			.sort();
+		expect(names).toEqual(["src/app.ts:run", "src/helpers.ts:helper"]);
+	});
+
+	test("re-resolves references from unchanged files", async () => {
+		await makeSyncer({
+			commitSha: NEXT_SHA,
+			changeDetector: makeChangeDetector(diff),
+		}).syncGraph();
+
+		expect(fileTracker.getReferencesFrom(run.id!)[0].toSymbolId).toBe(
+			helperV2.id!,
+		);
+		expect(fileTracker.getMetadata("cloudGraphCommit")).toBe(NEXT_SHA);
+	});
+
+	test("falls back to a full sync when the diff is unavailable", async () => {
+		const result = await makeSyncer({
+			commitSha: NEXT_SHA,
+			changeDetector: makeChangeDetector(new Error("unknown revision")),
+		}).syncGraph();
+
+		expect(result.mode).toBe("full");
+		expect(fileTracker.getSymbolByName("legacy")).toHaveLength(0);
+	});
+
+	test("force downloads the full graph", async () => {
+		const result = await makeSyncer({
+			commitSha: NEXT_SHA,
+			changeDetector: makeChangeDetector(diff),
+			force: true,
+		}).syncGraph();
+
+		expect(result.mode).toBe("full");
+		expect(result.symbolCount).toBe(2);
+	});
+
+	test("syncs the full graph of the ancestor serving an unindexed commit", async () => {
+		const syncer = makeSyncer({
+			cloudClient: serveFromAncestor(UNINDEXED_SHA, NEXT_SHA),
+			commitSha: UNINDEXED_SHA,
+			changeDetector: makeChangeDetector(diff),
+		});
+
+		const result = await syncer.syncGraph();
+		expect(result.mode).toBe("full");
+		expect(fileTracker.getSymbolByName("legacy")).toHaveLength(0);
+		expect(fileTracker.getMetadata("cloudGraphCommit")).toBe(NEXT_SHA);
+		expect(fileTracker.getMetadata("cloudRepoMapCommit")).toBe(NEXT_SHA);
+
+		// The local graph is already at the ancestor
+		expect((await syncer.syncGraph()).mode).toBe("unchanged");
+	});
+});
+
+// ============================================================================
+// getGraph on LocalCloudStub — per-commit graph
+// ============================================================================
+
+describe("LocalCloudStub.getGraph — uploaded graph", () => {
+	test("inherits the parent graph and filters by file", async () => {
+		const a = makeSymbol("a", "src/a.ts");
+		const b = makeSymbol("b", "src/b.ts");
+		await stub.uploadIndex(
+			makeUploadRequest([], { graphFiles: ["src/a.ts"], symbols: [a] }),
+		);
+		await stub.uploadIndex(
+			makeUploadRequest([], {
+				commitSha: NEXT_SHA,
+				parentShas: [COMMIT_SHA],
+				graphFiles: ["src/b.ts"],
+				symbols: [b],
+			}),
+		);
+
+		const full = await stub.getGraph(REPO, NEXT_SHA);
+		expect(full.symbols.map((s) => s.name).sort()).toEqual(["a", "b"]);
+
+		const partial = await stub.getGraph(REPO, NEXT_SHA, {
+			filePaths: ["src/b.ts"],
+		});
+		expect(partial.symbols.map((s) => s.name)).toEqual(["b"]);
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for cloud symbol graph ranking
+ *
+ * Pure unit tests — no database, no HTTP server.
+ * Tests cover:
+ *  - PageRank over name-only references, summing to 1
+ *  - Binding references to a same-file definition first
+ *  - Splitting ambiguous references across definitions
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	type RankedReference,
+	type RankedSymbol,
+	computeSymbolRanks,
+} from "../../../src/cloud/server/graph.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function symbol(name: string, filePath: string): RankedSymbol {
+	return { filePath, symbolId: `${filePath}:${name}`, name };
+}
+
+function call(from: string, to: string, filePath: string): RankedReference {
+	return {
+		filePath,
+		fromSymbolId: `${filePath}:${from}`,
+		fromSymbolName: from,
+		toSymbolName: to,
+	};
+}
+
+// ============================================================================
+// computeSymbolRanks
+// ============================================================================
+
+describe("computeSymbolRanks", () => {
+	test("ranks referenced symbols above their callers", () => {
+		const ranks = computeSymbolRanks(
+			[
+				symbol("main", "src/app.ts"),
+				symbol("loadConfig", "src/app.ts"),
+				symbol("serve", "src/server.ts"),
+			],
+			[
+				call("main", "loadConfig", "src/app.ts"),
+				call("main", "serve", "src/app.ts"),
+				call("loadConfig", "serve", "src/app.ts"),
+			],
+		);
+
+		const [main = 0, loadConfig = 0, serve = 0] = ranks;
+		expect(serve).toBeGreaterThan(loadConfig);
+		expect(loadConfig).toBeGreaterThan(main);
+		expect(serve).toBeCloseTo(0.521, 3);
+		expect(ranks.reduce((sum, r) => sum + r, 0)).toBeCloseTo(1, 10);
+	});
+
+	test("unreferenced symbols share the rank evenly", () => {
+		expect(
+			computeSymbolRanks([symbol("a", "a.ts"), symbol("b", "b.ts")], []),
+		).toEqual([0.5, 0.5]);
+		expect(computeSymbolRanks([], [])).toEqual([]);
+	});
+
+	test("prefers a definition in the referencing file", () => {
+		const [, localHelper = 0, otherHelper = 0] = computeSymbolRanks(
+			[
+				symbol("main", "src/app.ts"),
+				symbol("helper", "src/app.ts"),
+				symbol("helper", "src/other.ts"),
+			],
+			[call("main", "helper", "src/app.ts")],
+		);
+		expect(localHelper).toBeGreaterThan(otherHelper);
+	});
+
+	test("splits references to ambiguous names across definitions", () => {
+		const [, first = 0, second = 0] = computeSymbolRanks(
+			[
+				symbol("main", "src/app.ts"),
+				symbol("helper", "src/a.ts"),
+				symbol("helper", "src/b.ts"),
+			],
+			[call("main", "helper", "src/app.ts")],
+		);
+		expect(first).toBeCloseTo(second, 10);
+	});
+
+	test("ignores references from symbols not in the graph", () => {
+		const ranks = computeSymbolRanks(
+			[symbol("a", "a.ts"), symbol("b", "b.ts")],
+			[call("missing", "b", "a.ts")],
+		);
+		expect(ranks).toEqual([0.5, 0.5]);
+	});
+});
@@ -16,11 +16,12 @@
  * 10. correct CloudIndexResult returned
  */
 
-import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { describe, test, expect, beforeEach, afterAll, mock } from "bun:test";
 import type {
 	IChangeDetector,
 	ChangedFile,
 	DirtyFile,
+	UploadIndexRequest,
 } from "../../../src/cloud/types.js";
 import type { IEmbeddingsClient, EmbedResult } from "../../../src/types.js";
 import { LocalCloudStub } from "../../../src/cloud/stub.js";
@@ -30,6 +31,23 @@ import type { TeamConfig } from "../../../src/cloud/types.js";
 // Module mocks
 // ============================================================================
 
+// Real modules, copied before they are mocked. Module mocks outlive this
+// file, so they are put back once its tests finish.
+const realFs = { ...(await import("node:fs")) };
+const realChunker = { ...(await import("../../../src/core/chunker.js")) };
+const realParserManager = {
+	...(await import("../../../src/parsers/parser-manager.js")),
+};
+
+afterAll(() => {
+	mock.module("node:fs", () => realFs);
+	mock.module("../../../src/core/chunker.js", () => realChunker);
+	mock.module(
+		"../../../src/parsers/parser-manager.js",
+		() => realParserManager,
+	);
+});
+
 // Mock node:fs so we can control file reading without a real filesystem
 const mockReadFileSync = mock((_path: unknown, _enc: unknown): string => {
 	return 'function hello() { return "hello world"; }';
@@ -71,10 +89,12 @@ mock.module("../../../src/core/chunker.js", () => ({
 
 // Mock parser manager initialize
 mock.module("../../../src/parsers/parser-manager.js", () => ({
+	...realParserManager,
 	getParserManager: mock(() => ({
 		initialize: mock(async () => {}),
 		isSupported: mock(() => true),
 		getLanguage: mock(() => "typescript"),
+		getCustomLanguage: mock(() => undefined),
 	})),
 }));
 
@@ -404,6 +424,37 @@ describe("CloudAwareIndexer — deleted files", () => {
 	});
 });
 
+// ============================================================================
+// Symbol graph
+// ============================================================================
+
+describe("CloudAwareIndexer — symbol graph", () => {
+	test("lists changed and renamed-from paths as graph files", async () => {
+		changeDetector.changedFiles = [
+			{ filePath: "src/hello.ts", status: "modified" },
+			{ filePath: "src/new.ts", status: "renamed", oldPath: "src/old.ts" },
+			{ filePath: "src/removed.ts", status: "deleted" },
+		];
+
+		let request: UploadIndexRequest | undefined;
+		const upload = stub.uploadIndex.bind(stub);
+		stub.uploadIndex = async (req) => {
+			request = req;
+			return upload(req);
+		};
+
+		await makeIndexer().indexToCloud();
+
+		expect(request!.graphFiles).toEqual([
+			"src/hello.ts",
+			"src/new.ts",
+			"src/old.ts",
+		]);
+		expect(Array.isArray(request!.symbols)).toBe(true);
+		expect(Array.isArray(request!.references)).toBe(true);
+	});
+});
+
 // ============================================================================
 // Empty changeset
 // ============================================================================
@@ -13,7 +13,15 @@
  *  - close() releases resources
  */
 
-import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import {
+	describe,
+	test,
+	expect,
+	beforeEach,
+	afterEach,
+	afterAll,
+	mock,
+} from "bun:test";
 import {
 	mkdtempSync,
 	rmSync,
@@ -30,12 +38,29 @@ import type { EmbedResult } from "../../../src/types.js";
 // Module mocks (must come before imports that use them)
 // ============================================================================
 
+// Real modules, copied before they are mocked. Module mocks outlive this
+// file, so they are put back once its tests finish.
+const realChunker = { ...(await import("../../../src/core/chunker.js")) };
+const realParserManager = {
+	...(await import("../../../src/parsers/parser-manager.js")),
+};
+
+afterAll(() => {
+	mock.module("../../../src/core/chunker.js", () => realChunker);
+	mock.module(
+		"../../../src/parsers/parser-manager.js",
+		() => realParserManager,
+	);
+});
+
 // Mock parser manager to avoid loading WASM in unit tests
 mock.module("../../../src/parsers/parser-manager.js", () => ({
+	...realParserManager,
 	getParserManager: mock(() => ({
 		initialize: mock(async () => {}),
 		isSupported: mock(() => true),
 		getLanguage: mock(() => "typescript"),
+		getCustomLanguage: mock(() => undefined),
 	})),
 }));
 
@@ -11,9 +11,18 @@
  *  - Handles overlay failure gracefully (returns cloud-only results)
  *  - Handles dirty files failure gracefully (treats as no dirty files)
  *  - Respects limit
+ *  - Falls back to the nearest indexed ancestor when HEAD is not indexed
+ *  - Retries an ancestor lookup that found nothing after a short delay
  */
 
-import { describe, test, expect, beforeEach } from "bun:test";
+import {
+	describe,
+	test,
+	expect,
+	beforeEach,
+	afterEach,
+	setSystemTime,
+} from "bun:test";
 import type {
 	ICloudIndexClient,
 	IOverlayIndex,
@@ -41,6 +50,10 @@ import {
 	CloudAwareSearch,
 	createCloudAwareSearch,
 } from "../../../src/cloud/search.js";
+import {
+	findIndexedAncestor,
+	mergeAncestorChanges,
+} from "../../../src/cloud/ancestor.js";
 
 // ============================================================================
 // Stub helpers
@@ -84,6 +97,10 @@ function makeOverlayResult(filePath: string, score = 0.7): SearchResult {
 class MockChangeDetector implements IChangeDetector {
 	dirtyFiles: DirtyFile[];
 	shouldThrow = false;
+	/** Parent SHAs keyed by commit SHA */
+	parents = new Map<string, string[]>();
+	changedFiles: ChangedFile[] = [];
+	diffs: Array<{ from: string | null; to: string }> = [];
 
 	constructor(dirtyFiles: DirtyFile[] = []) {
 		this.dirtyFiles = dirtyFiles;
@@ -98,15 +115,16 @@ class MockChangeDetector implements IChangeDetector {
 		return "abc123";
 	}
 
-	async getParentShas(_sha: string): Promise<string[]> {
-		return [];
+	async getParentShas(sha: string): Promise<string[]> {
+		return this.parents.get(sha) ?? [];
 	}
 
 	async getChangedFiles(
-		_from: string | null,
-		_to: string,
+		from: string | null,
+		to: string,
 	): Promise<ChangedFile[]> {
-		return [];
+		this.diffs.push({ from, to });
+		return this.changedFiles;
 	}
 }
 
@@ -157,9 +175,15 @@ class MockOverlayIndex implements IOverlayIndex {
 class MockCloudClient implements ICloudIndexClient {
 	results: CloudSearchResult[] = [];
 	shouldThrow = false;
+	/** Commits reported as "ready" by getCommitStatus */
+	readyShas = new Set<string>();
+	statusShouldThrow = false;
+	statusChecks: string[] = [];
+	searchedShas: string[] = [];
 
-	async search(_req: CloudSearchRequest): Promise<CloudSearchResult[]> {
+	async search(req: CloudSearchRequest): Promise<CloudSearchResult[]> {
 		if (this.shouldThrow) throw new Error("network error");
+		this.searchedShas.push(req.commitSha);
 		return this.results;
 	}
 
@@ -176,9 +200,14 @@ class MockCloudClient implements ICloudIndexClient {
 
 	async getCommitStatus(
 		_repoSlug: string,
-		_commitSha: string,
+		commitSha: string,
 	): Promise<CommitStatus> {
-		return { commitSha: _commitSha, status: "not_found" };
+		this.statusChecks.push(commitSha);
+		if (this.statusShouldThrow) throw new Error("network error");
+		return {
+			commitSha,
+			status: this.readyShas.has(commitSha) ? "ready" : "not_found",
+		};
 	}
 
 	async waitForCommit(
@@ -542,3 +571,199 @@ describe("CloudAwareSearch.search — progress callback", () => {
 		expect(messages.length).toBeGreaterThan(0);
 	});
 });
+
+// ============================================================================
+// Nearest indexed ancestor
+// ============================================================================
+
+describe("findIndexedAncestor", () => {
+	test("returns the commit itself when it is ready", async () => {
+		cloudClient.readyShas.add("head");
+
+		const base = await findIndexedAncestor(
+			cloudClient,
+			changeDetector,
+			REPO_SLUG,
+			"head",
+		);
+
+		expect(base).toEqual({ commitSha: "head", distance: 0 });
+	});
+
+	test("walks parents breadth-first to the closest ready commit", async () => {
+		// head → merge(left, right); left → main, right is ready
+		changeDetector.parents.set("head", ["merge"]);
+		changeDetector.parents.set("merge", ["left", "right"]);
+		changeDetector.parents.set("left", ["main"]);
+		cloudClient.readyShas = new Set(["right", "main"]);
+
+		const base = await findIndexedAncestor(
+			cloudClient,
+			changeDetector,
+			REPO_SLUG,
+			"head",
+		);
+
+		expect(base).toEqual({ commitSha: "right", distance: 2 });
+		expect(cloudClient.statusChecks).toEqual([
+			"head",
+			"merge",
+			"left",
+			"right",
+		]);
+	});
+
+	test("gives up after maxAncestors status checks", async () => {
+		changeDetector.parents.set("c3", ["c2"]);
+		changeDetector.parents.set("c2", ["c1"]);
+		cloudClient.readyShas.add("c1");
+
+		const base = await findIndexedAncestor(
+			cloudClient,
+			changeDetector,
+			REPO_SLUG,
+			"c3",
+			2,
+		);
+
+		expect(base).toBeNull();
+		expect(cloudClient.statusChecks).toEqual(["c3", "c2"]);
+	});
+});
+
+describe("mergeAncestorChanges", () => {
+	test("splits renames and lets uncommitted changes win", () => {
+		const merged = mergeAncestorChanges(
+			[
+				{ filePath: "src/new.ts", status: "renamed", oldPath: "src/old.ts" },
+				{ filePath: "src/a.ts", status: "added" },
+				{ filePath: "src/gone.ts", status: "deleted" },
+			],
+			[{ filePath: "src/a.ts", status: "modified" }],
+		);
+
+		expect(merged).toEqual([
+			{ filePath: "src/old.ts", status: "deleted" },
+			{ filePath: "src/new.ts", status: "added" },
+			{ filePath: "src/a.ts", status: "modified" },
+			{ filePath: "src/gone.ts", status: "deleted" },
+		]);
+	});
+});
+
+describe("CloudAwareSearch.search — ancestor fallback", () => {
+	const PARENT_SHA = "def456def456def456def456def456def456def4";
+
+	test("searches HEAD directly when it is indexed", async () => {
+		cloudClient.readyShas.add(COMMIT_SHA);
+		overlayIndex.stale = false;
+
+		await makeSearch().search("foo");
+
+		expect(cloudClient.searchedShas).toEqual([COMMIT_SHA]);
+		expect(changeDetector.diffs).toHaveLength(0);
+	});
+
+	test("searches the ready ancestor and overlays the commits since", async () => {
+		changeDetector.parents.set(COMMIT_SHA, [PARENT_SHA]);
+		changeDetector.changedFiles = [
+			{ filePath: "src/committed.ts", status: "modified" },
+		];
+		changeDetector.dirtyFiles = [
+			{ filePath: "src/dirty.ts", status: "modified" },
+		];
+		cloudClient.readyShas.add(PARENT_SHA);
+		cloudClient.results = [
+			makeCloudResult("src/committed.ts", 0.95),
+			makeCloudResult("src/clean.ts", 0.7),
+		];
+
+		let rebuiltWith: DirtyFile[] = [];
+		overlayIndex.rebuild = async (files) => {
+			rebuiltWith = files;
+		};
+
+		const search = makeSearch();
+		const results = await search.search("foo");
+
+		expect(cloudClient.searchedShas).toEqual([PARENT_SHA]);
+		expect(changeDetector.diffs).toEqual([
+			{ from: PARENT_SHA, to: COMMIT_SHA },
+		]);
+		expect(rebuiltWith.map((f) => f.filePath).sort()).toEqual([
+			"src/committed.ts",
+			"src/dirty.ts",
+		]);
+		// The ancestor's copy of a file changed since is shadowed
+		expect(
+			results.some(
+				(r) => r.source === "cloud" && r.chunk.filePath === "src/committed.ts",
+			),
+		).toBe(false);
+
+		// The ancestor is resolved once per instance
+		await search.search("bar");
+		expect(cloudClient.statusChecks).toEqual([COMMIT_SHA, PARENT_SHA]);
+	});
+
+	test("falls back to HEAD when no ancestor is indexed", async () => {
+		changeDetector.parents.set(COMMIT_SHA, [PARENT_SHA]);
+		overlayIndex.stale = false;
+
+		await makeSearch().search("foo");
+
+		expect(cloudClient.searchedShas).toEqual([COMMIT_SHA]);
+		expect(changeDetector.diffs).toHaveLength(0);
+	});
+});
+
+describe("CloudAwareSearch.search — ancestor lookup retries", () => {
+	const PARENT_SHA = "def456def456def456def456def456def456def4";
+
+	afterEach(() => {
+		setSystemTime();
+	});
+
+	test("retries a lookup that found nothing after a minute", async () => {
+		changeDetector.parents.set(COMMIT_SHA, [PARENT_SHA]);
+		overlayIndex.stale = false;
+		const start = new Date("2026-01-01T00:00:00Z");
+		setSystemTime(start);
+
+		const search = makeSearch();
+		await search.search("foo");
+		await search.search("foo");
+		expect(cloudClient.statusChecks).toEqual([COMMIT_SHA, PARENT_SHA]);
+
+		// The ancestor was uploaded meanwhile
+		cloudClient.readyShas.add(PARENT_SHA);
+		setSystemTime(new Date(start.getTime() + 61_000));
+		await search.search("foo");
+
+		expect(cloudClient.searchedShas).toEqual([
+			COMMIT_SHA,
+			COMMIT_SHA,
+			PARENT_SHA,
+		]);
+	});
+
+	test("does not keep a cloud error", async () => {
+		cloudClient.statusShouldThrow = true;
+		overlayIndex.stale = false;
+		const start = new Date("2026-01-01T00:00:00Z");
+		setSystemTime(start);
+
+		const search = makeSearch();
+		await search.search("foo");
+		expect(cloudClient.statusChecks).toEqual([COMMIT_SHA]);
+
+		cloudClient.statusShouldThrow = false;
+		cloudClient.readyShas.add(COMMIT_SHA);
+		setSystemTime(new Date(start.getTime() + 61_000));
+		await search.search("foo");
+		await search.search("foo");
+
+		// Found now, and kept
+		expect(cloudClient.statusChecks).toEqual([COMMIT_SHA, COMMIT_SHA]);
+	});
+});
@@ -9,7 +9,7 @@
  *  - Inherits all other methods unchanged from ThinCloudClient
  */
 
-import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
 import {
 	SmartCloudClient,
 	createSmartCloudClient,
@@ -44,6 +44,13 @@ function mockResponse(
 	return new Response(bodyText, { status, headers: responseHeaders });
 }
 
+const realFetch = globalThis.fetch;
+
+// Restore the real fetch so the mock does not leak into other test files
+afterEach(() => {
+	globalThis.fetch = realFetch;
+});
+
 function mockFetch(response: Response): ReturnType<typeof mock> {
 	const fetchMock = mock(async () => response);
 	// biome-ignore lint/suspicious/noExplicitAny: mock global fetch
@@ -6,7 +6,7 @@
  * and handles HTTP error codes properly.
  */
 
-import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
 import {
 	ThinCloudClient,
 	CloudApiError,
@@ -44,6 +44,13 @@ function mockResponse(
 	return new Response(bodyText, { status, headers: responseHeaders });
 }
 
+const realFetch = globalThis.fetch;
+
+// Restore the real fetch so the mock does not leak into other test files
+afterEach(() => {
+	globalThis.fetch = realFetch;
+});
+
 /** Replace global fetch with a mock that returns the given response */
 function mockFetch(response: Response): ReturnType<typeof mock> {
 	const fetchMock = mock(async () => response);
@@ -422,6 +429,36 @@ describe("ThinCloudClient.getMap", () => {
 	});
 });
 
+describe("ThinCloudClient.getGraph", () => {
+	const graph = { symbols: [], references: [], imports: [], repoMap: "" };
+
+	test("POSTs file paths in the body", async () => {
+		const fetchMock = mockFetch(mockResponse(graph));
+		await client.getGraph(REPO, COMMIT_SHA, { filePaths: ["src/a.ts"] });
+		const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(url).toContain("/v1/graph");
+		expect(init.method).toBe("POST");
+		expect(JSON.parse(init.body as string)).toEqual({
+			filePaths: ["src/a.ts"],
+		});
+	});
+
+	test("reports the ancestor commit the server resolved", async () => {
+		const ancestor = "a".repeat(40);
+		mockFetch(
+			mockResponse(graph, 200, { "X-Mnemex-Resolved-Commit": ancestor }),
+		);
+		const result = await client.getGraph(REPO, COMMIT_SHA);
+		expect(result.resolvedCommitSha).toBe(ancestor);
+	});
+
+	test("defaults the resolved commit to the requested one", async () => {
+		mockFetch(mockResponse(graph));
+		const result = await client.getGraph(REPO, COMMIT_SHA);
+		expect(result.resolvedCommitSha).toBe(COMMIT_SHA);
+	});
+});
+
 // ============================================================================
 // Error handling
 // ============================================================================
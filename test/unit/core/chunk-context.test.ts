@@ -0,0 +1,193 @@
+/**
+ * Unit tests for contextual chunk text (src/core/chunk-context.ts)
+ *
+ * The tracker is an in-memory stand-in holding a hand-built symbol graph.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	ChunkContextBuilder,
+	formatContextualChunkText,
+} from "../../../src/core/chunk-context.js";
+import type { IFileTracker } from "../../../src/core/tracker.js";
+import type {
+	CodeChunk,
+	FileImport,
+	SymbolDefinition,
+	SymbolReference,
+} from "../../../src/types.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const NOW = new Date().toISOString();
+const FILE = "src/service.ts";
+
+function sym(
+	id: string,
+	name: string,
+	startLine: number,
+	endLine: number,
+	overrides: Partial<SymbolDefinition> = {},
+): SymbolDefinition {
+	return {
+		id,
+		name,
+		kind: "function",
+		filePath: FILE,
+		startLine,
+		endLine,
+		isExported: true,
+		language: "typescript",
+		pagerankScore: 0,
+		createdAt: NOW,
+		updatedAt: NOW,
+		...overrides,
+	};
+}
+
+function call(
+	fromSymbolId: string,
+	toSymbolName: string,
+	line: number,
+	toSymbolId?: string,
+): SymbolReference {
+	return {
+		fromSymbolId,
+		toSymbolName,
+		toSymbolId,
+		kind: "call",
+		filePath: FILE,
+		line,
+		isResolved: !!toSymbolId,
+		createdAt: NOW,
+	};
+}
+
+const SYMBOLS = [
+	sym("cls", "UserService", 3, 30, {
+		kind: "class",
+		signature: "export class UserService {",
+	}),
+	sym("load", "load", 5, 12, {
+		kind: "method",
+		parentId: "cls",
+		signature: "async load(id: string): Promise<User>",
+	}),
+	sym("fetchJson", "fetchJson", 1, 4, {
+		filePath: "src/http.ts",
+		signature: "export function fetchJson(url: string): Promise<unknown>",
+	}),
+];
+
+const REFERENCES = [
+	call("load", "fetchJson", 6, "fetchJson"),
+	call("load", "log", 7),
+	call("load", "log", 9),
+	call("cls", "outside", 20),
+];
+
+const IMPORTS: FileImport[] = [
+	{
+		filePath: FILE,
+		moduleSpecifier: "./http.js",
+		importedName: "fetchJson",
+		localName: "fetchJson",
+		line: 1,
+	},
+	{
+		filePath: FILE,
+		moduleSpecifier: "./logger.js",
+		importedName: "default",
+		localName: "log",
+		line: 2,
+	},
+	{
+		filePath: FILE,
+		moduleSpecifier: "node:fs",
+		importedName: "readFileSync",
+		localName: "readFileSync",
+		line: 3,
+	},
+];
+
+const tracker = {
+	getSymbolsByFile: (filePath: string) =>
+		SYMBOLS.filter((s) => s.filePath === filePath),
+	getImportsByFile: () => IMPORTS,
+	getSymbol: (id: string) => SYMBOLS.find((s) => s.id === id) ?? null,
+	getReferencesFrom: (id: string) =>
+		REFERENCES.filter((r) => r.fromSymbolId === id),
+} as unknown as IFileTracker;
+
+function chunk(startLine: number, endLine: number, content: string): CodeChunk {
+	return {
+		id: `chunk-${startLine}`,
+		contentHash: "hash",
+		content,
+		filePath: FILE,
+		startLine,
+		endLine,
+		language: "typescript",
+		chunkType: "method",
+		fileHash: "file-hash",
+	};
+}
+
+const LOAD = chunk(
+	5,
+	12,
+	"async load(id) {\n  const user = await fetchJson(`/users/${id}`);\n  log(user);\n}",
+);
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("formatContextualChunkText", () => {
+	test("omits empty header lines", () => {
+		expect(
+			formatContextualChunkText("x()", {
+				filePath: "a.ts",
+				imports: [],
+				callees: ["x(): void"],
+			}),
+		).toBe("File: a.ts\nCalls: x(): void\n\nx()");
+	});
+});
+
+describe("ChunkContextBuilder", () => {
+	const builder = new ChunkContextBuilder(tracker, "/nonexistent", [
+		FILE,
+		"src/http.ts",
+		"src/logger.ts",
+	]);
+
+	test("adds the class header, resolved imports and callees", () => {
+		const context = builder.buildContext(FILE, LOAD, SYMBOLS, IMPORTS);
+		expect(context).toEqual({
+			filePath: FILE,
+			parentSignature: "export class UserService {",
+			imports: ["fetchJson (src/http.ts)", "log (src/logger.ts)"],
+			callees: [
+				"export function fetchJson(url: string): Promise<unknown>",
+				"log",
+			],
+		});
+	});
+
+	test("uses the enclosing symbol for a split part", () => {
+		const part = chunk(9, 12, "  log(user);\n}");
+		const context = builder.buildContext(FILE, part, SYMBOLS, IMPORTS);
+		expect(context.parentSignature).toBe("export class UserService {");
+		expect(context.callees).toEqual(["log"]);
+		expect(context.imports).toEqual(["log (src/logger.ts)"]);
+	});
+
+	test("keeps the raw content after the header", () => {
+		const text = builder.buildTexts(FILE, [LOAD]).get(LOAD.id);
+		expect(text?.startsWith(`File: ${FILE}\nIn: export class`)).toBe(true);
+		expect(text?.endsWith(`\n\n${LOAD.content}`)).toBe(true);
+	});
+});
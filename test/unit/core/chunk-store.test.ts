@@ -0,0 +1,319 @@
+/**
+ * Unit tests for branch-aware indexing state:
+ * the shared chunk store (src/core/chunk-store.ts), the shared rows read by
+ * worktree vector stores (src/core/store.ts) and per-branch file sets
+ * recorded by the tracker.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as lancedb from "@lancedb/lancedb";
+import { getIndexDbPath, getVectorStorePath } from "../../../src/config.js";
+import {
+	SharedChunkStore,
+	getBranchOwner,
+	getChunkStorePath,
+	getSharedRowsPath,
+	getSharedTableName,
+	linkSharedRows,
+	readSharedRowsLink,
+} from "../../../src/core/chunk-store.js";
+import {
+	type IVectorStore,
+	createVectorStore,
+} from "../../../src/core/store.js";
+import { FileTracker } from "../../../src/core/tracker.js";
+import type { ChunkWithEmbedding } from "../../../src/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const TABLE = getSharedTableName("test-model");
+
+const cleanups: Array<() => void | Promise<void>> = [];
+
+function makeDir(): string {
+	const dir = mkdtempSync(join(tmpdir(), "mnemex-chunk-store-test-"));
+	cleanups.push(() => rmSync(dir, { recursive: true, force: true }));
+	return dir;
+}
+
+function openStore(rowsPath: string): SharedChunkStore {
+	const store = new SharedChunkStore(join(makeDir(), "chunks.db"), rowsPath);
+	cleanups.push(() => store.close());
+	return store;
+}
+
+/** Record a file as indexed without touching the filesystem */
+function indexFile(tracker: FileTracker, path: string, hash: string): void {
+	tracker
+		.getDatabase()
+		.prepare(
+			"INSERT OR REPLACE INTO files (path, content_hash, mtime, chunk_ids, indexed_at) VALUES (?, ?, 0, '[]', ?)",
+		)
+		.run(path, hash, new Date().toISOString());
+}
+
+/** Add rows of file versions to a shared rows table */
+async function addRows(
+	rowsPath: string,
+	rows: Array<{ fileHash: string; createdAt: string }>,
+): Promise<void> {
+	const db = await lancedb.connect(rowsPath);
+	const data = rows.map((r, i) => ({ id: `row-${i}`, ...r }));
+	if ((await db.tableNames()).includes(TABLE)) {
+		await (await db.openTable(TABLE)).add(data);
+	} else {
+		await db.createTable(TABLE, data);
+	}
+}
+
+async function countRows(rowsPath: string): Promise<number> {
+	const db = await lancedb.connect(rowsPath);
+	return (await db.openTable(TABLE)).countRows();
+}
+
+/**
+ * A worktree of a repository whose shared rows are in rowsPath, with the
+ * given file versions (relative path → hash) indexed
+ */
+function openWorktree(
+	rowsPath: string,
+	files: Record<string, string>,
+): { root: string; store: IVectorStore } {
+	const root = makeDir();
+	const tracker = new FileTracker(getIndexDbPath(root), root);
+	for (const [path, hash] of Object.entries(files)) {
+		indexFile(tracker, path, hash);
+	}
+	tracker.close();
+
+	const vectorsDir = getVectorStorePath(root);
+	linkSharedRows(vectorsDir, { dbPath: rowsPath, tableName: TABLE, root });
+	const store = createVectorStore(vectorsDir, root);
+	cleanups.push(() => store.close());
+	return { root, store };
+}
+
+function makeChunk(
+	root: string,
+	path: string,
+	fileHash: string,
+): ChunkWithEmbedding {
+	return {
+		id: `${path}:${fileHash}`,
+		contentHash: `content-${fileHash}`,
+		content: "export function parseConfig() {}",
+		filePath: join(root, path),
+		startLine: 1,
+		endLine: 1,
+		language: "typescript",
+		chunkType: "function",
+		name: "parseConfig",
+		fileHash,
+		vector: [1, 0],
+	};
+}
+
+afterEach(async () => {
+	for (const cleanup of cleanups.splice(0).reverse()) {
+		await cleanup();
+	}
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("SharedChunkStore", () => {
+	const old = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+	test("prunes rows of file versions no branch references", async () => {
+		const rowsPath = join(makeDir(), "vectors");
+		await addRows(rowsPath, [
+			{ fileHash: "shared", createdAt: old },
+			{ fileHash: "feature-only", createdAt: old },
+			{ fileHash: "feature-only", createdAt: old },
+		]);
+		const store = openStore(rowsPath);
+		store.setRefs("main:main", ["shared"]);
+		store.setRefs("main:feature", ["shared", "feature-only"]);
+
+		expect(await store.prune()).toBe(0);
+
+		store.dropOwner("main:feature");
+		expect(store.getOwners()).toEqual(["main:main"]);
+		expect(await store.prune()).toBe(1);
+		expect(store.getStats()).toEqual({ files: 1, owners: 1 });
+		expect(await countRows(rowsPath)).toBe(1);
+	});
+
+	test("keeps recent rows a branch may not reference yet", async () => {
+		const rowsPath = join(makeDir(), "vectors");
+		await addRows(rowsPath, [
+			{ fileHash: "indexing", createdAt: new Date().toISOString() },
+		]);
+		const store = openStore(rowsPath);
+
+		expect(await store.prune()).toBe(0);
+		expect(await countRows(rowsPath)).toBe(1);
+	});
+
+	test("setRefs replaces the previous file set of an owner", async () => {
+		const rowsPath = join(makeDir(), "vectors");
+		await addRows(rowsPath, [{ fileHash: "old", createdAt: old }]);
+		const store = openStore(rowsPath);
+		store.setRefs("main:main", ["old"]);
+		store.setRefs("main:main", ["new"]);
+
+		expect(await store.prune()).toBe(1);
+	});
+
+	test("prune without shared rows is a no-op", async () => {
+		const store = openStore(join(makeDir(), "vectors"));
+		expect(await store.prune()).toBe(0);
+	});
+});
+
+describe("chunk store location", () => {
+	const checkout = {
+		branch: "feature/x",
+		head: "a".repeat(40),
+		commonDir: "/repo/.git",
+		worktreeId: "wt-2",
+		root: "/repo-wt2",
+	};
+
+	test("lives in the common git directory shared by worktrees", () => {
+		expect(getChunkStorePath(checkout)).toBe("/repo/.git/mnemex/chunks.db");
+		expect(getSharedRowsPath(checkout)).toBe("/repo/.git/mnemex/vectors");
+	});
+
+	test("keeps a table per embedding model and text mode", () => {
+		expect(getSharedTableName("voyage-code-3")).toBe("chunks-voyage-code-3");
+		expect(getSharedTableName("qwen/qwen3-embedding#contextual")).toBe(
+			"chunks-qwen-qwen3-embedding-contextual",
+		);
+	});
+
+	test("owners are per worktree and branch", () => {
+		expect(getBranchOwner(checkout)).toBe("wt-2:feature/x");
+	});
+});
+
+describe("linkSharedRows", () => {
+	test("reports whether the link changed", () => {
+		const vectorsDir = join(makeDir(), "vectors");
+		const link = {
+			dbPath: "/repo/.git/mnemex/vectors",
+			tableName: TABLE,
+			root: "/repo",
+		};
+
+		expect(linkSharedRows(vectorsDir, link)).toBe(true);
+		expect(readSharedRowsLink(vectorsDir)).toEqual(link);
+		expect(linkSharedRows(vectorsDir, link)).toBe(false);
+		expect(
+			linkSharedRows(vectorsDir, { ...link, tableName: "chunks-other" }),
+		).toBe(true);
+		expect(linkSharedRows(vectorsDir, null)).toBe(true);
+		expect(readSharedRowsLink(vectorsDir)).toBeNull();
+		expect(linkSharedRows(vectorsDir, null)).toBe(false);
+	});
+});
+
+describe("shared rows", () => {
+	test("worktrees store a file version once and read it in place", async () => {
+		const rowsPath = join(makeDir(), "vectors");
+		const a = openWorktree(rowsPath, { "src/config.ts": "v1" });
+		const b = openWorktree(rowsPath, { "src/config.ts": "v1" });
+
+		await a.store.addChunks([makeChunk(a.root, "src/config.ts", "v1")]);
+		await b.store.addChunks([makeChunk(b.root, "src/config.ts", "v1")]);
+		expect(await countRows(rowsPath)).toBe(1);
+
+		const results = await b.store.search("parseConfig", [1, 0], {
+			vectorOnly: true,
+		});
+		expect(results.map((r) => r.chunk.filePath)).toEqual([
+			join(b.root, "src/config.ts"),
+		]);
+		expect((await b.store.getStats()).totalChunks).toBe(1);
+	});
+
+	test("worktrees only see the file versions they indexed", async () => {
+		const rowsPath = join(makeDir(), "vectors");
+		const main = openWorktree(rowsPath, { "src/config.ts": "v1" });
+		const feature = openWorktree(rowsPath, { "src/config.ts": "v2" });
+
+		await main.store.addChunks([makeChunk(main.root, "src/config.ts", "v1")]);
+		await feature.store.addChunks([
+			makeChunk(feature.root, "src/config.ts", "v2"),
+		]);
+
+		const results = await feature.store.search("parseConfig", [1, 0], {
+			vectorOnly: true,
+		});
+		expect(results.map((r) => r.chunk.fileHash)).toEqual(["v2"]);
+		expect(
+			(
+				await main.store.getChunksWithVectors(join(main.root, "src/config.ts"))
+			).map((c) => c.fileHash),
+		).toEqual(["v1"]);
+	});
+
+	test("returns rows of versions indexed elsewhere for adoption", async () => {
+		const rowsPath = join(makeDir(), "vectors");
+		const main = openWorktree(rowsPath, { "src/config.ts": "v1" });
+		const other = openWorktree(rowsPath, {});
+		await main.store.addChunks([makeChunk(main.root, "src/config.ts", "v1")]);
+
+		const filePath = join(other.root, "src/config.ts");
+		const adopted = await other.store.getSharedChunks(
+			new Map([[filePath, "v1"]]),
+		);
+		expect(adopted.map((c) => [c.filePath, c.fileHash, c.vector])).toEqual([
+			[filePath, "v1", [1, 0]],
+		]);
+		expect(
+			await other.store.getSharedChunks(new Map([[filePath, "v2"]])),
+		).toEqual([]);
+	});
+});
+
+describe("FileTracker branch state", () => {
+	test("records the file set of each branch", () => {
+		const root = makeDir();
+		const tracker = new FileTracker(join(root, "index.db"), root);
+		cleanups.push(() => tracker.close());
+
+		indexFile(tracker, "a.ts", "hash-main");
+		tracker.saveBranchState("main", "1".repeat(40));
+
+		indexFile(tracker, "a.ts", "hash-feature");
+		tracker.saveBranchState("feature", "2".repeat(40));
+
+		expect(tracker.getBranchFiles("main")).toEqual(
+			new Map([["a.ts", "hash-main"]]),
+		);
+		expect(tracker.getBranchFiles("feature")).toEqual(
+			new Map([["a.ts", "hash-feature"]]),
+		);
+		expect(
+			tracker
+				.getBranchStates()
+				.map((s) => [s.branch, s.fileCount])
+				.sort(),
+		).toEqual([
+			["feature", 1],
+			["main", 1],
+		]);
+
+		tracker.deleteBranchState("feature");
+		expect(tracker.getBranchStates().map((s) => s.branch)).toEqual(["main"]);
+		expect(tracker.getBranchFiles("feature").size).toBe(0);
+	});
+});
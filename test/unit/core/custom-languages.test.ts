@@ -0,0 +1,182 @@
+/**
+ * Unit tests for project-defined languages (src/parsers/custom-languages.ts
+ * and the ParserManager registry). No grammar is loaded.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { saveProjectConfig } from "../../../src/config.js";
+import { createTestFileDetector } from "../../../src/core/analysis/test-detector.js";
+import { parseChunkCaptures } from "../../../src/parsers/custom-languages.js";
+import {
+	ParserManager,
+	getParserManager,
+	getProjectParserManager,
+	releaseProjectParserManager,
+} from "../../../src/parsers/parser-manager.js";
+import type { LanguageDefinition } from "../../../src/types.js";
+
+const RULES: LanguageDefinition = {
+	id: "rules",
+	extensions: [".rules", ".RULE"],
+	grammar: "grammars/tree-sitter-rules.wasm",
+	chunkQuery: `
+    ; Policies group rules
+    (policy name: (identifier) @name) @chunk.class
+    (rule name: (identifier) @name) @chunk.method
+    [(macro) (helper "fn")] @chunk
+  `,
+	referenceQuery: "(call name: (identifier) @ref.call)",
+	testPatterns: {
+		files: ["\\.spec\\.rules$"],
+		directories: ["/fixtures/"],
+		symbols: ["^check_"],
+	},
+};
+
+describe("parseChunkCaptures", () => {
+	test("collects top-level node types with their capture kind", () => {
+		expect(parseChunkCaptures(RULES.chunkQuery)).toEqual([
+			{ nodeType: "policy", kind: "class" },
+			{ nodeType: "rule", kind: "method" },
+			{ nodeType: "macro", kind: "function" },
+			{ nodeType: "helper", kind: "function" },
+		]);
+	});
+
+	test("ignores nested captures, predicates, wildcards and strings", () => {
+		const query = `
+      (entry key: (_) @chunk (#eq? @chunk "@chunk")) @match
+      (_) @chunk
+      (section) @chunk.section ; (ignored) @chunk
+    `;
+		expect(parseChunkCaptures(query)).toEqual([
+			{ nodeType: "section", kind: "section" },
+		]);
+	});
+});
+
+describe("ParserManager.registerLanguage", () => {
+	const parserManager = new ParserManager();
+	const language = parserManager.registerLanguage(RULES, "/repo");
+
+	test("detects files and exposes the language config", () => {
+		expect(language).toBe("rules");
+		expect(parserManager.getLanguage("policies/main.rules")).toBe("rules");
+		expect(parserManager.getLanguage("legacy.rule")).toBe("rules");
+		expect(parserManager.getSupportedExtensions()).toContain(".rules");
+		expect(parserManager.getSupportedLanguages()).toContain(language);
+		expect(parserManager.getLanguageConfig(language).referenceQuery).toBe(
+			RULES.referenceQuery,
+		);
+	});
+
+	test("compiles chunk and symbol tables from the chunk query", () => {
+		const custom = parserManager.getCustomLanguage(language);
+		expect(custom?.grammarPath).toBe("/repo/grammars/tree-sitter-rules.wasm");
+		expect(custom?.chunkTypes.get("policy")).toBe("class");
+		expect(custom?.symbolKinds.get("rule")).toBe("method");
+		expect([...(custom?.containerTypes ?? [])]).toEqual(["policy"]);
+		expect(parserManager.getCustomLanguage("typescript")).toBeUndefined();
+	});
+
+	test("unregistering restores the built-in mapping", () => {
+		const manager = new ParserManager();
+		manager.registerLanguage({ ...RULES, extensions: [".md"] }, "/repo");
+		expect(manager.getLanguage("README.md")).toBe("rules");
+		manager.unregisterLanguage("rules");
+		expect(manager.getLanguage("README.md")).toBe("markdown");
+	});
+
+	test("rejects invalid definitions", () => {
+		expect(() =>
+			parserManager.registerLanguage({ ...RULES, id: "python" }, "/repo"),
+		).toThrow(/built in/);
+		expect(() =>
+			parserManager.registerLanguage({ ...RULES, extensions: ["rules"] }, "/"),
+		).toThrow(/must start with a dot/);
+		expect(() =>
+			parserManager.registerLanguage(
+				{ ...RULES, chunkQuery: "(rule) @chunk.widget" },
+				"/repo",
+			),
+		).toThrow(/unknown capture @chunk\.widget/);
+		expect(() =>
+			parserManager.registerLanguage(
+				{ ...RULES, chunkQuery: "(rule) @definition" },
+				"/repo",
+			),
+		).toThrow(/at least one node/);
+		expect(() =>
+			parserManager.registerLanguage(
+				{ ...RULES, testPatterns: { files: ["("] } },
+				"/repo",
+			),
+		).toThrow(/invalid testPatterns\.files regex/);
+	});
+});
+
+describe("TestFileDetector with a registered language", () => {
+	const parserManager = new ParserManager();
+	const detector = createTestFileDetector(parserManager);
+
+	beforeAll(() => {
+		parserManager.registerLanguage(RULES, "/repo");
+	});
+
+	test("uses the language's own test patterns", () => {
+		expect(detector.isTestFile("policies/access.spec.rules")).toBe(true);
+		expect(detector.isTestFile("test/fixtures/deny.rules")).toBe(true);
+		expect(detector.isTestFile("test/access.rules")).toBe(false);
+		expect(detector.isTestSymbol("check_access", "policies/a.rules")).toBe(
+			true,
+		);
+		expect(detector.isTestSymbol("test_access", "policies/a.rules")).toBe(
+			false,
+		);
+	});
+});
+
+describe("getProjectParserManager", () => {
+	const projects: string[] = [];
+
+	function makeProject(languages: LanguageDefinition[]): string {
+		const projectPath = mkdtempSync(join(tmpdir(), "mnemex-languages-test-"));
+		saveProjectConfig(projectPath, { languages });
+		projects.push(projectPath);
+		return projectPath;
+	}
+
+	afterAll(() => {
+		for (const projectPath of projects) {
+			releaseProjectParserManager(projectPath);
+			rmSync(projectPath, { recursive: true, force: true });
+		}
+	});
+
+	test("keeps each project's languages to itself", () => {
+		const rulesProject = makeProject([RULES]);
+		const otherProject = makeProject([
+			{ ...RULES, id: "policy", extensions: [".rules", ".policy"] },
+		]);
+
+		const rules = getProjectParserManager(rulesProject);
+		const other = getProjectParserManager(otherProject);
+		expect(rules.getLanguage("main.rules")).toBe("rules");
+		expect(rules.getLanguage("main.policy")).toBeNull();
+		expect(other.getLanguage("main.rules")).toBe("policy");
+		expect(other.getCustomLanguage("rules")).toBeUndefined();
+
+		// Built-in languages only
+		expect(getParserManager().getLanguage("main.rules")).toBeNull();
+		expect(getProjectParserManager(join(rulesProject, "."))).toBe(rules);
+	});
+
+	test("shares built-in languages across projects", () => {
+		const project = getProjectParserManager(makeProject([]));
+		expect(project.getLanguage("src/app.ts")).toBe("typescript");
+		expect(project).not.toBe(getParserManager());
+	});
+});
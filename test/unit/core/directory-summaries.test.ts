@@ -0,0 +1,322 @@
+/**
+ * Unit tests for hierarchical directory summaries
+ * (src/core/summarization/directories.ts) and their place in the repo map
+ * (src/core/repo-map.ts).
+ */
+
+import { describe, expect, test } from "bun:test";
+import { RepoMapGenerator } from "../../../src/core/repo-map.js";
+import type { IVectorStore } from "../../../src/core/store.js";
+import {
+	buildDirectoryTree,
+	createDirectorySummarizer,
+	loadDirectorySummaries,
+} from "../../../src/core/summarization/index.js";
+import type { IFileTracker } from "../../../src/core/tracker.js";
+import type {
+	BaseDocument,
+	DocumentType,
+	DocumentWithEmbedding,
+	EmbedResult,
+	IEmbeddingsClient,
+	ILLMClient,
+	LLMMessage,
+	LLMResponse,
+	LLMUsageStats,
+	SymbolDefinition,
+} from "../../../src/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** LLM client answering with the path it was asked about */
+class StubLLMClient implements ILLMClient {
+	prompts: string[] = [];
+
+	async complete(messages: LLMMessage[]): Promise<LLMResponse> {
+		const prompt = messages[messages.length - 1].content;
+		this.prompts.push(prompt);
+		const path = prompt.match(/\*\*Path:\*\* (.+)/)?.[1] ?? "?";
+		return {
+			content: `Summary of ${path}.`,
+			model: "stub",
+			usage: { inputTokens: 10, outputTokens: 5 },
+		};
+	}
+
+	async completeJSON<T>(): Promise<T> {
+		throw new Error("not used");
+	}
+
+	getProvider() {
+		return "local" as const;
+	}
+
+	getModel() {
+		return "stub";
+	}
+
+	async testConnection() {
+		return true;
+	}
+
+	getAccumulatedUsage(): LLMUsageStats {
+		return { inputTokens: 0, outputTokens: 0, cost: 0, calls: 0 };
+	}
+
+	resetAccumulatedUsage() {}
+
+	isCloud() {
+		return false;
+	}
+
+	async getModelSizeB() {
+		return undefined;
+	}
+}
+
+const embeddings: IEmbeddingsClient = {
+	async embed(texts: string[]): Promise<EmbedResult> {
+		return { embeddings: texts.map(() => [0.1, 0.2]) };
+	},
+	async embedOne() {
+		return [0.1, 0.2];
+	},
+	getModel: () => "stub",
+	getDimension: () => 2,
+	getProvider: () => "local",
+	isLocal: () => true,
+};
+
+/** In-memory document store; keeps only the fields LanceDB persists */
+class MemoryStore {
+	docs: BaseDocument[] = [];
+
+	async getDocumentsByType(documentType: DocumentType) {
+		return this.docs
+			.filter((d) => d.documentType === documentType)
+			.map((d) => ({ ...d, vector: [0.1, 0.2] }));
+	}
+
+	async addDocuments(documents: DocumentWithEmbedding[]) {
+		for (const doc of documents) {
+			this.docs.push({
+				id: doc.id,
+				content: doc.content,
+				documentType: doc.documentType,
+				filePath: doc.filePath,
+				createdAt: doc.createdAt,
+				enrichedAt: doc.enrichedAt,
+				sourceIds: doc.sourceIds,
+				metadata: doc.metadata,
+			});
+		}
+	}
+
+	async deleteByIds(ids: string[]) {
+		this.docs = this.docs.filter((d) => !ids.includes(d.id));
+		return ids.length;
+	}
+
+	addFileSummary(filePath: string, summary: string) {
+		this.docs.push({
+			id: `fs-${filePath}-${this.docs.length}`,
+			content: `File: ${filePath}\n\nSummary: ${summary}\n\nExports: x`,
+			documentType: "file_summary",
+			filePath,
+			createdAt: new Date().toISOString(),
+			enrichedAt: new Date(Date.now() + this.docs.length).toISOString(),
+		});
+	}
+
+	directoryPaths(): string[] {
+		return this.docs
+			.filter((d) => d.documentType === "directory_summary")
+			.map((d) => d.filePath ?? "")
+			.sort();
+	}
+}
+
+function setup() {
+	const store = new MemoryStore();
+	const llm = new StubLLMClient();
+	const summarizer = createDirectorySummarizer(
+		llm,
+		embeddings,
+		store as unknown as IVectorStore,
+		"/nonexistent/project",
+	);
+	return { store, llm, summarizer };
+}
+
+function symbol(filePath: string, name: string, score: number) {
+	return {
+		id: `${filePath}:${name}`,
+		name,
+		kind: "function",
+		filePath,
+		startLine: 1,
+		pagerankScore: score,
+	} as SymbolDefinition;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("buildDirectoryTree", () => {
+	test("lists every ancestor directory, deepest first", () => {
+		const nodes = buildDirectoryTree(
+			[
+				"src/cloud/client.ts",
+				"src/cloud/auth/token.ts",
+				"README.md",
+				"src/cli.ts",
+			],
+			(dir) => dir === "src/cloud",
+		);
+
+		expect(nodes.map((n) => [n.path, n.level])).toEqual([
+			["src/cloud/auth", "directory"],
+			["src/cloud", "package"],
+			["src", "directory"],
+			[".", "workspace"],
+		]);
+		expect(nodes[1].files).toEqual(["src/cloud/client.ts"]);
+		expect(nodes[1].directories).toEqual(["src/cloud/auth"]);
+		expect(nodes[3].directories).toEqual(["src"]);
+	});
+});
+
+describe("DirectorySummarizer", () => {
+	test("builds summaries bottom-up from child summaries", async () => {
+		const { store, llm, summarizer } = setup();
+		store.addFileSummary(
+			"src/cloud/client.ts",
+			"HTTP client for the API. Retries.",
+		);
+		store.addFileSummary("src/cloud/auth.ts", "Stores login tokens.");
+		store.addFileSummary("README.md", "Project readme.");
+
+		const result = await summarizer.summarize(
+			["src/cloud/client.ts", "src/cloud/auth.ts", "README.md"],
+			{ isPackageRoot: () => false },
+		);
+
+		expect(result.summariesGenerated).toBe(3);
+		expect(store.directoryPaths()).toEqual([".", "src", "src/cloud"]);
+
+		// src only contains src/cloud: it reuses that summary without a call
+		expect(llm.prompts).toHaveLength(2);
+		expect(llm.prompts[0]).toContain("- client.ts: HTTP client for the API.");
+		expect(llm.prompts[1]).toContain("- src/: Summary of src/cloud.");
+
+		const loaded = await loadDirectorySummaries(
+			store as unknown as IVectorStore,
+		);
+		expect(loaded).toEqual([
+			{
+				path: ".",
+				level: "workspace",
+				summary: "Summary of (repository root).",
+			},
+			{ path: "src", level: "directory", summary: "Summary of src/cloud." },
+			{
+				path: "src/cloud",
+				level: "directory",
+				summary: "Summary of src/cloud.",
+			},
+		]);
+	});
+
+	test("only regenerates directories whose descendants changed", async () => {
+		const { store, llm, summarizer } = setup();
+		store.addFileSummary("src/a/one.ts", "One.");
+		store.addFileSummary("src/b/two.ts", "Two.");
+		const files = ["src/a/one.ts", "src/b/two.ts"];
+
+		await summarizer.summarize(files);
+		llm.prompts = [];
+
+		const unchanged = await summarizer.summarize(files);
+		expect(unchanged.summariesGenerated).toBe(0);
+		expect(unchanged.summariesReused).toBe(4);
+		expect(llm.prompts).toHaveLength(0);
+
+		// A newer summary of one file refreshes its ancestors only
+		store.addFileSummary("src/b/two.ts", "Two, rewritten.");
+		const changed = await summarizer.summarize(files);
+		expect(llm.prompts.map((p) => p.match(/\*\*Path:\*\* (.+)/)?.[1])).toEqual([
+			"src/b",
+		]);
+		// src/b's summary text is unchanged, so src and . stay as they are
+		expect(changed.summariesGenerated).toBe(1);
+		expect(store.directoryPaths()).toEqual([".", "src", "src/a", "src/b"]);
+	});
+
+	test("removes summaries of directories without indexed files", async () => {
+		const { store, summarizer } = setup();
+		store.addFileSummary("src/a/one.ts", "One.");
+		store.addFileSummary("lib/two.ts", "Two.");
+
+		await summarizer.summarize(["src/a/one.ts", "lib/two.ts"]);
+		const result = await summarizer.summarize(["lib/two.ts"]);
+
+		expect(result.summariesRemoved).toBe(2);
+		expect(store.directoryPaths()).toEqual([".", "lib"]);
+	});
+});
+
+describe("RepoMapGenerator with directory summaries", () => {
+	const tracker = {
+		getTopSymbols: () => [
+			symbol("src/cloud/client.ts", "request", 0.3),
+			symbol("src/cli.ts", "main", 0.2),
+			symbol("src/cloud/auth/token.ts", "refresh", 0.1),
+		],
+	} as unknown as IFileTracker;
+	const directorySummaries = [
+		{
+			path: ".",
+			level: "workspace" as const,
+			summary: "A code search tool. It indexes repos.",
+		},
+		{
+			path: "src/cloud",
+			level: "package" as const,
+			summary: "Cloud sync client.",
+		},
+	];
+
+	test("lists directory summaries above the files", () => {
+		const map = new RepoMapGenerator(tracker).generate({
+			maxTokens: 2000,
+			directorySummaries,
+		});
+
+		expect(map.split("\n").slice(0, 4)).toEqual([
+			"Directories:",
+			". (workspace): A code search tool.",
+			"    src/cloud/ (package): Cloud sync client.",
+			"",
+		]);
+		expect(map).toContain("src/cloud/client.ts:");
+	});
+
+	test("groups files into a directory tree", () => {
+		const root = new RepoMapGenerator(tracker).generateTree({
+			directorySummaries,
+		});
+
+		expect(root.summary?.level).toBe("workspace");
+		expect(root.files).toEqual([]);
+		const src = root.directories[0];
+		expect(src.path).toBe("src");
+		expect(src.files.map((f) => f.filePath)).toEqual(["src/cli.ts"]);
+		expect(src.directories[0].summary?.summary).toBe("Cloud sync client.");
+		expect(src.directories[0].directories[0].files[0].filePath).toBe(
+			"src/cloud/auth/token.ts",
+		);
+	});
+});
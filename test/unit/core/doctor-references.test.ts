@@ -0,0 +1,198 @@
+/**
+ * Unit tests for context file reference checking
+ * (src/core/doctor/references.ts): extraction, resolution against a
+ * reference index, replacement suggestions and --fix rewriting.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	applyReferenceFixes,
+	checkReferences,
+	extractReferences,
+	findClosest,
+	suggestReplacement,
+} from "../../../src/core/doctor/references.js";
+import type { ReferenceIndex } from "../../../src/core/doctor/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function referenceIndex(
+	overrides: Partial<ReferenceIndex> = {},
+): ReferenceIndex {
+	return {
+		projectPath: "/nonexistent/mnemex-doctor-test",
+		files: new Set(["src/core/indexer.ts", "src/core/storage/tracker.ts"]),
+		filesByHash: new Map(),
+		symbols: new Set(["createIndexer", "FileTracker", "getAllFiles"]),
+		scripts: new Set(["build", "test", "typecheck"]),
+		bins: new Set(["mnemex"]),
+		commands: new Set(["index", "search"]),
+		...overrides,
+	};
+}
+
+const CONTEXT_FILE = [
+	"# Project",
+	"",
+	"Indexing lives in src/core/indexer.ts and `src/core/tracker.ts`.",
+	"Call `createIndexr()` or `FileTracker.getAllFiles()`; see https://example.com/src/a.ts.",
+	"Run `npm run typecheck` then `mnemex index` (mnemex is fast).",
+	"Env: `OPENAI_API_KEY`, `JSON.parse()`.",
+	"",
+	"```bash",
+	"bun run biuld",
+	"mnemex serach foo",
+	"```",
+].join("\n");
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("extractReferences", () => {
+	test("finds paths, symbols, scripts and commands with positions", () => {
+		const refs = extractReferences(CONTEXT_FILE, new Set(["mnemex"]));
+		const summary = refs.map((r) => `${r.kind}:${r.text}@${r.line}`);
+
+		expect(summary).toEqual([
+			"file:src/core/indexer.ts@3",
+			"file:src/core/tracker.ts@3",
+			"symbol:createIndexr@4",
+			"symbol:FileTracker.getAllFiles@4",
+			"script:typecheck@5",
+			"command:index@5",
+			"symbol:JSON.parse@6",
+			"script:biuld@9",
+			"command:serach@10",
+		]);
+
+		const line3 = CONTEXT_FILE.split("\n")[2];
+		const tracker = refs[1];
+		expect(
+			line3.slice(tracker.column, tracker.column + tracker.text.length),
+		).toBe("src/core/tracker.ts");
+	});
+});
+
+describe("checkReferences", () => {
+	// File references also fall back to the disk, so only the index-backed
+	// kinds are asserted here
+	test("reports dead references with suggestions", () => {
+		const check = checkReferences(CONTEXT_FILE, referenceIndex());
+		const dead = check.dead
+			.filter((r) => r.kind !== "file")
+			.map((r) => [r.kind, r.text, r.suggestion]);
+
+		expect(dead).toEqual([
+			["symbol", "createIndexr", "createIndexer"],
+			["script", "biuld", "build"],
+			["command", "serach", "search"],
+		]);
+		expect(check.checked).toBe(9);
+	});
+
+	test("skips symbol checks when nothing was indexed", () => {
+		const check = checkReferences(
+			"Call `createIndexr()`.",
+			referenceIndex({ symbols: new Set() }),
+		);
+		expect(check.dead).toEqual([]);
+	});
+});
+
+describe("suggestReplacement", () => {
+	test("suggests the only indexed file with the same name", () => {
+		const ref = { line: 1, column: 0 };
+		expect(
+			suggestReplacement(
+				{ ...ref, kind: "file", text: "src/core/tracker.ts" },
+				referenceIndex(),
+			),
+		).toMatchObject({
+			suggestion: "src/core/storage/tracker.ts",
+			confidence: "high",
+		});
+		expect(
+			suggestReplacement(
+				{ ...ref, kind: "file", text: "src/gone.ts" },
+				referenceIndex(),
+			),
+		).toEqual({});
+		expect(
+			suggestReplacement(
+				{ ...ref, kind: "symbol", text: "FileTracker.getAllFile" },
+				referenceIndex(),
+			),
+		).toMatchObject({
+			suggestion: "FileTracker.getAllFiles",
+			confidence: "low",
+		});
+	});
+});
+
+describe("findClosest", () => {
+	test("returns a single close candidate or null", () => {
+		expect(findClosest("serach", ["search", "index"])).toBe("search");
+		expect(findClosest("lint", ["build", "test"])).toBeNull();
+		expect(findClosest("tast", ["test", "task"])).toBeNull();
+	});
+});
+
+describe("applyReferenceFixes", () => {
+	test("rewrites every occurrence of fixable references", () => {
+		const content = "See src/old.ts and `createIndexr()`.\nAgain: src/old.ts";
+		const result = applyReferenceFixes(content, [
+			{
+				kind: "file",
+				text: "src/old.ts",
+				occurrences: [
+					{ line: 1, column: 4 },
+					{ line: 2, column: 7 },
+				],
+				suggestion: "src/core/new.ts",
+				confidence: "high",
+			},
+			{
+				kind: "symbol",
+				text: "createIndexr",
+				occurrences: [{ line: 1, column: 20 }],
+				suggestion: "createIndexer",
+				confidence: "high",
+			},
+			{
+				kind: "script",
+				text: "lint",
+				occurrences: [{ line: 1, column: 0 }],
+			},
+		]);
+
+		expect(result.fixed).toBe(2);
+		expect(result.content).toBe(
+			"See src/core/new.ts and `createIndexer()`.\nAgain: src/core/new.ts",
+		);
+	});
+
+	test("leaves closest-name guesses for review", () => {
+		const content = "Call `loadConfg()` before `npm run tset`.";
+		const result = applyReferenceFixes(content, [
+			{
+				kind: "symbol",
+				text: "loadConfg",
+				occurrences: [{ line: 1, column: 6 }],
+				suggestion: "loadConfig",
+				reason: "closest symbol name",
+				confidence: "low",
+			},
+			{
+				kind: "script",
+				text: "tset",
+				occurrences: [{ line: 1, column: 35 }],
+				suggestion: "test",
+			},
+		]);
+
+		expect(result).toEqual({ content, fixed: 0 });
+	});
+});
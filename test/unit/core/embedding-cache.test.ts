@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the global embedding cache (src/core/embedding-cache.ts)
+ *
+ * Uses a throwaway cache database and a fake embeddings client; no provider
+ * is called.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	EmbeddingCache,
+	getEmbeddingCacheModel,
+	withEmbeddingCache,
+} from "../../../src/core/embedding-cache.js";
+import type { EmbedResult, IEmbeddingsClient } from "../../../src/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const cleanups: Array<() => void> = [];
+
+function openCache(maxSizeBytes = 1024 * 1024): EmbeddingCache {
+	const dir = mkdtempSync(join(tmpdir(), "mnemex-embedding-cache-test-"));
+	const cache = new EmbeddingCache(join(dir, "cache.db"), maxSizeBytes);
+	cleanups.push(() => {
+		cache.close();
+		rmSync(dir, { recursive: true, force: true });
+	});
+	return cache;
+}
+
+afterEach(() => {
+	for (const cleanup of cleanups.splice(0)) {
+		cleanup();
+	}
+});
+
+/** Fake client: embeds a text as [length, 1] and bills 1 token per char */
+function fakeClient(): IEmbeddingsClient & { calls: string[][] } {
+	const calls: string[][] = [];
+	return {
+		calls,
+		async embed(texts: string[]): Promise<EmbedResult> {
+			calls.push(texts);
+			const tokens = texts.reduce((sum, t) => sum + t.length, 0);
+			return {
+				embeddings: texts.map((t) => [t.length, 1]),
+				totalTokens: tokens,
+				cost: tokens * 0.001,
+			};
+		},
+		async embedOne(text: string): Promise<number[]> {
+			return (await this.embed([text])).embeddings[0];
+		},
+		getModel: () => "fake-embed",
+		getDimension: () => 2,
+		getProvider: () => "local",
+		isLocal: () => true,
+	};
+}
+
+const entry = (text: string, vector: number[]) => ({
+	text,
+	vector,
+	tokens: text.length,
+	cost: 0,
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("EmbeddingCache", () => {
+	test("stores and looks up embeddings by model and text", () => {
+		const cache = openCache();
+		cache.store("m1", [entry("alpha", [0.5, -1]), entry("beta", [2, 0.25])]);
+
+		const [alpha, missing, beta] = cache.lookup("m1", [
+			"alpha",
+			"gamma",
+			"beta",
+		]);
+		expect(alpha?.vector).toEqual([0.5, -1]);
+		expect(alpha?.tokens).toBe(5);
+		expect(missing).toBeUndefined();
+		expect(beta?.vector).toEqual([2, 0.25]);
+
+		expect(cache.lookup("m2", ["alpha"])).toEqual([undefined]);
+	});
+
+	test("evicts least recently used entries beyond the size limit", async () => {
+		// Each 2-dimensional vector takes 8 bytes
+		const cache = openCache(16);
+		cache.store("m1", [entry("old", [1, 1])]);
+		await Bun.sleep(5);
+		cache.store("m1", [entry("used", [2, 2]), entry("new", [3, 3])]);
+		await Bun.sleep(5);
+		cache.lookup("m1", ["used"]);
+
+		expect(cache.evict()).toEqual({ entries: 1, bytes: 8 });
+		expect(cache.lookup("m1", ["old", "used", "new"]).map(Boolean)).toEqual([
+			false,
+			true,
+			true,
+		]);
+		expect(cache.getStats().sizeBytes).toBe(16);
+	});
+
+	test("prunes entries of one model", () => {
+		const cache = openCache();
+		cache.store("m1", [entry("a", [1]), entry("b", [2])]);
+		cache.store("m2", [entry("a", [3])]);
+
+		expect(cache.prune({ model: "m1" })).toBe(2);
+		expect(cache.prune({ olderThanDays: 1 })).toBe(0);
+		expect(cache.getStats().models).toEqual([
+			{ model: "m2", entries: 1, sizeBytes: 4 },
+		]);
+	});
+});
+
+describe("withEmbeddingCache", () => {
+	test("only sends uncached texts to the provider", async () => {
+		const cache = openCache();
+		const client = withEmbeddingCache(fakeClient(), cache);
+		const calls = (client as ReturnType<typeof fakeClient>).calls;
+
+		const first = await client.embed(["aa", "bbbb"]);
+		expect(first.embeddings).toEqual([
+			[2, 1],
+			[4, 1],
+		]);
+		expect(first.totalTokens).toBe(6);
+
+		const second = await client.embed(["bbbb", "ccc", "aa"]);
+		expect(calls).toEqual([["aa", "bbbb"], ["ccc"]]);
+		expect(second.embeddings).toEqual([
+			[4, 1],
+			[3, 1],
+			[2, 1],
+		]);
+		// Billed for "ccc" only
+		expect(second.totalTokens).toBe(3);
+	});
+
+	test("reports hit rate and what hits saved", async () => {
+		const cache = openCache();
+		const client = withEmbeddingCache(fakeClient(), cache);
+
+		await client.embed(["aa", "bbbb"]);
+		await client.embed(["aa", "bbbb"]);
+
+		const stats = cache.getStats();
+		expect(stats.hits).toBe(2);
+		expect(stats.misses).toBe(2);
+		expect(stats.hitRate).toBe(0.5);
+		expect(stats.tokensSaved).toBe(6);
+		expect(stats.costSaved).toBeCloseTo(0.006, 6);
+		expect(stats.models).toEqual([
+			{
+				model: getEmbeddingCacheModel(client),
+				entries: 2,
+				sizeBytes: 16,
+			},
+		]);
+	});
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for git history parsing (src/git/history.ts)
+ *
+ * Parsers are fed captured git output; no repository is touched.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	buildCommitDocument,
+	parseBlamePorcelain,
+	parseLog,
+	summarizeAuthors,
+	summarizeBlame,
+} from "../../../src/git/history.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const A = "a".repeat(40);
+const B = "b".repeat(40);
+const LOCAL = "0".repeat(40);
+
+/** `git log --name-only` output with the unit/record separator format */
+const LOG_OUTPUT = [
+	`\x1e${A}\x1fAda\x1fada@example.com\x1f2024-03-02T10:00:00+01:00\x1fLower retry limit\x1fThree retries hid outages.\n\x1f\n\nsrc/retry.ts\nsrc/config.ts\n`,
+	`\x1e${B}\x1fBob\x1fbob@example.com\x1f2024-01-15T09:30:00Z\x1fAdd retry helper\x1f\x1f\n\nsrc/retry.ts\n`,
+].join("\n");
+
+function blameEntry(
+	hash: string,
+	line: number,
+	author: string,
+	time: number,
+	summary: string,
+): string {
+	return [
+		`${hash} ${line} ${line} 1`,
+		`author ${author}`,
+		`author-mail <${author.toLowerCase()}@example.com>`,
+		`author-time ${time}`,
+		"author-tz +0000",
+		`summary ${summary}`,
+		"filename src/retry.ts",
+		"\tconst x = 1;",
+	].join("\n");
+}
+
+const BLAME_OUTPUT = [
+	blameEntry(B, 10, "Bob", 1705311000, "Add retry helper"),
+	blameEntry(A, 11, "Ada", 1709370000, "Lower retry limit"),
+	blameEntry(A, 12, "Ada", 1709370000, "Lower retry limit"),
+	blameEntry(B, 13, "Bob", 1705311000, "Add retry helper"),
+	blameEntry(A, 14, "Ada", 1709370000, "Lower retry limit"),
+	blameEntry(
+		LOCAL,
+		15,
+		"Not Committed Yet",
+		1710000000,
+		"Version of src/retry.ts from src/retry.ts",
+	),
+].join("\n");
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("parseLog", () => {
+	test("splits records into commits with their changed files", () => {
+		const commits = parseLog(LOG_OUTPUT);
+		expect(commits).toHaveLength(2);
+		expect(commits[0]).toEqual({
+			hash: A,
+			author: "Ada",
+			email: "ada@example.com",
+			date: "2024-03-02T10:00:00+01:00",
+			subject: "Lower retry limit",
+			body: "Three retries hid outages.",
+			files: ["src/retry.ts", "src/config.ts"],
+		});
+		expect(commits[1].body).toBe("");
+		expect(commits[1].files).toEqual(["src/retry.ts"]);
+	});
+
+	test("returns nothing for empty output", () => {
+		expect(parseLog("")).toEqual([]);
+	});
+});
+
+describe("parseBlamePorcelain", () => {
+	test("reads one entry per blamed line", () => {
+		const lines = parseBlamePorcelain(BLAME_OUTPUT);
+		expect(lines.map((l) => l.line)).toEqual([10, 11, 12, 13, 14, 15]);
+		expect(lines[1]).toEqual({
+			line: 11,
+			hash: A,
+			author: "Ada",
+			email: "ada@example.com",
+			date: new Date(1709370000 * 1000).toISOString(),
+			summary: "Lower retry limit",
+		});
+	});
+});
+
+describe("summarizeBlame", () => {
+	const commits = summarizeBlame(parseBlamePorcelain(BLAME_OUTPUT));
+
+	test("groups lines per commit with contiguous ranges", () => {
+		expect(commits.map((c) => [c.shortHash, c.lines, c.ranges])).toEqual([
+			[
+				"aaaaaaaa",
+				3,
+				[
+					[11, 12],
+					[14, 14],
+				],
+			],
+			[
+				"bbbbbbbb",
+				2,
+				[
+					[10, 10],
+					[13, 13],
+				],
+			],
+			["00000000", 1, [[15, 15]]],
+		]);
+	});
+
+	test("marks working tree lines as uncommitted", () => {
+		const local = commits.find((c) => c.uncommitted);
+		expect(local?.author).toBe("(uncommitted)");
+		expect(commits.filter((c) => c.uncommitted)).toHaveLength(1);
+	});
+
+	test("summarizeAuthors ranks committed authors by lines", () => {
+		expect(summarizeAuthors(commits)).toEqual([
+			{ author: "Ada", email: "ada@example.com", lines: 3, commits: 1 },
+			{ author: "Bob", email: "bob@example.com", lines: 2, commits: 1 },
+		]);
+	});
+});
+
+describe("buildCommitDocument", () => {
+	test("indexes message, files and diff without a file path", () => {
+		const [commit] = parseLog(LOG_OUTPUT);
+		const diff = `diff --git a/src/retry.ts b/src/retry.ts\n${"+x\n".repeat(3000)}`;
+		const doc = buildCommitDocument(commit, diff);
+
+		expect(doc.documentType).toBe("commit");
+		expect(doc.filePath).toBe("");
+		expect(doc.metadata?.hash).toBe(A);
+		expect(doc.content.startsWith("Lower retry limit\n\nThree retries")).toBe(
+			true,
+		);
+		expect(doc.content).toContain("Files changed:\n- src/retry.ts");
+		expect(doc.content).toContain("(diff truncated)");
+		expect(buildCommitDocument(commit, "").id).toBe(doc.id);
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for language registration of the Ruby, PHP, Kotlin, Swift, C#,
+ * YAML, TOML and Markdown grammars
+ *
+ * The load-and-chunk tests run each language's chunk query against its WASM
+ * grammar in grammars/ (see scripts/download-grammars.ts) and are skipped
+ * when the grammar has not been downloaded.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { Query } from "web-tree-sitter";
+import { createTestFileDetector } from "../../../src/core/analysis/test-detector.js";
+import { chunkDocument } from "../../../src/parsers/document-chunker.js";
+import { ParserManager } from "../../../src/parsers/parser-manager.js";
+import type { SupportedLanguage } from "../../../src/types.js";
+
+const GRAMMARS_DIR = join(import.meta.dir, "../../../grammars");
+
+describe("ParserManager language detection", () => {
+	const parserManager = new ParserManager();
+
+	test("maps new extensions to their languages", () => {
+		expect(parserManager.getLanguage("app/models/user.rb")).toBe("ruby");
+		expect(parserManager.getLanguage("Rakefile.rake")).toBe("ruby");
+		expect(parserManager.getLanguage("src/Controller.php")).toBe("php");
+		expect(parserManager.getLanguage("Main.kt")).toBe("kotlin");
+		expect(parserManager.getLanguage("build.gradle.kts")).toBe("kotlin");
+		expect(parserManager.getLanguage("App.swift")).toBe("swift");
+		expect(parserManager.getLanguage("Program.cs")).toBe("csharp");
+		expect(parserManager.getLanguage(".github/ci.yml")).toBe("yaml");
+		expect(parserManager.getLanguage("Cargo.toml")).toBe("toml");
+		expect(parserManager.getLanguage("README.md")).toBe("markdown");
+	});
+
+	test("configures a grammar and queries for every new language", () => {
+		for (const language of [
+			"ruby",
+			"php",
+			"kotlin",
+			"swift",
+			"csharp",
+			"yaml",
+			"toml",
+			"markdown",
+		] as const) {
+			const config = parserManager.getLanguageConfig(language);
+			expect(config.grammarFile).toMatch(/^tree-sitter-\w+\.wasm$/);
+			expect(config.chunkQuery).toContain("@chunk");
+			expect(config.referenceQuery).toBeDefined();
+		}
+	});
+});
+
+describe("TestFileDetector", () => {
+	const detector = createTestFileDetector();
+
+	test("recognizes test files of the new languages", () => {
+		expect(detector.isTestFile("spec/models/user_spec.rb")).toBe(true);
+		expect(detector.isTestFile("tests/Unit/UserTest.php")).toBe(true);
+		expect(detector.isTestFile("app/src/test/kotlin/UserTest.kt")).toBe(true);
+		expect(detector.isTestFile("Tests/AppTests/AppTests.swift")).toBe(true);
+		expect(detector.isTestFile("App.Tests/UserServiceTests.cs")).toBe(true);
+
+		expect(detector.isTestFile("app/models/user.rb")).toBe(false);
+		expect(detector.isTestFile("Sources/App/User.swift")).toBe(false);
+		expect(detector.isTestFile("src/Services/UserService.cs")).toBe(false);
+	});
+});
+
+describe("Grammars of the new languages", () => {
+	// A fresh instance: other test files mock the getParserManager() singleton
+	const parserManager = new ParserManager(GRAMMARS_DIR);
+
+	const SAMPLES: Array<{
+		language: SupportedLanguage;
+		source: string;
+		names: string[];
+	}> = [
+		{
+			language: "ruby",
+			source:
+				"module Billing\n  class Invoice\n    def total\n      1\n    end\n  end\nend\n",
+			names: ["Billing", "Invoice", "total"],
+		},
+		{
+			language: "php",
+			source:
+				"<?php\nclass Invoice {\n  public function total() { return 1; }\n}\nfunction helper() {}\n",
+			names: ["Invoice", "total", "helper"],
+		},
+		{
+			language: "kotlin",
+			source:
+				"class Invoice {\n  fun total(): Int { return 1 }\n}\nfun helper() {}\n",
+			names: ["Invoice", "total", "helper"],
+		},
+		{
+			language: "swift",
+			source:
+				"struct Invoice {\n  func total() -> Int { return 1 }\n}\nprotocol Billable {}\n",
+			names: ["Invoice", "total", "Billable"],
+		},
+		{
+			language: "csharp",
+			source:
+				"namespace Billing {\n  public class Invoice {\n    public int Total() { return 1; }\n  }\n}\n",
+			names: ["Invoice", "Total"],
+		},
+		{
+			language: "yaml",
+			source: "name: ci\njobs:\n  test:\n    runs-on: ubuntu\n",
+			names: ["name", "jobs", "test", "runs-on"],
+		},
+		{
+			language: "toml",
+			source:
+				'[package]\nname = "app"\n\n[dependencies.serde]\nversion = "1"\n\n[[bin]]\nname = "cli"\n',
+			names: ["package", "dependencies.serde", "bin"],
+		},
+	];
+
+	for (const { language, source, names } of SAMPLES) {
+		const { grammarFile, chunkQuery } =
+			parserManager.getLanguageConfig(language);
+		const downloaded =
+			existsSync(join(GRAMMARS_DIR, "tree-sitter.wasm")) &&
+			existsSync(join(GRAMMARS_DIR, grammarFile));
+
+		test.skipIf(!downloaded)(`${language}: loads and chunks`, async () => {
+			const tree = await parserManager.parse(source, language);
+			const grammar = await parserManager.getLanguageObject(language);
+			if (!grammar || !tree) throw new Error(`${grammarFile} did not load`);
+
+			expect(tree.rootNode.hasError).toBe(false);
+			const captures = new Query(grammar, chunkQuery).captures(tree.rootNode);
+			expect(
+				captures.filter((c) => c.name === "name").map((c) => c.node.text),
+			).toEqual(names);
+		});
+	}
+
+	test("markdown: chunks by heading without a grammar", async () => {
+		const section = "Text that explains this part of the guide. ".repeat(8);
+		const chunks = await chunkDocument(
+			`# Guide\n\n${section}\n\n## Install\n\n${section}\n`,
+			"docs/guide.md",
+			"markdown",
+			"hash",
+		);
+		expect(chunks.map((c) => c.name)).toEqual(["Guide", "Install"]);
+	});
+});
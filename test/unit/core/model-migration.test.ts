@@ -0,0 +1,334 @@
+/**
+ * Unit tests for embedding model migration (src/core/model-migration.ts):
+ * shadow table naming, the retrieval comparison that gates a swap, and the
+ * build → swap → rollback lifecycle with a fake embeddings client.
+ */
+
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	VECTORS_DIR,
+	getIndexDbPath,
+	getIndexDir,
+} from "../../../src/config.js";
+import {
+	type MigrationOptions,
+	type ModelComparison,
+	type RetrievalQuery,
+	buildShadowTable,
+	findTargetRank,
+	getShadowTableDir,
+	getVectorTables,
+	isSwapSafe,
+	rollbackTables,
+	scoreRanks,
+	swapTables,
+} from "../../../src/core/model-migration.js";
+import {
+	type IVectorStore,
+	type VectorRecord,
+	createVectorStore,
+} from "../../../src/core/store.js";
+import { createFileTracker } from "../../../src/core/tracker.js";
+import type { IEmbeddingsClient } from "../../../src/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const target: RetrievalQuery = {
+	query: "parse the config file",
+	filePath: "src/config.ts",
+	startLine: 40,
+	endLine: 60,
+};
+
+function comparison(activeMrr: number, shadowMrr: number): ModelComparison {
+	return {
+		k: 10,
+		active: { model: "old", queries: 10, hitRate: 0.5, mrr: activeMrr },
+		shadow: { model: "new", queries: 10, hitRate: 0.5, mrr: shadowMrr },
+	};
+}
+
+const OLD_MODEL = "old-model";
+const NEW_MODEL = "new-model";
+
+/** Vector a fake model gives a text: which model, and the text length */
+function fakeVector(model: string, text: string): number[] {
+	return [model === NEW_MODEL ? 1 : 0, text.length];
+}
+
+/** Fake embeddings clients that record what each model embedded */
+function fakeClients(embedded: Array<{ model: string; texts: string[] }>) {
+	return (model: string): IEmbeddingsClient => ({
+		async embed(texts) {
+			embedded.push({ model, texts });
+			return { embeddings: texts.map((t) => fakeVector(model, t)) };
+		},
+		async embedOne(text) {
+			return fakeVector(model, text);
+		},
+		getModel: () => model,
+		getDimension: () => 2,
+		getProvider: () => "local",
+		isLocal: () => true,
+	});
+}
+
+function makeRecord(id: string, content: string, model: string): VectorRecord {
+	return {
+		id,
+		contentHash: `hash-${content}`,
+		content,
+		filePath: `/project/src/${id}.ts`,
+		startLine: 1,
+		endLine: 10,
+		language: "typescript",
+		chunkType: "function",
+		name: id,
+		parentName: "",
+		signature: "",
+		fileHash: `file-${id}`,
+		vector: fakeVector(model, content),
+		documentType: "code_chunk",
+		sourceIds: "",
+		metadata: "",
+		createdAt: "",
+		enrichedAt: "",
+		parentId: "",
+		unitType: "",
+		depth: 0,
+		summary: "",
+	};
+}
+
+const cleanups: Array<() => void | Promise<void>> = [];
+
+afterEach(async () => {
+	for (const cleanup of cleanups.splice(0).reverse()) {
+		await cleanup();
+	}
+});
+
+/** A project indexed with the old model */
+async function makeProject(records: VectorRecord[]): Promise<string> {
+	const projectPath = mkdtempSync(join(tmpdir(), "mnemex-migration-test-"));
+	cleanups.push(() => rmSync(projectPath, { recursive: true, force: true }));
+
+	const tracker = createFileTracker(getIndexDbPath(projectPath), projectPath);
+	tracker.setMetadata("embeddingModel", OLD_MODEL);
+	tracker.close();
+
+	const store = openTable(projectPath, VECTORS_DIR);
+	await store.addRecords(records);
+	return projectPath;
+}
+
+function openTable(projectPath: string, dir: string): IVectorStore {
+	const store = createVectorStore(
+		join(getIndexDir(projectPath), dir),
+		projectPath,
+	);
+	cleanups.push(() => store.close());
+	return store;
+}
+
+/** Content of a table keyed by id, with the model each vector came from */
+async function readTable(
+	projectPath: string,
+	dir: string,
+): Promise<Record<string, { content: string; model: string }>> {
+	const store = openTable(projectPath, dir);
+	const ids = [...(await store.getRecordContents()).keys()];
+	const rows: Record<string, { content: string; model: string }> = {};
+	for (const record of await store.getRecordsByIds(ids)) {
+		rows[record.id] = {
+			content: record.content,
+			model: record.vector[0] === 1 ? NEW_MODEL : OLD_MODEL,
+		};
+	}
+	return rows;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("getShadowTableDir", () => {
+	test("derives a directory name from the model id", () => {
+		expect(getShadowTableDir("voyage-code-3")).toBe("vectors-voyage-code-3");
+		expect(getShadowTableDir("openai/text-embedding-3-small")).toBe(
+			"vectors-openai-text-embedding-3-small",
+		);
+		expect(getShadowTableDir("ollama/nomic-embed-text:v1.5")).toBe(
+			"vectors-ollama-nomic-embed-text-v1.5",
+		);
+	});
+});
+
+describe("findTargetRank", () => {
+	test("returns the rank of the first result overlapping the target", () => {
+		const rank = findTargetRank(
+			[
+				{ filePath: "src/other.ts", startLine: 40, endLine: 60 },
+				{ filePath: "src/config.ts", startLine: 1, endLine: 39 },
+				{ filePath: "src/config.ts", startLine: 55, endLine: 80 },
+			],
+			target,
+		);
+		expect(rank).toBe(3);
+	});
+
+	test("returns null when no result overlaps", () => {
+		expect(
+			findTargetRank(
+				[{ filePath: "src/config.ts", startLine: 61, endLine: 90 }],
+				target,
+			),
+		).toBeNull();
+	});
+});
+
+describe("scoreRanks", () => {
+	test("computes hit rate and MRR within the top K", () => {
+		const score = scoreRanks([1, 2, null, 20], 10);
+		expect(score.queries).toBe(4);
+		expect(score.hitRate).toBe(0.5);
+		expect(score.mrr).toBeCloseTo((1 + 0.5) / 4, 6);
+	});
+
+	test("scores an empty query set as zero", () => {
+		expect(scoreRanks([])).toEqual({ queries: 0, hitRate: 0, mrr: 0 });
+	});
+});
+
+describe("isSwapSafe", () => {
+	test("allows a swap unless MRR drops beyond the tolerance", () => {
+		expect(isSwapSafe(comparison(0.5, 0.6))).toBe(true);
+		expect(isSwapSafe(comparison(0.5, 0.495))).toBe(true);
+		expect(isSwapSafe(comparison(0.5, 0.45))).toBe(false);
+		expect(isSwapSafe(comparison(0.5, 0.45), 0.1)).toBe(true);
+	});
+});
+
+describe("model migration lifecycle", () => {
+	test("build, index run, swap with catch-up, rollback with catch-up", async () => {
+		const projectPath = await makeProject([
+			makeRecord("a", "function a() {}", OLD_MODEL),
+			makeRecord("b", "function b() {}", OLD_MODEL),
+		]);
+		const embedded: Array<{ model: string; texts: string[] }> = [];
+		const options: MigrationOptions = {
+			createEmbeddingsClient: fakeClients(embedded),
+		};
+		const shadowDir = getShadowTableDir(NEW_MODEL);
+
+		// Build: every row is re-embedded with the new model
+		expect(await buildShadowTable(projectPath, NEW_MODEL, options)).toEqual({
+			embedded: 2,
+			deleted: 0,
+			total: 2,
+		});
+		expect(getVectorTables(projectPath)?.shadow?.dir).toBe(shadowDir);
+		expect(embedded.map((e) => e.model)).toEqual([NEW_MODEL]);
+
+		// Index run on the active table: a deleted, b changed, c added
+		const active = openTable(projectPath, VECTORS_DIR);
+		await active.deleteByIds(["a", "b"]);
+		await active.addRecords([
+			makeRecord("b", "function b(x) {}", OLD_MODEL),
+			makeRecord("c", "function c() {}", OLD_MODEL),
+		]);
+
+		// Swap: only the changed and new rows are embedded again
+		embedded.length = 0;
+		expect(await swapTables(projectPath, options)).toEqual({
+			embedded: 2,
+			deleted: 1,
+			total: 2,
+		});
+		expect(embedded.flatMap((e) => e.texts).sort()).toEqual([
+			"function b(x) {}",
+			"function c() {}",
+		]);
+		expect(getVectorTables(projectPath)).toMatchObject({
+			active: { dir: shadowDir, model: NEW_MODEL },
+			previous: { dir: VECTORS_DIR, model: OLD_MODEL },
+		});
+		expect(await readTable(projectPath, shadowDir)).toEqual({
+			b: { content: "function b(x) {}", model: NEW_MODEL },
+			c: { content: "function c() {}", model: NEW_MODEL },
+		});
+
+		// Index run on the new table
+		await openTable(projectPath, shadowDir).addRecords([
+			makeRecord("d", "function d() {}", NEW_MODEL),
+		]);
+
+		// Rollback: the old table catches up with the old model first
+		embedded.length = 0;
+		expect(await rollbackTables(projectPath, options)).toEqual({
+			embedded: 1,
+			deleted: 0,
+			total: 3,
+		});
+		expect(embedded).toEqual([
+			{ model: OLD_MODEL, texts: ["function d() {}"] },
+		]);
+		expect(getVectorTables(projectPath)).toMatchObject({
+			active: { dir: VECTORS_DIR, model: OLD_MODEL },
+			previous: { dir: shadowDir, model: NEW_MODEL },
+		});
+		expect(await readTable(projectPath, VECTORS_DIR)).toEqual({
+			b: { content: "function b(x) {}", model: OLD_MODEL },
+			c: { content: "function c() {}", model: OLD_MODEL },
+			d: { content: "function d() {}", model: OLD_MODEL },
+		});
+	});
+
+	test("skips rows the client returns no vector for", async () => {
+		const projectPath = await makeProject([
+			makeRecord("a", "function a() {}", OLD_MODEL),
+			makeRecord("b", "", OLD_MODEL),
+		]);
+		const clients = fakeClients([]);
+		const result = await buildShadowTable(projectPath, NEW_MODEL, {
+			createEmbeddingsClient: (model) => ({
+				...clients(model),
+				// Empty texts get no vector, as with some providers
+				async embed(texts) {
+					return {
+						embeddings: texts.map((t) => (t ? fakeVector(model, t) : [])),
+					};
+				},
+			}),
+		});
+
+		expect(result.embedded).toBe(1);
+		expect(
+			Object.keys(await readTable(projectPath, getShadowTableDir(NEW_MODEL))),
+		).toEqual(["a"]);
+	});
+
+	test("fails when the client returns fewer vectors than texts", async () => {
+		const projectPath = await makeProject([
+			makeRecord("a", "function a() {}", OLD_MODEL),
+			makeRecord("b", "function b() {}", OLD_MODEL),
+		]);
+		const clients = fakeClients([]);
+
+		await expect(
+			buildShadowTable(projectPath, NEW_MODEL, {
+				createEmbeddingsClient: (model) => ({
+					...clients(model),
+					async embed(texts) {
+						return { embeddings: [fakeVector(model, texts[0])] };
+					},
+				}),
+			}),
+		).rejects.toThrow("Embedding count mismatch: expected 2, got 1");
+	});
+});
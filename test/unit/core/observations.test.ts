@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the observation lifecycle (src/core/observations.ts):
+ * decay, duplicate detection and invalidation by changed files and symbols.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	CONFIDENCE_HALF_LIFE_DAYS,
+	type FileChanges,
+	type Observation,
+	type ObservationMetadata,
+	buildSymbolHashes,
+	findDuplicate,
+	findStaleObservations,
+	getEffectiveConfidence,
+	normalizeObservationMetadata,
+} from "../../../src/core/observations.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+
+function observation(
+	id: string,
+	metadata: Partial<ObservationMetadata> = {},
+	vector: number[] = [1, 0, 0],
+): Observation {
+	return {
+		id,
+		content: `observation ${id}`,
+		createdAt: new Date(NOW).toISOString(),
+		metadata: {
+			observationType: "gotcha",
+			confidence: 0.8,
+			affectedFiles: ["src/a.ts"],
+			status: "active",
+			...metadata,
+		},
+		vector,
+	};
+}
+
+function changes(
+	modified: Record<string, [Record<string, string>, Record<string, string>]>,
+	deleted: string[] = [],
+): FileChanges {
+	return {
+		modified: new Map(
+			Object.entries(modified).map(([file, [before, after]]) => [
+				file,
+				{
+					before: new Map(Object.entries(before)),
+					after: new Map(Object.entries(after)),
+				},
+			]),
+		),
+		deleted: new Set(deleted),
+	};
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("getEffectiveConfidence", () => {
+	test("halves confidence every half-life since the last confirmation", () => {
+		const obs = observation("a");
+		expect(getEffectiveConfidence(obs, NOW)).toBeCloseTo(0.8, 6);
+		expect(
+			getEffectiveConfidence(obs, NOW + CONFIDENCE_HALF_LIFE_DAYS * DAY_MS),
+		).toBeCloseTo(0.4, 6);
+
+		const confirmed = observation("b", {
+			confirmedAt: new Date(
+				NOW + CONFIDENCE_HALF_LIFE_DAYS * DAY_MS,
+			).toISOString(),
+		});
+		expect(
+			getEffectiveConfidence(
+				confirmed,
+				NOW + CONFIDENCE_HALF_LIFE_DAYS * DAY_MS,
+			),
+		).toBeCloseTo(0.8, 6);
+	});
+
+	test("discounts flagged and zeroes retired observations", () => {
+		expect(
+			getEffectiveConfidence(observation("a", { status: "needs_review" }), NOW),
+		).toBeCloseTo(0.4, 6);
+		expect(
+			getEffectiveConfidence(observation("a", { status: "retired" }), NOW),
+		).toBe(0);
+	});
+});
+
+describe("normalizeObservationMetadata", () => {
+	test("fills defaults for observations recorded before the lifecycle", () => {
+		expect(normalizeObservationMetadata(undefined, "src/x.ts")).toEqual({
+			observationType: "pattern",
+			confidence: 0.7,
+			affectedFiles: ["src/x.ts"],
+			status: "active",
+		});
+	});
+});
+
+describe("findDuplicate", () => {
+	test("matches the most similar observation of the same type", () => {
+		const observations = [
+			observation("close", {}, [1, 0.1, 0]),
+			observation("exact", {}, [1, 0, 0]),
+			observation("other-type", { observationType: "pattern" }, [1, 0, 0]),
+			observation("retired", { status: "retired" }, [1, 0, 0]),
+		];
+
+		expect(
+			findDuplicate(observations, [1, 0, 0], "gotcha")?.observation.id,
+		).toBe("exact");
+		expect(findDuplicate(observations, [0, 1, 0], "gotcha")).toBeNull();
+		expect(findDuplicate(observations, [1, 0, 0], "architecture")).toBeNull();
+	});
+});
+
+describe("buildSymbolHashes", () => {
+	test("hashes chunks by symbol and qualified method name", () => {
+		const hashes = buildSymbolHashes([
+			{ name: "load", parentName: "Config", contentHash: "h2" },
+			{ name: "load", parentName: "Config", contentHash: "h1" },
+			{ name: "parse", contentHash: "h3" },
+			{ contentHash: "anonymous" },
+		]);
+
+		expect(hashes.get("Config.load")).toBe("h1,h2");
+		expect(hashes.get("load")).toBe("h1,h2");
+		expect(hashes.get("parse")).toBe("h3");
+		expect(hashes.size).toBe(3);
+	});
+});
+
+describe("findStaleObservations", () => {
+	test("flags observations about modified or deleted files", () => {
+		const stale = findStaleObservations(
+			[
+				observation("modified"),
+				observation("deleted", { affectedFiles: ["src/gone.ts"] }),
+				observation("untouched", { affectedFiles: ["src/b.ts"] }),
+				observation("retired", { status: "retired" }),
+			],
+			changes({ "src/a.ts": [{ f: "1" }, { f: "2" }] }, ["src/gone.ts"]),
+		);
+
+		expect(stale).toEqual([
+			{ id: "modified", reason: "src/a.ts changed" },
+			{ id: "deleted", reason: "src/gone.ts was deleted" },
+		]);
+	});
+
+	test("only flags symbol observations when their symbols changed", () => {
+		const observations = [
+			observation("about-load", { affectedSymbols: ["load"] }),
+			observation("about-parse", { affectedSymbols: ["parse"] }),
+		];
+		const stale = findStaleObservations(
+			observations,
+			changes({
+				"src/a.ts": [
+					{ load: "1", parse: "2" },
+					{ parse: "2", other: "3" },
+				],
+			}),
+		);
+
+		expect(stale).toEqual([
+			{ id: "about-load", reason: "load changed in src/a.ts" },
+		]);
+	});
+});
@@ -0,0 +1,378 @@
+/**
+ * Unit tests for import-aware reference resolution.
+ *
+ * The tracker is populated by hand (symbols, references, imports) so the
+ * resolver can be exercised without tree-sitter grammars.
+ */
+
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ModuleResolver } from "../../../src/core/module-resolver.js";
+import { ReferenceGraphManager } from "../../../src/core/reference-graph.js";
+import { ReferenceResolver } from "../../../src/core/reference-resolver.js";
+import { FileTracker } from "../../../src/core/tracker.js";
+import type {
+	FileImport,
+	SymbolDefinition,
+	SymbolReference,
+} from "../../../src/types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const NOW = new Date().toISOString();
+
+function makeWorkspace(): {
+	dir: string;
+	tracker: FileTracker;
+	cleanup: () => void;
+} {
+	const dir = mkdtempSync(join(tmpdir(), "mnemex-resolver-test-"));
+	const tracker = new FileTracker(join(dir, "index.db"), dir);
+	return {
+		dir,
+		tracker,
+		cleanup: () => {
+			try {
+				tracker.close();
+			} catch {
+				// best effort
+			}
+			rmSync(dir, { recursive: true, force: true });
+		},
+	};
+}
+
+function sym(
+	id: string,
+	name: string,
+	filePath: string,
+	overrides: Partial<SymbolDefinition> = {},
+): SymbolDefinition {
+	return {
+		id,
+		name,
+		kind: "function",
+		filePath,
+		startLine: 1,
+		endLine: 10,
+		isExported: true,
+		language: "typescript",
+		pagerankScore: 0,
+		createdAt: NOW,
+		updatedAt: NOW,
+		...overrides,
+	};
+}
+
+function ref(
+	fromSymbolId: string,
+	toSymbolName: string,
+	filePath: string,
+): SymbolReference {
+	return {
+		fromSymbolId,
+		toSymbolName,
+		kind: "call",
+		filePath,
+		line: 5,
+		isResolved: false,
+		createdAt: NOW,
+	};
+}
+
+function imp(
+	filePath: string,
+	moduleSpecifier: string,
+	importedName: string,
+	localName = importedName,
+	isReexport = false,
+): FileImport {
+	return {
+		filePath,
+		moduleSpecifier,
+		importedName,
+		localName,
+		line: 1,
+		isReexport,
+	};
+}
+
+function targetOf(
+	tracker: FileTracker,
+	fromSymbolId: string,
+): string | undefined {
+	return tracker.getReferencesFrom(fromSymbolId)[0]?.toSymbolId;
+}
+
+// ---------------------------------------------------------------------------
+// ReferenceResolver via ReferenceGraphManager.resolveReferences
+// ---------------------------------------------------------------------------
+
+describe("import-aware reference resolution", () => {
+	let cleanup: () => void;
+
+	afterEach(() => {
+		if (cleanup) cleanup();
+	});
+
+	it("binds a named import to the definition in the imported module", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		ws.tracker.insertSymbols([
+			sym("a-handle", "handle", "src/a/handler.ts"),
+			sym("b-handle", "handle", "src/b/handler.ts"),
+			sym("main", "main", "src/app.ts"),
+		]);
+		ws.tracker.insertReferences([ref("main", "handle", "src/app.ts")]);
+		ws.tracker.insertImports([imp("src/app.ts", "./b/handler.js", "handle")]);
+
+		await new ReferenceGraphManager(ws.tracker).resolveReferences();
+
+		const [resolved] = ws.tracker.getReferencesFrom("main");
+		expect(resolved.toSymbolId).toBe("b-handle");
+		expect(resolved.confidence).toBe(1);
+		expect(ws.tracker.getReferenceCandidates(resolved.id!)).toHaveLength(0);
+	});
+
+	it("follows aliases and barrel re-exports", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		ws.tracker.insertSymbols([
+			sym("lib-create", "create", "src/lib/create.ts"),
+			sym("other-create", "create", "src/other.ts"),
+			sym("main", "main", "src/app.ts"),
+		]);
+		ws.tracker.insertReferences([ref("main", "makeThing", "src/app.ts")]);
+		ws.tracker.insertImports([
+			imp("src/lib/index.ts", "./create", "*", "*", true),
+			imp("src/app.ts", "./lib", "create", "makeThing"),
+		]);
+
+		await new ReferenceGraphManager(ws.tracker).resolveReferences();
+
+		expect(targetOf(ws.tracker, "main")).toBe("lib-create");
+	});
+
+	it("does not guess a project symbol for names imported from external packages", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		ws.tracker.insertSymbols([
+			sym("local-useState", "useState", "src/state.ts"),
+			sym("main", "main", "src/app.ts"),
+		]);
+		ws.tracker.insertReferences([ref("main", "useState", "src/app.ts")]);
+		ws.tracker.insertImports([imp("src/app.ts", "react", "useState")]);
+
+		const resolved = await new ReferenceGraphManager(
+			ws.tracker,
+		).resolveReferences();
+
+		expect(resolved).toBe(0);
+		expect(ws.tracker.getReferencesFrom("main")[0].isResolved).toBe(false);
+	});
+
+	it("resolves tsconfig paths aliases", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		ws.tracker.insertSymbols([
+			sym("core-init", "init", "packages/core/src/init.ts"),
+			sym("web-init", "init", "packages/web/src/init.ts"),
+			sym("main", "main", "packages/web/src/app.ts"),
+		]);
+		ws.tracker.insertReferences([
+			ref("main", "init", "packages/web/src/app.ts"),
+		]);
+		ws.tracker.insertImports([
+			imp("packages/web/src/app.ts", "@core/init", "init"),
+		]);
+
+		new ReferenceResolver(ws.tracker, {
+			moduleConfig: {
+				baseUrl: ".",
+				paths: { "@core/*": ["packages/core/src/*"] },
+			},
+		}).resolve();
+
+		expect(targetOf(ws.tracker, "main")).toBe("core-init");
+	});
+
+	it("records ambiguous global matches as a ranked candidate set", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		ws.tracker.insertSymbols([
+			sym("api-format", "format", "src/api/util.ts"),
+			sym("script-format", "format", "scripts/util.ts"),
+			sym("route", "route", "src/api/routes.ts"),
+		]);
+		ws.tracker.insertReferences([ref("route", "format", "src/api/routes.ts")]);
+
+		await new ReferenceGraphManager(ws.tracker).resolveReferences();
+
+		const [resolved] = ws.tracker.getReferencesFrom("route");
+		const candidates = ws.tracker.getReferenceCandidates(resolved.id!);
+		expect(resolved.toSymbolId).toBe("api-format");
+		expect(candidates.map((c) => c.symbolId)).toEqual([
+			"api-format",
+			"script-format",
+		]);
+		expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+		expect(resolved.confidence).toBeLessThan(1);
+	});
+
+	it("prefers same-package definitions in Go", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		const go = { language: "go" };
+		ws.tracker.insertSymbols([
+			sym("store-new", "New", "internal/store/store.go", go),
+			sym("store-open", "Open", "internal/store/open.go", go),
+			sym("cache-open", "Open", "internal/cache/open.go", go),
+			sym("main", "main", "cmd/main.go", go),
+		]);
+		ws.tracker.insertReferences([
+			ref("store-new", "Open", "internal/store/store.go"),
+			ref("main", "Open", "cmd/main.go"),
+		]);
+		ws.tracker.insertImports([
+			imp("cmd/main.go", "example.com/svc/internal/cache", "*", "cache"),
+		]);
+
+		new ReferenceResolver(ws.tracker, {
+			moduleConfig: { goModulePath: "example.com/svc" },
+		}).resolve();
+
+		expect(targetOf(ws.tracker, "store-new")).toBe("store-open");
+		expect(targetOf(ws.tracker, "main")).toBe("cache-open");
+	});
+
+	it("re-resolves references whose target was deleted", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		ws.tracker.insertSymbols([
+			sym("a-run", "run", "src/a.ts"),
+			sym("main", "main", "src/app.ts"),
+		]);
+		ws.tracker.insertReferences([ref("main", "run", "src/app.ts")]);
+		ws.tracker.insertImports([imp("src/app.ts", "./a", "run")]);
+
+		const graph = new ReferenceGraphManager(ws.tracker);
+		await graph.resolveReferences();
+		expect(targetOf(ws.tracker, "main")).toBe("a-run");
+
+		// "run" moves from a.ts to b.ts and the import is updated
+		ws.tracker.deleteSymbolsByFile("src/a.ts");
+		ws.tracker.deleteSymbolsByFile("src/app.ts");
+		ws.tracker.insertSymbols([
+			sym("b-run", "run", "src/b.ts"),
+			sym("main", "main", "src/app.ts"),
+		]);
+		ws.tracker.insertReferences([ref("main", "run", "src/app.ts")]);
+		ws.tracker.insertImports([imp("src/app.ts", "./b", "run")]);
+
+		await graph.resolveReferences();
+		expect(targetOf(ws.tracker, "main")).toBe("b-run");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// PageRank over weighted edges
+// ---------------------------------------------------------------------------
+
+describe("ReferenceGraphManager.computePageRank — weighted edges", () => {
+	let cleanup: () => void;
+
+	afterEach(() => {
+		if (cleanup) cleanup();
+	});
+
+	it("splits rank across ambiguous candidates by confidence", async () => {
+		const ws = makeWorkspace();
+		cleanup = ws.cleanup;
+
+		ws.tracker.insertSymbols([
+			sym("api-format", "format", "src/api/util.ts"),
+			sym("script-format", "format", "scripts/util.ts"),
+			sym("route", "route", "src/api/routes.ts"),
+		]);
+		ws.tracker.insertReferences([ref("route", "format", "src/api/routes.ts")]);
+
+		const graph = new ReferenceGraphManager(ws.tracker);
+		await graph.resolveReferences();
+		const scores = graph.computePageRank();
+
+		expect(scores.get("api-format")!).toBeGreaterThan(
+			scores.get("script-format")!,
+		);
+		expect(scores.get("script-format")!).toBeGreaterThan(scores.get("route")!);
+	});
+});
+
+// ---------------------------------------------------------------------------
+// ModuleResolver
+// ---------------------------------------------------------------------------
+
+describe("ModuleResolver", () => {
+	it("maps ESM .js specifiers to TypeScript sources and index files", () => {
+		const resolver = new ModuleResolver([
+			"src/core/tracker.ts",
+			"src/ui/index.tsx",
+		]);
+
+		expect(
+			resolver.resolve("./tracker.js", "src/core/x.ts", "typescript"),
+		).toEqual(["src/core/tracker.ts"]);
+		expect(resolver.resolve("../ui", "src/core/x.ts", "typescript")).toEqual([
+			"src/ui/index.tsx",
+		]);
+		expect(resolver.resolve("lodash", "src/core/x.ts", "typescript")).toEqual(
+			[],
+		);
+	});
+
+	it("resolves Python absolute and relative modules", () => {
+		const resolver = new ModuleResolver([
+			"src/app/models/__init__.py",
+			"src/app/models/user.py",
+			"src/app/views.py",
+		]);
+
+		expect(
+			resolver.resolve("app.models.user", "src/app/views.py", "python"),
+		).toEqual(["src/app/models/user.py"]);
+		expect(resolver.resolve(".models", "src/app/views.py", "python")).toEqual([
+			"src/app/models/__init__.py",
+		]);
+		expect(
+			resolver.resolve("..views", "src/app/models/user.py", "python"),
+		).toEqual(["src/app/views.py"]);
+		expect(resolver.resolve("os.path", "src/app/views.py", "python")).toEqual(
+			[],
+		);
+	});
+
+	it("resolves Go packages to every file in the package directory", () => {
+		const resolver = new ModuleResolver([
+			"pkg/util/strings.go",
+			"pkg/util/ints.go",
+			"cmd/main.go",
+		]);
+
+		expect(
+			resolver
+				.resolve("github.com/acme/tool/pkg/util", "cmd/main.go", "go")
+				.sort(),
+		).toEqual(["pkg/util/ints.go", "pkg/util/strings.go"]);
+		expect(resolver.resolve("fmt", "cmd/main.go", "go")).toEqual([]);
+	});
+});
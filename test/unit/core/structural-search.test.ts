@@ -0,0 +1,211 @@
+/**
+ * Unit tests for structural search pattern matching
+ * (src/core/ast/structural-search.ts)
+ *
+ * Trees are built by hand in the shape tree-sitter produces, so no grammar
+ * is needed: composite nodes take their text from their children.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	type SyntaxNode,
+	compilePattern,
+	findPatternMatches,
+	matchPattern,
+	passesAncestorFilters,
+	patternRoot,
+} from "../../../src/core/ast/structural-search.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+interface FakeNode extends SyntaxNode {
+	children: FakeNode[];
+	parent: FakeNode | null;
+}
+
+/** Leaf node; anonymous tokens use their text as type */
+function leaf(type: string, text = type, isExtra = false): FakeNode {
+	return {
+		type,
+		text,
+		isExtra,
+		startIndex: 0,
+		endIndex: text.length,
+		startPosition: { row: 0 },
+		endPosition: { row: 0 },
+		children: [],
+		parent: null,
+	};
+}
+
+function node(type: string, children: FakeNode[]): FakeNode {
+	const result: FakeNode = {
+		...leaf(type),
+		text: children
+			.filter((c) => !c.isExtra)
+			.map((c) => c.text)
+			.join(" "),
+		children,
+	};
+	for (const child of children) child.parent = result;
+	return result;
+}
+
+const id = (name: string) => leaf("identifier", name);
+
+/** call_expression: fn(arg, arg, ...) */
+function call(fn: string, args: FakeNode[]): FakeNode {
+	const argNodes: FakeNode[] = [leaf("(")];
+	args.forEach((arg, i) => {
+		if (i > 0) argNodes.push(leaf(","));
+		argNodes.push(arg);
+	});
+	argNodes.push(leaf(")"));
+	return node("call_expression", [id(fn), node("arguments", argNodes)]);
+}
+
+function compiled(pattern: string, build: (source: string) => FakeNode) {
+	const { source, metavariables } = compilePattern(pattern);
+	return { root: patternRoot(build(source)), metavariables };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("compilePattern", () => {
+	test("replaces metavariables with identifier placeholders", () => {
+		const { source, metavariables } = compilePattern("fetch($URL, $$$, $_)");
+		expect(source).not.toContain("$");
+		expect([...metavariables.values()]).toEqual([
+			{ name: "URL", multi: false },
+			{ name: "_", multi: true },
+			{ name: "_", multi: false },
+		]);
+	});
+
+	test("reuses the placeholder for a repeated metavariable", () => {
+		const { source, metavariables } = compilePattern("$A + $A");
+		const [left, right] = source.split(" + ");
+		expect(left).toBe(right);
+		expect(metavariables.size).toBe(1);
+	});
+});
+
+describe("matchPattern", () => {
+	// Pattern `fetch($URL)`, parsed as program > expression_statement > call
+	const single = compiled("fetch($URL)", (source) => {
+		const placeholder = source.slice("fetch(".length, -1);
+		return node("program", [
+			node("expression_statement", [call("fetch", [id(placeholder)])]),
+		]);
+	});
+
+	test("unwraps the pattern to the node it stands for", () => {
+		expect(single.root.type).toBe("call_expression");
+	});
+
+	test("binds single-node metavariables", () => {
+		const target = call("fetch", [leaf("string", '"/api"')]);
+		const bindings = new Map();
+		expect(
+			matchPattern(single.root, target, single.metavariables, bindings),
+		).toBe(true);
+		expect(bindings.get("URL")[0].text).toBe('"/api"');
+	});
+
+	test("requires identical leaf text and argument count", () => {
+		expect(
+			matchPattern(single.root, call("get", [id("url")]), single.metavariables),
+		).toBe(false);
+		expect(
+			matchPattern(
+				single.root,
+				call("fetch", [id("url"), id("init")]),
+				single.metavariables,
+			),
+		).toBe(false);
+	});
+
+	test("matches any number of siblings with $$$", () => {
+		const rest = compiled("fetch($URL, $$$REST)", (source) => {
+			const [url, restArg] = source.slice("fetch(".length, -1).split(", ");
+			return call("fetch", [id(url), id(restArg)]);
+		});
+		const bindings = new Map();
+		expect(
+			matchPattern(
+				rest.root,
+				call("fetch", [id("url"), id("init"), id("extra")]),
+				rest.metavariables,
+				bindings,
+			),
+		).toBe(true);
+		expect(bindings.get("REST").map((n: SyntaxNode) => n.text)).toEqual([
+			"init",
+			",",
+			"extra",
+		]);
+		// Zero trailing arguments still need the separating comma
+		expect(
+			matchPattern(rest.root, call("fetch", [id("url")]), rest.metavariables),
+		).toBe(false);
+	});
+
+	test("repeated metavariables must match the same text", () => {
+		const same = compiled("$A + $A", (source) => {
+			const [a] = source.split(" + ");
+			return node("binary_expression", [id(a), leaf("+"), id(a)]);
+		});
+		const sum = (l: string, r: string) =>
+			node("binary_expression", [id(l), leaf("+"), id(r)]);
+
+		expect(matchPattern(same.root, sum("x", "x"), same.metavariables)).toBe(
+			true,
+		);
+		expect(matchPattern(same.root, sum("x", "y"), same.metavariables)).toBe(
+			false,
+		);
+	});
+
+	test("ignores comments in the target", () => {
+		const target = call("fetch", [id("url")]);
+		const args = target.children[1];
+		args.children.splice(1, 0, leaf("comment", "/* api */", true));
+		expect(matchPattern(single.root, target, single.metavariables)).toBe(true);
+	});
+});
+
+describe("findPatternMatches", () => {
+	test("finds nested matches and filters by ancestor type", () => {
+		const inner = call("fetch", [id("b")]);
+		const tree = node("program", [
+			node("expression_statement", [call("fetch", [id("a")])]),
+			node("try_statement", [
+				leaf("try"),
+				node("statement_block", [node("expression_statement", [inner])]),
+			]),
+		]);
+		const pattern = compiled("fetch($URL)", (source) =>
+			call("fetch", [id(source.slice("fetch(".length, -1))]),
+		);
+
+		const matches = findPatternMatches(
+			pattern.root,
+			tree,
+			pattern.metavariables,
+		);
+		expect(matches.map((m) => m.bindings.get("URL")?.[0].text)).toEqual([
+			"a",
+			"b",
+		]);
+
+		const unguarded = matches.filter((m) =>
+			passesAncestorFilters(m.node, [], ["try_statement"]),
+		);
+		expect(unguarded).toHaveLength(1);
+		expect(passesAncestorFilters(inner, ["try_statement"])).toBe(true);
+	});
+});
@@ -0,0 +1,267 @@
+/**
+ * Unit tests for local documentation: lockfile parsing
+ * (src/docs/lockfiles.ts) and doc extraction from installed sources
+ * (src/docs/source-docs.ts, src/docs/providers/local.ts).
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	escapeGoModulePath,
+	extractGoDocComments,
+	extractPythonDocstrings,
+	extractRustDocComments,
+	getLockedVersions,
+	parseLockfile,
+} from "../../../src/docs/index.js";
+
+// ============================================================================
+// Lockfiles
+// ============================================================================
+
+describe("parseLockfile", () => {
+	test("reads top-level npm installs", () => {
+		const packageLock = parseLockfile(
+			"package-lock.json",
+			JSON.stringify({
+				lockfileVersion: 3,
+				packages: {
+					"": { name: "app" },
+					"node_modules/react": { version: "18.2.0" },
+					"node_modules/@types/node": { version: "20.11.5" },
+					"node_modules/a/node_modules/react": { version: "17.0.2" },
+				},
+			}),
+		);
+		expect(getLockedVersions(packageLock, "react", "npm")).toEqual(["18.2.0"]);
+		expect(getLockedVersions(packageLock, "@types/node", "npm")).toEqual([
+			"20.11.5",
+		]);
+
+		const bunLock = parseLockfile(
+			"bun.lock",
+			`{
+  "lockfileVersion": 1,
+  "packages": {
+    "app": ["app@workspace:."],
+    "react": ["react@18.2.0", "", {}, "sha512-x"],
+    "@types/node": ["@types/node@20.11.5", "", {}, "sha512-y"],
+    "a/react": ["react@17.0.2", "", {}, "sha512-z"],
+  }
+}`,
+		);
+		expect([...bunLock]).toEqual([
+			["react", ["18.2.0"]],
+			["@types/node", ["20.11.5"]],
+		]);
+	});
+
+	test("reads yarn and pnpm lockfiles", () => {
+		const yarnLock = parseLockfile(
+			"yarn.lock",
+			`# yarn lockfile v1
+
+"@babel/core@^7.0.0", "@babel/core@^7.1.0":
+  version "7.23.0"
+  dependencies:
+    debug "^4.1.0"
+
+react@^18.2.0:
+  version "18.2.0"
+`,
+		);
+		expect([...yarnLock]).toEqual([
+			["@babel/core", ["7.23.0"]],
+			["react", ["18.2.0"]],
+		]);
+
+		const pnpmLock = parseLockfile(
+			"pnpm-lock.yaml",
+			`lockfileVersion: '9.0'
+
+importers:
+  .:
+    dependencies:
+      react-dom:
+        specifier: ^18.2.0
+        version: 18.2.0(react@18.2.0)
+
+packages:
+  react-dom@18.2.0:
+    resolution: {integrity: sha512-x}
+  '@types/node@20.11.5':
+    resolution: {integrity: sha512-y}
+  /string_decoder/1.3.0_react@18.2.0:
+    resolution: {integrity: sha512-z}
+`,
+		);
+		expect([...pnpmLock]).toEqual([
+			["react-dom", ["18.2.0"]],
+			["@types/node", ["20.11.5"]],
+			["string_decoder", ["1.3.0"]],
+		]);
+	});
+
+	test("reads Python, Go and Cargo lockfiles", () => {
+		const poetryLock = parseLockfile(
+			"poetry.lock",
+			`[[package]]
+name = "Typing_Extensions"
+version = "4.9.0"
+
+[package.dependencies]
+name = "not-a-package"
+
+[[package]]
+name = "requests"
+version = "2.31.0"
+`,
+		);
+		expect(getLockedVersions(poetryLock, "typing-extensions", "pypi")).toEqual([
+			"4.9.0",
+		]);
+		expect(getLockedVersions(poetryLock, "requests", "pypi")).toEqual([
+			"2.31.0",
+		]);
+
+		const requirements = parseLockfile(
+			"requirements.txt",
+			"django>=4.0\nrequests[socks]==2.31.0 ; python_version >= '3.8'\n",
+		);
+		expect([...requirements]).toEqual([["requests", ["2.31.0"]]]);
+
+		const goSum = parseLockfile(
+			"go.sum",
+			`github.com/spf13/cobra v1.7.0 h1:abc=
+github.com/spf13/cobra v1.7.0/go.mod h1:def=
+github.com/spf13/cobra v1.8.0 h1:ghi=
+`,
+		);
+		expect(getLockedVersions(goSum, "github.com/spf13/cobra", "go")).toEqual([
+			"v1.7.0",
+			"v1.8.0",
+		]);
+
+		const cargoLock = parseLockfile(
+			"Cargo.lock",
+			`version = 3
+
+[[package]]
+name = "serde"
+version = "1.0.195"
+dependencies = [
+ "serde_derive",
+]
+`,
+		);
+		expect([...cargoLock]).toEqual([["serde", ["1.0.195"]]]);
+
+		expect(parseLockfile("Gemfile.lock", "anything").size).toBe(0);
+	});
+});
+
+// ============================================================================
+// Source Docs
+// ============================================================================
+
+describe("extractPythonDocstrings", () => {
+	test("collects module and public docstrings", () => {
+		const docs = extractPythonDocstrings(`# -*- coding: utf-8 -*-
+"""HTTP sessions.
+
+Keeps cookies across requests.
+"""
+
+import os
+
+
+def _private():
+    """Hidden."""
+
+
+class Session:
+    """A persistent session."""
+
+    def get(self, url,
+            **kwargs):
+        """Send a GET request.
+
+        Returns a Response.
+        """
+        return self.request("GET", url)
+
+
+def undocumented():
+    pass
+`);
+
+		expect(docs).toBe(
+			[
+				"HTTP sessions.\n\nKeeps cookies across requests.",
+				"## `class Session`\n\nA persistent session.",
+				"### `def get(self, url, **kwargs)`\n\nSend a GET request.\n\nReturns a Response.",
+			].join("\n\n"),
+		);
+	});
+});
+
+describe("extractGoDocComments", () => {
+	test("collects package and exported declaration comments", () => {
+		const docs = extractGoDocComments(`// Package cobra is a CLI library.
+package cobra
+
+// Command is a CLI command.
+type Command struct {
+	// Use is the one-line usage.
+	Use string
+}
+
+// Execute runs the command.
+func (c *Command) Execute() error {
+	return nil
+}
+
+// helper is unexported.
+func helper() {}
+`);
+
+		expect(docs).toBe(
+			[
+				"Package cobra is a CLI library.",
+				"## `type Command struct`\n\nCommand is a CLI command.",
+				"## `func (c *Command) Execute() error`\n\nExecute runs the command.",
+			].join("\n\n"),
+		);
+	});
+});
+
+describe("extractRustDocComments", () => {
+	test("collects crate docs and public item docs", () => {
+		const docs = extractRustDocComments(`//! Serialization framework.
+
+/// A data structure that can be serialized.
+#[derive(Debug)]
+pub trait Serialize {
+    /// Serialize this value.
+    fn serialize(&self);
+}
+
+/// Internal.
+fn private() {}
+`);
+
+		expect(docs).toBe(
+			[
+				"Serialization framework.",
+				"## `pub trait Serialize`\n\nA data structure that can be serialized.",
+			].join("\n\n"),
+		);
+	});
+});
+
+describe("escapeGoModulePath", () => {
+	test("escapes uppercase letters for the module cache", () => {
+		expect(escapeGoModulePath("github.com/BurntSushi/toml")).toBe(
+			"github.com/!burnt!sushi/toml",
+		);
+	});
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for batch edit splicing (src/editor/batch.ts) and the
+ * all-or-nothing SymbolEditor.editBatch transaction (src/editor/editor.ts)
+ *
+ * editBatch runs against line edits in a temporary workspace. Syntax checks
+ * and the spawned reindex are stubbed, so no parser or mnemex binary is needed.
+ */
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import {
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	applySplices,
+	isSymbolEdit,
+	toSplice,
+} from "../../../src/editor/batch.js";
+import { SymbolEditor } from "../../../src/editor/editor.js";
+import type { EditHistory } from "../../../src/editor/history.js";
+import type { EditValidator } from "../../../src/editor/validator.js";
+import type { IndexCache } from "../../../src/mcp/cache.js";
+import type { McpConfig } from "../../../src/mcp/config.js";
+
+const FILE = ["line 1", "line 2", "line 3", "line 4", "line 5"];
+
+describe("toSplice", () => {
+	test("converts insert modes to line splices", () => {
+		expect(toSplice(0, 2, 3, "x", "replace")).toMatchObject({
+			start: 1,
+			deleteCount: 2,
+		});
+		expect(toSplice(0, 2, 3, "x", "before")).toMatchObject({
+			start: 1,
+			deleteCount: 0,
+		});
+		expect(toSplice(0, 2, 3, "x", "after")).toMatchObject({
+			start: 3,
+			deleteCount: 0,
+		});
+	});
+});
+
+describe("applySplices", () => {
+	test("applies edits against the original line numbers", () => {
+		const result = applySplices("a.ts", FILE, [
+			toSplice(0, 1, 1, "first\nfirst again", "replace"),
+			toSplice(1, 4, 5, "tail", "replace"),
+		]);
+		expect(result).toEqual([
+			"first",
+			"first again",
+			"line 2",
+			"line 3",
+			"tail",
+		]);
+	});
+
+	test("keeps inserts at the same position in batch order, before a replacement", () => {
+		const result = applySplices("a.ts", FILE, [
+			toSplice(0, 3, 3, "replaced", "replace"),
+			toSplice(1, 3, 3, "inserted A", "before"),
+			toSplice(2, 3, 3, "inserted B", "before"),
+		]);
+		expect(result.slice(2, 5)).toEqual([
+			"inserted A",
+			"inserted B",
+			"replaced",
+		]);
+	});
+
+	test("rejects overlapping edits", () => {
+		expect(() =>
+			applySplices("a.ts", FILE, [
+				toSplice(0, 1, 3, "x", "replace"),
+				toSplice(1, 3, 4, "y", "replace"),
+			]),
+		).toThrow(/#1 and #2 overlap in a\.ts/);
+	});
+
+	test("rejects edits past the end of the file", () => {
+		expect(() =>
+			applySplices("a.ts", FILE, [toSplice(0, 5, 6, "x", "replace")]),
+		).toThrow(/Edit #1: invalid line range/);
+	});
+});
+
+describe("isSymbolEdit", () => {
+	test("distinguishes symbol edits from line edits", () => {
+		expect(isSymbolEdit({ symbol: "add", newContent: "" })).toBe(true);
+		expect(
+			isSymbolEdit({ file: "a.ts", startLine: 1, endLine: 1, newContent: "" }),
+		).toBe(false);
+	});
+});
+
+// ============================================================================
+// SymbolEditor.editBatch
+// ============================================================================
+
+/** Private collaborators of SymbolEditor that the tests stub or inspect */
+interface EditorInternals {
+	validator: EditValidator;
+	history: EditHistory;
+	triggerReindex(...filePaths: string[]): void;
+}
+
+describe("SymbolEditor.editBatch", () => {
+	let root: string;
+	let editor: SymbolEditor;
+	let internals: EditorInternals;
+	let reindexed: string[][];
+
+	const ORIGINAL = "const a = 1;\nconst b = 2;\n";
+	const FILES = ["a.ts", "b.ts", "c.ts"];
+
+	function read(file: string): string {
+		return readFileSync(join(root, file), "utf-8");
+	}
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), "mnemex-batch-"));
+		for (const file of FILES) {
+			writeFileSync(join(root, file), ORIGINAL);
+		}
+
+		// No tracked file state: edits are never stale
+		const cache = {
+			get: async () => ({
+				graphManager: {},
+				tracker: { getFileState: () => null },
+			}),
+		} as unknown as IndexCache;
+		const config = {
+			workspaceRoot: root,
+			indexDir: join(root, ".mnemex"),
+		} as McpConfig;
+		editor = new SymbolEditor(cache, config);
+		internals = editor as unknown as EditorInternals;
+
+		spyOn(internals.validator, "syntaxCheck").mockImplementation(
+			async (content: string, filePath: string) => {
+				if (content.includes("@@")) {
+					throw new Error(`Syntax error in edited content for ${filePath}`);
+				}
+				return true;
+			},
+		);
+		reindexed = [];
+		spyOn(internals, "triggerReindex").mockImplementation((...files) => {
+			reindexed.push(files);
+		});
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	test("writes every file and reindexes them once", async () => {
+		const result = await editor.editBatch([
+			{ file: "b.ts", startLine: 1, endLine: 1, newContent: "const a = 10;" },
+			{ file: "a.ts", startLine: 2, endLine: 2, newContent: "const b = 20;" },
+			{ file: "a.ts", startLine: 1, endLine: 1, newContent: "const a = 30;" },
+		]);
+
+		expect(result.filesChanged).toEqual(["a.ts", "b.ts"]);
+		expect(read("a.ts")).toBe("const a = 30;\nconst b = 20;\n");
+		expect(read("b.ts")).toBe("const a = 10;\nconst b = 2;\n");
+		expect(read("c.ts")).toBe(ORIGINAL);
+		expect(reindexed).toEqual([[join(root, "a.ts"), join(root, "b.ts")]]);
+	});
+
+	test("a syntax error in the last file leaves every earlier file untouched", async () => {
+		await expect(
+			editor.editBatch([
+				{ file: "a.ts", startLine: 1, endLine: 1, newContent: "const a = 2;" },
+				{ file: "b.ts", startLine: 1, endLine: 1, newContent: "const a = 3;" },
+				{ file: "c.ts", startLine: 1, endLine: 1, newContent: "const @@ = ;" },
+			]),
+		).rejects.toThrow(/Syntax error in edited content for .*c\.ts/);
+
+		for (const file of FILES) {
+			expect(read(file)).toBe(ORIGINAL);
+		}
+		expect(internals.history.listSessions()).toEqual([]);
+		expect(reindexed).toEqual([]);
+	});
+
+	test("restores written files from the backup when a later write fails", async () => {
+		const { history } = internals;
+		const backupAll = history.backupAll.bind(history);
+		// Once backups exist, turn b.ts into a non-empty directory so that
+		// renaming the new content over it fails after a.ts was written
+		spyOn(history, "backupAll").mockImplementation(async (id, files) => {
+			await backupAll(id, files);
+			rmSync(join(root, "b.ts"));
+			mkdirSync(join(root, "b.ts", "blocker"), { recursive: true });
+		});
+		const restoreAll = spyOn(history, "restoreAll");
+
+		await expect(
+			editor.editBatch(
+				[
+					{
+						file: "a.ts",
+						startLine: 1,
+						endLine: 1,
+						newContent: "const a = 2;",
+					},
+					{
+						file: "b.ts",
+						startLine: 1,
+						endLine: 1,
+						newContent: "const a = 3;",
+					},
+				],
+				{ sessionId: "rollback" },
+			),
+		).rejects.toThrow();
+
+		expect(restoreAll).toHaveBeenCalledWith("rollback");
+		expect(read("a.ts")).toBe(ORIGINAL);
+		expect(history.listSessions()[0]?.files).toEqual([
+			join(root, "a.ts"),
+			join(root, "b.ts"),
+		]);
+		expect(reindexed).toEqual([]);
+	});
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the semantic three-way merge (src/editor/merge.ts)
+ *
+ * Symbols "extracted" from the current file contents are built by hand with
+ * body hashes from hashSymbolBody(), so no parser is needed.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { hashSymbolBody } from "../../../src/core/symbol-extractor.js";
+import {
+	EditConflictError,
+	matchSymbol,
+	mergeSymbol,
+} from "../../../src/editor/merge.js";
+import type { SymbolDefinition } from "../../../src/types.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const NOW = new Date().toISOString();
+
+/** Build a symbol spanning the given lines of a file's contents */
+function sym(
+	lines: string[],
+	name: string,
+	startLine: number,
+	endLine: number,
+	overrides: Partial<SymbolDefinition> = {},
+): SymbolDefinition {
+	return {
+		id: `${name}@${startLine}`,
+		name,
+		kind: "function",
+		filePath: "src/math.ts",
+		startLine,
+		endLine,
+		isExported: true,
+		language: "typescript",
+		pagerankScore: 0,
+		bodyHash: hashSymbolBody(lines, startLine, endLine),
+		createdAt: NOW,
+		updatedAt: NOW,
+		...overrides,
+	};
+}
+
+const INDEXED = [
+	"export function add(a: number, b: number) {",
+	"\treturn a + b;",
+	"}",
+	"",
+	"export function sub(a: number, b: number) {",
+	"\treturn a - b;",
+	"}",
+];
+
+const indexedSub = sym(INDEXED, "sub", 5, 7);
+
+function expectConflict(fn: () => unknown, reason: string): void {
+	try {
+		fn();
+	} catch (err) {
+		expect(err).toBeInstanceOf(EditConflictError);
+		expect((err as EditConflictError).reason).toBe(reason);
+		return;
+	}
+	throw new Error("expected an EditConflictError");
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("mergeSymbol", () => {
+	test("relocates an unchanged symbol that moved", () => {
+		// Someone else inserted a function above `sub`
+		const current = [
+			"export function mul(a: number, b: number) {",
+			"\treturn a * b;",
+			"}",
+			"",
+			...INDEXED,
+		];
+		const symbols = [
+			sym(current, "mul", 1, 3),
+			sym(current, "add", 5, 7),
+			sym(current, "sub", 9, 11),
+		];
+
+		const merged = mergeSymbol(indexedSub, symbols, {
+			requireUnchanged: true,
+		});
+		expect(merged.startLine).toBe(9);
+		expect(merged.endLine).toBe(11);
+	});
+
+	test("merges when only another symbol was modified", () => {
+		const current = [...INDEXED];
+		current[1] = "\treturn b + a; // reordered";
+		const symbols = [sym(current, "add", 1, 3), sym(current, "sub", 5, 7)];
+
+		expect(
+			mergeSymbol(indexedSub, symbols, { requireUnchanged: true }).startLine,
+		).toBe(5);
+	});
+
+	test("conflicts when the target symbol was modified", () => {
+		const current = [...INDEXED];
+		current[5] = "\treturn a - b - 0;";
+		const symbols = [sym(current, "add", 1, 3), sym(current, "sub", 5, 7)];
+
+		expectConflict(
+			() => mergeSymbol(indexedSub, symbols, { requireUnchanged: true }),
+			"modified",
+		);
+	});
+
+	test("insert edits merge even if the target symbol was modified", () => {
+		const current = ["// header", "", ...INDEXED];
+		current[7] = "\treturn a - b - 0;";
+		const symbols = [sym(current, "add", 3, 5), sym(current, "sub", 7, 9)];
+
+		const merged = mergeSymbol(indexedSub, symbols, {
+			requireUnchanged: false,
+		});
+		expect(merged.startLine).toBe(7);
+	});
+
+	test("conflicts when the target symbol was removed or renamed", () => {
+		const current = INDEXED.slice(0, 3);
+		expectConflict(
+			() =>
+				mergeSymbol(indexedSub, [sym(current, "add", 1, 3)], {
+					requireUnchanged: true,
+				}),
+			"removed",
+		);
+	});
+
+	test("conflicts when the index has no body hash to compare", () => {
+		const legacy = { ...indexedSub, bodyHash: undefined };
+		expectConflict(
+			() =>
+				mergeSymbol(legacy, [sym(INDEXED, "sub", 5, 7)], {
+					requireUnchanged: true,
+				}),
+			"unverifiable",
+		);
+	});
+});
+
+describe("matchSymbol", () => {
+	const CLASSES = [
+		"class A {",
+		"\trun() {}",
+		"}",
+		"class B {",
+		"\trun() {}",
+		"}",
+	];
+	const classA = sym(CLASSES, "A", 1, 3, { kind: "class" });
+	const classB = sym(CLASSES, "B", 4, 6, { kind: "class" });
+	const runA = sym(CLASSES, "run", 2, 2, {
+		kind: "method",
+		parentId: classA.id,
+	});
+	const runB = sym(CLASSES, "run", 5, 5, {
+		kind: "method",
+		parentId: classB.id,
+	});
+
+	test("matches methods by parent name", () => {
+		const current = [classA, classB, runA, runB];
+		expect(matchSymbol(runB, current, "B")).toBe(runB);
+		expect(matchSymbol(runB, current, "A")).toBe(runA);
+	});
+
+	test("prefers the candidate with the indexed body among overloads", () => {
+		const lines = ["function f() {}", "function f(x) { return x; }"];
+		const indexed = sym(lines, "f", 2, 2, { startLine: 1 });
+		const current = [sym(lines, "f", 1, 1), sym(lines, "f", 2, 2)];
+		expect(matchSymbol(indexed, current)?.startLine).toBe(2);
+	});
+});
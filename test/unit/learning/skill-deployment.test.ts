@@ -0,0 +1,188 @@
+/**
+ * Unit tests for learned skills: SKILL.md rendering
+ * (src/learning/generator/skill-renderer.ts) and proposal / before-after
+ * evaluation (src/learning/deployment/skill-deployer.ts).
+ */
+
+import { describe, expect, test } from "bun:test";
+import { createDatabaseSync } from "../../../src/core/sqlite.js";
+import {
+	createSkillDeployer,
+	evaluateSkillImpact,
+} from "../../../src/learning/deployment/index.js";
+import {
+	isGeneratedSkill,
+	renderSkill,
+	skillFiles,
+} from "../../../src/learning/generator/index.js";
+import type { GeneratedSkill } from "../../../src/learning/generator/index.js";
+import { createInteractionStore } from "../../../src/learning/interaction/index.js";
+import type {
+	Improvement,
+	ToolEvent,
+} from "../../../src/learning/interaction/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const SKILL: GeneratedSkill = {
+	name: "auto-grep-to-edit",
+	description:
+		"Auto-generated skill from workflow pattern. Grep → Read → Edit.",
+	triggerCondition:
+		"When user initiates Grep operation that matches common pattern",
+	implementation: [
+		"Step 1: Execute Grep",
+		"Step 2: Execute Edit",
+		"  - Verify changes before committing",
+		"Final: Report completion status",
+	],
+	constraints: ["User must approve before execution"],
+	sourcePattern: null,
+	confidence: 0.9,
+	estimatedImpact: 0.5,
+};
+
+function deployedSkill(deployedAt: number): Improvement {
+	return {
+		improvementId: "skill_1",
+		patternId: "workflow_1",
+		improvementType: "skill",
+		improvementData: {
+			name: SKILL.name,
+			description: SKILL.description,
+			implementation: renderSkill(SKILL),
+			evidence: { patternId: "workflow_1", occurrences: 10, confidence: 0.9 },
+		},
+		status: "deployed",
+		createdAt: deployedAt - DAY,
+		deployedAt,
+	};
+}
+
+/** Sessions where `withCorrection` of every 10 had a correction */
+function sessions(from: number, count: number, withCorrection: number) {
+	return Array.from({ length: count }, (_, i) => ({
+		sessionId: `s${from}-${i}`,
+		timestamp: from + i * 1000,
+		corrections: i % 10 < withCorrection ? 2 : 0,
+	}));
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("renderSkill", () => {
+	test("renders frontmatter, steps and the mnemex marker", () => {
+		const content = renderSkill(SKILL);
+		const lines = content.split("\n");
+
+		expect(lines.slice(0, 4)).toEqual([
+			"---",
+			"name: auto-grep-to-edit",
+			'description: "Auto-generated skill from workflow pattern. Grep → Read → Edit. Use when user initiates Grep operation that matches common pattern."',
+			"---",
+		]);
+		expect(content).toContain(
+			"- Step 2: Execute Edit\n  - Verify changes before committing\n",
+		);
+		expect(isGeneratedSkill(content)).toBe(true);
+		expect(isGeneratedSkill("---\nname: mine\n---\n")).toBe(false);
+	});
+
+	test("places files per target", () => {
+		expect(
+			skillFiles("Auto_Read.Edit", "x", ["claude", "opencode"]).map(
+				(f) => f.path,
+			),
+		).toEqual([
+			".claude/skills/auto-read-edit/SKILL.md",
+			".opencode/skill/auto-read-edit/SKILL.md",
+		]);
+	});
+});
+
+describe("evaluateSkillImpact", () => {
+	const deployedAt = Date.now() - 10 * DAY;
+	const config = { minSessions: 100, minDurationMs: 7 * DAY };
+
+	test("keeps collecting until there is enough data", () => {
+		const impact = evaluateSkillImpact(
+			deployedSkill(deployedAt),
+			[
+				...sessions(deployedAt - 5 * DAY, 20, 5),
+				...sessions(deployedAt, 20, 1),
+			],
+			config,
+		);
+		expect(impact.decision.action).toBe("continue");
+		expect(impact.experiment.controlMetrics).toMatchObject({
+			sessions: 20,
+			corrections: 10,
+		});
+		expect(impact.experiment.treatmentMetrics.corrections).toBe(2);
+	});
+
+	test("graduates a skill that reduced corrections and rolls back a regression", () => {
+		const before = sessions(deployedAt - 20 * DAY, 100, 5);
+
+		const better = evaluateSkillImpact(
+			deployedSkill(deployedAt),
+			[...before, ...sessions(deployedAt, 100, 1)],
+			config,
+		);
+		expect(better.decision.action).toBe("graduate");
+
+		const worse = evaluateSkillImpact(
+			deployedSkill(deployedAt),
+			[
+				...sessions(deployedAt - 20 * DAY, 100, 1),
+				...sessions(deployedAt, 100, 5),
+			],
+			config,
+		);
+		expect(worse.decision.action).toBe("rollback");
+	});
+});
+
+describe("SkillDeployer", () => {
+	test("proposes each mined workflow once", () => {
+		const store = createInteractionStore(createDatabaseSync(":memory:"));
+		let order = 0;
+		for (let s = 0; s < 8; s++) {
+			for (const toolName of ["Grep", "Read", "Edit"]) {
+				order++;
+				const event: Omit<ToolEvent, "id"> = {
+					sessionId: `session-${s}`,
+					toolUseId: `tool-${order}`,
+					toolName,
+					success: true,
+					executionOrder: order,
+					timestamp: 1_000_000 + s * DAY + order * 1000,
+				};
+				store.recordToolEvent(event);
+			}
+		}
+
+		const deployer = createSkillDeployer(store, "/nonexistent/mnemex-skills");
+		const proposals = deployer.propose();
+		expect(proposals.length).toBeGreaterThan(0);
+
+		const names = proposals.map((p) => p.improvement.improvementData.name);
+		expect(new Set(names).size).toBe(names.length);
+		for (const { improvement, validation } of proposals) {
+			expect(improvement.status).toBe("proposed");
+			expect(
+				isGeneratedSkill(improvement.improvementData.implementation ?? ""),
+			).toBe(true);
+			expect(validation.passed).toBe(true);
+		}
+
+		// A second run finds the same workflows and adds nothing
+		expect(deployer.propose().length).toBe(proposals.length);
+	});
+});
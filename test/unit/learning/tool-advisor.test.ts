@@ -0,0 +1,149 @@
+/**
+ * Unit tests for learned tool guidance (src/learning/advisor/):
+ * tool call classification and advice from logged tool events.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	alternativesFor,
+	classifyQuery,
+	classifyToolUse,
+	createToolAdvisor,
+	encodeToolContext,
+	formatActionCommand,
+} from "../../../src/learning/advisor/index.js";
+import type { ToolEvent } from "../../../src/learning/interaction/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+let clock = 0;
+
+function event(
+	sessionId: string,
+	action: string,
+	success: boolean,
+	query?: string,
+): ToolEvent {
+	clock++;
+	return {
+		sessionId,
+		toolUseId: `tool-${clock}`,
+		toolName: action.startsWith("mnemex:") ? "Bash" : action,
+		success,
+		executionOrder: clock,
+		timestamp: clock,
+		action,
+		context: query ? encodeToolContext({ action, query }) : undefined,
+	};
+}
+
+/** Sessions where grep for a call site fails and callers then answers it */
+function callSiteHistory(sessions: number): ToolEvent[] {
+	const events: ToolEvent[] = [];
+	for (let i = 0; i < sessions; i++) {
+		events.push(
+			event(`s${i}`, "grep", false, "loadConfig\\("),
+			event(`s${i}`, "mnemex:callers", true, "loadConfig"),
+			event(`s${i}`, "read", true),
+		);
+	}
+	return events;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("classifyToolUse", () => {
+	test("maps tool calls to actions", () => {
+		expect(classifyToolUse("Grep", { pattern: "handleHook" })).toEqual({
+			action: "grep",
+			query: "handleHook",
+		});
+		expect(
+			classifyToolUse("Bash", { command: "rg -n 'createIndexer' src" }),
+		).toEqual({ action: "grep", query: "createIndexer" });
+		expect(
+			classifyToolUse("Bash", { command: "mnemex --nologo callers foo --raw" }),
+		).toEqual({ action: "mnemex:callers", query: "foo" });
+		expect(
+			classifyToolUse("mcp__mnemex__search_code", { query: "auth flow" }),
+		).toEqual({ action: "mnemex:search", query: "auth flow" });
+		expect(classifyToolUse("Bash", { command: "bun test" })).toEqual({
+			action: "bash",
+		});
+		expect(classifyToolUse("Read", { file_path: "a.ts" })).toEqual({
+			action: "read",
+		});
+	});
+
+	test("classifies query shapes and their alternatives", () => {
+		expect(classifyQuery("FileTracker")).toBe("identifier");
+		expect(classifyQuery("loadConfig\\(")).toBe("call");
+		expect(classifyQuery("src/**/*.ts")).toBe("path");
+		expect(classifyQuery("TODO: remove")).toBe("text");
+
+		expect(alternativesFor({ action: "grep", query: "loadConfig\\(" })).toEqual(
+			["grep", "mnemex:callers"],
+		);
+		expect(alternativesFor({ action: "mnemex:callers", query: "x" })).toEqual(
+			[],
+		);
+		expect(formatActionCommand("mnemex:callers", "this.loadConfig\\(")).toBe(
+			"mnemex --nologo callers loadConfig --raw",
+		);
+		expect(formatActionCommand("mnemex:search", "auth flow")).toBe(
+			'mnemex --nologo search "auth flow" --raw',
+		);
+	});
+});
+
+describe("ToolAdvisor", () => {
+	test("is not confident without history", () => {
+		const advisor = createToolAdvisor();
+		const advice = advisor.advise({ action: "grep", query: "loadConfig\\(" });
+		expect(advice?.confident).toBe(false);
+		expect(advisor.advise({ action: "read" })).toBeNull();
+	});
+
+	test("recommends the action that resolves similar lookups", () => {
+		const advisor = createToolAdvisor();
+		advisor.train(callSiteHistory(30));
+
+		const advice = advisor.advise({ action: "grep", query: "parseArgs\\(" }, [
+			"read",
+		]);
+		expect(advice).toMatchObject({
+			action: "grep",
+			recommended: "mnemex:callers",
+			confident: true,
+			predictedNext: { action: "mnemex:callers" },
+		});
+		expect(advice?.rates.map((r) => r.action)).toEqual([
+			"mnemex:callers",
+			"grep",
+		]);
+	});
+
+	test("reports its beliefs", () => {
+		const advisor = createToolAdvisor();
+		advisor.train(callSiteHistory(10));
+
+		const beliefs = advisor.getBeliefs();
+		expect(beliefs.events).toBe(30);
+		expect(beliefs.sessions).toBe(10);
+		expect(beliefs.actions.map((a) => [a.action, a.uses])).toEqual([
+			["mnemex:callers", 10],
+			["grep", 10],
+		]);
+		expect(beliefs.contexts.map((c) => c.context)).toEqual([
+			"custom:query=call",
+			"custom:query=identifier",
+		]);
+		expect(beliefs.nextActions).toContainEqual(
+			expect.objectContaining({ after: "grep", next: "mnemex:callers" }),
+		);
+	});
+});
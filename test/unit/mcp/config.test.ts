@@ -23,6 +23,11 @@ const ENV_KEYS = [
 	"MNEMEX_MAX_MEMORY_MB",
 	"MNEMEX_COMPLETION_POLL_MS",
 	"MNEMEX_LOG_LEVEL",
+	"MNEMEX_HTTP_HOST",
+	"MNEMEX_HTTP_PORT",
+	"MNEMEX_HTTP_WORKSPACES",
+	"MNEMEX_HTTP_ALLOWED_HOSTS",
+	"MNEMEX_HTTP_IDLE_MS",
 ] as const;
 
 type EnvSnapshot = Partial<
@@ -263,4 +268,45 @@ describe("loadMcpConfig()", () => {
 			expect(config.indexDir).toBe(`${config.workspaceRoot}/custom-index`);
 		});
 	});
+
+	// -------------------------------------------------------------------------
+	// Workspace root and HTTP transport
+	// -------------------------------------------------------------------------
+
+	describe("workspaceRoot argument", () => {
+		test("overrides process.cwd() and anchors indexDir", () => {
+			const config = loadMcpConfig("/repos/app");
+			expect(config.workspaceRoot).toBe("/repos/app");
+			expect(config.indexDir).toBe("/repos/app/.mnemex");
+		});
+	});
+
+	describe("MNEMEX_HTTP_*", () => {
+		test("defaults to 127.0.0.1:7333 with no extra roots or hosts and a 30 minute idle timeout", () => {
+			const config = loadMcpConfig();
+			expect(config.http).toEqual({
+				host: "127.0.0.1",
+				port: 7333,
+				allowedRoots: [],
+				allowedHosts: [],
+				idleMs: 1800000,
+			});
+		});
+
+		test("parses host, port, allowed workspace roots and hosts, idle timeout", () => {
+			process.env.MNEMEX_HTTP_HOST = "0.0.0.0";
+			process.env.MNEMEX_HTTP_PORT = "9000";
+			process.env.MNEMEX_HTTP_WORKSPACES = "/repos, sibling";
+			process.env.MNEMEX_HTTP_ALLOWED_HOSTS = "devbox.local";
+			process.env.MNEMEX_HTTP_IDLE_MS = "0";
+			const config = loadMcpConfig("/work/app");
+			expect(config.http).toEqual({
+				host: "0.0.0.0",
+				port: 9000,
+				allowedRoots: ["/repos", "/work/app/sibling"],
+				allowedHosts: ["devbox.local"],
+				idleMs: 0,
+			});
+		});
+	});
 });
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for the streamable HTTP transport
+ *
+ * Starts the transport on a free port with a stub server factory (one
+ * `workspace` tool that reports the workspace it was created for) and talks
+ * to it with the SDK's streamable HTTP client.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	type HttpTransportHandle,
+	WORKSPACE_HEADER,
+	startHttpTransport,
+} from "../../../src/mcp/http.js";
+import { Logger } from "../../../src/mcp/logger.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+let handle: HttpTransportHandle;
+let created: string[];
+let released: string[];
+const clients: Client[] = [];
+
+async function start(
+	allowedRoots: string[] = ["/repos"],
+	idleMs = 0,
+): Promise<void> {
+	handle = await startHttpTransport({
+		host: "127.0.0.1",
+		port: 0,
+		defaultWorkspace: "/repos/default",
+		allowedRoots,
+		idleMs,
+		logger: new Logger("error"),
+		releaseServer: (workspaceRoot) => {
+			released.push(workspaceRoot);
+		},
+		createServer: async (workspaceRoot) => {
+			if (workspaceRoot.endsWith("missing")) {
+				throw new Error(`Workspace not found: ${workspaceRoot}`);
+			}
+			created.push(workspaceRoot);
+			const server = new McpServer({ name: "test", version: "0.0.0" });
+			server.registerTool("workspace", {}, async () => ({
+				content: [{ type: "text", text: workspaceRoot }],
+			}));
+			return server;
+		},
+	});
+}
+
+async function connect(
+	options: { workspace?: string; query?: string } = {},
+): Promise<Client> {
+	const url = new URL(handle.url);
+	if (options.query) url.searchParams.set("workspace", options.query);
+	const transport = new StreamableHTTPClientTransport(url, {
+		requestInit: options.workspace
+			? { headers: { [WORKSPACE_HEADER]: options.workspace } }
+			: undefined,
+	});
+	const client = new Client({ name: "test-client", version: "0.0.0" });
+	await client.connect(transport);
+	clients.push(client);
+	return client;
+}
+
+/** Send an initialize request without a client, as one that goes away would */
+function initialize(accept = "application/json, text/event-stream") {
+	return fetch(handle.url, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			Accept: accept,
+			[WORKSPACE_HEADER]: "/repos/a",
+		},
+		body: JSON.stringify({
+			jsonrpc: "2.0",
+			id: 1,
+			method: "initialize",
+			params: {
+				protocolVersion: "2025-03-26",
+				capabilities: {},
+				clientInfo: { name: "test-client", version: "0.0.0" },
+			},
+		}),
+	});
+}
+
+async function openSessions(): Promise<string[]> {
+	const response = await fetch(new URL("/health", handle.url));
+	const health = (await response.json()) as {
+		sessions: Array<{ sessionId: string }>;
+	};
+	return health.sessions.map((s) => s.sessionId);
+}
+
+async function workspaceOf(client: Client): Promise<string> {
+	const result = await client.callTool({ name: "workspace", arguments: {} });
+	return (result.content as Array<{ text: string }>)[0].text;
+}
+
+beforeEach(() => {
+	created = [];
+	released = [];
+});
+
+afterEach(async () => {
+	for (const client of clients.splice(0)) {
+		await client.close();
+	}
+	await handle.close();
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("HTTP transport", () => {
+	test("routes each session to the workspace it selects", async () => {
+		await start();
+		const a = await connect({ workspace: "/repos/a" });
+		const b = await connect({ query: "/repos/b" });
+		const fallback = await connect();
+
+		expect(await workspaceOf(a)).toBe("/repos/a");
+		expect(await workspaceOf(b)).toBe("/repos/b");
+		expect(await workspaceOf(fallback)).toBe("/repos/default");
+		expect(created).toEqual(["/repos/a", "/repos/b", "/repos/default"]);
+	});
+
+	test("reports open sessions on /health", async () => {
+		await start();
+		await connect({ workspace: "/repos/a" });
+
+		const response = await fetch(new URL("/health", handle.url));
+		const health = (await response.json()) as {
+			sessions: Array<{ workspaceRoot: string }>;
+		};
+		expect(health.sessions.map((s) => s.workspaceRoot)).toEqual(["/repos/a"]);
+	});
+
+	test("rejects workspaces outside the allowed roots", async () => {
+		await start(["/repos"]);
+		expect(await workspaceOf(await connect({ workspace: "/repos/a" }))).toBe(
+			"/repos/a",
+		);
+		await expect(connect({ workspace: "/etc" })).rejects.toThrow(/not allowed/);
+	});
+
+	test("confines sessions to the default workspace without allowed roots", async () => {
+		await start([]);
+		expect(
+			await workspaceOf(await connect({ workspace: "/repos/default/pkg" })),
+		).toBe("/repos/default/pkg");
+		await expect(connect({ workspace: "/repos/a" })).rejects.toThrow(
+			/not allowed/,
+		);
+	});
+
+	test("rejects requests addressed to a foreign Host or Origin", async () => {
+		await start();
+		const { port } = new URL(handle.url);
+		const health = (headers: Record<string, string>) =>
+			fetch(new URL("/health", handle.url), { headers });
+
+		expect((await health({})).status).toBe(200);
+		expect((await health({ Origin: `http://localhost:${port}` })).status).toBe(
+			200,
+		);
+		expect((await health({ Host: `attacker.example:${port}` })).status).toBe(
+			403,
+		);
+		expect((await health({ Origin: "https://attacker.example" })).status).toBe(
+			403,
+		);
+	});
+
+	test("reports workspaces that cannot be opened", async () => {
+		await start();
+		await expect(connect({ workspace: "/repos/missing" })).rejects.toThrow(
+			/Workspace not found/,
+		);
+	});
+
+	test("rejects requests for unknown sessions", async () => {
+		await start();
+		const response = await fetch(handle.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				"Mcp-Session-Id": "no-such-session",
+			},
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+		});
+		expect(response.status).toBe(404);
+	});
+
+	test("releases the server of a session that never initialized", async () => {
+		await start();
+		// The transport requires clients to accept event streams
+		expect((await initialize("application/json")).status).toBe(406);
+
+		expect(created).toEqual(["/repos/a"]);
+		expect(released).toEqual(["/repos/a"]);
+		expect(await openSessions()).toEqual([]);
+	});
+
+	test("releases the server when its session is closed", async () => {
+		await start();
+		const client = await connect({ workspace: "/repos/a" });
+		await (
+			client.transport as StreamableHTTPClientTransport
+		).terminateSession();
+
+		expect(released).toEqual(["/repos/a"]);
+		expect(await openSessions()).toEqual([]);
+	});
+
+	test("closes sessions idle for longer than the idle timeout", async () => {
+		await start(["/repos"], 100);
+		const response = await initialize();
+		await response.body?.cancel();
+		const sessionId = response.headers.get("mcp-session-id");
+		expect(await openSessions()).toEqual([sessionId]);
+
+		await Bun.sleep(300);
+
+		expect(await openSessions()).toEqual([]);
+		expect(released).toEqual(["/repos/a"]);
+	});
+
+	test("keeps sessions listening on an event stream open", async () => {
+		await start(["/repos"], 100);
+		const client = await connect({ workspace: "/repos/a" });
+
+		await Bun.sleep(300);
+
+		expect(await workspaceOf(client)).toBe("/repos/a");
+		expect(released).toEqual([]);
+	});
+});
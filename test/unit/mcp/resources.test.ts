@@ -0,0 +1,293 @@
+/**
+ * Unit tests for MCP resources and prompts
+ *
+ * Registers resources/prompts on a real McpServer and talks to it through
+ * an in-memory transport, with a hand-populated FileTracker standing in for
+ * the index.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createReferenceGraphManager } from "../../../src/core/reference-graph.js";
+import { createRepoMapGenerator } from "../../../src/core/repo-map.js";
+import { FileTracker } from "../../../src/core/tracker.js";
+import type { IndexCache } from "../../../src/mcp/cache.js";
+import { registerPrompts } from "../../../src/mcp/prompts.js";
+import { registerResources } from "../../../src/mcp/resources.js";
+import type { ToolDeps } from "../../../src/mcp/tools/deps.js";
+import type { Memory, MemoryStore } from "../../../src/memory/store.js";
+import type { SymbolDefinition } from "../../../src/types.js";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const WORKSPACE = "/nonexistent-workspace";
+const NOW = new Date().toISOString();
+
+function sym(
+	id: string,
+	name: string,
+	filePath: string,
+	overrides: Partial<SymbolDefinition> = {},
+): SymbolDefinition {
+	return {
+		id,
+		name,
+		kind: "function",
+		filePath,
+		startLine: 1,
+		endLine: 10,
+		isExported: true,
+		language: "typescript",
+		pagerankScore: 0,
+		createdAt: NOW,
+		updatedAt: NOW,
+		...overrides,
+	};
+}
+
+/** In-memory stand-in for MemoryStore (list/read only) */
+function makeMemoryStore(memories: Memory[]): MemoryStore {
+	return {
+		list: () =>
+			memories.map(({ key, createdAt, updatedAt }) => ({
+				key,
+				createdAt,
+				updatedAt,
+			})),
+		read: (key: string) => memories.find((m) => m.key === key) ?? null,
+	} as unknown as MemoryStore;
+}
+
+let tracker: FileTracker;
+let client: Client;
+
+beforeEach(async () => {
+	tracker = new FileTracker(":memory:", WORKSPACE);
+	tracker.insertSymbols([
+		sym("store", "Store", "src/store.ts", {
+			kind: "class",
+			startLine: 1,
+			endLine: 40,
+			signature: "class Store",
+		}),
+		sym("store-get", "get", "src/store.ts", {
+			kind: "method",
+			parentId: "store",
+			startLine: 5,
+			endLine: 12,
+			signature: "get(key: string): string",
+		}),
+		sym("handler", "handle", "src/handler.ts", {
+			signature: "function handle(req: Request)",
+		}),
+		sym("main", "main", "src/main.ts"),
+	]);
+	tracker.insertReferences([
+		{
+			fromSymbolId: "handler",
+			toSymbolName: "get",
+			toSymbolId: "store-get",
+			kind: "call",
+			filePath: "src/handler.ts",
+			line: 3,
+			isResolved: true,
+			createdAt: NOW,
+		},
+		{
+			fromSymbolId: "main",
+			toSymbolName: "handle",
+			toSymbolId: "handler",
+			kind: "call",
+			filePath: "src/main.ts",
+			line: 2,
+			isResolved: true,
+			createdAt: NOW,
+		},
+	]);
+
+	const graphManager = createReferenceGraphManager(tracker);
+	await graphManager.computeAndStorePageRank();
+
+	const cache = {
+		get: async () => ({
+			tracker,
+			graphManager,
+			repoMapGen: createRepoMapGenerator(tracker),
+			loadedAt: Date.now(),
+		}),
+	} as unknown as IndexCache;
+
+	const deps = {
+		cache,
+		config: { workspaceRoot: WORKSPACE },
+		memoryStore: makeMemoryStore([
+			{
+				key: "architecture",
+				content: "# Architecture\n\nHandlers talk to the store.",
+				createdAt: NOW,
+				updatedAt: NOW,
+			},
+		]),
+	} as unknown as ToolDeps;
+
+	const server = new McpServer({ name: "mnemex-test", version: "0.0.0" });
+	registerResources(server, deps);
+	registerPrompts(server, deps);
+
+	const [clientTransport, serverTransport] =
+		InMemoryTransport.createLinkedPair();
+	client = new Client({ name: "test-client", version: "0.0.0" });
+	await Promise.all([
+		server.connect(serverTransport),
+		client.connect(clientTransport),
+	]);
+});
+
+afterEach(async () => {
+	await client.close();
+	tracker.close();
+});
+
+async function readText(uri: string): Promise<string> {
+	const result = await client.readResource({ uri });
+	const content = result.contents[0] as { text: string };
+	return content.text;
+}
+
+// ============================================================================
+// Resources
+// ============================================================================
+
+describe("MCP resources", () => {
+	test("lists the map, top symbols and memories", async () => {
+		const { resources } = await client.listResources();
+		const uris = resources.map((r) => r.uri);
+
+		expect(uris).toContain("mnemex://map");
+		expect(uris).toContain("mnemex://symbol/get");
+		expect(uris).toContain("mnemex://memory/architecture");
+	});
+
+	test("advertises resource templates", async () => {
+		const { resourceTemplates } = await client.listResourceTemplates();
+		expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+			"mnemex://file/{+path}/outline",
+			"mnemex://memory/{key}",
+			"mnemex://symbol/{name}",
+		]);
+	});
+
+	test("mnemex://map returns the repo map", async () => {
+		const text = await readText("mnemex://map");
+		expect(text).toContain("src/store.ts");
+	});
+
+	test("mnemex://symbol/{name} includes callers and callees", async () => {
+		const text = await readText("mnemex://symbol/handle");
+
+		expect(text).toContain("# handle (function)");
+		expect(text).toContain("src/handler.ts:1-10");
+		expect(text).toContain("```typescript\n");
+		expect(text).toContain(
+			"## Callers (1)\n\n- main (function) — src/main.ts:1",
+		);
+		expect(text).toContain("## Callees (1)\n\n- get (method) — src/store.ts:5");
+	});
+
+	test("mnemex://symbol/{name} resolves Class.method names", async () => {
+		const text = await readText(
+			`mnemex://symbol/${encodeURIComponent("Store.get")}`,
+		);
+		expect(text).toContain("# get (method)");
+	});
+
+	test("unknown symbols are reported as errors", async () => {
+		await expect(readText("mnemex://symbol/missing")).rejects.toThrow(
+			/not found/,
+		);
+	});
+
+	test("mnemex://file/{path}/outline nests members under their parent", async () => {
+		const text = await readText("mnemex://file/src/store.ts/outline");
+
+		expect(text).toBe(
+			"# src/store.ts\n\n" +
+				"- class Store (L1-40) — `class Store`\n" +
+				"  - method get (L5-12) — `get(key: string): string`\n",
+		);
+	});
+
+	test("mnemex://memory/{key} returns memory content", async () => {
+		const text = await readText("mnemex://memory/architecture");
+		expect(text).toContain("Handlers talk to the store.");
+	});
+
+	test("completes memory keys", async () => {
+		const result = await client.complete({
+			ref: { type: "ref/resource", uri: "mnemex://memory/{key}" },
+			argument: { name: "key", value: "arch" },
+		});
+		expect(result.completion.values).toEqual(["architecture"]);
+	});
+});
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+describe("MCP prompts", () => {
+	test("lists the reusable prompts", async () => {
+		const { prompts } = await client.listPrompts();
+		expect(prompts.map((p) => p.name).sort()).toEqual([
+			"explain_file",
+			"explain_symbol",
+			"review_impact",
+		]);
+	});
+
+	test("explain_symbol embeds the symbol resource", async () => {
+		const result = await client.getPrompt({
+			name: "explain_symbol",
+			arguments: { symbol: "handle" },
+		});
+
+		const [context, instruction] = result.messages;
+		expect(context.content.type).toBe("resource");
+		expect(context.content).toMatchObject({
+			resource: { uri: "mnemex://symbol/handle" },
+		});
+		expect(instruction.content).toMatchObject({ type: "text" });
+	});
+
+	test("review_impact lists transitive callers", async () => {
+		const result = await client.getPrompt({
+			name: "review_impact",
+			arguments: { symbol: "get", change: "return undefined for misses" },
+		});
+
+		const texts = result.messages
+			.map((m) => m.content)
+			.filter((c) => c.type === "text")
+			.map((c) => (c as { text: string }).text)
+			.join("\n");
+		expect(texts).toContain("handle — src/handler.ts:1");
+		expect(texts).toContain("main — src/main.ts:1");
+		expect(texts).toContain("return undefined for misses");
+	});
+
+	test("explain_file embeds the file outline", async () => {
+		const result = await client.getPrompt({
+			name: "explain_file",
+			arguments: { path: "src/store.ts" },
+		});
+
+		expect(result.messages[0].content).toMatchObject({
+			type: "resource",
+			resource: { uri: "mnemex://file/src/store.ts/outline" },
+		});
+	});
+});
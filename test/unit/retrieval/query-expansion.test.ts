@@ -0,0 +1,211 @@
+/**
+ * Unit tests for query expansion (src/retrieval/expansion/) and its
+ * fan-out through PipelineOrchestrator.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	createQueryExpander,
+	parseQueryExpansion,
+} from "../../../src/retrieval/expansion/index.js";
+import { DEFAULT_PIPELINE_CONFIG } from "../../../src/retrieval/pipeline/config.js";
+import { PipelineOrchestrator } from "../../../src/retrieval/pipeline/orchestrator.js";
+import type {
+	BackendResult,
+	ISearchBackend,
+	SearchOptions,
+} from "../../../src/retrieval/pipeline/types.js";
+import { QueryRouter } from "../../../src/retrieval/routing/query-router.js";
+import type {
+	ILLMClient,
+	LLMMessage,
+	LLMResponse,
+	LLMUsageStats,
+} from "../../../src/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const EXPANSION_OUTPUT = `lex: retry backoff exponential attempts
+vec: code that retries failed requests with increasing delays
+hyde: async function withRetry(fn, attempts) {
+  for (let i = 0; i < attempts; i++) await sleep(2 ** i);
+}`;
+
+/** LLM client answering every prompt with fixed output after a delay */
+class StubLLMClient implements ILLMClient {
+	calls = 0;
+
+	constructor(
+		private output: string,
+		private delayMs = 0,
+	) {}
+
+	async complete(_messages: LLMMessage[]): Promise<LLMResponse> {
+		this.calls++;
+		await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+		return {
+			content: this.output,
+			model: "stub",
+			usage: { inputTokens: 10, outputTokens: 20 },
+		};
+	}
+
+	async completeJSON<T>(): Promise<T> {
+		throw new Error("not used");
+	}
+
+	getProvider() {
+		return "local" as const;
+	}
+
+	getModel() {
+		return "stub";
+	}
+
+	async testConnection() {
+		return true;
+	}
+
+	getAccumulatedUsage(): LLMUsageStats {
+		return { inputTokens: 0, outputTokens: 0, cost: 0, calls: 0 };
+	}
+
+	resetAccumulatedUsage() {}
+
+	isCloud() {
+		return false;
+	}
+
+	async getModelSizeB() {
+		return undefined;
+	}
+}
+
+/** Semantic backend recording the variants it was asked to search */
+class RecordingBackend implements ISearchBackend {
+	readonly name = "semantic" as const;
+	calls: Array<{ query: string; mode: SearchOptions["retrievalMode"] }> = [];
+
+	async search(
+		query: string,
+		_intent: unknown,
+		options: SearchOptions,
+	): Promise<BackendResult[]> {
+		this.calls.push({ query, mode: options.retrievalMode });
+		const file = options.retrievalMode ? "src/retry.ts" : "src/http.ts";
+		return [
+			{ file, startLine: 1, snippet: query, score: 1, backend: "semantic" },
+		];
+	}
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("parseQueryExpansion", () => {
+	test("reads lex, vec and multi-line hyde variants", () => {
+		expect(parseQueryExpansion(EXPANSION_OUTPUT, "retry logic")).toEqual({
+			lex: ["retry backoff exponential attempts"],
+			vec: ["code that retries failed requests with increasing delays"],
+			hyde: [
+				"async function withRetry(fn, attempts) {\n  for (let i = 0; i < attempts; i++) await sleep(2 ** i);\n}",
+			],
+		});
+	});
+
+	test("tolerates reasoning and markdown, drops echoes of the query", () => {
+		const output = `<think>The user wants auth.</think>
+- **lex:** login session token
+- **vec:** Retry Logic
+Sure, here you go.`;
+		expect(parseQueryExpansion(output, "retry logic")).toEqual({
+			lex: ["login session token"],
+			vec: [],
+			hyde: [],
+		});
+		expect(parseQueryExpansion("I cannot help with that.", "x")).toBeNull();
+	});
+});
+
+describe("QueryExpander", () => {
+	test("caches expansions per normalized query", async () => {
+		const llm = new StubLLMClient(EXPANSION_OUTPUT);
+		const expander = createQueryExpander(llm);
+
+		const first = await expander.expand("retry logic");
+		const second = await expander.expand("  Retry   LOGIC ");
+		expect(second).toEqual(first);
+		expect(llm.calls).toBe(1);
+	});
+
+	test("gives up at the latency budget and caches the late answer", async () => {
+		const llm = new StubLLMClient(EXPANSION_OUTPUT, 50);
+		const expander = createQueryExpander(llm, { budgetMs: 5 });
+
+		expect(await expander.expand("retry logic")).toBeNull();
+
+		await new Promise((resolve) => setTimeout(resolve, 80));
+		expect(await expander.expand("retry logic")).not.toBeNull();
+		expect(llm.calls).toBe(1);
+	});
+
+	test("evicts the least recently used expansion", async () => {
+		const expander = createQueryExpander(new StubLLMClient(EXPANSION_OUTPUT), {
+			cacheSize: 2,
+		});
+		await expander.expand("first query");
+		await expander.expand("second query");
+		await expander.expand("third query");
+		expect(expander.cacheSize).toBe(2);
+	});
+});
+
+describe("PipelineOrchestrator query expansion", () => {
+	const config = { ...DEFAULT_PIPELINE_CONFIG, queryExpansion: true };
+	const router = new QueryRouter(null, { useLLM: false });
+
+	test("fans lex variants to BM25 and vec/hyde to vectors", async () => {
+		const backend = new RecordingBackend();
+		const orchestrator = new PipelineOrchestrator(
+			router,
+			[backend],
+			config,
+			createQueryExpander(new StubLLMClient(EXPANSION_OUTPUT)),
+		);
+
+		const results = await orchestrator.search("how does retry logic work");
+
+		expect(backend.calls.map((c) => c.mode)).toEqual([
+			undefined,
+			"keyword",
+			"vector",
+			"vector",
+		]);
+		// Three variants agreeing outrank the single original-query hit
+		expect(results.map((r) => r.file)).toEqual(["src/retry.ts", "src/http.ts"]);
+	});
+
+	test("skips expansion for identifier lookups and when disabled", async () => {
+		const llm = new StubLLMClient(EXPANSION_OUTPUT);
+		const backend = new RecordingBackend();
+
+		await new PipelineOrchestrator(
+			router,
+			[backend],
+			config,
+			createQueryExpander(llm),
+		).search("UserService");
+		await new PipelineOrchestrator(
+			router,
+			[backend],
+			DEFAULT_PIPELINE_CONFIG,
+			createQueryExpander(llm),
+		).search("how does retry logic work");
+
+		expect(llm.calls).toBe(0);
+		expect(backend.calls.every((c) => c.mode === undefined)).toBe(true);
+	});
+});
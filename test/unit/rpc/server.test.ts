@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the editor protocol server (src/rpc/server.ts):
+ * request framing, dispatch errors, result mapping and console redirection.
+ */
+
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	JSONRPC_VERSION,
+	PROTOCOL_VERSION,
+	RPC_ERROR_CODES,
+	type RpcRequest,
+} from "../../../src/rpc/protocol.js";
+import {
+	createRpcHandler,
+	parseRequest,
+	redirectConsoleToStderr,
+	toSearchResult,
+	toSymbolInfo,
+} from "../../../src/rpc/server.js";
+import type { SearchResult, SymbolDefinition } from "../../../src/types.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const projectDir = mkdtempSync(join(tmpdir(), "mnemex-rpc-"));
+
+afterAll(() => {
+	rmSync(projectDir, { recursive: true, force: true });
+});
+
+function request(
+	method: string,
+	params?: unknown,
+	id: string | number = 1,
+): RpcRequest {
+	return {
+		jsonrpc: JSONRPC_VERSION,
+		id,
+		method: method as RpcRequest["method"],
+		params,
+	};
+}
+
+const symbol: SymbolDefinition = {
+	id: "sym-1",
+	name: "loadConfig",
+	kind: "function",
+	filePath: "src/config.ts",
+	startLine: 10,
+	endLine: 42,
+	isExported: true,
+	pagerankScore: 0.25,
+	signature: "function loadConfig(path: string): Config",
+	language: "typescript",
+	createdAt: "2026-01-01T00:00:00Z",
+	updatedAt: "2026-01-01T00:00:00Z",
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("parseRequest", () => {
+	test("accepts JSON-RPC 2.0 requests", () => {
+		const parsed = parseRequest(
+			'{"jsonrpc":"2.0","id":7,"method":"status","params":{}}',
+		);
+		expect(parsed).toEqual(request("status", {}, 7));
+	});
+
+	test("rejects malformed lines with protocol errors", () => {
+		expect(parseRequest("{not json")).toMatchObject({
+			id: null,
+			error: { code: RPC_ERROR_CODES.parseError },
+		});
+		expect(parseRequest('{"id":"a","method":"status"}')).toMatchObject({
+			id: "a",
+			error: { code: RPC_ERROR_CODES.invalidRequest },
+		});
+		expect(parseRequest("null")).toMatchObject({
+			id: null,
+			error: { code: RPC_ERROR_CODES.invalidRequest },
+		});
+	});
+});
+
+describe("RpcHandler", () => {
+	const handler = createRpcHandler(projectDir, { serverVersion: "9.9.9" });
+
+	test("initialize reports the protocol version and methods", async () => {
+		const response = await handler.handle(request("initialize"));
+		expect(response).toMatchObject({
+			id: 1,
+			result: {
+				protocolVersion: PROTOCOL_VERSION,
+				serverVersion: "9.9.9",
+				projectPath: projectDir,
+			},
+		});
+		if ("result" in response) {
+			expect((response.result as { methods: string[] }).methods).toContain(
+				"callers",
+			);
+		}
+	});
+
+	test("maps failures to error codes", async () => {
+		expect(await handler.handle(request("frobnicate"))).toMatchObject({
+			error: { code: RPC_ERROR_CODES.methodNotFound },
+		});
+		expect(await handler.handle(request("callers", {}))).toMatchObject({
+			error: { code: RPC_ERROR_CODES.invalidParams },
+		});
+		expect(
+			await handler.handle(request("callers", { name: "loadConfig" })),
+		).toMatchObject({
+			error: { code: RPC_ERROR_CODES.noIndex },
+		});
+	});
+
+	test("cancel only reports requests that are in flight", async () => {
+		expect(
+			await handler.handle(request("cancel", { id: "gone" }, 2)),
+		).toMatchObject({ result: { ok: true, cancelled: false } });
+	});
+});
+
+describe("result mapping", () => {
+	test("converts symbols to the protocol shape", () => {
+		expect(toSymbolInfo(symbol)).toEqual({
+			name: "loadConfig",
+			file: "src/config.ts",
+			line: 10,
+			endLine: 42,
+			kind: "function",
+			exported: true,
+			pagerank: 0.25,
+			signature: "function loadConfig(path: string): Config",
+		});
+	});
+
+	test("converts search results to the protocol shape", () => {
+		const result = {
+			chunk: {
+				filePath: "src/config.ts",
+				startLine: 10,
+				endLine: 42,
+				chunkType: "function",
+			},
+			score: 0.8,
+			vectorScore: 0.7,
+			keywordScore: 0.9,
+		} as SearchResult;
+		expect(toSearchResult(result)).toEqual({
+			file: "src/config.ts",
+			line: 10,
+			endLine: 42,
+			score: 0.8,
+			type: "function",
+			name: "",
+		});
+	});
+});
+
+describe("redirectConsoleToStderr", () => {
+	test("sends console logging to stderr until restored", () => {
+		const { error, log } = console;
+		const logged: unknown[][] = [];
+		console.error = (...args: unknown[]) => {
+			logged.push(args);
+		};
+
+		const restore = redirectConsoleToStderr();
+		try {
+			console.log("indexing", 1);
+			console.info("info");
+			console.debug("debug");
+		} finally {
+			restore();
+			console.error = error;
+		}
+
+		expect(logged).toEqual([["indexing", 1], ["info"], ["debug"]]);
+		expect(console.log).toBe(log);
+	});
+});
@@ -1,21 +1,13 @@
-import { spawn, execSync } from "child_process";
+import {
+	spawn,
+	execSync,
+	type ChildProcessWithoutNullStreams,
+} from "child_process";
 import { createInterface } from "readline";
 import * as path from "path";
 import * as fs from "fs";
 import * as vscode from "vscode";
 import { log } from "./log.js";
-import { parseSearchOutput } from "./parsers/search.js";
-import { parseMapOutput } from "./parsers/map.js";
-import { parseStatusOutput } from "./parsers/status.js";
-import { parseSymbolOutput } from "./parsers/symbol.js";
-import { parseCallersOutput } from "./parsers/callers.js";
-import { parseCalleesOutput } from "./parsers/callees.js";
-import { parseContextOutput } from "./parsers/context.js";
-import {
-	parseDeadCodeOutput,
-	parseTestGapsOutput,
-	parseImpactOutput,
-} from "./parsers/analysis.js";
 import type {
 	SearchResult,
 	RepoMapEntry,
@@ -28,6 +20,15 @@ import type {
 	TestGapResult,
 	ImpactResult,
 } from "./types/messages.js";
+import {
+	PROTOCOL_VERSION,
+	type RpcIndexProgressParams,
+	type RpcIndexResult,
+	type RpcInitializeResult,
+	type RpcMethod,
+	type RpcRequest,
+	type RpcServerMessage,
+} from "./types/protocol.js";
 
 export class CliBridgeError extends Error {
 	constructor(
@@ -137,17 +138,174 @@ function findBun(): string {
 	return "bun";
 }
 
+interface PendingRequest {
+	resolve: (result: unknown) => void;
+	reject: (err: Error) => void;
+	onProgress?: (params: RpcIndexProgressParams) => void;
+}
+
 /**
- * CliBridge: spawns the mnemex CLI with --agent mode, collects output, and
- * returns typed parsed results. All commands use AbortController for timeout
- * and cancellation. stderr is collected and included in error messages.
+ * One `mnemex serve --jsonrpc` process for a project. Requests are written
+ * to stdin as JSON-RPC lines and matched to responses by id; `index/progress`
+ * notifications are routed to the request that started the index run.
+ */
+class RpcConnection {
+	private readonly _pending = new Map<number, PendingRequest>();
+	private _nextId = 1;
+	private _stderr = "";
+	private _closed = false;
+	readonly ready: Promise<RpcInitializeResult>;
+
+	constructor(
+		private readonly _child: ChildProcessWithoutNullStreams,
+		private readonly _spawnError: (err: NodeJS.ErrnoException) => string,
+		private readonly _onClose: () => void,
+	) {
+		const rl = createInterface({ input: _child.stdout });
+		rl.on("line", (line: string) => this._handleLine(line));
+
+		_child.stderr.on("data", (chunk: Buffer) => {
+			const text = chunk.toString("utf8");
+			log(`  serve stderr: ${text.trim().slice(0, 200)}`);
+			this._stderr = (this._stderr + text).slice(-4000);
+		});
+		_child.on("error", (err: NodeJS.ErrnoException) => {
+			this._close(new CliBridgeError(this._spawnError(err), "", null));
+		});
+		_child.on("close", (code: number | null) => {
+			log(`serve exited code=${code}`);
+			const msg =
+				this._stderr.trim() || `mnemex serve exited with code ${code}`;
+			this._close(new CliBridgeError(msg, this._stderr, code));
+		});
+
+		this.ready = this.request<RpcInitializeResult>("initialize", {
+			protocolVersion: PROTOCOL_VERSION,
+			clientName: "vscode",
+		}).then((result) => {
+			if (result.protocolVersion !== PROTOCOL_VERSION) {
+				throw new CliBridgeError(
+					`mnemex ${result.serverVersion} speaks protocol v${result.protocolVersion}, ` +
+						`this extension needs v${PROTOCOL_VERSION}. Update mnemex or the extension.`,
+					"",
+					null,
+				);
+			}
+			log(
+				`serve ready: mnemex ${result.serverVersion} protocol=v${result.protocolVersion}`,
+			);
+			return result;
+		});
+	}
+
+	get closed(): boolean {
+		return this._closed;
+	}
+
+	/** Send a request; returns the id and a promise for its result. */
+	send<T>(
+		method: RpcMethod,
+		params?: unknown,
+		onProgress?: (params: RpcIndexProgressParams) => void,
+	): { id: number; result: Promise<T> } {
+		const id = this._nextId++;
+		const result = new Promise<T>((resolve, reject) => {
+			if (this._closed) {
+				reject(new CliBridgeError("mnemex serve is not running", "", null));
+				return;
+			}
+			this._pending.set(id, {
+				resolve: resolve as (result: unknown) => void,
+				reject,
+				onProgress,
+			});
+			const request: RpcRequest = { jsonrpc: "2.0", id, method, params };
+			log(`rpc -> ${method} id=${id}`);
+			this._child.stdin.write(`${JSON.stringify(request)}\n`);
+		});
+		return { id, result };
+	}
+
+	request<T>(method: RpcMethod, params?: unknown): Promise<T> {
+		return this.send<T>(method, params).result;
+	}
+
+	/** Stop waiting for a request and tell the server to drop its result. */
+	abandon(id: number, reason: Error): void {
+		const pending = this._pending.get(id);
+		if (!pending) return;
+		this._pending.delete(id);
+		pending.reject(reason);
+		this.send("cancel", { id }).result.catch(() => {});
+	}
+
+	dispose(): void {
+		if (this._closed) return;
+		this.send("shutdown").result.catch(() => {});
+		this._child.stdin.end();
+	}
+
+	private _handleLine(line: string): void {
+		let message: RpcServerMessage;
+		try {
+			message = JSON.parse(line) as RpcServerMessage;
+		} catch {
+			log(`  serve: ignoring non-JSON line: ${line.slice(0, 200)}`);
+			return;
+		}
+
+		if (message.method === "index/progress") {
+			const params = message.params as RpcIndexProgressParams;
+			this._pending.get(Number(params.id))?.onProgress?.(params);
+			return;
+		}
+
+		if (typeof message.id !== "number") {
+			if (message.error) log(`  serve error: ${message.error.message}`);
+			return;
+		}
+		const pending = this._pending.get(message.id);
+		if (!pending) return;
+		this._pending.delete(message.id);
+
+		if (message.error) {
+			pending.reject(
+				new CliBridgeError(message.error.message, "", message.error.code),
+			);
+		} else {
+			pending.resolve(message.result);
+		}
+	}
+
+	private _close(err: CliBridgeError): void {
+		if (this._closed) return;
+		this._closed = true;
+		for (const pending of this._pending.values()) {
+			pending.reject(err);
+		}
+		this._pending.clear();
+		this._onClose();
+	}
+}
+
+/**
+ * CliBridge: talks to a long-lived `mnemex serve --jsonrpc` process per
+ * project and returns typed results. Requests time out after the configured
+ * command timeout and can be cancelled by requestId.
  */
 export class CliBridge {
 	private readonly _binaryPath: string;
 	private readonly _useBun: boolean;
 	private readonly _bunPath: string;
 	private readonly _timeoutMs: number;
-	private readonly _activeControllers = new Map<string, AbortController>();
+	private readonly _connections = new Map<string, RpcConnection>();
+	private readonly _active = new Map<
+		string,
+		{ connection: RpcConnection; id: number }
+	>();
+	/** Requests waiting for their server to start, and which were cancelled */
+	private readonly _starting = new Set<string>();
+	private readonly _cancelledEarly = new Set<string>();
 
 	constructor() {
 		this._binaryPath = findMnemex();
@@ -165,135 +323,151 @@ export class CliBridge {
 		if (this._useBun) {
 			return {
 				command: this._bunPath,
-				spawnArgs: ["run", this._binaryPath, ...args, "--agent"],
+				spawnArgs: ["run", this._binaryPath, ...args],
 			};
 		}
-		return { command: this._binaryPath, spawnArgs: [...args, "--agent"] };
+		return { command: this._binaryPath, spawnArgs: args };
 	}
 
-	/**
-	 * Cancel an in-flight command by requestId.
-	 */
-	cancel(requestId: string): void {
-		const controller = this._activeControllers.get(requestId);
-		if (controller) {
-			controller.abort();
-			this._activeControllers.delete(requestId);
+	/** Get the server for a project, starting it on first use. */
+	private async _connection(projectPath: string): Promise<RpcConnection> {
+		let connection = this._connections.get(projectPath);
+		if (!connection || connection.closed) {
+			const { command, spawnArgs } = this._spawnArgs([
+				"serve",
+				"--jsonrpc",
+				projectPath,
+			]);
+			log(`exec: ${command} ${spawnArgs.join(" ")}`);
+			const child = spawn(command, spawnArgs, {
+				cwd: projectPath,
+				env: { ...process.env, CI: "1" },
+				stdio: ["pipe", "pipe", "pipe"],
+			});
+			log(`  pid=${child.pid ?? "none"}`);
+
+			const created: RpcConnection = new RpcConnection(
+				child,
+				(err) =>
+					err.code === "ENOENT"
+						? this._useBun
+							? `bun not found at "${this._bunPath}". Install bun or set mnemex.binaryPath.`
+							: `mnemex binary not found at "${this._binaryPath}". Install mnemex or set mnemex.binaryPath in settings.`
+						: err.message,
+				() => {
+					if (this._connections.get(projectPath) === created) {
+						this._connections.delete(projectPath);
+					}
+				},
+			);
+			connection = created;
+			this._connections.set(projectPath, connection);
 		}
+
+		try {
+			await connection.ready;
+		} catch (err) {
+			connection.dispose();
+			this._connections.delete(projectPath);
+			throw err;
+		}
+		return connection;
 	}
 
 	/**
-	 * Run a mnemex command and collect all stdout. Rejects on non-zero exit,
-	 * timeout, or spawn error. requestId is used for cancellation tracking.
+	 * Send a request to the project's server. Rejects on a protocol error,
+	 * timeout, cancellation or server exit.
 	 */
-	async runCommand(
-		args: string[],
+	private async _request<T>(
 		projectPath: string,
+		method: RpcMethod,
+		params: unknown,
 		requestId?: string,
-	): Promise<string> {
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), this._timeoutMs);
+		options: {
+			timeoutMs?: number;
+			onProgress?: (params: RpcIndexProgressParams) => void;
+		} = {},
+	): Promise<T> {
+		if (requestId) this._starting.add(requestId);
+		let connection: RpcConnection;
+		let cancelled = false;
+		try {
+			connection = await this._connection(projectPath);
+		} finally {
+			if (requestId) {
+				this._starting.delete(requestId);
+				cancelled = this._cancelledEarly.delete(requestId);
+			}
+		}
+		if (cancelled) {
+			throw new CliBridgeError("Command timed out or was cancelled", "", null);
+		}
+		const { id, result } = connection.send<T>(
+			method,
+			params,
+			options.onProgress,
+		);
+		const timeoutId = setTimeout(
+			() =>
+				connection.abandon(
+					id,
+					new CliBridgeError("Command timed out or was cancelled", "", null),
+				),
+			options.timeoutMs ?? this._timeoutMs,
+		);
 
 		if (requestId) {
-			this._activeControllers.set(requestId, controller);
+			this._active.set(requestId, { connection, id });
 		}
 
 		try {
-			return await new Promise<string>((resolve, reject) => {
-				const { command, spawnArgs } = this._spawnArgs(args);
-				log(`exec: ${command} ${spawnArgs.join(" ")}`);
-				const child = spawn(command, spawnArgs, {
-					cwd: projectPath,
-					env: { ...process.env, CI: "1" },
-					signal: controller.signal,
-					stdio: ["ignore", "pipe", "pipe"],
-				});
-
-				const stdoutChunks: Buffer[] = [];
-				const stderrChunks: Buffer[] = [];
-
-				const spawnTime = Date.now();
-				log(`  pid=${child.pid ?? "none"}`);
-				child.stdout.on("data", (chunk: Buffer) => {
-					if (stdoutChunks.length === 0) {
-						log(
-							`  first stdout at +${Date.now() - spawnTime}ms (${chunk.length} bytes)`,
-						);
-					}
-					stdoutChunks.push(chunk);
-				});
-				child.stderr.on("data", (chunk: Buffer) => {
-					log(
-						`  stderr at +${Date.now() - spawnTime}ms: ${chunk.toString("utf8").trim().slice(0, 200)}`,
-					);
-					stderrChunks.push(chunk);
-				});
-
-				child.on("error", (err: NodeJS.ErrnoException) => {
-					if (err.name === "AbortError" || controller.signal.aborted) {
-						reject(
-							new CliBridgeError(
-								"Command timed out or was cancelled",
-								"",
-								null,
-							),
-						);
-					} else if (err.code === "ENOENT") {
-						const hint = this._useBun
-							? `bun not found at "${this._bunPath}". Install bun or set mnemex.binaryPath.`
-							: `mnemex binary not found at "${this._binaryPath}". Install mnemex or set mnemex.binaryPath in settings.`;
-						reject(new CliBridgeError(hint, "", null));
-					} else {
-						reject(new CliBridgeError(err.message, "", null));
-					}
-				});
-
-				child.on("close", (code: number | null) => {
-					const stdout = Buffer.concat(stdoutChunks).toString("utf8");
-					const stderr = Buffer.concat(stderrChunks).toString("utf8");
-
-					if (stderr.trim()) {
-						log(`stderr: ${stderr.trim().slice(0, 500)}`);
-					}
-					log(`exit code=${code} stdout=${stdout.length} bytes`);
-
-					if (code !== 0) {
-						const msg = stderr.trim() || `Command exited with code ${code}`;
-						reject(new CliBridgeError(msg, stderr, code));
-					} else {
-						resolve(stdout);
-					}
-				});
-			});
+			return await result;
 		} finally {
 			clearTimeout(timeoutId);
 			if (requestId) {
-				this._activeControllers.delete(requestId);
+				this._active.delete(requestId);
 			}
 		}
 	}
 
+	/**
+	 * Cancel an in-flight command by requestId.
+	 */
+	cancel(requestId: string): void {
+		const active = this._active.get(requestId);
+		if (active) {
+			active.connection.abandon(
+				active.id,
+				new CliBridgeError("Command timed out or was cancelled", "", null),
+			);
+			this._active.delete(requestId);
+		} else if (this._starting.has(requestId)) {
+			this._cancelledEarly.add(requestId);
+		}
+	}
+
+	/** Shut down all servers started by this bridge. */
+	dispose(): void {
+		for (const connection of this._connections.values()) {
+			connection.dispose();
+		}
+		this._connections.clear();
+	}
+
 	async search(
 		query: string,
 		projectPath: string,
 		requestId?: string,
 	): Promise<SearchResult[]> {
-		const raw = await this.runCommand(
-			["search", query],
-			projectPath,
-			requestId,
-		);
-		return parseSearchOutput(raw);
+		return this._request(projectPath, "search", { query }, requestId);
 	}
 
 	async map(projectPath: string, requestId?: string): Promise<RepoMapEntry[]> {
-		const raw = await this.runCommand(["map"], projectPath, requestId);
-		return parseMapOutput(raw);
+		return this._request(projectPath, "map", {}, requestId);
 	}
 
 	async status(projectPath: string, requestId?: string): Promise<IndexStatus> {
-		const raw = await this.runCommand(["status"], projectPath, requestId);
-		return parseStatusOutput(raw);
+		return this._request(projectPath, "status", {}, requestId);
 	}
 
 	async symbol(
@@ -301,8 +475,7 @@ export class CliBridge {
 		projectPath: string,
 		requestId?: string,
 	): Promise<SymbolInfo> {
-		const raw = await this.runCommand(["symbol", name], projectPath, requestId);
-		return parseSymbolOutput(raw);
+		return this._request(projectPath, "symbol", { name }, requestId);
 	}
 
 	async callers(
@@ -310,12 +483,7 @@ export class CliBridge {
 		projectPath: string,
 		requestId?: string,
 	): Promise<CallersResult> {
-		const raw = await this.runCommand(
-			["callers", name],
-			projectPath,
-			requestId,
-		);
-		return parseCallersOutput(raw);
+		return this._request(projectPath, "callers", { name }, requestId);
 	}
 
 	async callees(
@@ -323,12 +491,7 @@ export class CliBridge {
 		projectPath: string,
 		requestId?: string,
 	): Promise<CalleesResult> {
-		const raw = await this.runCommand(
-			["callees", name],
-			projectPath,
-			requestId,
-		);
-		return parseCalleesOutput(raw);
+		return this._request(projectPath, "callees", { name }, requestId);
 	}
 
 	async context(
@@ -336,28 +499,21 @@ export class CliBridge {
 		projectPath: string,
 		requestId?: string,
 	): Promise<ContextResult> {
-		const raw = await this.runCommand(
-			["context", name],
-			projectPath,
-			requestId,
-		);
-		return parseContextOutput(raw);
+		return this._request(projectPath, "context", { name }, requestId);
 	}
 
 	async deadCode(
 		projectPath: string,
 		requestId?: string,
 	): Promise<DeadCodeResult[]> {
-		const raw = await this.runCommand(["dead-code"], projectPath, requestId);
-		return parseDeadCodeOutput(raw);
+		return this._request(projectPath, "deadCode", {}, requestId);
 	}
 
 	async testGaps(
 		projectPath: string,
 		requestId?: string,
 	): Promise<TestGapResult[]> {
-		const raw = await this.runCommand(["test-gaps"], projectPath, requestId);
-		return parseTestGapsOutput(raw);
+		return this._request(projectPath, "testGaps", {}, requestId);
 	}
 
 	async impact(
@@ -365,83 +521,32 @@ export class CliBridge {
 		projectPath: string,
 		requestId?: string,
 	): Promise<ImpactResult> {
-		const raw = await this.runCommand(["impact", name], projectPath, requestId);
-		return parseImpactOutput(raw);
+		return this._request(projectPath, "impact", { name }, requestId);
 	}
 
 	/**
-	 * Stream the index command output line by line.
-	 * The first line may be a non-structured banner ("Indexing /path/...") — skip it.
-	 * Calls onLine for each output line. Resolves when the process exits.
+	 * Run an incremental index, reporting each `index/progress` notification
+	 * and the final summary through onLine. Resolves when indexing finishes.
 	 */
 	async index(
 		projectPath: string,
 		onLine: (line: string) => void,
 		requestId?: string,
 	): Promise<void> {
-		const controller = new AbortController();
-		const timeoutMs = 5 * 60 * 1000; // 5 minutes for indexing
-		const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-		if (requestId) {
-			this._activeControllers.set(requestId, controller);
-		}
-
-		try {
-			return await new Promise<void>((resolve, reject) => {
-				const { command, spawnArgs } = this._spawnArgs(["index", "."]);
-				const child = spawn(command, spawnArgs, {
-					cwd: projectPath,
-					env: { ...process.env, CI: "1" },
-					signal: controller.signal,
-					stdio: ["ignore", "pipe", "pipe"],
-				});
-
-				const rl = createInterface({ input: child.stdout });
-				const stderrChunks: Buffer[] = [];
-
-				child.stderr.on("data", (chunk: Buffer) => stderrChunks.push(chunk));
-
-				rl.on("line", (line: string) => {
-					// Skip non-structured lines (e.g., "Indexing /path/...")
-					if (line.trim() && line.includes("=")) {
-						onLine(line);
-					} else if (line.trim()) {
-						// Pass through banner lines as opaque strings
-						onLine(line);
-					}
-				});
-
-				child.on("error", (err: NodeJS.ErrnoException) => {
-					if (err.name === "AbortError" || controller.signal.aborted) {
-						reject(
-							new CliBridgeError(
-								"Index command timed out or was cancelled",
-								"",
-								null,
-							),
-						);
-					} else {
-						reject(new CliBridgeError(err.message, "", null));
-					}
-				});
-
-				child.on("close", (code: number | null) => {
-					const stderr = Buffer.concat(stderrChunks).toString("utf8");
-					if (code !== 0) {
-						const msg =
-							stderr.trim() || `Index command exited with code ${code}`;
-						reject(new CliBridgeError(msg, stderr, code));
-					} else {
-						resolve();
-					}
-				});
-			});
-		} finally {
-			clearTimeout(timeoutId);
-			if (requestId) {
-				this._activeControllers.delete(requestId);
-			}
-		}
+		const result = await this._request<RpcIndexResult>(
+			projectPath,
+			"index",
+			{},
+			requestId,
+			{
+				timeoutMs: 5 * 60 * 1000, // 5 minutes for indexing
+				onProgress: ({ current, total, detail }) =>
+					onLine(`[${current}/${total}] ${detail}`),
+			},
+		);
+		const errors = result.errors > 0 ? `, ${result.errors} errors` : "";
+		onLine(
+			`Indexed ${result.filesIndexed} files (${result.chunksCreated} chunks) in ${(result.durationMs / 1000).toFixed(1)}s${errors}`,
+		);
 	}
 }
@@ -33,6 +33,7 @@ export class CompanionPanelProvider {
 		private readonly _context: vscode.ExtensionContext,
 	) {
 		this._bridge = new CliBridge();
+		this._context.subscriptions.push({ dispose: () => this._bridge.dispose() });
 	}
 
 	/**
@@ -25,6 +25,7 @@ export class SearchProvider implements vscode.WebviewViewProvider {
 		private readonly _context: vscode.ExtensionContext,
 	) {
 		this._bridge = new CliBridge();
+		this._context.subscriptions.push({ dispose: () => this._bridge.dispose() });
 	}
 
 	resolveWebviewView(
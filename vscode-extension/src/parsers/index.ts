@@ -1,10 +0,0 @@
-// Re-export all parser utilities and functions
-export { parseKV, parsePrefix } from './kv.js';
-export { parseSearchOutput } from './search.js';
-export { parseMapOutput } from './map.js';
-export { parseStatusOutput } from './status.js';
-export { parseSymbolOutput } from './symbol.js';
-export { parseCallersOutput } from './callers.js';
-export { parseCalleesOutput } from './callees.js';
-export { parseContextOutput } from './context.js';
-export { parseDeadCodeOutput, parseTestGapsOutput, parseImpactOutput } from './analysis.js';
@@ -0,0 +1,66 @@
+// Editor protocol spoken by `mnemex serve --jsonrpc`.
+// This file mirrors the envelope types in mnemex's src/rpc/protocol.ts; the
+// result shapes are the ones in ./messages.ts.
+
+/** Protocol version this extension was written against */
+export const PROTOCOL_VERSION = 1;
+
+export type RpcMethod =
+  | 'initialize'
+  | 'search'
+  | 'symbol'
+  | 'callers'
+  | 'callees'
+  | 'context'
+  | 'impact'
+  | 'deadCode'
+  | 'testGaps'
+  | 'map'
+  | 'status'
+  | 'index'
+  | 'cancel'
+  | 'shutdown';
+
+export const RPC_ERROR_CODES = {
+  requestCancelled: -32800,
+  noIndex: -32001,
+  symbolNotFound: -32002,
+} as const;
+
+export interface RpcInitializeResult {
+  protocolVersion: number;
+  serverVersion: string;
+  projectPath: string;
+  methods: RpcMethod[];
+}
+
+export interface RpcIndexResult {
+  filesIndexed: number;
+  chunksCreated: number;
+  durationMs: number;
+  errors: number;
+}
+
+export interface RpcIndexProgressParams {
+  id: string | number;
+  current: number;
+  total: number;
+  detail: string;
+}
+
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: RpcMethod;
+  params?: unknown;
+}
+
+/** Any message the server writes: a response or a notification */
+export interface RpcServerMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+  method?: string;
+  params?: unknown;
+}